@@ -11,6 +11,356 @@ export interface PaginatedResponse<T> {
   };
 }
 
+export interface NotificationPreferences {
+  userId: string;
+  invites: boolean;
+  friendRequests: boolean;
+  ratingReminders: boolean;
+  eloChanges: boolean;
+  chatMentions: boolean;
+  inApp: boolean;
+  emailDigest: boolean;
+  push: boolean;
+  quietHoursEnabled: boolean;
+  quietHoursStart: string;
+  quietHoursEnd: string;
+  timeZone: string;
+  updatedAt: string;
+}
+
+export interface PrivacySettings {
+  userId: string;
+  autoPostActivityRecaps: boolean;
+  autoPostSkillMilestones: boolean;
+  autoPostVisibility: "public" | "friends" | "private";
+  updatedAt: string;
+}
+
+export interface Venue {
+  id: string;
+  publicId: string;
+  name: string;
+  address: string | null;
+  city: string | null;
+  latitude: number;
+  longitude: number;
+  // Present when the list was requested around a point
+  distanceKm?: number | null;
+}
+
+export interface VenueResource {
+  id: string;
+  venueId: string;
+  name: string;
+  capacity: number | null;
+  isActive: boolean;
+}
+
+export interface OpeningHours {
+  dayOfWeek: number; // 0 = Sunday
+  opensAt: string; // HH:mm, venue local time
+  closesAt: string;
+}
+
+export interface VenueDetails extends Venue {
+  timeZone: string;
+  resources: VenueResource[];
+  openingHours: OpeningHours[];
+  activityTypes: { id: string; name: string }[];
+}
+
+export interface TimeSlot {
+  start: string;
+  end: string;
+}
+
+export interface VenueAvailability {
+  venue: { id: string; name: string; timeZone: string };
+  date: string;
+  openingHours: TimeSlot[];
+  resources: {
+    id: string;
+    name: string;
+    capacity: number | null;
+    bookings: (TimeSlot & { activityId: string })[];
+    freeSlots: TimeSlot[];
+  }[];
+}
+
+export interface Recurrence {
+  frequency?: "weekly" | "biweekly";
+  weekdays: number[]; // 0 = Sunday
+  until?: string; // YYYY-MM-DD, or give count
+  count?: number;
+  timeZone?: string;
+}
+
+export type ResultStatus = "proposed" | "confirmed" | "disputed" | "resolved";
+
+export interface ParticipantResult {
+  userId: string;
+  finalResult: "win" | "loss" | "draw";
+  placement?: number; // tied players share a position
+  performanceNotes?: string;
+}
+
+// Sides are team names (team IDs in a fixture), or user IDs when nobody has a team
+export type ActivityScore =
+  | { format: "sets"; sets: Record<string, number>[] }
+  | { format: "goals"; goals: Record<string, number> }
+  | { format: "time"; entries: { userId: string; seconds: number }[] }
+  | { format: "distance"; entries: { userId: string; meters: number }[] }
+  | { format: "placement"; entries: { userId: string; position: number }[] };
+
+export interface ActivityResults {
+  id: string;
+  activityId: string;
+  submittedBy: string | null;
+  participantResults: ParticipantResult[];
+  score: ActivityScore | null;
+  completionNotes: string | null;
+  status: ResultStatus;
+  respondBy: string;
+  resolutionNote: string | null;
+  responses: Array<{
+    response: "confirm" | "dispute";
+    reason: string | null;
+    team: string | null;
+    createdAt: string;
+    user: { id: string; username: string | null };
+  }>;
+  outstandingConfirmations?: number;
+}
+
+// Rating run started once results are final; null while they await confirmation
+export type EloProcessing =
+  | {
+      success: boolean;
+      activityId: string;
+      participantsProcessed: number;
+      eloChanges: { userId: string; oldELO: number; newELO: number; change: number }[];
+      error?: string;
+    }
+  | { success: false; error: string }
+  | null;
+
+export interface WaitlistEntry {
+  participantId: string;
+  place: number; // 1-based place in the queue
+  waitlistPosition: number;
+  team: string | null;
+  joinedAt: string;
+  user: { id: string; username: string | null; avatarUrl: string | null };
+}
+
+export interface ActivitySeries {
+  id: string;
+  activityTypeId: string;
+  creatorId: string;
+  description: string;
+  location: string | null;
+  venueId: string | null;
+  venueResourceId: string | null;
+  timeZone: string;
+  startDate: string;
+  startTime: string; // HH:mm in the series time zone
+  intervalWeeks: number;
+  weekdays: number[];
+  untilDate: string | null;
+  occurrenceCount: number | null;
+  isActive: boolean;
+  rrule: string;
+}
+
+export interface ActivitySeriesDetails extends ActivitySeries {
+  regulars: { id: string; username: string; avatarUrl: string | null; team: string | null }[];
+  upcoming: any[];
+}
+
+export interface ActivityTemplateFields {
+  activityTypeId: string;
+  description: string;
+  location?: string;
+  venueId?: string;
+  venueResourceId?: string;
+  durationMinutes?: number;
+  maxParticipants?: number;
+  skillRequirements?: Record<string, number>;
+  isELORated?: boolean;
+  // Team names players pick from; the organiser plays for the first one
+  defaultTeams?: string[];
+}
+
+export interface ActivityTemplate {
+  id: string;
+  name: string;
+  ownerId: string | null;
+  teamId: string | null;
+  activityTypeId: string;
+  description: string;
+  location: string | null;
+  venueId: string | null;
+  venueResourceId: string | null;
+  durationMinutes: number | null;
+  maxParticipants: number | null;
+  skillRequirements: Record<string, number>;
+  isELORated: boolean;
+  defaultTeams: string[];
+  activityType?: { id: string; name: string };
+  team?: { id: string; name: string } | null;
+}
+
+export type TeamRole = "owner" | "captain" | "member";
+
+export interface TeamMembership {
+  id: string;
+  teamId: string;
+  userId: string;
+  role: TeamRole;
+  joinedAt: string;
+}
+
+export interface TeamJoinRequest {
+  id: string;
+  message: string | null;
+  status: "pending" | "approved" | "rejected" | "expired" | "cancelled";
+  expiresAt: string;
+  createdAt: string;
+  user: { id: string; username: string | null; avatarUrl: string | null };
+}
+
+export interface TeamInvitation {
+  id: string;
+  message: string | null;
+  invitedBy: string | null;
+  expiresAt: string;
+  createdAt: string;
+  user?: { id: string; username: string | null; avatarUrl: string | null };
+  team?: { id: string; name: string; description: string | null; activityTypeId: string | null };
+}
+
+export interface TeamRatingTrend {
+  activityType: { id: string; name: string };
+  eloScore: number;
+  gamesPlayed: number;
+  peakELO: number;
+  ratingDeviation: number;
+  lastUpdated: string;
+  recentChange: number;
+  trend: {
+    activityId: string;
+    opponentTeamId: string | null;
+    oldELO: number;
+    newELO: number;
+    eloChange: number;
+    createdAt: string;
+  }[];
+}
+
+export interface TeamLeaderboardEntry {
+  rank: number;
+  team: { id: string; name: string; isPrivate: boolean | null };
+  eloScore: number;
+  gamesPlayed: number;
+  peakELO: number;
+  ratingDeviation: number;
+  lastUpdated: string;
+  isProvisional: boolean;
+}
+
+export type LeagueFormat = "round_robin" | "double_round_robin";
+
+export interface League {
+  id: string;
+  name: string;
+  description: string | null;
+  activityTypeId: string;
+  organizerId: string;
+  format: LeagueFormat;
+  status: "registration" | "active";
+  pointsForWin: number;
+  pointsForDraw: number;
+  pointsForLoss: number;
+  isELORated: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LeagueFixture {
+  id: string;
+  round: number;
+  activity: {
+    id: string;
+    dateTime: string;
+    durationMinutes: number | null;
+    location: string | null;
+    venueId: string | null;
+    completionStatus: string;
+  };
+  homeTeam: { id: string; name: string } | null;
+  awayTeam: { id: string; name: string } | null;
+  // Set once the result is confirmed or settled by a moderator
+  result: { homeGoals: number; awayGoals: number; homeResult: "win" | "loss" | "draw" } | null;
+}
+
+export interface LeagueStanding {
+  position: number;
+  team: { id: string; name: string };
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifference: number;
+  points: number;
+  form: ("W" | "D" | "L")[];
+}
+
+export type PostVisibility = "public" | "friends" | "private";
+
+export interface FeedPost {
+  id: string;
+  userId: string;
+  activityId: string | null;
+  title: string | null;
+  content: string;
+  postType: "activity_recap" | "skill_milestone" | "general";
+  // Recap and milestone details, e.g. eloChange on an activity recap
+  skillHighlights: Record<string, unknown> | null;
+  visibility: PostVisibility;
+  createdAt: string;
+  updatedAt: string;
+  user: { id: string; username: string | null; avatarUrl: string | null };
+  activity: {
+    id: string;
+    dateTime: string;
+    location: string | null;
+    completionStatus: string;
+    activityType: { id: string; name: string };
+  } | null;
+  likesCount: number;
+  commentsCount: number;
+  userHasLiked: boolean;
+}
+
+export interface PostComment {
+  id: string;
+  postId: string;
+  userId: string;
+  parentId: string | null;
+  content: string;
+  createdAt: string;
+  user: { id: string; username: string | null; avatarUrl: string | null };
+  replies: PostComment[];
+}
+
+export interface GeoQuery {
+  lat: number;
+  lng: number;
+  radiusKm?: number;
+}
+
 class ApiClient {
   private baseURL = "/api";
 
@@ -39,6 +389,23 @@ class ApiClient {
     return response.json();
   }
 
+  private async download(endpoint: string): Promise<Blob> {
+    const { token } = useAuthStore.getState();
+
+    const response = await fetch(`${this.baseURL}${endpoint}`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+
+    if (!response.ok) {
+      const error = await response
+        .json()
+        .catch(() => ({ error: "Download failed" }));
+      throw new Error(error.message || error.error || "Download failed");
+    }
+
+    return response.blob();
+  }
+
   // Auth endpoints
   auth = {
     login: (credentials: { email: string; password: string }) =>
@@ -63,6 +430,39 @@ class ApiClient {
         }
       ),
 
+    forgotPassword: (email: string) =>
+      this.request<{ success: boolean; message: string }>(
+        "/auth/forgot-password",
+        {
+          method: "POST",
+          body: JSON.stringify({ email }),
+        }
+      ),
+
+    resetPassword: (token: string, newPassword: string) =>
+      this.request<{ success: boolean; message: string }>(
+        "/auth/reset-password",
+        {
+          method: "POST",
+          body: JSON.stringify({ token, newPassword }),
+        }
+      ),
+
+    verifyEmail: (token: string) =>
+      this.request<{ success: boolean; message: string }>(
+        "/auth/verify-email",
+        {
+          method: "POST",
+          body: JSON.stringify({ token }),
+        }
+      ),
+
+    resendVerification: () =>
+      this.request<{ success: boolean; message: string }>(
+        "/auth/resend-verification",
+        { method: "POST" }
+      ),
+
     logout: () =>
       this.request<{ success: boolean }>("/auth/logout", {
         method: "POST",
@@ -128,6 +528,8 @@ class ApiClient {
         username: string;
         email: string;
         avatarUrl: string;
+        homeLatitude: number | null;
+        homeLongitude: number | null;
       }>
     ) =>
       this.request<{
@@ -139,6 +541,52 @@ class ApiClient {
         body: JSON.stringify(updateData),
       }),
 
+    getNotificationPreferences: () =>
+      this.request<{ success: boolean; data: NotificationPreferences }>(
+        "/users/me/notification-preferences"
+      ),
+
+    updateNotificationPreferences: (
+      updates: Partial<Omit<NotificationPreferences, "userId" | "updatedAt">>
+    ) =>
+      this.request<{
+        success: boolean;
+        data: NotificationPreferences;
+        message: string;
+      }>("/users/me/notification-preferences", {
+        method: "PUT",
+        body: JSON.stringify(updates),
+      }),
+
+    getPrivacySettings: () =>
+      this.request<{ success: boolean; data: PrivacySettings }>(
+        "/users/me/privacy-settings"
+      ),
+
+    updatePrivacySettings: (
+      updates: Partial<Omit<PrivacySettings, "userId" | "updatedAt">>
+    ) =>
+      this.request<{
+        success: boolean;
+        data: PrivacySettings;
+        message: string;
+      }>("/users/me/privacy-settings", {
+        method: "PUT",
+        body: JSON.stringify(updates),
+      }),
+
+    exportData: () => this.download("/users/me/export"),
+
+    deleteAccount: (password?: string) =>
+      this.request<{
+        success: boolean;
+        data: { deletionScheduledAt: string };
+        message: string;
+      }>("/users/me", {
+        method: "DELETE",
+        body: JSON.stringify({ password }),
+      }),
+
     // Connection management
     sendConnectionRequest: (targetUserId: string) =>
       this.request<{ success: boolean; message: string }>(
@@ -181,8 +629,10 @@ class ApiClient {
       dateTo?: string;
       eloRange?: [number, number];
       status?: "scheduled" | "active" | "completed" | "cancelled";
-      participationStatus?: "pending" | "accepted" | "declined" | "rated";
-      participationStatuses?: ("pending" | "accepted" | "declined" | "rated")[];
+      participationStatus?: "pending" | "accepted" | "declined" | "rated" | "waitlisted";
+      participationStatuses?: ("pending" | "accepted" | "declined" | "rated" | "waitlisted")[];
+      near?: GeoQuery;
+      sortBy?: "date" | "created" | "elo" | "participants" | "distance";
     }) => {
       const searchParams = new URLSearchParams();
       if (params) {
@@ -218,6 +668,16 @@ class ApiClient {
         if (params.participationStatus) {
           searchParams.append("participationStatus", params.participationStatus);
         }
+        if (params.near) {
+          searchParams.append("lat", params.near.lat.toString());
+          searchParams.append("lng", params.near.lng.toString());
+          if (params.near.radiusKm !== undefined) {
+            searchParams.append("radiusKm", params.near.radiusKm.toString());
+          }
+        }
+        if (params.sortBy) {
+          searchParams.append("sortBy", params.sortBy);
+        }
       }
 
       const queryString = searchParams.toString();
@@ -240,6 +700,8 @@ class ApiClient {
           creator: any;
           participants: any[];
           userParticipation: any;
+          waitlist: WaitlistEntry[];
+          userWaitlistEntry?: WaitlistEntry;
           description: string;
           maxParticipants: any;
           date: any;
@@ -251,6 +713,7 @@ class ApiClient {
             canEdit: boolean;
             canJoin: boolean;
             canLeave: boolean;
+            canConfirmSpot: boolean;
             canComplete: boolean;
             canRateSkills: boolean;
           };
@@ -261,14 +724,23 @@ class ApiClient {
       activityTypeId: string;
       description: string;
       location?: string;
+      venueId?: string;
+      venueResourceId?: string;
       dateTime: string;
+      durationMinutes?: number;
       maxParticipants?: number;
+      // Promoted waitlist players must confirm within this many hours
+      waitlistConfirmHours?: number;
       eloLevel?: number;
       isELORated?: boolean;
+      // A fixture between two teams; the creator must play for one of them
+      homeTeamId?: string;
+      awayTeamId?: string;
+      recurrence?: Recurrence;
     }) =>
       this.request<{
         success: boolean;
-        data: { activity: any };
+        data: { activity: any; series?: ActivitySeries; occurrences?: any[] };
         message: string;
       }>("/activities", {
         method: "POST",
@@ -284,27 +756,96 @@ class ApiClient {
         maxParticipants: number;
         eloLevel: number;
         isELORated: boolean;
-      }>
+      }>,
+      // For series occurrences, "following" also updates later occurrences
+      scope: "occurrence" | "following" = "occurrence"
     ) =>
       this.request<{
         success: boolean;
-        data: { activity: any };
+        data: { activity: any; occurrences?: any[] };
         message: string;
-      }>(`/activities/${id}`, {
-        method: "PATCH",
+      }>(`/activities/${id}?scope=${scope}`, {
+        method: "PUT",
         body: JSON.stringify(data),
       }),
 
     join: (id: string, team?: string) =>
       this.request<{
         success: boolean;
-        data: { participant: any };
+        data: { participation: any; waitlistPlace?: number };
         message: string;
       }>(`/activities/${id}/join`, {
         method: "POST",
         body: JSON.stringify({ team }),
       }),
 
+    // Participants check themselves in; the creator may pass another userId
+    checkIn: (id: string, userId?: string) =>
+      this.request<{
+        success: boolean;
+        data: { participation: any };
+        message: string;
+      }>(`/activities/${id}/check-in`, {
+        method: "POST",
+        body: JSON.stringify({ userId }),
+      }),
+
+    confirmSpot: (id: string) =>
+      this.request<{
+        success: boolean;
+        data: { participation: any };
+        message: string;
+      }>(`/activities/${id}/confirm-spot`, {
+        method: "POST",
+      }),
+
+    cancel: (id: string, reason: string) =>
+      this.request<{
+        success: boolean;
+        data: { activity: any };
+        message: string;
+      }>(`/activities/${id}/cancel`, {
+        method: "POST",
+        body: JSON.stringify({ reason }),
+      }),
+
+    // Accepted participants confirm the new time with confirmSpot
+    reschedule: (
+      id: string,
+      data: { dateTime: string; durationMinutes?: number; reason?: string }
+    ) =>
+      this.request<{
+        success: boolean;
+        data: { activity: any; confirmBy: string; reconfirming: string[] };
+        message: string;
+      }>(`/activities/${id}/reschedule`, {
+        method: "POST",
+        body: JSON.stringify(data),
+      }),
+
+    // Anything passed alongside dateTime replaces the template's value
+    createFromTemplate: (
+      templateId: string,
+      data: Partial<Omit<ActivityTemplateFields, "activityTypeId" | "defaultTeams">> & {
+        dateTime: string;
+        creatorTeam?: string;
+        recurrence?: Recurrence;
+      }
+    ) =>
+      this.request<{
+        success: boolean;
+        data: {
+          activity: any;
+          series?: ActivitySeries;
+          occurrences?: any[];
+          templateId: string;
+        };
+        message: string;
+      }>(`/activities/from-template/${templateId}`, {
+        method: "POST",
+        body: JSON.stringify(data),
+      }),
+
     leave: (id: string, reason?: string) =>
       this.request<{ success: boolean; message: string }>(
         `/activities/${id}/leave`,
@@ -322,18 +863,46 @@ class ApiClient {
           finalResult: "win" | "loss" | "draw";
           performanceNotes?: string;
         }>;
+        score?: ActivityScore;
         notes?: string;
       }
     ) =>
       this.request<{
         success: boolean;
-        data: { activity: any; eloChanges?: any[] };
+        data: {
+          activityId: string;
+          completionStatus: "completed";
+          isELORated: boolean;
+          resultStatus: ResultStatus;
+          respondBy: string;
+          eloProcessing: EloProcessing;
+        };
         message: string;
       }>(`/activities/${id}/complete`, {
         method: "POST",
         body: JSON.stringify(results),
       }),
 
+    results: (id: string) =>
+      this.request<{ success: boolean; data: { results: ActivityResults } }>(
+        `/activities/${id}/results`
+      ),
+
+    // Disputes need a reason and go to the moderator queue
+    respondToResults: (
+      id: string,
+      response: "confirm" | "dispute",
+      reason?: string
+    ) =>
+      this.request<{
+        success: boolean;
+        data: { resultStatus: ResultStatus; eloProcessing: EloProcessing };
+        message: string;
+      }>(`/activities/${id}/results/respond`, {
+        method: "POST",
+        body: JSON.stringify({ response, reason }),
+      }),
+
     // Participant management
     manageParticipant: (
       activityId: string,
@@ -460,9 +1029,32 @@ class ApiClient {
       return this.request<{ success: boolean; data: any[] }>(endpoint);
     },
 
-    getHistory: (userId: string, activityTypeId: string, days = 30) =>
-      this.request<{ success: boolean; data: any[] }>(
-        `/elo/${userId}/${activityTypeId}/history?days=${days}`
+    getHistory: (
+      userId: string,
+      activityTypeId: string,
+      days = 30,
+      bucket: "day" | "week" = "day"
+    ) =>
+      this.request<{
+        success: boolean;
+        data: {
+          userId: string;
+          bucket: "day" | "week";
+          days: number;
+          history: {
+            activityTypeId: string;
+            activityTypeName: string;
+            bucketStart: string;
+            openingELO: number;
+            closingELO: number;
+            lowELO: number;
+            highELO: number;
+            eloChange: number;
+            gamesPlayed: number;
+          }[];
+        };
+      }>(
+        `/users/${userId}/elo/history?activityTypeId=${activityTypeId}&days=${days}&bucket=${bucket}`
       ),
 
     getLeaderboard: (activityTypeId: string, page = 1, limit = 50) =>
@@ -497,41 +1089,121 @@ class ApiClient {
       return this.request<{ success: boolean; data: any[] }>(endpoint);
     },
 
+    // Average rating of one skill over time
     getSkillHistory: (
       userId: string,
       skillDefinitionId: string,
-      activityTypeId?: string
+      activityTypeId?: string,
+      days = 90,
+      bucket: "day" | "week" = "day"
     ) => {
-      const searchParams = new URLSearchParams({ skillDefinitionId });
+      const searchParams = new URLSearchParams({
+        skillDefinitionId,
+        days: String(days),
+        bucket,
+      });
       if (activityTypeId) {
         searchParams.append("activityTypeId", activityTypeId);
       }
-      return this.request<{ success: boolean; data: any[] }>(
-        `/skills/${userId}/history?${searchParams}`
-      );
+      return this.request<{
+        success: boolean;
+        data: {
+          userId: string;
+          skillDefinitionId: string;
+          bucket: "day" | "week";
+          days: number;
+          history: { bucketStart: string; averageRating: number; ratingsCount: number }[];
+        };
+      }>(`/skill-ratings/user/${userId}/history?${searchParams}`);
     },
   };
 
   feed = {
-    getActivityFeed: (page = 1, limit = 20) =>
-      this.request<PaginatedResponse<any>>(`/feed?page=${page}&limit=${limit}`),
+    // Pass the previous page's nextCursor to continue
+    getActivityFeed: (cursor?: string, limit = 20) => {
+      const searchParams = new URLSearchParams({ limit: String(limit) });
+      if (cursor) searchParams.append("cursor", cursor);
+      return this.request<{
+        success: boolean;
+        data: { posts: FeedPost[]; nextCursor: string | null };
+      }>(`/feed?${searchParams}`);
+    },
 
-    createPost: (activityId: string, data: { content: string }) =>
-      this.request<any>("/feed/posts", {
-        method: "POST",
-        body: JSON.stringify({ activityId, ...data }),
+    getPost: (postId: string) =>
+      this.request<{ success: boolean; data: { post: FeedPost } }>(
+        `/feed/posts/${postId}`
+      ),
+
+    createPost: (
+      activityId: string,
+      data: {
+        content: string;
+        title?: string;
+        postType?: FeedPost["postType"];
+        visibility?: PostVisibility;
+      }
+    ) =>
+      this.request<{ success: boolean; data: { post: FeedPost }; message: string }>(
+        "/feed/posts",
+        {
+          method: "POST",
+          body: JSON.stringify({ ...(activityId && { activityId }), ...data }),
+        }
+      ),
+
+    updatePost: (
+      postId: string,
+      data: Partial<{ title: string; content: string; visibility: PostVisibility }>
+    ) =>
+      this.request<{ success: boolean; data: { post: FeedPost }; message: string }>(
+        `/feed/posts/${postId}`,
+        {
+          method: "PUT",
+          body: JSON.stringify(data),
+        }
+      ),
+
+    deletePost: (postId: string) =>
+      this.request<{ success: boolean; message: string }>(`/feed/posts/${postId}`, {
+        method: "DELETE",
       }),
 
     likePost: (postId: string) =>
-      this.request<any>(`/feed/posts/${postId}/like`, {
+      this.request<{
+        success: boolean;
+        data: { likesCount: number; userHasLiked: boolean };
+      }>(`/feed/posts/${postId}/like`, {
         method: "POST",
       }),
 
-    addComment: (postId: string, comment: string) =>
-      this.request<any>(`/feed/posts/${postId}/comments`, {
-        method: "POST",
-        body: JSON.stringify({ comment }),
+    unlikePost: (postId: string) =>
+      this.request<{
+        success: boolean;
+        data: { likesCount: number; userHasLiked: boolean };
+      }>(`/feed/posts/${postId}/like`, {
+        method: "DELETE",
       }),
+
+    getComments: (postId: string) =>
+      this.request<{ success: boolean; data: { comments: PostComment[] } }>(
+        `/feed/posts/${postId}/comments`
+      ),
+
+    // parentId makes the comment a reply
+    addComment: (postId: string, content: string, parentId?: string) =>
+      this.request<{ success: boolean; data: { comment: PostComment }; message: string }>(
+        `/feed/posts/${postId}/comments`,
+        {
+          method: "POST",
+          body: JSON.stringify({ content, parentId }),
+        }
+      ),
+
+    deleteComment: (postId: string, commentId: string) =>
+      this.request<{ success: boolean; message: string }>(
+        `/feed/posts/${postId}/comments/${commentId}`,
+        { method: "DELETE" }
+      ),
   };
 
   // Delta polling for real-time updates
@@ -602,6 +1274,351 @@ class ApiClient {
       ),
   };
 
+  activitySeries = {
+    list: () =>
+      this.request<{ success: boolean; data: { series: ActivitySeries[] } }>(
+        "/activity-series"
+      ),
+
+    get: (id: string) =>
+      this.request<{ success: boolean; data: { series: ActivitySeriesDetails } }>(
+        `/activity-series/${id}`
+      ),
+
+    addRegular: (id: string, userId: string, team?: string) =>
+      this.request<{ success: boolean; data: any; message: string }>(
+        `/activity-series/${id}/regulars`,
+        {
+          method: "POST",
+          body: JSON.stringify({ userId, team }),
+        }
+      ),
+
+    removeRegular: (id: string, userId: string) =>
+      this.request<{ success: boolean; message: string }>(
+        `/activity-series/${id}/regulars/${userId}`,
+        { method: "DELETE" }
+      ),
+
+    end: (id: string) =>
+      this.request<{
+        success: boolean;
+        data: { cancelledOccurrences: string[] };
+        message: string;
+      }>(`/activity-series/${id}/end`, { method: "POST" }),
+  };
+
+  activityTemplates = {
+    list: () =>
+      this.request<{ success: boolean; data: { templates: ActivityTemplate[] } }>(
+        "/activity-templates"
+      ),
+
+    get: (id: string) =>
+      this.request<{
+        success: boolean;
+        data: { template: ActivityTemplate; canManage: boolean };
+      }>(`/activity-templates/${id}`),
+
+    // With teamId the template is shared with the team (owner and captains only)
+    create: (data: ActivityTemplateFields & { name: string; teamId?: string }) =>
+      this.request<{
+        success: boolean;
+        data: { template: ActivityTemplate };
+        message: string;
+      }>("/activity-templates", {
+        method: "POST",
+        body: JSON.stringify(data),
+      }),
+
+    update: (id: string, data: Partial<ActivityTemplateFields & { name: string }>) =>
+      this.request<{
+        success: boolean;
+        data: { template: ActivityTemplate };
+        message: string;
+      }>(`/activity-templates/${id}`, {
+        method: "PUT",
+        body: JSON.stringify(data),
+      }),
+
+    delete: (id: string) =>
+      this.request<{ success: boolean; message: string }>(
+        `/activity-templates/${id}`,
+        { method: "DELETE" }
+      ),
+  };
+
+  teams = {
+    get: (teamId: string) =>
+      this.request<{ success: boolean; data: any }>(`/teams/${teamId}`),
+
+    // statistics.teamRatings holds the team's own fixture ratings
+    getStatistics: (teamId: string) =>
+      this.request<{
+        success: boolean;
+        data: { team: any; statistics: { teamRatings: TeamRatingTrend[] } & Record<string, any> };
+      }>(`/teams/${teamId}/statistics`),
+
+    getLeaderboard: (activityTypeId: string, offset = 0, limit = 50) =>
+      this.request<{
+        success: boolean;
+        data: {
+          activityType: { id: string; name: string; ratingSystem: string };
+          leaderboard: TeamLeaderboardEntry[];
+          pagination: { limit: number; offset: number; totalTeams: number; hasMore: boolean };
+        };
+      }>(`/teams/leaderboard?activityTypeId=${activityTypeId}&offset=${offset}&limit=${limit}`),
+
+    // Public teams are joined straight away; private ones get a join request
+    requestToJoin: (teamId: string, message?: string) =>
+      this.request<{
+        success: boolean;
+        data: TeamMembership | { request: TeamJoinRequest };
+        needsApproval?: boolean;
+        message: string;
+      }>(`/teams/${teamId}/join-request`, {
+        method: "POST",
+        body: JSON.stringify({ message }),
+      }),
+
+    cancelJoinRequest: (teamId: string) =>
+      this.request<{ success: boolean; message: string }>(
+        `/teams/${teamId}/join-request`,
+        { method: "DELETE" }
+      ),
+
+    getJoinRequests: (teamId: string) =>
+      this.request<{ success: boolean; data: { requests: TeamJoinRequest[] } }>(
+        `/teams/${teamId}/join-requests`
+      ),
+
+    respondToJoinRequest: (teamId: string, requestId: string, action: "approve" | "reject") =>
+      this.request<{ success: boolean; message: string }>(
+        `/teams/${teamId}/join-requests/${requestId}/respond`,
+        { method: "PUT", body: JSON.stringify({ action }) }
+      ),
+
+    getInvitations: (teamId: string) =>
+      this.request<{ success: boolean; data: { invitations: TeamInvitation[] } }>(
+        `/teams/${teamId}/invitations`
+      ),
+
+    invite: (teamId: string, userId: string, message?: string) =>
+      this.request<{ success: boolean; message: string }>(
+        `/teams/${teamId}/invitations`,
+        { method: "POST", body: JSON.stringify({ userId, message }) }
+      ),
+
+    cancelInvitation: (teamId: string, invitationId: string) =>
+      this.request<{ success: boolean; message: string }>(
+        `/teams/${teamId}/invitations/${invitationId}`,
+        { method: "DELETE" }
+      ),
+
+    getMyInvitations: () =>
+      this.request<{ success: boolean; data: { invitations: TeamInvitation[] } }>(
+        "/teams/me/invitations"
+      ),
+
+    respondToInvitation: (invitationId: string, action: "accept" | "decline") =>
+      this.request<{
+        success: boolean;
+        data: { membership: TeamMembership | null };
+        message: string;
+      }>(`/teams/invitations/${invitationId}/respond`, {
+        method: "PUT",
+        body: JSON.stringify({ action }),
+      }),
+
+    setMemberRole: (teamId: string, userId: string, role: Exclude<TeamRole, "owner">) =>
+      this.request<{ success: boolean; data: TeamMembership; message: string }>(
+        `/teams/${teamId}/members/${userId}`,
+        { method: "PUT", body: JSON.stringify({ role }) }
+      ),
+
+    removeMember: (teamId: string, userId: string) =>
+      this.request<{ success: boolean; message: string }>(
+        `/teams/${teamId}/members/${userId}`,
+        { method: "DELETE" }
+      ),
+
+    transferOwnership: (teamId: string, userId: string) =>
+      this.request<{ success: boolean; data: TeamMembership; message: string }>(
+        `/teams/${teamId}/transfer-ownership`,
+        { method: "POST", body: JSON.stringify({ userId }) }
+      ),
+  };
+
+  leagues = {
+    list: (activityTypeId?: string) =>
+      this.request<{ success: boolean; data: { leagues: League[] } }>(
+        activityTypeId ? `/leagues?activityTypeId=${activityTypeId}` : "/leagues"
+      ),
+
+    create: (data: {
+      name: string;
+      description?: string;
+      activityTypeId: string;
+      format?: LeagueFormat;
+      pointsForWin?: number;
+      pointsForDraw?: number;
+      pointsForLoss?: number;
+      isELORated?: boolean;
+    }) =>
+      this.request<{ success: boolean; data: { league: League }; message: string }>(
+        "/leagues",
+        { method: "POST", body: JSON.stringify(data) }
+      ),
+
+    get: (leagueId: string) =>
+      this.request<{
+        success: boolean;
+        data: {
+          league: League;
+          teams: { id: string; name: string; registeredAt: string }[];
+          isOrganiser: boolean;
+        };
+      }>(`/leagues/${leagueId}`),
+
+    registerTeam: (leagueId: string, teamId: string) =>
+      this.request<{ success: boolean; message: string }>(
+        `/leagues/${leagueId}/teams`,
+        { method: "POST", body: JSON.stringify({ teamId }) }
+      ),
+
+    withdrawTeam: (leagueId: string, teamId: string) =>
+      this.request<{ success: boolean; message: string }>(
+        `/leagues/${leagueId}/teams/${teamId}`,
+        { method: "DELETE" }
+      ),
+
+    // Each round uses the slots in order, one match per slot
+    generateFixtures: (
+      leagueId: string,
+      data: {
+        firstRoundAt: string;
+        daysBetweenRounds?: number;
+        durationMinutes?: number;
+        slots: {
+          startOffsetMinutes?: number;
+          venueId?: string;
+          venueResourceId?: string;
+          location?: string;
+        }[];
+      }
+    ) =>
+      this.request<{
+        success: boolean;
+        data: { rounds: number; fixtures: number };
+        message: string;
+      }>(`/leagues/${leagueId}/fixtures/generate`, {
+        method: "POST",
+        body: JSON.stringify(data),
+      }),
+
+    getFixtures: (leagueId: string, round?: number) =>
+      this.request<{ success: boolean; data: { fixtures: LeagueFixture[] } }>(
+        round ? `/leagues/${leagueId}/fixtures?round=${round}` : `/leagues/${leagueId}/fixtures`
+      ),
+
+    getStandings: (leagueId: string) =>
+      this.request<{
+        success: boolean;
+        data: {
+          league: Pick<League, "id" | "name" | "status">;
+          pointsSystem: { win: number; draw: number; loss: number };
+          table: LeagueStanding[];
+          fixturesPlayed: number;
+          fixturesTotal: number;
+        };
+      }>(`/leagues/${leagueId}/standings`),
+  };
+
+  resultDisputes = {
+    list: () =>
+      this.request<{
+        success: boolean;
+        data: { disputes: ActivityResults[] };
+      }>("/result-disputes"),
+
+    resolve: (
+      id: string,
+      resolution: {
+        decision: "uphold" | "amend" | "void";
+        participantResults?: ParticipantResult[];
+        score?: ActivityScore;
+        note?: string;
+      }
+    ) =>
+      this.request<{
+        success: boolean;
+        data: { submission: ActivityResults; eloProcessing: EloProcessing };
+        message: string;
+      }>(`/result-disputes/${id}/resolve`, {
+        method: "POST",
+        body: JSON.stringify(resolution),
+      }),
+  };
+
+  venues = {
+    list: (params?: { search?: string; near?: GeoQuery; page?: number; limit?: number }) => {
+      const searchParams = new URLSearchParams();
+      if (params?.search) searchParams.append("search", params.search);
+      if (params?.near) {
+        searchParams.append("lat", params.near.lat.toString());
+        searchParams.append("lng", params.near.lng.toString());
+        if (params.near.radiusKm !== undefined) {
+          searchParams.append("radiusKm", params.near.radiusKm.toString());
+        }
+      }
+      if (params?.page !== undefined) searchParams.append("page", params.page.toString());
+      if (params?.limit !== undefined) searchParams.append("limit", params.limit.toString());
+
+      const queryString = searchParams.toString();
+      return this.request<{
+        success: boolean;
+        data: { venues: Venue[]; pagination: any };
+      }>(queryString ? `/venues?${queryString}` : "/venues");
+    },
+
+    get: (id: string) =>
+      this.request<{ success: boolean; data: { venue: VenueDetails } }>(`/venues/${id}`),
+
+    getAvailability: (
+      id: string,
+      date: string,
+      options?: { resourceId?: string; durationMinutes?: number }
+    ) => {
+      const searchParams = new URLSearchParams({ date });
+      if (options?.resourceId) searchParams.append("resourceId", options.resourceId);
+      if (options?.durationMinutes !== undefined) {
+        searchParams.append("durationMinutes", options.durationMinutes.toString());
+      }
+      return this.request<{ success: boolean; data: VenueAvailability }>(
+        `/venues/${id}/availability?${searchParams}`
+      );
+    },
+
+    create: (venue: {
+      name: string;
+      address?: string;
+      city?: string;
+      latitude: number;
+      longitude: number;
+      timeZone?: string;
+      resources?: { name: string; capacity?: number | null }[];
+      activityTypeIds?: string[];
+      openingHours?: OpeningHours[];
+    }) =>
+      this.request<{ success: boolean; data: { venue: Venue }; message: string }>(
+        "/venues",
+        {
+          method: "POST",
+          body: JSON.stringify(venue),
+        }
+      ),
+  };
+
   invitations = {
     list: () => this.request<any[]>("/invitations"),
 
@@ -740,11 +1757,22 @@ export const queryKeys = {
   userProfile: (id: string) => ["users", id, "profile"] as const,
   userFriends: (id: string) => ["users", id, "friends"] as const,
   friendRequests: () => ["users", "connections", "requests"] as const,
+  notificationPreferences: () =>
+    ["users", "me", "notification-preferences"] as const,
+  privacySettings: () => ["users", "me", "privacy-settings"] as const,
 
   // Activities
   activities: (filters?: any) => ["activities", filters] as const,
   activity: (id: string) => ["activities", id] as const,
   activityTypes: () => ["activity-types"] as const,
+  activitySeriesList: () => ["activity-series"] as const,
+  activitySeries: (id: string) => ["activity-series", id] as const,
+  activityResults: (id: string) => ["activities", id, "results"] as const,
+  resultDisputes: () => ["result-disputes"] as const,
+  venues: (filters?: any) => ["venues", filters] as const,
+  venue: (id: string) => ["venues", id] as const,
+  venueAvailability: (id: string, date: string) =>
+    ["venues", id, "availability", date] as const,
   activityType: (id: string) => ["activity-types", id] as const,
   activityTypesByCategory: (category: string) =>
     ["activity-types", "category", category] as const,
@@ -773,6 +1801,16 @@ export const queryKeys = {
   eloLeaderboard: (activityTypeId: string) =>
     ["elo", "leaderboard", activityTypeId] as const,
   eloAllLeaderboards: () => ["elo", "leaderboards"] as const,
+  teamLeaderboard: (activityTypeId: string) =>
+    ["teams", "leaderboard", activityTypeId] as const,
+  teamStatistics: (teamId: string) => ["teams", teamId, "statistics"] as const,
+
+  // Leagues
+  leagues: (activityTypeId?: string) => ["leagues", activityTypeId] as const,
+  league: (leagueId: string) => ["leagues", leagueId] as const,
+  leagueFixtures: (leagueId: string, round?: number) =>
+    ["leagues", leagueId, "fixtures", round] as const,
+  leagueStandings: (leagueId: string) => ["leagues", leagueId, "standings"] as const,
 
   // Skills
   skillDefinitions: () => ["skills", "definitions"] as const,
@@ -23,6 +23,8 @@ import { Route as ActivitiesIndexRouteImport } from './routes/activities/index'
 import { Route as ProfileFriendsRouteImport } from './routes/profile/friends'
 import { Route as ProfileActivitiesRouteImport } from './routes/profile/activities'
 import { Route as ProfileLayoutRouteImport } from './routes/profile/_layout'
+import { Route as AuthVerifyEmailRouteImport } from './routes/auth/verify-email'
+import { Route as AuthResetPasswordRouteImport } from './routes/auth/reset-password'
 import { Route as AuthRegisterRouteImport } from './routes/auth/register'
 import { Route as AuthLoginRouteImport } from './routes/auth/login'
 import { Route as ActivitiesCreateRouteImport } from './routes/activities/create'
@@ -95,6 +97,16 @@ const ProfileLayoutRoute = ProfileLayoutRouteImport.update({
   id: '/_layout',
   getParentRoute: () => ProfileRoute,
 } as any)
+const AuthVerifyEmailRoute = AuthVerifyEmailRouteImport.update({
+  id: '/auth/verify-email',
+  path: '/auth/verify-email',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const AuthResetPasswordRoute = AuthResetPasswordRouteImport.update({
+  id: '/auth/reset-password',
+  path: '/auth/reset-password',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const AuthRegisterRoute = AuthRegisterRouteImport.update({
   id: '/auth/register',
   path: '/auth/register',
@@ -133,6 +145,8 @@ export interface FileRoutesByFullPath {
   '/activities/create': typeof ActivitiesCreateRoute
   '/auth/login': typeof AuthLoginRoute
   '/auth/register': typeof AuthRegisterRoute
+  '/auth/reset-password': typeof AuthResetPasswordRoute
+  '/auth/verify-email': typeof AuthVerifyEmailRoute
   '/profile': typeof ProfileLayoutRoute
   '/profile/activities': typeof ProfileActivitiesRoute
   '/profile/friends': typeof ProfileFriendsRoute
@@ -151,6 +165,8 @@ export interface FileRoutesByTo {
   '/activities/create': typeof ActivitiesCreateRoute
   '/auth/login': typeof AuthLoginRoute
   '/auth/register': typeof AuthRegisterRoute
+  '/auth/reset-password': typeof AuthResetPasswordRoute
+  '/auth/verify-email': typeof AuthVerifyEmailRoute
   '/profile': typeof ProfileIndexRoute
   '/profile/activities': typeof ProfileActivitiesRoute
   '/profile/friends': typeof ProfileFriendsRoute
@@ -170,6 +186,8 @@ export interface FileRoutesById {
   '/activities/create': typeof ActivitiesCreateRoute
   '/auth/login': typeof AuthLoginRoute
   '/auth/register': typeof AuthRegisterRoute
+  '/auth/reset-password': typeof AuthResetPasswordRoute
+  '/auth/verify-email': typeof AuthVerifyEmailRoute
   '/profile': typeof ProfileRouteWithChildren
   '/profile/_layout': typeof ProfileLayoutRoute
   '/profile/activities': typeof ProfileActivitiesRoute
@@ -192,6 +210,8 @@ export interface FileRouteTypes {
     | '/activities/create'
     | '/auth/login'
     | '/auth/register'
+    | '/auth/reset-password'
+    | '/auth/verify-email'
     | '/profile'
     | '/profile/activities'
     | '/profile/friends'
@@ -210,6 +230,8 @@ export interface FileRouteTypes {
     | '/activities/create'
     | '/auth/login'
     | '/auth/register'
+    | '/auth/reset-password'
+    | '/auth/verify-email'
     | '/profile'
     | '/profile/activities'
     | '/profile/friends'
@@ -228,6 +250,8 @@ export interface FileRouteTypes {
     | '/activities/create'
     | '/auth/login'
     | '/auth/register'
+    | '/auth/reset-password'
+    | '/auth/verify-email'
     | '/profile'
     | '/profile/_layout'
     | '/profile/activities'
@@ -249,6 +273,8 @@ export interface RootRouteChildren {
   ActivitiesCreateRoute: typeof ActivitiesCreateRoute
   AuthLoginRoute: typeof AuthLoginRoute
   AuthRegisterRoute: typeof AuthRegisterRoute
+  AuthResetPasswordRoute: typeof AuthResetPasswordRoute
+  AuthVerifyEmailRoute: typeof AuthVerifyEmailRoute
   ProfileRoute: typeof ProfileRouteWithChildren
   ActivitiesIndexRoute: typeof ActivitiesIndexRoute
 }
@@ -346,6 +372,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ProfileLayoutRouteImport
       parentRoute: typeof ProfileRoute
     }
+    '/auth/verify-email': {
+      id: '/auth/verify-email'
+      path: '/auth/verify-email'
+      fullPath: '/auth/verify-email'
+      preLoaderRoute: typeof AuthVerifyEmailRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/auth/reset-password': {
+      id: '/auth/reset-password'
+      path: '/auth/reset-password'
+      fullPath: '/auth/reset-password'
+      preLoaderRoute: typeof AuthResetPasswordRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/auth/register': {
       id: '/auth/register'
       path: '/auth/register'
@@ -426,6 +466,8 @@ const rootRouteChildren: RootRouteChildren = {
   ActivitiesCreateRoute: ActivitiesCreateRoute,
   AuthLoginRoute: AuthLoginRoute,
   AuthRegisterRoute: AuthRegisterRoute,
+  AuthResetPasswordRoute: AuthResetPasswordRoute,
+  AuthVerifyEmailRoute: AuthVerifyEmailRoute,
   ProfileRoute: ProfileRouteWithChildren,
   ActivitiesIndexRoute: ActivitiesIndexRoute,
 }
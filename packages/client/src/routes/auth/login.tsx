@@ -132,7 +132,13 @@ function LoginPage() {
               </Button>
             </form>
 
-            <div className="mt-6 text-center">
+            <div className="mt-6 text-center space-y-2">
+              <Link
+                to="/auth/reset-password"
+                className="text-sm font-medium text-blue-600 hover:text-blue-500"
+              >
+                Forgot your password?
+              </Link>
               <p className="text-sm text-gray-600">
                 Don't have an account?{" "}
                 <Link
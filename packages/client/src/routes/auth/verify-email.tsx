@@ -0,0 +1,135 @@
+// src/routes/auth/verify-email.tsx
+import { createFileRoute, Link } from "@tanstack/react-router";
+import { useEffect, useRef, useState } from "react";
+import { Trophy, Loader2, CheckCircle, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { api } from "@/lib/api";
+import { useAuthStore } from "@/stores/auth-store";
+
+export const Route = createFileRoute("/auth/verify-email")({
+  validateSearch: (search: Record<string, unknown>): { token?: string } => ({
+    token: typeof search.token === "string" ? search.token : undefined,
+  }),
+  component: VerifyEmailPage,
+});
+
+function VerifyEmailPage() {
+  const { token } = Route.useSearch();
+  const { isAuthenticated } = useAuthStore();
+  const [status, setStatus] = useState<"verifying" | "verified" | "failed">(
+    token ? "verifying" : "failed"
+  );
+  const [error, setError] = useState<string | null>(
+    token ? null : "This verification link is missing its token"
+  );
+  const [isResending, setIsResending] = useState(false);
+  const attempted = useRef(false);
+
+  useEffect(() => {
+    // Tokens are single-use, so guard against double-invocation in StrictMode
+    if (!token || attempted.current) return;
+    attempted.current = true;
+
+    api.auth
+      .verifyEmail(token)
+      .then(() => {
+        setStatus("verified");
+        useAuthStore.setState((state) => ({
+          user: state.user
+            ? { ...state.user, emailVerifiedAt: new Date().toISOString() }
+            : null,
+        }));
+      })
+      .catch((err: unknown) => {
+        setStatus("failed");
+        setError(err instanceof Error && err.message ? err.message : "Verification failed");
+      });
+  }, [token]);
+
+  const handleResend = async () => {
+    setIsResending(true);
+    try {
+      await api.auth.resendVerification();
+      toast.success("A new verification link is on its way");
+    } catch (err) {
+      toast.error(err instanceof Error && err.message ? err.message : "Failed to send verification email");
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-md w-full space-y-8">
+        {/* Logo */}
+        <div className="text-center">
+          <div className="mx-auto h-12 w-12 bg-blue-600 rounded-lg flex items-center justify-center">
+            <Trophy className="h-8 w-8 text-white" />
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Email Verification</CardTitle>
+          </CardHeader>
+
+          <CardContent className="space-y-4 text-center">
+            {status === "verifying" && (
+              <div className="flex items-center justify-center text-gray-600">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Verifying your email...
+              </div>
+            )}
+
+            {status === "verified" && (
+              <>
+                <CheckCircle className="mx-auto h-10 w-10 text-green-600" />
+                <p className="text-sm text-gray-600">
+                  Your email is verified. You can now create ELO-rated
+                  activities and send friend requests.
+                </p>
+                <Link
+                  to={isAuthenticated ? "/" : "/auth/login"}
+                  className="font-medium text-blue-600 hover:text-blue-500"
+                >
+                  Continue
+                </Link>
+              </>
+            )}
+
+            {status === "failed" && (
+              <>
+                <XCircle className="mx-auto h-10 w-10 text-red-600" />
+                <p className="text-sm text-red-600">{error}</p>
+                {isAuthenticated ? (
+                  <Button onClick={handleResend} disabled={isResending}>
+                    {isResending ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Sending...
+                      </>
+                    ) : (
+                      "Send a new link"
+                    )}
+                  </Button>
+                ) : (
+                  <p className="text-sm text-gray-600">
+                    <Link
+                      to="/auth/login"
+                      className="font-medium text-blue-600 hover:text-blue-500"
+                    >
+                      Sign in
+                    </Link>{" "}
+                    to request a new link.
+                  </p>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
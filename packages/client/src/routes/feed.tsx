@@ -1,7 +1,7 @@
 // src/routes/feed.tsx
 import { createFileRoute, Link } from '@tanstack/react-router'
 import { useState } from 'react'
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { useInfiniteQuery, useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { 
   Heart,
   MessageCircle,
@@ -21,8 +21,8 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
 import { Textarea } from '@/components/ui/textarea'
-import { api } from '@/lib/api'
-import { useAuthStore } from '@/stores/auth-store'
+import { api, type FeedPost, type PostComment } from '@/lib/api'
+import { useAuthStore, type User } from '@/stores/auth-store'
 import { cn } from '@/lib/utils'
 
 export const Route = createFileRoute('/feed')({
@@ -38,10 +38,15 @@ function FeedPage() {
     isLoading, 
     error,
     refetch,
-    isRefetching 
-  } = useQuery({
+    isRefetching,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useInfiniteQuery({
     queryKey: ['feed'],
-    queryFn: () => api.feed.getActivityFeed(1, 20),
+    queryFn: ({ pageParam }) => api.feed.getActivityFeed(pageParam, 20),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.data.nextCursor ?? undefined,
     refetchInterval: 60000,
   })
 
@@ -53,7 +58,7 @@ function FeedPage() {
     )
   }
 
-  const feedItems = feedData?.data || []
+  const feedItems = feedData?.pages.flatMap((page) => page.data.posts) || []
 
   return (
     <div className="max-w-2xl mx-auto space-y-6">
@@ -70,6 +75,9 @@ function FeedPage() {
         error={error}
         onRetry={refetch}
         currentUser={user}
+        hasMore={!!hasNextPage}
+        isLoadingMore={isFetchingNextPage}
+        onLoadMore={() => fetchNextPage()}
       />
     </div>
   )
@@ -109,7 +117,7 @@ function FeedHeader({ onRefresh, isRefetching }: {
   )
 }
 
-function CreatePostCard({ user }: { user: any }) {
+function CreatePostCard({ user }: { user: User }) {
   const [showCreateForm, setShowCreateForm] = useState(false)
   const [postContent, setPostContent] = useState('')
   const queryClient = useQueryClient()
@@ -203,12 +211,24 @@ function CreatePostCard({ user }: { user: any }) {
   )
 }
 
-function FeedContent({ feedItems, isLoading, error, onRetry, currentUser }: {
-  feedItems: any[]
+function FeedContent({
+  feedItems,
+  isLoading,
+  error,
+  onRetry,
+  currentUser,
+  hasMore,
+  isLoadingMore,
+  onLoadMore
+}: {
+  feedItems: FeedPost[]
   isLoading: boolean
-  error: any
+  error: Error | null
   onRetry: () => void
-  currentUser: any
+  currentUser: User
+  hasMore: boolean
+  isLoadingMore: boolean
+  onLoadMore: () => void
 }) {
   if (isLoading) {
     return <FeedSkeleton />
@@ -258,27 +278,35 @@ function FeedContent({ feedItems, isLoading, error, onRetry, currentUser }: {
         <FeedItem key={item.id} item={item} currentUser={currentUser} />
       ))}
       
-      <div className="text-center">
-        <Button variant="outline" className="w-full">
-          Load More Activities
-        </Button>
-      </div>
+      {hasMore && (
+        <div className="text-center">
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={onLoadMore}
+            disabled={isLoadingMore}
+          >
+            {isLoadingMore ? 'Loading...' : 'Load More Activities'}
+          </Button>
+        </div>
+      )}
     </div>
   )
 }
 
-function FeedItem({ item, currentUser }: { item: any; currentUser: any }) {
+function FeedItem({ item, currentUser }: { item: FeedPost; currentUser: User }) {
   const [showComments, setShowComments] = useState(false)
   const [newComment, setNewComment] = useState('')
-  const [isLiked, setIsLiked] = useState(item.userHasLiked || false)
-  const [likesCount, setLikesCount] = useState(item.likesCount || 0)
+  const [isLiked, setIsLiked] = useState(item.userHasLiked)
+  const [likesCount, setLikesCount] = useState(item.likesCount)
   const queryClient = useQueryClient()
 
   const likeMutation = useMutation({
-    mutationFn: () => api.feed.likePost(item.id),
+    mutationFn: () =>
+      isLiked ? api.feed.unlikePost(item.id) : api.feed.likePost(item.id),
     onMutate: async () => {
       setIsLiked(!isLiked)
-      setLikesCount((prev:number) => isLiked ? prev - 1 : prev + 1)
+      setLikesCount((prev) => isLiked ? prev - 1 : prev + 1)
     },
     onError: () => {
       setIsLiked(isLiked)
@@ -290,10 +318,20 @@ function FeedItem({ item, currentUser }: { item: any; currentUser: any }) {
     mutationFn: (comment: string) => api.feed.addComment(item.id, comment),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['feed'] })
+      queryClient.invalidateQueries({ queryKey: ['feed', 'comments', item.id] })
       setNewComment('')
     }
   })
 
+  const { data: commentsData } = useQuery({
+    queryKey: ['feed', 'comments', item.id],
+    queryFn: () => api.feed.getComments(item.id),
+    enabled: showComments,
+  })
+
+  // Activity recaps carry the rating change they announce
+  const eloChange = item.skillHighlights?.eloChange
+
   const formatTimeAgo = (dateString: string) => {
     const date = new Date(dateString)
     const now = new Date()
@@ -320,7 +358,7 @@ function FeedItem({ item, currentUser }: { item: any; currentUser: any }) {
         {/* Post Header */}
         <div className="flex items-start space-x-4 mb-4">
           <Avatar className="h-10 w-10">
-            <AvatarImage src={item.user?.avatarUrl} />
+            <AvatarImage src={item.user.avatarUrl ?? undefined} />
             <AvatarFallback>
               {getUserInitials(item.user?.username || 'User')}
             </AvatarFallback>
@@ -339,7 +377,7 @@ function FeedItem({ item, currentUser }: { item: any; currentUser: any }) {
                     to="/activities/$activityId" params={{activityId: item.activity.id}}
                     className="font-medium text-blue-600 hover:text-blue-500"
                   >
-                    {item.activity.activityType?.name || 'Activity'}
+                    {item.activity.activityType.name}
                   </Link>
                 </>
               )}
@@ -366,8 +404,10 @@ function FeedItem({ item, currentUser }: { item: any; currentUser: any }) {
         )}
 
         {/* ELO Changes */}
-        {item.eloChanges && item.eloChanges.length > 0 && (
-          <ELOChangesCard eloChanges={item.eloChanges} />
+        {item.activity && typeof eloChange === 'number' && (
+          <ELOChangesCard
+            eloChanges={[{ activityType: item.activity.activityType.name, change: eloChange }]}
+          />
         )}
 
         {/* Post Actions */}
@@ -389,7 +429,7 @@ function FeedItem({ item, currentUser }: { item: any; currentUser: any }) {
               className="flex items-center space-x-2 text-sm text-gray-500 hover:text-blue-600 transition-colors"
             >
               <MessageCircle className="h-4 w-4" />
-              <span>{item.commentsCount || 0}</span>
+              <span>{item.commentsCount}</span>
             </button>
             
             <button className="flex items-center space-x-2 text-sm text-gray-500 hover:text-green-600 transition-colors">
@@ -402,7 +442,7 @@ function FeedItem({ item, currentUser }: { item: any; currentUser: any }) {
         {/* Comments Section */}
         {showComments && (
           <CommentsSection 
-            item={item}
+            comments={commentsData?.data.comments || []}
             currentUser={currentUser}
             newComment={newComment}
             setNewComment={setNewComment}
@@ -419,15 +459,15 @@ function FeedItem({ item, currentUser }: { item: any; currentUser: any }) {
   )
 }
 
-function ActivityDetailsCard({ activity }: { activity: any }) {
+function ActivityDetailsCard({ activity }: { activity: NonNullable<FeedPost['activity']> }) {
   return (
     <div className="mb-4 p-4 bg-gray-50 rounded-lg">
       <div className="flex items-center justify-between mb-2">
         <h4 className="font-medium text-gray-900">
-          {activity.activityType?.name || 'Activity'}
+          {activity.activityType.name}
         </h4>
-        <Badge variant={activity.status === 'completed' ? 'default' : 'secondary'}>
-          {activity.status || 'scheduled'}
+        <Badge variant={activity.completionStatus === 'completed' ? 'default' : 'secondary'}>
+          {activity.completionStatus || 'scheduled'}
         </Badge>
       </div>
       
@@ -450,19 +490,13 @@ function ActivityDetailsCard({ activity }: { activity: any }) {
             {activity.location}
           </div>
         )}
-        
-        {activity.participants && (
-          <div className="flex items-center">
-            <Users className="h-4 w-4 mr-1" />
-            {activity.participants.length} participants
-          </div>
-        )}
+
       </div>
     </div>
   )
 }
 
-function ELOChangesCard({ eloChanges }: { eloChanges: any[] }) {
+function ELOChangesCard({ eloChanges }: { eloChanges: { activityType: string; change: number }[] }) {
   return (
     <div className="mb-4 p-4 bg-blue-50 rounded-lg">
       <h4 className="font-medium text-blue-900 mb-2 flex items-center">
@@ -490,15 +524,15 @@ function ELOChangesCard({ eloChanges }: { eloChanges: any[] }) {
 }
 
 function CommentsSection({ 
-  item, 
+  comments, 
   currentUser, 
   newComment, 
   setNewComment, 
   onSubmitComment, 
   isSubmitting 
 }: {
-  item: any
-  currentUser: any
+  comments: PostComment[]
+  currentUser: User
   newComment: string
   setNewComment: (value: string) => void
   onSubmitComment: () => void
@@ -543,9 +577,9 @@ function CommentsSection({
       </div>
 
       {/* Comments List */}
-      {item.comments && item.comments.length > 0 && (
+      {comments.length > 0 && (
         <div className="space-y-3">
-          {item.comments.map((comment: any) => (
+          {comments.map((comment) => (
             <CommentItem key={comment.id} comment={comment} />
           ))}
         </div>
@@ -554,7 +588,7 @@ function CommentsSection({
   )
 }
 
-function CommentItem({ comment }: { comment: any }) {
+function CommentItem({ comment }: { comment: PostComment }) {
   const formatTimeAgo = (dateString: string) => {
     const date = new Date(dateString)
     const now = new Date()
@@ -578,7 +612,7 @@ function CommentItem({ comment }: { comment: any }) {
   return (
     <div className="flex space-x-3">
       <Avatar className="h-6 w-6">
-        <AvatarImage src={comment.user?.avatarUrl} />
+        <AvatarImage src={comment.user.avatarUrl ?? undefined} />
         <AvatarFallback className="text-xs">
           {getUserInitials(comment.user?.username || 'User')}
         </AvatarFallback>
@@ -594,6 +628,15 @@ function CommentItem({ comment }: { comment: any }) {
           </span>
         </div>
         <p className="text-sm text-gray-800">{comment.content}</p>
+
+        {/* Replies */}
+        {comment.replies.length > 0 && (
+          <div className="mt-3 space-y-3">
+            {comment.replies.map((reply) => (
+              <CommentItem key={reply.id} comment={reply} />
+            ))}
+          </div>
+        )}
       </div>
     </div>
   )
@@ -1,14 +1,111 @@
 // packages/client/src/routes/settings.tsx
-import { createFileRoute } from '@tanstack/react-router'
+import { createFileRoute, useNavigate } from '@tanstack/react-router'
+import { useState } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card'
 import { Button } from '../components/ui/button'
 import { Input } from '../components/ui/input'
+import { Label } from '../components/ui/label'
+import { Switch } from '../components/ui/switch'
+import { api, queryKeys, type NotificationPreferences } from '../lib/api'
+import { useAuthStore } from '../stores/auth-store'
 
 export const Route = createFileRoute('/settings')({
   component: Settings,
 })
 
+type PreferenceUpdate = Partial<Omit<NotificationPreferences, 'userId' | 'updatedAt'>>
+
+type ToggleKey = {
+  [K in keyof NotificationPreferences]: NotificationPreferences[K] extends boolean ? K : never
+}[keyof NotificationPreferences]
+
+const CATEGORY_TOGGLES: { key: ToggleKey; label: string; description: string }[] = [
+  { key: 'invites', label: 'Activity Invites', description: 'Join requests, participation updates and activity changes' },
+  { key: 'friendRequests', label: 'Friend Requests', description: 'New friend requests and accepted connections' },
+  { key: 'ratingReminders', label: 'Rating Reminders', description: 'Reminders to rate teammates after an activity' },
+  { key: 'eloChanges', label: 'ELO Changes', description: 'Rating updates after a completed activity' },
+  { key: 'chatMentions', label: 'Chat Mentions', description: 'When someone @mentions you in an activity chat' },
+]
+
+const CHANNEL_TOGGLES: { key: ToggleKey; label: string; description: string }[] = [
+  { key: 'inApp', label: 'In-App', description: 'Keep notifications in your inbox' },
+  { key: 'push', label: 'Push', description: 'Live alerts while you are online' },
+  { key: 'emailDigest', label: 'Email Digest', description: 'A daily email listing your unread notifications' },
+]
+
 function Settings() {
+  const queryClient = useQueryClient()
+  const navigate = useNavigate()
+  const { logout } = useAuthStore()
+  const [deletePassword, setDeletePassword] = useState('')
+  const [confirmingDelete, setConfirmingDelete] = useState(false)
+
+  const { data: preferencesResponse, isLoading } = useQuery({
+    queryKey: queryKeys.notificationPreferences(),
+    queryFn: () => api.users.getNotificationPreferences(),
+  })
+
+  const preferences = preferencesResponse?.data
+
+  const updatePreferencesMutation = useMutation({
+    mutationFn: (updates: PreferenceUpdate) => api.users.updateNotificationPreferences(updates),
+    onSuccess: (response) => {
+      queryClient.setQueryData(queryKeys.notificationPreferences(), response)
+      toast.success('Notification preferences saved')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to update notification preferences')
+      queryClient.invalidateQueries({ queryKey: queryKeys.notificationPreferences() })
+    },
+  })
+
+  const update = (updates: PreferenceUpdate) => updatePreferencesMutation.mutate(updates)
+
+  const exportDataMutation = useMutation({
+    mutationFn: () => api.users.exportData(),
+    onSuccess: (blob) => {
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `my-data-${new Date().toISOString().slice(0, 10)}.ndjson`
+      link.click()
+      URL.revokeObjectURL(url)
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to export your data')
+    },
+  })
+
+  const deleteAccountMutation = useMutation({
+    mutationFn: () => api.users.deleteAccount(deletePassword || undefined),
+    onSuccess: async (response) => {
+      const date = new Date(response.data.deletionScheduledAt).toLocaleDateString()
+      toast.success(`Your account will be deleted on ${date}. Sign in before then to keep it.`)
+      await logout()
+      navigate({ to: '/auth/login' })
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to delete account')
+    },
+  })
+
+  const renderToggle = ({ key, label, description }: { key: ToggleKey; label: string; description: string }) => (
+    <div key={key} className="flex items-center justify-between">
+      <div>
+        <Label htmlFor={key}>{label}</Label>
+        <p className="text-sm text-gray-600">{description}</p>
+      </div>
+      <Switch
+        id={key}
+        checked={!!preferences?.[key]}
+        disabled={!preferences || updatePreferencesMutation.isPending}
+        onCheckedChange={(checked) => update({ [key]: checked })}
+      />
+    </div>
+  )
+
   return (
     <div className="container mx-auto p-6">
       <Card>
@@ -30,18 +127,144 @@ function Settings() {
               </div>
             </div>
           </div>
-          <div>
-            <h3 className="text-lg font-medium mb-4">Preferences</h3>
-            <div className="space-y-4">
-              <div className="flex items-center justify-between">
-                <span>Email Notifications</span>
-                <Button variant="outline" size="sm">Configure</Button>
-              </div>
-            </div>
-          </div>
           <Button>Save Changes</Button>
         </CardContent>
       </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Notifications</CardTitle>
+          <CardDescription>Choose what you hear about and how</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {isLoading ? (
+            <div className="text-sm text-gray-600">Loading preferences...</div>
+          ) : (
+            <>
+              <div>
+                <h3 className="text-lg font-medium mb-4">Categories</h3>
+                <div className="space-y-4">{CATEGORY_TOGGLES.map(renderToggle)}</div>
+              </div>
+
+              <div>
+                <h3 className="text-lg font-medium mb-4">Channels</h3>
+                <div className="space-y-4">{CHANNEL_TOGGLES.map(renderToggle)}</div>
+              </div>
+
+              <div>
+                <h3 className="text-lg font-medium mb-4">Quiet Hours</h3>
+                <div className="space-y-4">
+                  {renderToggle({
+                    key: 'quietHoursEnabled',
+                    label: 'Enable Quiet Hours',
+                    description: 'No push alerts during these hours. Notifications still land in your inbox right away.',
+                  })}
+                  {preferences?.quietHoursEnabled && (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div>
+                        <Label htmlFor="quietHoursStart">From</Label>
+                        <Input
+                          id="quietHoursStart"
+                          type="time"
+                          defaultValue={preferences.quietHoursStart}
+                          onBlur={(e) =>
+                            e.target.value !== preferences.quietHoursStart &&
+                            update({ quietHoursStart: e.target.value })
+                          }
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="quietHoursEnd">Until</Label>
+                        <Input
+                          id="quietHoursEnd"
+                          type="time"
+                          defaultValue={preferences.quietHoursEnd}
+                          onBlur={(e) =>
+                            e.target.value !== preferences.quietHoursEnd &&
+                            update({ quietHoursEnd: e.target.value })
+                          }
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="timeZone">Time Zone</Label>
+                        <Input
+                          id="timeZone"
+                          placeholder="Europe/Sofia"
+                          defaultValue={preferences.timeZone}
+                          onBlur={(e) =>
+                            e.target.value && e.target.value !== preferences.timeZone &&
+                            update({ timeZone: e.target.value })
+                          }
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>Your Data</CardTitle>
+          <CardDescription>
+            Download your profile, activities, ratings, posts and messages as a single file
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button
+            variant="outline"
+            disabled={exportDataMutation.isPending}
+            onClick={() => exportDataMutation.mutate()}
+          >
+            {exportDataMutation.isPending ? 'Preparing download...' : 'Download my data'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card className="mt-6 border-red-200">
+        <CardHeader>
+          <CardTitle className="text-red-600">Delete Account</CardTitle>
+          <CardDescription>
+            Your account is locked right away and your personal data is removed after a grace
+            period. Signing in before then cancels the deletion.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {confirmingDelete ? (
+            <>
+              <div>
+                <Label htmlFor="deletePassword">Confirm with your password</Label>
+                <Input
+                  id="deletePassword"
+                  type="password"
+                  autoComplete="current-password"
+                  value={deletePassword}
+                  onChange={(e) => setDeletePassword(e.target.value)}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="destructive"
+                  disabled={deleteAccountMutation.isPending}
+                  onClick={() => deleteAccountMutation.mutate()}
+                >
+                  Delete my account
+                </Button>
+                <Button variant="outline" onClick={() => setConfirmingDelete(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </>
+          ) : (
+            <Button variant="destructive" onClick={() => setConfirmingDelete(true)}>
+              Delete account
+            </Button>
+          )}
+        </CardContent>
+      </Card>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -10,6 +10,8 @@ export interface User {
   email: string
   avatarUrl?: string
   role: string
+  status?: 'active' | 'suspended' | 'deactivated' | 'pending_deletion'
+  emailVerifiedAt?: string | null
   createdAt: string
   updatedAt: string
 }
@@ -0,0 +1,4 @@
+ALTER TABLE "user_activity_type_elos" ALTER COLUMN "volatility" SET DATA TYPE double precision;--> statement-breakpoint
+ALTER TABLE "user_activity_type_elos" ALTER COLUMN "volatility" SET DEFAULT 0.06;--> statement-breakpoint
+ALTER TABLE "user_activity_type_elos" ADD COLUMN "rating_deviation" integer DEFAULT 350 NOT NULL;--> statement-breakpoint
+UPDATE "user_activity_type_elos" SET "volatility" = 0.06;
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "elo_history" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"activity_type_id" uuid NOT NULL,
+	"activity_id" uuid NOT NULL,
+	"old_elo" integer NOT NULL,
+	"new_elo" integer NOT NULL,
+	"elo_change" integer NOT NULL,
+	"k_factor" integer NOT NULL,
+	"expected_score" double precision NOT NULL,
+	"actual_score" double precision NOT NULL,
+	"skill_bonus" integer DEFAULT 0 NOT NULL,
+	"reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "elo_history_activity_id_user_id_unique" UNIQUE("activity_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "elo_history" ADD CONSTRAINT "elo_history_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "elo_history" ADD CONSTRAINT "elo_history_activity_type_id_activity_types_id_fk" FOREIGN KEY ("activity_type_id") REFERENCES "public"."activity_types"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "elo_history" ADD CONSTRAINT "elo_history_activity_id_activities_id_fk" FOREIGN KEY ("activity_id") REFERENCES "public"."activities"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "elo_history_user_type_idx" ON "elo_history" USING btree ("user_id","activity_type_id","created_at");
\ No newline at end of file
@@ -0,0 +1,32 @@
+CREATE TYPE "public"."season_status" AS ENUM('upcoming', 'active', 'completed');--> statement-breakpoint
+CREATE TABLE "season_standings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"season_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"rank" integer NOT NULL,
+	"start_elo" integer NOT NULL,
+	"final_elo" integer NOT NULL,
+	"reset_elo" integer NOT NULL,
+	"games_played" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "season_standings_season_id_user_id_unique" UNIQUE("season_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "seasons" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"activity_type_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"start_date" timestamp NOT NULL,
+	"end_date" timestamp NOT NULL,
+	"status" "season_status" DEFAULT 'upcoming' NOT NULL,
+	"reset_factor" double precision DEFAULT 0.5 NOT NULL,
+	"completed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "season_standings" ADD CONSTRAINT "season_standings_season_id_seasons_id_fk" FOREIGN KEY ("season_id") REFERENCES "public"."seasons"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "season_standings" ADD CONSTRAINT "season_standings_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "seasons" ADD CONSTRAINT "seasons_activity_type_id_activity_types_id_fk" FOREIGN KEY ("activity_type_id") REFERENCES "public"."activity_types"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "season_standings_rank_idx" ON "season_standings" USING btree ("season_id","rank");--> statement-breakpoint
+CREATE INDEX "seasons_type_status_idx" ON "seasons" USING btree ("activity_type_id","status");--> statement-breakpoint
+CREATE UNIQUE INDEX "seasons_one_active_idx" ON "seasons" USING btree ("activity_type_id") WHERE "seasons"."status" = 'active';
\ No newline at end of file
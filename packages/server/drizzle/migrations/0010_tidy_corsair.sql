@@ -0,0 +1,26 @@
+CREATE TABLE "notifications" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"type" varchar(50) NOT NULL,
+	"title" varchar(200) NOT NULL,
+	"message" text NOT NULL,
+	"payload" jsonb,
+	"link_url" varchar(500),
+	"related_entity_id" varchar(255),
+	"actor_id" uuid,
+	"seen_at" timestamp,
+	"read_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_actor_id_users_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "notifications_user_created_idx" ON "notifications" USING btree ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX "notifications_user_unread_idx" ON "notifications" USING btree ("user_id") WHERE "notifications"."read_at" IS NULL;--> statement-breakpoint
+INSERT INTO "notifications" ("user_id", "type", "title", "message", "payload", "link_url", "related_entity_id", "actor_id", "created_at")
+SELECT uc."user2_id", 'friend_request', 'Friend Request', u."username" || ' wants to connect with you',
+  jsonb_build_object('connectionId', uc."id", 'requesterId', uc."user1_id", 'requesterUsername', u."username", 'requesterAvatarUrl', u."avatar_url"),
+  '/friends', uc."id"::text, uc."user1_id", uc."created_at"
+FROM "user_connections" uc
+INNER JOIN "users" u ON u."id" = uc."user1_id"
+WHERE uc."status" = 'pending';
@@ -0,0 +1,18 @@
+CREATE TABLE "notification_preferences" (
+	"user_id" uuid PRIMARY KEY NOT NULL,
+	"invites" boolean DEFAULT true NOT NULL,
+	"friend_requests" boolean DEFAULT true NOT NULL,
+	"rating_reminders" boolean DEFAULT true NOT NULL,
+	"elo_changes" boolean DEFAULT true NOT NULL,
+	"chat_mentions" boolean DEFAULT true NOT NULL,
+	"in_app" boolean DEFAULT true NOT NULL,
+	"email_digest" boolean DEFAULT false NOT NULL,
+	"push" boolean DEFAULT true NOT NULL,
+	"quiet_hours_enabled" boolean DEFAULT false NOT NULL,
+	"quiet_hours_start" varchar(5) DEFAULT '22:00' NOT NULL,
+	"quiet_hours_end" varchar(5) DEFAULT '07:00' NOT NULL,
+	"time_zone" varchar(64) DEFAULT 'UTC' NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
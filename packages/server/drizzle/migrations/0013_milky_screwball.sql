@@ -0,0 +1,4 @@
+ALTER TYPE "public"."auth_token_purpose" ADD VALUE 'email_verification';--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "email_verified_at" timestamp;--> statement-breakpoint
+-- Accounts created before verification existed are treated as verified
+UPDATE "users" SET "email_verified_at" = "created_at" WHERE "email_verified_at" IS NULL;
\ No newline at end of file
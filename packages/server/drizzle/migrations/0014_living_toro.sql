@@ -0,0 +1,4 @@
+CREATE TYPE "public"."account_status" AS ENUM('active', 'suspended', 'deactivated', 'pending_deletion');--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "status" "account_status" DEFAULT 'active' NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "deletion_scheduled_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "deleted_at" timestamp;
\ No newline at end of file
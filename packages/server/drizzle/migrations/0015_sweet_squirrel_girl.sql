@@ -0,0 +1,20 @@
+CREATE TABLE "venues" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"public_id" uuid DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(150) NOT NULL,
+	"address" varchar(255),
+	"city" varchar(100),
+	"latitude" double precision NOT NULL,
+	"longitude" double precision NOT NULL,
+	"created_by" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "venues_public_id_unique" UNIQUE("public_id")
+);
+--> statement-breakpoint
+ALTER TABLE "activities" ADD COLUMN "venue_id" uuid;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "home_latitude" double precision;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "home_longitude" double precision;--> statement-breakpoint
+ALTER TABLE "venues" ADD CONSTRAINT "venues_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "venues_lat_lng_idx" ON "venues" USING btree ("latitude","longitude");--> statement-breakpoint
+ALTER TABLE "activities" ADD CONSTRAINT "activities_venue_id_venues_id_fk" FOREIGN KEY ("venue_id") REFERENCES "public"."venues"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,36 @@
+CREATE TABLE "venue_activity_types" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"venue_id" uuid NOT NULL,
+	"activity_type_id" uuid NOT NULL,
+	CONSTRAINT "venue_activity_types_venue_id_activity_type_id_unique" UNIQUE("venue_id","activity_type_id")
+);
+--> statement-breakpoint
+CREATE TABLE "venue_opening_hours" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"venue_id" uuid NOT NULL,
+	"day_of_week" integer NOT NULL,
+	"opens_at" varchar(5) NOT NULL,
+	"closes_at" varchar(5) NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "venue_resources" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"venue_id" uuid NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"capacity" integer,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "venue_resources_venue_id_name_unique" UNIQUE("venue_id","name")
+);
+--> statement-breakpoint
+ALTER TABLE "activities" ADD COLUMN "venue_resource_id" uuid;--> statement-breakpoint
+ALTER TABLE "activities" ADD COLUMN "duration_minutes" integer;--> statement-breakpoint
+ALTER TABLE "venues" ADD COLUMN "time_zone" varchar(64) DEFAULT 'UTC' NOT NULL;--> statement-breakpoint
+ALTER TABLE "venue_activity_types" ADD CONSTRAINT "venue_activity_types_venue_id_venues_id_fk" FOREIGN KEY ("venue_id") REFERENCES "public"."venues"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "venue_activity_types" ADD CONSTRAINT "venue_activity_types_activity_type_id_activity_types_id_fk" FOREIGN KEY ("activity_type_id") REFERENCES "public"."activity_types"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "venue_opening_hours" ADD CONSTRAINT "venue_opening_hours_venue_id_venues_id_fk" FOREIGN KEY ("venue_id") REFERENCES "public"."venues"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "venue_resources" ADD CONSTRAINT "venue_resources_venue_id_venues_id_fk" FOREIGN KEY ("venue_id") REFERENCES "public"."venues"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "venue_opening_hours_venue_idx" ON "venue_opening_hours" USING btree ("venue_id","day_of_week");--> statement-breakpoint
+ALTER TABLE "activities" ADD CONSTRAINT "activities_venue_resource_id_venue_resources_id_fk" FOREIGN KEY ("venue_resource_id") REFERENCES "public"."venue_resources"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "activities_venue_resource_time_idx" ON "activities" USING btree ("venue_resource_id","date_time");
\ No newline at end of file
@@ -0,0 +1,48 @@
+CREATE TABLE "activity_series" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"public_id" uuid DEFAULT gen_random_uuid() NOT NULL,
+	"activity_type_id" uuid NOT NULL,
+	"creator_id" uuid NOT NULL,
+	"description" text NOT NULL,
+	"location" varchar(255),
+	"venue_id" uuid,
+	"venue_resource_id" uuid,
+	"duration_minutes" integer,
+	"max_participants" integer,
+	"elo_level" integer,
+	"skill_requirements" jsonb DEFAULT '{}'::jsonb,
+	"is_elo_rated" boolean DEFAULT false NOT NULL,
+	"time_zone" varchar(64) DEFAULT 'UTC' NOT NULL,
+	"start_date" date NOT NULL,
+	"start_time" varchar(5) NOT NULL,
+	"interval_weeks" integer DEFAULT 1 NOT NULL,
+	"weekdays" integer[] NOT NULL,
+	"until_date" date,
+	"occurrence_count" integer,
+	"materialized_through" date,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "activity_series_public_id_unique" UNIQUE("public_id")
+);
+--> statement-breakpoint
+CREATE TABLE "activity_series_regulars" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"series_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"team" varchar(50),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "activity_series_regulars_series_id_user_id_unique" UNIQUE("series_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "activities" ADD COLUMN "series_id" uuid;--> statement-breakpoint
+ALTER TABLE "activities" ADD COLUMN "series_occurrence_date" date;--> statement-breakpoint
+ALTER TABLE "activities" ADD COLUMN "is_series_exception" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "activity_series" ADD CONSTRAINT "activity_series_activity_type_id_activity_types_id_fk" FOREIGN KEY ("activity_type_id") REFERENCES "public"."activity_types"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "activity_series" ADD CONSTRAINT "activity_series_creator_id_users_id_fk" FOREIGN KEY ("creator_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "activity_series" ADD CONSTRAINT "activity_series_venue_id_venues_id_fk" FOREIGN KEY ("venue_id") REFERENCES "public"."venues"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "activity_series" ADD CONSTRAINT "activity_series_venue_resource_id_venue_resources_id_fk" FOREIGN KEY ("venue_resource_id") REFERENCES "public"."venue_resources"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "activity_series_regulars" ADD CONSTRAINT "activity_series_regulars_series_id_activity_series_id_fk" FOREIGN KEY ("series_id") REFERENCES "public"."activity_series"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "activity_series_regulars" ADD CONSTRAINT "activity_series_regulars_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "activities" ADD CONSTRAINT "activities_series_id_activity_series_id_fk" FOREIGN KEY ("series_id") REFERENCES "public"."activity_series"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "activities" ADD CONSTRAINT "activities_series_id_series_occurrence_date_unique" UNIQUE("series_id","series_occurrence_date");
\ No newline at end of file
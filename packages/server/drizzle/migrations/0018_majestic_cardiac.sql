@@ -0,0 +1,5 @@
+ALTER TYPE "public"."participant_status" ADD VALUE 'waitlisted';--> statement-breakpoint
+ALTER TABLE "activities" ADD COLUMN "waitlist_confirm_hours" integer;--> statement-breakpoint
+ALTER TABLE "activity_participants" ADD COLUMN "waitlist_position" integer;--> statement-breakpoint
+ALTER TABLE "activity_participants" ADD COLUMN "confirm_by" timestamp;--> statement-breakpoint
+ALTER TABLE "activity_series" ADD COLUMN "waitlist_confirm_hours" integer;
\ No newline at end of file
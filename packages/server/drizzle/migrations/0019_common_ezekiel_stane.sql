@@ -0,0 +1,19 @@
+CREATE TYPE "public"."job_status" AS ENUM('pending', 'running', 'completed', 'failed');--> statement-breakpoint
+CREATE TABLE "scheduled_jobs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job_type" varchar(100) NOT NULL,
+	"entity_id" uuid NOT NULL,
+	"run_at" timestamp NOT NULL,
+	"status" "job_status" DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_error" text,
+	"locked_at" timestamp,
+	"completed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "scheduled_jobs_job_type_entity_id_unique" UNIQUE("job_type","entity_id")
+);
+--> statement-breakpoint
+ALTER TABLE "activity_participants" ADD COLUMN "checked_in_at" timestamp;--> statement-breakpoint
+ALTER TABLE "activity_participants" ADD COLUMN "is_no_show" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+CREATE INDEX "scheduled_jobs_status_run_at_idx" ON "scheduled_jobs" USING btree ("status","run_at");
\ No newline at end of file
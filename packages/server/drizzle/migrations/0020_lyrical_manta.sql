@@ -0,0 +1,34 @@
+CREATE TYPE "public"."result_response" AS ENUM('confirm', 'dispute');--> statement-breakpoint
+CREATE TYPE "public"."result_status" AS ENUM('proposed', 'confirmed', 'disputed', 'resolved');--> statement-breakpoint
+CREATE TABLE "activity_result_responses" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"submission_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"team" varchar(50),
+	"response" "result_response" NOT NULL,
+	"reason" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "activity_result_responses_submission_id_user_id_unique" UNIQUE("submission_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "activity_result_submissions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"activity_id" uuid NOT NULL,
+	"submitted_by" uuid,
+	"participant_results" jsonb NOT NULL,
+	"completion_notes" text,
+	"status" "result_status" DEFAULT 'proposed' NOT NULL,
+	"respond_by" timestamp NOT NULL,
+	"resolved_by" uuid,
+	"resolved_at" timestamp,
+	"resolution_note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "activity_result_submissions_activity_id_unique" UNIQUE("activity_id")
+);
+--> statement-breakpoint
+ALTER TABLE "activity_result_responses" ADD CONSTRAINT "activity_result_responses_submission_id_activity_result_submissions_id_fk" FOREIGN KEY ("submission_id") REFERENCES "public"."activity_result_submissions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "activity_result_responses" ADD CONSTRAINT "activity_result_responses_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "activity_result_submissions" ADD CONSTRAINT "activity_result_submissions_activity_id_activities_id_fk" FOREIGN KEY ("activity_id") REFERENCES "public"."activities"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "activity_result_submissions" ADD CONSTRAINT "activity_result_submissions_submitted_by_users_id_fk" FOREIGN KEY ("submitted_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "activity_result_submissions" ADD CONSTRAINT "activity_result_submissions_resolved_by_users_id_fk" FOREIGN KEY ("resolved_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
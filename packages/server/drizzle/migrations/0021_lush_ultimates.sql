@@ -0,0 +1,3 @@
+ALTER TABLE "activities" ADD COLUMN "score" jsonb;--> statement-breakpoint
+ALTER TABLE "activity_participants" ADD COLUMN "placement" integer;--> statement-breakpoint
+ALTER TABLE "activity_result_submissions" ADD COLUMN "score" jsonb;
\ No newline at end of file
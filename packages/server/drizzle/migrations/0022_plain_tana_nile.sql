@@ -0,0 +1,3 @@
+ALTER TYPE "public"."chat_message_type" ADD VALUE 'announcement';--> statement-breakpoint
+ALTER TABLE "activities" ADD COLUMN "cancelled_at" timestamp;--> statement-breakpoint
+ALTER TABLE "activities" ADD COLUMN "cancellation_reason" text;
\ No newline at end of file
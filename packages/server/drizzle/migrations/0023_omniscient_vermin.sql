@@ -0,0 +1,26 @@
+CREATE TABLE "activity_templates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"owner_id" uuid,
+	"team_id" uuid,
+	"created_by" uuid,
+	"activity_type_id" uuid NOT NULL,
+	"description" text NOT NULL,
+	"location" varchar(255),
+	"venue_id" uuid,
+	"venue_resource_id" uuid,
+	"duration_minutes" integer,
+	"max_participants" integer,
+	"skill_requirements" jsonb DEFAULT '{}'::jsonb,
+	"is_elo_rated" boolean DEFAULT false NOT NULL,
+	"default_teams" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "activity_templates" ADD CONSTRAINT "activity_templates_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "activity_templates" ADD CONSTRAINT "activity_templates_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "activity_templates" ADD CONSTRAINT "activity_templates_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "activity_templates" ADD CONSTRAINT "activity_templates_activity_type_id_activity_types_id_fk" FOREIGN KEY ("activity_type_id") REFERENCES "public"."activity_types"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "activity_templates" ADD CONSTRAINT "activity_templates_venue_id_venues_id_fk" FOREIGN KEY ("venue_id") REFERENCES "public"."venues"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "activity_templates" ADD CONSTRAINT "activity_templates_venue_resource_id_venue_resources_id_fk" FOREIGN KEY ("venue_resource_id") REFERENCES "public"."venue_resources"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
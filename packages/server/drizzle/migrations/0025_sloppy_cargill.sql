@@ -0,0 +1,9 @@
+CREATE TABLE "user_privacy_settings" (
+	"user_id" uuid PRIMARY KEY NOT NULL,
+	"auto_post_activity_recaps" boolean DEFAULT false NOT NULL,
+	"auto_post_skill_milestones" boolean DEFAULT false NOT NULL,
+	"auto_post_visibility" "visibility" DEFAULT 'friends' NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user_privacy_settings" ADD CONSTRAINT "user_privacy_settings_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
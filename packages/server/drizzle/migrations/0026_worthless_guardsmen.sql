@@ -0,0 +1,45 @@
+CREATE TYPE "public"."team_request_status" AS ENUM('pending', 'approved', 'rejected', 'expired', 'cancelled');--> statement-breakpoint
+CREATE TYPE "public"."team_role" AS ENUM('owner', 'captain', 'member');--> statement-breakpoint
+CREATE TABLE "team_invitations" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"team_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"invited_by" uuid,
+	"message" text,
+	"status" "team_request_status" DEFAULT 'pending' NOT NULL,
+	"responded_at" timestamp,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "team_join_requests" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"team_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"message" text,
+	"status" "team_request_status" DEFAULT 'pending' NOT NULL,
+	"responded_by" uuid,
+	"responded_at" timestamp,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+-- Free-text roles become the enum: team admins are captains, anything else a member
+ALTER TABLE "team_members" ALTER COLUMN "role" DROP DEFAULT;--> statement-breakpoint
+UPDATE "team_members" SET "role" = CASE WHEN "role" IN ('admin', 'captain') THEN 'captain' ELSE 'member' END;--> statement-breakpoint
+-- The creator owns the team, and joins it if they had left
+UPDATE "team_members" tm SET "role" = 'owner' FROM "teams" t WHERE tm."team_id" = t."id" AND tm."user_id" = t."creator_id";--> statement-breakpoint
+INSERT INTO "team_members" ("team_id", "user_id", "role")
+SELECT t."id", t."creator_id", 'owner' FROM "teams" t
+WHERE NOT EXISTS (SELECT 1 FROM "team_members" tm WHERE tm."team_id" = t."id" AND tm."user_id" = t."creator_id");--> statement-breakpoint
+ALTER TABLE "team_members" ALTER COLUMN "role" SET DATA TYPE "public"."team_role" USING "role"::"public"."team_role";--> statement-breakpoint
+ALTER TABLE "team_members" ALTER COLUMN "role" SET DEFAULT 'member'::"public"."team_role";--> statement-breakpoint
+ALTER TABLE "team_members" ALTER COLUMN "role" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "team_invitations" ADD CONSTRAINT "team_invitations_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "team_invitations" ADD CONSTRAINT "team_invitations_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "team_invitations" ADD CONSTRAINT "team_invitations_invited_by_users_id_fk" FOREIGN KEY ("invited_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "team_join_requests" ADD CONSTRAINT "team_join_requests_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "team_join_requests" ADD CONSTRAINT "team_join_requests_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "team_join_requests" ADD CONSTRAINT "team_join_requests_responded_by_users_id_fk" FOREIGN KEY ("responded_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "team_invitations_user_status_idx" ON "team_invitations" USING btree ("user_id","status");--> statement-breakpoint
+CREATE INDEX "team_join_requests_team_status_idx" ON "team_join_requests" USING btree ("team_id","status");
\ No newline at end of file
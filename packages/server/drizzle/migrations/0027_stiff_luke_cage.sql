@@ -0,0 +1,41 @@
+CREATE TABLE "team_activity_type_elos" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"team_id" uuid NOT NULL,
+	"activity_type_id" uuid NOT NULL,
+	"elo_score" integer DEFAULT 1200 NOT NULL,
+	"games_played" integer DEFAULT 0 NOT NULL,
+	"peak_elo" integer DEFAULT 1200 NOT NULL,
+	"rating_deviation" integer DEFAULT 350 NOT NULL,
+	"volatility" double precision DEFAULT 0.06 NOT NULL,
+	"last_updated" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "team_activity_type_elos_team_id_activity_type_id_unique" UNIQUE("team_id","activity_type_id")
+);
+--> statement-breakpoint
+CREATE TABLE "team_elo_history" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"team_id" uuid NOT NULL,
+	"activity_type_id" uuid NOT NULL,
+	"activity_id" uuid NOT NULL,
+	"opponent_team_id" uuid,
+	"old_elo" integer NOT NULL,
+	"new_elo" integer NOT NULL,
+	"elo_change" integer NOT NULL,
+	"k_factor" integer NOT NULL,
+	"expected_score" double precision NOT NULL,
+	"actual_score" double precision NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "team_elo_history_activity_id_team_id_unique" UNIQUE("activity_id","team_id")
+);
+--> statement-breakpoint
+ALTER TABLE "activities" ADD COLUMN "home_team_id" uuid;--> statement-breakpoint
+ALTER TABLE "activities" ADD COLUMN "away_team_id" uuid;--> statement-breakpoint
+ALTER TABLE "team_activity_type_elos" ADD CONSTRAINT "team_activity_type_elos_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "team_activity_type_elos" ADD CONSTRAINT "team_activity_type_elos_activity_type_id_activity_types_id_fk" FOREIGN KEY ("activity_type_id") REFERENCES "public"."activity_types"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "team_elo_history" ADD CONSTRAINT "team_elo_history_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "team_elo_history" ADD CONSTRAINT "team_elo_history_activity_type_id_activity_types_id_fk" FOREIGN KEY ("activity_type_id") REFERENCES "public"."activity_types"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "team_elo_history" ADD CONSTRAINT "team_elo_history_activity_id_activities_id_fk" FOREIGN KEY ("activity_id") REFERENCES "public"."activities"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "team_elo_history" ADD CONSTRAINT "team_elo_history_opponent_team_id_teams_id_fk" FOREIGN KEY ("opponent_team_id") REFERENCES "public"."teams"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "team_elo_score_idx" ON "team_activity_type_elos" USING btree ("activity_type_id","elo_score");--> statement-breakpoint
+CREATE INDEX "team_elo_history_team_type_idx" ON "team_elo_history" USING btree ("team_id","activity_type_id","created_at");--> statement-breakpoint
+ALTER TABLE "activities" ADD CONSTRAINT "activities_home_team_id_teams_id_fk" FOREIGN KEY ("home_team_id") REFERENCES "public"."teams"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "activities" ADD CONSTRAINT "activities_away_team_id_teams_id_fk" FOREIGN KEY ("away_team_id") REFERENCES "public"."teams"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
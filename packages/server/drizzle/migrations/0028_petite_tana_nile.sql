@@ -0,0 +1,43 @@
+CREATE TYPE "public"."league_format" AS ENUM('round_robin', 'double_round_robin');--> statement-breakpoint
+CREATE TYPE "public"."league_status" AS ENUM('registration', 'active');--> statement-breakpoint
+CREATE TABLE "league_fixtures" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"league_id" uuid NOT NULL,
+	"activity_id" uuid NOT NULL,
+	"round" integer NOT NULL,
+	CONSTRAINT "league_fixtures_activity_id_unique" UNIQUE("activity_id")
+);
+--> statement-breakpoint
+CREATE TABLE "league_teams" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"league_id" uuid NOT NULL,
+	"team_id" uuid NOT NULL,
+	"registered_by" uuid,
+	"registered_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "league_teams_league_id_team_id_unique" UNIQUE("league_id","team_id")
+);
+--> statement-breakpoint
+CREATE TABLE "leagues" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"description" text,
+	"activity_type_id" uuid NOT NULL,
+	"organizer_id" uuid NOT NULL,
+	"format" "league_format" DEFAULT 'round_robin' NOT NULL,
+	"status" "league_status" DEFAULT 'registration' NOT NULL,
+	"points_for_win" integer DEFAULT 3 NOT NULL,
+	"points_for_draw" integer DEFAULT 1 NOT NULL,
+	"points_for_loss" integer DEFAULT 0 NOT NULL,
+	"is_elo_rated" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "league_fixtures" ADD CONSTRAINT "league_fixtures_league_id_leagues_id_fk" FOREIGN KEY ("league_id") REFERENCES "public"."leagues"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "league_fixtures" ADD CONSTRAINT "league_fixtures_activity_id_activities_id_fk" FOREIGN KEY ("activity_id") REFERENCES "public"."activities"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "league_teams" ADD CONSTRAINT "league_teams_league_id_leagues_id_fk" FOREIGN KEY ("league_id") REFERENCES "public"."leagues"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "league_teams" ADD CONSTRAINT "league_teams_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "league_teams" ADD CONSTRAINT "league_teams_registered_by_users_id_fk" FOREIGN KEY ("registered_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "leagues" ADD CONSTRAINT "leagues_activity_type_id_activity_types_id_fk" FOREIGN KEY ("activity_type_id") REFERENCES "public"."activity_types"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "leagues" ADD CONSTRAINT "leagues_organizer_id_users_id_fk" FOREIGN KEY ("organizer_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "league_fixtures_league_round_idx" ON "league_fixtures" USING btree ("league_id","round");
\ No newline at end of file
@@ -16,6 +16,13 @@ import { messagingRouter } from './routes/messaging.router.js';
 import { activityChatRouter } from './routes/activity-chat.router.js';
 import { deltaRouter } from './routes/delta.router.js';
 import { notificationsRouter } from './routes/notifications.router.js';
+import { venuesRouter } from './routes/venues.router.js';
+import { activitySeriesRouter } from './routes/activity-series.router.js';
+import { resultDisputesRouter } from './routes/result-disputes.router.js';
+import { activityTemplatesRouter } from './routes/activity-templates.router.js';
+import { feedRouter } from './routes/feed.router.js';
+import { teamsRouter } from './routes/team.router.js';
+import { leaguesRouter } from './routes/leagues.router.js';
 import invitationsRouter from './routes/invitations.router.js';
 
 const app = new Hono();
@@ -55,11 +62,18 @@ const apiRoutes = app
   .route('/users', usersRouter)
   .route('/activity-types', activityTypesRouter)
   .route('/activities', activitiesRouter)
+  .route('/activity-series', activitySeriesRouter)
+  .route('/activity-templates', activityTemplatesRouter)
+  .route('/result-disputes', resultDisputesRouter)
   .route('/skill-ratings', skillRatingRouter)
+  .route('/feed', feedRouter)
+  .route('/teams', teamsRouter)
+  .route('/leagues', leaguesRouter)
   .route('/messaging', messagingRouter)
   .route('/chat', activityChatRouter)
   .route('/delta', deltaRouter)
   .route('/notifications', notificationsRouter)
+  .route('/venues', venuesRouter)
   .route('/invitations', invitationsRouter);
 
 // Error handling middleware (should be last)
@@ -81,6 +95,7 @@ app.notFound((c) => {
       users: [
         'GET /api/users/:userId/quick-stats',
         'GET /api/users/:userId/elo',
+        'GET /api/users/:userId/elo/history',
         'GET /api/users/:userId/skills',
         'GET /api/users/:userId/activity-stats',
         'GET /api/users/:userId/profile'
@@ -88,20 +103,90 @@ app.notFound((c) => {
       activities: [
         'GET /api/activities',
         'POST /api/activities',
+        'POST /api/activities/from-template/:templateId',
         'GET /api/activities/:id',
         'POST /api/activities/:id/join',
-        'POST /api/activities/:id/complete'
+        'POST /api/activities/:id/complete',
+        'GET /api/activities/:id/results',
+        'POST /api/activities/:id/results/respond'
+      ],
+      resultDisputes: [
+        'GET /api/result-disputes',
+        'POST /api/result-disputes/:id/resolve'
+      ],
+      activitySeries: [
+        'GET /api/activity-series',
+        'GET /api/activity-series/:id',
+        'POST /api/activity-series/:id/regulars',
+        'POST /api/activity-series/:id/end'
+      ],
+      activityTemplates: [
+        'GET /api/activity-templates',
+        'POST /api/activity-templates',
+        'GET /api/activity-templates/:id',
+        'PUT /api/activity-templates/:id',
+        'DELETE /api/activity-templates/:id'
       ],
       skillRatings: [
         'POST /api/skill-ratings',
         'GET /api/skill-ratings/activity/:activityId/pending',
-        'GET /api/skill-ratings/user/:userId'
+        'GET /api/skill-ratings/user/:userId',
+        'GET /api/skill-ratings/user/:userId/history'
+      ],
+      feed: [
+        'GET /api/feed',
+        'POST /api/feed/posts',
+        'GET /api/feed/posts/:id',
+        'PUT /api/feed/posts/:id',
+        'DELETE /api/feed/posts/:id',
+        'POST /api/feed/posts/:id/like',
+        'DELETE /api/feed/posts/:id/like',
+        'GET /api/feed/posts/:id/comments',
+        'POST /api/feed/posts/:id/comments',
+        'DELETE /api/feed/posts/:id/comments/:commentId'
+      ],
+      teams: [
+        'GET /api/teams',
+        'POST /api/teams',
+        'GET /api/teams/me/invitations',
+        'PUT /api/teams/invitations/:invitationId/respond',
+        'GET /api/teams/:teamId',
+        'PUT /api/teams/:teamId',
+        'DELETE /api/teams/:teamId',
+        'POST /api/teams/:teamId/members',
+        'PUT /api/teams/:teamId/members/:userId',
+        'DELETE /api/teams/:teamId/members/:userId',
+        'POST /api/teams/:teamId/transfer-ownership',
+        'POST /api/teams/:teamId/join-request',
+        'DELETE /api/teams/:teamId/join-request',
+        'GET /api/teams/:teamId/join-requests',
+        'PUT /api/teams/:teamId/join-requests/:requestId/respond',
+        'GET /api/teams/:teamId/invitations',
+        'POST /api/teams/:teamId/invitations',
+        'DELETE /api/teams/:teamId/invitations/:invitationId'
+      ],
+      leagues: [
+        'GET /api/leagues',
+        'POST /api/leagues',
+        'GET /api/leagues/:leagueId',
+        'POST /api/leagues/:leagueId/teams',
+        'DELETE /api/leagues/:leagueId/teams/:teamId',
+        'POST /api/leagues/:leagueId/fixtures/generate',
+        'GET /api/leagues/:leagueId/fixtures',
+        'GET /api/leagues/:leagueId/standings'
       ],
       notifications: [
         'GET /api/notifications/count',
         'GET /api/notifications',
         'POST /api/notifications/:id/read'
       ],
+      venues: [
+        'GET /api/venues',
+        'POST /api/venues',
+        'GET /api/venues/:id',
+        'GET /api/venues/:id/availability',
+        'PUT /api/venues/:id'
+      ],
       other: [
         'GET /api/activity-types',
         'GET /api/delta/changes',
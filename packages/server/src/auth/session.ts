@@ -11,6 +11,7 @@ import {
 import { db } from '../db/client.js';
 import { users } from '../db/schema.js';
 import { eq } from 'drizzle-orm';
+import { accountService } from '../services/account.service.js';
 
 export interface SessionData {
   userId: string;
@@ -295,8 +296,14 @@ export class SessionService {
         throw new Error('User not found');
       }
 
-      if (user.role === 'deactivated') {
-        throw new Error('Account is deactivated');
+      const accessError = accountService.getAccessError(user.status);
+      if (accessError) {
+        throw new Error(accessError);
+      }
+
+      // Signing back in during the grace period keeps the account
+      if (user.status === 'pending_deletion') {
+        await accountService.cancelDeletion(user.id);
       }
 
       // Cleanup old sessions for this user if over limit
@@ -377,8 +384,14 @@ export class SessionService {
         return { valid: false, error: 'User not found' };
       }
 
-      if (user.role === 'deactivated') {
-        return { valid: false, error: 'Account deactivated' };
+      const accessError = accountService.getAccessError(user.status);
+      if (accessError) {
+        return { valid: false, error: accessError };
+      }
+
+      // Sessions issued before a deletion request end with it
+      if (user.status === 'pending_deletion') {
+        return { valid: false, error: 'Account is pending deletion' };
       }
 
       // For JWT-based sessions, create virtual session data
@@ -11,6 +11,16 @@ export const skillCategorySchema = z.object({
   displayOrder: z.number().default(0)
 });
 
+// How an activity type records results - "outcome" is plain win/loss/draw
+export const resultFormatEnum = z.enum([
+  'outcome',
+  'sets',
+  'goals',
+  'time',
+  'distance',
+  'placement'
+]);
+
 // Default ELO Settings Schema
 export const defaultELOSettingsSchema = z.object({
   startingELO: z.number().min(800).max(2000).default(1200),
@@ -30,9 +40,52 @@ export const defaultELOSettingsSchema = z.object({
     expert: z.object({ min: z.number(), max: z.number() })
   }).optional(),
   allowDraws: z.boolean().default(false),
+  ratingSystem: z.enum(['elo', 'glicko2']).optional(),
+  glickoTau: z.number().min(0.2).max(1.2).optional(),
+  resultFormat: resultFormatEnum.optional(),
+  // Scale rating changes by the score margin (sets and goals only)
+  marginScaling: z.boolean().optional(),
   specialRules: z.record(z.any()).optional()
 });
 
+// Fallbacks used when a stored activity type is missing (or has an invalid) ELO setting
+export const DEFAULT_ACTIVITY_ELO_SETTINGS = {
+  startingELO: 1200,
+  kFactor: {
+    new: 40,
+    established: 24,
+    expert: 16
+  },
+  provisionalGames: 10,
+  minimumParticipants: 2,
+  teamBased: false,
+  allowDraws: true,
+  skillInfluence: 0.3,
+  ratingSystem: 'elo' as const,
+  glickoTau: 0.5,
+  resultFormat: 'outcome' as const,
+  marginScaling: false
+};
+
+// Lenient schema for reading the JSONB column - every field falls back on its own
+export const storedELOSettingsSchema = z.object({
+  startingELO: z.number().int().min(800).max(2000).catch(DEFAULT_ACTIVITY_ELO_SETTINGS.startingELO),
+  kFactor: z.object({
+    new: z.number().min(16).max(64).catch(DEFAULT_ACTIVITY_ELO_SETTINGS.kFactor.new),
+    established: z.number().min(8).max(32).catch(DEFAULT_ACTIVITY_ELO_SETTINGS.kFactor.established),
+    expert: z.number().min(4).max(24).catch(DEFAULT_ACTIVITY_ELO_SETTINGS.kFactor.expert)
+  }).catch(DEFAULT_ACTIVITY_ELO_SETTINGS.kFactor),
+  provisionalGames: z.number().int().min(5).max(50).catch(DEFAULT_ACTIVITY_ELO_SETTINGS.provisionalGames),
+  minimumParticipants: z.number().int().min(1).max(20).catch(DEFAULT_ACTIVITY_ELO_SETTINGS.minimumParticipants),
+  teamBased: z.boolean().optional().catch(undefined),
+  allowDraws: z.boolean().catch(DEFAULT_ACTIVITY_ELO_SETTINGS.allowDraws),
+  skillInfluence: z.number().min(0).max(1).catch(DEFAULT_ACTIVITY_ELO_SETTINGS.skillInfluence),
+  ratingSystem: z.enum(['elo', 'glicko2']).catch(DEFAULT_ACTIVITY_ELO_SETTINGS.ratingSystem),
+  glickoTau: z.number().min(0.2).max(1.2).catch(DEFAULT_ACTIVITY_ELO_SETTINGS.glickoTau),
+  resultFormat: resultFormatEnum.catch(DEFAULT_ACTIVITY_ELO_SETTINGS.resultFormat),
+  marginScaling: z.boolean().catch(DEFAULT_ACTIVITY_ELO_SETTINGS.marginScaling)
+});
+
 // Activity Category enum
 export const activityCategoryEnum = z.enum([
   'team_sports', 
@@ -83,6 +136,7 @@ export type UpdateActivityTypeRequest = z.infer<typeof updateActivityTypeRequest
 export type SkillCategory = z.infer<typeof skillCategorySchema>;
 export type DefaultELOSettings = z.infer<typeof defaultELOSettingsSchema>;
 export type ActivityCategory = z.infer<typeof activityCategoryEnum>;
+export type ResultFormat = z.infer<typeof resultFormatEnum>;
 
 // Validation helper functions
 export const validateSkillCategories = (categories: unknown) => {
@@ -99,4 +153,10 @@ export const validateELOSettings = (settings: unknown) => {
   } catch (error) {
     throw new Error(`Invalid ELO settings: ${error}`);
   }
+};
+
+// Never throws - unknown or out-of-range values are replaced with defaults
+export const parseStoredELOSettings = (settings: unknown) => {
+  const source = settings && typeof settings === 'object' ? settings : {};
+  return storedELOSettingsSchema.parse(source);
 };
\ No newline at end of file
@@ -250,6 +250,11 @@ export const deltaChangeInputSchema = z.object({
     "activity_chat_message",
     "team_member",
     'team',
+    "team_join_request",
+    "team_invitation",
+    "post",
+    "post_like",
+    "post_comment",
     'test'
   ]),
   entityId: z.string().min(1, "Entity ID is required"),
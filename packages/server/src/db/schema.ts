@@ -1,5 +1,5 @@
 // src/db/schema.ts - Corrected schema with updated pgTable syntax and missing properties
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 import {
   pgTable,
   varchar,
@@ -12,7 +12,11 @@ import {
   jsonb,
   unique,
   index,
+  uniqueIndex,
   decimal,
+  doublePrecision,
+  date,
+  type AnyPgColumn,
   type PgTableWithColumns,
 } from "drizzle-orm/pg-core";
 
@@ -21,6 +25,12 @@ export * from './delta-tracking.schema';
 
 // Enums
 export const userRoleEnum = pgEnum("user_role", ["admin", "user", "moderator"]);
+export const accountStatusEnum = pgEnum("account_status", [
+  "active",
+  "suspended",
+  "deactivated",
+  "pending_deletion",
+]);
 export const connectionStatusEnum = pgEnum("connection_status", [
   "pending",
   "accepted",
@@ -30,7 +40,8 @@ export const participantStatusEnum = pgEnum("participant_status", [
   "pending",
   "accepted",
   "declined",
-  "rated"
+  "rated",
+  "waitlisted"
 ]);
 export const skillTypeEnum = pgEnum("skill_type", [
   "physical",
@@ -51,6 +62,7 @@ export const chatMessageTypeEnum = pgEnum("chat_message_type", [
   "system",
   "image",
   "file",
+  "announcement",
 ]);
 export const completionStatusEnum = pgEnum("completion_status", [
   "scheduled",
@@ -69,6 +81,11 @@ export const eloStatusEnum = pgEnum("elo_status", [
   "completed",
   "error"
 ]);
+export const seasonStatusEnum = pgEnum("season_status", [
+  "upcoming",
+  "active",
+  "completed"
+]);
 export const postTypeEnum = pgEnum("post_type", [
   "activity_recap",
   "skill_milestone", 
@@ -79,6 +96,49 @@ export const visibilityEnum = pgEnum("visibility", [
   "friends",
   "private"
 ]);
+export const authTokenPurposeEnum = pgEnum("auth_token_purpose", [
+  "password_reset",
+  "email_verification"
+]);
+export const resultStatusEnum = pgEnum("result_status", [
+  "proposed",
+  "confirmed",
+  "disputed",
+  "resolved"
+]);
+export const resultResponseEnum = pgEnum("result_response", [
+  "confirm",
+  "dispute"
+]);
+export const jobStatusEnum = pgEnum("job_status", [
+  "pending",
+  "running",
+  "completed",
+  "failed"
+]);
+export const teamRoleEnum = pgEnum("team_role", [
+  "owner",
+  "captain",
+  "member"
+]);
+// Shared by join requests and invitations - an accepted invitation is
+// "approved", a declined one "rejected"
+export const teamRequestStatusEnum = pgEnum("team_request_status", [
+  "pending",
+  "approved",
+  "rejected",
+  "expired",
+  "cancelled"
+]);
+export const leagueFormatEnum = pgEnum("league_format", [
+  "round_robin",
+  "double_round_robin"
+]);
+// Teams register while a league is open; generating fixtures starts it
+export const leagueStatusEnum = pgEnum("league_status", [
+  "registration",
+  "active"
+]);
 
 // Core Tables
 export const users = pgTable("users", {
@@ -89,6 +149,15 @@ export const users = pgTable("users", {
   passwordHash: varchar("password_hash", { length: 255 }),
   avatarUrl: varchar("avatar_url", { length: 500 }),
   role: userRoleEnum("role").default("user").notNull(),
+  status: accountStatusEnum("status").default("active").notNull(),
+  emailVerifiedAt: timestamp("email_verified_at"),
+  // Set when the owner asks for deletion; personal data is purged after this date
+  deletionScheduledAt: timestamp("deletion_scheduled_at"),
+  // Set once the account has been anonymized - the row stays as a tombstone
+  deletedAt: timestamp("deleted_at"),
+  // Home area used to rank nearby activities - never shown to other users
+  homeLatitude: doublePrecision("home_latitude"),
+  homeLongitude: doublePrecision("home_longitude"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -126,7 +195,81 @@ export const activityTypes = pgTable("activity_types", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
-export const activities = pgTable("activities", {
+// Places activities happen at. Coordinates are WGS84 degrees.
+export const venues = pgTable(
+  "venues",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    publicId: uuid("public_id").defaultRandom().notNull().unique(),
+    name: varchar("name", { length: 150 }).notNull(),
+    address: varchar("address", { length: 255 }),
+    city: varchar("city", { length: 100 }),
+    latitude: doublePrecision("latitude").notNull(),
+    longitude: doublePrecision("longitude").notNull(),
+    // Opening hours and availability dates are read in this zone
+    timeZone: varchar("time_zone", { length: 64 }).default("UTC").notNull(),
+    createdBy: uuid("created_by").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [index("venues_lat_lng_idx").on(table.latitude, table.longitude)]
+);
+
+// Bookable parts of a venue - "Court 1", "Court 2", ...
+export const venueResources = pgTable(
+  "venue_resources",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    venueId: uuid("venue_id")
+      .references(() => venues.id, { onDelete: "cascade" })
+      .notNull(),
+    name: varchar("name", { length: 100 }).notNull(),
+    // Most people one booking may bring; null means no limit
+    capacity: integer("capacity"),
+    isActive: boolean("is_active").default(true).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [unique().on(table.venueId, table.name)]
+);
+
+// Activity types a venue can host. A venue with no rows accepts any type.
+export const venueActivityTypes = pgTable(
+  "venue_activity_types",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    venueId: uuid("venue_id")
+      .references(() => venues.id, { onDelete: "cascade" })
+      .notNull(),
+    activityTypeId: uuid("activity_type_id")
+      .references(() => activityTypes.id, { onDelete: "cascade" })
+      .notNull(),
+  },
+  (table) => [unique().on(table.venueId, table.activityTypeId)]
+);
+
+// Weekly opening hours in the venue's time zone (dayOfWeek 0 = Sunday).
+// A venue with no rows is open around the clock.
+export const venueOpeningHours = pgTable(
+  "venue_opening_hours",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    venueId: uuid("venue_id")
+      .references(() => venues.id, { onDelete: "cascade" })
+      .notNull(),
+    dayOfWeek: integer("day_of_week").notNull(),
+    opensAt: varchar("opens_at", { length: 5 }).notNull(),
+    closesAt: varchar("closes_at", { length: 5 }).notNull(),
+  },
+  (table) => [index("venue_opening_hours_venue_idx").on(table.venueId, table.dayOfWeek)]
+);
+
+// Recurring activities such as a weekly pickup game. The template fields mirror
+// activities; occurrences are created as activities rows on a rolling horizon.
+// The recurrence is read in the series time zone: every intervalWeeks weeks on
+// the given weekdays (0 = Sunday) at startTime, from startDate until untilDate
+// or for occurrenceCount occurrences.
+export const activitySeries = pgTable("activity_series", {
   id: uuid("id").defaultRandom().primaryKey(),
   publicId: uuid("public_id").defaultRandom().notNull().unique(),
   activityTypeId: uuid("activity_type_id")
@@ -137,16 +280,99 @@ export const activities = pgTable("activities", {
     .notNull(),
   description: text("description").notNull(),
   location: varchar("location", { length: 255 }),
-  dateTime: timestamp("date_time").notNull(),
+  venueId: uuid("venue_id").references(() => venues.id, { onDelete: "set null" }),
+  venueResourceId: uuid("venue_resource_id").references(() => venueResources.id, {
+    onDelete: "set null",
+  }),
+  durationMinutes: integer("duration_minutes"),
   maxParticipants: integer("max_participants"),
+  waitlistConfirmHours: integer("waitlist_confirm_hours"),
   eloLevel: integer("elo_level"),
   skillRequirements: jsonb("skill_requirements").default({}),
   isELORated: boolean("is_elo_rated").default(false).notNull(),
-  completionStatus: completionStatusEnum("completion_status").default("scheduled").notNull(),
+  timeZone: varchar("time_zone", { length: 64 }).default("UTC").notNull(),
+  startDate: date("start_date").notNull(),
+  startTime: varchar("start_time", { length: 5 }).notNull(),
+  intervalWeeks: integer("interval_weeks").default(1).notNull(),
+  weekdays: integer("weekdays").array().notNull(),
+  untilDate: date("until_date"),
+  occurrenceCount: integer("occurrence_count"),
+  // Occurrences have been created up to and including this date
+  materializedThrough: date("materialized_through"),
+  isActive: boolean("is_active").default(true).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Regular players, added to every new occurrence of the series
+export const activitySeriesRegulars = pgTable(
+  "activity_series_regulars",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    seriesId: uuid("series_id")
+      .references(() => activitySeries.id, { onDelete: "cascade" })
+      .notNull(),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    team: varchar("team", { length: 50 }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [unique().on(table.seriesId, table.userId)]
+);
+
+export const activities = pgTable(
+  "activities",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    publicId: uuid("public_id").defaultRandom().notNull().unique(),
+    activityTypeId: uuid("activity_type_id")
+      .references(() => activityTypes.id, { onDelete: "cascade" })
+      .notNull(),
+    creatorId: uuid("creator_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    description: text("description").notNull(),
+    location: varchar("location", { length: 255 }),
+    venueId: uuid("venue_id").references(() => venues.id, { onDelete: "set null" }),
+    // Court or pitch booked for this activity; bookings may not overlap
+    venueResourceId: uuid("venue_resource_id").references(() => venueResources.id, {
+      onDelete: "set null",
+    }),
+    dateTime: timestamp("date_time").notNull(),
+    durationMinutes: integer("duration_minutes"),
+    maxParticipants: integer("max_participants"),
+    // Hours a player promoted from the waitlist has to confirm; null promotes straight in
+    waitlistConfirmHours: integer("waitlist_confirm_hours"),
+    eloLevel: integer("elo_level"),
+    skillRequirements: jsonb("skill_requirements").default({}),
+    isELORated: boolean("is_elo_rated").default(false).notNull(),
+    completionStatus: completionStatusEnum("completion_status").default("scheduled").notNull(),
+    // Final structured score (sets, goals, times...), set once results are final
+    score: jsonb("score"),
+    // Cancelled activities are kept, with why and when they were called off
+    cancelledAt: timestamp("cancelled_at"),
+    cancellationReason: text("cancellation_reason"),
+    // Set on occurrences of a recurring series. Exceptions were edited on their
+    // own and are left alone by series-wide edits.
+    seriesId: uuid("series_id").references(() => activitySeries.id, {
+      onDelete: "set null",
+    }),
+    seriesOccurrenceDate: date("series_occurrence_date"),
+    isSeriesException: boolean("is_series_exception").default(false).notNull(),
+    // Fixtures are played between two teams; participants' team is then the
+    // ID of the team they play for and completion also rates both teams
+    homeTeamId: uuid("home_team_id").references(() => teams.id, { onDelete: "set null" }),
+    awayTeamId: uuid("away_team_id").references(() => teams.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("activities_venue_resource_time_idx").on(table.venueResourceId, table.dateTime),
+    unique().on(table.seriesId, table.seriesOccurrenceDate),
+  ]
+);
+
 export const activityParticipants = pgTable(
   "activity_participants",
   {
@@ -160,7 +386,17 @@ export const activityParticipants = pgTable(
     status: participantStatusEnum("status").default("pending").notNull(),
     team: varchar("team", { length: 50 }),
     finalResult: finalResultEnum("final_result"),
+    // Finishing position from the score; tied players share a position
+    placement: integer("placement"),
     performanceNotes: text("performance_notes"),
+    // Waitlist order, handed out in join order and never reused
+    waitlistPosition: integer("waitlist_position"),
+    // Set when promoted from the waitlist or when the activity is rescheduled;
+    // the spot is released if not confirmed by then
+    confirmBy: timestamp("confirm_by"),
+    checkedInAt: timestamp("checked_in_at"),
+    // Accepted but never checked in, decided when the activity closes
+    isNoShow: boolean("is_no_show").default(false).notNull(),
     joinedAt: timestamp("joined_at").defaultNow().notNull(),
   },
   (table) => [
@@ -288,7 +524,8 @@ export const userActivityTypeELOs = pgTable(
     gamesPlayed: integer("games_played").default(0).notNull(),
     peakELO: integer("peak_elo").default(1200),
     seasonELO: integer("season_elo"),
-    volatility: integer("volatility").default(350),
+    ratingDeviation: integer("rating_deviation").default(350).notNull(),
+    volatility: doublePrecision("volatility").default(0.06),
     lastUpdated: timestamp("last_updated").defaultNow().notNull(),
     version: integer("version").default(1),
   },
@@ -298,6 +535,88 @@ export const userActivityTypeELOs = pgTable(
   ]
 );
 
+// One row per participant per rated activity - source for rating timelines
+export const eloHistory = pgTable(
+  "elo_history",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    activityTypeId: uuid("activity_type_id")
+      .references(() => activityTypes.id, { onDelete: "cascade" })
+      .notNull(),
+    activityId: uuid("activity_id")
+      .references(() => activities.id, { onDelete: "cascade" })
+      .notNull(),
+    oldELO: integer("old_elo").notNull(),
+    newELO: integer("new_elo").notNull(),
+    eloChange: integer("elo_change").notNull(),
+    kFactor: integer("k_factor").notNull(),
+    expectedScore: doublePrecision("expected_score").notNull(),
+    actualScore: doublePrecision("actual_score").notNull(),
+    skillBonus: integer("skill_bonus").default(0).notNull(),
+    reason: text("reason"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    unique().on(table.activityId, table.userId),
+    index("elo_history_user_type_idx").on(
+      table.userId,
+      table.activityTypeId,
+      table.createdAt
+    ),
+  ]
+);
+
+export const seasons = pgTable(
+  "seasons",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    activityTypeId: uuid("activity_type_id")
+      .references(() => activityTypes.id, { onDelete: "cascade" })
+      .notNull(),
+    name: varchar("name", { length: 100 }).notNull(),
+    startDate: timestamp("start_date").notNull(),
+    endDate: timestamp("end_date").notNull(),
+    status: seasonStatusEnum("status").default("upcoming").notNull(),
+    // Share of the distance to the mean removed from each rating at rollover
+    resetFactor: doublePrecision("reset_factor").default(0.5).notNull(),
+    completedAt: timestamp("completed_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("seasons_type_status_idx").on(table.activityTypeId, table.status),
+    uniqueIndex("seasons_one_active_idx")
+      .on(table.activityTypeId)
+      .where(sql`${table.status} = 'active'`),
+  ]
+);
+
+// Final standings archived when a season rolls over
+export const seasonStandings = pgTable(
+  "season_standings",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    seasonId: uuid("season_id")
+      .references(() => seasons.id, { onDelete: "cascade" })
+      .notNull(),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    rank: integer("rank").notNull(),
+    startELO: integer("start_elo").notNull(),
+    finalELO: integer("final_elo").notNull(),
+    resetELO: integer("reset_elo").notNull(),
+    gamesPlayed: integer("games_played").default(0).notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    unique().on(table.seasonId, table.userId),
+    index("season_standings_rank_idx").on(table.seasonId, table.rank),
+  ]
+);
+
 export const activityELOStatus = pgTable("activity_elo_status", {
   activityId: uuid("activity_id")
     .references(() => activities.id, { onDelete: "cascade" })
@@ -312,6 +631,51 @@ export const activityELOStatus = pgTable("activity_elo_status", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Results submitted by the creator wait here until the other side confirms
+// them, the confirmation window lapses or a moderator settles a dispute
+export const activityResultSubmissions = pgTable("activity_result_submissions", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  activityId: uuid("activity_id")
+    .references(() => activities.id, { onDelete: "cascade" })
+    .notNull()
+    .unique(),
+  submittedBy: uuid("submitted_by").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  participantResults: jsonb("participant_results").notNull(),
+  // The score the results were worked out from, if one was given
+  score: jsonb("score"),
+  completionNotes: text("completion_notes"),
+  status: resultStatusEnum("status").default("proposed").notNull(),
+  respondBy: timestamp("respond_by").notNull(),
+  resolvedBy: uuid("resolved_by").references(() => users.id, {
+    onDelete: "set null",
+  }),
+  resolvedAt: timestamp("resolved_at"),
+  resolutionNote: text("resolution_note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const activityResultResponses = pgTable(
+  "activity_result_responses",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    submissionId: uuid("submission_id")
+      .references(() => activityResultSubmissions.id, { onDelete: "cascade" })
+      .notNull(),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    // The responder's team, one confirmation per team is enough
+    team: varchar("team", { length: 50 }),
+    response: resultResponseEnum("response").notNull(),
+    reason: text("reason"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [unique().on(table.submissionId, table.userId)]
+);
+
 // Teams and Messaging System
 export const teams = pgTable("teams", {
   id: uuid("id").defaultRandom().primaryKey(),
@@ -338,7 +702,8 @@ export const teamMembers = pgTable(
     userId: uuid("user_id")
       .references(() => users.id, { onDelete: "cascade" })
       .notNull(),
-    role: varchar("role", { length: 50 }).default("member"),
+    // Every team has exactly one owner, who is also teams.creatorId
+    role: teamRoleEnum("role").default("member").notNull(),
     joinedAt: timestamp("joined_at").defaultNow().notNull(),
   },
   (table) => [
@@ -346,6 +711,190 @@ export const teamMembers = pgTable(
   ]
 );
 
+// Team ratings per activity type, moved by fixtures between two teams
+export const teamActivityTypeELOs = pgTable(
+  "team_activity_type_elos",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    teamId: uuid("team_id")
+      .references(() => teams.id, { onDelete: "cascade" })
+      .notNull(),
+    activityTypeId: uuid("activity_type_id")
+      .references(() => activityTypes.id, { onDelete: "cascade" })
+      .notNull(),
+    eloScore: integer("elo_score").default(1200).notNull(),
+    gamesPlayed: integer("games_played").default(0).notNull(),
+    peakELO: integer("peak_elo").default(1200).notNull(),
+    ratingDeviation: integer("rating_deviation").default(350).notNull(),
+    volatility: doublePrecision("volatility").default(0.06).notNull(),
+    lastUpdated: timestamp("last_updated").defaultNow().notNull(),
+  },
+  (table) => [
+    unique().on(table.teamId, table.activityTypeId),
+    index("team_elo_score_idx").on(table.activityTypeId, table.eloScore),
+  ]
+);
+
+// One row per team per rated fixture - source for team rating trends
+export const teamEloHistory = pgTable(
+  "team_elo_history",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    teamId: uuid("team_id")
+      .references(() => teams.id, { onDelete: "cascade" })
+      .notNull(),
+    activityTypeId: uuid("activity_type_id")
+      .references(() => activityTypes.id, { onDelete: "cascade" })
+      .notNull(),
+    activityId: uuid("activity_id")
+      .references(() => activities.id, { onDelete: "cascade" })
+      .notNull(),
+    opponentTeamId: uuid("opponent_team_id").references(() => teams.id, {
+      onDelete: "set null",
+    }),
+    oldELO: integer("old_elo").notNull(),
+    newELO: integer("new_elo").notNull(),
+    eloChange: integer("elo_change").notNull(),
+    kFactor: integer("k_factor").notNull(),
+    expectedScore: doublePrecision("expected_score").notNull(),
+    actualScore: doublePrecision("actual_score").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    unique().on(table.activityId, table.teamId),
+    index("team_elo_history_team_type_idx").on(
+      table.teamId,
+      table.activityTypeId,
+      table.createdAt
+    ),
+  ]
+);
+
+// A player asking to join a private team; owners and captains answer it
+export const teamJoinRequests = pgTable(
+  "team_join_requests",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    teamId: uuid("team_id")
+      .references(() => teams.id, { onDelete: "cascade" })
+      .notNull(),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    message: text("message"),
+    status: teamRequestStatusEnum("status").default("pending").notNull(),
+    respondedBy: uuid("responded_by").references(() => users.id, { onDelete: "set null" }),
+    respondedAt: timestamp("responded_at"),
+    expiresAt: timestamp("expires_at").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("team_join_requests_team_status_idx").on(table.teamId, table.status)]
+);
+
+// A team inviting a player; only the invitee answers it
+export const teamInvitations = pgTable(
+  "team_invitations",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    teamId: uuid("team_id")
+      .references(() => teams.id, { onDelete: "cascade" })
+      .notNull(),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    invitedBy: uuid("invited_by").references(() => users.id, { onDelete: "set null" }),
+    message: text("message"),
+    status: teamRequestStatusEnum("status").default("pending").notNull(),
+    respondedAt: timestamp("responded_at"),
+    expiresAt: timestamp("expires_at").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("team_invitations_user_status_idx").on(table.userId, table.status)]
+);
+
+// A league season for one activity type. Standings award these points per
+// result; fixtures are activities between two registered teams.
+export const leagues = pgTable("leagues", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  description: text("description"),
+  activityTypeId: uuid("activity_type_id")
+    .references(() => activityTypes.id, { onDelete: "cascade" })
+    .notNull(),
+  organizerId: uuid("organizer_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .notNull(),
+  format: leagueFormatEnum("format").default("round_robin").notNull(),
+  status: leagueStatusEnum("status").default("registration").notNull(),
+  pointsForWin: integer("points_for_win").default(3).notNull(),
+  pointsForDraw: integer("points_for_draw").default(1).notNull(),
+  pointsForLoss: integer("points_for_loss").default(0).notNull(),
+  isELORated: boolean("is_elo_rated").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const leagueTeams = pgTable(
+  "league_teams",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    leagueId: uuid("league_id")
+      .references(() => leagues.id, { onDelete: "cascade" })
+      .notNull(),
+    teamId: uuid("team_id")
+      .references(() => teams.id, { onDelete: "cascade" })
+      .notNull(),
+    registeredBy: uuid("registered_by").references(() => users.id, { onDelete: "set null" }),
+    registeredAt: timestamp("registered_at").defaultNow().notNull(),
+  },
+  (table) => [unique().on(table.leagueId, table.teamId)]
+);
+
+// The round each league activity belongs to
+export const leagueFixtures = pgTable(
+  "league_fixtures",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    leagueId: uuid("league_id")
+      .references(() => leagues.id, { onDelete: "cascade" })
+      .notNull(),
+    activityId: uuid("activity_id")
+      .references(() => activities.id, { onDelete: "cascade" })
+      .notNull()
+      .unique(),
+    round: integer("round").notNull(),
+  },
+  (table) => [index("league_fixtures_league_round_idx").on(table.leagueId, table.round)]
+);
+
+// Reusable activity settings for organisers. A template belongs either to a
+// user or to a team; team templates are usable by every member of the team.
+// defaultTeams are the team names players pick from, the first one is the
+// organiser's.
+export const activityTemplates = pgTable("activity_templates", {
+  id: uuid("id").defaultRandom().primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  ownerId: uuid("owner_id").references(() => users.id, { onDelete: "cascade" }),
+  teamId: uuid("team_id").references(() => teams.id, { onDelete: "cascade" }),
+  createdBy: uuid("created_by").references(() => users.id, { onDelete: "set null" }),
+  activityTypeId: uuid("activity_type_id")
+    .references(() => activityTypes.id, { onDelete: "cascade" })
+    .notNull(),
+  description: text("description").notNull(),
+  location: varchar("location", { length: 255 }),
+  venueId: uuid("venue_id").references(() => venues.id, { onDelete: "set null" }),
+  venueResourceId: uuid("venue_resource_id").references(() => venueResources.id, {
+    onDelete: "set null",
+  }),
+  durationMinutes: integer("duration_minutes"),
+  maxParticipants: integer("max_participants"),
+  skillRequirements: jsonb("skill_requirements").default({}),
+  isELORated: boolean("is_elo_rated").default(false).notNull(),
+  defaultTeams: jsonb("default_teams").$type<string[]>().default([]).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const chatRooms = pgTable("chat_rooms", {
   id: uuid("id").defaultRandom().primaryKey(),
   publicId: uuid("public_id").defaultRandom().notNull().unique(),
@@ -478,13 +1027,156 @@ export const posts = pgTable("posts", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+export const postLikes = pgTable(
+  "post_likes",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    postId: uuid("post_id")
+      .references(() => posts.id, { onDelete: "cascade" })
+      .notNull(),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [unique().on(table.postId, table.userId)]
+);
+
+// Comments thread through parentId; removing a comment removes its replies
+export const postComments = pgTable(
+  "post_comments",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    postId: uuid("post_id")
+      .references(() => posts.id, { onDelete: "cascade" })
+      .notNull(),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    parentId: uuid("parent_id").references((): AnyPgColumn => postComments.id, {
+      onDelete: "cascade",
+    }),
+    content: text("content").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [index("post_comments_post_idx").on(table.postId)]
+);
+
+// Notification inbox - one row per recipient
+export const notifications = pgTable(
+  "notifications",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    type: varchar("type", { length: 50 }).notNull(),
+    title: varchar("title", { length: 200 }).notNull(),
+    message: text("message").notNull(),
+    payload: jsonb("payload"),
+    linkUrl: varchar("link_url", { length: 500 }),
+    relatedEntityId: varchar("related_entity_id", { length: 255 }),
+    actorId: uuid("actor_id").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    seenAt: timestamp("seen_at"),
+    readAt: timestamp("read_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("notifications_user_created_idx").on(table.userId, table.createdAt),
+    index("notifications_user_unread_idx")
+      .on(table.userId)
+      .where(sql`${table.readAt} IS NULL`),
+  ]
+);
+
+// Per-user notification settings - a missing row means defaults
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: uuid("user_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .primaryKey(),
+  // Categories
+  invites: boolean("invites").default(true).notNull(),
+  friendRequests: boolean("friend_requests").default(true).notNull(),
+  ratingReminders: boolean("rating_reminders").default(true).notNull(),
+  eloChanges: boolean("elo_changes").default(true).notNull(),
+  chatMentions: boolean("chat_mentions").default(true).notNull(),
+  // Channels
+  inApp: boolean("in_app").default(true).notNull(),
+  emailDigest: boolean("email_digest").default(false).notNull(),
+  push: boolean("push").default(true).notNull(),
+  // Quiet hours, as HH:mm in the user's time zone. They silence pushes; the inbox still fills
+  quietHoursEnabled: boolean("quiet_hours_enabled").default(false).notNull(),
+  quietHoursStart: varchar("quiet_hours_start", { length: 5 }).default("22:00").notNull(),
+  quietHoursEnd: varchar("quiet_hours_end", { length: 5 }).default("07:00").notNull(),
+  timeZone: varchar("time_zone", { length: 64 }).default("UTC").notNull(),
+  // When the last daily email digest went out
+  lastDigestSentAt: timestamp("last_digest_sent_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// What the app may publish on a user's behalf. Automatic posts are opt-in.
+export const userPrivacySettings = pgTable("user_privacy_settings", {
+  userId: uuid("user_id")
+    .references(() => users.id, { onDelete: "cascade" })
+    .primaryKey(),
+  autoPostActivityRecaps: boolean("auto_post_activity_recaps").default(false).notNull(),
+  autoPostSkillMilestones: boolean("auto_post_skill_milestones").default(false).notNull(),
+  autoPostVisibility: visibilityEnum("auto_post_visibility").default("friends").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Single-use tokens emailed to users - only the SHA-256 of the token is stored
+export const authTokens = pgTable(
+  "auth_tokens",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    userId: uuid("user_id")
+      .references(() => users.id, { onDelete: "cascade" })
+      .notNull(),
+    purpose: authTokenPurposeEnum("purpose").notNull(),
+    tokenHash: varchar("token_hash", { length: 64 }).notNull().unique(),
+    expiresAt: timestamp("expires_at").notNull(),
+    usedAt: timestamp("used_at"),
+    requestedIp: varchar("requested_ip", { length: 45 }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("auth_tokens_user_purpose_idx").on(table.userId, table.purpose)]
+);
+
+// Background jobs, kept in the database so they survive restarts. A job
+// type runs at most once per entity; rescheduling moves the existing row.
+export const scheduledJobs = pgTable(
+  "scheduled_jobs",
+  {
+    id: uuid("id").defaultRandom().primaryKey(),
+    jobType: varchar("job_type", { length: 100 }).notNull(),
+    entityId: uuid("entity_id").notNull(),
+    runAt: timestamp("run_at").notNull(),
+    status: jobStatusEnum("status").default("pending").notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    lastError: text("last_error"),
+    lockedAt: timestamp("locked_at"),
+    completedAt: timestamp("completed_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    unique().on(table.jobType, table.entityId),
+    index("scheduled_jobs_status_run_at_idx").on(table.status, table.runAt),
+  ]
+);
+
 // Define relationships
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
   createdActivities: many(activities),
   participations: many(activityParticipants),
   givenRatings: many(userActivitySkillRatings, { relationName: "ratingUser" }),
   receivedRatings: many(userActivitySkillRatings, { relationName: "ratedUser" }),
   eloScores: many(userActivityTypeELOs),
+  eloHistory: many(eloHistory),
   skillSummaries: many(userActivityTypeSkillSummaries),
   generalSkillSummaries: many(userGeneralSkillSummaries),
   connections1: many(userConnections, { relationName: "user1" }),
@@ -496,6 +1188,8 @@ export const usersRelations = relations(users, ({ many }) => ({
   teamMemberships: many(teamMembers),
   createdTeams: many(teams),
   readStatuses: many(activityChatReadStatus),
+  notifications: many(notifications, { relationName: "recipient" }),
+  notificationPreferences: one(notificationPreferences),
 }));
 
 export const activitiesRelations = relations(activities, ({ one, many }) => ({
@@ -507,19 +1201,212 @@ export const activitiesRelations = relations(activities, ({ one, many }) => ({
     fields: [activities.creatorId],
     references: [users.id],
   }),
+  venue: one(venues, {
+    fields: [activities.venueId],
+    references: [venues.id],
+  }),
+  venueResource: one(venueResources, {
+    fields: [activities.venueResourceId],
+    references: [venueResources.id],
+  }),
+  series: one(activitySeries, {
+    fields: [activities.seriesId],
+    references: [activitySeries.id],
+  }),
+  homeTeam: one(teams, {
+    fields: [activities.homeTeamId],
+    references: [teams.id],
+  }),
+  awayTeam: one(teams, {
+    fields: [activities.awayTeamId],
+    references: [teams.id],
+  }),
   participants: many(activityParticipants),
   skillRatings: many(userActivitySkillRatings),
   eloStatus: one(activityELOStatus),
+  resultSubmission: one(activityResultSubmissions),
   chatRoom: one(activityChatRooms),
   posts: many(posts),
 }));
 
+export const activitySeriesRelations = relations(activitySeries, ({ one, many }) => ({
+  activityType: one(activityTypes, {
+    fields: [activitySeries.activityTypeId],
+    references: [activityTypes.id],
+  }),
+  creator: one(users, {
+    fields: [activitySeries.creatorId],
+    references: [users.id],
+  }),
+  venue: one(venues, {
+    fields: [activitySeries.venueId],
+    references: [venues.id],
+  }),
+  occurrences: many(activities),
+  regulars: many(activitySeriesRegulars),
+}));
+
+export const activityTemplatesRelations = relations(activityTemplates, ({ one }) => ({
+  activityType: one(activityTypes, {
+    fields: [activityTemplates.activityTypeId],
+    references: [activityTypes.id],
+  }),
+  owner: one(users, {
+    fields: [activityTemplates.ownerId],
+    references: [users.id],
+  }),
+  team: one(teams, {
+    fields: [activityTemplates.teamId],
+    references: [teams.id],
+  }),
+  venue: one(venues, {
+    fields: [activityTemplates.venueId],
+    references: [venues.id],
+  }),
+}));
+
+export const leaguesRelations = relations(leagues, ({ one, many }) => ({
+  activityType: one(activityTypes, {
+    fields: [leagues.activityTypeId],
+    references: [activityTypes.id],
+  }),
+  organizer: one(users, {
+    fields: [leagues.organizerId],
+    references: [users.id],
+  }),
+  teams: many(leagueTeams),
+  fixtures: many(leagueFixtures),
+}));
+
+export const leagueTeamsRelations = relations(leagueTeams, ({ one }) => ({
+  league: one(leagues, {
+    fields: [leagueTeams.leagueId],
+    references: [leagues.id],
+  }),
+  team: one(teams, {
+    fields: [leagueTeams.teamId],
+    references: [teams.id],
+  }),
+}));
+
+export const leagueFixturesRelations = relations(leagueFixtures, ({ one }) => ({
+  league: one(leagues, {
+    fields: [leagueFixtures.leagueId],
+    references: [leagues.id],
+  }),
+  activity: one(activities, {
+    fields: [leagueFixtures.activityId],
+    references: [activities.id],
+  }),
+}));
+
+export const teamActivityTypeELOsRelations = relations(teamActivityTypeELOs, ({ one }) => ({
+  team: one(teams, {
+    fields: [teamActivityTypeELOs.teamId],
+    references: [teams.id],
+  }),
+  activityType: one(activityTypes, {
+    fields: [teamActivityTypeELOs.activityTypeId],
+    references: [activityTypes.id],
+  }),
+}));
+
+export const teamEloHistoryRelations = relations(teamEloHistory, ({ one }) => ({
+  team: one(teams, {
+    fields: [teamEloHistory.teamId],
+    references: [teams.id],
+  }),
+  activityType: one(activityTypes, {
+    fields: [teamEloHistory.activityTypeId],
+    references: [activityTypes.id],
+  }),
+  activity: one(activities, {
+    fields: [teamEloHistory.activityId],
+    references: [activities.id],
+  }),
+}));
+
+export const teamJoinRequestsRelations = relations(teamJoinRequests, ({ one }) => ({
+  team: one(teams, {
+    fields: [teamJoinRequests.teamId],
+    references: [teams.id],
+  }),
+  user: one(users, {
+    fields: [teamJoinRequests.userId],
+    references: [users.id],
+  }),
+}));
+
+export const teamInvitationsRelations = relations(teamInvitations, ({ one }) => ({
+  team: one(teams, {
+    fields: [teamInvitations.teamId],
+    references: [teams.id],
+  }),
+  user: one(users, {
+    fields: [teamInvitations.userId],
+    references: [users.id],
+  }),
+  inviter: one(users, {
+    fields: [teamInvitations.invitedBy],
+    references: [users.id],
+  }),
+}));
+
+export const activitySeriesRegularsRelations = relations(activitySeriesRegulars, ({ one }) => ({
+  series: one(activitySeries, {
+    fields: [activitySeriesRegulars.seriesId],
+    references: [activitySeries.id],
+  }),
+  user: one(users, {
+    fields: [activitySeriesRegulars.userId],
+    references: [users.id],
+  }),
+}));
+
+export const venuesRelations = relations(venues, ({ one, many }) => ({
+  creator: one(users, {
+    fields: [venues.createdBy],
+    references: [users.id],
+  }),
+  activities: many(activities),
+  resources: many(venueResources),
+  activityTypes: many(venueActivityTypes),
+  openingHours: many(venueOpeningHours),
+}));
+
+export const venueResourcesRelations = relations(venueResources, ({ one, many }) => ({
+  venue: one(venues, {
+    fields: [venueResources.venueId],
+    references: [venues.id],
+  }),
+  activities: many(activities),
+}));
+
+export const venueActivityTypesRelations = relations(venueActivityTypes, ({ one }) => ({
+  venue: one(venues, {
+    fields: [venueActivityTypes.venueId],
+    references: [venues.id],
+  }),
+  activityType: one(activityTypes, {
+    fields: [venueActivityTypes.activityTypeId],
+    references: [activityTypes.id],
+  }),
+}));
+
+export const venueOpeningHoursRelations = relations(venueOpeningHours, ({ one }) => ({
+  venue: one(venues, {
+    fields: [venueOpeningHours.venueId],
+    references: [venues.id],
+  }),
+}));
+
 export const activityTypesRelations = relations(activityTypes, ({ many }) => ({
   activities: many(activities),
   skills: many(activityTypeSkills),
   eloScores: many(userActivityTypeELOs),
   skillSummaries: many(userActivityTypeSkillSummaries),
   teams: many(teams),
+  seasons: many(seasons),
 }));
 
 export const activityParticipantsRelations = relations(activityParticipants, ({ one }) => ({
@@ -574,6 +1461,94 @@ export const userConnectionsRelations = relations(userConnections, ({ one }) =>
   }),
 }));
 
+export const eloHistoryRelations = relations(eloHistory, ({ one }) => ({
+  user: one(users, {
+    fields: [eloHistory.userId],
+    references: [users.id],
+  }),
+  activityType: one(activityTypes, {
+    fields: [eloHistory.activityTypeId],
+    references: [activityTypes.id],
+  }),
+  activity: one(activities, {
+    fields: [eloHistory.activityId],
+    references: [activities.id],
+  }),
+}));
+
+export const seasonsRelations = relations(seasons, ({ one, many }) => ({
+  activityType: one(activityTypes, {
+    fields: [seasons.activityTypeId],
+    references: [activityTypes.id],
+  }),
+  standings: many(seasonStandings),
+}));
+
+export const seasonStandingsRelations = relations(seasonStandings, ({ one }) => ({
+  season: one(seasons, {
+    fields: [seasonStandings.seasonId],
+    references: [seasons.id],
+  }),
+  user: one(users, {
+    fields: [seasonStandings.userId],
+    references: [users.id],
+  }),
+}));
+
+export const postsRelations = relations(posts, ({ one, many }) => ({
+  user: one(users, {
+    fields: [posts.userId],
+    references: [users.id],
+  }),
+  activity: one(activities, {
+    fields: [posts.activityId],
+    references: [activities.id],
+  }),
+  likes: many(postLikes),
+  comments: many(postComments),
+}));
+
+export const postLikesRelations = relations(postLikes, ({ one }) => ({
+  post: one(posts, {
+    fields: [postLikes.postId],
+    references: [posts.id],
+  }),
+  user: one(users, {
+    fields: [postLikes.userId],
+    references: [users.id],
+  }),
+}));
+
+export const postCommentsRelations = relations(postComments, ({ one }) => ({
+  post: one(posts, {
+    fields: [postComments.postId],
+    references: [posts.id],
+  }),
+  user: one(users, {
+    fields: [postComments.userId],
+    references: [users.id],
+  }),
+}));
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+  user: one(users, {
+    fields: [notifications.userId],
+    references: [users.id],
+    relationName: "recipient",
+  }),
+  actor: one(users, {
+    fields: [notifications.actorId],
+    references: [users.id],
+  }),
+}));
+
+export const notificationPreferencesRelations = relations(notificationPreferences, ({ one }) => ({
+  user: one(users, {
+    fields: [notificationPreferences.userId],
+    references: [users.id],
+  }),
+}));
+
 export const activityChatRoomsRelations = relations(activityChatRooms, ({ one, many }) => ({
   activity: one(activities, {
     fields: [activityChatRooms.activityId],
@@ -596,4 +1571,30 @@ export const activityChatMessagesRelations = relations(activityChatMessages, ({
     fields: [activityChatMessages.replyToId],
     references: [activityChatMessages.id],
   }),
-}));
\ No newline at end of file
+}));
+
+export const activityResultSubmissionsRelations = relations(
+  activityResultSubmissions,
+  ({ one, many }) => ({
+    activity: one(activities, {
+      fields: [activityResultSubmissions.activityId],
+      references: [activities.id],
+    }),
+    submitter: one(users, {
+      fields: [activityResultSubmissions.submittedBy],
+      references: [users.id],
+    }),
+    responses: many(activityResultResponses),
+  })
+);
+
+export const activityResultResponsesRelations = relations(activityResultResponses, ({ one }) => ({
+  submission: one(activityResultSubmissions, {
+    fields: [activityResultResponses.submissionId],
+    references: [activityResultSubmissions.id],
+  }),
+  user: one(users, {
+    fields: [activityResultResponses.userId],
+    references: [users.id],
+  }),
+}));
@@ -237,6 +237,7 @@ export const enhancedActivityTypesSeedData: CreateActivityTypeRequest[] = [
       teamBased: false,
       allowDraws: false, // Running is time-based
       skillInfluence: 0.2, // Lower skill influence, more performance-based
+      resultFormat: 'time', // Finishing times rank the whole field
       eloRanges: {
         beginner: { min: 0, max: 1100 },
         intermediate: { min: 1100, max: 1400 },
@@ -435,6 +436,7 @@ export const enhancedActivityTypesSeedData: CreateActivityTypeRequest[] = [
       teamBased: false,
       allowDraws: true, // Tied scores possible
       skillInfluence: 0.25,
+      resultFormat: 'placement', // Leaderboard position after the round
       eloRanges: {
         beginner: { min: 0, max: 1100 },
         intermediate: { min: 1100, max: 1400 },
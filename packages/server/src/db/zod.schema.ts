@@ -1,10 +1,41 @@
 // src/db/zod.schema.ts - Fixed Zod validation schemas for sports activity tracking platform
 import { z } from "zod";
 
+// ====================================
+// SHARED FIELD SCHEMAS
+// ====================================
+
+const timeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:mm format");
+
+const calendarDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+const timeZoneSchema = z
+  .string()
+  .max(64)
+  .refine((timeZone) => {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }, "Unknown time zone");
+
 // ====================================
 // CORE USER SCHEMAS
 // ====================================
 
+export const ACCOUNT_STATUSES = [
+  "active",
+  "suspended",
+  "deactivated",
+  "pending_deletion",
+] as const;
+
 export const insertUserSchema = z.object({
   id: z.string().uuid().optional(),
   publicId: z.string().uuid().optional(),
@@ -19,6 +50,8 @@ export const insertUserSchema = z.object({
     .optional(),
   avatarUrl: z.string().url("Invalid avatar URL").optional().nullable(),
   role: z.enum(["admin", "user", "moderator"]).default("user"),
+  homeLatitude: z.number().min(-90).max(90).optional().nullable(),
+  homeLongitude: z.number().min(-180).max(180).optional().nullable(),
   createdAt: z.date().optional(),
   updatedAt: z.date().optional(),
 });
@@ -31,12 +64,25 @@ export const selectUserSchema = z.object({
   passwordHash: z.string().nullable(),
   avatarUrl: z.string().nullable(),
   role: z.enum(["admin", "user", "moderator"]),
+  status: z.enum(ACCOUNT_STATUSES).optional(),
+  emailVerifiedAt: z.date().nullable().optional(),
+  homeLatitude: z.number().nullable().optional(),
+  homeLongitude: z.number().nullable().optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
 
 export const updateUserSchema = insertUserSchema.partial();
 
+export const updateAccountStatusSchema = z.object({
+  status: z.enum(["active", "suspended", "deactivated"]),
+});
+
+export const deleteAccountSchema = z.object({
+  // Required for accounts that have a password
+  password: z.string().optional(),
+});
+
 export const loginUserSchema = z.object({
   email: z.string().email("Invalid email format"),
   password: z.string().min(8, "Password must be at least 8 characters"),
@@ -154,6 +200,108 @@ export const selectActivityTypeSchema = z.object({
 
 export const updateActivityTypeSchema = insertActivityTypeSchema.partial();
 
+// ====================================
+// VENUE SCHEMAS
+// ====================================
+
+export const insertVenueSchema = z.object({
+  id: z.string().uuid().optional(),
+  publicId: z.string().uuid().optional(),
+  name: z.string().min(1, "Name is required").max(150, "Name too long"),
+  address: z.string().max(255, "Address too long").optional().nullable(),
+  city: z.string().max(100, "City too long").optional().nullable(),
+  latitude: z.number().min(-90, "Invalid latitude").max(90, "Invalid latitude"),
+  longitude: z
+    .number()
+    .min(-180, "Invalid longitude")
+    .max(180, "Invalid longitude"),
+  timeZone: timeZoneSchema.default("UTC"),
+  createdBy: z.string().uuid().optional().nullable(),
+  createdAt: z.date().optional(),
+  updatedAt: z.date().optional(),
+});
+
+export const selectVenueSchema = z.object({
+  id: z.string().uuid(),
+  publicId: z.string().uuid(),
+  name: z.string(),
+  address: z.string().nullable(),
+  city: z.string().nullable(),
+  latitude: z.number(),
+  longitude: z.number(),
+  timeZone: z.string(),
+  createdBy: z.string().uuid().nullable(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export const createVenueResourceSchema = z.object({
+  name: z.string().min(1, "Name is required").max(100, "Name too long"),
+  capacity: z.number().int().positive("Capacity must be positive").optional().nullable(),
+  isActive: z.boolean().default(true),
+});
+
+export const updateVenueResourceSchema = createVenueResourceSchema.partial();
+
+export const openingHoursEntrySchema = z
+  .object({
+    dayOfWeek: z.number().int().min(0).max(6), // 0 = Sunday
+    opensAt: timeOfDaySchema,
+    // "24:00" closes at midnight
+    closesAt: z
+      .string()
+      .regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/, "Time must be in HH:mm format"),
+  })
+  .refine((entry) => entry.opensAt < entry.closesAt, {
+    message: "Closing time must be after opening time",
+    path: ["closesAt"],
+  });
+
+export const setVenueOpeningHoursSchema = z.object({
+  openingHours: z.array(openingHoursEntrySchema).max(50),
+});
+
+export const setVenueActivityTypesSchema = z.object({
+  activityTypeIds: z.array(z.string().uuid("Invalid activity type ID")).max(50),
+});
+
+const venueDetailsSchema = insertVenueSchema.pick({
+  name: true,
+  address: true,
+  city: true,
+  latitude: true,
+  longitude: true,
+  timeZone: true,
+});
+
+export const createVenueSchema = venueDetailsSchema.extend({
+  resources: z.array(createVenueResourceSchema).max(50).optional(),
+  activityTypeIds: setVenueActivityTypesSchema.shape.activityTypeIds.optional(),
+  openingHours: setVenueOpeningHoursSchema.shape.openingHours.optional(),
+});
+
+export const updateVenueSchema = venueDetailsSchema.partial();
+
+export const venueAvailabilityQuerySchema = z.object({
+  date: calendarDateSchema,
+  resourceId: z.string().uuid("Invalid resource ID").optional(),
+  // Shortest gap worth reporting as a free slot
+  durationMinutes: z.coerce.number().int().min(15).max(720).default(60),
+});
+
+// Distance filter shared by list endpoints - a point plus an optional radius
+export const geoQuerySchema = z.object({
+  lat: z.coerce.number().min(-90).max(90).optional(),
+  lng: z.coerce.number().min(-180).max(180).optional(),
+  radiusKm: z.coerce.number().positive().max(500).optional(),
+});
+
+const hasCompleteGeoPoint = (query: z.infer<typeof geoQuerySchema>) =>
+  (query.lat === undefined) === (query.lng === undefined) &&
+  (query.radiusKm === undefined || query.lat !== undefined);
+
+const GEO_POINT_MESSAGE = "lat and lng must be given together, and radiusKm needs both";
+
 // ====================================
 // ACTIVITY SCHEMAS
 // ====================================
@@ -169,13 +317,17 @@ export const insertActivitySchema = z.object({
     .optional()
     .nullable(),
   location: z.string().max(200, "Location too long").optional().nullable(),
+  venueId: z.string().uuid().optional().nullable(),
+  venueResourceId: z.string().uuid().optional().nullable(),
   dateTime: z.union([z.date(), z.string().pipe(z.coerce.date())]),
+  durationMinutes: z.number().int().min(5).max(1440).optional().nullable(),
   maxParticipants: z
     .number()
     .int()
     .positive("Max participants must be positive")
     .optional()
     .nullable(),
+  waitlistConfirmHours: z.number().int().min(1).max(168).optional().nullable(),
   eloLevel: z
     .number()
     .int()
@@ -198,18 +350,47 @@ export const selectActivitySchema = z.object({
   creatorId: z.string().uuid(),
   description: z.string().nullable(),
   location: z.string().nullable(),
+  venueId: z.string().uuid().nullable().optional(),
+  venueResourceId: z.string().uuid().nullable().optional(),
   dateTime: z.date(),
+  durationMinutes: z.number().int().nullable().optional(),
   maxParticipants: z.number().int().nullable(),
+  waitlistConfirmHours: z.number().int().nullable().optional(),
   eloLevel: z.number().int().nullable(),
   skillRequirements: z.record(z.string(), z.number()),
   isELORated: z.boolean(),
   completionStatus: z.enum(["scheduled", "active", "completed", "cancelled"]),
+  seriesId: z.string().uuid().nullable().optional(),
+  seriesOccurrenceDate: z.string().nullable().optional(),
+  isSeriesException: z.boolean().optional(),
+  cancelledAt: z.date().nullable().optional(),
+  cancellationReason: z.string().nullable().optional(),
+  homeTeamId: z.string().uuid().nullable().optional(),
+  awayTeamId: z.string().uuid().nullable().optional(),
   createdAt: z.date(),
   updatedAt: z.date(),
 });
 
 export const updateActivitySchema = insertActivitySchema.partial();
 
+export const MAX_SERIES_OCCURRENCES = 104;
+
+// Weekly or bi-weekly on the chosen weekdays (0 = Sunday), like an RRULE with
+// FREQ=WEEKLY. The activity's dateTime is the first occurrence.
+export const recurrenceSchema = z
+  .object({
+    frequency: z.enum(["weekly", "biweekly"]).default("weekly"),
+    weekdays: z.array(z.number().int().min(0).max(6)).min(1).max(7),
+    until: calendarDateSchema.optional(),
+    count: z.number().int().min(1).max(MAX_SERIES_OCCURRENCES).optional(),
+    // Defaults to the venue's time zone, or UTC without a venue
+    timeZone: timeZoneSchema.optional(),
+  })
+  .refine((recurrence) => recurrence.until === undefined || recurrence.count === undefined, {
+    message: "Give either until or count, not both",
+    path: ["count"],
+  });
+
 export const createActivitySchema = z.object({
   activityTypeId: z.string().uuid("Invalid activity type ID"),
   description: z
@@ -217,12 +398,84 @@ export const createActivitySchema = z.object({
     .min(1, "Description is required")
     .max(1000, "Description too long"),
   location: z.string().max(255, "Location too long").optional(),
+  venueId: z.string().uuid("Invalid venue ID").optional(),
+  // Booking a court also sets the venue
+  venueResourceId: z.string().uuid("Invalid venue resource ID").optional(),
   dateTime: z.string().pipe(z.coerce.date()),
+  durationMinutes: z.number().int().min(5).max(1440).optional(),
   maxParticipants: z.number().int().min(1).max(100).optional(),
+  // Players promoted from the waitlist must confirm within this many hours
+  waitlistConfirmHours: z.number().int().min(1).max(168).optional(),
   eloLevel: z.number().int().min(0).optional(),
   skillRequirements: z.record(z.string(), z.number()).default({}).optional(),
   isELORated: z.boolean().default(false),
   creatorTeam: z.string().max(50, "Team name too long").optional(),
+  // Both set makes this a fixture between two teams; the creator plays for one
+  homeTeamId: z.string().uuid("Invalid team ID").optional(),
+  awayTeamId: z.string().uuid("Invalid team ID").optional(),
+  // Makes this the first occurrence of a recurring series
+  recurrence: recurrenceSchema.optional(),
+});
+
+// Which occurrences of a series an edit applies to
+export const activityUpdateScopeSchema = z.object({
+  scope: z.enum(["occurrence", "following"]).default("occurrence"),
+});
+
+export const cancelActivitySchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(1, "A reason is required")
+    .max(500, "Reason too long"),
+});
+
+// Accepted participants have to confirm they can still make the new time
+export const rescheduleActivitySchema = z.object({
+  dateTime: z.string().pipe(z.coerce.date()),
+  durationMinutes: z.number().int().min(5).max(1440).optional(),
+  reason: z.string().max(500, "Reason too long").optional(),
+});
+
+// A template keeps everything but the date; without teamId it belongs to its creator
+export const createActivityTemplateSchema = createActivitySchema
+  .pick({
+    activityTypeId: true,
+    description: true,
+    location: true,
+    venueId: true,
+    venueResourceId: true,
+    durationMinutes: true,
+    maxParticipants: true,
+    skillRequirements: true,
+    isELORated: true,
+  })
+  .extend({
+    name: z
+      .string()
+      .trim()
+      .min(1, "Template name is required")
+      .max(100, "Template name too long"),
+    teamId: z.string().uuid("Invalid team ID").optional(),
+    defaultTeams: z
+      .array(z.string().min(1).max(50, "Team name too long"))
+      .max(10, "Too many default teams")
+      .default([]),
+  });
+
+export const updateActivityTemplateSchema = createActivityTemplateSchema
+  .omit({ teamId: true })
+  .partial();
+
+// Anything given here replaces the template's value; the date is always needed
+export const activityFromTemplateSchema = createActivitySchema
+  .omit({ activityTypeId: true })
+  .partial()
+  .required({ dateTime: true });
+
+export const addSeriesRegularSchema = z.object({
+  userId: z.string().uuid("Invalid user ID"),
+  team: z.string().max(50, "Team name too long").optional(),
 });
 
 // ====================================
@@ -234,15 +487,20 @@ export const insertActivityParticipantSchema = z.object({
   activityId: z.string().uuid(),
   userId: z.string().uuid(),
   status: z
-    .enum(["pending", "accepted", "declined", "rated"])
+    .enum(["pending", "accepted", "declined", "rated", "waitlisted"])
     .default("pending"),
   team: z.string().max(50, "Team name too long").optional().nullable(),
   finalResult: z.enum(["win", "loss", "draw"]).optional().nullable(),
+  placement: z.number().int().positive().optional().nullable(),
   performanceNotes: z
     .string()
     .max(1000, "Performance notes too long")
     .optional()
     .nullable(),
+  waitlistPosition: z.number().int().positive().optional().nullable(),
+  confirmBy: z.date().optional().nullable(),
+  checkedInAt: z.date().optional().nullable(),
+  isNoShow: z.boolean().default(false),
   joinedAt: z.date().optional(),
 });
 
@@ -250,10 +508,15 @@ export const selectActivityParticipantSchema = z.object({
   id: z.string().uuid(),
   activityId: z.string().uuid(),
   userId: z.string().uuid(),
-  status: z.enum(["pending", "accepted", "declined", "rated"]),
+  status: z.enum(["pending", "accepted", "declined", "rated", "waitlisted"]),
   team: z.string().nullable(),
   finalResult: z.enum(["win", "loss", "draw"]).nullable(),
+  placement: z.number().int().nullable().optional(),
   performanceNotes: z.string().nullable(),
+  waitlistPosition: z.number().int().nullable().optional(),
+  confirmBy: z.date().nullable().optional(),
+  checkedInAt: z.date().nullable().optional(),
+  isNoShow: z.boolean().optional(),
   joinedAt: z.date(),
 });
 
@@ -265,21 +528,118 @@ export const joinActivitySchema = z.object({
   message: z.string().max(500, "Message too long").optional(),
 });
 
-export const completeActivitySchema = z.object({
-  participantResults: z.array(
-    z.object({
-      userId: z.string().uuid("Invalid user ID"),
-      finalResult: z.enum(["win", "loss", "draw"]),
-      performanceNotes: z
-        .string()
-        .max(1000, "Performance notes too long")
-        .optional(),
-    })
-  ),
-  completionNotes: z.string().max(1000, "Completion notes too long").optional(),
-  processELOImmediately: z.boolean().default(false),
+// Participants check themselves in; the creator can check in anyone
+export const checkInSchema = z.object({
+  userId: z.string().uuid("Invalid user ID").optional(),
+});
+
+export const participantResultSchema = z.object({
+  userId: z.string().uuid("Invalid user ID"),
+  finalResult: z.enum(["win", "loss", "draw"]),
+  // Finishing position, shared positions are ties
+  placement: z.number().int().min(1).optional(),
+  performanceNotes: z
+    .string()
+    .max(1000, "Performance notes too long")
+    .optional(),
 });
 
+// Points per side, keyed by team name (the team ID in a fixture) or, head to
+// head, by user ID
+const sideScoresSchema = z.record(
+  z.string().min(1),
+  z.number().int().min(0).max(1000)
+);
+
+// Score formats match the resultFormat ELO setting of the activity type
+export const activityScoreSchema = z.discriminatedUnion("format", [
+  z.object({
+    format: z.literal("sets"),
+    sets: z.array(sideScoresSchema).min(1, "At least one set is required").max(7),
+  }),
+  z.object({
+    format: z.literal("goals"),
+    goals: sideScoresSchema,
+  }),
+  z.object({
+    format: z.literal("time"),
+    entries: z
+      .array(
+        z.object({
+          userId: z.string().uuid("Invalid user ID"),
+          seconds: z.number().positive(),
+        })
+      )
+      .min(1),
+  }),
+  z.object({
+    format: z.literal("distance"),
+    entries: z
+      .array(
+        z.object({
+          userId: z.string().uuid("Invalid user ID"),
+          meters: z.number().positive(),
+        })
+      )
+      .min(1),
+  }),
+  z.object({
+    format: z.literal("placement"),
+    entries: z
+      .array(
+        z.object({
+          userId: z.string().uuid("Invalid user ID"),
+          position: z.number().int().min(1),
+        })
+      )
+      .min(1),
+  }),
+]);
+
+// Either per-participant outcomes or a score they are worked out from
+export const completeActivitySchema = z
+  .object({
+    participantResults: z.array(participantResultSchema).default([]),
+    score: activityScoreSchema.optional(),
+    completionNotes: z.string().max(1000, "Completion notes too long").optional(),
+    processELOImmediately: z.boolean().default(false),
+  })
+  .refine((data) => data.participantResults.length > 0 || !!data.score, {
+    message: "Provide participant results or a score",
+    path: ["participantResults"],
+  });
+
+// Participants confirm or dispute the results the creator submitted
+export const respondToResultsSchema = z
+  .object({
+    response: z.enum(["confirm", "dispute"]),
+    reason: z.string().max(1000, "Reason too long").optional(),
+  })
+  .refine((data) => data.response === "confirm" || !!data.reason?.trim(), {
+    message: "Say what is wrong with the results when disputing them",
+    path: ["reason"],
+  });
+
+// Moderators uphold the submitted results, replace them, or void them so no
+// ELO is applied
+export const resolveResultDisputeSchema = z
+  .object({
+    decision: z.enum(["uphold", "amend", "void"]),
+    participantResults: z.array(participantResultSchema).optional(),
+    score: activityScoreSchema.optional(),
+    note: z.string().max(1000, "Note too long").optional(),
+  })
+  .refine(
+    (data) =>
+      data.decision !== "amend" ||
+      !!data.participantResults?.length ||
+      !!data.score,
+    {
+      message: "Amended results or an amended score are required",
+      path: ["participantResults"],
+    }
+  );
+
 // ====================================
 // SKILL DEFINITION SCHEMAS
 // ====================================
@@ -532,11 +892,15 @@ export const insertUserActivityTypeELOSchema = z.object({
     .min(0, "Season ELO cannot be negative")
     .optional()
     .nullable(),
-  volatility: z
+  ratingDeviation: z
     .number()
     .int()
-    .min(0, "Volatility cannot be negative")
+    .min(0, "Rating deviation cannot be negative")
     .default(350),
+  volatility: z
+    .number()
+    .min(0, "Volatility cannot be negative")
+    .default(0.06),
   lastUpdated: z.date().optional(),
   version: z.number().int().min(1, "Version must be at least 1").default(1),
 });
@@ -549,7 +913,8 @@ export const selectUserActivityTypeELOSchema = z.object({
   gamesPlayed: z.number().int(),
   peakELO: z.number().int(),
   seasonELO: z.number().int().nullable(),
-  volatility: z.number().int(),
+  ratingDeviation: z.number().int(),
+  volatility: z.number().nullable(),
   lastUpdated: z.date(),
   version: z.number().int(),
 });
@@ -557,6 +922,44 @@ export const selectUserActivityTypeELOSchema = z.object({
 export const updateUserActivityTypeELOSchema =
   insertUserActivityTypeELOSchema.partial();
 
+export const insertELOHistorySchema = z.object({
+  id: z.string().uuid().optional(),
+  userId: z.string().uuid(),
+  activityTypeId: z.string().uuid(),
+  activityId: z.string().uuid(),
+  oldELO: z.number().int().min(0, "ELO score cannot be negative"),
+  newELO: z.number().int().min(0, "ELO score cannot be negative"),
+  eloChange: z.number().int(),
+  kFactor: z.number().int().min(0, "K-factor cannot be negative"),
+  expectedScore: z.number().min(0).max(1),
+  actualScore: z.number().min(0).max(1),
+  skillBonus: z.number().int().default(0),
+  reason: z.string().max(500, "Reason too long").optional().nullable(),
+  createdAt: z.date().optional(),
+});
+
+export const selectELOHistorySchema = z.object({
+  id: z.string().uuid(),
+  userId: z.string().uuid(),
+  activityTypeId: z.string().uuid(),
+  activityId: z.string().uuid(),
+  oldELO: z.number().int(),
+  newELO: z.number().int(),
+  eloChange: z.number().int(),
+  kFactor: z.number().int(),
+  expectedScore: z.number(),
+  actualScore: z.number(),
+  skillBonus: z.number().int(),
+  reason: z.string().nullable(),
+  createdAt: z.date(),
+});
+
+export const eloHistoryQuerySchema = z.object({
+  activityTypeId: z.string().uuid("Invalid activity type ID").optional(),
+  bucket: z.enum(["day", "week"]).default("day"),
+  days: z.coerce.number().int().min(1).max(730).default(90),
+});
+
 export const insertActivityELOStatusSchema = z.object({
   activityId: z.string().uuid(),
   status: z
@@ -598,6 +1001,77 @@ export const selectActivityELOStatusSchema = z.object({
 export const updateActivityELOStatusSchema =
   insertActivityELOStatusSchema.partial();
 
+// ====================================
+// SEASON SCHEMAS
+// ====================================
+
+export const insertSeasonSchema = z
+  .object({
+    id: z.string().uuid().optional(),
+    activityTypeId: z.string().uuid("Invalid activity type ID"),
+    name: z
+      .string()
+      .min(1, "Season name is required")
+      .max(100, "Season name too long"),
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+    status: z.enum(["upcoming", "active", "completed"]).default("upcoming"),
+    resetFactor: z
+      .number()
+      .min(0, "Reset factor cannot be negative")
+      .max(1, "Reset factor cannot exceed 1")
+      .default(0.5),
+    completedAt: z.date().optional().nullable(),
+    createdAt: z.date().optional(),
+  })
+  .refine((data) => data.endDate > data.startDate, {
+    message: "Season end date must be after its start date",
+    path: ["endDate"],
+  });
+
+export const selectSeasonSchema = z.object({
+  id: z.string().uuid(),
+  activityTypeId: z.string().uuid(),
+  name: z.string(),
+  startDate: z.date(),
+  endDate: z.date(),
+  status: z.enum(["upcoming", "active", "completed"]),
+  resetFactor: z.number(),
+  completedAt: z.date().nullable(),
+  createdAt: z.date(),
+});
+
+export const createSeasonRequestSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, "Season name is required")
+      .max(100, "Season name too long"),
+    startDate: z.coerce.date(),
+    endDate: z.coerce.date(),
+    resetFactor: z
+      .number()
+      .min(0, "Reset factor cannot be negative")
+      .max(1, "Reset factor cannot exceed 1")
+      .default(0.5),
+  })
+  .refine((data) => data.endDate > data.startDate, {
+    message: "Season end date must be after its start date",
+    path: ["endDate"],
+  });
+
+export const selectSeasonStandingSchema = z.object({
+  id: z.string().uuid(),
+  seasonId: z.string().uuid(),
+  userId: z.string().uuid(),
+  rank: z.number().int(),
+  startELO: z.number().int(),
+  finalELO: z.number().int(),
+  resetELO: z.number().int(),
+  gamesPlayed: z.number().int(),
+  createdAt: z.date(),
+});
+
 // ====================================
 // POST SCHEMAS
 // ====================================
@@ -660,6 +1134,27 @@ export const createPostSchema = z.object({
   visibility: z.enum(["public", "friends", "private"]).default("public"),
 });
 
+// The author can reword a post or change who sees it, not what it is about
+export const editPostSchema = createPostSchema
+  .pick({ title: true, content: true, skillHighlights: true, visibility: true })
+  .partial();
+
+export const createPostCommentSchema = z.object({
+  content: z
+    .string()
+    .trim()
+    .min(1, "Comment is required")
+    .max(2000, "Comment too long"),
+  // Replies thread under another comment on the same post
+  parentId: z.string().uuid("Invalid comment ID").optional(),
+});
+
+// Pages continue from the nextCursor of the previous response
+export const feedQuerySchema = z.object({
+  cursor: z.string().max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
 // ====================================
 // TEAM SCHEMAS
 // ====================================
@@ -698,11 +1193,16 @@ export const selectTeamSchema = z.object({
 
 export const updateTeamSchema = insertTeamSchema.partial();
 
+export const TEAM_ROLES = ["owner", "captain", "member"] as const;
+
+// Ownership only changes hands through a transfer
+export const assignableTeamRoleSchema = z.enum(["captain", "member"]);
+
 export const insertTeamMemberSchema = z.object({
   id: z.string().uuid().optional(),
   teamId: z.string().uuid(),
   userId: z.string().uuid(),
-  role: z.string().max(50, "Role name too long").default("member"),
+  role: z.enum(TEAM_ROLES).default("member"),
   joinedAt: z.date().optional(),
 });
 
@@ -710,7 +1210,7 @@ export const selectTeamMemberSchema = z.object({
   id: z.string().uuid(),
   teamId: z.string().uuid(),
   userId: z.string().uuid(),
-  role: z.string(),
+  role: z.enum(TEAM_ROLES),
   joinedAt: z.date(),
 });
 
@@ -718,7 +1218,87 @@ export const updateTeamMemberSchema = insertTeamMemberSchema.partial();
 
 export const addTeamMemberSchema = z.object({
   userId: z.string().uuid("Invalid user ID"),
-  role: z.string().max(50, "Role name too long").default("member"),
+  role: assignableTeamRoleSchema.default("member"),
+});
+
+export const updateTeamMemberRoleSchema = z.object({
+  role: assignableTeamRoleSchema,
+});
+
+export const transferTeamOwnershipSchema = z.object({
+  userId: z.string().uuid("Invalid user ID"),
+});
+
+export const createTeamJoinRequestSchema = z.object({
+  message: z.string().max(500, "Message too long").optional(),
+});
+
+export const createTeamInvitationSchema = z.object({
+  userId: z.string().uuid("Invalid user ID"),
+  message: z.string().max(500, "Message too long").optional(),
+});
+
+export const respondTeamJoinRequestSchema = z.object({
+  action: z.enum(["approve", "reject"]),
+});
+
+export const respondTeamInvitationSchema = z.object({
+  action: z.enum(["accept", "decline"]),
+});
+
+// ====================================
+// LEAGUE SCHEMAS
+// ====================================
+
+export const LEAGUE_FORMATS = ["round_robin", "double_round_robin"] as const;
+
+const leaguePointsSchema = z.number().int().min(0).max(10);
+
+export const createLeagueSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, "League name is required")
+      .max(100, "League name too long"),
+    description: z.string().max(1000, "Description too long").optional(),
+    activityTypeId: z.string().uuid("Invalid activity type ID"),
+    format: z.enum(LEAGUE_FORMATS).default("round_robin"),
+    pointsForWin: leaguePointsSchema.default(3),
+    pointsForDraw: leaguePointsSchema.default(1),
+    pointsForLoss: leaguePointsSchema.default(0),
+    isELORated: z.boolean().default(true),
+  })
+  .refine(
+    (league) =>
+      league.pointsForWin > league.pointsForDraw &&
+      league.pointsForDraw >= league.pointsForLoss,
+    {
+      message: "A win must be worth more than a draw, and a draw no less than a loss",
+      path: ["pointsForDraw"],
+    }
+  );
+
+export const registerLeagueTeamSchema = z.object({
+  teamId: z.string().uuid("Invalid team ID"),
+});
+
+// Where and when, relative to the start of a round, one match of it is played
+export const leagueFixtureSlotSchema = z.object({
+  startOffsetMinutes: z.number().int().min(0).max(7 * 24 * 60).default(0),
+  venueId: z.string().uuid("Invalid venue ID").optional(),
+  // Booking a court also sets the venue
+  venueResourceId: z.string().uuid("Invalid venue resource ID").optional(),
+  location: z.string().max(255, "Location too long").optional(),
+});
+
+// Round n starts daysBetweenRounds * (n - 1) days after the first one and its
+// matches take the slots in order
+export const generateLeagueFixturesSchema = z.object({
+  firstRoundAt: z.string().pipe(z.coerce.date()),
+  daysBetweenRounds: z.number().int().min(1).max(60).default(7),
+  durationMinutes: z.number().int().min(5).max(1440).optional(),
+  slots: z.array(leagueFixtureSlotSchema).min(1, "At least one slot is required").max(50),
 });
 
 // ====================================
@@ -857,7 +1437,7 @@ export const insertActivityChatMessageSchema = z.object({
     .string()
     .min(1, "Message content is required")
     .max(5000, "Message too long"),
-  messageType: z.enum(["text", "system", "image", "file"]).default("text"),
+  messageType: z.enum(["text", "system", "image", "file", "announcement"]).default("text"),
   metadata: z.record(z.string(), z.any()).optional().nullable(),
   isEdited: z.boolean().default(false),
   editedAt: z.date().optional().nullable(),
@@ -872,7 +1452,7 @@ export const selectActivityChatMessageSchema = z.object({
   chatRoomId: z.string().uuid(),
   senderId: z.string().uuid(),
   content: z.string(),
-  messageType: z.enum(["text", "system", "image", "file"]),
+  messageType: z.enum(["text", "system", "image", "file", "announcement"]),
   metadata: z.record(z.string(), z.any()).nullable(),
   isEdited: z.boolean(),
   editedAt: z.date().nullable(),
@@ -922,6 +1502,126 @@ export const selectActivityChatReadStatusSchema = z.object({
 export const updateActivityChatReadStatusSchema =
   insertActivityChatReadStatusSchema.partial();
 
+// ====================================
+// NOTIFICATION SCHEMAS
+// ====================================
+
+export const NOTIFICATION_TYPES = [
+  "join_request",
+  "participation_update",
+  "waitlist_promoted",
+  "activity_updated",
+  "activity_cancelled",
+  "activity_rescheduled",
+  "results_reminder",
+  "results_proposed",
+  "results_disputed",
+  "rating_needed",
+  "friend_request",
+  "connection_accepted",
+  "elo_change",
+  "chat_mention",
+  "team_invitation",
+  "team_join_request",
+  "team_membership_update",
+] as const;
+
+export const insertNotificationSchema = z.object({
+  id: z.string().uuid().optional(),
+  userId: z.string().uuid(),
+  type: z.enum(NOTIFICATION_TYPES),
+  title: z.string().min(1).max(200, "Title too long"),
+  message: z.string().min(1, "Message is required"),
+  payload: z.record(z.any()).optional().nullable(),
+  linkUrl: z.string().max(500, "Link too long").optional().nullable(),
+  relatedEntityId: z.string().max(255).optional().nullable(),
+  actorId: z.string().uuid().optional().nullable(),
+  seenAt: z.date().optional().nullable(),
+  readAt: z.date().optional().nullable(),
+  createdAt: z.date().optional(),
+});
+
+export const selectNotificationSchema = z.object({
+  id: z.string().uuid(),
+  userId: z.string().uuid(),
+  type: z.string(),
+  title: z.string(),
+  message: z.string(),
+  payload: z.any().nullable(),
+  linkUrl: z.string().nullable(),
+  relatedEntityId: z.string().nullable(),
+  actorId: z.string().uuid().nullable(),
+  seenAt: z.date().nullable(),
+  readAt: z.date().nullable(),
+  createdAt: z.date(),
+});
+
+export const markNotificationReadSchema = z.object({
+  read: z.boolean().default(true),
+});
+
+export const NOTIFICATION_CATEGORIES = [
+  "invites",
+  "friendRequests",
+  "ratingReminders",
+  "eloChanges",
+  "chatMentions",
+] as const;
+
+export const NOTIFICATION_CHANNELS = ["inApp", "emailDigest", "push"] as const;
+
+export const selectNotificationPreferencesSchema = z.object({
+  userId: z.string().uuid(),
+  invites: z.boolean(),
+  friendRequests: z.boolean(),
+  ratingReminders: z.boolean(),
+  eloChanges: z.boolean(),
+  chatMentions: z.boolean(),
+  inApp: z.boolean(),
+  emailDigest: z.boolean(),
+  push: z.boolean(),
+  quietHoursEnabled: z.boolean(),
+  quietHoursStart: z.string(),
+  quietHoursEnd: z.string(),
+  timeZone: z.string(),
+  updatedAt: z.date(),
+});
+
+export const updateNotificationPreferencesSchema = z
+  .object({
+    invites: z.boolean(),
+    friendRequests: z.boolean(),
+    ratingReminders: z.boolean(),
+    eloChanges: z.boolean(),
+    chatMentions: z.boolean(),
+    inApp: z.boolean(),
+    emailDigest: z.boolean(),
+    push: z.boolean(),
+    quietHoursEnabled: z.boolean(),
+    quietHoursStart: timeOfDaySchema,
+    quietHoursEnd: timeOfDaySchema,
+    timeZone: timeZoneSchema,
+  })
+  .partial();
+
+export const selectPrivacySettingsSchema = z.object({
+  userId: z.string().uuid(),
+  autoPostActivityRecaps: z.boolean(),
+  autoPostSkillMilestones: z.boolean(),
+  autoPostVisibility: z.enum(["public", "friends", "private"]),
+  updatedAt: z.date(),
+});
+
+export const updatePrivacySettingsSchema = z
+  .object({
+    // Share a recap post after each rated activity
+    autoPostActivityRecaps: z.boolean(),
+    // Share a post when a skill reaches a milestone or starts improving
+    autoPostSkillMilestones: z.boolean(),
+    autoPostVisibility: z.enum(["public", "friends", "private"]),
+  })
+  .partial();
+
 // ====================================
 // API REQUEST/RESPONSE SCHEMAS
 // ====================================
@@ -946,6 +1646,7 @@ export const paginationSchema = z.object({
 // Search schema
 export const searchActivitiesSchema = z.object({
   ...paginationSchema.shape,
+  ...geoQuerySchema.shape,
   activityTypeId: z.string().uuid().optional(),
   location: z.string().max(100).optional(),
   dateFrom: z.string().pipe(z.coerce.date()).optional(),
@@ -953,10 +1654,12 @@ export const searchActivitiesSchema = z.object({
   creatorId: z.string().uuid().optional(),
   status: z.enum(['scheduled', 'active', 'completed', 'cancelled']).optional(),
   participationStatus: z
-    .enum(["pending", "accepted", "declined", "rated"])
+    .enum(["pending", "accepted", "declined", "rated", "waitlisted"])
     .optional(),
   search: z.string().max(100).optional(),
-  sortBy: z.enum(["date", "created", "elo", "participants"]).default("date"), // Added missing property
+  sortBy: z
+    .enum(["date", "created", "elo", "participants", "distance"])
+    .default("date"),
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
   eloRange: z
     .object({
@@ -968,7 +1671,20 @@ export const searchActivitiesSchema = z.object({
   includeCreator: z.boolean().default(false),
   myActivities: z.boolean().default(false),
   myParticipation: z.boolean().default(false)
-});
+})
+  .refine(hasCompleteGeoPoint, { message: GEO_POINT_MESSAGE, path: ["lat"] })
+  .refine((query) => query.sortBy !== "distance" || query.lat !== undefined, {
+    message: "Sorting by distance needs lat and lng",
+    path: ["sortBy"],
+  });
+
+export const searchVenuesSchema = z
+  .object({
+    ...paginationSchema.shape,
+    ...geoQuerySchema.shape,
+    search: z.string().max(100).optional(),
+  })
+  .refine(hasCompleteGeoPoint, { message: GEO_POINT_MESSAGE, path: ["lat"] });
 
 // Leaderboard schema
 export const leaderboardQuerySchema = z
@@ -1004,6 +1720,8 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type UpdateUser = z.infer<typeof updateUserSchema>;
 export type LoginUser = z.infer<typeof loginUserSchema>;
 export type RegisterUser = z.infer<typeof registerUserSchema>;
+export type AccountStatus = (typeof ACCOUNT_STATUSES)[number];
+export type UpdateAccountStatus = z.infer<typeof updateAccountStatusSchema>;
 
 export type UserConnection = z.infer<typeof selectUserConnectionSchema>;
 export type InsertUserConnection = z.infer<typeof insertUserConnectionSchema>;
@@ -1016,10 +1734,25 @@ export type ActivityType = z.infer<typeof selectActivityTypeSchema>;
 export type InsertActivityType = z.infer<typeof insertActivityTypeSchema>;
 export type UpdateActivityType = z.infer<typeof updateActivityTypeSchema>;
 
+export type Venue = z.infer<typeof selectVenueSchema>;
+export type InsertVenue = z.infer<typeof insertVenueSchema>;
+export type CreateVenue = z.infer<typeof createVenueSchema>;
+export type SearchVenues = z.infer<typeof searchVenuesSchema>;
+export type UpdateVenue = z.infer<typeof updateVenueSchema>;
+export type CreateVenueResource = z.infer<typeof createVenueResourceSchema>;
+export type OpeningHoursEntry = z.infer<typeof openingHoursEntrySchema>;
+export type VenueAvailabilityQuery = z.infer<typeof venueAvailabilityQuerySchema>;
+
 export type Activity = z.infer<typeof selectActivitySchema>;
 export type InsertActivity = z.infer<typeof insertActivitySchema>;
 export type UpdateActivity = z.infer<typeof updateActivitySchema>;
 export type CreateActivity = z.infer<typeof createActivitySchema>;
+export type Recurrence = z.infer<typeof recurrenceSchema>;
+export type ActivityUpdateScope = z.infer<typeof activityUpdateScopeSchema>["scope"];
+export type RescheduleActivity = z.infer<typeof rescheduleActivitySchema>;
+export type CreateActivityTemplate = z.infer<typeof createActivityTemplateSchema>;
+export type UpdateActivityTemplate = z.infer<typeof updateActivityTemplateSchema>;
+export type ActivityFromTemplate = z.infer<typeof activityFromTemplateSchema>;
 
 export type ActivityParticipant = z.infer<
   typeof selectActivityParticipantSchema
@@ -1032,6 +1765,10 @@ export type UpdateActivityParticipant = z.infer<
 >;
 export type JoinActivity = z.infer<typeof joinActivitySchema>;
 export type CompleteActivity = z.infer<typeof completeActivitySchema>;
+export type ParticipantResult = z.infer<typeof participantResultSchema>;
+export type ActivityScore = z.infer<typeof activityScoreSchema>;
+export type RespondToResults = z.infer<typeof respondToResultsSchema>;
+export type ResolveResultDispute = z.infer<typeof resolveResultDisputeSchema>;
 
 // Skill Types
 export type SkillDefinition = z.infer<typeof selectSkillDefinitionSchema>;
@@ -1087,6 +1824,9 @@ export type InsertUserActivityTypeELO = z.infer<
 export type UpdateUserActivityTypeELO = z.infer<
   typeof updateUserActivityTypeELOSchema
 >;
+export type ELOHistory = z.infer<typeof selectELOHistorySchema>;
+export type InsertELOHistory = z.infer<typeof insertELOHistorySchema>;
+export type ELOHistoryQuery = z.infer<typeof eloHistoryQuerySchema>;
 
 export type ActivityELOStatus = z.infer<typeof selectActivityELOStatusSchema>;
 export type InsertActivityELOStatus = z.infer<
@@ -1096,11 +1836,20 @@ export type UpdateActivityELOStatus = z.infer<
   typeof updateActivityELOStatusSchema
 >;
 
+// Season Types
+export type Season = z.infer<typeof selectSeasonSchema>;
+export type InsertSeason = z.infer<typeof insertSeasonSchema>;
+export type CreateSeasonRequest = z.infer<typeof createSeasonRequestSchema>;
+export type SeasonStanding = z.infer<typeof selectSeasonStandingSchema>;
+
 // Social Types
 export type Post = z.infer<typeof selectPostSchema>;
 export type InsertPost = z.infer<typeof insertPostSchema>;
 export type UpdatePost = z.infer<typeof updatePostSchema>;
 export type CreatePost = z.infer<typeof createPostSchema>;
+export type EditPost = z.infer<typeof editPostSchema>;
+export type CreatePostComment = z.infer<typeof createPostCommentSchema>;
+export type FeedQuery = z.infer<typeof feedQuerySchema>;
 
 // Team Types
 export type Team = z.infer<typeof selectTeamSchema>;
@@ -1111,6 +1860,15 @@ export type TeamMember = z.infer<typeof selectTeamMemberSchema>;
 export type InsertTeamMember = z.infer<typeof insertTeamMemberSchema>;
 export type UpdateTeamMember = z.infer<typeof updateTeamMemberSchema>;
 export type AddTeamMember = z.infer<typeof addTeamMemberSchema>;
+export type TeamRole = (typeof TEAM_ROLES)[number];
+export type CreateTeamJoinRequest = z.infer<typeof createTeamJoinRequestSchema>;
+export type CreateTeamInvitation = z.infer<typeof createTeamInvitationSchema>;
+
+// League Types
+export type LeagueFormat = (typeof LEAGUE_FORMATS)[number];
+export type CreateLeague = z.infer<typeof createLeagueSchema>;
+export type LeagueFixtureSlot = z.infer<typeof leagueFixtureSlotSchema>;
+export type GenerateLeagueFixtures = z.infer<typeof generateLeagueFixturesSchema>;
 
 // Chat Types
 export type ChatRoom = z.infer<typeof selectChatRoomSchema>;
@@ -1156,6 +1914,20 @@ export type UpdateActivityChatReadStatus = z.infer<
   typeof updateActivityChatReadStatusSchema
 >;
 
+// Notification Types
+export type Notification = z.infer<typeof selectNotificationSchema>;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+export type NotificationCategory = (typeof NOTIFICATION_CATEGORIES)[number];
+export type NotificationPreferences = z.infer<
+  typeof selectNotificationPreferencesSchema
+>;
+export type UpdateNotificationPreferences = z.infer<
+  typeof updateNotificationPreferencesSchema
+>;
+export type PrivacySettings = z.infer<typeof selectPrivacySettingsSchema>;
+export type UpdatePrivacySettings = z.infer<typeof updatePrivacySettingsSchema>;
+
 // API Types
 export type DeltaQuery = z.infer<typeof deltaQuerySchema>;
 export type Pagination = z.infer<typeof paginationSchema>;
@@ -1272,6 +2044,7 @@ export const PARTICIPANT_STATUSES = [
   "accepted",
   "declined",
   "rated",
+  "waitlisted",
 ] as const;
 export const SKILL_TYPES = [
   "physical",
@@ -1300,13 +2073,14 @@ export const ELO_STATUSES = [
   "completed",
   "error",
 ] as const;
+export const SEASON_STATUSES = ["upcoming", "active", "completed"] as const;
 export const POST_TYPES = [
   "activity_recap",
   "skill_milestone",
   "general",
 ] as const;
 export const VISIBILITY_LEVELS = ["public", "friends", "private"] as const;
-export const MESSAGE_TYPES = ["text", "system", "image", "file"] as const;
+export const MESSAGE_TYPES = ["text", "system", "image", "file", "announcement"] as const;
 
 // Rating scales
 export const RATING_SCALE_MIN = 1;
@@ -1316,7 +2090,8 @@ export const CONFIDENCE_SCALE_MAX = 5;
 
 // ELO constants
 export const DEFAULT_ELO_SCORE = 1200;
-export const DEFAULT_VOLATILITY = 350;
+export const DEFAULT_RATING_DEVIATION = 350;
+export const DEFAULT_VOLATILITY = 0.06;
 export const MIN_ELO_SCORE = 0;
 
 // Limits
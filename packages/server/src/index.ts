@@ -2,6 +2,14 @@
 import 'dotenv/config'; // Load environment variables first
 import { serve } from '@hono/node-server';
 import app from './app.js';
+import { seasonService } from './services/season.service.js';
+import { accountService } from './services/account.service.js';
+import { activitySeriesService } from './services/activity-series.service.js';
+import { waitlistService } from './services/waitlist.service.js';
+import { jobSchedulerService } from './services/job-scheduler.service.js';
+import { activityLifecycleService } from './services/activity-lifecycle.service.js';
+import { teamService } from './services/team.service.js';
+import { notificationService } from './services/notification.service.js';
 
 const port = parseInt(process.env.PORT || '3001');
 
@@ -23,6 +31,23 @@ serve({
   console.log(`\n🔧 To test: curl http://localhost:${info.port}/health`);
 });
 
+// Roll over ended seasons, purge deleted accounts, extend recurring
+// activities, release unconfirmed waitlist spots, expire team
+// invitations and email notification digests in the background
+seasonService.startScheduler();
+accountService.startScheduler();
+activitySeriesService.startScheduler();
+waitlistService.startScheduler();
+teamService.startScheduler();
+notificationService.startScheduler();
+
+// Activity lifecycle jobs live in the database, so anything due while the
+// server was down runs on the first poll
+jobSchedulerService.startScheduler();
+activityLifecycleService
+  .scheduleMissingJobs()
+  .catch((error) => console.error('❌ Scheduling lifecycle jobs failed:', error));
+
 // Handle graceful shutdown
 process.on('SIGINT', () => {
   console.log('\n👋 Shutting down server gracefully...');
@@ -0,0 +1,127 @@
+// src/lib/mailer.ts - Outbound email with SMTP and file/console transports
+import nodemailer, { type Transporter } from 'nodemailer';
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  from?: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpMailerOptions {
+  host: string;
+  port: number;
+  /** Implicit TLS (port 465). Otherwise STARTTLS is used when the server offers it */
+  secure?: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_FROM = 'HH App <no-reply@localhost>';
+
+/**
+ * SMTP transport through nodemailer - STARTTLS is negotiated when the relay
+ * offers it, implicit TLS is used when `secure` is set
+ */
+export class SmtpMailer implements Mailer {
+  private transport: Transporter;
+
+  constructor(private options: SmtpMailerOptions) {
+    const timeoutMs = options.timeoutMs ?? 15000;
+
+    this.transport = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure ?? false,
+      auth:
+        options.user && options.pass
+          ? { user: options.user, pass: options.pass }
+          : undefined,
+      connectionTimeout: timeoutMs,
+      greetingTimeout: timeoutMs,
+      socketTimeout: timeoutMs,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.sendMail({ ...message, from: message.from || this.options.from });
+  }
+}
+
+/**
+ * Development/test mailer - logs who each message went to and, when a
+ * directory is given, writes it there as an .eml file. Sent messages are
+ * also kept in `outbox`. Bodies are never logged since they carry tokens.
+ */
+export class FileMailer implements Mailer {
+  readonly outbox: MailMessage[] = [];
+  private composer = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  constructor(private directory?: string, private from: string = DEFAULT_FROM) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const mail = { ...message, from: message.from || this.from };
+    this.outbox.push(mail);
+
+    if (this.directory) {
+      const { message: raw } = await this.composer.sendMail(mail);
+      await fs.mkdir(this.directory, { recursive: true });
+      const fileName = `${Date.now()}-${crypto.randomBytes(4).toString('hex')}.eml`;
+      const filePath = path.join(this.directory, fileName);
+      await fs.writeFile(filePath, raw);
+      console.log(`📧 Mail to ${mail.to}: ${mail.subject} (saved to ${filePath})`);
+      return;
+    }
+
+    console.log(`📧 Mail to ${mail.to}: ${mail.subject}`);
+  }
+
+  /**
+   * Most recent message sent to an address
+   */
+  lastMessageTo(address: string): MailMessage | undefined {
+    return [...this.outbox].reverse().find((m) => m.to === address);
+  }
+}
+
+/**
+ * Pick a transport from the environment: SMTP when SMTP_HOST is set,
+ * otherwise the file/console mailer (writing to MAIL_OUTBOX_DIR if set)
+ */
+export function createMailer(env: NodeJS.ProcessEnv = process.env): Mailer {
+  const from = env.MAIL_FROM || DEFAULT_FROM;
+
+  if (env.SMTP_HOST && env.NODE_ENV !== 'test') {
+    const port = parseInt(env.SMTP_PORT || '587');
+    return new SmtpMailer({
+      host: env.SMTP_HOST,
+      port,
+      secure: env.SMTP_SECURE ? env.SMTP_SECURE === 'true' : port === 465,
+      user: env.SMTP_USER,
+      pass: env.SMTP_PASS,
+      from,
+    });
+  }
+
+  return new FileMailer(env.MAIL_OUTBOX_DIR, from);
+}
+
+export const mailer = createMailer();
+
+/**
+ * Base URL of the web client, used to build links in emails
+ */
+export function clientUrl(pathname: string): string {
+  const base = (process.env.CLIENT_URL || 'http://localhost:5173').replace(/\/$/, '');
+  return `${base}${pathname}`;
+}
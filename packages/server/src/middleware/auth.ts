@@ -18,6 +18,8 @@ export type User = {
   username: string; // Added username
   avatarUrl?: string;
   role: string; // Added role property
+  status: 'active' | 'suspended' | 'deactivated' | 'pending_deletion';
+  emailVerifiedAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -61,6 +63,11 @@ export const authenticateToken = async (c: Context, next: Next) => {
       return c.json({ error: 'User not found' }, 401);
     }
 
+    // Suspended, deactivated and to-be-deleted accounts lose API access
+    if (user[0].status !== 'active') {
+      return c.json({ error: 'Account is not active', status: user[0].status }, 403);
+    }
+
     // Store user in context for use in route handlers
     c.set('user', user[0] as User);
     
@@ -0,0 +1,56 @@
+// src/middleware/email-verification.ts - Gate actions behind a verified email address
+import type { Context, Next } from 'hono';
+
+export const VERIFIED_EMAIL_ACTIONS = ['elo_activities', 'connection_requests'] as const;
+export type VerifiedEmailAction = (typeof VERIFIED_EMAIL_ACTIONS)[number];
+
+/**
+ * Actions that require a verified email, from EMAIL_VERIFICATION_REQUIRED_FOR
+ * (comma-separated action names, or "none"). Defaults to every action.
+ */
+export function getEmailVerificationPolicy(
+  env: NodeJS.ProcessEnv = process.env
+): Set<VerifiedEmailAction> {
+  const raw = env.EMAIL_VERIFICATION_REQUIRED_FOR;
+  if (raw === undefined) return new Set(VERIFIED_EMAIL_ACTIONS);
+
+  return new Set(
+    raw
+      .split(',')
+      .map((action) => action.trim())
+      .filter((action): action is VerifiedEmailAction =>
+        (VERIFIED_EMAIL_ACTIONS as readonly string[]).includes(action)
+      )
+  );
+}
+
+/**
+ * Whether the policy blocks this user from the given action
+ */
+export function isBlockedByEmailVerification(
+  user: { emailVerifiedAt?: Date | null },
+  action: VerifiedEmailAction
+): boolean {
+  return !user.emailVerifiedAt && getEmailVerificationPolicy().has(action);
+}
+
+export const emailNotVerifiedResponse = (c: Context) =>
+  c.json(
+    {
+      success: false,
+      error: 'Please verify your email address first',
+      code: 'EMAIL_NOT_VERIFIED',
+    },
+    403
+  );
+
+/**
+ * Middleware form - use after authenticateToken
+ */
+export const requireVerifiedEmail =
+  (action: VerifiedEmailAction) => async (c: Context, next: Next) => {
+    if (isBlockedByEmailVerification(c.get('user'), action)) {
+      return emailNotVerifiedResponse(c);
+    }
+    await next();
+  };
@@ -13,8 +13,10 @@ import {
   activityParticipants,
   users,
 } from '../db/schema.js';
-import { eq, and, desc, sql, count, or, gte } from 'drizzle-orm';
+import { eq, and, desc, sql, count, or, gte, inArray } from 'drizzle-orm';
 import { deltaTrackingService } from '../services/delta-tracking.service.js';
+import { notificationService } from '../services/notification.service.js';
+import { activityChatService } from '../services/activity-chat.service.js';
 
 export const activityChatRouter = new Hono();
 
@@ -355,6 +357,40 @@ activityChatRouter.post('/:activityId/messages',
         triggeredBy: user.id,
       });
 
+      // Notify @mentioned participants
+      const mentionedUsernames = [
+        ...new Set(
+          Array.from(messageData.content.matchAll(/@([a-zA-Z0-9_-]+)/g), (m) => m[1])
+        ),
+      ];
+
+      if (mentionedUsernames.length > 0) {
+        const mentionedParticipants = await db
+          .select({ userId: activityParticipants.userId })
+          .from(activityParticipants)
+          .innerJoin(users, eq(users.id, activityParticipants.userId))
+          .where(
+            and(
+              eq(activityParticipants.activityId, activityId),
+              eq(activityParticipants.status, 'accepted'),
+              inArray(users.username, mentionedUsernames)
+            )
+          );
+
+        await notificationService.notifyUsers(
+          mentionedParticipants.map((p) => p.userId),
+          {
+            type: 'chat_mention',
+            title: 'New Mention',
+            message: `${user.username} mentioned you: ${messageData.content.slice(0, 140)}`,
+            payload: { activityId, messageId: newMessage.id },
+            linkUrl: `/activities/${activityId}`,
+            relatedEntityId: activityId,
+            actorId: user.id,
+          }
+        );
+      }
+
       return c.json({
         success: true,
         data: messageWithSender,
@@ -764,46 +800,12 @@ activityChatRouter.post('/:activityId/system-message',
         }, 403);
       }
 
-      // Get or create chat room
-      let chatRoom = await db.query.activityChatRooms.findFirst({
-        where: eq(activityChatRooms.activityId, activityId),
-      });
-
-      if (!chatRoom) {
-        const [newChatRoom] = await db
-          .insert(activityChatRooms)
-          .values({
-            activityId,
-            createdById: activity.creatorId,
-            isActive: true,
-          })
-          .returning();
-
-        chatRoom = newChatRoom;
-      }
-
-      // Create system message
-      const [systemMessage] = await db
-        .insert(activityChatMessages)
-        .values({
-          roomId: chatRoom.id,
-          senderId: user.id,
-          content,
-          messageType,
-          metadata: { isSystemMessage: true },
-        })
-        .returning();
-
-      // Track the change
-      await deltaTrackingService.trackChange({
-        entityType: 'activity_chat_message',
-        entityId: systemMessage.id,
-        changeType: 'create',
-        newData: systemMessage,
-        affectedUserId: user.id,
-        relatedEntityId: activityId,
-        triggeredBy: user.id,
-      });
+      const systemMessage = await activityChatService.postSystemMessage(
+        activity,
+        user,
+        content,
+        messageType
+      );
 
       return c.json({
         success: true,
@@ -0,0 +1,319 @@
+// src/routes/activity-series.router.ts - Recurring activities and their regular players
+import { zValidator } from "@hono/zod-validator";
+import { and, desc, eq, or } from "drizzle-orm";
+import { Hono } from "hono";
+import { z } from "zod";
+import { db } from "../db/client.js";
+import { activitySeries, activitySeriesRegulars, users } from "../db/schema.js";
+import { addSeriesRegularSchema } from "../db/zod.schema.js";
+import { authenticateToken, type User } from "../middleware/auth.js";
+import {
+  activitySeriesService,
+  toRRule,
+} from "../services/activity-series.service.js";
+
+export const activitySeriesRouter = new Hono();
+
+const seriesIdSchema = z.object({
+  id: z.string().uuid("Invalid series ID"),
+});
+
+const seriesRegularParamsSchema = seriesIdSchema.extend({
+  userId: z.string().uuid("Invalid user ID"),
+});
+
+// Series are run by their creator, or an admin
+const canManageSeries = (series: { creatorId: string }, user: User) =>
+  series.creatorId === user.id || user.role === "admin";
+
+// GET /activity-series - Series the user organises or plays in regularly
+activitySeriesRouter.get("/", authenticateToken, async (c) => {
+  try {
+    const user = c.get("user");
+
+    const seriesList = await db
+      .selectDistinct({ series: activitySeries })
+      .from(activitySeries)
+      .leftJoin(
+        activitySeriesRegulars,
+        and(
+          eq(activitySeriesRegulars.seriesId, activitySeries.id),
+          eq(activitySeriesRegulars.userId, user.id)
+        )
+      )
+      .where(
+        or(
+          eq(activitySeries.creatorId, user.id),
+          eq(activitySeriesRegulars.userId, user.id)
+        )
+      )
+      .orderBy(desc(activitySeries.createdAt));
+
+    return c.json({
+      success: true,
+      data: {
+        series: seriesList.map(({ series }) => ({
+          ...series,
+          rrule: toRRule(series),
+        })),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching activity series:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch activity series",
+      },
+      500
+    );
+  }
+});
+
+// GET /activity-series/:id - Recurrence, regulars and upcoming occurrences
+activitySeriesRouter.get(
+  "/:id",
+  zValidator("param", seriesIdSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const { id } = c.req.valid("param");
+
+      const series = await activitySeriesService.getSeriesDetails(id);
+
+      if (!series) {
+        return c.json(
+          {
+            success: false,
+            error: "Activity series not found",
+          },
+          404
+        );
+      }
+
+      return c.json({
+        success: true,
+        data: { series },
+      });
+    } catch (error) {
+      console.error("Error fetching activity series:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch activity series",
+        },
+        500
+      );
+    }
+  }
+);
+
+// POST /activity-series/:id/regulars - Add a regular player (creator or admin)
+activitySeriesRouter.post(
+  "/:id/regulars",
+  zValidator("param", seriesIdSchema),
+  zValidator("json", addSeriesRegularSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { id } = c.req.valid("param");
+      const { userId, team } = c.req.valid("json");
+
+      const series = await db.query.activitySeries.findFirst({
+        where: eq(activitySeries.id, id),
+      });
+
+      if (!series) {
+        return c.json(
+          {
+            success: false,
+            error: "Activity series not found",
+          },
+          404
+        );
+      }
+
+      if (!canManageSeries(series, user)) {
+        return c.json(
+          {
+            success: false,
+            error: "Only the series creator or an admin can add regulars",
+          },
+          403
+        );
+      }
+
+      const player = await db.query.users.findFirst({
+        where: eq(users.id, userId),
+        columns: { id: true, username: true, status: true },
+      });
+
+      if (!player || player.status !== "active") {
+        return c.json(
+          {
+            success: false,
+            error: "User not found",
+          },
+          404
+        );
+      }
+
+      console.log(`🔁 Adding ${player.username} as a regular of series ${id}`);
+
+      const joined = await activitySeriesService.addRegular(id, userId, team ?? null);
+
+      return c.json(
+        {
+          success: true,
+          data: {
+            regular: { id: player.id, username: player.username, team: team ?? null },
+            joinedOccurrences: joined.map((occurrence) => occurrence.id),
+          },
+          message: "Regular added",
+        },
+        201
+      );
+    } catch (error) {
+      console.error("Error adding series regular:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to add regular",
+        },
+        500
+      );
+    }
+  }
+);
+
+// DELETE /activity-series/:id/regulars/:userId - Remove a regular (creator, admin or themselves)
+activitySeriesRouter.delete(
+  "/:id/regulars/:userId",
+  zValidator("param", seriesRegularParamsSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { id, userId } = c.req.valid("param");
+
+      const series = await db.query.activitySeries.findFirst({
+        where: eq(activitySeries.id, id),
+      });
+
+      if (!series) {
+        return c.json(
+          {
+            success: false,
+            error: "Activity series not found",
+          },
+          404
+        );
+      }
+
+      if (userId !== user.id && !canManageSeries(series, user)) {
+        return c.json(
+          {
+            success: false,
+            error: "Only the series creator or an admin can remove other regulars",
+          },
+          403
+        );
+      }
+
+      if (userId === series.creatorId) {
+        return c.json(
+          {
+            success: false,
+            error: "The series creator is always a regular",
+          },
+          400
+        );
+      }
+
+      const removed = await activitySeriesService.removeRegular(id, userId);
+
+      if (!removed) {
+        return c.json(
+          {
+            success: false,
+            error: "User is not a regular of this series",
+          },
+          404
+        );
+      }
+
+      return c.json({
+        success: true,
+        message: "Regular removed",
+      });
+    } catch (error) {
+      console.error("Error removing series regular:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to remove regular",
+        },
+        500
+      );
+    }
+  }
+);
+
+// POST /activity-series/:id/end - Stop the series and cancel upcoming occurrences
+activitySeriesRouter.post(
+  "/:id/end",
+  zValidator("param", seriesIdSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { id } = c.req.valid("param");
+
+      const series = await db.query.activitySeries.findFirst({
+        where: eq(activitySeries.id, id),
+      });
+
+      if (!series) {
+        return c.json(
+          {
+            success: false,
+            error: "Activity series not found",
+          },
+          404
+        );
+      }
+
+      if (!canManageSeries(series, user)) {
+        return c.json(
+          {
+            success: false,
+            error: "Only the series creator or an admin can end it",
+          },
+          403
+        );
+      }
+
+      const cancelled = await activitySeriesService.endSeries(id);
+
+      console.log(`🛑 Series ${id} ended, ${cancelled.length} occurrence(s) cancelled`);
+
+      return c.json({
+        success: true,
+        data: {
+          cancelledOccurrences: cancelled.map((occurrence) => occurrence.id),
+        },
+        message: "Activity series ended",
+      });
+    } catch (error) {
+      console.error("Error ending activity series:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to end activity series",
+        },
+        500
+      );
+    }
+  }
+);
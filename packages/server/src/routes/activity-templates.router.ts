@@ -0,0 +1,248 @@
+// src/routes/activity-templates.router.ts - Saved activity settings for organisers and teams
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import { z } from "zod";
+import {
+  createActivityTemplateSchema,
+  updateActivityTemplateSchema,
+} from "../db/zod.schema.js";
+import { authenticateToken } from "../middleware/auth.js";
+import { activityTemplateService } from "../services/activity-template.service.js";
+
+export const activityTemplatesRouter = new Hono();
+
+const templateIdSchema = z.object({
+  id: z.string().uuid("Invalid template ID"),
+});
+
+// GET /activity-templates - The user's own templates and those of their teams
+activityTemplatesRouter.get("/", authenticateToken, async (c) => {
+  try {
+    const user = c.get("user");
+
+    const templates = await activityTemplateService.listTemplates(user.id);
+
+    return c.json({
+      success: true,
+      data: { templates },
+    });
+  } catch (error) {
+    console.error("Error fetching activity templates:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch activity templates",
+      },
+      500
+    );
+  }
+});
+
+// POST /activity-templates - Save a personal template, or a team template (team owner and captains)
+activityTemplatesRouter.post(
+  "/",
+  zValidator("json", createActivityTemplateSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const data = c.req.valid("json");
+
+      console.log(`📋 Saving activity template "${data.name}" by ${user.username}`);
+
+      const created = await activityTemplateService.createTemplate(user, data);
+
+      if (!created.success) {
+        return c.json(
+          {
+            success: false,
+            error: created.error,
+          },
+          created.status
+        );
+      }
+
+      return c.json(
+        {
+          success: true,
+          data: { template: created.result },
+          message: "Template saved",
+        },
+        201
+      );
+    } catch (error) {
+      console.error("Error creating activity template:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to save template",
+        },
+        500
+      );
+    }
+  }
+);
+
+// GET /activity-templates/:id - A template the user can use
+activityTemplatesRouter.get(
+  "/:id",
+  zValidator("param", templateIdSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { id } = c.req.valid("param");
+
+      const template = await activityTemplateService.getTemplate(id);
+      const access = template
+        ? await activityTemplateService.accessFor(template, user)
+        : null;
+
+      // Other people's templates are reported as missing
+      if (!template || !access?.canUse) {
+        return c.json(
+          {
+            success: false,
+            error: "Template not found",
+          },
+          404
+        );
+      }
+
+      return c.json({
+        success: true,
+        data: { template, canManage: access.canManage },
+      });
+    } catch (error) {
+      console.error("Error fetching activity template:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch template",
+        },
+        500
+      );
+    }
+  }
+);
+
+// PUT /activity-templates/:id - Edit a template (owner or team managers)
+activityTemplatesRouter.put(
+  "/:id",
+  zValidator("param", templateIdSchema),
+  zValidator("json", updateActivityTemplateSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { id } = c.req.valid("param");
+      const data = c.req.valid("json");
+
+      const template = await activityTemplateService.getTemplate(id);
+      const access = template
+        ? await activityTemplateService.accessFor(template, user)
+        : null;
+
+      if (!template || !access?.canUse) {
+        return c.json(
+          {
+            success: false,
+            error: "Template not found",
+          },
+          404
+        );
+      }
+
+      if (!access.canManage) {
+        return c.json(
+          {
+            success: false,
+            error: "Only the team owner and captains can edit team templates",
+          },
+          403
+        );
+      }
+
+      const updated = await activityTemplateService.updateTemplate(template, data);
+
+      if (!updated.success) {
+        return c.json(
+          {
+            success: false,
+            error: updated.error,
+          },
+          updated.status
+        );
+      }
+
+      return c.json({
+        success: true,
+        data: { template: updated.result },
+        message: "Template updated",
+      });
+    } catch (error) {
+      console.error("Error updating activity template:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to update template",
+        },
+        500
+      );
+    }
+  }
+);
+
+// DELETE /activity-templates/:id - Remove a template (owner or team managers)
+activityTemplatesRouter.delete(
+  "/:id",
+  zValidator("param", templateIdSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { id } = c.req.valid("param");
+
+      const template = await activityTemplateService.getTemplate(id);
+      const access = template
+        ? await activityTemplateService.accessFor(template, user)
+        : null;
+
+      if (!template || !access?.canUse) {
+        return c.json(
+          {
+            success: false,
+            error: "Template not found",
+          },
+          404
+        );
+      }
+
+      if (!access.canManage) {
+        return c.json(
+          {
+            success: false,
+            error: "Only the team owner and captains can delete team templates",
+          },
+          403
+        );
+      }
+
+      await activityTemplateService.deleteTemplate(id);
+
+      return c.json({
+        success: true,
+        message: "Template deleted",
+      });
+    } catch (error) {
+      console.error("Error deleting activity template:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to delete template",
+        },
+        500
+      );
+    }
+  }
+);
@@ -16,11 +16,15 @@ import {
 } from '../db/schema.js';
 import { eq, desc, asc, sql, count, avg, and } from 'drizzle-orm';
 import {
+  createSeasonRequestSchema,
   insertActivityTypeSchema,
   updateActivityTypeSchema,
   type InsertActivityType,
   type UpdateActivityType,
 } from '../db/zod.schema.js';
+import { resolveActivityELOSettings } from '../services/elo-calc.service.js';
+import { getRatingStrategy } from '../services/rating-strategy.service.js';
+import { seasonService } from '../services/season.service.js';
 
 export const activityTypesRouter = new Hono();
 
@@ -588,6 +592,7 @@ activityTypesRouter.get('/:id/leaderboard', async (c) => {
     const activityTypeId = c.req.param('id');
     const limit = parseInt(c.req.query('limit') || '50');
     const offset = parseInt(c.req.query('offset') || '0');
+    const seasonParam = c.req.query('season'); // season id or "current"
 
     console.log(`🏆 Getting leaderboard for activity type: ${activityTypeId}`);
 
@@ -603,6 +608,38 @@ activityTypesRouter.get('/:id/leaderboard', async (c) => {
       }, 404);
     }
 
+    if (seasonParam) {
+      const season = await seasonService.resolveSeason(activityTypeId, seasonParam);
+
+      if (!season) {
+        return c.json({
+          success: false,
+          error: 'Season not found',
+        }, 404);
+      }
+
+      const { leaderboard: seasonLeaderboard, total } =
+        await seasonService.getSeasonLeaderboard(season, limit, offset);
+
+      return c.json({
+        success: true,
+        data: {
+          activityType: {
+            id: activityType.id,
+            name: activityType.name,
+          },
+          season,
+          leaderboard: seasonLeaderboard,
+          pagination: {
+            limit,
+            offset,
+            total,
+            hasMore: offset + limit < total,
+          },
+        },
+      });
+    }
+
     // Get leaderboard data
     const leaderboard = await db
       .select({
@@ -611,6 +648,7 @@ activityTypesRouter.get('/:id/leaderboard', async (c) => {
         avatarUrl: sql<string>`${users.avatarUrl}`,
         eloScore: userActivityTypeELOs.eloScore,
         gamesPlayed: userActivityTypeELOs.gamesPlayed,
+        ratingDeviation: userActivityTypeELOs.ratingDeviation,
         peakELO: userActivityTypeELOs.peakELO,
         lastUpdated: userActivityTypeELOs.lastUpdated,
       })
@@ -621,10 +659,17 @@ activityTypesRouter.get('/:id/leaderboard', async (c) => {
       .limit(limit)
       .offset(offset);
 
-    // Add ranking
+    const eloSettings = resolveActivityELOSettings(
+      activityType.defaultELOSettings,
+      activityType.category
+    );
+    const ratingStrategy = getRatingStrategy(eloSettings);
+
+    // Add ranking and provisional status
     const rankedLeaderboard = leaderboard.map((entry, index) => ({
       ...entry,
       rank: offset + index + 1,
+      isProvisional: ratingStrategy.isProvisional(entry, eloSettings),
     }));
 
     // Get total count
@@ -641,6 +686,7 @@ activityTypesRouter.get('/:id/leaderboard', async (c) => {
         activityType: {
           id: activityType.id,
           name: activityType.name,
+          ratingSystem: eloSettings.ratingSystem,
         },
         leaderboard: rankedLeaderboard,
         pagination: {
@@ -660,6 +706,125 @@ activityTypesRouter.get('/:id/leaderboard', async (c) => {
   }
 });
 
+// GET /activity-types/:id/seasons - List seasons for activity type
+activityTypesRouter.get('/:id/seasons', async (c) => {
+  try {
+    const activityTypeId = c.req.param('id');
+    const seasonList = await seasonService.listSeasons(activityTypeId);
+
+    return c.json({
+      success: true,
+      data: seasonList,
+    });
+  } catch (error) {
+    console.error('Error getting seasons:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to get seasons',
+    }, 500);
+  }
+});
+
+// POST /activity-types/:id/seasons - Create season (admin only)
+activityTypesRouter.post('/:id/seasons',
+  authenticateToken,
+  zValidator('json', createSeasonRequestSchema),
+  async (c) => {
+    try {
+      const user = c.get('user');
+      const activityTypeId = c.req.param('id');
+      const seasonData = c.req.valid('json');
+
+      // Check admin permission
+      if (user.role !== 'admin') {
+        return c.json({
+          success: false,
+          error: 'Admin access required',
+        }, 403);
+      }
+
+      const activityType = await db.query.activityTypes.findFirst({
+        where: eq(activityTypes.id, activityTypeId),
+      });
+
+      if (!activityType) {
+        return c.json({
+          success: false,
+          error: 'Activity type not found',
+        }, 404);
+      }
+
+      console.log(`📅 Admin ${user.username} creating season "${seasonData.name}" for ${activityType.name}`);
+
+      const season = await seasonService.createSeason(activityTypeId, seasonData);
+
+      return c.json({
+        success: true,
+        data: season,
+        message: `Season "${season.name}" created successfully`,
+      }, 201);
+    } catch (error) {
+      console.error('Error creating season:', error);
+      if (error instanceof Error && error.message.startsWith('Season overlaps')) {
+        return c.json({
+          success: false,
+          error: error.message,
+        }, 409);
+      }
+      return c.json({
+        success: false,
+        error: 'Failed to create season',
+      }, 500);
+    }
+  }
+);
+
+// POST /activity-types/:id/seasons/:seasonId/rollover - End season early (admin only)
+activityTypesRouter.post('/:id/seasons/:seasonId/rollover', authenticateToken, async (c) => {
+  try {
+    const user = c.get('user');
+    const activityTypeId = c.req.param('id');
+    const seasonId = c.req.param('seasonId');
+
+    // Check admin permission
+    if (user.role !== 'admin') {
+      return c.json({
+        success: false,
+        error: 'Admin access required',
+      }, 403);
+    }
+
+    const season = await seasonService.resolveSeason(activityTypeId, seasonId);
+    if (!season) {
+      return c.json({
+        success: false,
+        error: 'Season not found',
+      }, 404);
+    }
+
+    if (season.status !== 'active') {
+      return c.json({
+        success: false,
+        error: 'Only the active season can be rolled over',
+      }, 400);
+    }
+
+    const result = await seasonService.rolloverSeason(season.id);
+
+    return c.json({
+      success: true,
+      data: result,
+      message: `Season "${season.name}" completed`,
+    });
+  } catch (error) {
+    console.error('Error rolling over season:', error);
+    return c.json({
+      success: false,
+      error: 'Failed to roll over season',
+    }, 500);
+  }
+});
+
 // GET /activity-types/:id/popular-times - Get popular activity times for this type
 activityTypesRouter.get('/:id/popular-times', async (c) => {
   try {
@@ -679,8 +844,11 @@ activityTypesRouter.get('/:id/popular-times', async (c) => {
       const monthAgo = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
       dateFilter = sql`${activities.dateTime} >= ${monthAgo}`;
     } else if (period === 'season') {
-      const seasonAgo = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-      dateFilter = sql`${activities.dateTime} >= ${seasonAgo}`;
+      // Fall back to the last 90 days when no season is running
+      const activeSeason = await seasonService.getActiveSeason(activityTypeId);
+      const seasonStart = activeSeason?.startDate
+        ?? new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
+      dateFilter = sql`${activities.dateTime} >= ${seasonStart}`;
     }
 
     // Get activity time patterns
@@ -45,6 +45,10 @@ const forgotPasswordSchema = z.object({
   email: z.string().email("Invalid email format"),
 });
 
+const verifyEmailSchema = z.object({
+  token: z.string().min(1, "Verification token is required"),
+});
+
 const resetPasswordSchema = z.object({
   token: z.string().min(1, "Reset token is required"),
   newPassword: z.string()
@@ -396,6 +400,71 @@ authRouter.post("/logout", authenticateToken, async (c) => {
   }
 });
 
+// POST /auth/verify-email - Confirm email address with token
+authRouter.post(
+  "/verify-email",
+  zValidator('json', verifyEmailSchema),
+  async (c) => {
+    try {
+      const { token } = c.req.valid('json');
+
+      console.log(`📧 Email verification attempt with token`);
+
+      const result = await authService.verifyEmail(token);
+
+      if (!result.success) {
+        console.log(`❌ Email verification failed: ${result.error}`);
+        return c.json({
+          success: false,
+          error: result.error,
+        }, 400);
+      }
+
+      console.log(`✅ Email verified successfully`);
+
+      return c.json({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      console.error("Email verification error:", error);
+      return c.json({
+        success: false,
+        error: "Email verification failed",
+      }, 500);
+    }
+  }
+);
+
+// POST /auth/resend-verification - Send a new verification link
+authRouter.post("/resend-verification", authenticateToken, async (c) => {
+  try {
+    const user = c.get('user');
+
+    console.log(`📧 Resending verification email for: ${user.username}`);
+
+    const result = await authService.resendVerification(user.id);
+
+    if (!result.success) {
+      return c.json({
+        success: false,
+        error: result.error,
+      }, 400);
+    }
+
+    return c.json({
+      success: true,
+      message: result.message,
+    });
+  } catch (error) {
+    console.error("Resend verification error:", error);
+    return c.json({
+      success: false,
+      error: "Failed to send verification email",
+    }, 500);
+  }
+});
+
 // POST /auth/forgot-password - Request password reset
 authRouter.post(
   "/forgot-password",
@@ -406,7 +475,8 @@ authRouter.post(
       
       console.log(`🔐 Password reset request for: ${email}`);
       
-      const result = await authService.requestPasswordReset(email);
+      const requestedIp = c.req.header('x-forwarded-for')?.split(',')[0].trim();
+      const result = await authService.requestPasswordReset(email, requestedIp);
 
       return c.json({
         success: true,
@@ -8,6 +8,7 @@ import {
   gte,
   ilike,
   inArray,
+  isNotNull,
   lte,
   or,
   sql,
@@ -17,25 +18,51 @@ import { z } from "zod";
 import { db } from "../db/client.js";
 import {
   activities,
-  activityChatRooms,
   activityELOStatus,
   activityParticipants,
+  activityResultSubmissions,
   activityTypes,
   activityTypeSkills,
   skillDefinitions,
   userActivityTypeELOs,
   users,
+  venues,
 } from "../db/schema.js";
 import { authenticateToken } from "../middleware/auth.js";
+import {
+  emailNotVerifiedResponse,
+  isBlockedByEmailVerification,
+} from "../middleware/email-verification.js";
+import { activityLifecycleService } from "../services/activity-lifecycle.service.js";
+import { activityResultsService } from "../services/activity-results.service.js";
+import { activityService } from "../services/activity.service.js";
+import { activitySeriesService } from "../services/activity-series.service.js";
+import { activityTemplateService } from "../services/activity-template.service.js";
 import { deltaTrackingService } from "../services/delta-tracking.service.js";
+import { resolveActivityELOSettings } from "../services/elo-calc.service.js";
+import { getRatingStrategy } from "../services/rating-strategy.service.js";
+import { teamEloService } from "../services/team-elo.service.js";
 import { eloProcessingService } from "../services/elo-processing.service.js";
 import { matchmakingService } from "../services/matchmaking.service.js";
+import { notificationService } from "../services/notification.service.js";
+import {
+  DEFAULT_BOOKING_MINUTES,
+  venueService,
+} from "../services/venue.service.js";
+import { waitlistService } from "../services/waitlist.service.js";
+import { distanceKmSql, withinRadiusSql } from "../utils/geo.js";
 
 // Import Zod schemas
 import {
+  activityFromTemplateSchema,
+  activityUpdateScopeSchema,
+  cancelActivitySchema,
+  checkInSchema,
   completeActivitySchema,
   createActivitySchema,
   joinActivitySchema,
+  rescheduleActivitySchema,
+  respondToResultsSchema,
   searchActivitiesSchema,
   updateActivitySchema,
 } from "../db/zod.schema.js";
@@ -47,6 +74,10 @@ const activityIdSchema = z.object({
   id: z.string().uuid("Invalid activity ID"),
 });
 
+const templateIdSchema = z.object({
+  templateId: z.string().uuid("Invalid template ID"),
+});
+
 const participantActionSchema = z.object({
   action: z.enum(["approve", "reject", "remove"]),
   reason: z.string().max(500, "Reason too long").optional(),
@@ -142,6 +173,19 @@ activitiesRouter.get(
         );
       }
 
+      // Distance from a point, measured to the activity's venue
+      const origin =
+        filters.lat !== undefined && filters.lng !== undefined
+          ? { latitude: filters.lat, longitude: filters.lng }
+          : null;
+      const distanceKm = origin ? await distanceKmSql(venues, origin) : null;
+
+      if (origin && filters.radiusKm !== undefined) {
+        whereConditions.push(
+          await withinRadiusSql(venues, origin, filters.radiusKm)
+        );
+      }
+
       // Execute the main query
       const activitiesQuery = await db
         .select({
@@ -169,6 +213,15 @@ activitiesRouter.get(
             username: users.username,
             avatarUrl: users.avatarUrl,
           },
+          venue: {
+            id: venues.id,
+            name: venues.name,
+            address: venues.address,
+            city: venues.city,
+            latitude: venues.latitude,
+            longitude: venues.longitude,
+          },
+          distanceKm: distanceKm ?? sql<number | null>`NULL`,
           participantCount: count(activityParticipants.id),
         })
         .from(activities)
@@ -177,6 +230,7 @@ activitiesRouter.get(
           eq(activityTypes.id, activities.activityTypeId)
         )
         .innerJoin(users, eq(users.id, activities.creatorId))
+        .leftJoin(venues, eq(venues.id, activities.venueId))
         .leftJoin(
           activityParticipants,
           and(
@@ -185,9 +239,11 @@ activitiesRouter.get(
           )
         )
         .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
-        .groupBy(activities.id, activityTypes.id, users.id)
+        .groupBy(activities.id, activityTypes.id, users.id, venues.id)
         .orderBy(
-          filters.sortBy === "date"
+          filters.sortBy === "distance" && distanceKm
+            ? sql`${distanceKm} ASC NULLS LAST`
+            : filters.sortBy === "date"
             ? desc(activities.dateTime)
             : filters.sortBy === "created"
             ? desc(activities.createdAt)
@@ -236,6 +292,7 @@ activitiesRouter.get(
           activityTypes,
           eq(activityTypes.id, activities.activityTypeId)
         )
+        .leftJoin(venues, eq(venues.id, activities.venueId))
         .where(
           whereConditions.length > 0 ? and(...whereConditions) : undefined
         );
@@ -280,94 +337,40 @@ activitiesRouter.post(
       console.log(`🏃 Creating activity by user: ${user.username}`);
       console.log('📝 Activity data received:', JSON.stringify(activityData, null, 2));
 
-      // Validate activity type exists
-      const activityType = await db.query.activityTypes.findFirst({
-        where: eq(activityTypes.id, activityData.activityTypeId),
-      });
+      if (
+        activityData.isELORated &&
+        isBlockedByEmailVerification(user, "elo_activities")
+      ) {
+        return emailNotVerifiedResponse(c);
+      }
 
-      if (!activityType) {
+      const { recurrence, ...draft } = activityData;
+
+      // A recurrence makes this the first occurrence of a series
+      const created = recurrence
+        ? await activitySeriesService.createSeries(user, draft, recurrence)
+        : await activityService.createActivity(user, draft);
+
+      if (!created.success) {
         return c.json(
           {
             success: false,
-            error: "Activity type not found",
+            error: created.error,
+            conflictingActivity: created.conflictingActivity,
           },
-          404
+          created.status
         );
       }
 
-      // Set ELO level based on user's current ELO if not provided
-      let eloLevel = activityData.eloLevel;
-      if (!eloLevel && activityData.isELORated) {
-        const userELO = await db.query.userActivityTypeELOs.findFirst({
-          where: and(
-            eq(userActivityTypeELOs.userId, user.id),
-            eq(userActivityTypeELOs.activityTypeId, activityData.activityTypeId)
-          ),
-        });
-        eloLevel = userELO?.eloScore || 1200; // Default ELO
-      }
+      // Series creation also returns the series and its first occurrences
+      const { success, ...data } = created;
 
-      // Create the activity
-      const [newActivity] = await db
-        .insert(activities)
-        .values({
-          activityTypeId: activityData.activityTypeId,
-          creatorId: user.id,
-          description: activityData.description,
-          location: activityData.location,
-          dateTime: activityData.dateTime,
-          maxParticipants: activityData.maxParticipants,
-          eloLevel,
-          skillRequirements: activityData.skillRequirements || {},
-          isELORated: activityData.isELORated || false,
-          completionStatus: "scheduled",
-        })
-        .returning();
-
-      // Auto-join creator as participant
-      await db.insert(activityParticipants).values({
-        activityId: newActivity.id,
-        userId: user.id,
-        status: "accepted",
-        team: activityData.creatorTeam || null,
-      });
-
-      // Create chat room for activity
-      await db.insert(activityChatRooms).values({
-        activityId: newActivity.id,
-        name: `${activityType.name} Chat`,
-        isActive: true,
-      });
-
-      // Track delta change
-      await deltaTrackingService.trackChange({
-        entityType: "activity",
-        entityId: newActivity.id,
-        changeType: "create",
-        newData: {
-          activity: newActivity,
-          activityType: { id: activityType.id, name: activityType.name },
-          creator: { id: user.id, username: user.username },
-        },
-        affectedUserId: user.id,
-        relatedEntityId: newActivity.id,
-        triggeredBy: user.id,
-        changeSource: "user_action",
-      });
-
-      console.log(`✅ Activity created successfully: ${newActivity.id}`);
+      console.log(`✅ Activity created successfully: ${data.activity.id}`);
 
       return c.json(
         {
-          success: true,
-          data: {
-            activity: newActivity,
-            activityType: {
-              id: activityType.id,
-              name: activityType.name,
-              category: activityType.category,
-            },
-          },
+          success,
+          data,
           message: "Activity created successfully",
         },
         201
@@ -400,6 +403,87 @@ activitiesRouter.post(
   }
 );
 
+// POST /activities/from-template/:templateId - Create an activity from a saved template
+activitiesRouter.post(
+  "/from-template/:templateId",
+  zValidator("param", templateIdSchema),
+  zValidator("json", activityFromTemplateSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { templateId } = c.req.valid("param");
+      const overrides = c.req.valid("json");
+
+      const template = await activityTemplateService.getTemplate(templateId);
+      const access = template
+        ? await activityTemplateService.accessFor(template, user)
+        : null;
+
+      if (!template || !access?.canUse) {
+        return c.json(
+          {
+            success: false,
+            error: "Template not found",
+          },
+          404
+        );
+      }
+
+      console.log(`📋 Creating activity from template ${template.name} by user: ${user.username}`);
+
+      const { recurrence, ...draft } = activityTemplateService.toActivityData(
+        template,
+        overrides
+      );
+
+      if (
+        draft.isELORated &&
+        isBlockedByEmailVerification(user, "elo_activities")
+      ) {
+        return emailNotVerifiedResponse(c);
+      }
+
+      const created = recurrence
+        ? await activitySeriesService.createSeries(user, draft, recurrence)
+        : await activityService.createActivity(user, draft);
+
+      if (!created.success) {
+        return c.json(
+          {
+            success: false,
+            error: created.error,
+            conflictingActivity: created.conflictingActivity,
+          },
+          created.status
+        );
+      }
+
+      const { success, ...data } = created;
+
+      console.log(`✅ Activity created from template: ${data.activity.id}`);
+
+      return c.json(
+        {
+          success,
+          data: { ...data, templateId: template.id },
+          message: "Activity created successfully",
+        },
+        201
+      );
+    } catch (error) {
+      console.error("Error creating activity from template:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to create activity",
+        },
+        500
+      );
+    }
+  }
+);
+
 // GET /activities/:id - Get activity details with comprehensive info
 activitiesRouter.get(
   "/:id",
@@ -430,6 +514,7 @@ activitiesRouter.get(
             username: users.username,
             avatarUrl: users.avatarUrl,
           },
+          venue: venues,
         })
         .from(activities)
         .innerJoin(
@@ -437,6 +522,7 @@ activitiesRouter.get(
           eq(activityTypes.id, activities.activityTypeId)
         )
         .innerJoin(users, eq(users.id, activities.creatorId))
+        .leftJoin(venues, eq(venues.id, activities.venueId))
         .where(eq(activities.id, activityId))
         .limit(1);
 
@@ -462,6 +548,9 @@ activitiesRouter.get(
             finalResult: activityParticipants.finalResult,
             performanceNotes: activityParticipants.performanceNotes,
             joinedAt: activityParticipants.joinedAt,
+            confirmBy: activityParticipants.confirmBy,
+            checkedInAt: activityParticipants.checkedInAt,
+            isNoShow: activityParticipants.isNoShow,
           },
           user: {
             id: users.id,
@@ -483,9 +572,24 @@ activitiesRouter.get(
             )
           )
         )
-        .where(eq(activityParticipants.activityId, activityId))
+        .where(
+          and(
+            eq(activityParticipants.activityId, activityId),
+            sql`${activityParticipants.status} <> 'waitlisted'`
+          )
+        )
         .orderBy(activityParticipants.joinedAt);
 
+      // The creator sees the whole waitlist, everyone else only their own place
+      const isCreator = activityData.creator.id === user.id;
+      const fullWaitlist = await waitlistService.getWaitlist(activityId);
+      const waitlist = isCreator
+        ? fullWaitlist
+        : fullWaitlist.filter((entry) => entry.user.id === user.id);
+      const userWaitlistEntry = fullWaitlist.find(
+        (entry) => entry.user.id === user.id
+      );
+
       // Get user's participation status
       const userParticipation = participants.find((p) => p.user.id === user.id);
 
@@ -552,20 +656,28 @@ activitiesRouter.get(
           activity: activityData.activity,
           activityType: activityData.activityType,
           creator: activityData.creator,
+          venue: activityData.venue,
           participants,
           userParticipation,
+          waitlist,
+          userWaitlistEntry,
           eloStatus,
           skills: activitySkills,
           teamStats,
           eloDistribution,
           capabilities: {
-            canEdit: activityData.creator.id === user.id,
+            canEdit: isCreator,
             canJoin:
               !userParticipation &&
+              !userWaitlistEntry &&
               activityData.activity.completionStatus === "scheduled",
             canLeave:
-              userParticipation &&
-              userParticipation.participant.status !== "declined",
+              !!userWaitlistEntry ||
+              (userParticipation &&
+                userParticipation.participant.status !== "declined"),
+            canConfirmSpot:
+              !!userParticipation?.participant.confirmBy &&
+              userParticipation.participant.confirmBy > new Date(),
             canComplete:
               activityData.creator.id === user.id &&
               activityData.activity.completionStatus !== "completed",
@@ -649,6 +761,22 @@ activitiesRouter.post(
         );
       }
 
+      // Fixture players play for the team they are on
+      let playingFor = team || null;
+      if (activity.homeTeamId && activity.awayTeamId) {
+        playingFor = await teamEloService.fixtureTeamOf(activity, user.id, team);
+
+        if (!playingFor) {
+          return c.json(
+            {
+              success: false,
+              error: "Only players from the two teams can join this fixture",
+            },
+            403
+          );
+        }
+      }
+
       // Check capacity
       const currentParticipants = await db
         .select({ count: count() })
@@ -661,18 +789,9 @@ activitiesRouter.post(
         );
 
       const participantCount = currentParticipants[0]?.count || 0;
-      if (
-        activity.maxParticipants &&
-        participantCount >= activity.maxParticipants
-      ) {
-        return c.json(
-          {
-            success: false,
-            error: "Activity is at maximum capacity",
-          },
-          400
-        );
-      }
+      const isFull =
+        !!activity.maxParticipants &&
+        participantCount >= activity.maxParticipants;
 
       // Check ELO requirements if this is an ELO-rated activity
       if (activity.isELORated && activity.eloLevel) {
@@ -698,6 +817,35 @@ activitiesRouter.post(
         }
       }
 
+      // A full activity puts the user on its waitlist instead
+      if (isFull) {
+        const { participation, place } = await waitlistService.join(
+          activityId,
+          user.id,
+          playingFor
+        );
+
+        console.log(
+          `⏳ User ${user.username} waitlisted for activity ${activityId} at place ${place}`
+        );
+
+        return c.json(
+          {
+            success: true,
+            data: {
+              participation,
+              waitlistPlace: place,
+              activity: {
+                id: activity.id,
+                description: activity.description,
+              },
+            },
+            message: `Activity is full - you are number ${place} on the waitlist`,
+          },
+          201
+        );
+      }
+
       // Create participation record
       const [newParticipation] = await db
         .insert(activityParticipants)
@@ -705,7 +853,7 @@ activitiesRouter.post(
           activityId,
           userId: user.id,
           status: "pending", // May require approval from creator
-          team: team || null,
+          team: playingFor,
         })
         .returning();
 
@@ -718,7 +866,7 @@ activitiesRouter.post(
           activityId,
           participant: { id: user.id, username: user.username },
           status: "pending",
-          team,
+          team: playingFor,
           message,
         },
         affectedUserId: activity.creatorId,
@@ -778,62 +926,409 @@ activitiesRouter.post(
         ),
       });
 
-      if (!participation) {
+      if (!participation) {
+        return c.json(
+          {
+            success: false,
+            error: "You are not a participant in this activity",
+          },
+          400
+        );
+      }
+
+      // Check if activity is completed
+      const activity = await db.query.activities.findFirst({
+        where: eq(activities.id, activityId),
+      });
+
+      if (activity?.completionStatus === "completed") {
+        return c.json(
+          {
+            success: false,
+            error: "Cannot leave a completed activity",
+          },
+          400
+        );
+      }
+
+      // Remove the participation record
+      await db
+        .delete(activityParticipants)
+        .where(
+          and(
+            eq(activityParticipants.activityId, activityId),
+            eq(activityParticipants.userId, user.id)
+          )
+        );
+
+      // A freed spot goes to the next player on the waitlist
+      if (participation.status === "accepted") {
+        await waitlistService.fillOpenSpots(activityId, user.id);
+      }
+
+      // Track delta change (commented out due to interface mismatch)
+      // await deltaTrackingService.trackChange({
+      //   changeType: "delete",
+      //   entityType: "activity", 
+      //   entityId: activityId,
+      //   triggeredBy: user.id,
+      //   changeSource: "user_action",
+      // });
+
+      console.log(`✅ User left activity successfully: ${activityId}`);
+
+      return c.json({
+        success: true,
+        message: "Successfully left the activity",
+      });
+    } catch (error) {
+      console.error("Error leaving activity:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to leave activity",
+        },
+        500
+      );
+    }
+  }
+);
+
+// POST /activities/:id/confirm-spot - Keep a spot won from the waitlist, or
+// confirm it again after the activity was rescheduled
+activitiesRouter.post(
+  "/:id/confirm-spot",
+  zValidator("param", activityIdSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { id: activityId } = c.req.valid("param");
+
+      const confirmed = await waitlistService.confirmSpot(activityId, user.id);
+
+      if (!confirmed) {
+        return c.json(
+          {
+            success: false,
+            error: "You have no spot waiting to be confirmed",
+          },
+          400
+        );
+      }
+
+      console.log(
+        `✅ User ${user.username} confirmed their spot in activity: ${activityId}`
+      );
+
+      return c.json({
+        success: true,
+        data: {
+          participation: confirmed,
+        },
+        message: "Spot confirmed",
+      });
+    } catch (error) {
+      console.error("Error confirming waitlist spot:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to confirm spot",
+        },
+        500
+      );
+    }
+  }
+);
+
+// GET /activities/:id/results - Submitted results and how participants responded
+activitiesRouter.get(
+  "/:id/results",
+  zValidator("param", activityIdSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const { id: activityId } = c.req.valid("param");
+
+      const results = await activityResultsService.getResults(activityId);
+
+      if (!results) {
+        return c.json(
+          {
+            success: false,
+            error: "No results have been submitted for this activity",
+          },
+          404
+        );
+      }
+
+      return c.json({
+        success: true,
+        data: { results },
+      });
+    } catch (error) {
+      console.error("Error fetching activity results:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch activity results",
+        },
+        500
+      );
+    }
+  }
+);
+
+// POST /activities/:id/results/respond - Confirm or dispute the proposed results
+activitiesRouter.post(
+  "/:id/results/respond",
+  zValidator("param", activityIdSchema),
+  zValidator("json", respondToResultsSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { id: activityId } = c.req.valid("param");
+      const response = c.req.valid("json");
+
+      console.log(
+        `🧾 ${user.username} responded to results of ${activityId}: ${response.response}`
+      );
+
+      const outcome = await activityResultsService.respond(
+        activityId,
+        user,
+        response
+      );
+
+      if (!outcome.success) {
+        return c.json(
+          {
+            success: false,
+            error: outcome.error,
+          },
+          outcome.status
+        );
+      }
+
+      const { submission, eloProcessing } = outcome.result;
+
+      return c.json({
+        success: true,
+        data: {
+          resultStatus: submission.status,
+          eloProcessing,
+        },
+        message:
+          response.response === "dispute"
+            ? "Results disputed - a moderator will review them"
+            : "Results confirmed",
+      });
+    } catch (error) {
+      console.error("Error responding to activity results:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to respond to results",
+        },
+        500
+      );
+    }
+  }
+);
+
+// POST /activities/:id/check-in - Check in on the day. The creator can check in others.
+activitiesRouter.post(
+  "/:id/check-in",
+  zValidator("param", activityIdSchema),
+  zValidator("json", checkInSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { id: activityId } = c.req.valid("param");
+      const { userId = user.id } = c.req.valid("json");
+
+      const activity = await db.query.activities.findFirst({
+        where: eq(activities.id, activityId),
+      });
+
+      if (!activity) {
+        return c.json(
+          {
+            success: false,
+            error: "Activity not found",
+          },
+          404
+        );
+      }
+
+      if (userId !== user.id && activity.creatorId !== user.id) {
+        return c.json(
+          {
+            success: false,
+            error: "Only the activity creator can check in other participants",
+          },
+          403
+        );
+      }
+
+      const result = await activityLifecycleService.checkIn(activity, userId);
+
+      if (!result.success) {
+        return c.json(
+          {
+            success: false,
+            error: result.error,
+          },
+          result.status
+        );
+      }
+
+      console.log(`📍 User ${userId} checked in to activity: ${activityId}`);
+
+      return c.json({
+        success: true,
+        data: {
+          participation: result.participant,
+        },
+        message: "Checked in",
+      });
+    } catch (error) {
+      console.error("Error checking in to activity:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to check in",
+        },
+        500
+      );
+    }
+  }
+);
+
+// POST /activities/:id/cancel - Call off the activity but keep its history (creator only)
+activitiesRouter.post(
+  "/:id/cancel",
+  zValidator("param", activityIdSchema),
+  zValidator("json", cancelActivitySchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { id: activityId } = c.req.valid("param");
+      const { reason } = c.req.valid("json");
+
+      console.log(`🚫 Cancel activity request: ${activityId} by ${user.username}`);
+
+      const activity = await db.query.activities.findFirst({
+        where: and(
+          eq(activities.id, activityId),
+          eq(activities.creatorId, user.id)
+        ),
+      });
+
+      if (!activity) {
+        return c.json(
+          {
+            success: false,
+            error: "Activity not found or you are not the creator",
+          },
+          404
+        );
+      }
+
+      const result = await activityLifecycleService.cancel(activity, user, reason);
+
+      if (!result.success) {
+        return c.json(
+          {
+            success: false,
+            error: result.error,
+          },
+          result.status
+        );
+      }
+
+      return c.json({
+        success: true,
+        data: {
+          activity: result.result,
+        },
+        message: "Activity cancelled",
+      });
+    } catch (error) {
+      console.error("Error cancelling activity:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to cancel activity",
+        },
+        500
+      );
+    }
+  }
+);
+
+// POST /activities/:id/reschedule - Move to a new time; participants must re-confirm (creator only)
+activitiesRouter.post(
+  "/:id/reschedule",
+  zValidator("param", activityIdSchema),
+  zValidator("json", rescheduleActivitySchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { id: activityId } = c.req.valid("param");
+      const rescheduleData = c.req.valid("json");
+
+      console.log(`🗓️ Reschedule activity request: ${activityId} by ${user.username}`);
+
+      const activity = await db.query.activities.findFirst({
+        where: and(
+          eq(activities.id, activityId),
+          eq(activities.creatorId, user.id)
+        ),
+      });
+
+      if (!activity) {
         return c.json(
           {
             success: false,
-            error: "You are not a participant in this activity",
+            error: "Activity not found or you are not the creator",
           },
-          400
+          404
         );
       }
 
-      // Check if activity is completed
-      const activity = await db.query.activities.findFirst({
-        where: eq(activities.id, activityId),
-      });
+      const result = await activityLifecycleService.reschedule(
+        activity,
+        user,
+        rescheduleData
+      );
 
-      if (activity?.completionStatus === "completed") {
+      if (!result.success) {
         return c.json(
           {
             success: false,
-            error: "Cannot leave a completed activity",
+            error: result.error,
+            conflictingActivity: result.conflictingActivity,
           },
-          400
+          result.status
         );
       }
 
-      // Remove the participation record
-      await db
-        .delete(activityParticipants)
-        .where(
-          and(
-            eq(activityParticipants.activityId, activityId),
-            eq(activityParticipants.userId, user.id)
-          )
-        );
-
-      // Track delta change (commented out due to interface mismatch)
-      // await deltaTrackingService.trackChange({
-      //   changeType: "delete",
-      //   entityType: "activity", 
-      //   entityId: activityId,
-      //   triggeredBy: user.id,
-      //   changeSource: "user_action",
-      // });
-
-      console.log(`✅ User left activity successfully: ${activityId}`);
-
       return c.json({
         success: true,
-        message: "Successfully left the activity",
+        data: result.result,
+        message: "Activity rescheduled - participants have been asked to confirm",
       });
     } catch (error) {
-      console.error("Error leaving activity:", error);
+      console.error("Error rescheduling activity:", error);
       return c.json(
         {
           success: false,
-          error: "Failed to leave activity",
+          error: "Failed to reschedule activity",
         },
         500
       );
@@ -917,6 +1412,8 @@ activitiesRouter.put(
         .set({
           status: newStatus,
           performanceNotes: reason,
+          waitlistPosition: null,
+          confirmBy: null,
         })
         .where(eq(activityParticipants.id, participantId))
         .returning();
@@ -941,6 +1438,10 @@ activitiesRouter.put(
         changeSource: "user_action",
       });
 
+      if (participant.status === "accepted" && newStatus === "declined") {
+        await waitlistService.fillOpenSpots(activityId, user.id);
+      }
+
       console.log(`✅ Participant ${action}ed successfully`);
 
       return c.json({
@@ -998,7 +1499,34 @@ activitiesRouter.post(
         );
       }
 
-      if (activity.completionStatus === "completed") {
+      if (activity.completionStatus === "cancelled") {
+        return c.json(
+          {
+            success: false,
+            error: "Cannot complete a cancelled activity",
+          },
+          400
+        );
+      }
+
+      // Activities closed automatically can still get their results
+      const existingResults = await db.query.activityResultSubmissions.findFirst({
+        where: eq(activityResultSubmissions.activityId, activityId),
+      });
+      const [{ count: recordedResults }] = await db
+        .select({ count: count() })
+        .from(activityParticipants)
+        .where(
+          and(
+            eq(activityParticipants.activityId, activityId),
+            isNotNull(activityParticipants.finalResult)
+          )
+        );
+
+      if (
+        existingResults ||
+        (activity.completionStatus === "completed" && recordedResults > 0)
+      ) {
         return c.json(
           {
             success: false,
@@ -1017,27 +1545,25 @@ activitiesRouter.post(
         })
         .where(eq(activities.id, activityId));
 
-      // Update participant results if provided
-      if (
-        completionData.participantResults &&
-        completionData.participantResults.length > 0
-      ) {
-        for (const result of completionData.participantResults) {
-          await db
-            .update(activityParticipants)
-            .set({
-              finalResult: result.finalResult,
-              performanceNotes: result.performanceNotes,
-            })
-            .where(
-              and(
-                eq(activityParticipants.activityId, activityId),
-                eq(activityParticipants.userId, result.userId)
-              )
-            );
-        }
+      // Results are proposed; they reach participants and ELO once confirmed
+      const proposal = await activityResultsService.propose(
+        activity,
+        user,
+        completionData
+      );
+
+      if (!proposal.success) {
+        // A score that does not fit the activity leaves it as it was
+        await db
+          .update(activities)
+          .set({ completionStatus: activity.completionStatus })
+          .where(eq(activities.id, activityId));
+
+        return c.json({ success: false, error: proposal.error }, proposal.status);
       }
 
+      const { submission, eloProcessing } = proposal.result;
+
       // Track delta change
       await deltaTrackingService.trackChange({
         entityType: "activity",
@@ -1045,8 +1571,10 @@ activitiesRouter.post(
         changeType: "update",
         newData: {
           completionStatus: "completed",
-          participantResults: completionData.participantResults,
+          participantResults: submission.participantResults,
+          score: submission.score,
           completionNotes: completionData.completionNotes,
+          resultStatus: submission.status,
         },
         affectedUserId: user.id,
         relatedEntityId: activityId,
@@ -1054,32 +1582,30 @@ activitiesRouter.post(
         changeSource: "user_action",
       });
 
-      // Process ELO calculations if this is an ELO-rated activity
-      let eloProcessingResult = null;
-      if (activity.isELORated) {
-        try {
-          console.log(`🏆 Starting ELO processing for activity: ${activityId}`);
-
-          eloProcessingResult = await eloProcessingService.onActivityCompletion(
-            {
-              activityId,
-              results: completionData.participantResults || [],
-            }
-          );
+      // Ask everyone who played to rate their teammates
+      const acceptedParticipants = await db
+        .select({ userId: activityParticipants.userId })
+        .from(activityParticipants)
+        .where(
+          and(
+            eq(activityParticipants.activityId, activityId),
+            eq(activityParticipants.status, "accepted")
+          )
+        );
 
-          console.log(`✅ ELO processing completed successfully`);
-        } catch (eloError) {
-          console.error("ELO processing failed:", eloError);
-          // Don't fail the completion, just log the error
-          eloProcessingResult = {
-            success: false,
-            error:
-              eloError instanceof Error
-                ? eloError.message
-                : "ELO processing failed",
-          };
+      await notificationService.notifyUsers(
+        acceptedParticipants.map((p) => p.userId),
+        {
+          type: "rating_needed",
+          title: "Rate Your Teammates",
+          message: `Please rate your teammates for: ${
+            activity.description || "your last activity"
+          }`,
+          payload: { activityId, completedAt: new Date().toISOString() },
+          linkUrl: `/activities/${activityId}`,
+          relatedEntityId: activityId,
         }
-      }
+      );
 
       return c.json({
         success: true,
@@ -1087,9 +1613,14 @@ activitiesRouter.post(
           activityId,
           completionStatus: "completed",
           isELORated: activity.isELORated,
-          eloProcessing: eloProcessingResult,
+          resultStatus: submission.status,
+          respondBy: submission.respondBy,
+          eloProcessing,
         },
-        message: "Activity completed successfully",
+        message:
+          submission.status === "proposed"
+            ? "Activity completed - results are waiting for confirmation"
+            : "Activity completed successfully",
       });
     } catch (error) {
       console.error("Error completing activity:", error);
@@ -1108,13 +1639,40 @@ activitiesRouter.post(
 // This continues from Part 1 - add these endpoints to the existing router
 
 const eloPreviewSchema = z.object({
-  includeSimulation: z.boolean().default(false),
+  includeSimulation: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+  // Query strings can't carry arrays of objects, so results arrive as JSON
   participantResults: z
-    .array(
-      z.object({
-        userId: z.string().uuid(),
-        expectedResult: z.enum(["win", "loss", "draw"]),
-      })
+    .string()
+    .transform((value, ctx) => {
+      try {
+        return JSON.parse(value);
+      } catch {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "participantResults must be valid JSON",
+        });
+        return z.NEVER;
+      }
+    })
+    .pipe(
+      z.array(
+        z
+          .object({
+            userId: z.string().uuid(),
+            expectedResult: z.enum(["win", "loss", "draw"]).optional(),
+            // Finishing position for placement-based events, ties share one
+            expectedPlacement: z.number().int().min(1).optional(),
+          })
+          .refine(
+            (result) =>
+              result.expectedResult !== undefined ||
+              result.expectedPlacement !== undefined,
+            { message: "Give an expected result or placement" }
+          )
+      )
     )
     .optional(),
 });
@@ -1164,6 +1722,8 @@ activitiesRouter.get(
           },
           currentELO: userActivityTypeELOs.eloScore,
           gamesPlayed: userActivityTypeELOs.gamesPlayed,
+          ratingDeviation: userActivityTypeELOs.ratingDeviation,
+          volatility: userActivityTypeELOs.volatility,
         })
         .from(activityParticipants)
         .innerJoin(users, eq(users.id, activityParticipants.userId))
@@ -1181,7 +1741,23 @@ activitiesRouter.get(
           )
         );
 
+      const [activityType] = await db
+        .select({
+          name: activityTypes.name,
+          category: activityTypes.category,
+          defaultELOSettings: activityTypes.defaultELOSettings,
+        })
+        .from(activityTypes)
+        .where(eq(activityTypes.id, activity.activityTypeId))
+        .limit(1);
+
+      const eloSettings = resolveActivityELOSettings(
+        activityType?.defaultELOSettings,
+        activityType?.category
+      );
+
       let eloSimulation = null;
+      let simulationError: string | null = null;
 
       if (includeSimulation && participantResults) {
         try {
@@ -1192,41 +1768,21 @@ activitiesRouter.get(
             participants: participants.map((p) => ({
               userId: p.user.id,
               username: p.user.username ?? "UnknownUser",
-              currentELO: p.currentELO || 1200,
+              currentELO: p.currentELO || eloSettings.startingELO,
               gamesPlayed: p.gamesPlayed || 0,
+              ratingDeviation: p.ratingDeviation ?? undefined,
+              volatility: p.volatility,
               team: p.participant.team,
             })),
             results: participantResults,
           });
         } catch (error) {
           console.error("Error simulating ELO changes:", error);
+          simulationError =
+            error instanceof Error ? error.message : "ELO simulation failed";
         }
       }
 
-      const activityWithDetails = await db
-        .select({
-          activity: activities,
-          activityType: {
-            id: activityTypes.id,
-            name: activityTypes.name,
-            defaultELOSettings: activityTypes.defaultELOSettings,
-            // ... other activityType fields you need
-          },
-        })
-        .from(activities)
-        .innerJoin(
-          activityTypes,
-          eq(activities.activityTypeId, activityTypes.id)
-        )
-        .where(eq(activities.id, activityId))
-        .limit(1);
-      const activityData = activityWithDetails[0];
-
-      if (!activityWithDetails) {
-        // Handle activity not found
-        return c.json({ success: false, error: "Activity not found" }, 404);
-      }
-
       return c.json({
         success: true,
         data: {
@@ -1237,14 +1793,15 @@ activitiesRouter.get(
             eloLevel: activity.eloLevel,
           },
           activityType: {
-            name: activityData.activityType.name, // Use activityData instead of activity
-            defaultELOSettings: activityData.activityType.defaultELOSettings, // Use activityData instead of activity.eloSettings
+            name: activityType?.name,
+            defaultELOSettings: eloSettings,
           },
           participants: participants.map((p) => ({
             ...p,
-            currentELO: p.currentELO || 1200,
+            currentELO: p.currentELO || eloSettings.startingELO,
           })),
           eloSimulation,
+          simulationError,
         },
       });
     } catch (error) {
@@ -1383,6 +1940,7 @@ activitiesRouter.get(
           },
           eloScore: userActivityTypeELOs.eloScore,
           gamesPlayed: userActivityTypeELOs.gamesPlayed,
+          ratingDeviation: userActivityTypeELOs.ratingDeviation,
           peakELO: userActivityTypeELOs.peakELO,
           lastUpdated: userActivityTypeELOs.lastUpdated,
         })
@@ -1409,6 +1967,12 @@ activitiesRouter.get(
           )
         );
 
+      const eloSettings = resolveActivityELOSettings(
+        activityType.defaultELOSettings,
+        activityType.category
+      );
+      const ratingStrategy = getRatingStrategy(eloSettings);
+
       return c.json({
         success: true,
         data: {
@@ -1416,8 +1980,12 @@ activitiesRouter.get(
             id: activityType.id,
             name: activityType.name,
             category: activityType.category,
+            ratingSystem: eloSettings.ratingSystem,
           },
-          leaderboard,
+          leaderboard: leaderboard.map((entry) => ({
+            ...entry,
+            isProvisional: ratingStrategy.isProvisional(entry, eloSettings),
+          })),
           pagination: {
             page,
             limit,
@@ -1549,6 +2117,16 @@ activitiesRouter.post(
         );
       }
 
+      if (await eloProcessingService.hasRatingHistory(activityId)) {
+        return c.json(
+          {
+            success: false,
+            error: "Ratings were already applied for this activity",
+          },
+          409
+        );
+      }
+
       // Reset ELO status to allow reprocessing
       await db
         .update(activityELOStatus)
@@ -1629,6 +2207,23 @@ activitiesRouter.get(
         });
       }
 
+      // Rank by distance from the user's home area when it is set
+      const [home] = await db
+        .select({
+          latitude: users.homeLatitude,
+          longitude: users.homeLongitude,
+        })
+        .from(users)
+        .where(eq(users.id, user.id));
+
+      const distanceKm =
+        home?.latitude != null && home?.longitude != null
+          ? await distanceKmSql(venues, {
+              latitude: home.latitude,
+              longitude: home.longitude,
+            })
+          : null;
+
       // Find suitable activities for each activity type
       const suggestions = [];
 
@@ -1655,6 +2250,12 @@ activitiesRouter.get(
               id: users.id,
               username: users.username,
             },
+            venue: {
+              id: venues.id,
+              name: venues.name,
+              city: venues.city,
+            },
+            distanceKm: distanceKm ?? sql<number | null>`NULL`,
             participantCount: count(activityParticipants.id),
             eloDifference:
               sql`ABS(${activities.eloLevel} - ${userELO.eloScore})`.as(
@@ -1667,6 +2268,7 @@ activitiesRouter.get(
             eq(activityTypes.id, activities.activityTypeId)
           )
           .innerJoin(users, eq(users.id, activities.creatorId))
+          .leftJoin(venues, eq(venues.id, activities.venueId))
           .leftJoin(
             activityParticipants,
             and(
@@ -1679,19 +2281,23 @@ activitiesRouter.get(
               eq(activities.activityTypeId, userELO.activityTypeId),
               eq(activities.completionStatus, "scheduled"),
               gte(activities.dateTime, new Date()), // Future activities only
-              sql`${activities.eloLevel} IS NULL OR ABS(${activities.eloLevel} - ${userELO.eloScore}) <= 150`,
+              sql`(${activities.eloLevel} IS NULL OR ABS(${activities.eloLevel} - ${userELO.eloScore}) <= 150)`,
               // Exclude activities user is already participating in
               sql`${activities.id} NOT IN (
               SELECT activity_id FROM activity_participants 
-              WHERE user_id = '${user.id}' AND status IN ('pending', 'accepted')
+              WHERE user_id = ${user.id} AND status IN ('pending', 'accepted')
             )`
             )
           )
-          .groupBy(activities.id, activityTypes.id, users.id)
+          .groupBy(activities.id, activityTypes.id, users.id, venues.id)
           .having(
             sql`COUNT(${activityParticipants.id}) < COALESCE(${activities.maxParticipants}, 999)`
           )
-          .orderBy(sql`eloDifference ASC`, desc(activities.dateTime))
+          .orderBy(
+            ...(distanceKm ? [sql`${distanceKm} ASC NULLS LAST`] : []),
+            sql`ABS(${activities.eloLevel} - ${userELO.eloScore}) ASC NULLS LAST`,
+            desc(activities.dateTime)
+          )
           .limit(3);
 
         if (suitableActivities.length > 0) {
@@ -1771,6 +2377,16 @@ activitiesRouter.post(
         );
       }
 
+      if (activity.homeTeamId && activity.awayTeamId) {
+        return c.json(
+          {
+            success: false,
+            error: "Fixture players play for their own team",
+          },
+          400
+        );
+      }
+
       // Get accepted participants with ELO scores
       const participants = await db
         .select({
@@ -1939,6 +2555,7 @@ activitiesRouter.delete(
 
       // Delete activity (cascade will handle related records)
       await db.delete(activities).where(eq(activities.id, activityId));
+      await activityLifecycleService.unscheduleActivity(activityId);
 
       // Notify participants about deletion
       for (const participant of participants) {
@@ -1980,16 +2597,57 @@ activitiesRouter.delete(
   }
 );
 
-// PUT /activities/:id - Update activity (creator only)
+// Track delta changes for the other accepted participants of updated activities
+async function notifyParticipantsOfUpdate(
+  updatedActivities: { id: string }[],
+  updates: Record<string, unknown>,
+  user: { id: string; username: string | null }
+) {
+  for (const { id: activityId } of updatedActivities) {
+    const participants = await db
+      .select({ userId: activityParticipants.userId })
+      .from(activityParticipants)
+      .where(
+        and(
+          eq(activityParticipants.activityId, activityId),
+          eq(activityParticipants.status, "accepted")
+        )
+      );
+
+    for (const participant of participants) {
+      if (participant.userId !== user.id) {
+        await deltaTrackingService.trackChange({
+          entityType: "activity",
+          entityId: activityId,
+          changeType: "update",
+          newData: {
+            activityId,
+            updates,
+            updatedBy: { id: user.id, username: user.username },
+          },
+          affectedUserId: participant.userId,
+          relatedEntityId: activityId,
+          triggeredBy: user.id,
+          changeSource: "user_action",
+        });
+      }
+    }
+  }
+}
+
+// PUT /activities/:id?scope=occurrence|following - Update activity (creator only).
+// For a series occurrence, scope=following also updates every later occurrence.
 activitiesRouter.put(
   "/:id",
   zValidator("param", activityIdSchema),
+  zValidator("query", activityUpdateScopeSchema),
   zValidator("json", updateActivitySchema),
   authenticateToken,
   async (c) => {
     try {
       const user = c.get("user");
       const { id: activityId } = c.req.valid("param");
+      const { scope } = c.req.valid("query");
       const updateData = c.req.valid("json");
 
       console.log(
@@ -2033,44 +2691,184 @@ activitiesRouter.put(
         );
       }
 
-      // Update the activity
-      const [updatedActivity] = await db
-        .update(activities)
-        .set({
-          ...filteredUpdateData,
-          updatedAt: new Date(),
-        })
-        .where(eq(activities.id, activityId))
-        .returning();
+      // A single activity moves through /reschedule, which posts a notice
+      // and asks participants to confirm again
+      if (
+        scope !== "following" &&
+        updateData.dateTime &&
+        new Date(updateData.dateTime).getTime() !== activity.dateTime.getTime()
+      ) {
+        return c.json(
+          {
+            success: false,
+            error: "Use POST /activities/:id/reschedule to change the time",
+          },
+          400
+        );
+      }
 
-      // Track delta change for participants
-      const participants = await db
-        .select({ userId: activityParticipants.userId })
-        .from(activityParticipants)
-        .where(
-          and(
-            eq(activityParticipants.activityId, activityId),
-            eq(activityParticipants.status, "accepted")
-          )
+      if (updateData.venueId) {
+        const venue = await db.query.venues.findFirst({
+          where: eq(venues.id, updateData.venueId),
+        });
+
+        if (!venue) {
+          return c.json(
+            {
+              success: false,
+              error: "Venue not found",
+            },
+            404
+          );
+        }
+      }
+
+      if (scope === "following") {
+        if (!activity.seriesId) {
+          return c.json(
+            {
+              success: false,
+              error: "Only occurrences of a recurring series can be edited with scope=following",
+            },
+            400
+          );
+        }
+
+        // Jobs and re-confirmation notices commit together with the new times
+        const result = await activitySeriesService.updateFollowing(
+          activity,
+          filteredUpdateData,
+          new Date(),
+          async (tx, occurrence, previous) => {
+            if (updateData.dateTime || updateData.durationMinutes) {
+              await activityLifecycleService.scheduleActivity(
+                occurrence,
+                new Date(),
+                tx
+              );
+            }
+            if (previous.dateTime.getTime() !== occurrence.dateTime.getTime()) {
+              await activityLifecycleService.askToReconfirm(
+                occurrence,
+                previous.dateTime,
+                user,
+                undefined,
+                new Date(),
+                tx
+              );
+            }
+          }
         );
 
-      for (const participant of participants) {
-        if (participant.userId !== user.id) {
-          await deltaTrackingService.trackChange({
-            entityType: "activity",
-            entityId: activityId,
-            changeType: "update",
-            newData: {
-              activityId,
-              updates: updateData,
-              updatedBy: { id: user.id, username: user.username },
+        if (!result.success) {
+          return c.json(
+            {
+              success: false,
+              error: result.error,
+              conflictingActivity: result.conflictingActivity,
             },
-            affectedUserId: participant.userId,
-            relatedEntityId: activityId,
-            triggeredBy: user.id,
-            changeSource: "user_action",
-          });
+            result.status
+          );
+        }
+
+        await notifyParticipantsOfUpdate(result.result, updateData, user);
+
+        if (updateData.maxParticipants !== undefined) {
+          for (const occurrence of result.result) {
+            await waitlistService.fillOpenSpots(occurrence.id, user.id);
+          }
+        }
+
+        console.log(
+          `✅ Updated ${result.result.length} occurrence(s) of series ${activity.seriesId}`
+        );
+
+        return c.json({
+          success: true,
+          data: {
+            activity:
+              result.result.find((occurrence) => occurrence.id === activityId) ??
+              activity,
+            occurrences: result.result,
+          },
+          message: "Activity and following occurrences updated successfully",
+        });
+      }
+
+      const applyUpdate = async (
+        executor: Pick<typeof db, "update">,
+        extra: Partial<typeof activities.$inferInsert> = {}
+      ) => {
+        const [updated] = await executor
+          .update(activities)
+          .set({
+            ...filteredUpdateData,
+            ...extra,
+            // Series-wide edits leave this occurrence alone from now on
+            ...(activity.seriesId && { isSeriesException: true }),
+            updatedAt: new Date(),
+          })
+          .where(eq(activities.id, activityId))
+          .returning();
+        return updated;
+      };
+
+      // Moving or resizing a court booking must not clash with other bookings
+      const venueResourceId =
+        updateData.venueResourceId ?? activity.venueResourceId;
+      const touchesBooking = [
+        "venueResourceId",
+        "venueId",
+        "activityTypeId",
+        "dateTime",
+        "durationMinutes",
+        "maxParticipants",
+      ].some((key) => key in filteredUpdateData);
+
+      // Update the activity
+      let updatedActivity: typeof activities.$inferSelect;
+      if (venueResourceId && touchesBooking) {
+        const booking = await venueService.book(
+          {
+            resourceId: venueResourceId,
+            activityTypeId: updateData.activityTypeId ?? activity.activityTypeId,
+            start: updateData.dateTime ?? activity.dateTime,
+            durationMinutes:
+              updateData.durationMinutes ??
+              activity.durationMinutes ??
+              DEFAULT_BOOKING_MINUTES,
+            maxParticipants: updateData.maxParticipants ?? activity.maxParticipants,
+            venueId: updateData.venueId,
+            excludeActivityId: activityId,
+          },
+          (tx, booked) => applyUpdate(tx, { venueId: booked.venueId })
+        );
+
+        if (!booking.success) {
+          return c.json(
+            {
+              success: false,
+              error: booking.error,
+              conflictingActivity: booking.conflictingActivity,
+            },
+            booking.status
+          );
         }
+        updatedActivity = booking.result;
+      } else {
+        updatedActivity = await applyUpdate(db);
+      }
+
+      await notifyParticipantsOfUpdate([updatedActivity], updateData, user);
+
+      // Extra room goes to the waitlist
+      if (updateData.maxParticipants !== undefined) {
+        await waitlistService.fillOpenSpots(activityId, user.id);
+      }
+
+      // Moving the start or end moves the lifecycle jobs with it
+      if (updateData.dateTime || updateData.durationMinutes) {
+        await activityLifecycleService.scheduleActivity(updatedActivity);
       }
 
       console.log(`✅ Activity updated successfully: ${activityId}`);
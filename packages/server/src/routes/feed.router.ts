@@ -0,0 +1,472 @@
+// src/routes/feed.router.ts - Social feed: posts, likes and comment threads
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import { z } from "zod";
+import {
+  createPostCommentSchema,
+  createPostSchema,
+  editPostSchema,
+  feedQuerySchema,
+} from "../db/zod.schema.js";
+import { authenticateToken, type User } from "../middleware/auth.js";
+import { decodeFeedCursor, feedService } from "../services/feed.service.js";
+
+export const feedRouter = new Hono();
+
+const postIdSchema = z.object({
+  id: z.string().uuid("Invalid post ID"),
+});
+
+const commentParamsSchema = postIdSchema.extend({
+  commentId: z.string().uuid("Invalid comment ID"),
+});
+
+const canModerate = (user: User) =>
+  user.role === "moderator" || user.role === "admin";
+
+// GET /feed - Posts the user can see, newest first
+feedRouter.get(
+  "/",
+  zValidator("query", feedQuerySchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const query = c.req.valid("query");
+
+      if (query.cursor && !decodeFeedCursor(query.cursor)) {
+        return c.json(
+          {
+            success: false,
+            error: "Invalid cursor",
+          },
+          400
+        );
+      }
+
+      const feed = await feedService.getFeed(user.id, query);
+
+      return c.json({
+        success: true,
+        data: feed,
+      });
+    } catch (error) {
+      console.error("Error fetching feed:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch feed",
+        },
+        500
+      );
+    }
+  }
+);
+
+// POST /feed/posts - Publish a post
+feedRouter.post(
+  "/posts",
+  zValidator("json", createPostSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const data = c.req.valid("json");
+
+      console.log(`📝 ${user.username} is posting (${data.visibility})`);
+
+      const created = await feedService.createPost(user.id, data);
+
+      if (!created.success) {
+        return c.json(
+          {
+            success: false,
+            error: created.error,
+          },
+          created.status
+        );
+      }
+
+      return c.json(
+        {
+          success: true,
+          data: { post: await feedService.getPost(created.result.id, user.id) },
+          message: "Post published",
+        },
+        201
+      );
+    } catch (error) {
+      console.error("Error creating post:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to publish post",
+        },
+        500
+      );
+    }
+  }
+);
+
+// GET /feed/posts/:id - A single post
+feedRouter.get(
+  "/posts/:id",
+  zValidator("param", postIdSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { id } = c.req.valid("param");
+
+      const post = await feedService.getPost(id, user.id);
+
+      if (!post) {
+        return c.json(
+          {
+            success: false,
+            error: "Post not found",
+          },
+          404
+        );
+      }
+
+      return c.json({
+        success: true,
+        data: { post },
+      });
+    } catch (error) {
+      console.error("Error fetching post:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch post",
+        },
+        500
+      );
+    }
+  }
+);
+
+// PUT /feed/posts/:id - Edit a post (author only)
+feedRouter.put(
+  "/posts/:id",
+  zValidator("param", postIdSchema),
+  zValidator("json", editPostSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { id } = c.req.valid("param");
+      const data = c.req.valid("json");
+
+      const post = await feedService.findPost(id);
+
+      if (!post || post.userId !== user.id) {
+        return c.json(
+          {
+            success: false,
+            error: "Post not found or you are not the author",
+          },
+          404
+        );
+      }
+
+      await feedService.editPost(post, data);
+
+      return c.json({
+        success: true,
+        data: { post: await feedService.getPost(id, user.id) },
+        message: "Post updated",
+      });
+    } catch (error) {
+      console.error("Error updating post:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to update post",
+        },
+        500
+      );
+    }
+  }
+);
+
+// DELETE /feed/posts/:id - Remove a post (author or moderators)
+feedRouter.delete(
+  "/posts/:id",
+  zValidator("param", postIdSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { id } = c.req.valid("param");
+
+      const post = await feedService.findPost(id);
+
+      if (!post || (post.userId !== user.id && !canModerate(user))) {
+        return c.json(
+          {
+            success: false,
+            error: "Post not found or you are not the author",
+          },
+          404
+        );
+      }
+
+      await feedService.deletePost(id);
+
+      return c.json({
+        success: true,
+        message: "Post deleted",
+      });
+    } catch (error) {
+      console.error("Error deleting post:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to delete post",
+        },
+        500
+      );
+    }
+  }
+);
+
+// POST /feed/posts/:id/like - Like a post
+feedRouter.post(
+  "/posts/:id/like",
+  zValidator("param", postIdSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { id } = c.req.valid("param");
+
+      const post = await feedService.findPost(id);
+
+      if (!post || !(await feedService.canView(post, user.id))) {
+        return c.json(
+          {
+            success: false,
+            error: "Post not found",
+          },
+          404
+        );
+      }
+
+      const likesCount = await feedService.like(post, user.id);
+
+      return c.json({
+        success: true,
+        data: { likesCount, userHasLiked: true },
+      });
+    } catch (error) {
+      console.error("Error liking post:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to like post",
+        },
+        500
+      );
+    }
+  }
+);
+
+// DELETE /feed/posts/:id/like - Take a like back
+feedRouter.delete(
+  "/posts/:id/like",
+  zValidator("param", postIdSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { id } = c.req.valid("param");
+
+      const post = await feedService.findPost(id);
+
+      if (!post || !(await feedService.canView(post, user.id))) {
+        return c.json(
+          {
+            success: false,
+            error: "Post not found",
+          },
+          404
+        );
+      }
+
+      const likesCount = await feedService.unlike(post, user.id);
+
+      return c.json({
+        success: true,
+        data: { likesCount, userHasLiked: false },
+      });
+    } catch (error) {
+      console.error("Error unliking post:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to unlike post",
+        },
+        500
+      );
+    }
+  }
+);
+
+// GET /feed/posts/:id/comments - Comments as reply threads
+feedRouter.get(
+  "/posts/:id/comments",
+  zValidator("param", postIdSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { id } = c.req.valid("param");
+
+      const post = await feedService.findPost(id);
+
+      if (!post || !(await feedService.canView(post, user.id))) {
+        return c.json(
+          {
+            success: false,
+            error: "Post not found",
+          },
+          404
+        );
+      }
+
+      const comments = await feedService.getComments(id);
+
+      return c.json({
+        success: true,
+        data: { comments },
+      });
+    } catch (error) {
+      console.error("Error fetching comments:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch comments",
+        },
+        500
+      );
+    }
+  }
+);
+
+// POST /feed/posts/:id/comments - Comment, or reply with parentId
+feedRouter.post(
+  "/posts/:id/comments",
+  zValidator("param", postIdSchema),
+  zValidator("json", createPostCommentSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { id } = c.req.valid("param");
+      const data = c.req.valid("json");
+
+      const post = await feedService.findPost(id);
+
+      if (!post || !(await feedService.canView(post, user.id))) {
+        return c.json(
+          {
+            success: false,
+            error: "Post not found",
+          },
+          404
+        );
+      }
+
+      const added = await feedService.addComment(post, user.id, data);
+
+      if (!added.success) {
+        return c.json(
+          {
+            success: false,
+            error: added.error,
+          },
+          added.status
+        );
+      }
+
+      return c.json(
+        {
+          success: true,
+          data: { comment: added.result },
+          message: "Comment added",
+        },
+        201
+      );
+    } catch (error) {
+      console.error("Error adding comment:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to add comment",
+        },
+        500
+      );
+    }
+  }
+);
+
+// DELETE /feed/posts/:id/comments/:commentId - Remove a comment and its replies
+// (comment author, post author or moderators)
+feedRouter.delete(
+  "/posts/:id/comments/:commentId",
+  zValidator("param", commentParamsSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { id, commentId } = c.req.valid("param");
+
+      const post = await feedService.findPost(id);
+      const comment = post
+        ? await feedService.findComment(id, commentId)
+        : undefined;
+
+      if (!post || !comment) {
+        return c.json(
+          {
+            success: false,
+            error: "Comment not found",
+          },
+          404
+        );
+      }
+
+      if (
+        comment.userId !== user.id &&
+        post.userId !== user.id &&
+        !canModerate(user)
+      ) {
+        return c.json(
+          {
+            success: false,
+            error: "You can only delete your own comments",
+          },
+          403
+        );
+      }
+
+      await feedService.deleteComment(commentId);
+
+      return c.json({
+        success: true,
+        message: "Comment deleted",
+      });
+    } catch (error) {
+      console.error("Error deleting comment:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to delete comment",
+        },
+        500
+      );
+    }
+  }
+);
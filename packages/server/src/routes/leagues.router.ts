@@ -0,0 +1,379 @@
+// src/routes/leagues.router.ts - League seasons, their fixtures and standings
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import { z } from "zod";
+import {
+  createLeagueSchema,
+  generateLeagueFixturesSchema,
+  registerLeagueTeamSchema,
+} from "../db/zod.schema.js";
+import { authenticateToken } from "../middleware/auth.js";
+import { leagueService } from "../services/league.service.js";
+
+export const leaguesRouter = new Hono();
+
+const leagueIdSchema = z.object({
+  leagueId: z.string().uuid("Invalid league ID"),
+});
+
+const leagueTeamParamSchema = z.object({
+  leagueId: z.string().uuid("Invalid league ID"),
+  teamId: z.string().uuid("Invalid team ID"),
+});
+
+const listLeaguesSchema = z.object({
+  activityTypeId: z.string().uuid("Invalid activity type ID").optional(),
+});
+
+const listFixturesSchema = z.object({
+  round: z.coerce.number().int().min(1).optional(),
+});
+
+const leagueNotFound = {
+  success: false,
+  error: "League not found",
+} as const;
+
+// GET /leagues - All leagues, newest first
+leaguesRouter.get(
+  "/",
+  zValidator("query", listLeaguesSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const filters = c.req.valid("query");
+
+      const leagueList = await leagueService.listLeagues(filters);
+
+      return c.json({
+        success: true,
+        data: { leagues: leagueList },
+      });
+    } catch (error) {
+      console.error("Error fetching leagues:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch leagues",
+        },
+        500
+      );
+    }
+  }
+);
+
+// POST /leagues - Start a league season, open for registration
+leaguesRouter.post(
+  "/",
+  zValidator("json", createLeagueSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const data = c.req.valid("json");
+
+      console.log(`🏆 Creating league "${data.name}" by ${user.username}`);
+
+      const created = await leagueService.createLeague(user, data);
+
+      if (!created.success) {
+        return c.json(
+          {
+            success: false,
+            error: created.error,
+          },
+          created.status
+        );
+      }
+
+      return c.json(
+        {
+          success: true,
+          data: { league: created.result },
+          message: "League created",
+        },
+        201
+      );
+    } catch (error) {
+      console.error("Error creating league:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to create league",
+        },
+        500
+      );
+    }
+  }
+);
+
+// GET /leagues/:leagueId - A league with its registered teams
+leaguesRouter.get(
+  "/:leagueId",
+  zValidator("param", leagueIdSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { leagueId } = c.req.valid("param");
+
+      const league = await leagueService.getLeague(leagueId);
+      if (!league) {
+        return c.json(leagueNotFound, 404);
+      }
+
+      const registered = await leagueService.listTeams(leagueId);
+
+      return c.json({
+        success: true,
+        data: {
+          league,
+          teams: registered,
+          isOrganiser: leagueService.isOrganiser(league, user),
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching league:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch league",
+        },
+        500
+      );
+    }
+  }
+);
+
+// POST /leagues/:leagueId/teams - Register a team (organiser, or the team's owner and captains)
+leaguesRouter.post(
+  "/:leagueId/teams",
+  zValidator("param", leagueIdSchema),
+  zValidator("json", registerLeagueTeamSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { leagueId } = c.req.valid("param");
+      const { teamId } = c.req.valid("json");
+
+      const league = await leagueService.getLeague(leagueId);
+      if (!league) {
+        return c.json(leagueNotFound, 404);
+      }
+
+      console.log(`🏆 Registering team ${teamId} in league ${league.name}`);
+
+      const registered = await leagueService.registerTeam(league, teamId, user);
+
+      if (!registered.success) {
+        return c.json(
+          {
+            success: false,
+            error: registered.error,
+          },
+          registered.status
+        );
+      }
+
+      return c.json(
+        {
+          success: true,
+          data: { registration: registered.result },
+          message: "Team registered",
+        },
+        201
+      );
+    } catch (error) {
+      console.error("Error registering league team:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to register team",
+        },
+        500
+      );
+    }
+  }
+);
+
+// DELETE /leagues/:leagueId/teams/:teamId - Withdraw a team before the fixtures are out
+leaguesRouter.delete(
+  "/:leagueId/teams/:teamId",
+  zValidator("param", leagueTeamParamSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { leagueId, teamId } = c.req.valid("param");
+
+      const league = await leagueService.getLeague(leagueId);
+      if (!league) {
+        return c.json(leagueNotFound, 404);
+      }
+
+      const withdrawn = await leagueService.withdrawTeam(league, teamId, user);
+
+      if (!withdrawn.success) {
+        return c.json(
+          {
+            success: false,
+            error: withdrawn.error,
+          },
+          withdrawn.status
+        );
+      }
+
+      return c.json({
+        success: true,
+        message: "Team withdrawn",
+      });
+    } catch (error) {
+      console.error("Error withdrawing league team:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to withdraw team",
+        },
+        500
+      );
+    }
+  }
+);
+
+// POST /leagues/:leagueId/fixtures/generate - Schedule the season and close registration (organiser)
+leaguesRouter.post(
+  "/:leagueId/fixtures/generate",
+  zValidator("param", leagueIdSchema),
+  zValidator("json", generateLeagueFixturesSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { leagueId } = c.req.valid("param");
+      const data = c.req.valid("json");
+
+      const league = await leagueService.getLeague(leagueId);
+      if (!league) {
+        return c.json(leagueNotFound, 404);
+      }
+      if (!leagueService.isOrganiser(league, user)) {
+        return c.json(
+          {
+            success: false,
+            error: "Only the league organiser can generate fixtures",
+          },
+          403
+        );
+      }
+
+      console.log(`📅 Generating ${league.format} fixtures for league ${league.name}`);
+
+      const generated = await leagueService.generateFixtures(league, user, data);
+
+      if (!generated.success) {
+        return c.json(
+          {
+            success: false,
+            error: generated.error,
+          },
+          generated.status
+        );
+      }
+
+      return c.json(
+        {
+          success: true,
+          data: generated.result,
+          message: `${generated.result.fixtures} fixtures scheduled over ${generated.result.rounds} rounds`,
+        },
+        201
+      );
+    } catch (error) {
+      console.error("Error generating league fixtures:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to generate fixtures",
+        },
+        500
+      );
+    }
+  }
+);
+
+// GET /leagues/:leagueId/fixtures - The season's fixtures with their final results
+leaguesRouter.get(
+  "/:leagueId/fixtures",
+  zValidator("param", leagueIdSchema),
+  zValidator("query", listFixturesSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const { leagueId } = c.req.valid("param");
+      const { round } = c.req.valid("query");
+
+      const league = await leagueService.getLeague(leagueId);
+      if (!league) {
+        return c.json(leagueNotFound, 404);
+      }
+
+      const fixtures = await leagueService.listFixtures(leagueId, round);
+
+      return c.json({
+        success: true,
+        data: { fixtures },
+      });
+    } catch (error) {
+      console.error("Error fetching league fixtures:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch fixtures",
+        },
+        500
+      );
+    }
+  }
+);
+
+// GET /leagues/:leagueId/standings - The league table
+leaguesRouter.get(
+  "/:leagueId/standings",
+  zValidator("param", leagueIdSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const { leagueId } = c.req.valid("param");
+
+      const league = await leagueService.getLeague(leagueId);
+      if (!league) {
+        return c.json(leagueNotFound, 404);
+      }
+
+      const standings = await leagueService.standings(league);
+
+      return c.json({
+        success: true,
+        data: {
+          league: { id: league.id, name: league.name, status: league.status },
+          pointsSystem: {
+            win: league.pointsForWin,
+            draw: league.pointsForDraw,
+            loss: league.pointsForLoss,
+          },
+          ...standings,
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching league standings:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch standings",
+        },
+        500
+      );
+    }
+  }
+);
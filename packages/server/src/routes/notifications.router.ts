@@ -3,15 +3,8 @@ import { Hono } from 'hono';
 import { zValidator } from '@hono/zod-validator';
 import { z } from 'zod';
 import { authenticateToken } from '../middleware/auth.js';
-import { db } from '../db/client.js';
-import { eq, and, desc, count, sql } from 'drizzle-orm';
-import {
-  users,
-  activities,
-  activityParticipants,
-  userConnections
-} from '../db/schema.js';
-import { paginationSchema, type Pagination } from '../db/zod.schema.js';
+import { markNotificationReadSchema, paginationSchema } from '../db/zod.schema.js';
+import { notificationService } from '../services/notification.service.js';
 
 export const notificationsRouter = new Hono();
 
@@ -20,8 +13,11 @@ const notificationIdSchema = z.object({
   notificationId: z.string().uuid('Invalid notification ID')
 });
 
-const markReadSchema = z.object({
-  read: z.boolean().default(true)
+const listNotificationsSchema = paginationSchema.extend({
+  unreadOnly: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true')
 });
 
 // GET /notifications/count - Get unread notifications count
@@ -32,72 +28,14 @@ notificationsRouter.get('/count', authenticateToken, async (c) => {
 
     console.log(`🔔 Fetching notification count for user: ${userId}`);
 
-    // Calculate notifications from various sources
-    let totalCount = 0;
+    const counts = await notificationService.getCounts(userId);
 
-    // 1. Pending activity invitations
-    const pendingInvitations = await db
-      .select({ count: count() })
-      .from(activityParticipants)
-      .innerJoin(activities, eq(activities.id, activityParticipants.activityId))
-      .where(
-        and(
-          eq(activityParticipants.userId, userId),
-          eq(activityParticipants.status, 'pending'),
-          // Only count future activities
-          sql`${activities.dateTime} > NOW()`
-        )
-      );
-
-    totalCount += pendingInvitations[0]?.count || 0;
-
-    // 2. Pending friend requests
-    const pendingFriendRequests = await db
-      .select({ count: count() })
-      .from(userConnections)
-      .where(
-        and(
-          eq(userConnections.user2Id, userId), // Received requests
-          eq(userConnections.status, 'pending')
-        )
-      );
-
-    totalCount += pendingFriendRequests[0]?.count || 0;
-
-    // 3. Recent completed activities needing skill ratings (last 7 days)
-    const sevenDaysAgo = new Date();
-    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-
-    const completedActivitiesNeedingRatings = await db
-      .select({ count: count() })
-      .from(activityParticipants)
-      .innerJoin(activities, eq(activities.id, activityParticipants.activityId))
-      .where(
-        and(
-          eq(activityParticipants.userId, userId),
-          eq(activities.completionStatus, 'completed'),
-          sql`${activities.dateTime} >= ${sevenDaysAgo.toISOString()}`,
-          // User hasn't submitted ratings yet
-          sql`NOT EXISTS(
-            SELECT 1 FROM user_activity_skill_ratings 
-            WHERE rating_user_id = ${userId} 
-            AND activity_id = ${activities.id}
-          )`
-        )
-      );
-
-    totalCount += completedActivitiesNeedingRatings[0]?.count || 0;
-
-    console.log(`✅ Total notification count: ${totalCount}`);
+    console.log(`✅ Unread notification count: ${counts.unread}`);
 
     return c.json({
       success: true,
-      data: { count: totalCount },
-      breakdown: {
-        pendingInvitations: pendingInvitations[0]?.count || 0,
-        pendingFriendRequests: pendingFriendRequests[0]?.count || 0,
-        ratingsNeeded: completedActivitiesNeedingRatings[0]?.count || 0
-      }
+      data: { count: counts.unread, unseen: counts.unseen },
+      breakdown: counts.byType
     });
 
   } catch (error) {
@@ -112,130 +50,48 @@ notificationsRouter.get('/count', authenticateToken, async (c) => {
 // GET /notifications - Get paginated notifications
 notificationsRouter.get(
   '/',
-  zValidator('query', paginationSchema),
+  zValidator('query', listNotificationsSchema),
   authenticateToken,
   async (c) => {
     try {
       const user = c.get('user');
       const userId = user.id;
-      const { page, limit } = c.req.valid('query') as Pagination;
+      const { page, limit, unreadOnly } = c.req.valid('query');
 
       console.log(`📋 Fetching notifications for user: ${userId}, page: ${page}, limit: ${limit}`);
 
-      const offset = (page - 1) * limit;
-      const notifications: any[] = [];
-
-      // 1. Get pending activity invitations
-      const pendingInvitations = await db
-        .select({
-          type: sql<string>`'activity_invitation'`,
-          id: activityParticipants.id,
-          title: sql<string>`'Activity Invitation'`,
-          message: sql<string>`CONCAT('You have been invited to ', ${activities.description})`,
-          createdAt: activityParticipants.joinedAt,
-          isRead: sql<boolean>`false`,
-          relatedId: activities.id,
-          relatedData: sql<any>`JSON_BUILD_OBJECT(
-            'activityId', ${activities.id},
-            'description', ${activities.description},
-            'location', ${activities.location},
-            'dateTime', ${activities.dateTime},
-            'creatorUsername', ${users.username}
-          )`
-        })
-        .from(activityParticipants)
-        .innerJoin(activities, eq(activities.id, activityParticipants.activityId))
-        .innerJoin(users, eq(users.id, activities.creatorId))
-        .where(
-          and(
-            eq(activityParticipants.userId, userId),
-            eq(activityParticipants.status, 'pending'),
-            // Only count future activities
-            sql`${activities.dateTime} > NOW()`
-          )
-        );
-
-      notifications.push(...pendingInvitations);
-
-      // 2. Get pending friend requests
-      const pendingFriendRequests = await db
-        .select({
-          type: sql<string>`'friend_request'`,
-          id: userConnections.id,
-          title: sql<string>`'Friend Request'`,
-          message: sql<string>`CONCAT(${users.username}, ' wants to connect with you')`,
-          createdAt: userConnections.createdAt,
-          isRead: sql<boolean>`false`,
-          relatedId: userConnections.user1Id,
-          relatedData: sql<any>`JSON_BUILD_OBJECT(
-            'requesterId', ${userConnections.user1Id},
-            'requesterUsername', ${users.username},
-            'requesterAvatarUrl', ${users.avatarUrl}
-          )`
-        })
-        .from(userConnections)
-        .innerJoin(users, eq(users.id, userConnections.user1Id))
-        .where(
-          and(
-            eq(userConnections.user2Id, userId),
-            eq(userConnections.status, 'pending')
-          )
-        );
-
-      notifications.push(...pendingFriendRequests);
-
-      // 3. Get completed activities needing ratings
-      const sevenDaysAgo = new Date();
-      sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-
-      const ratingsNeeded = await db
-        .select({
-          type: sql<string>`'rating_needed'`,
-          id: activities.id,
-          title: sql<string>`'Rate Your Teammates'`,
-          message: sql<string>`CONCAT('Please rate your teammates for: ', ${activities.description})`,
-          createdAt: activities.updatedAt,
-          isRead: sql<boolean>`false`,
-          relatedId: activities.id,
-          relatedData: sql<any>`JSON_BUILD_OBJECT(
-            'activityId', ${activities.id},
-            'description', ${activities.description},
-            'completedAt', ${activities.updatedAt}
-          )`
-        })
-        .from(activities)
-        .innerJoin(activityParticipants, eq(activityParticipants.activityId, activities.id))
-        .where(
-          and(
-            eq(activityParticipants.userId, userId),
-            eq(activities.completionStatus, 'completed'),
-            sql`${activities.dateTime} >= ${sevenDaysAgo.toISOString()}`,
-            // User hasn't submitted ratings yet
-            sql`NOT EXISTS(
-              SELECT 1 FROM user_activity_skill_ratings 
-              WHERE rating_user_id = ${userId} 
-              AND activity_id = ${activities.id}
-            )`
-          )
-        );
-
-      notifications.push(...ratingsNeeded);
-
-      // Sort by creation date (newest first) and paginate
-      const sortedNotifications = notifications
-        .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-        .slice(offset, offset + limit);
+      const { notifications, total } = await notificationService.list(userId, {
+        page,
+        limit,
+        unreadOnly
+      });
 
-      const totalCount = notifications.length;
+      // Listing the inbox clears the "new" badge, not the unread state
+      await notificationService.markSeen(
+        userId,
+        notifications.filter((n) => !n.seenAt).map((n) => n.id)
+      );
 
       return c.json({
         success: true,
-        data: sortedNotifications,
+        data: notifications.map((notification) => ({
+          id: notification.id,
+          type: notification.type,
+          title: notification.title,
+          message: notification.message,
+          createdAt: notification.createdAt,
+          isRead: notification.readAt !== null,
+          readAt: notification.readAt,
+          seenAt: notification.seenAt,
+          relatedId: notification.relatedEntityId,
+          data: notification.payload,
+          linkUrl: notification.linkUrl
+        })),
         pagination: {
           page,
           limit,
-          total: totalCount,
-          totalPages: Math.ceil(totalCount / limit)
+          total,
+          totalPages: Math.ceil(total / limit)
         }
       });
 
@@ -253,21 +109,38 @@ notificationsRouter.get(
 notificationsRouter.post(
   '/:notificationId/read',
   zValidator('param', notificationIdSchema),
-  zValidator('json', markReadSchema),
   authenticateToken,
   async (c) => {
     try {
       const { notificationId } = c.req.valid('param');
-      const { read } = c.req.valid('json');
       const user = c.get('user');
 
+      // The body is optional - clients may POST without one to mark as read
+      const body = await c.req.json().catch(() => ({}));
+      const parsed = markNotificationReadSchema.safeParse(body);
+      if (!parsed.success) {
+        return c.json({
+          success: false,
+          error: 'Invalid request body',
+          details: parsed.error.errors
+        }, 400);
+      }
+      const { read } = parsed.data;
+
       console.log(`📧 Marking notification ${notificationId} as ${read ? 'read' : 'unread'} for user: ${user.username}`);
 
-      // For this simple implementation, we'll just return success
-      // In a real app, you'd store notification read status in the database
-      
+      const notification = await notificationService.markRead(user.id, notificationId, read);
+
+      if (!notification) {
+        return c.json({
+          success: false,
+          error: 'Notification not found'
+        }, 404);
+      }
+
       return c.json({
         success: true,
+        data: notification,
         message: `Notification marked as ${read ? 'read' : 'unread'}`
       });
 
@@ -288,11 +161,11 @@ notificationsRouter.post('/read-all', authenticateToken, async (c) => {
 
     console.log(`📧 Marking all notifications as read for user: ${user.username}`);
 
-    // For this simple implementation, we'll just return success
-    // In a real app, you'd update all notification read statuses in the database
-    
+    const updated = await notificationService.markAllRead(user.id);
+
     return c.json({
       success: true,
+      data: { updated },
       message: 'All notifications marked as read'
     });
 
@@ -303,4 +176,4 @@ notificationsRouter.post('/read-all', authenticateToken, async (c) => {
       error: 'Failed to mark all notifications as read' 
     }, 500);
   }
-});
+});
\ No newline at end of file
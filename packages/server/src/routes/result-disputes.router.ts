@@ -0,0 +1,110 @@
+// src/routes/result-disputes.router.ts - Moderator queue for disputed activity results
+import { zValidator } from "@hono/zod-validator";
+import { Hono } from "hono";
+import { z } from "zod";
+import { resolveResultDisputeSchema } from "../db/zod.schema.js";
+import { authenticateToken, type User } from "../middleware/auth.js";
+import { activityResultsService } from "../services/activity-results.service.js";
+
+export const resultDisputesRouter = new Hono();
+
+const submissionIdSchema = z.object({
+  id: z.string().uuid("Invalid submission ID"),
+});
+
+const canModerate = (user: User) =>
+  user.role === "moderator" || user.role === "admin";
+
+// GET /result-disputes - Disputed results waiting for a decision
+resultDisputesRouter.get("/", authenticateToken, async (c) => {
+  try {
+    const user = c.get("user");
+
+    if (!canModerate(user)) {
+      return c.json(
+        {
+          success: false,
+          error: "Only moderators can review disputed results",
+        },
+        403
+      );
+    }
+
+    const disputes = await activityResultsService.getDisputeQueue();
+
+    return c.json({
+      success: true,
+      data: { disputes },
+    });
+  } catch (error) {
+    console.error("Error fetching result disputes:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch result disputes",
+      },
+      500
+    );
+  }
+});
+
+// POST /result-disputes/:id/resolve - Uphold, amend or void disputed results
+resultDisputesRouter.post(
+  "/:id/resolve",
+  zValidator("param", submissionIdSchema),
+  zValidator("json", resolveResultDisputeSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { id } = c.req.valid("param");
+      const resolution = c.req.valid("json");
+
+      if (!canModerate(user)) {
+        return c.json(
+          {
+            success: false,
+            error: "Only moderators can resolve disputed results",
+          },
+          403
+        );
+      }
+
+      const outcome = await activityResultsService.resolveDispute(
+        id,
+        user.id,
+        resolution
+      );
+
+      if (!outcome.success) {
+        return c.json(
+          {
+            success: false,
+            error: outcome.error,
+          },
+          outcome.status
+        );
+      }
+
+      const { submission, eloProcessing } = outcome.result;
+
+      return c.json({
+        success: true,
+        data: {
+          submission,
+          eloProcessing,
+        },
+        message: "Dispute resolved",
+      });
+    } catch (error) {
+      console.error("Error resolving result dispute:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to resolve dispute",
+        },
+        500
+      );
+    }
+  }
+);
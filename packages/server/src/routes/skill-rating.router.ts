@@ -1,7 +1,7 @@
 // src/routes/skill-rating.router.ts - Complete implementation using existing service methods
 
 import { zValidator } from '@hono/zod-validator';
-import { and, desc, eq, or, sql } from 'drizzle-orm';
+import { and, desc, eq, gte, or, sql } from 'drizzle-orm';
 import { Hono } from 'hono';
 import { z } from 'zod';
 import { db } from '../db/client.js';
@@ -38,6 +38,13 @@ const getUserRatingsSchema = z.object({
   limit: z.number().int().min(1).max(50).default(20),
 });
 
+const getSkillHistorySchema = z.object({
+  skillDefinitionId: z.string().uuid('Invalid skill definition ID'),
+  activityTypeId: z.string().uuid('Invalid activity type ID').optional(),
+  bucket: z.enum(['day', 'week']).default('day'),
+  days: z.coerce.number().int().min(1).max(730).default(90),
+});
+
 const getActivityRatingsSchema = z.object({
   page: z.number().int().min(1).default(1),
   limit: z.number().int().min(1).max(50).default(20),
@@ -191,6 +198,65 @@ skillRatingRouter.get('/user/:userId',
   }
 );
 
+// GET /skill-ratings/user/:userId/history - Average rating of one skill over time, bucketed by day or week
+skillRatingRouter.get('/user/:userId/history',
+  authenticateToken,
+  zValidator('query', getSkillHistorySchema),
+  async (c) => {
+    try {
+      const userId = c.req.param('userId');
+      const { skillDefinitionId, activityTypeId, bucket, days } = c.req.valid('query');
+
+      console.log(`📈 Getting skill history for user ${userId}, bucket: ${bucket}, days: ${days}`);
+
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      const conditions = [
+        eq(userActivitySkillRatings.ratedUserId, userId),
+        eq(userActivitySkillRatings.skillDefinitionId, skillDefinitionId),
+        gte(userActivitySkillRatings.createdAt, since),
+      ];
+      if (activityTypeId) {
+        conditions.push(eq(activities.activityTypeId, activityTypeId));
+      }
+
+      // bucket is validated against the enum, so it is safe to inline
+      const bucketStart = sql<Date>`date_trunc('${sql.raw(bucket)}', ${userActivitySkillRatings.createdAt})`;
+
+      const points = await db
+        .select({
+          bucketStart: bucketStart.as('bucket_start'),
+          averageRating: sql<number>`round(avg(${userActivitySkillRatings.ratingValue}), 2)::float`,
+          ratingsCount: sql<number>`count(${userActivitySkillRatings.id})::int`,
+        })
+        .from(userActivitySkillRatings)
+        .innerJoin(activities, eq(userActivitySkillRatings.activityId, activities.id))
+        .where(and(...conditions))
+        .groupBy(bucketStart)
+        .orderBy(bucketStart);
+
+      return c.json({
+        success: true,
+        data: {
+          userId,
+          skillDefinitionId,
+          bucket,
+          days,
+          history: points.map((point) => ({
+            ...point,
+            bucketStart: new Date(point.bucketStart).toISOString(),
+          })),
+        },
+      });
+    } catch (error) {
+      console.error("Error getting skill history:", error);
+      return c.json({
+        success: false,
+        error: "Failed to get skill history",
+      }, 500);
+    }
+  }
+);
+
 // GET /skill-ratings/activity/:activityId - Get all ratings for an activity
 skillRatingRouter.get('/activity/:activityId',
   authenticateToken,
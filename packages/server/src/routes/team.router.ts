@@ -1,7 +1,7 @@
 // src/routes/teams.router.ts - Complete implementation for team management
 
 import { zValidator } from "@hono/zod-validator";
-import { and, asc, avg, count, desc, eq, or, sql } from "drizzle-orm";
+import { and, asc, avg, count, desc, eq, inArray, or, sql } from "drizzle-orm";
 import { Hono } from "hono";
 import { z } from "zod";
 import { db } from "../db/client.js";
@@ -12,9 +12,22 @@ import {
   userActivityTypeELOs,
   users,
 } from "../db/schema.js";
-import { updateTeamSchema } from "../db/zod.schema.js";
+import {
+  addTeamMemberSchema,
+  createTeamInvitationSchema,
+  createTeamJoinRequestSchema,
+  respondTeamInvitationSchema,
+  respondTeamJoinRequestSchema,
+  transferTeamOwnershipSchema,
+  updateTeamMemberRoleSchema,
+  updateTeamSchema,
+} from "../db/zod.schema.js";
 import { authenticateToken } from "../middleware/auth.js";
 import { deltaTrackingService } from "../services/delta-tracking.service.js";
+import { resolveActivityELOSettings } from "../services/elo-calc.service.js";
+import { getRatingStrategy } from "../services/rating-strategy.service.js";
+import { teamEloService } from "../services/team-elo.service.js";
+import { canRemoveMember, teamService } from "../services/team.service.js";
 
 export const teamsRouter = new Hono();
 
@@ -32,23 +45,41 @@ const createTeamSchema = z.object({
   initialMembers: z.array(z.string().uuid()).optional().default([]),
 });
 
+// Query strings carry booleans and numbers as text
+const queryFlag = z
+  .enum(["true", "false"])
+  .transform((value) => value === "true");
+
 const getTeamsSchema = z.object({
-  includeMembers: z.boolean().default(false),
-  includeStats: z.boolean().default(false),
+  includeMembers: queryFlag.default("false"),
+  includeStats: queryFlag.default("false"),
   activityTypeId: z.string().uuid("Invalid activity type ID").optional(),
-  isPrivate: z.boolean().optional(),
-  limit: z.number().int().min(1).max(50).default(20),
-  offset: z.number().int().min(0).default(0),
+  isPrivate: queryFlag.optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
   search: z.string().optional(),
 });
 
-const manageMemberSchema = z.object({
-  userId: z.string().uuid("Invalid user ID"),
-  role: z.string().max(50).default("member"),
+const teamLeaderboardSchema = z.object({
+  activityTypeId: z.string().uuid("Invalid activity type ID"),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+const teamIdSchema = z.object({
+  teamId: z.string().uuid("Invalid team ID"),
+});
+
+const joinRequestParamsSchema = teamIdSchema.extend({
+  requestId: z.string().uuid("Invalid join request ID"),
+});
+
+const teamInvitationParamsSchema = teamIdSchema.extend({
+  invitationId: z.string().uuid("Invalid invitation ID"),
 });
 
-const updateMemberRoleSchema = z.object({
-  role: z.string().max(50),
+const invitationIdSchema = z.object({
+  invitationId: z.string().uuid("Invalid invitation ID"),
 });
 
 // POST /teams - Create a new team
@@ -108,11 +139,11 @@ teamsRouter.post(
         })
         .returning();
 
-      // Add creator as admin member
+      // The creator owns the team
       await db.insert(teamMembers).values({
         teamId: newTeam.id,
         userId: user.id,
-        role: "admin",
+        role: "owner",
       });
 
       // Add initial members if provided
@@ -122,7 +153,7 @@ teamsRouter.post(
           .map((memberId) => ({
             teamId: newTeam.id,
             userId: memberId,
-            role: "member",
+            role: "member" as const,
           }));
 
         if (memberValues.length > 0) {
@@ -302,6 +333,74 @@ teamsRouter.get("/", zValidator("query", getTeamsSchema), async (c) => {
   }
 });
 
+// GET /teams/leaderboard - Teams ranked by their fixture rating for an activity type
+teamsRouter.get(
+  "/leaderboard",
+  zValidator("query", teamLeaderboardSchema),
+  async (c) => {
+    try {
+      const { activityTypeId, limit, offset } = c.req.valid("query");
+
+      console.log(`🏆 Getting team leaderboard for activity type: ${activityTypeId}`);
+
+      const activityType = await db.query.activityTypes.findFirst({
+        where: eq(activityTypes.id, activityTypeId),
+      });
+
+      if (!activityType) {
+        return c.json(
+          {
+            success: false,
+            error: "Activity type not found",
+          },
+          404
+        );
+      }
+
+      const { entries, total } = await teamEloService.leaderboard(activityTypeId, {
+        limit,
+        offset,
+      });
+
+      const eloSettings = resolveActivityELOSettings(
+        activityType.defaultELOSettings,
+        activityType.category
+      );
+      const ratingStrategy = getRatingStrategy(eloSettings);
+
+      return c.json({
+        success: true,
+        data: {
+          activityType: {
+            id: activityType.id,
+            name: activityType.name,
+            ratingSystem: eloSettings.ratingSystem,
+          },
+          leaderboard: entries.map((entry) => ({
+            ...entry,
+            isProvisional: ratingStrategy.isProvisional(entry, eloSettings),
+          })),
+          pagination: {
+            limit,
+            offset,
+            totalTeams: total,
+            hasMore: offset + entries.length < total,
+          },
+        },
+      });
+    } catch (error) {
+      console.error("Error getting team leaderboard:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to get team leaderboard",
+        },
+        500
+      );
+    }
+  }
+);
+
 // GET /teams/:teamId - Get specific team details
 teamsRouter.get("/:teamId", async (c) => {
   try {
@@ -362,7 +461,7 @@ teamsRouter.get("/:teamId", async (c) => {
         .from(userActivityTypeELOs)
         .where(
           and(
-            sql`${userActivityTypeELOs.userId} = ANY(${memberIds})`,
+            inArray(userActivityTypeELOs.userId, memberIds),
             eq(userActivityTypeELOs.activityTypeId, team.activityTypeId)
           )
         );
@@ -405,12 +504,9 @@ teamsRouter.put(
 
       console.log(`✏️ ${user.username} updating team: ${teamId}`);
 
-      // Get team and verify permissions
-      const team = await db.query.teams.findFirst({
-        where: eq(teams.id, teamId),
-      });
+      const access = await teamService.access(teamId, user);
 
-      if (!team) {
+      if (!access) {
         return c.json(
           {
             success: false,
@@ -420,20 +516,13 @@ teamsRouter.put(
         );
       }
 
-      // Check if user is team admin
-      const membership = await db.query.teamMembers.findFirst({
-        where: and(
-          eq(teamMembers.teamId, teamId),
-          eq(teamMembers.userId, user.id),
-          eq(teamMembers.role, "admin")
-        ),
-      });
+      const { team } = access;
 
-      if (!membership && team.creatorId !== user.id && user.role !== "admin") {
+      if (!access.canManage) {
         return c.json(
           {
             success: false,
-            error: "Access denied. Only team admins can update team settings.",
+            error: "Access denied. Only the team owner and captains can update team settings.",
           },
           403
         );
@@ -503,12 +592,9 @@ teamsRouter.delete("/:teamId", authenticateToken, async (c) => {
 
     console.log(`🗑️ ${user.username} deleting team: ${teamId}`);
 
-    // Get team and verify permissions
-    const team = await db.query.teams.findFirst({
-      where: eq(teams.id, teamId),
-    });
+    const access = await teamService.access(teamId, user);
 
-    if (!team) {
+    if (!access) {
       return c.json(
         {
           success: false,
@@ -518,13 +604,15 @@ teamsRouter.delete("/:teamId", authenticateToken, async (c) => {
       );
     }
 
-    // Only creator or global admin can delete team
-    if (team.creatorId !== user.id && user.role !== "admin") {
+    const { team } = access;
+
+    // Only the owner or a site admin can delete the team
+    if (!access.canOwn) {
       return c.json(
         {
           success: false,
           error:
-            "Access denied. Only the team creator or admin can delete the team.",
+            "Access denied. Only the team owner or admin can delete the team.",
         },
         403
       );
@@ -559,11 +647,11 @@ teamsRouter.delete("/:teamId", authenticateToken, async (c) => {
   }
 });
 
-// POST /teams/:teamId/members - Add member to team (admin only)
+// POST /teams/:teamId/members - Add member to team (owner and captains)
 teamsRouter.post(
   "/:teamId/members",
   authenticateToken,
-  zValidator("json", manageMemberSchema),
+  zValidator("json", addTeamMemberSchema),
   async (c) => {
     try {
       const user = c.get("user");
@@ -572,12 +660,9 @@ teamsRouter.post(
 
       console.log(`➕ ${user.username} adding member to team: ${teamId}`);
 
-      // Get team and verify permissions
-      const team = await db.query.teams.findFirst({
-        where: eq(teams.id, teamId),
-      });
+      const access = await teamService.access(teamId, user);
 
-      if (!team) {
+      if (!access) {
         return c.json(
           {
             success: false,
@@ -587,32 +672,30 @@ teamsRouter.post(
         );
       }
 
-      // Check if user is team admin
-      const membership = await db.query.teamMembers.findFirst({
-        where: and(
-          eq(teamMembers.teamId, teamId),
-          eq(teamMembers.userId, user.id),
-          eq(teamMembers.role, "admin")
-        ),
-      });
+      const { team } = access;
+
+      if (!access.canManage) {
+        return c.json(
+          {
+            success: false,
+            error: "Access denied. Only the team owner and captains can add members.",
+          },
+          403
+        );
+      }
 
-      if (!membership && team.creatorId !== user.id && user.role !== "admin") {
+      if (role === "captain" && !access.canOwn) {
         return c.json(
           {
             success: false,
-            error: "Access denied. Only team admins can add members.",
+            error: "Only the team owner can appoint captains",
           },
           403
         );
       }
 
       // Check if user is already a member
-      const existingMembership = await db.query.teamMembers.findFirst({
-        where: and(
-          eq(teamMembers.teamId, teamId),
-          eq(teamMembers.userId, newMemberId)
-        ),
-      });
+      const existingMembership = await teamService.membershipOf(teamId, newMemberId);
 
       if (existingMembership) {
         return c.json(
@@ -639,44 +722,17 @@ teamsRouter.post(
         );
       }
 
-      // Check team capacity
-      if (team.maxMembers) {
-        const currentMemberCount = await db
-          .select({ count: count(teamMembers.userId) })
-          .from(teamMembers)
-          .where(eq(teamMembers.teamId, teamId));
-
-        if (currentMemberCount[0].count >= team.maxMembers) {
-          return c.json(
-            {
-              success: false,
-              error: "Team has reached maximum member capacity",
-            },
-            400
-          );
-        }
+      if (await teamService.isFull(team)) {
+        return c.json(
+          {
+            success: false,
+            error: "Team has reached maximum member capacity",
+          },
+          400
+        );
       }
 
-      // Add the member
-      const [newMembership] = await db
-        .insert(teamMembers)
-        .values({
-          teamId,
-          userId: newMemberId,
-          role,
-        })
-        .returning();
-
-      // Track the change
-      await deltaTrackingService.trackChange({
-        entityType: "team_member",
-        entityId: newMembership.id,
-        changeType: "create",
-        newData: newMembership,
-        affectedUserId: newMemberId,
-        relatedEntityId: teamId,
-        triggeredBy: user.id,
-      });
+      const newMembership = await teamService.addMember(team, newMemberId, user.id, role);
 
       return c.json({
         success: true,
@@ -700,11 +756,11 @@ teamsRouter.post(
   }
 );
 
-// PUT /teams/:teamId/members/:userId - Update member role (admin only)
+// PUT /teams/:teamId/members/:userId - Make a member captain or back (owner only)
 teamsRouter.put(
   "/:teamId/members/:userId",
   authenticateToken,
-  zValidator("json", updateMemberRoleSchema),
+  zValidator("json", updateTeamMemberRoleSchema),
   async (c) => {
     try {
       const user = c.get("user");
@@ -716,12 +772,9 @@ teamsRouter.put(
         `✏️ ${user.username} updating member role in team: ${teamId}`
       );
 
-      // Get team and verify permissions
-      const team = await db.query.teams.findFirst({
-        where: eq(teams.id, teamId),
-      });
+      const access = await teamService.access(teamId, user);
 
-      if (!team) {
+      if (!access) {
         return c.json(
           {
             success: false,
@@ -731,84 +784,109 @@ teamsRouter.put(
         );
       }
 
-      // Check if user is team admin or creator
-      const membership = await db.query.teamMembers.findFirst({
-        where: and(
-          eq(teamMembers.teamId, teamId),
-          eq(teamMembers.userId, user.id),
-          eq(teamMembers.role, "admin")
-        ),
-      });
-
-      if (!membership && team.creatorId !== user.id && user.role !== "admin") {
+      if (!access.canOwn) {
         return c.json(
           {
             success: false,
-            error: "Access denied. Only team admins can update member roles.",
+            error: "Access denied. Only the team owner can change member roles.",
           },
           403
         );
       }
 
-      // Get target member
-      const targetMembership = await db.query.teamMembers.findFirst({
-        where: and(
-          eq(teamMembers.teamId, teamId),
-          eq(teamMembers.userId, targetUserId)
-        ),
+      const updated = await teamService.setRole(access.team, targetUserId, role, user.id);
+
+      if (!updated.success) {
+        return c.json(
+          {
+            success: false,
+            error: updated.error,
+          },
+          updated.status
+        );
+      }
+
+      return c.json({
+        success: true,
+        data: updated.result,
+        message: "Member role updated successfully",
       });
+    } catch (error) {
+      console.error("Error updating member role:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to update member role",
+        },
+        500
+      );
+    }
+  }
+);
+
+// POST /teams/:teamId/transfer-ownership - Hand the team to another member (owner only)
+teamsRouter.post(
+  "/:teamId/transfer-ownership",
+  authenticateToken,
+  zValidator("param", teamIdSchema),
+  zValidator("json", transferTeamOwnershipSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { teamId } = c.req.valid("param");
+      const { userId: newOwnerId } = c.req.valid("json");
+
+      console.log(`👑 ${user.username} transferring ownership of team: ${teamId}`);
 
-      if (!targetMembership) {
+      const access = await teamService.access(teamId, user);
+
+      if (!access) {
         return c.json(
           {
             success: false,
-            error: "User is not a member of this team",
+            error: "Team not found",
           },
           404
         );
       }
 
-      // Prevent creator from being demoted (unless by global admin)
-      if (team.creatorId === targetUserId && user.role !== "admin") {
+      if (!access.canOwn) {
         return c.json(
           {
             success: false,
-            error: "Cannot change the role of the team creator",
+            error: "Access denied. Only the team owner can transfer ownership.",
           },
           403
         );
       }
 
-      // Update member role
-      const [updatedMembership] = await db
-        .update(teamMembers)
-        .set({ role })
-        .where(eq(teamMembers.id, targetMembership.id))
-        .returning();
+      const transferred = await teamService.transferOwnership(
+        access.team,
+        newOwnerId,
+        user.id
+      );
 
-      // Track the change
-      await deltaTrackingService.trackChange({
-        entityType: "team_member",
-        entityId: targetMembership.id,
-        changeType: "update",
-        previousData: targetMembership,
-        newData: updatedMembership,
-        affectedUserId: targetUserId,
-        relatedEntityId: teamId,
-        triggeredBy: user.id,
-      });
+      if (!transferred.success) {
+        return c.json(
+          {
+            success: false,
+            error: transferred.error,
+          },
+          transferred.status
+        );
+      }
 
       return c.json({
         success: true,
-        data: updatedMembership,
-        message: "Member role updated successfully",
+        data: transferred.result,
+        message: "Ownership transferred successfully",
       });
     } catch (error) {
-      console.error("Error updating member role:", error);
+      console.error("Error transferring team ownership:", error);
       return c.json(
         {
           success: false,
-          error: "Failed to update member role",
+          error: "Failed to transfer ownership",
         },
         500
       );
@@ -816,7 +894,7 @@ teamsRouter.put(
   }
 );
 
-// DELETE /teams/:teamId/members/:userId - Remove member from team
+// DELETE /teams/:teamId/members/:userId - Remove member from team, or leave it
 teamsRouter.delete("/:teamId/members/:userId", authenticateToken, async (c) => {
   try {
     const user = c.get("user");
@@ -825,12 +903,9 @@ teamsRouter.delete("/:teamId/members/:userId", authenticateToken, async (c) => {
 
     console.log(`❌ ${user.username} removing member from team: ${teamId}`);
 
-    // Get team
-    const team = await db.query.teams.findFirst({
-      where: eq(teams.id, teamId),
-    });
+    const access = await teamService.access(teamId, user);
 
-    if (!team) {
+    if (!access) {
       return c.json(
         {
           success: false,
@@ -841,12 +916,7 @@ teamsRouter.delete("/:teamId/members/:userId", authenticateToken, async (c) => {
     }
 
     // Get target membership
-    const targetMembership = await db.query.teamMembers.findFirst({
-      where: and(
-        eq(teamMembers.teamId, teamId),
-        eq(teamMembers.userId, targetUserId)
-      ),
-    });
+    const targetMembership = await teamService.membershipOf(teamId, targetUserId);
 
     if (!targetMembership) {
       return c.json(
@@ -858,75 +928,37 @@ teamsRouter.delete("/:teamId/members/:userId", authenticateToken, async (c) => {
       );
     }
 
-    // Check permissions: self-removal, admin removal, or creator
-    const canRemove = targetUserId === user.id; // Self-removal (leaving)
-
-    if (!canRemove) {
-      // Check if current user is team admin or creator
-      const userMembership = await db.query.teamMembers.findFirst({
-        where: and(
-          eq(teamMembers.teamId, teamId),
-          eq(teamMembers.userId, user.id),
-          eq(teamMembers.role, "admin")
-        ),
-      });
-
-      const isCreatorOrAdmin =
-        team.creatorId === user.id || user.role === "admin" || userMembership;
-
-      if (!isCreatorOrAdmin) {
-        return c.json(
-          {
-            success: false,
-            error: "Access denied. Only team admins can remove other members.",
-          },
-          403
-        );
-      }
+    // A team is never left without an owner
+    if (targetMembership.role === "owner") {
+      return c.json(
+        {
+          success: false,
+          error:
+            targetUserId === user.id
+              ? "Transfer ownership or delete the team before leaving it"
+              : "The team owner can't be removed - transfer ownership first",
+        },
+        400
+      );
     }
 
-    // Prevent creator from being removed (unless by global admin)
-    if (
-      team.creatorId === targetUserId &&
-      user.role !== "admin" &&
-      targetUserId !== user.id
-    ) {
+    // Anyone can leave; removing others depends on the roles involved
+    const canRemove =
+      targetUserId === user.id ||
+      user.role === "admin" ||
+      (!!access.membership &&
+        canRemoveMember(access.membership.role, targetMembership.role));
+
+    if (!canRemove) {
       return c.json(
         {
           success: false,
-          error: "Cannot remove the team creator",
+          error: "Access denied. Captains can only remove members; the owner can remove anyone.",
         },
         403
       );
     }
 
-    // If creator is leaving, transfer ownership to another admin if possible
-    if (team.creatorId === targetUserId && targetUserId === user.id) {
-      const otherAdmins = await db
-        .select({
-          userId: teamMembers.userId,
-          username: users.username,
-        })
-        .from(teamMembers)
-        .leftJoin(users, eq(teamMembers.userId, users.id))
-        .where(
-          and(
-            eq(teamMembers.teamId, teamId),
-            eq(teamMembers.role, "admin"),
-            sql`${teamMembers.userId} != ${targetUserId}`
-          )
-        )
-        .limit(1);
-
-      if (otherAdmins.length > 0) {
-        // Transfer ownership to another admin
-        await db
-          .update(teams)
-          .set({ creatorId: otherAdmins[0].userId })
-          .where(eq(teams.id, teamId));
-      }
-    }
-
     // Remove the member
     await db.delete(teamMembers).where(eq(teamMembers.id, targetMembership.id));
 
@@ -999,7 +1031,7 @@ teamsRouter.get("/:teamId/statistics", async (c) => {
     let statistics: any = {
       memberCount: members.length,
       roles: {
-        admins: members.filter((m) => m.role === "admin").length,
+        captains: members.filter((m) => m.role === "captain").length,
         members: members.filter((m) => m.role === "member").length,
       },
     };
@@ -1017,7 +1049,7 @@ teamsRouter.get("/:teamId/statistics", async (c) => {
         .from(userActivityTypeELOs)
         .where(
           and(
-            sql`${userActivityTypeELOs.userId} = ANY(${memberIds})`,
+            inArray(userActivityTypeELOs.userId, memberIds),
             eq(userActivityTypeELOs.activityTypeId, team.activityTypeId)
           )
         );
@@ -1037,7 +1069,7 @@ teamsRouter.get("/:teamId/statistics", async (c) => {
         .leftJoin(users, eq(userActivityTypeELOs.userId, users.id))
         .where(
           and(
-            sql`${userActivityTypeELOs.userId} = ANY(${memberIds})`,
+            inArray(userActivityTypeELOs.userId, memberIds),
             eq(userActivityTypeELOs.activityTypeId, team.activityTypeId)
           )
         )
@@ -1046,6 +1078,9 @@ teamsRouter.get("/:teamId/statistics", async (c) => {
       statistics.memberELOs = memberELOs;
     }
 
+    // The team's own ratings from fixtures, with their recent trend
+    statistics.teamRatings = await teamEloService.ratingTrends(teamId);
+
     // Get activity type info
     if (team.activityTypeId) {
       const activityType = await db.query.activityTypes.findFirst({
@@ -1137,7 +1172,9 @@ teamsRouter.get("/user/:userId", async (c) => {
         teams: enhancedTeams,
         summary: {
           totalTeams: enhancedTeams.length,
-          adminRoles: enhancedTeams.filter((t) => t.userRole === "admin")
+          ownedTeams: enhancedTeams.filter((t) => t.userRole === "owner")
+            .length,
+          captainRoles: enhancedTeams.filter((t) => t.userRole === "captain")
             .length,
           memberRoles: enhancedTeams.filter((t) => t.userRole === "member")
             .length,
@@ -1156,114 +1193,506 @@ teamsRouter.get("/user/:userId", async (c) => {
   }
 });
 
-// POST /teams/:teamId/join-request - Request to join team (for private teams)
-teamsRouter.post("/:teamId/join-request", authenticateToken, async (c) => {
+// GET /teams/me/invitations - Invitations waiting on the current user
+teamsRouter.get("/me/invitations", authenticateToken, async (c) => {
   try {
     const user = c.get("user");
-    const teamId = c.req.param("teamId");
 
-    console.log(`📝 ${user.username} requesting to join team: ${teamId}`);
+    const invitations = await teamService.listUserInvitations(user.id);
 
-    // Get team
-    const team = await db.query.teams.findFirst({
-      where: eq(teams.id, teamId),
+    return c.json({
+      success: true,
+      data: { invitations },
     });
+  } catch (error) {
+    console.error("Error getting team invitations:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to get team invitations",
+      },
+      500
+    );
+  }
+});
 
-    if (!team) {
-      return c.json(
-        {
-          success: false,
-          error: "Team not found",
-        },
-        404
-      );
-    }
-
-    // Check if user is already a member
-    const existingMembership = await db.query.teamMembers.findFirst({
-      where: and(
-        eq(teamMembers.teamId, teamId),
-        eq(teamMembers.userId, user.id)
-      ),
-    });
+// PUT /teams/invitations/:invitationId/respond - Accept or decline an invitation
+teamsRouter.put(
+  "/invitations/:invitationId/respond",
+  authenticateToken,
+  zValidator("param", invitationIdSchema),
+  zValidator("json", respondTeamInvitationSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { invitationId } = c.req.valid("param");
+      const { action } = c.req.valid("json");
 
-    if (existingMembership) {
-      return c.json(
-        {
-          success: false,
-          error: "You are already a member of this team",
-        },
-        400
-      );
-    }
+      console.log(`📨 ${user.username} answering team invitation: ${invitationId} (${action})`);
 
-    // For public teams, auto-join
-    if (!team.isPrivate) {
-      // Check team capacity
-      if (team.maxMembers) {
-        const currentMemberCount = await db
-          .select({ count: count(teamMembers.userId) })
-          .from(teamMembers)
-          .where(eq(teamMembers.teamId, teamId));
+      const invitation = await teamService.getInvitation(invitationId);
 
-        if (currentMemberCount[0].count >= team.maxMembers) {
-          return c.json(
-            {
-              success: false,
-              error: "Team has reached maximum member capacity",
-            },
-            400
-          );
-        }
+      if (!invitation) {
+        return c.json(
+          {
+            success: false,
+            error: "Invitation not found or already answered",
+          },
+          404
+        );
       }
 
-      // Auto-join public team
-      const [newMembership] = await db
-        .insert(teamMembers)
-        .values({
-          teamId,
-          userId: user.id,
-          role: "member",
-        })
-        .returning();
+      const answered = await teamService.answerInvitation(
+        invitation,
+        user.id,
+        action === "accept"
+      );
 
-      // Track the change
-      await deltaTrackingService.trackChange({
-        entityType: "team_member",
-        entityId: newMembership.id,
-        changeType: "create",
-        newData: newMembership,
-        affectedUserId: user.id,
-        relatedEntityId: teamId,
-        triggeredBy: user.id,
-      });
+      if (!answered.success) {
+        return c.json(
+          {
+            success: false,
+            error: answered.error,
+          },
+          answered.status
+        );
+      }
 
       return c.json({
         success: true,
-        data: newMembership,
-        message: `Successfully joined team "${team.name}"`,
+        data: { membership: answered.result },
+        message: action === "accept" ? "Invitation accepted" : "Invitation declined",
       });
-    } else {
-      // For private teams, create join request (this would need a separate table in a full implementation)
-      // For now, we'll return a message about contacting team admins
+    } catch (error) {
+      console.error("Error answering team invitation:", error);
       return c.json(
         {
           success: false,
-          error:
-            "This is a private team. Please contact a team admin to request an invitation.",
-          needsApproval: true,
+          error: "Failed to answer invitation",
         },
-        400
+        500
       );
     }
-  } catch (error) {
-    console.error("Error processing join request:", error);
-    return c.json(
-      {
-        success: false,
-        error: "Failed to process join request",
-      },
-      500
-    );
   }
-});
+);
+
+// POST /teams/:teamId/join-request - Join a public team, or ask to join a private one
+teamsRouter.post(
+  "/:teamId/join-request",
+  authenticateToken,
+  zValidator("param", teamIdSchema),
+  zValidator("json", createTeamJoinRequestSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { teamId } = c.req.valid("param");
+      const { message } = c.req.valid("json");
+
+      console.log(`📝 ${user.username} requesting to join team: ${teamId}`);
+
+      const team = await db.query.teams.findFirst({
+        where: eq(teams.id, teamId),
+      });
+
+      if (!team) {
+        return c.json(
+          {
+            success: false,
+            error: "Team not found",
+          },
+          404
+        );
+      }
+
+      const joined = await teamService.requestToJoin(team, user.id, message);
+
+      if (!joined.success) {
+        return c.json(
+          {
+            success: false,
+            error: joined.error,
+          },
+          joined.status
+        );
+      }
+
+      if (joined.result.request) {
+        return c.json(
+          {
+            success: true,
+            data: { request: joined.result.request },
+            needsApproval: true,
+            message: `Your request to join "${team.name}" was sent to the team's owner and captains`,
+          },
+          201
+        );
+      }
+
+      return c.json({
+        success: true,
+        data: joined.result.membership,
+        message: `Successfully joined team "${team.name}"`,
+      });
+    } catch (error) {
+      console.error("Error processing join request:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to process join request",
+        },
+        500
+      );
+    }
+  }
+);
+
+// DELETE /teams/:teamId/join-request - Withdraw your pending request
+teamsRouter.delete(
+  "/:teamId/join-request",
+  authenticateToken,
+  zValidator("param", teamIdSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { teamId } = c.req.valid("param");
+
+      const team = await db.query.teams.findFirst({
+        where: eq(teams.id, teamId),
+      });
+
+      if (!team || !(await teamService.cancelJoinRequest(team, user.id))) {
+        return c.json(
+          {
+            success: false,
+            error: "No pending join request for this team",
+          },
+          404
+        );
+      }
+
+      return c.json({
+        success: true,
+        message: "Join request withdrawn",
+      });
+    } catch (error) {
+      console.error("Error withdrawing join request:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to withdraw join request",
+        },
+        500
+      );
+    }
+  }
+);
+
+// GET /teams/:teamId/join-requests - Pending join requests (owner and captains)
+teamsRouter.get(
+  "/:teamId/join-requests",
+  authenticateToken,
+  zValidator("param", teamIdSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { teamId } = c.req.valid("param");
+
+      const access = await teamService.access(teamId, user);
+
+      if (!access) {
+        return c.json(
+          {
+            success: false,
+            error: "Team not found",
+          },
+          404
+        );
+      }
+
+      if (!access.canManage) {
+        return c.json(
+          {
+            success: false,
+            error: "Access denied. Only the team owner and captains can see join requests.",
+          },
+          403
+        );
+      }
+
+      const requests = await teamService.listJoinRequests(teamId);
+
+      return c.json({
+        success: true,
+        data: { requests },
+      });
+    } catch (error) {
+      console.error("Error getting join requests:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to get join requests",
+        },
+        500
+      );
+    }
+  }
+);
+
+// PUT /teams/:teamId/join-requests/:requestId/respond - Approve or reject a join request
+teamsRouter.put(
+  "/:teamId/join-requests/:requestId/respond",
+  authenticateToken,
+  zValidator("param", joinRequestParamsSchema),
+  zValidator("json", respondTeamJoinRequestSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { teamId, requestId } = c.req.valid("param");
+      const { action } = c.req.valid("json");
+
+      console.log(`📝 ${user.username} answering join request: ${requestId} (${action})`);
+
+      const access = await teamService.access(teamId, user);
+
+      if (!access) {
+        return c.json(
+          {
+            success: false,
+            error: "Team not found",
+          },
+          404
+        );
+      }
+
+      if (!access.canManage) {
+        return c.json(
+          {
+            success: false,
+            error: "Access denied. Only the team owner and captains can answer join requests.",
+          },
+          403
+        );
+      }
+
+      const answered = await teamService.answerJoinRequest(
+        access.team,
+        requestId,
+        user.id,
+        action === "approve"
+      );
+
+      if (!answered.success) {
+        return c.json(
+          {
+            success: false,
+            error: answered.error,
+          },
+          answered.status
+        );
+      }
+
+      return c.json({
+        success: true,
+        data: { request: answered.result },
+        message: action === "approve" ? "Join request approved" : "Join request rejected",
+      });
+    } catch (error) {
+      console.error("Error answering join request:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to answer join request",
+        },
+        500
+      );
+    }
+  }
+);
+
+// GET /teams/:teamId/invitations - Pending invitations (owner and captains)
+teamsRouter.get(
+  "/:teamId/invitations",
+  authenticateToken,
+  zValidator("param", teamIdSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { teamId } = c.req.valid("param");
+
+      const access = await teamService.access(teamId, user);
+
+      if (!access) {
+        return c.json(
+          {
+            success: false,
+            error: "Team not found",
+          },
+          404
+        );
+      }
+
+      if (!access.canManage) {
+        return c.json(
+          {
+            success: false,
+            error: "Access denied. Only the team owner and captains can see invitations.",
+          },
+          403
+        );
+      }
+
+      const invitations = await teamService.listInvitations(teamId);
+
+      return c.json({
+        success: true,
+        data: { invitations },
+      });
+    } catch (error) {
+      console.error("Error getting team invitations:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to get team invitations",
+        },
+        500
+      );
+    }
+  }
+);
+
+// POST /teams/:teamId/invitations - Invite a player (owner and captains)
+teamsRouter.post(
+  "/:teamId/invitations",
+  authenticateToken,
+  zValidator("param", teamIdSchema),
+  zValidator("json", createTeamInvitationSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { teamId } = c.req.valid("param");
+      const { userId, message } = c.req.valid("json");
+
+      console.log(`📨 ${user.username} inviting ${userId} to team: ${teamId}`);
+
+      const access = await teamService.access(teamId, user);
+
+      if (!access) {
+        return c.json(
+          {
+            success: false,
+            error: "Team not found",
+          },
+          404
+        );
+      }
+
+      if (!access.canManage) {
+        return c.json(
+          {
+            success: false,
+            error: "Access denied. Only the team owner and captains can invite players.",
+          },
+          403
+        );
+      }
+
+      const invited = await teamService.invite(access.team, user.id, userId, message);
+
+      if (!invited.success) {
+        return c.json(
+          {
+            success: false,
+            error: invited.error,
+          },
+          invited.status
+        );
+      }
+
+      // Inviting someone who already asked to join lets them straight in
+      if (invited.result.membership) {
+        return c.json({
+          success: true,
+          data: { membership: invited.result.membership },
+          message: "The player had asked to join - their request was approved",
+        });
+      }
+
+      return c.json(
+        {
+          success: true,
+          data: { invitation: invited.result.invitation },
+          message: "Invitation sent",
+        },
+        201
+      );
+    } catch (error) {
+      console.error("Error inviting player:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to send invitation",
+        },
+        500
+      );
+    }
+  }
+);
+
+// DELETE /teams/:teamId/invitations/:invitationId - Withdraw an invitation (owner and captains)
+teamsRouter.delete(
+  "/:teamId/invitations/:invitationId",
+  authenticateToken,
+  zValidator("param", teamInvitationParamsSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { teamId, invitationId } = c.req.valid("param");
+
+      const access = await teamService.access(teamId, user);
+
+      if (!access) {
+        return c.json(
+          {
+            success: false,
+            error: "Team not found",
+          },
+          404
+        );
+      }
+
+      if (!access.canManage) {
+        return c.json(
+          {
+            success: false,
+            error: "Access denied. Only the team owner and captains can withdraw invitations.",
+          },
+          403
+        );
+      }
+
+      if (!(await teamService.cancelInvitation(access.team, invitationId, user.id))) {
+        return c.json(
+          {
+            success: false,
+            error: "Invitation not found or already answered",
+          },
+          404
+        );
+      }
+
+      return c.json({
+        success: true,
+        message: "Invitation withdrawn",
+      });
+    } catch (error) {
+      console.error("Error withdrawing invitation:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to withdraw invitation",
+        },
+        500
+      );
+    }
+  }
+);
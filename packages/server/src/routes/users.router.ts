@@ -1,9 +1,13 @@
 // src/routes/users.router.ts - Complete implementation with service integration
 
 import { Hono } from "hono";
+import { stream } from "hono/streaming";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
 import { authenticateToken } from "../middleware/auth.js";
+import { requireVerifiedEmail } from "../middleware/email-verification.js";
+import { enhancedRateLimiter } from "../utils/security.js";
+import { dataExportService } from "../services/data-export.service.js";
 import { authService } from "../services/auth.js";
 import { db } from "../db/client.js";
 import {
@@ -16,13 +20,23 @@ import {
   userConnections,
   skillDefinitions,
   activityTypes,
+  eloHistory,
 } from "../db/schema.js";
-import { eq, and, desc, sql, or, count, avg, max } from "drizzle-orm";
+import { eq, and, desc, sql, or, count, avg, max, gte } from "drizzle-orm";
 import { deltaTrackingService } from "../services/delta-tracking.service.js";
+import { resolveActivityELOSettings } from "../services/elo-calc.service.js";
+import { notificationService } from "../services/notification.service.js";
+import { getRatingStrategy } from "../services/rating-strategy.service.js";
+import { privacySettingsService } from "../services/privacy-settings.service.js";
 import {
   updateUserSchema,
   userProfileQuerySchema,
   createConnectionRequestSchema,
+  eloHistoryQuerySchema,
+  updateNotificationPreferencesSchema,
+  updatePrivacySettingsSchema,
+  deleteAccountSchema,
+  updateAccountStatusSchema,
   type UpdateUser,
   type SkillDefinition,
   type SubmitSkillRatings,
@@ -30,6 +44,10 @@ import {
 
 export const usersRouter = new Hono();
 
+// Personal data exports per user per hour
+const EXPORT_MAX_PER_WINDOW = 3;
+const EXPORT_WINDOW_MS = 60 * 60 * 1000;
+
 // Validation schemas
 const getUserProfileSchema = z.object({
   includeELO: z.boolean().default(true),
@@ -675,10 +693,264 @@ usersRouter.put(
   }
 );
 
+// GET /users/me/notification-preferences - Get notification preferences
+usersRouter.get("/me/notification-preferences", authenticateToken, async (c) => {
+  try {
+    const user = c.get("user");
+    const preferences = await notificationService.getPreferences(user.id);
+
+    return c.json({
+      success: true,
+      data: preferences,
+    });
+  } catch (error) {
+    console.error("Error fetching notification preferences:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch notification preferences",
+      },
+      500
+    );
+  }
+});
+
+// PUT /users/me/notification-preferences - Update notification preferences
+usersRouter.put(
+  "/me/notification-preferences",
+  authenticateToken,
+  zValidator("json", updateNotificationPreferencesSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const updates = c.req.valid("json");
+
+      console.log(`🔔 Updating notification preferences for: ${user.username}`);
+
+      const preferences = await notificationService.updatePreferences(
+        user.id,
+        updates
+      );
+
+      return c.json({
+        success: true,
+        data: preferences,
+        message: "Notification preferences updated",
+      });
+    } catch (error) {
+      console.error("Error updating notification preferences:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to update notification preferences",
+        },
+        500
+      );
+    }
+  }
+);
+
+// GET /users/me/privacy-settings - Get privacy settings
+usersRouter.get("/me/privacy-settings", authenticateToken, async (c) => {
+  try {
+    const user = c.get("user");
+    const settings = await privacySettingsService.getSettings(user.id);
+
+    return c.json({
+      success: true,
+      data: settings,
+    });
+  } catch (error) {
+    console.error("Error fetching privacy settings:", error);
+    return c.json(
+      {
+        success: false,
+        error: "Failed to fetch privacy settings",
+      },
+      500
+    );
+  }
+});
+
+// PUT /users/me/privacy-settings - Update privacy settings
+usersRouter.put(
+  "/me/privacy-settings",
+  authenticateToken,
+  zValidator("json", updatePrivacySettingsSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const updates = c.req.valid("json");
+
+      console.log(`🔒 Updating privacy settings for: ${user.username}`);
+
+      const settings = await privacySettingsService.updateSettings(
+        user.id,
+        updates
+      );
+
+      return c.json({
+        success: true,
+        data: settings,
+        message: "Privacy settings updated",
+      });
+    } catch (error) {
+      console.error("Error updating privacy settings:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to update privacy settings",
+        },
+        500
+      );
+    }
+  }
+);
+
+// GET /users/me/export - Download all personal data as NDJSON
+usersRouter.get("/me/export", authenticateToken, async (c) => {
+  const user = c.get("user");
+
+  // Exports are expensive - allow a few per hour
+  if (
+    enhancedRateLimiter.isRateLimited(
+      `data_export_${user.id}`,
+      EXPORT_MAX_PER_WINDOW,
+      EXPORT_WINDOW_MS,
+      EXPORT_WINDOW_MS
+    )
+  ) {
+    const retryAt = enhancedRateLimiter.getBlockedUntil(`data_export_${user.id}`);
+    return c.json(
+      {
+        success: false,
+        error: "Too many export requests. Please try again later.",
+        retryAt,
+      },
+      429
+    );
+  }
+
+  console.log(`📦 Exporting personal data for: ${user.username}`);
+
+  const date = new Date().toISOString().slice(0, 10);
+  c.header("Content-Type", "application/x-ndjson; charset=utf-8");
+  c.header(
+    "Content-Disposition",
+    `attachment; filename="hh-export-${user.id}-${date}.ndjson"`
+  );
+
+  return stream(c, async (out) => {
+    try {
+      for await (const record of dataExportService.exportUserData(user.id)) {
+        await out.writeln(JSON.stringify(record));
+      }
+    } catch (error) {
+      // Headers are already sent - mark the bundle as incomplete instead
+      console.error("Error exporting user data:", error);
+      await out.writeln(
+        JSON.stringify({ section: "error", data: { message: "Export incomplete" } })
+      );
+    }
+  });
+});
+
+// DELETE /users/me - Schedule own account for deletion
+usersRouter.delete(
+  "/me",
+  authenticateToken,
+  zValidator("json", deleteAccountSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { password } = c.req.valid("json");
+
+      console.log(`🗑️ Account deletion requested by: ${user.username}`);
+
+      const result = await authService.requestAccountDeletion(user.id, password);
+
+      if (!result.success) {
+        return c.json(
+          {
+            success: false,
+            error: result.error,
+          },
+          result.error === "Password is incorrect" ? 403 : 400
+        );
+      }
+
+      return c.json({
+        success: true,
+        data: { deletionScheduledAt: result.deletionScheduledAt },
+        message:
+          "Account scheduled for deletion. Sign in again before the scheduled date to cancel.",
+      });
+    } catch (error) {
+      console.error("Error requesting account deletion:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to delete account",
+        },
+        500
+      );
+    }
+  }
+);
+
+// PUT /users/:userId/status - Suspend, deactivate or reactivate an account (admin)
+usersRouter.put(
+  "/:userId/status",
+  authenticateToken,
+  zValidator("json", updateAccountStatusSchema),
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const userId = c.req.param("userId");
+      const { status } = c.req.valid("json");
+
+      console.log(`🛡️ ${user.username} setting account ${userId} to ${status}`);
+
+      const result = await authService.updateAccountStatus(userId, status, user.id);
+
+      if (!result.success) {
+        const statusCode =
+          result.error === "Admin access required"
+            ? 403
+            : result.error === "User not found"
+            ? 404
+            : 400;
+        return c.json(
+          {
+            success: false,
+            error: result.error,
+          },
+          statusCode
+        );
+      }
+
+      return c.json({
+        success: true,
+        message: result.message,
+      });
+    } catch (error) {
+      console.error("Error updating account status:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to update account status",
+        },
+        500
+      );
+    }
+  }
+);
+
 // POST /users/connections/request - Send connection request
 usersRouter.post(
   "/connections/request",
   authenticateToken,
+  requireVerifiedEmail("connection_requests"),
   zValidator("json", createConnectionRequestSchema),
   async (c) => {
     try {
@@ -1083,13 +1355,16 @@ usersRouter.get(
           activityTypeId: userActivityTypeELOs.activityTypeId,
           eloScore: userActivityTypeELOs.eloScore,
           gamesPlayed: userActivityTypeELOs.gamesPlayed,
+          ratingDeviation: userActivityTypeELOs.ratingDeviation,
           peakELO: userActivityTypeELOs.peakELO,
           lastUpdated: userActivityTypeELOs.lastUpdated,
           activityType: {
             id: activityTypes.id,
             name: activityTypes.name,
             description: activityTypes.description,
-          }
+          },
+          activityTypeCategory: activityTypes.category,
+          eloSettings: activityTypes.defaultELOSettings,
         })
         .from(userActivityTypeELOs)
         .leftJoin(activityTypes, eq(userActivityTypeELOs.activityTypeId, activityTypes.id))
@@ -1099,10 +1374,15 @@ usersRouter.get(
       
       return c.json({
         success: true,
-        data: eloScores.map(elo => ({
-          ...elo,
-          lastUpdated: elo.lastUpdated?.toISOString() || null
-        }))
+        data: eloScores.map(({ activityTypeCategory, eloSettings, ...elo }) => {
+          const settings = resolveActivityELOSettings(eloSettings, activityTypeCategory)
+          return {
+            ...elo,
+            ratingSystem: settings.ratingSystem,
+            isProvisional: getRatingStrategy(settings).isProvisional(elo, settings),
+            lastUpdated: elo.lastUpdated?.toISOString() || null
+          }
+        })
       })
     } catch (error) {
       console.error('Error fetching ELO scores:', error)
@@ -1111,6 +1391,67 @@ usersRouter.get(
   }
 );
 
+// Get rating timeline, bucketed by day or week
+usersRouter.get(
+  '/:userId/elo/history',
+  authenticateToken,
+  zValidator('query', eloHistoryQuerySchema),
+  async (c) => {
+    const userId = c.req.param('userId')
+    const { activityTypeId, bucket, days } = c.req.valid('query')
+
+    try {
+      console.log(`📈 Getting ELO history for user ${userId}, bucket: ${bucket}, days: ${days}`)
+
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+      const historyConditions = [
+        eq(eloHistory.userId, userId),
+        gte(eloHistory.createdAt, since),
+      ]
+      if (activityTypeId) {
+        historyConditions.push(eq(eloHistory.activityTypeId, activityTypeId))
+      }
+
+      // bucket is validated against the enum, so it is safe to inline
+      const bucketStart = sql<Date>`date_trunc('${sql.raw(bucket)}', ${eloHistory.createdAt})`
+
+      const points = await db
+        .select({
+          activityTypeId: eloHistory.activityTypeId,
+          activityTypeName: activityTypes.name,
+          bucketStart: bucketStart.as('bucket_start'),
+          openingELO: sql<number>`(array_agg(${eloHistory.oldELO} ORDER BY ${eloHistory.createdAt}))[1]`,
+          closingELO: sql<number>`(array_agg(${eloHistory.newELO} ORDER BY ${eloHistory.createdAt} DESC))[1]`,
+          lowELO: sql<number>`min(${eloHistory.newELO})`,
+          highELO: sql<number>`max(${eloHistory.newELO})`,
+          eloChange: sql<number>`sum(${eloHistory.eloChange})::int`,
+          gamesPlayed: count(eloHistory.id),
+        })
+        .from(eloHistory)
+        .innerJoin(activityTypes, eq(eloHistory.activityTypeId, activityTypes.id))
+        .where(and(...historyConditions))
+        .groupBy(eloHistory.activityTypeId, activityTypes.name, bucketStart)
+        .orderBy(bucketStart)
+
+      return c.json({
+        success: true,
+        data: {
+          userId,
+          bucket,
+          days,
+          history: points.map(point => ({
+            ...point,
+            bucketStart: new Date(point.bucketStart).toISOString()
+          }))
+        }
+      })
+    } catch (error) {
+      console.error('Error fetching ELO history:', error)
+      return c.json({ success: false, error: 'Failed to fetch ELO history' }, 500)
+    }
+  }
+);
+
 // Get user skills
 usersRouter.get(
   '/:userId/skills',
@@ -0,0 +1,553 @@
+// src/routes/venues.router.ts - Venues, their courts and opening hours, searchable by distance
+import { zValidator } from "@hono/zod-validator";
+import { and, asc, count, eq, ilike, or, sql } from "drizzle-orm";
+import { Hono } from "hono";
+import { z } from "zod";
+import { db } from "../db/client.js";
+import { venueResources, venues } from "../db/schema.js";
+import {
+  createVenueResourceSchema,
+  createVenueSchema,
+  searchVenuesSchema,
+  setVenueActivityTypesSchema,
+  setVenueOpeningHoursSchema,
+  updateVenueResourceSchema,
+  updateVenueSchema,
+  venueAvailabilityQuerySchema,
+} from "../db/zod.schema.js";
+import { authenticateToken, type User } from "../middleware/auth.js";
+import { venueService } from "../services/venue.service.js";
+import { distanceKmSql, withinRadiusSql } from "../utils/geo.js";
+
+export const venuesRouter = new Hono();
+
+const venueIdSchema = z.object({
+  id: z.string().uuid("Invalid venue ID"),
+});
+
+const venueResourceParamsSchema = venueIdSchema.extend({
+  resourceId: z.string().uuid("Invalid resource ID"),
+});
+
+// Venues are managed by whoever added them, or an admin
+const canManageVenue = (venue: { createdBy: string | null }, user: User) =>
+  venue.createdBy === user.id || user.role === "admin";
+
+// GET /venues - List venues, nearest first when a point is given
+venuesRouter.get(
+  "/",
+  zValidator("query", searchVenuesSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const filters = c.req.valid("query");
+      const offset = (filters.page - 1) * filters.limit;
+
+      const whereConditions = [];
+
+      if (filters.search) {
+        whereConditions.push(
+          or(
+            ilike(venues.name, `%${filters.search}%`),
+            ilike(venues.address, `%${filters.search}%`),
+            ilike(venues.city, `%${filters.search}%`)
+          )
+        );
+      }
+
+      const origin =
+        filters.lat !== undefined && filters.lng !== undefined
+          ? { latitude: filters.lat, longitude: filters.lng }
+          : null;
+      const distanceKm = origin ? await distanceKmSql(venues, origin) : null;
+
+      if (origin && filters.radiusKm !== undefined) {
+        whereConditions.push(
+          await withinRadiusSql(venues, origin, filters.radiusKm)
+        );
+      }
+
+      const where =
+        whereConditions.length > 0 ? and(...whereConditions) : undefined;
+
+      const venueList = await db
+        .select({
+          id: venues.id,
+          publicId: venues.publicId,
+          name: venues.name,
+          address: venues.address,
+          city: venues.city,
+          latitude: venues.latitude,
+          longitude: venues.longitude,
+          distanceKm: distanceKm ?? sql<number | null>`NULL`,
+        })
+        .from(venues)
+        .where(where)
+        .orderBy(distanceKm ? sql`${distanceKm} ASC` : asc(venues.name))
+        .limit(filters.limit)
+        .offset(offset);
+
+      const [{ count: totalCount }] = await db
+        .select({ count: count() })
+        .from(venues)
+        .where(where);
+
+      return c.json({
+        success: true,
+        data: {
+          venues: venueList,
+          pagination: {
+            page: filters.page,
+            limit: filters.limit,
+            totalCount,
+            totalPages: Math.ceil(totalCount / filters.limit),
+            hasMore: offset + venueList.length < totalCount,
+          },
+        },
+      });
+    } catch (error) {
+      console.error("Error fetching venues:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch venues",
+        },
+        500
+      );
+    }
+  }
+);
+
+// GET /venues/:id/availability?date=YYYY-MM-DD - Bookings and free slots per court
+venuesRouter.get(
+  "/:id/availability",
+  zValidator("param", venueIdSchema),
+  zValidator("query", venueAvailabilityQuerySchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const { id } = c.req.valid("param");
+      const query = c.req.valid("query");
+
+      const availability = await venueService.getAvailability(id, query);
+
+      if (!availability) {
+        return c.json(
+          {
+            success: false,
+            error: "Venue not found",
+          },
+          404
+        );
+      }
+
+      return c.json({
+        success: true,
+        data: availability,
+      });
+    } catch (error) {
+      console.error("Error fetching venue availability:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch venue availability",
+        },
+        500
+      );
+    }
+  }
+);
+
+// GET /venues/:id - Venue details with courts, opening hours and activity types
+venuesRouter.get(
+  "/:id",
+  zValidator("param", venueIdSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const { id } = c.req.valid("param");
+
+      const venue = await venueService.getVenueDetails(id);
+
+      if (!venue) {
+        return c.json(
+          {
+            success: false,
+            error: "Venue not found",
+          },
+          404
+        );
+      }
+
+      return c.json({
+        success: true,
+        data: { venue },
+      });
+    } catch (error) {
+      console.error("Error fetching venue:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to fetch venue",
+        },
+        500
+      );
+    }
+  }
+);
+
+// POST /venues - Add a venue
+venuesRouter.post(
+  "/",
+  zValidator("json", createVenueSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const venueData = c.req.valid("json");
+
+      console.log(`📍 Creating venue "${venueData.name}" by ${user.username}`);
+
+      const venue = await venueService.createVenue(venueData, user.id);
+
+      return c.json(
+        {
+          success: true,
+          data: { venue },
+          message: "Venue created successfully",
+        },
+        201
+      );
+    } catch (error) {
+      console.error("Error creating venue:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to create venue",
+        },
+        500
+      );
+    }
+  }
+);
+
+// PUT /venues/:id - Update a venue (creator or admin)
+venuesRouter.put(
+  "/:id",
+  zValidator("param", venueIdSchema),
+  zValidator("json", updateVenueSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { id } = c.req.valid("param");
+      const updates = c.req.valid("json");
+
+      const venue = await db.query.venues.findFirst({
+        where: eq(venues.id, id),
+      });
+
+      if (!venue) {
+        return c.json(
+          {
+            success: false,
+            error: "Venue not found",
+          },
+          404
+        );
+      }
+
+      if (!canManageVenue(venue, user)) {
+        return c.json(
+          {
+            success: false,
+            error: "Only the venue creator or an admin can edit it",
+          },
+          403
+        );
+      }
+
+      const [updated] = await db
+        .update(venues)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(venues.id, id))
+        .returning();
+
+      return c.json({
+        success: true,
+        data: { venue: updated },
+        message: "Venue updated successfully",
+      });
+    } catch (error) {
+      console.error("Error updating venue:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to update venue",
+        },
+        500
+      );
+    }
+  }
+);
+
+// PUT /venues/:id/opening-hours - Replace the weekly opening hours
+venuesRouter.put(
+  "/:id/opening-hours",
+  zValidator("param", venueIdSchema),
+  zValidator("json", setVenueOpeningHoursSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { id } = c.req.valid("param");
+      const { openingHours } = c.req.valid("json");
+
+      const venue = await db.query.venues.findFirst({
+        where: eq(venues.id, id),
+      });
+
+      if (!venue) {
+        return c.json(
+          {
+            success: false,
+            error: "Venue not found",
+          },
+          404
+        );
+      }
+
+      if (!canManageVenue(venue, user)) {
+        return c.json(
+          {
+            success: false,
+            error: "Only the venue creator or an admin can edit it",
+          },
+          403
+        );
+      }
+
+      await db.transaction((tx) => venueService.setOpeningHours(id, openingHours, tx));
+
+      return c.json({
+        success: true,
+        data: { openingHours },
+        message: "Opening hours updated",
+      });
+    } catch (error) {
+      console.error("Error updating opening hours:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to update opening hours",
+        },
+        500
+      );
+    }
+  }
+);
+
+// PUT /venues/:id/activity-types - Replace the activity types the venue hosts
+venuesRouter.put(
+  "/:id/activity-types",
+  zValidator("param", venueIdSchema),
+  zValidator("json", setVenueActivityTypesSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { id } = c.req.valid("param");
+      const { activityTypeIds } = c.req.valid("json");
+
+      const venue = await db.query.venues.findFirst({
+        where: eq(venues.id, id),
+      });
+
+      if (!venue) {
+        return c.json(
+          {
+            success: false,
+            error: "Venue not found",
+          },
+          404
+        );
+      }
+
+      if (!canManageVenue(venue, user)) {
+        return c.json(
+          {
+            success: false,
+            error: "Only the venue creator or an admin can edit it",
+          },
+          403
+        );
+      }
+
+      await db.transaction((tx) => venueService.setActivityTypes(id, activityTypeIds, tx));
+
+      return c.json({
+        success: true,
+        data: { activityTypeIds },
+        message: "Activity types updated",
+      });
+    } catch (error) {
+      console.error("Error updating venue activity types:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to update venue activity types",
+        },
+        500
+      );
+    }
+  }
+);
+
+// POST /venues/:id/resources - Add a court or pitch
+venuesRouter.post(
+  "/:id/resources",
+  zValidator("param", venueIdSchema),
+  zValidator("json", createVenueResourceSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { id } = c.req.valid("param");
+      const resourceData = c.req.valid("json");
+
+      const venue = await db.query.venues.findFirst({
+        where: eq(venues.id, id),
+      });
+
+      if (!venue) {
+        return c.json(
+          {
+            success: false,
+            error: "Venue not found",
+          },
+          404
+        );
+      }
+
+      if (!canManageVenue(venue, user)) {
+        return c.json(
+          {
+            success: false,
+            error: "Only the venue creator or an admin can edit it",
+          },
+          403
+        );
+      }
+
+      const existing = await db.query.venueResources.findFirst({
+        where: and(
+          eq(venueResources.venueId, id),
+          eq(venueResources.name, resourceData.name)
+        ),
+      });
+
+      if (existing) {
+        return c.json(
+          {
+            success: false,
+            error: `This venue already has a resource named "${resourceData.name}"`,
+          },
+          409
+        );
+      }
+
+      const [resource] = await db
+        .insert(venueResources)
+        .values({ ...resourceData, venueId: id })
+        .returning();
+
+      return c.json(
+        {
+          success: true,
+          data: { resource },
+          message: "Resource added",
+        },
+        201
+      );
+    } catch (error) {
+      console.error("Error adding venue resource:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to add venue resource",
+        },
+        500
+      );
+    }
+  }
+);
+
+// PUT /venues/:id/resources/:resourceId - Rename, resize or retire a court
+venuesRouter.put(
+  "/:id/resources/:resourceId",
+  zValidator("param", venueResourceParamsSchema),
+  zValidator("json", updateVenueResourceSchema),
+  authenticateToken,
+  async (c) => {
+    try {
+      const user = c.get("user");
+      const { id, resourceId } = c.req.valid("param");
+      const updates = c.req.valid("json");
+
+      const venue = await db.query.venues.findFirst({
+        where: eq(venues.id, id),
+      });
+
+      if (!venue) {
+        return c.json(
+          {
+            success: false,
+            error: "Venue not found",
+          },
+          404
+        );
+      }
+
+      if (!canManageVenue(venue, user)) {
+        return c.json(
+          {
+            success: false,
+            error: "Only the venue creator or an admin can edit it",
+          },
+          403
+        );
+      }
+
+      const [resource] = await db
+        .update(venueResources)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(and(eq(venueResources.id, resourceId), eq(venueResources.venueId, id)))
+        .returning();
+
+      if (!resource) {
+        return c.json(
+          {
+            success: false,
+            error: "Venue resource not found",
+          },
+          404
+        );
+      }
+
+      return c.json({
+        success: true,
+        data: { resource },
+        message: "Resource updated",
+      });
+    } catch (error) {
+      console.error("Error updating venue resource:", error);
+      return c.json(
+        {
+          success: false,
+          error: "Failed to update venue resource",
+        },
+        500
+      );
+    }
+  }
+);
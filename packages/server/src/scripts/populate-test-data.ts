@@ -512,34 +512,31 @@ export class DatabasePopulator {
         logoUrl: "https://api.dicebear.com/7.x/shapes/svg?seed=courtmasters",
       },
     ];
-    const creator =
-      this.createdUsers[Math.floor(Math.random() * this.createdUsers.length)];
-
     for (const team of teamsData) {
+      // Add 2-3 members to each team, the first one owns it
+      const memberCount = 2 + Math.floor(Math.random() * 2);
+      const teamMemberUsers = this.createdUsers
+        .filter((u) => u.role === "user")
+        .sort(() => 0.5 - Math.random())
+        .slice(0, memberCount);
+
       const [created] = await db
         .insert(teams)
         .values({
           name: team.name,
           description: team.description,
-          creatorId: creator.id,
+          creatorId: teamMemberUsers[0].id,
         })
         .returning();
 
       this.createdTeams.push(created);
 
-      // Add 2-3 members to each team
-      const memberCount = 2 + Math.floor(Math.random() * 2);
-      const teamMemberUsers = this.createdUsers
-        .filter((u) => u.role === "user")
-        .sort(() => 0.5 - Math.random())
-        .slice(0, memberCount);
-
       for (let i = 0; i < teamMemberUsers.length; i++) {
         await db.insert(teamMembers).values({
           id: crypto.randomUUID(),
           teamId: created.id,
           userId: teamMemberUsers[i].id,
-          role: i === 0 ? "captain" : "member",
+          role: i === 0 ? "owner" : i === 1 ? "captain" : "member",
           joinedAt: new Date(),
         });
       }
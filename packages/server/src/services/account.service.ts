@@ -0,0 +1,300 @@
+// src/services/account.service.ts - Account status, self-service deletion and purging
+import { and, eq, inArray, isNull, lte, or } from "drizzle-orm";
+import { db } from "../db/client.js";
+import {
+  activities,
+  activityChatMessages,
+  activityChatReadStatus,
+  activityParticipants,
+  activitySeries,
+  activitySeriesRegulars,
+  authTokens,
+  deltaSummaries,
+  eloHistory,
+  entityChangeLog,
+  messages,
+  notificationPreferences,
+  notifications,
+  postComments,
+  postLikes,
+  posts,
+  roomMembers,
+  teamInvitations,
+  teamJoinRequests,
+  teamMembers,
+  userActivitySkillRatings,
+  userActivityTypeELOs,
+  userActivityTypeSkillSummaries,
+  userConnections,
+  userDeltaCursors,
+  userGeneralSkillSummaries,
+  userPrivacySettings,
+  users,
+} from "../db/schema.js";
+import type { AccountStatus } from "../db/zod.schema.js";
+import { sessionService } from "../auth/session.js";
+import { teamService } from "./team.service.js";
+
+// Days between a deletion request and the purge
+const DEFAULT_DELETION_GRACE_DAYS = 30;
+const PURGE_CHECK_INTERVAL = 60 * 60 * 1000;
+
+export const DELETED_MESSAGE_CONTENT = "[deleted]";
+
+export interface AccountDeletionRequest {
+  userId: string;
+  deletionScheduledAt: Date;
+}
+
+export class AccountService {
+  private schedulerInterval: NodeJS.Timeout | null = null;
+
+  /**
+   * Error message for a status that may not sign in, or null when allowed.
+   * Accounts awaiting deletion may sign in - doing so cancels the deletion.
+   */
+  getAccessError(status: AccountStatus): string | null {
+    switch (status) {
+      case "suspended":
+        return "Account is suspended";
+      case "deactivated":
+        return "Account is deactivated";
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Admin status change. Anything but active revokes the user's sessions.
+   */
+  async setStatus(userId: string, status: AccountStatus): Promise<boolean> {
+    const [updated] = await db
+      .update(users)
+      .set({
+        status,
+        deletionScheduledAt: null,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(users.id, userId), isNull(users.deletedAt)))
+      .returning({ id: users.id });
+
+    if (!updated) return false;
+
+    if (status !== "active") {
+      await sessionService.destroyUserSessions(userId);
+    }
+    return true;
+  }
+
+  /**
+   * Schedule the account for deletion after the grace period and sign it out everywhere
+   */
+  async requestDeletion(
+    userId: string,
+    now: Date = new Date()
+  ): Promise<AccountDeletionRequest> {
+    const deletionScheduledAt = new Date(
+      now.getTime() + this.graceDays() * 24 * 60 * 60 * 1000
+    );
+
+    await db
+      .update(users)
+      .set({
+        status: "pending_deletion",
+        deletionScheduledAt,
+        updatedAt: now,
+      })
+      .where(eq(users.id, userId));
+
+    await sessionService.destroyUserSessions(userId);
+
+    return { userId, deletionScheduledAt };
+  }
+
+  /**
+   * Restore an account that is still inside its grace period
+   */
+  async cancelDeletion(userId: string): Promise<boolean> {
+    const [restored] = await db
+      .update(users)
+      .set({
+        status: "active",
+        deletionScheduledAt: null,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(users.id, userId),
+          eq(users.status, "pending_deletion"),
+          isNull(users.deletedAt)
+        )
+      )
+      .returning({ id: users.id });
+
+    return !!restored;
+  }
+
+  /**
+   * Remove personal data while keeping the user row as an anonymous tombstone.
+   * Activities, participations and opponents' ELO history reference the row,
+   * so deleting it would rewrite other players' records.
+   */
+  async purgeAccount(userId: string, now: Date = new Date()): Promise<void> {
+    await db.transaction(async (tx) => {
+      // Messages stay in their threads but lose their content
+      await tx
+        .update(messages)
+        .set({ content: DELETED_MESSAGE_CONTENT, deletedAt: now, updatedAt: now })
+        .where(eq(messages.senderId, userId));
+      await tx
+        .update(activityChatMessages)
+        .set({
+          content: DELETED_MESSAGE_CONTENT,
+          attachmentUrl: null,
+          metadata: null,
+          deletedAt: now,
+          updatedAt: now,
+        })
+        .where(eq(activityChatMessages.senderId, userId));
+
+      // Ratings given keep their values (they feed other players' summaries)
+      await tx
+        .update(userActivitySkillRatings)
+        .set({ comment: null, isAnonymous: true })
+        .where(eq(userActivitySkillRatings.ratingUserId, userId));
+      await tx
+        .delete(userActivitySkillRatings)
+        .where(eq(userActivitySkillRatings.ratedUserId, userId));
+
+      // The user's own rating data - opponents' history rows are untouched
+      await tx.delete(userActivityTypeELOs).where(eq(userActivityTypeELOs.userId, userId));
+      await tx.delete(eloHistory).where(eq(eloHistory.userId, userId));
+      await tx
+        .delete(userActivityTypeSkillSummaries)
+        .where(eq(userActivityTypeSkillSummaries.userId, userId));
+      await tx
+        .delete(userGeneralSkillSummaries)
+        .where(eq(userGeneralSkillSummaries.userId, userId));
+
+      // Free up spots in activities that haven't happened yet
+      const upcoming = tx
+        .select({ id: activities.id })
+        .from(activities)
+        .where(eq(activities.completionStatus, "scheduled"));
+      await tx
+        .delete(activityParticipants)
+        .where(
+          and(
+            eq(activityParticipants.userId, userId),
+            inArray(activityParticipants.activityId, upcoming)
+          )
+        );
+
+      // Their recurring games stop producing new occurrences
+      await tx
+        .update(activitySeries)
+        .set({ isActive: false, updatedAt: now })
+        .where(eq(activitySeries.creatorId, userId));
+      await tx.delete(activitySeriesRegulars).where(eq(activitySeriesRegulars.userId, userId));
+
+      await tx
+        .delete(userConnections)
+        .where(
+          or(eq(userConnections.user1Id, userId), eq(userConnections.user2Id, userId))
+        );
+      // Owned teams pass to another member before the membership goes
+      await teamService.handOverOwnedTeams(userId, tx);
+      await tx.delete(teamMembers).where(eq(teamMembers.userId, userId));
+      await tx.delete(teamJoinRequests).where(eq(teamJoinRequests.userId, userId));
+      await tx.delete(teamInvitations).where(eq(teamInvitations.userId, userId));
+      await tx.delete(roomMembers).where(eq(roomMembers.userId, userId));
+      await tx.delete(activityChatReadStatus).where(eq(activityChatReadStatus.userId, userId));
+      await tx.delete(posts).where(eq(posts.userId, userId));
+      await tx.delete(postComments).where(eq(postComments.userId, userId));
+      await tx.delete(postLikes).where(eq(postLikes.userId, userId));
+      await tx.delete(notifications).where(eq(notifications.userId, userId));
+      await tx
+        .update(notifications)
+        .set({ actorId: null })
+        .where(eq(notifications.actorId, userId));
+      await tx.delete(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+      await tx.delete(userPrivacySettings).where(eq(userPrivacySettings.userId, userId));
+      await tx.delete(authTokens).where(eq(authTokens.userId, userId));
+      await tx.delete(userDeltaCursors).where(eq(userDeltaCursors.userId, userId));
+      await tx.delete(deltaSummaries).where(eq(deltaSummaries.userId, userId));
+      await tx.delete(entityChangeLog).where(eq(entityChangeLog.affectedUserId, userId));
+
+      await tx
+        .update(users)
+        .set({
+          username: null,
+          email: `deleted-${userId}@deleted.invalid`,
+          passwordHash: null,
+          avatarUrl: null,
+          emailVerifiedAt: null,
+          homeLatitude: null,
+          homeLongitude: null,
+          status: "deactivated",
+          deletionScheduledAt: null,
+          deletedAt: now,
+          updatedAt: now,
+        })
+        .where(eq(users.id, userId));
+    });
+
+    console.log(`🗑️ Purged personal data for account ${userId}`);
+  }
+
+  /**
+   * Purge every account whose grace period has run out
+   */
+  async purgeDueAccounts(now: Date = new Date()): Promise<string[]> {
+    const due = await db
+      .select({ id: users.id })
+      .from(users)
+      .where(
+        and(
+          eq(users.status, "pending_deletion"),
+          lte(users.deletionScheduledAt, now),
+          isNull(users.deletedAt)
+        )
+      );
+
+    const purged: string[] = [];
+    for (const { id } of due) {
+      try {
+        await this.purgeAccount(id, now);
+        purged.push(id);
+      } catch (error) {
+        console.error(`❌ Account purge failed for ${id}:`, error);
+      }
+    }
+    return purged;
+  }
+
+  startScheduler(intervalMs: number = PURGE_CHECK_INTERVAL): void {
+    if (this.schedulerInterval) return;
+
+    this.schedulerInterval = setInterval(() => {
+      this.purgeDueAccounts().catch((error) =>
+        console.error("❌ Account purge check failed:", error)
+      );
+    }, intervalMs);
+  }
+
+  stopScheduler(): void {
+    if (this.schedulerInterval) {
+      clearInterval(this.schedulerInterval);
+      this.schedulerInterval = null;
+    }
+  }
+
+  private graceDays(): number {
+    const configured = parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || "");
+    return Number.isFinite(configured) && configured >= 0
+      ? configured
+      : DEFAULT_DELETION_GRACE_DAYS;
+  }
+}
+
+export const accountService = new AccountService();
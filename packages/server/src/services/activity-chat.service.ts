@@ -0,0 +1,69 @@
+// src/services/activity-chat.service.ts - Messages posted into activity chats on behalf of the app
+import { eq } from "drizzle-orm";
+import { db } from "../db/client.js";
+import { activityChatMessages, activityChatRooms } from "../db/schema.js";
+import { deltaTrackingService } from "./delta-tracking.service.js";
+
+export type SystemMessageType = "system" | "announcement";
+
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export class ActivityChatService {
+  /**
+   * Post a system message or announcement into the activity's chat, opening
+   * the room first if nobody has used it yet. Pass a transaction to make the
+   * message part of a larger change.
+   */
+  async postSystemMessage(
+    activity: { id: string },
+    sender: { id: string },
+    content: string,
+    messageType: SystemMessageType = "system",
+    executor: DbExecutor = db
+  ) {
+    let chatRoom = await executor.query.activityChatRooms.findFirst({
+      where: eq(activityChatRooms.activityId, activity.id),
+    });
+
+    if (!chatRoom) {
+      const [newChatRoom] = await executor
+        .insert(activityChatRooms)
+        .values({
+          activityId: activity.id,
+          name: "Activity Chat",
+          isActive: true,
+        })
+        .returning();
+
+      chatRoom = newChatRoom;
+    }
+
+    const [systemMessage] = await executor
+      .insert(activityChatMessages)
+      .values({
+        roomId: chatRoom!.id,
+        senderId: sender.id,
+        content,
+        messageType,
+        metadata: { isSystemMessage: true },
+      })
+      .returning();
+
+    await deltaTrackingService.trackChange(
+      {
+        entityType: "activity_chat_message",
+        entityId: systemMessage.id,
+        changeType: "create",
+        newData: systemMessage,
+        affectedUserId: sender.id,
+        relatedEntityId: activity.id,
+        triggeredBy: sender.id,
+      },
+      executor
+    );
+
+    return systemMessage;
+  }
+}
+
+export const activityChatService = new ActivityChatService();
@@ -0,0 +1,744 @@
+// src/services/activity-lifecycle.service.ts - Starts, closes, cancels and reschedules activities
+import { and, count, eq, inArray, isNotNull, isNull, lte, ne } from "drizzle-orm";
+import { db } from "../db/client.js";
+import {
+  activities,
+  activityParticipants,
+  activityTypes,
+  scheduledJobs,
+} from "../db/schema.js";
+import type { RescheduleActivity } from "../db/zod.schema.js";
+import { activityChatService } from "./activity-chat.service.js";
+import { deltaTrackingService } from "./delta-tracking.service.js";
+import { resolveActivityELOSettings } from "./elo-calc.service.js";
+import {
+  jobSchedulerService,
+  type ScheduledJob,
+} from "./job-scheduler.service.js";
+import {
+  DEFAULT_BOOKING_MINUTES,
+  venueService,
+  type BookingResult,
+} from "./venue.service.js";
+
+type Activity = typeof activities.$inferSelect;
+type DbExecutor = Pick<typeof db, "insert" | "delete">;
+type TransactionExecutor =
+  | typeof db
+  | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export type LifecycleActionResult<T> =
+  | { success: true; result: T }
+  | { success: false; status: 400 | 404 | 409; error: string };
+
+export const ACTIVITY_JOB_TYPES = {
+  fillCheck: "activity.fill_check",
+  start: "activity.start",
+  resultsReminder: "activity.results_reminder",
+  close: "activity.close",
+} as const;
+
+const HOUR = 60 * 60 * 1000;
+// How long before the start an under-filled activity is called off
+const DEFAULT_FILL_CHECK_HOURS = 2;
+// How long after the end the creator has to submit results before it closes
+const DEFAULT_AUTO_CLOSE_HOURS = 48;
+// Check-in opens this long before the start
+const CHECK_IN_OPENS_MS = HOUR;
+// How long participants have to re-confirm after a reschedule
+const DEFAULT_RECONFIRM_HOURS = 24;
+
+export class ActivityLifecycleService {
+  constructor() {
+    jobSchedulerService.register(ACTIVITY_JOB_TYPES.fillCheck, (job, now) =>
+      this.cancelIfUnderfilled(job.entityId, now).then(() => undefined)
+    );
+    jobSchedulerService.register(ACTIVITY_JOB_TYPES.start, (job, now) =>
+      this.startActivity(job.entityId, now).then(() => undefined)
+    );
+    jobSchedulerService.register(ACTIVITY_JOB_TYPES.resultsReminder, (job, now) =>
+      this.remindCreator(job, now)
+    );
+    jobSchedulerService.register(ACTIVITY_JOB_TYPES.close, (job, now) =>
+      this.closeActivity(job.entityId, now).then(() => undefined)
+    );
+  }
+
+  /**
+   * (Re)schedule the lifecycle jobs of an activity from its start and duration.
+   * Activities created inside the fill-check window skip the check.
+   */
+  async scheduleActivity(
+    activity: Pick<Activity, "id" | "dateTime" | "durationMinutes">,
+    now: Date = new Date(),
+    executor: DbExecutor = db
+  ): Promise<void> {
+    const fillCheckAt = new Date(
+      activity.dateTime.getTime() - this.fillCheckHours() * HOUR
+    );
+
+    if (fillCheckAt > now) {
+      await jobSchedulerService.schedule(
+        ACTIVITY_JOB_TYPES.fillCheck,
+        activity.id,
+        fillCheckAt,
+        executor
+      );
+    } else {
+      await jobSchedulerService.cancel(
+        activity.id,
+        [ACTIVITY_JOB_TYPES.fillCheck],
+        executor
+      );
+    }
+
+    await jobSchedulerService.schedule(
+      ACTIVITY_JOB_TYPES.start,
+      activity.id,
+      activity.dateTime,
+      executor
+    );
+    await jobSchedulerService.schedule(
+      ACTIVITY_JOB_TYPES.resultsReminder,
+      activity.id,
+      this.endOf(activity),
+      executor
+    );
+    await jobSchedulerService.schedule(
+      ACTIVITY_JOB_TYPES.close,
+      activity.id,
+      this.closeAt(activity),
+      executor
+    );
+  }
+
+  /**
+   * Drop every pending lifecycle job of an activity
+   */
+  async unscheduleActivity(
+    activityId: string,
+    executor: DbExecutor = db
+  ): Promise<void> {
+    await jobSchedulerService.cancel(
+      activityId,
+      Object.values(ACTIVITY_JOB_TYPES),
+      executor
+    );
+  }
+
+  /**
+   * Schedule jobs for open activities that have none, such as those created
+   * before the job table existed
+   */
+  async scheduleMissingJobs(now: Date = new Date()): Promise<number> {
+    const missing = await db
+      .select({
+        id: activities.id,
+        dateTime: activities.dateTime,
+        durationMinutes: activities.durationMinutes,
+      })
+      .from(activities)
+      .leftJoin(
+        scheduledJobs,
+        and(
+          eq(scheduledJobs.entityId, activities.id),
+          eq(scheduledJobs.jobType, ACTIVITY_JOB_TYPES.close)
+        )
+      )
+      .where(
+        and(
+          inArray(activities.completionStatus, ["scheduled", "active"]),
+          isNull(scheduledJobs.id)
+        )
+      );
+
+    for (const activity of missing) {
+      await this.scheduleActivity(activity, now);
+    }
+
+    if (missing.length > 0) {
+      console.log(`🗓️ Scheduled lifecycle jobs for ${missing.length} activities`);
+    }
+    return missing.length;
+  }
+
+  /**
+   * Call off a scheduled activity with fewer accepted players than its
+   * activity type needs. Returns whether it was cancelled.
+   */
+  async cancelIfUnderfilled(
+    activityId: string,
+    now: Date = new Date()
+  ): Promise<boolean> {
+    const [row] = await db
+      .select({ activity: activities, activityType: activityTypes })
+      .from(activities)
+      .innerJoin(activityTypes, eq(activityTypes.id, activities.activityTypeId))
+      .where(eq(activities.id, activityId));
+
+    if (!row || row.activity.completionStatus !== "scheduled") return false;
+
+    const { minimumParticipants } = resolveActivityELOSettings(
+      row.activityType.defaultELOSettings,
+      row.activityType.category
+    );
+
+    const [{ count: accepted }] = await db
+      .select({ count: count() })
+      .from(activityParticipants)
+      .where(
+        and(
+          eq(activityParticipants.activityId, activityId),
+          eq(activityParticipants.status, "accepted")
+        )
+      );
+
+    if (accepted >= minimumParticipants) return false;
+
+    const reason = `Only ${accepted} of the ${minimumParticipants} players needed signed up`;
+
+    const [cancelled] = await db
+      .update(activities)
+      .set({
+        completionStatus: "cancelled",
+        cancelledAt: now,
+        cancellationReason: reason,
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(activities.id, activityId),
+          eq(activities.completionStatus, "scheduled")
+        )
+      )
+      .returning();
+
+    if (!cancelled) return false;
+
+    await jobSchedulerService.cancel(activityId, [
+      ACTIVITY_JOB_TYPES.start,
+      ACTIVITY_JOB_TYPES.resultsReminder,
+      ACTIVITY_JOB_TYPES.close,
+    ]);
+
+    console.log(`🚫 Auto-cancelled activity ${activityId}: ${reason}`);
+
+    const participants = await db
+      .select({ userId: activityParticipants.userId })
+      .from(activityParticipants)
+      .where(eq(activityParticipants.activityId, activityId));
+
+    for (const participant of participants) {
+      await deltaTrackingService.trackChange({
+        entityType: "activity",
+        entityId: activityId,
+        changeType: "update",
+        newData: {
+          activityId,
+          description: cancelled.description,
+          completionStatus: "cancelled",
+          action: "auto_cancel",
+          reason,
+        },
+        affectedUserId: participant.userId,
+        relatedEntityId: activityId,
+        changeSource: "system",
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * Call off an activity that hasn't finished. It is kept, with its
+   * participants, so the history stays intact.
+   */
+  async cancel(
+    activity: Activity,
+    cancelledBy: { id: string; username: string | null },
+    reason: string,
+    now: Date = new Date()
+  ): Promise<LifecycleActionResult<Activity>> {
+    if (!["scheduled", "active"].includes(activity.completionStatus)) {
+      return {
+        success: false,
+        status: 400,
+        error: `Cannot cancel a ${activity.completionStatus} activity`,
+      };
+    }
+
+    // The status change, the chat notice and the change log stand or fall together
+    const cancelled = await db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(activities)
+        .set({
+          completionStatus: "cancelled",
+          cancelledAt: now,
+          cancellationReason: reason,
+          // Series-wide edits leave a cancelled occurrence alone
+          ...(activity.seriesId && { isSeriesException: true }),
+          updatedAt: now,
+        })
+        .where(
+          and(
+            eq(activities.id, activity.id),
+            inArray(activities.completionStatus, ["scheduled", "active"])
+          )
+        )
+        .returning();
+
+      if (!row) return null;
+
+      await this.unscheduleActivity(activity.id, tx);
+
+      await activityChatService.postSystemMessage(
+        activity,
+        cancelledBy,
+        `This activity has been cancelled: ${reason}`,
+        "system",
+        tx
+      );
+
+      const participants = await tx
+        .select({ userId: activityParticipants.userId })
+        .from(activityParticipants)
+        .where(
+          and(
+            eq(activityParticipants.activityId, activity.id),
+            ne(activityParticipants.userId, cancelledBy.id)
+          )
+        );
+
+      for (const participant of participants) {
+        await deltaTrackingService.trackChange(
+          {
+            entityType: "activity",
+            entityId: activity.id,
+            changeType: "update",
+            newData: {
+              activityId: activity.id,
+              description: activity.description,
+              completionStatus: "cancelled",
+              action: "cancel",
+              cancelledBy,
+              reason,
+            },
+            affectedUserId: participant.userId,
+            relatedEntityId: activity.id,
+            triggeredBy: cancelledBy.id,
+            changeSource: "user_action",
+          },
+          tx
+        );
+      }
+
+      return row;
+    });
+
+    if (!cancelled) {
+      return { success: false, status: 409, error: "Activity was already closed" };
+    }
+
+    console.log(`🚫 Activity ${activity.id} cancelled by ${cancelledBy.username}`);
+
+    return { success: true, result: cancelled };
+  }
+
+  /**
+   * Move a scheduled activity to a new time. Accepted participants other
+   * than the organizer must confirm their spot again or lose it.
+   */
+  async reschedule(
+    activity: Activity,
+    rescheduledBy: { id: string; username: string | null },
+    { dateTime, durationMinutes, reason }: RescheduleActivity,
+    now: Date = new Date()
+  ): Promise<
+    BookingResult<{ activity: Activity; confirmBy: Date; reconfirming: string[] }>
+  > {
+    if (activity.completionStatus !== "scheduled") {
+      return {
+        success: false,
+        status: 400,
+        error: "Only scheduled activities can be rescheduled",
+      };
+    }
+
+    if (dateTime <= now) {
+      return {
+        success: false,
+        status: 400,
+        error: "The new time must be in the future",
+      };
+    }
+
+    const move = async (executor: Pick<typeof db, "update">) => {
+      const [moved] = await executor
+        .update(activities)
+        .set({
+          dateTime,
+          ...(durationMinutes !== undefined && { durationMinutes }),
+          ...(activity.seriesId && { isSeriesException: true }),
+          updatedAt: now,
+        })
+        .where(eq(activities.id, activity.id))
+        .returning();
+      return moved;
+    };
+
+    // The new time, the jobs, the chat notice and the change log stand or fall together
+    const moved = await db.transaction(async (tx) => {
+      // A booked court has to be free at the new time as well
+      const booking = activity.venueResourceId
+        ? await venueService.book(
+            {
+              resourceId: activity.venueResourceId,
+              activityTypeId: activity.activityTypeId,
+              start: dateTime,
+              durationMinutes:
+                durationMinutes ?? activity.durationMinutes ?? DEFAULT_BOOKING_MINUTES,
+              maxParticipants: activity.maxParticipants,
+              excludeActivityId: activity.id,
+            },
+            (bookingTx) => move(bookingTx),
+            tx
+          )
+        : { success: true as const, result: await move(tx) };
+
+      if (!booking.success) return booking;
+
+      await this.scheduleActivity(booking.result, now, tx);
+      const reconfirmation = await this.askToReconfirm(
+        booking.result,
+        activity.dateTime,
+        rescheduledBy,
+        reason,
+        now,
+        tx
+      );
+
+      return {
+        success: true as const,
+        result: { activity: booking.result, ...reconfirmation },
+      };
+    });
+
+    if (!moved.success) return moved;
+
+    console.log(
+      `🗓️ Activity ${activity.id} moved to ${dateTime.toISOString()}, ${moved.result.reconfirming.length} to re-confirm`
+    );
+
+    return moved;
+  }
+
+  /**
+   * Tell everyone an activity has moved: post a notice in its chat and ask
+   * accepted participants other than the organizer to confirm again by a
+   * deadline. Used by reschedule and by series-wide time changes; pass the
+   * transaction that moved the activity so the notice commits with the move.
+   */
+  async askToReconfirm(
+    moved: Activity,
+    previousDateTime: Date,
+    movedBy: { id: string; username: string | null },
+    reason?: string,
+    now: Date = new Date(),
+    executor: TransactionExecutor = db
+  ): Promise<{ confirmBy: Date; reconfirming: string[] }> {
+    const confirmBy = new Date(
+      Math.min(now.getTime() + this.reconfirmHours() * HOUR, moved.dateTime.getTime())
+    );
+
+    const reconfirming = await executor
+      .update(activityParticipants)
+      .set({ confirmBy })
+      .where(
+        and(
+          eq(activityParticipants.activityId, moved.id),
+          eq(activityParticipants.status, "accepted"),
+          ne(activityParticipants.userId, moved.creatorId)
+        )
+      )
+      .returning({ userId: activityParticipants.userId });
+
+    const when = moved.dateTime.toISOString().replace("T", " ").slice(0, 16);
+    await activityChatService.postSystemMessage(
+      moved,
+      movedBy,
+      `This activity has moved to ${when} UTC${reason ? `: ${reason}` : ""}. ` +
+        "Please confirm you can still make it.",
+      "system",
+      executor
+    );
+
+    for (const { userId } of reconfirming) {
+      await deltaTrackingService.trackChange(
+        {
+          entityType: "activity",
+          entityId: moved.id,
+          changeType: "update",
+          newData: {
+            activityId: moved.id,
+            description: moved.description,
+            action: "reschedule",
+            previousDateTime,
+            dateTime: moved.dateTime,
+            confirmBy,
+            reason: reason ?? null,
+            rescheduledBy: movedBy,
+          },
+          affectedUserId: userId,
+          relatedEntityId: moved.id,
+          triggeredBy: movedBy.id,
+          changeSource: "user_action",
+        },
+        executor
+      );
+    }
+
+    return {
+      confirmBy,
+      reconfirming: reconfirming.map((participant) => participant.userId),
+    };
+  }
+
+  /**
+   * Move a scheduled activity to active once its start time has passed
+   */
+  async startActivity(
+    activityId: string,
+    now: Date = new Date()
+  ): Promise<Activity | null> {
+    const [started] = await db
+      .update(activities)
+      .set({ completionStatus: "active", updatedAt: now })
+      .where(
+        and(
+          eq(activities.id, activityId),
+          eq(activities.completionStatus, "scheduled"),
+          lte(activities.dateTime, now)
+        )
+      )
+      .returning();
+
+    if (!started) return null;
+
+    console.log(`▶️ Activity ${activityId} started`);
+
+    for (const userId of await this.acceptedUserIds(activityId)) {
+      await deltaTrackingService.trackChange({
+        entityType: "activity",
+        entityId: activityId,
+        changeType: "update",
+        newData: { activityId, completionStatus: "active" },
+        affectedUserId: userId,
+        relatedEntityId: activityId,
+        changeSource: "system",
+      });
+    }
+
+    return started;
+  }
+
+  /**
+   * Close an activity the creator never completed and flag accepted players
+   * who did not check in. No-shows are only flagged when check-in was used.
+   */
+  async closeActivity(
+    activityId: string,
+    now: Date = new Date()
+  ): Promise<{ closed: boolean; noShowUserIds: string[] }> {
+    const activity = await db.query.activities.findFirst({
+      where: eq(activities.id, activityId),
+    });
+
+    if (!activity || activity.completionStatus === "cancelled") {
+      return { closed: false, noShowUserIds: [] };
+    }
+
+    const closed = await db
+      .update(activities)
+      .set({ completionStatus: "completed", updatedAt: now })
+      .where(
+        and(
+          eq(activities.id, activityId),
+          inArray(activities.completionStatus, ["scheduled", "active"])
+        )
+      )
+      .returning();
+
+    const [{ count: checkedIn }] = await db
+      .select({ count: count() })
+      .from(activityParticipants)
+      .where(
+        and(
+          eq(activityParticipants.activityId, activityId),
+          isNotNull(activityParticipants.checkedInAt)
+        )
+      );
+
+    const noShows =
+      checkedIn > 0
+        ? await db
+            .update(activityParticipants)
+            .set({ isNoShow: true })
+            .where(
+              and(
+                eq(activityParticipants.activityId, activityId),
+                eq(activityParticipants.status, "accepted"),
+                isNull(activityParticipants.checkedInAt)
+              )
+            )
+            .returning({ userId: activityParticipants.userId })
+        : [];
+
+    const noShowUserIds = noShows.map((participant) => participant.userId);
+
+    if (closed.length > 0 || noShowUserIds.length > 0) {
+      console.log(
+        `🏁 Closed activity ${activityId} (${noShowUserIds.length} no-show(s))`
+      );
+
+      await deltaTrackingService.trackChange({
+        entityType: "activity",
+        entityId: activityId,
+        changeType: "update",
+        newData: {
+          activityId,
+          completionStatus: "completed",
+          autoClosed: closed.length > 0,
+          noShowUserIds,
+        },
+        affectedUserId: activity.creatorId,
+        relatedEntityId: activityId,
+        changeSource: "system",
+      });
+    }
+
+    return { closed: closed.length > 0, noShowUserIds };
+  }
+
+  /**
+   * Record that a participant turned up. Open from shortly before the start
+   * until the activity closes.
+   */
+  async checkIn(
+    activity: Activity,
+    userId: string,
+    now: Date = new Date()
+  ): Promise<
+    | { success: true; participant: typeof activityParticipants.$inferSelect }
+    | { success: false; status: 400 | 404; error: string }
+  > {
+    if (activity.completionStatus === "cancelled") {
+      return { success: false, status: 400, error: "Activity was cancelled" };
+    }
+
+    const opensAt = activity.dateTime.getTime() - CHECK_IN_OPENS_MS;
+    if (now.getTime() < opensAt || now > this.closeAt(activity)) {
+      return {
+        success: false,
+        status: 400,
+        error: "Check-in opens an hour before the start and closes with the activity",
+      };
+    }
+
+    const [participant] = await db
+      .update(activityParticipants)
+      .set({ checkedInAt: now, isNoShow: false })
+      .where(
+        and(
+          eq(activityParticipants.activityId, activity.id),
+          eq(activityParticipants.userId, userId),
+          eq(activityParticipants.status, "accepted")
+        )
+      )
+      .returning();
+
+    if (!participant) {
+      return {
+        success: false,
+        status: 404,
+        error: "No accepted participant to check in",
+      };
+    }
+
+    return { success: true, participant };
+  }
+
+  private async remindCreator(job: ScheduledJob, now: Date): Promise<void> {
+    const activity = await db.query.activities.findFirst({
+      where: eq(activities.id, job.entityId),
+    });
+
+    // Nothing to remind about once it is settled or about to auto-close
+    if (
+      !activity ||
+      !["scheduled", "active"].includes(activity.completionStatus) ||
+      now >= this.closeAt(activity)
+    ) {
+      return;
+    }
+
+    await deltaTrackingService.trackChange({
+      entityType: "activity",
+      entityId: activity.id,
+      changeType: "update",
+      newData: {
+        activityId: activity.id,
+        description: activity.description,
+        action: "results_reminder",
+        closesAt: this.closeAt(activity),
+      },
+      affectedUserId: activity.creatorId,
+      relatedEntityId: activity.id,
+      changeSource: "system",
+    });
+  }
+
+  private async acceptedUserIds(activityId: string): Promise<string[]> {
+    const rows = await db
+      .select({ userId: activityParticipants.userId })
+      .from(activityParticipants)
+      .where(
+        and(
+          eq(activityParticipants.activityId, activityId),
+          eq(activityParticipants.status, "accepted")
+        )
+      );
+    return rows.map((row) => row.userId);
+  }
+
+  private endOf(activity: Pick<Activity, "dateTime" | "durationMinutes">): Date {
+    const minutes = activity.durationMinutes ?? DEFAULT_BOOKING_MINUTES;
+    return new Date(activity.dateTime.getTime() + minutes * 60 * 1000);
+  }
+
+  private closeAt(activity: Pick<Activity, "dateTime" | "durationMinutes">): Date {
+    return new Date(this.endOf(activity).getTime() + this.autoCloseHours() * HOUR);
+  }
+
+  private fillCheckHours(): number {
+    const configured = parseFloat(process.env.ACTIVITY_FILL_CHECK_HOURS || "");
+    return Number.isFinite(configured) && configured >= 0
+      ? configured
+      : DEFAULT_FILL_CHECK_HOURS;
+  }
+
+  private reconfirmHours(): number {
+    const configured = parseFloat(process.env.ACTIVITY_RECONFIRM_HOURS || "");
+    return Number.isFinite(configured) && configured > 0
+      ? configured
+      : DEFAULT_RECONFIRM_HOURS;
+  }
+
+  private autoCloseHours(): number {
+    const configured = parseFloat(process.env.ACTIVITY_AUTO_CLOSE_HOURS || "");
+    return Number.isFinite(configured) && configured > 0
+      ? configured
+      : DEFAULT_AUTO_CLOSE_HOURS;
+  }
+}
+
+export const activityLifecycleService = new ActivityLifecycleService();
@@ -0,0 +1,607 @@
+// src/services/activity-results.service.ts - Result confirmation and disputes before ELO is applied
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "../db/client.js";
+import {
+  activities,
+  activityParticipants,
+  activityResultResponses,
+  activityResultSubmissions,
+  users,
+} from "../db/schema.js";
+import {
+  activityScoreSchema,
+  participantResultSchema,
+  type ActivityScore,
+  type CompleteActivity,
+  type ParticipantResult,
+  type ResolveResultDispute,
+  type RespondToResults,
+} from "../db/zod.schema.js";
+import { outcomesFromScore } from "../utils/match-score.js";
+import { deltaTrackingService } from "./delta-tracking.service.js";
+import { eloCalculationService } from "./elo-calc.service.js";
+import { eloProcessingService } from "./elo-processing.service.js";
+import { jobSchedulerService } from "./job-scheduler.service.js";
+
+type Activity = typeof activities.$inferSelect;
+type ResultSubmission = typeof activityResultSubmissions.$inferSelect;
+type ELOProcessingOutcome = Awaited<
+  ReturnType<typeof eloProcessingService.onActivityCompletion>
+>;
+
+export type ResultsActionResult<T> =
+  | { success: true; result: T }
+  | { success: false; status: 400 | 403 | 404 | 409; error: string };
+
+// Outcomes to store, with the score they came from when one was given
+export interface SettledResults {
+  participantResults: ParticipantResult[];
+  score: ActivityScore | null;
+}
+
+export interface FinalizedResults {
+  submission: ResultSubmission;
+  eloProcessing: ELOProcessingOutcome | { success: false; error: string } | null;
+}
+
+export const RESULTS_WINDOW_JOB = "activity.results_window";
+
+const HOUR = 60 * 60 * 1000;
+const DEFAULT_CONFIRMATION_HOURS = 24;
+
+const storedResultsSchema = z.array(participantResultSchema);
+
+export class ActivityResultsService {
+  constructor() {
+    jobSchedulerService.register(RESULTS_WINDOW_JOB, (job, now) =>
+      this.closeConfirmationWindow(job.entityId, now).then(() => undefined)
+    );
+  }
+
+  /**
+   * Record the creator's results as proposed. The other participants get a
+   * window to confirm or dispute them; with nobody to ask they apply at once.
+   * A score, when given, decides the outcomes.
+   */
+  async propose(
+    activity: Activity,
+    submitter: { id: string; username: string | null },
+    data: CompleteActivity,
+    now: Date = new Date()
+  ): Promise<ResultsActionResult<FinalizedResults>> {
+    const settled = data.score
+      ? await this.resultsFromScore(activity, data.score, data.participantResults)
+      : {
+          success: true as const,
+          result: { participantResults: data.participantResults, score: null },
+        };
+
+    if (!settled.success) return settled;
+
+    const [submission] = await db
+      .insert(activityResultSubmissions)
+      .values({
+        activityId: activity.id,
+        submittedBy: submitter.id,
+        participantResults: settled.result.participantResults,
+        score: settled.result.score,
+        completionNotes: data.completionNotes,
+        respondBy: new Date(now.getTime() + this.confirmationHours() * HOUR),
+      })
+      .returning();
+
+    const outstanding = await this.outstandingConfirmations(submission);
+    if (outstanding.length === 0) {
+      const finalized = await this.finalize(submission, "confirmed", settled.result);
+      return {
+        success: true,
+        result: finalized ?? { submission, eloProcessing: null },
+      };
+    }
+
+    await jobSchedulerService.schedule(
+      RESULTS_WINDOW_JOB,
+      activity.id,
+      submission.respondBy
+    );
+
+    for (const participant of await this.acceptedParticipants(activity.id)) {
+      await deltaTrackingService.trackChange({
+        entityType: "activity",
+        entityId: activity.id,
+        changeType: "update",
+        newData: {
+          activityId: activity.id,
+          description: activity.description,
+          action: "results_proposed",
+          submittedBy: submitter,
+          respondBy: submission.respondBy,
+        },
+        affectedUserId: participant.userId,
+        relatedEntityId: activity.id,
+        triggeredBy: submitter.id,
+        changeSource: "user_action",
+      });
+    }
+
+    return { success: true, result: { submission, eloProcessing: null } };
+  }
+
+  /**
+   * Confirm or dispute proposed results. A dispute sends them to the
+   * moderator queue; the last confirmation needed applies them.
+   */
+  async respond(
+    activityId: string,
+    user: { id: string; username: string | null },
+    { response, reason }: RespondToResults,
+    now: Date = new Date()
+  ): Promise<ResultsActionResult<FinalizedResults>> {
+    const submission = await db.query.activityResultSubmissions.findFirst({
+      where: eq(activityResultSubmissions.activityId, activityId),
+    });
+
+    if (!submission) {
+      return { success: false, status: 404, error: "No results have been submitted" };
+    }
+
+    if (submission.status !== "proposed" || now > submission.respondBy) {
+      return {
+        success: false,
+        status: 400,
+        error: "Results are no longer open for confirmation",
+      };
+    }
+
+    if (submission.submittedBy === user.id) {
+      return { success: false, status: 400, error: "You submitted these results" };
+    }
+
+    const participant = await db.query.activityParticipants.findFirst({
+      where: and(
+        eq(activityParticipants.activityId, activityId),
+        eq(activityParticipants.userId, user.id),
+        eq(activityParticipants.status, "accepted")
+      ),
+    });
+
+    if (!participant) {
+      return {
+        success: false,
+        status: 403,
+        error: "Only participants can confirm or dispute results",
+      };
+    }
+
+    const [recorded] = await db
+      .insert(activityResultResponses)
+      .values({
+        submissionId: submission.id,
+        userId: user.id,
+        team: participant.team,
+        response,
+        reason,
+      })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!recorded) {
+      return {
+        success: false,
+        status: 409,
+        error: "You have already responded to these results",
+      };
+    }
+
+    if (response === "dispute") {
+      const [disputed] = await db
+        .update(activityResultSubmissions)
+        .set({ status: "disputed", updatedAt: now })
+        .where(
+          and(
+            eq(activityResultSubmissions.id, submission.id),
+            eq(activityResultSubmissions.status, "proposed")
+          )
+        )
+        .returning();
+
+      await jobSchedulerService.cancel(activityId, [RESULTS_WINDOW_JOB]);
+
+      console.log(`⚠️ Results for activity ${activityId} disputed by ${user.username}`);
+
+      if (submission.submittedBy) {
+        const activity = await db.query.activities.findFirst({
+          where: eq(activities.id, activityId),
+        });
+
+        await deltaTrackingService.trackChange({
+          entityType: "activity",
+          entityId: activityId,
+          changeType: "update",
+          newData: {
+            activityId,
+            description: activity?.description,
+            action: "results_disputed",
+            disputedBy: { id: user.id, username: user.username },
+            reason,
+          },
+          affectedUserId: submission.submittedBy,
+          relatedEntityId: activityId,
+          triggeredBy: user.id,
+          changeSource: "user_action",
+        });
+      }
+
+      return {
+        success: true,
+        result: { submission: disputed ?? submission, eloProcessing: null },
+      };
+    }
+
+    const outstanding = await this.outstandingConfirmations(submission);
+    if (outstanding.length === 0) {
+      const finalized = await this.finalize(
+        submission,
+        "confirmed",
+        this.storedResults(submission)
+      );
+      if (finalized) return { success: true, result: finalized };
+    }
+
+    return { success: true, result: { submission, eloProcessing: null } };
+  }
+
+  /**
+   * Settle a disputed submission (moderators and admins)
+   */
+  async resolveDispute(
+    submissionId: string,
+    moderatorId: string,
+    { decision, participantResults, score, note }: ResolveResultDispute
+  ): Promise<ResultsActionResult<FinalizedResults>> {
+    const submission = await db.query.activityResultSubmissions.findFirst({
+      where: eq(activityResultSubmissions.id, submissionId),
+    });
+
+    if (!submission) {
+      return { success: false, status: 404, error: "Result submission not found" };
+    }
+
+    if (submission.status !== "disputed") {
+      return { success: false, status: 400, error: "These results are not disputed" };
+    }
+
+    let results: SettledResults | null = null;
+    if (decision === "uphold") {
+      results = this.storedResults(submission);
+    } else if (decision === "amend" && score) {
+      const activity = await db.query.activities.findFirst({
+        where: eq(activities.id, submission.activityId),
+      });
+      const amended = await this.resultsFromScore(activity!, score, participantResults ?? []);
+      if (!amended.success) return amended;
+      results = amended.result;
+    } else if (decision === "amend") {
+      // Amended outcomes replace the score they no longer match
+      results = { participantResults: participantResults!, score: null };
+    }
+
+    const finalized = await this.finalize(submission, "resolved", results, {
+      resolvedBy: moderatorId,
+      note: note ?? null,
+    });
+
+    if (!finalized) {
+      return { success: false, status: 409, error: "The dispute was already resolved" };
+    }
+
+    console.log(`⚖️ Dispute on activity ${submission.activityId} resolved: ${decision}`);
+
+    return { success: true, result: finalized };
+  }
+
+  /**
+   * Apply proposed results nobody disputed once the window has passed
+   */
+  async closeConfirmationWindow(
+    activityId: string,
+    now: Date = new Date()
+  ): Promise<FinalizedResults | null> {
+    const submission = await db.query.activityResultSubmissions.findFirst({
+      where: eq(activityResultSubmissions.activityId, activityId),
+    });
+
+    if (!submission || submission.status !== "proposed" || now < submission.respondBy) {
+      return null;
+    }
+
+    console.log(`⌛ Confirmation window lapsed for activity ${activityId}`);
+
+    return this.finalize(submission, "confirmed", this.storedResults(submission));
+  }
+
+  /**
+   * The activity's submitted results with every response so far
+   */
+  async getResults(activityId: string) {
+    const submission = await db.query.activityResultSubmissions.findFirst({
+      where: eq(activityResultSubmissions.activityId, activityId),
+    });
+
+    if (!submission) return null;
+
+    const responses = await this.responsesFor([submission.id]);
+
+    return {
+      ...submission,
+      ...this.storedResults(submission),
+      responses,
+      outstandingConfirmations:
+        submission.status === "proposed"
+          ? (await this.outstandingConfirmations(submission)).length
+          : 0,
+    };
+  }
+
+  /**
+   * Disputed results waiting for a moderator, oldest first
+   */
+  async getDisputeQueue() {
+    const disputed = await db
+      .select({
+        submission: activityResultSubmissions,
+        activity: {
+          id: activities.id,
+          description: activities.description,
+          dateTime: activities.dateTime,
+          activityTypeId: activities.activityTypeId,
+          isELORated: activities.isELORated,
+        },
+        submitter: {
+          id: users.id,
+          username: users.username,
+        },
+      })
+      .from(activityResultSubmissions)
+      .innerJoin(activities, eq(activities.id, activityResultSubmissions.activityId))
+      .leftJoin(users, eq(users.id, activityResultSubmissions.submittedBy))
+      .where(eq(activityResultSubmissions.status, "disputed"))
+      .orderBy(asc(activityResultSubmissions.updatedAt));
+
+    const responses = await this.responsesFor(
+      disputed.map(({ submission }) => submission.id)
+    );
+
+    return disputed.map(({ submission, activity, submitter }) => ({
+      ...submission,
+      ...this.storedResults(submission),
+      activity,
+      submitter,
+      responses: responses.filter((r) => r.submissionId === submission.id),
+    }));
+  }
+
+  /**
+   * Mark the submission settled, store the results on the participants and
+   * run ELO for rated activities. Null when it was already settled.
+   */
+  private async finalize(
+    submission: ResultSubmission,
+    status: "confirmed" | "resolved",
+    results: SettledResults | null,
+    resolution?: { resolvedBy: string; note: string | null }
+  ): Promise<FinalizedResults | null> {
+    const now = new Date();
+
+    const [settled] = await db
+      .update(activityResultSubmissions)
+      .set({
+        status,
+        ...(results && {
+          participantResults: results.participantResults,
+          score: results.score,
+        }),
+        resolvedBy: resolution?.resolvedBy,
+        resolutionNote: resolution?.note,
+        resolvedAt: resolution ? now : undefined,
+        updatedAt: now,
+      })
+      .where(
+        and(
+          eq(activityResultSubmissions.id, submission.id),
+          inArray(activityResultSubmissions.status, ["proposed", "disputed"])
+        )
+      )
+      .returning();
+
+    if (!settled) return null;
+
+    await jobSchedulerService.cancel(submission.activityId, [RESULTS_WINDOW_JOB]);
+
+    // Voided results leave the activity unrated
+    if (!results) return { submission: settled, eloProcessing: null };
+
+    for (const result of results.participantResults) {
+      await db
+        .update(activityParticipants)
+        .set({
+          finalResult: result.finalResult,
+          placement: result.placement ?? null,
+          performanceNotes: result.performanceNotes,
+        })
+        .where(
+          and(
+            eq(activityParticipants.activityId, submission.activityId),
+            eq(activityParticipants.userId, result.userId)
+          )
+        );
+    }
+
+    const [activity] = await db
+      .update(activities)
+      .set({ score: results.score, updatedAt: now })
+      .where(eq(activities.id, submission.activityId))
+      .returning();
+
+    if (!activity?.isELORated) return { submission: settled, eloProcessing: null };
+
+    try {
+      console.log(`🏆 Starting ELO processing for activity: ${activity.id}`);
+
+      const eloProcessing = await eloProcessingService.onActivityCompletion({
+        activityId: activity.id,
+        results: results.participantResults,
+      });
+      return { submission: settled, eloProcessing };
+    } catch (error) {
+      console.error("ELO processing failed:", error);
+      return {
+        submission: settled,
+        eloProcessing: {
+          success: false,
+          error: error instanceof Error ? error.message : "ELO processing failed",
+        },
+      };
+    }
+  }
+
+  /**
+   * Teams, or untethered players, that still have to confirm. The
+   * submitter's own team counts as confirmed.
+   */
+  private async outstandingConfirmations(
+    submission: ResultSubmission
+  ): Promise<string[]> {
+    const participants = await this.acceptedParticipants(submission.activityId);
+    const submitterTeam = participants.find(
+      (participant) => participant.userId === submission.submittedBy
+    )?.team;
+
+    const confirmations = await db
+      .select({
+        userId: activityResultResponses.userId,
+        team: activityResultResponses.team,
+      })
+      .from(activityResultResponses)
+      .where(
+        and(
+          eq(activityResultResponses.submissionId, submission.id),
+          eq(activityResultResponses.response, "confirm")
+        )
+      );
+
+    const unitOf = (p: { userId: string; team: string | null }) =>
+      p.team ? `team:${p.team}` : `user:${p.userId}`;
+    const confirmed = new Set(confirmations.map(unitOf));
+
+    const required = new Set(
+      participants
+        .filter(
+          (participant) =>
+            participant.userId !== submission.submittedBy &&
+            (!participant.team || participant.team !== submitterTeam)
+        )
+        .map(unitOf)
+    );
+
+    return [...required].filter((unit) => !confirmed.has(unit));
+  }
+
+  private async acceptedParticipants(activityId: string) {
+    return db
+      .select({
+        userId: activityParticipants.userId,
+        team: activityParticipants.team,
+      })
+      .from(activityParticipants)
+      .where(
+        and(
+          eq(activityParticipants.activityId, activityId),
+          eq(activityParticipants.status, "accepted")
+        )
+      );
+  }
+
+  private async responsesFor(submissionIds: string[]) {
+    if (submissionIds.length === 0) return [];
+
+    return db
+      .select({
+        submissionId: activityResultResponses.submissionId,
+        response: activityResultResponses.response,
+        reason: activityResultResponses.reason,
+        team: activityResultResponses.team,
+        createdAt: activityResultResponses.createdAt,
+        user: {
+          id: users.id,
+          username: users.username,
+        },
+      })
+      .from(activityResultResponses)
+      .innerJoin(users, eq(users.id, activityResultResponses.userId))
+      .where(inArray(activityResultResponses.submissionId, submissionIds))
+      .orderBy(desc(activityResultResponses.createdAt));
+  }
+
+  /**
+   * Derive every accepted participant's outcome from a score in the activity
+   * type's result format, keeping any performance notes sent along
+   */
+  private async resultsFromScore(
+    activity: Activity,
+    score: ActivityScore,
+    notes: ParticipantResult[]
+  ): Promise<ResultsActionResult<SettledResults>> {
+    const { resultFormat } = await eloCalculationService.getActivityTypeELOSettings(
+      activity.activityTypeId
+    );
+
+    if (score.format !== resultFormat) {
+      return {
+        success: false,
+        status: 400,
+        error:
+          resultFormat === "outcome"
+            ? "This activity type records win, loss or draw only"
+            : `This activity type records results as ${resultFormat}`,
+      };
+    }
+
+    const outcome = outcomesFromScore(
+      score,
+      await this.acceptedParticipants(activity.id)
+    );
+    if (!outcome.success) {
+      return { success: false, status: 400, error: outcome.error };
+    }
+
+    return {
+      success: true,
+      result: {
+        participantResults: outcome.results.map((result) => ({
+          ...result,
+          performanceNotes: notes.find((note) => note.userId === result.userId)
+            ?.performanceNotes,
+        })),
+        score,
+      },
+    };
+  }
+
+  private storedResults(submission: ResultSubmission): SettledResults {
+    return {
+      participantResults: storedResultsSchema.parse(submission.participantResults),
+      score: activityScoreSchema.nullable().parse(submission.score),
+    };
+  }
+
+  private confirmationHours(): number {
+    const configured = parseFloat(process.env.RESULTS_CONFIRMATION_HOURS || "");
+    return Number.isFinite(configured) && configured > 0
+      ? configured
+      : DEFAULT_CONFIRMATION_HOURS;
+  }
+}
+
+export const activityResultsService = new ActivityResultsService();
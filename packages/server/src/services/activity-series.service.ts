@@ -0,0 +1,714 @@
+// src/services/activity-series.service.ts - Recurring activities created ahead on a rolling horizon
+import {
+  TransactionRollbackError,
+  and,
+  asc,
+  count,
+  eq,
+  gt,
+  gte,
+  inArray,
+  isNull,
+  lt,
+  or,
+} from "drizzle-orm";
+import { db } from "../db/client.js";
+import {
+  activities,
+  activityParticipants,
+  activitySeries,
+  activitySeriesRegulars,
+  users,
+  venueResources,
+  venues,
+} from "../db/schema.js";
+import type { Recurrence, UpdateActivity } from "../db/zod.schema.js";
+import {
+  addDays,
+  localDate,
+  localTime,
+  weekdayOf,
+  zonedTimeToUtc,
+} from "../utils/time-zone.js";
+import {
+  activityService,
+  type ActivityCreationResult,
+  type ActivityCreator,
+  type ActivityDraft,
+} from "./activity.service.js";
+import {
+  DEFAULT_BOOKING_MINUTES,
+  venueService,
+  type BookingResult,
+} from "./venue.service.js";
+
+// Days ahead that occurrences exist for
+const DEFAULT_HORIZON_DAYS = 28;
+const MATERIALIZE_CHECK_INTERVAL = 6 * 60 * 60 * 1000;
+const DAY = 24 * 60 * 60 * 1000;
+
+const RRULE_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// Template fields an edit to "this and following occurrences" carries over
+const SERIES_TEMPLATE_FIELDS = [
+  "activityTypeId",
+  "description",
+  "location",
+  "venueId",
+  "venueResourceId",
+  "durationMinutes",
+  "maxParticipants",
+  "waitlistConfirmHours",
+  "eloLevel",
+  "skillRequirements",
+  "isELORated",
+] as const;
+
+// Changing any of these moves or resizes a court booking
+const BOOKING_FIELDS = [
+  "venueResourceId",
+  "venueId",
+  "activityTypeId",
+  "durationMinutes",
+  "maxParticipants",
+];
+
+type Activity = typeof activities.$inferSelect;
+type ActivitySeries = typeof activitySeries.$inferSelect;
+type BookingFailure = Extract<BookingResult<never>, { success: false }>;
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface RecurrenceRule {
+  startDate: string;
+  intervalWeeks: number;
+  weekdays: number[];
+  untilDate?: string | null;
+  occurrenceCount?: number | null;
+}
+
+export type SeriesCreationResult =
+  | (Extract<ActivityCreationResult, { success: true }> & {
+      series: ActivitySeries;
+      occurrences: Activity[];
+    })
+  | BookingFailure;
+
+/**
+ * Occurrence dates of the rule from its start through the given date. Weeks
+ * run Monday to Sunday, so a bi-weekly rule skips every other such week.
+ */
+export function occurrenceDates(rule: RecurrenceRule, through: string): string[] {
+  const last = rule.untilDate && rule.untilDate < through ? rule.untilDate : through;
+  const weekdays = new Set(rule.weekdays);
+  const daysSinceMonday = (weekdayOf(rule.startDate) + 6) % 7;
+
+  const dates: string[] = [];
+  for (let offset = 0; ; offset++) {
+    const date = addDays(rule.startDate, offset);
+    if (date > last) break;
+    if (rule.occurrenceCount && dates.length >= rule.occurrenceCount) break;
+
+    const week = Math.floor((offset + daysSinceMonday) / 7);
+    if (week % rule.intervalWeeks === 0 && weekdays.has(weekdayOf(date))) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+/**
+ * The rule as an iCalendar RRULE, e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=10
+ */
+export function toRRule(rule: RecurrenceRule): string {
+  const parts = [
+    "FREQ=WEEKLY",
+    `INTERVAL=${rule.intervalWeeks}`,
+    `BYDAY=${[...rule.weekdays]
+      .sort((a, b) => a - b)
+      .map((day) => RRULE_WEEKDAYS[day])
+      .join(",")}`,
+  ];
+  if (rule.untilDate) parts.push(`UNTIL=${rule.untilDate.replace(/-/g, "")}`);
+  if (rule.occurrenceCount) parts.push(`COUNT=${rule.occurrenceCount}`);
+  return parts.join(";");
+}
+
+const isUniqueViolation = (error: unknown) =>
+  (error as { code?: string } | null)?.code === "23505";
+
+export class ActivitySeriesService {
+  private schedulerInterval: NodeJS.Timeout | null = null;
+
+  /**
+   * Start a series with the given activity as its first occurrence, then create
+   * the occurrences that fall within the horizon. The creator is the first regular.
+   */
+  async createSeries(
+    creator: ActivityCreator,
+    data: ActivityDraft,
+    recurrence: Recurrence,
+    now: Date = new Date()
+  ): Promise<SeriesCreationResult> {
+    const timeZone =
+      recurrence.timeZone ?? (await this.venueTimeZone(data)) ?? "UTC";
+    const startDate = localDate(data.dateTime, timeZone);
+
+    if (!recurrence.weekdays.includes(weekdayOf(startDate))) {
+      return {
+        success: false,
+        status: 400,
+        error: "The first occurrence must fall on one of the recurrence weekdays",
+      };
+    }
+    if (recurrence.until && recurrence.until < startDate) {
+      return {
+        success: false,
+        status: 400,
+        error: "The recurrence ends before its first occurrence",
+      };
+    }
+    // Regulars play under free-form team names, not for team rosters
+    if (data.homeTeamId || data.awayTeamId) {
+      return {
+        success: false,
+        status: 400,
+        error: "Fixtures between teams can't recur",
+      };
+    }
+
+    const series = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(activitySeries)
+        .values({
+          activityTypeId: data.activityTypeId,
+          creatorId: creator.id,
+          description: data.description,
+          location: data.location,
+          venueId: data.venueId,
+          venueResourceId: data.venueResourceId,
+          durationMinutes: data.durationMinutes,
+          maxParticipants: data.maxParticipants,
+          waitlistConfirmHours: data.waitlistConfirmHours,
+          eloLevel: data.eloLevel,
+          skillRequirements: data.skillRequirements || {},
+          isELORated: data.isELORated || false,
+          timeZone,
+          startDate,
+          startTime: localTime(data.dateTime, timeZone),
+          intervalWeeks: recurrence.frequency === "biweekly" ? 2 : 1,
+          weekdays: [...new Set(recurrence.weekdays)],
+          untilDate: recurrence.until,
+          occurrenceCount: recurrence.count,
+        })
+        .returning();
+
+      await tx.insert(activitySeriesRegulars).values({
+        seriesId: created.id,
+        userId: creator.id,
+        team: data.creatorTeam || null,
+      });
+
+      return created;
+    });
+
+    const first = await activityService.createActivity(creator, data, {
+      seriesId: series.id,
+      seriesOccurrenceDate: startDate,
+    });
+
+    // Without its first occurrence (e.g. the court is taken) there is no series
+    if (!first.success) {
+      await db.delete(activitySeries).where(eq(activitySeries.id, series.id));
+      return first;
+    }
+
+    const occurrences = await this.materialize(series.id, now);
+
+    return {
+      ...first,
+      series,
+      occurrences: [first.activity, ...occurrences],
+    };
+  }
+
+  /**
+   * Create the occurrences between the last materialised date and the horizon.
+   * Regulars join each new occurrence; dates whose court is taken are skipped.
+   */
+  async materialize(seriesId: string, now: Date = new Date()): Promise<Activity[]> {
+    const series = await db.query.activitySeries.findFirst({
+      where: eq(activitySeries.id, seriesId),
+    });
+    if (!series || !series.isActive) return [];
+
+    const creator = await db.query.users.findFirst({
+      where: eq(users.id, series.creatorId),
+      columns: { id: true, username: true },
+    });
+    if (!creator) return [];
+
+    const horizon = localDate(
+      new Date(now.getTime() + this.horizonDays() * DAY),
+      series.timeZone
+    );
+    const dates = occurrenceDates(series, horizon);
+
+    const existing = await db
+      .select({ date: activities.seriesOccurrenceDate })
+      .from(activities)
+      .where(eq(activities.seriesId, seriesId));
+    const existingDates = new Set(existing.map((row) => row.date));
+
+    const regulars = await db
+      .select({
+        userId: activitySeriesRegulars.userId,
+        team: activitySeriesRegulars.team,
+      })
+      .from(activitySeriesRegulars)
+      .where(eq(activitySeriesRegulars.seriesId, seriesId))
+      .orderBy(asc(activitySeriesRegulars.createdAt));
+    const creatorTeam =
+      regulars.find((regular) => regular.userId === series.creatorId)?.team ?? null;
+
+    const created: Activity[] = [];
+    for (const date of dates) {
+      if (existingDates.has(date)) continue;
+      if (series.materializedThrough && date <= series.materializedThrough) continue;
+
+      const draft = this.draftFor(series, date, creatorTeam);
+      if (draft.dateTime < now) continue;
+
+      try {
+        const result = await activityService.createActivity(creator, draft, {
+          seriesId,
+          seriesOccurrenceDate: date,
+          regulars,
+        });
+
+        if (result.success) {
+          created.push(result.activity);
+        } else {
+          console.log(`⚠️ Skipped ${date} of series ${seriesId}: ${result.error}`);
+        }
+      } catch (error) {
+        // Another run created this occurrence first
+        if (isUniqueViolation(error)) continue;
+        throw error;
+      }
+    }
+
+    const finished =
+      (series.untilDate !== null && series.untilDate <= horizon) ||
+      (series.occurrenceCount !== null && dates.length >= series.occurrenceCount);
+
+    await db
+      .update(activitySeries)
+      .set({ materializedThrough: horizon, isActive: !finished, updatedAt: now })
+      .where(eq(activitySeries.id, seriesId));
+
+    if (created.length > 0) {
+      console.log(`🔁 Created ${created.length} occurrence(s) of series ${seriesId}`);
+    }
+    return created;
+  }
+
+  /**
+   * Extend every active series whose occurrences stop short of the horizon
+   */
+  async materializeDueSeries(now: Date = new Date()): Promise<number> {
+    const horizon = addDays(now.toISOString().slice(0, 10), this.horizonDays());
+
+    const due = await db
+      .select({ id: activitySeries.id })
+      .from(activitySeries)
+      .where(
+        and(
+          eq(activitySeries.isActive, true),
+          or(
+            isNull(activitySeries.materializedThrough),
+            lt(activitySeries.materializedThrough, horizon)
+          )
+        )
+      );
+
+    let created = 0;
+    for (const { id } of due) {
+      try {
+        created += (await this.materialize(id, now)).length;
+      } catch (error) {
+        console.error(`❌ Materialising series ${id} failed:`, error);
+      }
+    }
+    return created;
+  }
+
+  /**
+   * Apply an edit to an occurrence and every later occurrence that wasn't
+   * edited on its own, and to the series template. Only the time of day can
+   * change; court bookings are re-checked and the edit is all or nothing.
+   * `onUpdated` runs inside the same transaction for every updated occurrence
+   * with its row from before the edit.
+   */
+  async updateFollowing(
+    occurrence: Activity,
+    updates: UpdateActivity,
+    now: Date = new Date(),
+    onUpdated?: (
+      tx: Transaction,
+      updated: Activity,
+      previous: Activity
+    ) => Promise<void>
+  ): Promise<BookingResult<Activity[]>> {
+    const series = occurrence.seriesId
+      ? await db.query.activitySeries.findFirst({
+          where: eq(activitySeries.id, occurrence.seriesId),
+        })
+      : undefined;
+
+    if (!series || !occurrence.seriesOccurrenceDate) {
+      return { success: false, status: 404, error: "Activity series not found" };
+    }
+
+    const template = Object.fromEntries(
+      SERIES_TEMPLATE_FIELDS.filter((key) => updates[key] !== undefined).map(
+        (key) => [key, updates[key]]
+      )
+    ) as Partial<Pick<typeof activities.$inferInsert, (typeof SERIES_TEMPLATE_FIELDS)[number]>>;
+
+    let startTime = series.startTime;
+    if (updates.dateTime) {
+      const moved = new Date(updates.dateTime);
+      if (localDate(moved, series.timeZone) !== occurrence.seriesOccurrenceDate) {
+        return {
+          success: false,
+          status: 400,
+          error:
+            "Only the time of day can change for following occurrences; move a single occurrence with POST /activities/:id/reschedule",
+        };
+      }
+      startTime = localTime(moved, series.timeZone);
+    }
+
+    const timeChanged = startTime !== series.startTime;
+    const touchesBooking =
+      timeChanged || BOOKING_FIELDS.some((key) => key in template);
+    const outcome: { rejected?: BookingFailure } = {};
+
+    try {
+      const updated = await db.transaction(async (tx) => {
+        const targets = await tx
+          .select()
+          .from(activities)
+          .where(
+            and(
+              eq(activities.seriesId, series.id),
+              eq(activities.completionStatus, "scheduled"),
+              gte(activities.seriesOccurrenceDate, occurrence.seriesOccurrenceDate!),
+              or(
+                eq(activities.isSeriesException, false),
+                eq(activities.id, occurrence.id)
+              )
+            )
+          )
+          .orderBy(asc(activities.dateTime));
+
+        const results: Activity[] = [];
+        let venueId = template.venueId ?? series.venueId;
+
+        for (const target of targets) {
+          const dateTime = timeChanged
+            ? zonedTimeToUtc(target.seriesOccurrenceDate!, startTime, series.timeZone)
+            : target.dateTime;
+
+          const write = async (
+            executor: Pick<typeof db, "update">,
+            extra: Partial<typeof activities.$inferInsert> = {}
+          ) => {
+            const [row] = await executor
+              .update(activities)
+              .set({ ...template, dateTime, ...extra, updatedAt: now })
+              .where(eq(activities.id, target.id))
+              .returning();
+            return row;
+          };
+
+          const resourceId = template.venueResourceId ?? target.venueResourceId;
+          if (!resourceId || !touchesBooking) {
+            results.push(await write(tx));
+            continue;
+          }
+
+          const booking = await venueService.book(
+            {
+              resourceId,
+              activityTypeId: template.activityTypeId ?? target.activityTypeId,
+              start: dateTime,
+              durationMinutes:
+                template.durationMinutes ??
+                target.durationMinutes ??
+                DEFAULT_BOOKING_MINUTES,
+              maxParticipants: template.maxParticipants ?? target.maxParticipants,
+              venueId: template.venueId,
+              excludeActivityId: target.id,
+            },
+            (bookingTx, booked) => {
+              venueId = booked.venueId;
+              return write(bookingTx, { venueId: booked.venueId });
+            },
+            tx
+          );
+
+          if (!booking.success) {
+            outcome.rejected = booking;
+            tx.rollback();
+          } else {
+            results.push(booking.result);
+          }
+        }
+
+        if (onUpdated) {
+          for (const [index, updated] of results.entries()) {
+            await onUpdated(tx, updated, targets[index]);
+          }
+        }
+
+        await tx
+          .update(activitySeries)
+          .set({ ...template, venueId, startTime, updatedAt: now })
+          .where(eq(activitySeries.id, series.id));
+
+        return results;
+      });
+
+      return { success: true, result: updated };
+    } catch (error) {
+      if (error instanceof TransactionRollbackError && outcome.rejected) {
+        return outcome.rejected;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Make a player a regular and add them to upcoming occurrences with room
+   */
+  async addRegular(
+    seriesId: string,
+    userId: string,
+    team: string | null = null,
+    now: Date = new Date()
+  ): Promise<Activity[]> {
+    await db
+      .insert(activitySeriesRegulars)
+      .values({ seriesId, userId, team })
+      .onConflictDoUpdate({
+        target: [activitySeriesRegulars.seriesId, activitySeriesRegulars.userId],
+        set: { team },
+      });
+
+    const upcoming = await this.upcomingOccurrences(seriesId, now);
+    const joined: Activity[] = [];
+
+    for (const occurrence of upcoming) {
+      const [{ count: accepted }] = await db
+        .select({ count: count() })
+        .from(activityParticipants)
+        .where(
+          and(
+            eq(activityParticipants.activityId, occurrence.id),
+            eq(activityParticipants.status, "accepted")
+          )
+        );
+      if (occurrence.maxParticipants !== null && accepted >= occurrence.maxParticipants) {
+        continue;
+      }
+
+      await db
+        .insert(activityParticipants)
+        .values({ activityId: occurrence.id, userId, status: "accepted", team })
+        .onConflictDoUpdate({
+          target: [activityParticipants.activityId, activityParticipants.userId],
+          set: { status: "accepted", team },
+        });
+      joined.push(occurrence);
+    }
+
+    return joined;
+  }
+
+  /**
+   * Drop a regular and free their spots in upcoming occurrences
+   */
+  async removeRegular(
+    seriesId: string,
+    userId: string,
+    now: Date = new Date()
+  ): Promise<boolean> {
+    const [removed] = await db
+      .delete(activitySeriesRegulars)
+      .where(
+        and(
+          eq(activitySeriesRegulars.seriesId, seriesId),
+          eq(activitySeriesRegulars.userId, userId)
+        )
+      )
+      .returning();
+    if (!removed) return false;
+
+    const upcoming = await this.upcomingOccurrences(seriesId, now);
+    if (upcoming.length > 0) {
+      await db.delete(activityParticipants).where(
+        and(
+          eq(activityParticipants.userId, userId),
+          inArray(
+            activityParticipants.activityId,
+            upcoming.map((occurrence) => occurrence.id)
+          )
+        )
+      );
+    }
+    return true;
+  }
+
+  /**
+   * Stop the series and cancel its occurrences that haven't started yet
+   */
+  async endSeries(seriesId: string, now: Date = new Date()): Promise<Activity[]> {
+    return db.transaction(async (tx) => {
+      const [series] = await tx
+        .update(activitySeries)
+        .set({ isActive: false, updatedAt: now })
+        .where(eq(activitySeries.id, seriesId))
+        .returning();
+      if (!series) return [];
+
+      const today = localDate(now, series.timeZone);
+      if (!series.untilDate || series.untilDate > today) {
+        await tx
+          .update(activitySeries)
+          .set({ untilDate: today, occurrenceCount: null })
+          .where(eq(activitySeries.id, seriesId));
+      }
+
+      return tx
+        .update(activities)
+        .set({ completionStatus: "cancelled", updatedAt: now })
+        .where(
+          and(
+            eq(activities.seriesId, seriesId),
+            eq(activities.completionStatus, "scheduled"),
+            gt(activities.dateTime, now)
+          )
+        )
+        .returning();
+    });
+  }
+
+  /**
+   * Series with its recurrence rule, regulars and upcoming occurrences
+   */
+  async getSeriesDetails(seriesId: string, now: Date = new Date()) {
+    const series = await db.query.activitySeries.findFirst({
+      where: eq(activitySeries.id, seriesId),
+    });
+    if (!series) return null;
+
+    const [regulars, upcoming] = await Promise.all([
+      db
+        .select({
+          id: users.id,
+          username: users.username,
+          avatarUrl: users.avatarUrl,
+          team: activitySeriesRegulars.team,
+        })
+        .from(activitySeriesRegulars)
+        .innerJoin(users, eq(users.id, activitySeriesRegulars.userId))
+        .where(eq(activitySeriesRegulars.seriesId, seriesId))
+        .orderBy(asc(activitySeriesRegulars.createdAt)),
+      this.upcomingOccurrences(seriesId, now),
+    ]);
+
+    return { ...series, rrule: toRRule(series), regulars, upcoming };
+  }
+
+  startScheduler(intervalMs: number = MATERIALIZE_CHECK_INTERVAL): void {
+    if (this.schedulerInterval) return;
+
+    this.schedulerInterval = setInterval(() => {
+      this.materializeDueSeries().catch((error) =>
+        console.error("❌ Activity series check failed:", error)
+      );
+    }, intervalMs);
+  }
+
+  stopScheduler(): void {
+    if (this.schedulerInterval) {
+      clearInterval(this.schedulerInterval);
+      this.schedulerInterval = null;
+    }
+  }
+
+  private upcomingOccurrences(seriesId: string, now: Date) {
+    return db
+      .select()
+      .from(activities)
+      .where(
+        and(
+          eq(activities.seriesId, seriesId),
+          eq(activities.completionStatus, "scheduled"),
+          gt(activities.dateTime, now)
+        )
+      )
+      .orderBy(asc(activities.dateTime));
+  }
+
+  private draftFor(
+    series: ActivitySeries,
+    date: string,
+    creatorTeam: string | null
+  ): ActivityDraft {
+    return {
+      activityTypeId: series.activityTypeId,
+      description: series.description,
+      location: series.location ?? undefined,
+      venueId: series.venueId ?? undefined,
+      venueResourceId: series.venueResourceId ?? undefined,
+      dateTime: zonedTimeToUtc(date, series.startTime, series.timeZone),
+      durationMinutes: series.durationMinutes ?? undefined,
+      maxParticipants: series.maxParticipants ?? undefined,
+      waitlistConfirmHours: series.waitlistConfirmHours ?? undefined,
+      eloLevel: series.eloLevel ?? undefined,
+      skillRequirements: (series.skillRequirements ?? {}) as Record<string, number>,
+      isELORated: series.isELORated,
+      creatorTeam: creatorTeam ?? undefined,
+    };
+  }
+
+  // Series at a venue follow its clock unless told otherwise
+  private async venueTimeZone(data: ActivityDraft): Promise<string | null> {
+    if (data.venueResourceId) {
+      const [resource] = await db
+        .select({ timeZone: venues.timeZone })
+        .from(venueResources)
+        .innerJoin(venues, eq(venues.id, venueResources.venueId))
+        .where(eq(venueResources.id, data.venueResourceId));
+      if (resource) return resource.timeZone;
+    }
+    if (data.venueId) {
+      const venue = await db.query.venues.findFirst({
+        where: eq(venues.id, data.venueId),
+      });
+      if (venue) return venue.timeZone;
+    }
+    return null;
+  }
+
+  private horizonDays(): number {
+    const configured = parseInt(process.env.ACTIVITY_SERIES_HORIZON_DAYS || "");
+    return Number.isFinite(configured) && configured > 0
+      ? configured
+      : DEFAULT_HORIZON_DAYS;
+  }
+}
+
+export const activitySeriesService = new ActivitySeriesService();
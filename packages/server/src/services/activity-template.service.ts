@@ -0,0 +1,240 @@
+// src/services/activity-template.service.ts - Reusable activity settings owned by organisers and teams
+import { desc, eq, inArray, or } from "drizzle-orm";
+import { db } from "../db/client.js";
+import {
+  activityTemplates,
+  activityTypes,
+  teamMembers,
+  teams,
+  venueResources,
+  venues,
+} from "../db/schema.js";
+import type {
+  ActivityFromTemplate,
+  CreateActivity,
+  CreateActivityTemplate,
+  UpdateActivityTemplate,
+} from "../db/zod.schema.js";
+import type { User } from "../middleware/auth.js";
+import { teamService } from "./team.service.js";
+
+type ActivityTemplate = typeof activityTemplates.$inferSelect;
+
+export interface TemplateAccess {
+  canUse: boolean;
+  canManage: boolean;
+}
+
+export type TemplateActionResult<T> =
+  | { success: true; result: T }
+  | { success: false; status: 400 | 403 | 404; error: string };
+
+const NO_ACCESS: TemplateAccess = { canUse: false, canManage: false };
+
+export class ActivityTemplateService {
+  /**
+   * Templates the user owns, plus those of every team they belong to or created
+   */
+  async listTemplates(userId: string) {
+    const memberTeams = db
+      .select({ teamId: teamMembers.teamId })
+      .from(teamMembers)
+      .where(eq(teamMembers.userId, userId));
+    const createdTeams = db
+      .select({ teamId: teams.id })
+      .from(teams)
+      .where(eq(teams.creatorId, userId));
+
+    return db.query.activityTemplates.findMany({
+      where: or(
+        eq(activityTemplates.ownerId, userId),
+        inArray(activityTemplates.teamId, memberTeams),
+        inArray(activityTemplates.teamId, createdTeams)
+      ),
+      with: {
+        activityType: { columns: { id: true, name: true } },
+        team: { columns: { id: true, name: true } },
+      },
+      orderBy: [desc(activityTemplates.updatedAt)],
+    });
+  }
+
+  async getTemplate(templateId: string) {
+    return db.query.activityTemplates.findFirst({
+      where: eq(activityTemplates.id, templateId),
+    });
+  }
+
+  /**
+   * What the user may do with a team: members use its templates, the owner
+   * and captains manage them. Site admins can do both.
+   */
+  async teamAccess(teamId: string, user: User): Promise<TemplateAccess | null> {
+    const access = await teamService.access(teamId, user);
+
+    if (!access) {
+      return null;
+    }
+
+    return { canUse: access.canManage || !!access.membership, canManage: access.canManage };
+  }
+
+  /**
+   * Personal templates are only visible to their owner (and site admins)
+   */
+  async accessFor(template: ActivityTemplate, user: User): Promise<TemplateAccess> {
+    if (template.teamId) {
+      return (await this.teamAccess(template.teamId, user)) ?? NO_ACCESS;
+    }
+
+    const canManage = template.ownerId === user.id || user.role === "admin";
+    return { canUse: canManage, canManage };
+  }
+
+  /**
+   * Create a personal template, or a team template when teamId is given. Only
+   * the team owner and captains can add templates to a team.
+   */
+  async createTemplate(
+    user: User,
+    data: CreateActivityTemplate
+  ): Promise<TemplateActionResult<ActivityTemplate>> {
+    const { teamId, ...settings } = data;
+
+    if (teamId) {
+      const access = await this.teamAccess(teamId, user);
+
+      if (!access) {
+        return { success: false, status: 404, error: "Team not found" };
+      }
+
+      if (!access.canManage) {
+        return {
+          success: false,
+          status: 403,
+          error: "Only the team owner and captains can add team templates",
+        };
+      }
+    }
+
+    const invalid = await this.checkReferences(settings);
+    if (invalid) {
+      return invalid;
+    }
+
+    const [template] = await db
+      .insert(activityTemplates)
+      .values({
+        ...settings,
+        ownerId: teamId ? null : user.id,
+        teamId: teamId ?? null,
+        createdBy: user.id,
+      })
+      .returning();
+
+    return { success: true, result: template };
+  }
+
+  async updateTemplate(
+    template: ActivityTemplate,
+    data: UpdateActivityTemplate
+  ): Promise<TemplateActionResult<ActivityTemplate>> {
+    const invalid = await this.checkReferences(data);
+    if (invalid) {
+      return invalid;
+    }
+
+    const [updated] = await db
+      .update(activityTemplates)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(activityTemplates.id, template.id))
+      .returning();
+
+    return { success: true, result: updated };
+  }
+
+  async deleteTemplate(templateId: string) {
+    await db.delete(activityTemplates).where(eq(activityTemplates.id, templateId));
+  }
+
+  /**
+   * Fill in a new activity from the template. Overrides win over the stored
+   * values; the organiser plays for the first default team unless they pick one.
+   */
+  toActivityData(
+    template: ActivityTemplate,
+    overrides: ActivityFromTemplate
+  ): CreateActivity {
+    // A different venue means the stored court no longer applies
+    const venueChanged =
+      overrides.venueId !== undefined && overrides.venueId !== template.venueId;
+
+    return {
+      ...overrides,
+      activityTypeId: template.activityTypeId,
+      description: overrides.description ?? template.description,
+      location: overrides.location ?? template.location ?? undefined,
+      venueId: overrides.venueId ?? template.venueId ?? undefined,
+      venueResourceId:
+        overrides.venueResourceId ??
+        (venueChanged ? undefined : template.venueResourceId ?? undefined),
+      durationMinutes: overrides.durationMinutes ?? template.durationMinutes ?? undefined,
+      maxParticipants: overrides.maxParticipants ?? template.maxParticipants ?? undefined,
+      skillRequirements:
+        overrides.skillRequirements ??
+        ((template.skillRequirements ?? {}) as Record<string, number>),
+      isELORated: overrides.isELORated ?? template.isELORated,
+      creatorTeam: overrides.creatorTeam ?? template.defaultTeams[0],
+    };
+  }
+
+  // Catch unknown ids here rather than as foreign key errors on insert
+  private async checkReferences(
+    data: UpdateActivityTemplate
+  ): Promise<Extract<TemplateActionResult<never>, { success: false }> | null> {
+    if (data.activityTypeId) {
+      const activityType = await db.query.activityTypes.findFirst({
+        where: eq(activityTypes.id, data.activityTypeId),
+        columns: { id: true },
+      });
+
+      if (!activityType) {
+        return { success: false, status: 404, error: "Activity type not found" };
+      }
+    }
+
+    if (data.venueId) {
+      const venue = await db.query.venues.findFirst({
+        where: eq(venues.id, data.venueId),
+        columns: { id: true },
+      });
+
+      if (!venue) {
+        return { success: false, status: 404, error: "Venue not found" };
+      }
+    }
+
+    if (data.venueResourceId) {
+      const resource = await db.query.venueResources.findFirst({
+        where: eq(venueResources.id, data.venueResourceId),
+        columns: { id: true, venueId: true },
+      });
+
+      if (!resource) {
+        return { success: false, status: 404, error: "Venue resource not found" };
+      }
+
+      if (data.venueId && resource.venueId !== data.venueId) {
+        return {
+          success: false,
+          status: 400,
+          error: "The court does not belong to this venue",
+        };
+      }
+    }
+
+    return null;
+  }
+}
+
+export const activityTemplateService = new ActivityTemplateService();
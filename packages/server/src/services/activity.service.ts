@@ -0,0 +1,236 @@
+// src/services/activity.service.ts - Activity creation shared by POST /activities and recurring series
+import { and, eq } from "drizzle-orm";
+import { db } from "../db/client.js";
+import {
+  activities,
+  activityChatRooms,
+  activityParticipants,
+  activityTypes,
+  userActivityTypeELOs,
+  venues,
+} from "../db/schema.js";
+import type { CreateActivity } from "../db/zod.schema.js";
+import { activityLifecycleService } from "./activity-lifecycle.service.js";
+import { deltaTrackingService } from "./delta-tracking.service.js";
+import { teamEloService } from "./team-elo.service.js";
+import {
+  DEFAULT_BOOKING_MINUTES,
+  venueService,
+  type BookingResult,
+} from "./venue.service.js";
+
+type Activity = typeof activities.$inferSelect;
+
+export type ActivityDraft = Omit<CreateActivity, "recurrence">;
+
+export interface ActivityCreator {
+  id: string;
+  username: string | null;
+}
+
+export interface ActivityCreationOptions {
+  seriesId?: string;
+  seriesOccurrenceDate?: string;
+  // Joined straight in as accepted participants, up to maxParticipants
+  regulars?: { userId: string; team: string | null }[];
+  // The creator runs the activity without playing in it, e.g. league fixtures
+  organiserOnly?: boolean;
+}
+
+export type ActivityCreationResult =
+  | {
+      success: true;
+      activity: Activity;
+      activityType: { id: string; name: string; category: string };
+    }
+  | Extract<BookingResult<never>, { success: false }>;
+
+export class ActivityService {
+  /**
+   * Create an activity, booking its court when one is given. The creator joins
+   * as an accepted participant and the activity gets its chat room and its
+   * lifecycle jobs.
+   */
+  async createActivity(
+    creator: ActivityCreator,
+    data: ActivityDraft,
+    options: ActivityCreationOptions = {}
+  ): Promise<ActivityCreationResult> {
+    // Validate activity type exists
+    const activityType = await db.query.activityTypes.findFirst({
+      where: eq(activityTypes.id, data.activityTypeId),
+    });
+
+    if (!activityType) {
+      return { success: false, status: 404, error: "Activity type not found" };
+    }
+
+    const venue = data.venueId
+      ? await db.query.venues.findFirst({
+          where: eq(venues.id, data.venueId),
+        })
+      : null;
+
+    if (data.venueId && !venue) {
+      return { success: false, status: 404, error: "Venue not found" };
+    }
+
+    // Fixtures are organised by someone playing for one of the two teams
+    const fixture = await teamEloService.checkFixture(
+      options.organiserOnly ? null : creator.id,
+      data.activityTypeId,
+      data
+    );
+
+    if (!fixture.success) {
+      return fixture;
+    }
+
+    // Set ELO level based on the creator's current ELO if not provided
+    let eloLevel = data.eloLevel;
+    if (!eloLevel && data.isELORated) {
+      const userELO = await db.query.userActivityTypeELOs.findFirst({
+        where: and(
+          eq(userActivityTypeELOs.userId, creator.id),
+          eq(userActivityTypeELOs.activityTypeId, data.activityTypeId)
+        ),
+      });
+      eloLevel = userELO?.eloScore || 1200; // Default ELO
+    }
+
+    const activityValues = {
+      activityTypeId: data.activityTypeId,
+      creatorId: creator.id,
+      description: data.description,
+      location: data.location ?? venue?.name,
+      venueId: venue?.id ?? null,
+      dateTime: data.dateTime,
+      durationMinutes: data.durationMinutes,
+      maxParticipants: data.maxParticipants,
+      waitlistConfirmHours: data.waitlistConfirmHours,
+      eloLevel,
+      skillRequirements: data.skillRequirements || {},
+      isELORated: data.isELORated || false,
+      completionStatus: "scheduled" as const,
+      seriesId: options.seriesId,
+      seriesOccurrenceDate: options.seriesOccurrenceDate,
+      homeTeamId: data.homeTeamId ?? null,
+      awayTeamId: data.awayTeamId ?? null,
+    };
+
+    // Create the activity - court bookings are checked for clashes first
+    let newActivity: Activity;
+    if (data.venueResourceId) {
+      const booking = await venueService.book(
+        {
+          resourceId: data.venueResourceId,
+          activityTypeId: data.activityTypeId,
+          start: data.dateTime,
+          durationMinutes: data.durationMinutes ?? DEFAULT_BOOKING_MINUTES,
+          maxParticipants: data.maxParticipants,
+          venueId: data.venueId,
+        },
+        async (tx, booked) => {
+          const [created] = await tx
+            .insert(activities)
+            .values({
+              ...activityValues,
+              location:
+                data.location ?? `${booked.venueName} - ${booked.resourceName}`,
+              venueId: booked.venueId,
+              venueResourceId: booked.resourceId,
+              durationMinutes: data.durationMinutes ?? DEFAULT_BOOKING_MINUTES,
+            })
+            .returning();
+          return created;
+        }
+      );
+
+      if (!booking.success) {
+        console.log(`❌ Booking rejected: ${booking.error}`);
+        return booking;
+      }
+      newActivity = booking.result;
+    } else {
+      [newActivity] = await db
+        .insert(activities)
+        .values(activityValues)
+        .returning();
+    }
+
+    // Auto-join creator as participant, followed by any regulars with room left
+    const regulars = (options.regulars ?? []).filter(
+      (regular) => regular.userId !== creator.id
+    );
+    const seats =
+      newActivity.maxParticipants === null
+        ? regulars.length
+        : Math.max(newActivity.maxParticipants - (options.organiserOnly ? 0 : 1), 0);
+
+    const players = [
+      ...(options.organiserOnly
+        ? []
+        : [
+            {
+              userId: creator.id,
+              team: fixture.creatorTeamId ?? (data.creatorTeam || null),
+            },
+          ]),
+      ...regulars.slice(0, seats),
+    ];
+
+    if (players.length > 0) {
+      await db.insert(activityParticipants).values(
+        players.map((player) => ({
+          activityId: newActivity.id,
+          userId: player.userId,
+          status: "accepted" as const,
+          team: player.team,
+        }))
+      );
+    }
+
+    // Create chat room for activity
+    await db.insert(activityChatRooms).values({
+      activityId: newActivity.id,
+      name: `${activityType.name} Chat`,
+      isActive: true,
+    });
+
+    // Start, remind and close it on time
+    await activityLifecycleService.scheduleActivity(newActivity);
+
+    // Track delta change for the creator and everyone carried over from the series
+    for (const affectedUserId of [
+      creator.id,
+      ...regulars.slice(0, seats).map((regular) => regular.userId),
+    ]) {
+      await deltaTrackingService.trackChange({
+        entityType: "activity",
+        entityId: newActivity.id,
+        changeType: "create",
+        newData: {
+          activity: newActivity,
+          activityType: { id: activityType.id, name: activityType.name },
+          creator: { id: creator.id, username: creator.username },
+        },
+        affectedUserId,
+        relatedEntityId: newActivity.id,
+        triggeredBy: creator.id,
+        changeSource: options.seriesId ? "system" : "user_action",
+      });
+    }
+
+    return {
+      success: true,
+      activity: newActivity,
+      activityType: {
+        id: activityType.id,
+        name: activityType.name,
+        category: activityType.category,
+      },
+    };
+  }
+}
+
+export const activityService = new ActivityService();
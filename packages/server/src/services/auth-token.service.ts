@@ -0,0 +1,86 @@
+// src/services/auth-token.service.ts - Single-use emailed tokens (password reset, ...)
+import { db } from "../db/client.js";
+import { authTokens } from "../db/schema.js";
+import { and, eq, gt, isNull } from "drizzle-orm";
+import { generateSecureToken, hashSensitiveData } from "../utils/security.js";
+
+export type AuthTokenPurpose = (typeof authTokens.$inferSelect)["purpose"];
+
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export class AuthTokenService {
+  /**
+   * Issue a fresh token, revoking any outstanding ones for the same purpose.
+   * Returns the raw token - it is never stored, only its hash.
+   */
+  async issue(
+    userId: string,
+    purpose: AuthTokenPurpose,
+    ttlMs: number,
+    requestedIp?: string
+  ): Promise<string> {
+    const token = generateSecureToken(32);
+    const now = new Date();
+
+    await this.revokeAll(userId, purpose);
+
+    await db.insert(authTokens).values({
+      userId,
+      purpose,
+      tokenHash: hashSensitiveData(token),
+      expiresAt: new Date(now.getTime() + ttlMs),
+      requestedIp: requestedIp || null,
+    });
+
+    return token;
+  }
+
+  /**
+   * Atomically mark a token used. Returns the owning user id, or null when the
+   * token is unknown, expired, already used or issued for another purpose.
+   */
+  async consume(
+    token: string,
+    purpose: AuthTokenPurpose,
+    executor: DbExecutor = db
+  ): Promise<string | null> {
+    const now = new Date();
+
+    const [claimed] = await executor
+      .update(authTokens)
+      .set({ usedAt: now })
+      .where(
+        and(
+          eq(authTokens.tokenHash, hashSensitiveData(token)),
+          eq(authTokens.purpose, purpose),
+          isNull(authTokens.usedAt),
+          gt(authTokens.expiresAt, now)
+        )
+      )
+      .returning({ userId: authTokens.userId });
+
+    return claimed?.userId ?? null;
+  }
+
+  /**
+   * Invalidate every outstanding token a user holds for a purpose
+   */
+  async revokeAll(
+    userId: string,
+    purpose: AuthTokenPurpose,
+    executor: DbExecutor = db
+  ): Promise<void> {
+    await executor
+      .update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(authTokens.userId, userId),
+          eq(authTokens.purpose, purpose),
+          isNull(authTokens.usedAt)
+        )
+      );
+  }
+}
+
+export const authTokenService = new AuthTokenService();
@@ -12,7 +12,11 @@ import {
 } from "../db/schema.js";
 import { eq, and, sql, or, notInArray, ilike } from "drizzle-orm";
 import { signJWT, verifyJWT } from "../auth/jwt.js";
+import { sessionService } from "../auth/session.js";
+import { mailer, clientUrl } from "../lib/mailer.js";
 import { hashPassword, verifyPassword } from "../utils/security.js";
+import { accountService } from "./account.service.js";
+import { authTokenService } from "./auth-token.service.js";
 import {
   registerUserSchema,
   loginUserSchema,
@@ -22,6 +26,7 @@ import {
   type LoginUser,
   type UpdateUser,
   type User,
+  type UpdateAccountStatus,
 } from "../db/zod.schema.js";
 
 export interface AuthResult {
@@ -34,6 +39,10 @@ export interface AuthResult {
   expiresIn?: string;
 }
 
+// Reset links are valid for one hour, verification links for a day
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
+
 export interface TokenPayload {
   userId: string;
   username: string;
@@ -94,6 +103,7 @@ export class AuthService {
           email: users.email,
           avatarUrl: users.avatarUrl,
           role: users.role,
+          emailVerifiedAt: users.emailVerifiedAt,
           createdAt: users.createdAt,
           updatedAt: users.updatedAt,
         });
@@ -104,6 +114,11 @@ export class AuthService {
         passwordHash: null, // Don't include password in response
       });
 
+      // A mail outage shouldn't fail the signup - the user can resend later
+      await this.sendVerificationEmail(newUser).catch((error) =>
+        console.error("Error sending verification email:", error)
+      );
+
       // Generate JWT token
       const token = await signJWT({
         userId: validatedUser.id,
@@ -168,9 +183,23 @@ export class AuthService {
         };
       }
 
+      const accessError = accountService.getAccessError(user.status);
+      if (accessError) {
+        return {
+          success: false,
+          error: accessError,
+        };
+      }
+
+      // Signing back in during the grace period keeps the account
+      const deletionCancelled =
+        user.status === "pending_deletion" &&
+        (await accountService.cancelDeletion(user.id));
+
       // Validate user data with zod (excluding password)
       const validatedUser = selectUserSchema.parse({
         ...user,
+        status: deletionCancelled ? "active" : user.status,
         passwordHash: null,
       });
 
@@ -192,7 +221,9 @@ export class AuthService {
         success: true,
         user: validatedUser,
         token,
-        message: "Login successful",
+        message: deletionCancelled
+          ? "Login successful - account deletion cancelled"
+          : "Login successful",
       };
     } catch (error) {
       console.error("Error during login:", error);
@@ -238,6 +269,13 @@ export class AuthService {
         };
       }
 
+      if (user.status !== "active") {
+        return {
+          success: false,
+          error: "Account is not active",
+        };
+      }
+
       // Validate user data with zod
       const validatedUser = selectUserSchema.parse({
         ...user,
@@ -328,6 +366,10 @@ export class AuthService {
       if (validatedData.email) updateObject.email = validatedData.email;
       if (validatedData.avatarUrl !== undefined)
         updateObject.avatarUrl = validatedData.avatarUrl;
+      if (validatedData.homeLatitude !== undefined)
+        updateObject.homeLatitude = validatedData.homeLatitude;
+      if (validatedData.homeLongitude !== undefined)
+        updateObject.homeLongitude = validatedData.homeLongitude;
 
       // Hash new password if provided
       if (validatedData.passwordHash) {
@@ -348,6 +390,8 @@ export class AuthService {
           email: users.email,
           avatarUrl: users.avatarUrl,
           role: users.role,
+          homeLatitude: users.homeLatitude,
+          homeLongitude: users.homeLongitude,
           createdAt: users.createdAt,
           updatedAt: users.updatedAt,
         });
@@ -521,6 +565,13 @@ export class AuthService {
         };
       }
 
+      if (user.status !== "active") {
+        return {
+          success: false,
+          error: "Account is not active",
+        };
+      }
+
       // Validate user with zod
       const validatedUser = selectUserSchema.parse({
         ...user,
@@ -763,6 +814,7 @@ export class AuthService {
       const whereConditions = [
         // --- Fix: Use inArray for parameterized NOT IN ---
         notInArray(users.id, excludeUserIds), // .not() inverts the IN to NOT IN
+        eq(users.status, "active"),
         or(
           ilike(users.username, `%${searchTerm}%`), // Use ilike helper
           ilike(users.email, `%${searchTerm}%`) // Use ilike helper
@@ -828,9 +880,12 @@ export class AuthService {
   }
 
   /**
-   * Request password reset (placeholder - implement email sending)
+   * Request password reset - stores a hashed single-use token and emails the link
    */
-  async requestPasswordReset(email: string): Promise<AuthResult> {
+  async requestPasswordReset(
+    email: string,
+    requestedIp?: string
+  ): Promise<AuthResult> {
     try {
       // Check if user exists
       const user = await db.query.users.findFirst({
@@ -838,24 +893,32 @@ export class AuthService {
       });
 
       // Always return success for security (don't reveal if email exists)
-      // In production, you would:
-      // 1. Generate a secure reset token
-      // 2. Store it in database with expiration
-      // 3. Send email with reset link
-
       if (user) {
-        // Generate reset token (simplified - use crypto.randomBytes in production)
-        const resetToken = await signJWT(
-          { userId: user.id, type: "password_reset" },
-          { expiresIn: "1h" }
+        const resetToken = await authTokenService.issue(
+          user.id,
+          "password_reset",
+          PASSWORD_RESET_TTL_MS,
+          requestedIp
         );
 
-        // TODO: Store reset token in database
-        // TODO: Send email with reset link
-
-        console.log(
-          `Password reset requested for ${email}, token: ${resetToken}`
+        const resetLink = clientUrl(
+          `/auth/reset-password?token=${encodeURIComponent(resetToken)}`
         );
+
+        await mailer.send({
+          to: user.email,
+          subject: "Reset your password",
+          text: [
+            `Hi ${user.username || "there"},`,
+            "",
+            "We received a request to reset your password. Use the link below to choose a new one:",
+            resetLink,
+            "",
+            "The link expires in 1 hour and can only be used once. If you didn't request this, you can ignore this email.",
+          ].join("\n"),
+        });
+
+        console.log(`Password reset requested for ${email}`);
       }
 
       return {
@@ -872,23 +935,105 @@ export class AuthService {
   }
 
   /**
-   * Reset password using reset token
+   * Reset password using reset token - the token is consumed and all sessions revoked
    */
   async resetPassword(token: string, newPassword: string): Promise<AuthResult> {
     try {
-      // Verify reset token
-      const payload = await verifyJWT(token);
+      // Hash first so a rejected password doesn't burn the token
+      let passwordHash: string;
+      try {
+        passwordHash = await hashPassword(newPassword);
+      } catch (error) {
+        return {
+          success: false,
+          error: "Password does not meet requirements",
+        };
+      }
+
+      const userId = await db.transaction(async (tx) => {
+        // Claim the token atomically so it can't be replayed
+        const claimedUserId = await authTokenService.consume(
+          token,
+          "password_reset",
+          tx
+        );
+        if (!claimedUserId) return null;
+
+        await tx
+          .update(users)
+          .set({
+            passwordHash,
+            updatedAt: new Date(),
+          })
+          .where(eq(users.id, claimedUserId));
 
-      if (!payload || payload.type !== "password_reset") {
+        // Any other outstanding links die with this reset
+        await authTokenService.revokeAll(claimedUserId, "password_reset", tx);
+
+        return claimedUserId;
+      });
+
+      if (!userId) {
         return {
           success: false,
           error: "Invalid or expired reset token",
         };
       }
 
-      // Get user
+      await sessionService.destroyUserSessions(userId);
+
+      return {
+        success: true,
+        message: "Password reset successfully",
+      };
+    } catch (error) {
+      console.error("Error resetting password:", error);
+      return {
+        success: false,
+        error: "Password reset failed",
+      };
+    }
+  }
+
+  /**
+   * Confirm an email address using a verification token
+   */
+  async verifyEmail(token: string): Promise<AuthResult> {
+    try {
+      const userId = await authTokenService.consume(token, "email_verification");
+
+      if (!userId) {
+        return {
+          success: false,
+          error: "Invalid or expired verification token",
+        };
+      }
+
+      await db
+        .update(users)
+        .set({ emailVerifiedAt: new Date(), updatedAt: new Date() })
+        .where(eq(users.id, userId));
+
+      return {
+        success: true,
+        message: "Email verified successfully",
+      };
+    } catch (error) {
+      console.error("Error verifying email:", error);
+      return {
+        success: false,
+        error: "Email verification failed",
+      };
+    }
+  }
+
+  /**
+   * Send a fresh verification link, invalidating earlier ones
+   */
+  async resendVerification(userId: string): Promise<AuthResult> {
+    try {
       const user = await db.query.users.findFirst({
-        where: eq(users.id, payload.userId),
+        where: eq(users.id, userId),
       });
 
       if (!user) {
@@ -898,39 +1043,63 @@ export class AuthService {
         };
       }
 
-      // Hash new password
-      const passwordHash = await hashPassword(newPassword);
-
-      // Update password
-      await db
-        .update(users)
-        .set({
-          passwordHash,
-          updatedAt: new Date(),
-        })
-        .where(eq(users.id, user.id));
+      if (user.emailVerifiedAt) {
+        return {
+          success: false,
+          error: "Email is already verified",
+        };
+      }
 
-      // TODO: Invalidate reset token in database
-      // TODO: Optionally invalidate all existing sessions
+      await this.sendVerificationEmail(user);
 
       return {
         success: true,
-        message: "Password reset successfully",
+        message: "Verification email sent",
       };
     } catch (error) {
-      console.error("Error resetting password:", error);
+      console.error("Error resending verification email:", error);
       return {
         success: false,
-        error: "Password reset failed",
+        error: "Failed to send verification email",
       };
     }
   }
 
+  private async sendVerificationEmail(user: {
+    id: string;
+    email: string;
+    username: string | null;
+  }): Promise<void> {
+    const token = await authTokenService.issue(
+      user.id,
+      "email_verification",
+      EMAIL_VERIFICATION_TTL_MS
+    );
+
+    const verifyLink = clientUrl(
+      `/auth/verify-email?token=${encodeURIComponent(token)}`
+    );
+
+    await mailer.send({
+      to: user.email,
+      subject: "Verify your email address",
+      text: [
+        `Hi ${user.username || "there"},`,
+        "",
+        "Please confirm your email address by opening the link below:",
+        verifyLink,
+        "",
+        "The link expires in 24 hours.",
+      ].join("\n"),
+    });
+  }
+
   /**
-   * Deactivate user account (soft delete)
+   * Change another user's account status (admin only)
    */
-  async deactivateUser(
+  async updateAccountStatus(
     userId: string,
+    status: UpdateAccountStatus["status"],
     adminUserId: string
   ): Promise<AuthResult> {
     try {
@@ -946,45 +1115,90 @@ export class AuthService {
         };
       }
 
-      // Check if user exists
-      const targetUser = await db.query.users.findFirst({
+      // Prevent admin from locking themselves out
+      if (userId === adminUserId) {
+        return {
+          success: false,
+          error: "Cannot change your own account status",
+        };
+      }
+
+      const updated = await accountService.setStatus(userId, status);
+
+      if (!updated) {
+        return {
+          success: false,
+          error: "User not found",
+        };
+      }
+
+      return {
+        success: true,
+        message: `User account ${status === "active" ? "reactivated" : status} successfully`,
+      };
+    } catch (error) {
+      console.error("Error updating account status:", error);
+      return {
+        success: false,
+        error: "Account status update failed",
+      };
+    }
+  }
+
+  /**
+   * Deactivate user account (soft delete)
+   */
+  async deactivateUser(
+    userId: string,
+    adminUserId: string
+  ): Promise<AuthResult> {
+    return this.updateAccountStatus(userId, "deactivated", adminUserId);
+  }
+
+  /**
+   * Self-service deletion - schedules the purge after the grace period
+   */
+  async requestAccountDeletion(
+    userId: string,
+    password?: string
+  ): Promise<AuthResult & { deletionScheduledAt?: Date }> {
+    try {
+      const user = await db.query.users.findFirst({
         where: eq(users.id, userId),
       });
 
-      if (!targetUser) {
+      if (!user) {
         return {
           success: false,
           error: "User not found",
         };
       }
 
-      // Prevent admin from deactivating themselves
-      if (userId === adminUserId) {
+      // Password accounts must confirm with their current password
+      if (
+        user.passwordHash &&
+        !(await verifyPassword(password || "", user.passwordHash))
+      ) {
         return {
           success: false,
-          error: "Cannot deactivate your own account",
+          error: "Password is incorrect",
         };
       }
 
-      // Update user role to indicate deactivation
-      // In a real system, you might have an 'isActive' field
-      await db
-        .update(users)
-        .set({
-          role: "deactivated" as any, // This would need to be added to the role enum
-          updatedAt: new Date(),
-        })
-        .where(eq(users.id, userId));
+      const { deletionScheduledAt } = await accountService.requestDeletion(
+        userId
+      );
 
       return {
         success: true,
-        message: "User account deactivated successfully",
+        deletionScheduledAt,
+        message: "Account scheduled for deletion",
       };
     } catch (error) {
-      console.error("Error deactivating user:", error);
+      console.error("Error requesting account deletion:", error);
       return {
         success: false,
-        error: "User deactivation failed",
+        error: "Account deletion failed",
       };
     }
   }
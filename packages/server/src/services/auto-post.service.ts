@@ -0,0 +1,295 @@
+// src/services/auto-post.service.ts - Recap and milestone posts published on a player's behalf
+import { and, desc, eq, inArray, isNotNull, sql } from "drizzle-orm";
+import { db } from "../db/client.js";
+import {
+  activities,
+  activityParticipants,
+  activityTypes,
+  posts,
+  skillDefinitions,
+  userActivityTypeSkillSummaries,
+} from "../db/schema.js";
+import { ordinal } from "./elo-calc.service.js";
+import { feedService } from "./feed.service.js";
+import { privacySettingsService } from "./privacy-settings.service.js";
+
+// Average ratings (out of 10) worth a post when a skill first reaches them
+export const SKILL_MILESTONE_THRESHOLDS = [5, 7, 9];
+
+// Milestones need a few ratings behind them, not one generous teammate
+export const MIN_RATINGS_FOR_MILESTONE = 3;
+
+const TOP_SKILLS_IN_RECAP = 3;
+
+export interface RecapRatingChange {
+  userId: string;
+  oldELO: number;
+  newELO: number;
+  change: number;
+}
+
+export interface RecapDetails {
+  activityTypeName: string;
+  finalResult: "win" | "loss" | "draw" | null;
+  placement: number | null;
+  fieldSize: number;
+  newELO: number;
+  change: number;
+  topSkills: { name: string; averageRating: number }[];
+}
+
+export interface SkillSnapshot {
+  averageRating: number | null;
+  totalRatings: number;
+  trend: string | null;
+}
+
+export interface SkillMilestone {
+  threshold: number | null;
+  startedImproving: boolean;
+}
+
+const RESULT_SENTENCES = {
+  win: "Won the match.",
+  loss: "Lost the match.",
+  draw: "Drew the match.",
+} as const;
+
+/**
+ * The text of a recap post: how the player finished, where their rating
+ * went and the skills they are rated best at
+ */
+export function describeRecap(details: RecapDetails): string {
+  const sentences: string[] = [];
+
+  if (details.placement && details.fieldSize > 2) {
+    sentences.push(`Finished ${ordinal(details.placement)} of ${details.fieldSize}.`);
+  } else if (details.finalResult) {
+    sentences.push(RESULT_SENTENCES[details.finalResult]);
+  }
+
+  const sign = details.change >= 0 ? "+" : "";
+  sentences.push(`Rating ${details.newELO} (${sign}${details.change}).`);
+
+  if (details.topSkills.length > 0) {
+    const skills = details.topSkills
+      .map((skill) => `${skill.name} ${skill.averageRating}/10`)
+      .join(", ");
+    sentences.push(`Top skills: ${skills}.`);
+  }
+
+  return sentences.join(" ");
+}
+
+/**
+ * Whether a recalculated skill summary is worth a post: the average reached
+ * a new threshold (the highest one crossed wins), or the trend turned to
+ * improving
+ */
+export function detectSkillMilestone(
+  previous: SkillSnapshot | undefined,
+  next: SkillSnapshot
+): SkillMilestone | null {
+  if (next.totalRatings < MIN_RATINGS_FOR_MILESTONE) {
+    return null;
+  }
+
+  const before = previous?.averageRating ?? 0;
+  const after = next.averageRating ?? 0;
+  const threshold =
+    [...SKILL_MILESTONE_THRESHOLDS]
+      .reverse()
+      .find((value) => before < value && after >= value) ?? null;
+  const startedImproving =
+    next.trend === "improving" && previous?.trend !== "improving";
+
+  return threshold !== null || startedImproving
+    ? { threshold, startedImproving }
+    : null;
+}
+
+export class AutoPostService {
+  /**
+   * Publish a recap for every player who opted in, once per activity. Failures
+   * are logged; ratings are already applied by the time this runs.
+   */
+  async postActivityRecaps(activityId: string, changes: RecapRatingChange[]) {
+    try {
+      const activity = await db
+        .select({
+          id: activities.id,
+          activityTypeId: activities.activityTypeId,
+          activityTypeName: activityTypes.name,
+        })
+        .from(activities)
+        .innerJoin(activityTypes, eq(activities.activityTypeId, activityTypes.id))
+        .where(eq(activities.id, activityId))
+        .then((rows) => rows[0]);
+
+      if (!activity) {
+        return;
+      }
+
+      const participants = await db
+        .select({
+          userId: activityParticipants.userId,
+          finalResult: activityParticipants.finalResult,
+          placement: activityParticipants.placement,
+        })
+        .from(activityParticipants)
+        .where(
+          and(
+            eq(activityParticipants.activityId, activityId),
+            inArray(activityParticipants.status, ["accepted", "rated"])
+          )
+        );
+
+      for (const change of changes) {
+        const settings = await privacySettingsService.getSettings(change.userId);
+        if (!settings.autoPostActivityRecaps) continue;
+
+        const existing = await db.query.posts.findFirst({
+          where: and(
+            eq(posts.userId, change.userId),
+            eq(posts.activityId, activityId),
+            eq(posts.postType, "activity_recap")
+          ),
+          columns: { id: true },
+        });
+        if (existing) continue;
+
+        const participant = participants.find((p) => p.userId === change.userId);
+        const topSkills = await this.topSkills(change.userId, activity.activityTypeId);
+        const details: RecapDetails = {
+          activityTypeName: activity.activityTypeName,
+          finalResult: participant?.finalResult ?? null,
+          placement: participant?.placement ?? null,
+          fieldSize: participants.length,
+          newELO: change.newELO,
+          change: change.change,
+          topSkills,
+        };
+
+        await feedService.createPost(change.userId, {
+          activityId,
+          title: `${activity.activityTypeName} recap`,
+          content: describeRecap(details),
+          postType: "activity_recap",
+          skillHighlights: {
+            result: details.finalResult,
+            placement: details.placement,
+            oldELO: change.oldELO,
+            newELO: change.newELO,
+            eloChange: change.change,
+            topSkills,
+          },
+          visibility: settings.autoPostVisibility,
+        });
+
+        console.log(`📰 Posted ${activity.activityTypeName} recap for user ${change.userId}`);
+      }
+    } catch (error) {
+      console.error(`Failed to post recaps for activity ${activityId}:`, error);
+    }
+  }
+
+  /**
+   * Publish a milestone post when a recalculated skill summary reaches a new
+   * threshold or starts improving, if the player opted in. A threshold is
+   * only celebrated once per skill and activity type.
+   */
+  async onSkillSummaryChange(
+    userId: string,
+    activityTypeId: string,
+    skillDefinitionId: string,
+    previous: SkillSnapshot | undefined,
+    next: SkillSnapshot
+  ) {
+    try {
+      const milestone = detectSkillMilestone(previous, next);
+      if (!milestone) return;
+
+      const settings = await privacySettingsService.getSettings(userId);
+      if (!settings.autoPostSkillMilestones) return;
+
+      if (milestone.threshold !== null && !milestone.startedImproving) {
+        const celebrated = await db.query.posts.findFirst({
+          where: and(
+            eq(posts.userId, userId),
+            eq(posts.postType, "skill_milestone"),
+            sql`${posts.skillHighlights}->>'skillDefinitionId' = ${skillDefinitionId}`,
+            sql`${posts.skillHighlights}->>'activityTypeId' = ${activityTypeId}`,
+            sql`(${posts.skillHighlights}->>'threshold')::int = ${milestone.threshold}`
+          ),
+          columns: { id: true },
+        });
+        if (celebrated) return;
+      }
+
+      const [skill, activityType] = await Promise.all([
+        db.query.skillDefinitions.findFirst({
+          where: eq(skillDefinitions.id, skillDefinitionId),
+          columns: { name: true },
+        }),
+        db.query.activityTypes.findFirst({
+          where: eq(activityTypes.id, activityTypeId),
+          columns: { name: true },
+        }),
+      ]);
+      if (!skill || !activityType) return;
+
+      const content =
+        milestone.threshold !== null
+          ? `${skill.name} reached ${milestone.threshold}/10 in ${activityType.name} across ${next.totalRatings} ratings.`
+          : `${skill.name} is improving in ${activityType.name}, now rated ${next.averageRating}/10.`;
+
+      await feedService.createPost(userId, {
+        title: `${skill.name} milestone`,
+        content,
+        postType: "skill_milestone",
+        skillHighlights: {
+          skillDefinitionId,
+          skillName: skill.name,
+          activityTypeId,
+          activityTypeName: activityType.name,
+          averageRating: next.averageRating,
+          totalRatings: next.totalRatings,
+          threshold: milestone.threshold,
+          trend: next.trend,
+        },
+        visibility: settings.autoPostVisibility,
+      });
+
+      console.log(`🏅 Posted ${skill.name} milestone for user ${userId}`);
+    } catch (error) {
+      console.error(`Failed to post skill milestone for user ${userId}:`, error);
+    }
+  }
+
+  // Best-rated skills for the activity type, from the player's summaries
+  private async topSkills(userId: string, activityTypeId: string) {
+    const rows = await db
+      .select({
+        name: skillDefinitions.name,
+        averageRating: userActivityTypeSkillSummaries.averageRating,
+      })
+      .from(userActivityTypeSkillSummaries)
+      .innerJoin(
+        skillDefinitions,
+        eq(userActivityTypeSkillSummaries.skillDefinitionId, skillDefinitions.id)
+      )
+      .where(
+        and(
+          eq(userActivityTypeSkillSummaries.userId, userId),
+          eq(userActivityTypeSkillSummaries.activityTypeId, activityTypeId),
+          isNotNull(userActivityTypeSkillSummaries.averageRating)
+        )
+      )
+      .orderBy(desc(userActivityTypeSkillSummaries.averageRating))
+      .limit(TOP_SKILLS_IN_RECAP);
+
+    return rows.map((row) => ({ name: row.name, averageRating: row.averageRating! }));
+  }
+}
+
+export const autoPostService = new AutoPostService();
@@ -0,0 +1,330 @@
+// src/services/data-export.service.ts - "Download my data" bundle, produced section by section
+import { aliasedTable, asc, eq, or, sql } from "drizzle-orm";
+import { db } from "../db/client.js";
+import {
+  activities,
+  activityChatMessages,
+  activityParticipants,
+  activityTypes,
+  eloHistory,
+  messages,
+  notificationPreferences,
+  postComments,
+  posts,
+  skillDefinitions,
+  userActivitySkillRatings,
+  userActivityTypeELOs,
+  userConnections,
+  userPrivacySettings,
+  users,
+} from "../db/schema.js";
+
+// Rows fetched per round trip for the large sections
+const EXPORT_BATCH_SIZE = 500;
+
+export const EXPORT_SECTIONS = [
+  "profile",
+  "connections",
+  "activities",
+  "elo",
+  "elo_history",
+  "skill_ratings_given",
+  "skill_ratings_received",
+  "posts",
+  "post_comments",
+  "chat_messages",
+  "direct_messages",
+] as const;
+
+export type ExportSection = (typeof EXPORT_SECTIONS)[number];
+
+export interface ExportRecord {
+  section: ExportSection;
+  data: Record<string, unknown>;
+}
+
+export class DataExportService {
+  /**
+   * Every record the user is entitled to, one at a time. Callers stream the
+   * output, so nothing larger than a single batch is held in memory.
+   */
+  async *exportUserData(userId: string): AsyncGenerator<ExportRecord> {
+    const [profile] = await db
+      .select({
+        id: users.id,
+        publicId: users.publicId,
+        username: users.username,
+        email: users.email,
+        avatarUrl: users.avatarUrl,
+        role: users.role,
+        status: users.status,
+        emailVerifiedAt: users.emailVerifiedAt,
+        homeLatitude: users.homeLatitude,
+        homeLongitude: users.homeLongitude,
+        createdAt: users.createdAt,
+        updatedAt: users.updatedAt,
+      })
+      .from(users)
+      .where(eq(users.id, userId));
+
+    if (!profile) return;
+
+    const [preferences] = await db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+
+    const [privacySettings] = await db
+      .select()
+      .from(userPrivacySettings)
+      .where(eq(userPrivacySettings.userId, userId));
+
+    yield {
+      section: "profile",
+      data: {
+        ...profile,
+        notificationPreferences: preferences ?? null,
+        privacySettings: privacySettings ?? null,
+      },
+    };
+
+    yield* this.connections(userId);
+    yield* this.activities(userId);
+    yield* this.elo(userId);
+    yield* this.skillRatings(userId);
+
+    yield* this.batched("posts", (offset) =>
+      db
+        .select()
+        .from(posts)
+        .where(eq(posts.userId, userId))
+        .orderBy(asc(posts.createdAt), asc(posts.id))
+        .limit(EXPORT_BATCH_SIZE)
+        .offset(offset)
+    );
+
+    yield* this.batched("post_comments", (offset) =>
+      db
+        .select()
+        .from(postComments)
+        .where(eq(postComments.userId, userId))
+        .orderBy(asc(postComments.createdAt), asc(postComments.id))
+        .limit(EXPORT_BATCH_SIZE)
+        .offset(offset)
+    );
+
+    yield* this.batched("chat_messages", (offset) =>
+      db
+        .select({
+          id: activityChatMessages.id,
+          roomId: activityChatMessages.roomId,
+          content: activityChatMessages.content,
+          messageType: activityChatMessages.messageType,
+          attachmentUrl: activityChatMessages.attachmentUrl,
+          editedAt: activityChatMessages.editedAt,
+          deletedAt: activityChatMessages.deletedAt,
+          createdAt: activityChatMessages.createdAt,
+        })
+        .from(activityChatMessages)
+        .where(eq(activityChatMessages.senderId, userId))
+        .orderBy(asc(activityChatMessages.createdAt), asc(activityChatMessages.id))
+        .limit(EXPORT_BATCH_SIZE)
+        .offset(offset)
+    );
+
+    yield* this.batched("direct_messages", (offset) =>
+      db
+        .select({
+          id: messages.id,
+          roomId: messages.roomId,
+          content: messages.content,
+          messageType: messages.messageType,
+          editedAt: messages.editedAt,
+          deletedAt: messages.deletedAt,
+          createdAt: messages.createdAt,
+        })
+        .from(messages)
+        .where(eq(messages.senderId, userId))
+        .orderBy(asc(messages.createdAt), asc(messages.id))
+        .limit(EXPORT_BATCH_SIZE)
+        .offset(offset)
+    );
+  }
+
+  private async *connections(userId: string): AsyncGenerator<ExportRecord> {
+    const otherUser = aliasedTable(users, "other_user");
+
+    const rows = await db
+      .select({
+        id: userConnections.id,
+        user1Id: userConnections.user1Id,
+        status: userConnections.status,
+        createdAt: userConnections.createdAt,
+        otherUserId: otherUser.id,
+        otherUsername: otherUser.username,
+      })
+      .from(userConnections)
+      .innerJoin(
+        otherUser,
+        sql`${otherUser.id} = CASE WHEN ${userConnections.user1Id} = ${userId}
+          THEN ${userConnections.user2Id} ELSE ${userConnections.user1Id} END`
+      )
+      .where(
+        or(eq(userConnections.user1Id, userId), eq(userConnections.user2Id, userId))
+      )
+      .orderBy(asc(userConnections.createdAt));
+
+    for (const row of rows) {
+      yield {
+        section: "connections",
+        data: {
+          id: row.id,
+          userId: row.otherUserId,
+          username: row.otherUsername,
+          direction: row.user1Id === userId ? "sent" : "received",
+          status: row.status,
+          createdAt: row.createdAt,
+        },
+      };
+    }
+  }
+
+  private async *activities(userId: string): AsyncGenerator<ExportRecord> {
+    yield* this.batched("activities", (offset) =>
+      db
+        .select({
+          activityId: activities.id,
+          activityType: activityTypes.name,
+          description: activities.description,
+          location: activities.location,
+          dateTime: activities.dateTime,
+          isELORated: activities.isELORated,
+          completionStatus: activities.completionStatus,
+          isCreator: sql<boolean>`${activities.creatorId} = ${userId}`,
+          participationStatus: activityParticipants.status,
+          team: activityParticipants.team,
+          finalResult: activityParticipants.finalResult,
+          performanceNotes: activityParticipants.performanceNotes,
+          joinedAt: activityParticipants.joinedAt,
+        })
+        .from(activityParticipants)
+        .innerJoin(activities, eq(activityParticipants.activityId, activities.id))
+        .innerJoin(activityTypes, eq(activities.activityTypeId, activityTypes.id))
+        .where(eq(activityParticipants.userId, userId))
+        .orderBy(asc(activities.dateTime), asc(activities.id))
+        .limit(EXPORT_BATCH_SIZE)
+        .offset(offset)
+    );
+  }
+
+  private async *elo(userId: string): AsyncGenerator<ExportRecord> {
+    const ratings = await db
+      .select({
+        activityTypeId: userActivityTypeELOs.activityTypeId,
+        activityType: activityTypes.name,
+        eloScore: userActivityTypeELOs.eloScore,
+        ratingDeviation: userActivityTypeELOs.ratingDeviation,
+        volatility: userActivityTypeELOs.volatility,
+        gamesPlayed: userActivityTypeELOs.gamesPlayed,
+        peakELO: userActivityTypeELOs.peakELO,
+        lastUpdated: userActivityTypeELOs.lastUpdated,
+      })
+      .from(userActivityTypeELOs)
+      .innerJoin(activityTypes, eq(userActivityTypeELOs.activityTypeId, activityTypes.id))
+      .where(eq(userActivityTypeELOs.userId, userId));
+
+    for (const rating of ratings) {
+      yield { section: "elo", data: rating };
+    }
+
+    yield* this.batched("elo_history", (offset) =>
+      db
+        .select({
+          activityId: eloHistory.activityId,
+          activityTypeId: eloHistory.activityTypeId,
+          oldELO: eloHistory.oldELO,
+          newELO: eloHistory.newELO,
+          eloChange: eloHistory.eloChange,
+          reason: eloHistory.reason,
+          createdAt: eloHistory.createdAt,
+        })
+        .from(eloHistory)
+        .where(eq(eloHistory.userId, userId))
+        .orderBy(asc(eloHistory.createdAt), asc(eloHistory.id))
+        .limit(EXPORT_BATCH_SIZE)
+        .offset(offset)
+    );
+  }
+
+  private async *skillRatings(userId: string): AsyncGenerator<ExportRecord> {
+    const otherUser = aliasedTable(users, "other_user");
+
+    yield* this.batched("skill_ratings_given", (offset) =>
+      db
+        .select({
+          activityId: userActivitySkillRatings.activityId,
+          skill: skillDefinitions.name,
+          ratedUserId: userActivitySkillRatings.ratedUserId,
+          ratedUsername: otherUser.username,
+          ratingValue: userActivitySkillRatings.ratingValue,
+          confidence: userActivitySkillRatings.confidence,
+          comment: userActivitySkillRatings.comment,
+          isAnonymous: userActivitySkillRatings.isAnonymous,
+          createdAt: userActivitySkillRatings.createdAt,
+        })
+        .from(userActivitySkillRatings)
+        .innerJoin(skillDefinitions, eq(userActivitySkillRatings.skillDefinitionId, skillDefinitions.id))
+        .innerJoin(otherUser, eq(userActivitySkillRatings.ratedUserId, otherUser.id))
+        .where(eq(userActivitySkillRatings.ratingUserId, userId))
+        .orderBy(asc(userActivitySkillRatings.createdAt), asc(userActivitySkillRatings.id))
+        .limit(EXPORT_BATCH_SIZE)
+        .offset(offset)
+    );
+
+    // Raters who chose anonymity stay anonymous in the export too
+    yield* this.batched(
+      "skill_ratings_received",
+      (offset) =>
+        db
+          .select({
+            activityId: userActivitySkillRatings.activityId,
+            skill: skillDefinitions.name,
+            ratingUserId: userActivitySkillRatings.ratingUserId,
+            ratingUsername: otherUser.username,
+            ratingValue: userActivitySkillRatings.ratingValue,
+            confidence: userActivitySkillRatings.confidence,
+            comment: userActivitySkillRatings.comment,
+            isAnonymous: userActivitySkillRatings.isAnonymous,
+            createdAt: userActivitySkillRatings.createdAt,
+          })
+          .from(userActivitySkillRatings)
+          .innerJoin(skillDefinitions, eq(userActivitySkillRatings.skillDefinitionId, skillDefinitions.id))
+          .innerJoin(otherUser, eq(userActivitySkillRatings.ratingUserId, otherUser.id))
+          .where(eq(userActivitySkillRatings.ratedUserId, userId))
+          .orderBy(asc(userActivitySkillRatings.createdAt), asc(userActivitySkillRatings.id))
+          .limit(EXPORT_BATCH_SIZE)
+          .offset(offset),
+      ({ ratingUserId, ratingUsername, ...rating }) =>
+        rating.isAnonymous ? rating : { ...rating, ratingUserId, ratingUsername }
+    );
+  }
+
+  /**
+   * Page through a query EXPORT_BATCH_SIZE rows at a time
+   */
+  private async *batched<T extends Record<string, unknown>>(
+    section: ExportSection,
+    fetchPage: (offset: number) => Promise<T[]>,
+    transform: (row: T) => Record<string, unknown> = (row) => row
+  ): AsyncGenerator<ExportRecord> {
+    for (let offset = 0; ; offset += EXPORT_BATCH_SIZE) {
+      const rows = await fetchPage(offset);
+      for (const row of rows) {
+        yield { section, data: transform(row) };
+      }
+      if (rows.length < EXPORT_BATCH_SIZE) return;
+    }
+  }
+}
+
+export const dataExportService = new DataExportService();
@@ -5,6 +5,7 @@ import {
   userDeltaCursors,
   deltaSummaries,
 } from "../db/delta-tracking.schema.js";
+import { notificationService } from "./notification.service.js";
 import { eq, and, gte, desc, sql } from "drizzle-orm";
 import {
   type EntityChangeLog,
@@ -22,15 +23,23 @@ import {
   deltaQuerySchema,
 } from "../db/delta-tracking.schema.js";
 
+type DbExecutor = Pick<typeof db, "insert">;
+
 export class DeltaTrackingService {
   /**
-   * Track a change in the system (main method used by routers)
+   * Track a change in the system (main method used by routers). Failures are
+   * logged, except inside a caller's transaction, where they roll it back.
    */
-  async trackChange(change: DeltaChangeInput): Promise<void> {
+  async trackChange(
+    change: DeltaChangeInput,
+    executor: DbExecutor = db
+  ): Promise<void> {
+    let validatedChange: DeltaChangeInput;
+
     try {
-      const validatedChange = deltaChangeInputSchema.parse(change);
+      validatedChange = deltaChangeInputSchema.parse(change);
 
-      await db.insert(entityChangeLog).values({
+      await executor.insert(entityChangeLog).values({
         entityType: validatedChange.entityType,
         entityId: validatedChange.entityId,
         changeType: validatedChange.changeType,
@@ -47,8 +56,12 @@ export class DeltaTrackingService {
         `📊 Delta tracked: ${validatedChange.entityType}:${validatedChange.changeType} for entity ${validatedChange.entityId}`
       );
     } catch (error) {
+      if (executor !== db) throw error;
       console.error("Failed to track delta change:", error);
+      return;
     }
+
+    await notificationService.createFromChange(validatedChange);
   }
 
   /**
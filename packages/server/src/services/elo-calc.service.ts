@@ -10,9 +10,27 @@ import {
   userActivityTypeSkillSummaries
 } from "../db/schema.js";
 import {
+  activityScoreSchema,
   selectActivitySchema,
   selectUserActivitySkillRatingSchema
 } from "../db/zod.schema.js";
+import {
+  parseStoredELOSettings,
+  type ResultFormat,
+} from "../db/activity-types.schema.js";
+import {
+  calculateExpectedScore,
+  DEFAULT_RATING_DEVIATION,
+  DEFAULT_RATING_VOLATILITY,
+  getKFactor,
+  getRatingStrategy,
+  type RatingMatchup,
+  type RatingSystem,
+} from "./rating-strategy.service.js";
+import { scoreMargin, scoreSideOf } from "../utils/match-score.js";
+
+// Largest factor a lopsided score can apply to a rating change
+const MAX_MARGIN_MULTIPLIER = 2;
 
 // Types for ELO calculation
 export interface ParticipantELO {
@@ -20,10 +38,23 @@ export interface ParticipantELO {
   username: string;
   currentELO: number;
   gamesPlayed: number;
+  ratingDeviation?: number;
   volatility: number;
   team?: string;
   finalResult: "win" | "loss" | "draw";
+  // Finishing position; when everyone has one, each pair is rated by it
+  placement?: number;
   skillPerformanceBonus?: number;
+  // Scales the rating change by the score margin, 1 when unscaled
+  marginMultiplier?: number;
+}
+
+// One opponent (or opposing team) a participant was rated against
+export interface MatchupOutcome {
+  opponent: string;
+  opponentRating: number;
+  expectedScore: number;
+  score: number;
 }
 
 export interface ELOCalculationResult {
@@ -36,6 +67,13 @@ export interface ELOCalculationResult {
   actualScore: number;
   skillBonus: number;
   reason: string;
+  ratingSystem: RatingSystem;
+  ratingDeviation: number;
+  volatility: number;
+  placement?: number;
+  fieldSize: number;
+  marginMultiplier: number;
+  matchups: MatchupOutcome[];
 }
 
 export interface ActivityELOSettings {
@@ -50,6 +88,91 @@ export interface ActivityELOSettings {
   teamBased: boolean;
   allowDraws: boolean;
   skillInfluence: number;
+  ratingSystem: RatingSystem;
+  glickoTau: number;
+  resultFormat: ResultFormat;
+  marginScaling: boolean;
+}
+
+/**
+ * Resolve the ELO settings stored on an activity type, falling back to
+ * defaults for any field that is missing or invalid
+ */
+export function resolveActivityELOSettings(
+  rawSettings: unknown,
+  activityTypeCategory?: string | null
+): ActivityELOSettings {
+  const parsed = parseStoredELOSettings(rawSettings);
+
+  return {
+    ...parsed,
+    teamBased: parsed.teamBased ?? activityTypeCategory === "team_sports",
+  };
+}
+
+/**
+ * How much a winning margin scales a rating change, growing with its log
+ */
+export function marginMultiplier(margin: number): number {
+  return margin <= 1
+    ? 1
+    : Math.min(MAX_MARGIN_MULTIPLIER, 1 + Math.log(margin) / 2);
+}
+
+export const ordinal = (n: number) => {
+  const suffixes = ["th", "st", "nd", "rd"];
+  const v = n % 100;
+  return n + (suffixes[(v - 20) % 10] || suffixes[v] || suffixes[0]);
+};
+
+/**
+ * Describe a rating change in words: where the player finished, who they
+ * beat, tied with or lost to, and how that compared with expectations
+ */
+export function explainELOChange(result: ELOCalculationResult): string {
+  const beat = result.matchups.filter((m) => m.score === 1).length;
+  const tied = result.matchups.filter((m) => m.score === 0.5).length;
+  const lost = result.matchups.filter((m) => m.score === 0).length;
+  const parts: string[] = [];
+
+  if (result.placement !== undefined) {
+    const shared =
+      result.matchups.some((m) => m.score === 0.5) ? " (tied)" : "";
+    parts.push(
+      `Finished ${ordinal(result.placement)} of ${result.fieldSize}${shared}`
+    );
+  }
+
+  const record = [
+    beat > 0 && `beat ${beat}`,
+    tied > 0 && `tied with ${tied}`,
+    lost > 0 && `lost to ${lost}`,
+  ].filter(Boolean);
+  if (record.length > 0) {
+    parts.push(
+      `${record.join(", ")} of ${result.matchups.length} ${
+        result.matchups.length === 1 ? "opponent" : "opponents"
+      }`
+    );
+  }
+
+  parts.push(
+    `scored ${result.actualScore.toFixed(2)} against an expected ${result.expectedScore.toFixed(
+      2
+    )} (K=${result.kFactor})`
+  );
+
+  if (result.marginMultiplier !== 1) {
+    parts.push(`margin x${result.marginMultiplier.toFixed(2)}`);
+  }
+  if (result.skillBonus !== 0) {
+    parts.push(
+      `skill ${result.skillBonus > 0 ? "bonus +" : "penalty "}${result.skillBonus}`
+    );
+  }
+
+  const summary = parts.join("; ");
+  return `${summary.charAt(0).toUpperCase()}${summary.slice(1)}`;
 }
 
 export class ELOCalculationService {
@@ -76,15 +199,10 @@ export class ELOCalculationService {
       );
 
       // Perform ELO calculations based on activity type
-      const results = settings.teamBased
-        ? await this.calculateTeamBasedELO(
-            participantsWithSkillBonuses,
-            settings
-          )
-        : await this.calculateIndividualELO(
-            participantsWithSkillBonuses,
-            settings
-          );
+      const results = await this.calculateFromParticipants(
+        participantsWithSkillBonuses,
+        settings
+      );
 
       console.log(
         `📈 ELO calculation completed for ${results.length} participants`
@@ -101,6 +219,41 @@ export class ELOCalculationService {
     }
   }
 
+  /**
+   * Run the ELO math for an in-memory set of participants (used for previews)
+   */
+  async calculateFromParticipants(
+    participants: ParticipantELO[],
+    settings: ActivityELOSettings
+  ): Promise<ELOCalculationResult[]> {
+    this.validateParticipantsForSettings(participants, settings);
+
+    return settings.teamBased
+      ? await this.calculateTeamBasedELO(participants, settings)
+      : await this.calculateIndividualELO(participants, settings);
+  }
+
+  /**
+   * Get the resolved ELO settings for an activity type
+   */
+  async getActivityTypeELOSettings(
+    activityTypeId: string
+  ): Promise<ActivityELOSettings> {
+    const activityType = await db.query.activityTypes.findFirst({
+      where: eq(activityTypes.id, activityTypeId),
+      columns: { category: true, defaultELOSettings: true },
+    });
+
+    if (!activityType) {
+      throw new Error("Activity type not found");
+    }
+
+    return resolveActivityELOSettings(
+      activityType.defaultELOSettings,
+      activityType.category
+    );
+  }
+
   /**
    * Validate that activity is ready for ELO calculation
    */
@@ -177,20 +330,14 @@ export class ELOCalculationService {
     // Validate with zod
     const validatedActivity = selectActivitySchema.parse(activity);
 
-    // Get ELO settings from activity type
-    const settings: ActivityELOSettings = {
-      startingELO: 1200,
-      kFactor: {
-        new: 40,
-        established: 24,
-        expert: 16,
-      },
-      provisionalGames: 10,
-      minimumParticipants: 2,
-      teamBased: activityType?.name?.toLowerCase().includes("team") || false,
-      allowDraws: true,
-      skillInfluence: 0.3, // 30% influence from skill ratings
-    };
+    // Get ELO settings from activity type - fixtures are always played as teams
+    const settings = resolveActivityELOSettings(
+      activityType?.defaultELOSettings,
+      activityType?.category
+    );
+    if (validatedActivity.homeTeamId && validatedActivity.awayTeamId) {
+      settings.teamBased = true;
+    }
 
     // Get participants with ELO data
     const participantsQuery = await db
@@ -198,8 +345,10 @@ export class ELOCalculationService {
         userId: activityParticipants.userId,
         team: activityParticipants.team,
         finalResult: activityParticipants.finalResult,
+        placement: activityParticipants.placement,
         currentELO: userActivityTypeELOs.eloScore,
         gamesPlayed: userActivityTypeELOs.gamesPlayed,
+        ratingDeviation: userActivityTypeELOs.ratingDeviation,
         volatility: userActivityTypeELOs.volatility,
         username: sql`COALESCE(users.username, 'Unknown')`,
       })
@@ -227,19 +376,66 @@ export class ELOCalculationService {
       username: p.username as string,
       currentELO: p.currentELO || settings.startingELO,
       gamesPlayed: p.gamesPlayed || 0,
-      volatility: p.volatility || 50,
+      ratingDeviation: p.ratingDeviation ?? DEFAULT_RATING_DEVIATION,
+      volatility: p.volatility ?? DEFAULT_RATING_VOLATILITY,
       team: p.team || undefined,
       finalResult: p.finalResult as "win" | "loss" | "draw",
+      placement: p.placement ?? undefined,
       skillPerformanceBonus: 0,
     }));
 
+    if (settings.marginScaling) {
+      this.applyMarginMultipliers(activity.score, participants);
+    }
+
+    return { settings, participants };
+  }
+
+  /**
+   * Scale each participant's rating change by how decisive the score was,
+   * growing with the log of the margin. Formats without a margin are unscaled.
+   */
+  private applyMarginMultipliers(
+    rawScore: unknown,
+    participants: ParticipantELO[]
+  ): void {
+    const parsed = activityScoreSchema.safeParse(rawScore);
+    if (!parsed.success) return;
+
+    for (const participant of participants) {
+      const margin = scoreMargin(
+        parsed.data,
+        scoreSideOf(participant, participants)
+      );
+      if (margin === null || margin <= 1) continue;
+
+      participant.marginMultiplier = marginMultiplier(margin);
+    }
+  }
+
+  /**
+   * Check participants and results against the activity type rules
+   */
+  private validateParticipantsForSettings(
+    participants: ParticipantELO[],
+    settings: ActivityELOSettings
+  ): void {
     if (participants.length < settings.minimumParticipants) {
       throw new Error(
         `Insufficient participants for ELO calculation (minimum: ${settings.minimumParticipants})`
       );
     }
 
-    return { settings, participants };
+    // Shared positions in a wider field are ties, not draws
+    const fieldRanked =
+      participants.length > 2 && this.ranksByPlacement(participants);
+    if (
+      !settings.allowDraws &&
+      !fieldRanked &&
+      participants.some((p) => p.finalResult === "draw")
+    ) {
+      throw new Error("Draws are not allowed for this activity type");
+    }
   }
 
   /**
@@ -321,78 +517,74 @@ export class ELOCalculationService {
   }
 
   /**
-   * Calculate ELO for individual competitions
+   * Whether every participant has a finishing position to rank by
+   */
+  private ranksByPlacement(participants: ParticipantELO[]): boolean {
+    return participants.every((p) => p.placement !== undefined);
+  }
+
+  /**
+   * Calculate ELO for individual competitions. With finishing positions,
+   * every pair is a game won by whoever finished ahead, tied when level.
    */
   private async calculateIndividualELO(
     participants: ParticipantELO[],
     settings: ActivityELOSettings
   ): Promise<ELOCalculationResult[]> {
     const results: ELOCalculationResult[] = [];
+    const byPlacement = this.ranksByPlacement(participants);
 
     for (const participant of participants) {
-      const kFactor = this.getKFactor(participant.gamesPlayed, settings);
-
-      // Calculate expected score against all other participants
+      // Rate against all other participants
       const opponents = participants.filter(
         (p) => p.userId !== participant.userId
       );
-      let totalExpectedScore = 0;
-      let totalActualScore = 0;
 
-      for (const opponent of opponents) {
-        const expectedScore = this.calculateExpectedScore(
-          participant.currentELO,
-          opponent.currentELO
-        );
-        totalExpectedScore += expectedScore;
+      const matchups: RatingMatchup[] = opponents.map((opponent) => {
+        let score = 0;
 
-        // Actual score based on results
-        if (
+        if (byPlacement) {
+          score =
+            participant.placement! < opponent.placement!
+              ? 1
+              : participant.placement! === opponent.placement!
+              ? 0.5
+              : 0;
+        } else if (
           participant.finalResult === "win" &&
           opponent.finalResult === "loss"
         ) {
-          totalActualScore += 1;
+          score = 1;
         } else if (
           participant.finalResult === "loss" &&
           opponent.finalResult === "win"
         ) {
-          totalActualScore += 0;
+          score = 0;
         } else if (
           participant.finalResult === "draw" ||
           opponent.finalResult === "draw"
         ) {
-          totalActualScore += 0.5;
+          score = 0.5;
         }
-      }
 
-      // Normalize scores
-      const avgExpectedScore = totalExpectedScore / opponents.length;
-      const avgActualScore = totalActualScore / opponents.length;
+        return {
+          playerRating: participant.currentELO,
+          opponentRating: opponent.currentELO,
+          opponentDeviation:
+            opponent.ratingDeviation ?? DEFAULT_RATING_DEVIATION,
+          score,
+        };
+      });
 
-      // Calculate ELO change
-      const baseELOChange = Math.round(
-        kFactor * (avgActualScore - avgExpectedScore)
+      results.push(
+        this.applyRatingStrategy(
+          participant,
+          matchups,
+          opponents.map((opponent) => opponent.username),
+          participants.length,
+          settings
+        )
       );
-      const skillBonus = participant.skillPerformanceBonus || 0;
-      const totalELOChange = baseELOChange + skillBonus;
-
-      const newELO = Math.max(100, participant.currentELO + totalELOChange); // Minimum ELO of 100
-
-      results.push({
-        userId: participant.userId,
-        oldELO: participant.currentELO,
-        newELO,
-        eloChange: totalELOChange,
-        kFactor,
-        expectedScore: avgExpectedScore,
-        actualScore: avgActualScore,
-        skillBonus,
-        reason: this.getELOChangeReason(
-          avgActualScore,
-          avgExpectedScore,
-          skillBonus
-        ),
-      });
     }
 
     return results;
@@ -424,6 +616,11 @@ export class ELOCalculationService {
       averageELO:
         teams[teamName].reduce((sum, p) => sum + p.currentELO, 0) /
         teams[teamName].length,
+      averageDeviation:
+        teams[teamName].reduce(
+          (sum, p) => sum + (p.ratingDeviation ?? DEFAULT_RATING_DEVIATION),
+          0
+        ) / teams[teamName].length,
       result: teams[teamName][0].finalResult, // Assume all team members have same result
     }));
 
@@ -431,7 +628,6 @@ export class ELOCalculationService {
 
     // Calculate ELO changes for each participant
     for (const participant of participants) {
-      const kFactor = this.getKFactor(participant.gamesPlayed, settings);
       const participantTeam = teamAverages.find(
         (t) => t.teamName === (participant.team || "default")
       )!;
@@ -439,86 +635,112 @@ export class ELOCalculationService {
         (t) => t.teamName !== participantTeam.teamName
       );
 
-      let totalExpectedScore = 0;
-      let totalActualScore = 0;
-
-      for (const opposingTeam of opposingTeams) {
-        const expectedScore = this.calculateExpectedScore(
-          participantTeam.averageELO,
-          opposingTeam.averageELO
-        );
-        totalExpectedScore += expectedScore;
+      const matchups: RatingMatchup[] = opposingTeams.map((opposingTeam) => {
+        let score = 0.5;
 
         if (
           participantTeam.result === "win" &&
           opposingTeam.result === "loss"
         ) {
-          totalActualScore += 1;
+          score = 1;
         } else if (
           participantTeam.result === "loss" &&
           opposingTeam.result === "win"
         ) {
-          totalActualScore += 0;
-        } else {
-          totalActualScore += 0.5;
+          score = 0;
         }
-      }
 
-      const avgExpectedScore = totalExpectedScore / opposingTeams.length;
-      const avgActualScore = totalActualScore / opposingTeams.length;
+        return {
+          playerRating: participantTeam.averageELO,
+          opponentRating: opposingTeam.averageELO,
+          opponentDeviation: opposingTeam.averageDeviation,
+          score,
+        };
+      });
 
-      const baseELOChange = Math.round(
-        kFactor * (avgActualScore - avgExpectedScore)
+      results.push(
+        this.applyRatingStrategy(
+          participant,
+          matchups,
+          opposingTeams.map((team) => team.teamName),
+          teamNames.length,
+          settings
+        )
       );
-      const skillBonus = participant.skillPerformanceBonus || 0;
-      const totalELOChange = baseELOChange + skillBonus;
-
-      const newELO = Math.max(100, participant.currentELO + totalELOChange);
-
-      results.push({
-        userId: participant.userId,
-        oldELO: participant.currentELO,
-        newELO,
-        eloChange: totalELOChange,
-        kFactor,
-        expectedScore: avgExpectedScore,
-        actualScore: avgActualScore,
-        skillBonus,
-        reason: this.getELOChangeReason(
-          avgActualScore,
-          avgExpectedScore,
-          skillBonus
-        ),
-      });
     }
 
     return results;
   }
 
   /**
-   * Calculate expected score using ELO formula
+   * Run the configured rating engine for one participant and add the skill bonus
    */
-  private calculateExpectedScore(
-    playerELO: number,
-    opponentELO: number
-  ): number {
-    return 1 / (1 + Math.pow(10, (opponentELO - playerELO) / 400));
+  private applyRatingStrategy(
+    participant: ParticipantELO,
+    matchups: RatingMatchup[],
+    opponentNames: string[],
+    fieldSize: number,
+    settings: ActivityELOSettings
+  ): ELOCalculationResult {
+    const strategy = getRatingStrategy(settings);
+    const update = strategy.rate(
+      {
+        rating: participant.currentELO,
+        ratingDeviation:
+          participant.ratingDeviation ?? DEFAULT_RATING_DEVIATION,
+        volatility: participant.volatility,
+        gamesPlayed: participant.gamesPlayed,
+      },
+      matchups,
+      settings
+    );
+
+    const baseELOChange = Math.round(
+      (update.rating - participant.currentELO) *
+        (participant.marginMultiplier ?? 1)
+    );
+    const skillBonus = participant.skillPerformanceBonus || 0;
+    const totalELOChange = baseELOChange + skillBonus;
+
+    const newELO = Math.max(100, participant.currentELO + totalELOChange); // Minimum ELO of 100
+
+    return {
+      userId: participant.userId,
+      oldELO: participant.currentELO,
+      newELO,
+      eloChange: totalELOChange,
+      kFactor: update.kFactor,
+      expectedScore: update.expectedScore,
+      actualScore: update.actualScore,
+      skillBonus,
+      reason: this.getELOChangeReason(
+        update.actualScore,
+        update.expectedScore,
+        skillBonus
+      ),
+      ratingSystem: strategy.name,
+      ratingDeviation: update.ratingDeviation,
+      volatility: update.volatility,
+      placement: participant.placement,
+      fieldSize,
+      marginMultiplier: participant.marginMultiplier ?? 1,
+      matchups: matchups.map((matchup, index) => ({
+        opponent: opponentNames[index],
+        opponentRating: matchup.opponentRating,
+        expectedScore: calculateExpectedScore(
+          matchup.playerRating,
+          matchup.opponentRating
+        ),
+        score: matchup.score,
+      })),
+    };
   }
 
   /**
    * Get K-factor based on games played
    */
-  private getKFactor(
-    gamesPlayed: number,
-    settings: ActivityELOSettings
-  ): number {
-    if (gamesPlayed < settings.provisionalGames) {
-      return settings.kFactor.new;
-    } else if (gamesPlayed < 100) {
-      return settings.kFactor.established;
-    } else {
-      return settings.kFactor.expert;
-    }
+  getKFactor(gamesPlayed: number, settings: ActivityELOSettings): number {
+    return getKFactor(gamesPlayed, settings);
   }
 
   /**
@@ -5,29 +5,44 @@ import {
   activities,
   activityELOStatus,
   activityParticipants,
+  activityResultSubmissions,
+  eloHistory,
   userActivityTypeELOs,
 } from "../db/schema.js";
 import {
+  insertELOHistorySchema,
   insertUserActivityTypeELOSchema,
   selectActivitySchema,
   selectUserActivityTypeELOSchema,
   updateUserActivityTypeELOSchema,
   type Activity,
+  type InsertELOHistory,
   type InsertUserActivityTypeELO,
   type UpdateUserActivityTypeELO,
 } from "../db/zod.schema.js";
 import { deltaTrackingService } from "./delta-tracking.service.js";
 import {
   eloCalculationService,
+  explainELOChange,
+  type ActivityELOSettings,
   type ELOCalculationResult,
 } from "./elo-calc.service.js";
+import { outcomesFromScore } from "../utils/match-score.js";
+import { autoPostService } from "./auto-post.service.js";
 import type { ELOSimulationParams, ELOSimulationResult } from "./interfaces.js";
+import { notificationService } from "./notification.service.js";
+import { teamEloService, type TeamRatingChange } from "./team-elo.service.js";
+import {
+  DEFAULT_RATING_DEVIATION,
+  DEFAULT_RATING_VOLATILITY,
+} from "./rating-strategy.service.js";
 
 export interface ActivityCompletionData {
   activityId: string;
   results: Array<{
     userId: string;
     finalResult: "win" | "loss" | "draw";
+    placement?: number;
     performanceNotes?: string;
   }>;
 }
@@ -50,7 +65,10 @@ interface ELOProcessingResult {
     change: number;
     skillBonus: number;
     reason: string;
+    ratingDeviation?: number;
   }>;
+  // Both teams' rating changes when the activity is a fixture
+  teamUpdates?: TeamRatingChange[];
   processingTime?: number;
   // Keep any existing properties like 'error'
   error?: string;
@@ -69,6 +87,16 @@ export class ELOProcessingService {
     const { activityId, results } = completionData;
     const startTime = Date.now();
 
+    // Submitted results are only rated once confirmed or settled by a moderator
+    const submission = await db.query.activityResultSubmissions.findFirst({
+      where: eq(activityResultSubmissions.activityId, activityId),
+    });
+    if (submission && !["confirmed", "resolved"].includes(submission.status)) {
+      throw new Error(
+        `Results for activity ${activityId} are awaiting confirmation`
+      );
+    }
+
     // Prevent duplicate processing
     if (this.processingQueue.has(activityId)) {
       throw new Error(
@@ -98,14 +126,19 @@ export class ELOProcessingService {
         throw new Error("Activity is not ELO-rated");
       }
 
+      const settings = await eloCalculationService.getActivityTypeELOSettings(
+        activityData.activityTypeId
+      );
+
       // Step 3: Get participants with current ELO ratings
       const participants = await this.getParticipantsWithELO(
         activityId,
-        activityData.activityTypeId
+        activityData.activityTypeId,
+        settings
       );
 
       // Step 4: Validate completion results
-      this.validateCompletionResults(results, participants);
+      this.validateCompletionResults(results, participants, settings);
 
       // Step 5: Update participant results in database
       await this.updateParticipantResults(activityId, results);
@@ -119,20 +152,30 @@ export class ELOProcessingService {
       const participantUpdates = await this.applyELOChangesWithValidation(
         eloResults,
         activityId,
-        activityData.activityTypeId
+        activityData.activityTypeId,
+        activityData.creatorId
+      );
+
+      // Step 8: Fixtures also move both teams' ratings
+      const teamUpdates = await teamEloService.applyFixtureResult(
+        activityId,
+        settings
       );
 
-      // Step 8: Mark processing as completed
+      // Step 9: Mark processing as completed
       await this.completeELOProcessing(activityId);
 
       const processingTime = Date.now() - startTime;
 
-      // Step 9: Log success with delta tracking
+      // Step 10: Log success with delta tracking
       await this.logProcessingSuccess(
         activityId,
         participantUpdates,
-        processingTime
+        processingTime,
+        activityData.creatorId
       );
+      await this.notifyELOChanges(activityId, participantUpdates);
+      await autoPostService.postActivityRecaps(activityId, participantUpdates);
 
       console.log(
         `✅ ELO processing completed for ${activityId} in ${processingTime}ms`
@@ -151,6 +194,7 @@ export class ELOProcessingService {
         participantsProcessed: participantUpdates.length, // Add this
         eloChanges, // Add this
         participantUpdates, // Optional, but include if you want the detailed data
+        teamUpdates,
         processingTime, // Optional, but include if you want the time
       };
     } catch (error) {
@@ -185,23 +229,85 @@ export class ELOProcessingService {
   ): Promise<ELOSimulationResult> {
     console.log(`📊 Simulating ELO changes for activity: ${params.activityId}`);
 
-    // TODO: Implement actual ELO simulation logic
-    // This is a placeholder implementation for now
-    const simulatedChanges = params.participants.map((participant: any) => {
-      const baseChange = 10; // Placeholder calculation
-      const variation = Math.random() * 20 - 10; // ±10 variation
-      const change = Math.round(baseChange + variation);
+    const settings = await eloCalculationService.getActivityTypeELOSettings(
+      params.activityTypeId
+    );
+
+    const missingResults = params.participants.filter(
+      (p) => !params.results.some((r) => r.userId === p.userId)
+    );
+    if (missingResults.length > 0) {
+      throw new Error(
+        `Missing expected results for participants: ${missingResults
+          .map((p) => p.userId)
+          .join(", ")}`
+      );
+    }
+
+    // Finishing positions decide the outcomes when given for everyone
+    const placed = params.results.every((r) => r.expectedPlacement !== undefined)
+      ? outcomesFromScore(
+          {
+            format: "placement",
+            entries: params.results.map((r) => ({
+              userId: r.userId,
+              position: r.expectedPlacement!,
+            })),
+          },
+          params.participants
+        )
+      : null;
+    if (placed && !placed.success) {
+      throw new Error(placed.error);
+    }
+
+    const outcomeOf = (userId: string) => {
+      const fromPlacement =
+        placed?.success && placed.results.find((r) => r.userId === userId);
+      if (fromPlacement) return fromPlacement;
+
+      const expected = params.results.find((r) => r.userId === userId)!;
+      if (!expected.expectedResult) {
+        throw new Error(
+          `Expected result or placement missing for participant ${userId}`
+        );
+      }
+      return { finalResult: expected.expectedResult, placement: undefined };
+    };
+
+    // Skill bonuses depend on ratings that don't exist yet, so they are left out
+    const eloResults = await eloCalculationService.calculateFromParticipants(
+      params.participants.map((participant) => {
+        const outcome = outcomeOf(participant.userId);
+
+        return {
+          userId: participant.userId,
+          username: participant.username,
+          currentELO: participant.currentELO,
+          gamesPlayed: participant.gamesPlayed,
+          ratingDeviation: participant.ratingDeviation,
+          volatility: participant.volatility ?? DEFAULT_RATING_VOLATILITY,
+          team: participant.team || undefined,
+          finalResult: outcome.finalResult,
+          placement: outcome.placement,
+          skillPerformanceBonus: 0,
+        };
+      }),
+      settings
+    );
+
+    const simulatedChanges = params.participants.map((participant) => {
+      const result = eloResults.find((r) => r.userId === participant.userId)!;
 
       return {
         userId: participant.userId,
         username: participant.username,
         currentELO: participant.currentELO,
-        newELO: participant.currentELO + change,
-        change: change,
-        explanation: `Simulated change based on ${
-          params.results.find((r: any) => r.userId === participant.userId)
-            ?.expectedResult || "participation"
-        }`,
+        newELO: result.newELO,
+        change: result.eloChange,
+        placement: result.placement,
+        matchups: result.matchups,
+        explanation: explainELOChange(result),
       };
     });
 
@@ -222,6 +328,24 @@ export class ELOProcessingService {
     };
   }
 
+  /**
+   * Whether ratings were already applied for an activity
+   */
+  async hasRatingHistory(activityId: string): Promise<boolean> {
+    const [entry] = await db
+      .select({ id: eloHistory.id })
+      .from(eloHistory)
+      .where(eq(eloHistory.activityId, activityId))
+      .limit(1);
+
+    return !!entry;
+  }
+
+  /**
+   * Rate an activity whose processing never went through. Activities that
+   * already moved ratings are refused - the timeline has no way to undo a
+   * Glicko-2 update, so applying another one would double count the match.
+   */
   async reprocessActivity(activityId: string): Promise<ELOProcessingResult> {
     console.log(`🔄 Reprocessing ELO for activity: ${activityId}`);
 
@@ -229,9 +353,6 @@ export class ELOProcessingService {
       // 1. Get the activity and participants with results
       const activity = await db.query.activities.findFirst({
         where: eq(activities.id, activityId),
-        with: {
-          activityType: true,
-        },
       });
 
       if (
@@ -248,28 +369,25 @@ export class ELOProcessingService {
         };
       }
 
-      // 2. Get participants with their final results
-      const participants = await db
-        .select({
-          userId: activityParticipants.userId,
-          finalResult: activityParticipants.finalResult,
-          currentELO: userActivityTypeELOs.eloScore,
-          gamesPlayed: userActivityTypeELOs.gamesPlayed,
-        })
-        .from(activityParticipants)
-        .leftJoin(
-          userActivityTypeELOs,
-          and(
-            eq(userActivityTypeELOs.userId, activityParticipants.userId),
-            eq(userActivityTypeELOs.activityTypeId, activity.activityTypeId)
-          )
-        )
-        .where(
-          and(
-            eq(activityParticipants.activityId, activityId),
-            eq(activityParticipants.status, "accepted")
-          )
-        );
+      if (await this.hasRatingHistory(activityId)) {
+        return {
+          success: false,
+          activityId,
+          participantsProcessed: 0,
+          eloChanges: [],
+          error: "Ratings were already applied for this activity",
+        };
+      }
+
+      // 2. Make sure every participant has a rating to move
+      const settings = await eloCalculationService.getActivityTypeELOSettings(
+        activity.activityTypeId
+      );
+      const participants = await this.getParticipantsWithELO(
+        activityId,
+        activity.activityTypeId,
+        settings
+      );
 
       if (participants.length === 0) {
         return {
@@ -281,58 +399,28 @@ export class ELOProcessingService {
         };
       }
 
-      // 3. Recalculate ELO changes (simplified algorithm)
-      const eloChanges = [];
-      const kFactor = 32; // Standard K-factor
-
-      for (const participant of participants) {
-        const currentELO = participant.currentELO || 1200;
-        const games = participant.gamesPlayed || 0;
-
-        // Simple ELO calculation based on result
-        let scoreMultiplier = 0.5; // Draw default
-        if (participant.finalResult === "win") scoreMultiplier = 1.0;
-        if (participant.finalResult === "loss") scoreMultiplier = 0.0;
-
-        // Expected score (simplified - in real implementation would compare against opponents)
-        const expectedScore = 0.5;
-        const actualScore = scoreMultiplier;
-
-        const change = Math.round(kFactor * (actualScore - expectedScore));
-        const newELO = currentELO + change;
+      // 3. Recalculate with the activity type's rating strategy
+      const eloResults = await eloCalculationService.calculateActivityELO(
+        activityId
+      );
 
-        // 4. Update the database
-        await db
-          .insert(userActivityTypeELOs)
-          .values({
-            userId: participant.userId,
-            activityTypeId: activity.activityTypeId,
-            eloScore: newELO,
-            gamesPlayed: games + 1,
-            peakELO: Math.max(currentELO, newELO),
-            lastUpdated: new Date(),
-          })
-          .onConflictDoUpdate({
-            target: [
-              userActivityTypeELOs.userId,
-              userActivityTypeELOs.activityTypeId,
-            ],
-            set: {
-              eloScore: newELO,
-              gamesPlayed: games + 1,
-              peakELO: sql`GREATEST(${userActivityTypeELOs.peakELO}, ${newELO})`,
-              lastUpdated: new Date(),
-              version: sql`${userActivityTypeELOs.version} + 1`,
-            },
-          });
-
-        eloChanges.push({
-          userId: participant.userId,
-          oldELO: currentELO,
-          newELO,
-          change,
-        });
-      }
+      // 4. Apply the changes the same way a completion does
+      const participantUpdates = await this.applyELOChangesWithValidation(
+        eloResults,
+        activityId,
+        activity.activityTypeId,
+        activity.creatorId
+      );
+      const teamUpdates = await teamEloService.applyFixtureResult(
+        activityId,
+        settings
+      );
+      const eloChanges = participantUpdates.map((u) => ({
+        userId: u.userId,
+        oldELO: u.oldELO,
+        newELO: u.newELO,
+        change: u.change,
+      }));
 
       // Mark ELO processing as completed
       await db
@@ -347,8 +435,10 @@ export class ELOProcessingService {
       return {
         success: true,
         activityId,
-        participantsProcessed: participants.length,
+        participantsProcessed: participantUpdates.length,
         eloChanges,
+        participantUpdates,
+        teamUpdates,
       };
     } catch (error) {
       console.error("Error reprocessing ELO:", error);
@@ -385,7 +475,8 @@ export class ELOProcessingService {
    */
   private async getParticipantsWithELO(
     activityId: string,
-    activityTypeId: string
+    activityTypeId: string,
+    settings: ActivityELOSettings
   ) {
     const participantsQuery = await db
       .select({
@@ -396,6 +487,7 @@ export class ELOProcessingService {
         currentELO: userActivityTypeELOs.eloScore,
         gamesPlayed: userActivityTypeELOs.gamesPlayed,
         peakELO: userActivityTypeELOs.peakELO,
+        ratingDeviation: userActivityTypeELOs.ratingDeviation,
         volatility: userActivityTypeELOs.volatility,
         version: userActivityTypeELOs.version,
         seasonELO: userActivityTypeELOs.seasonELO,
@@ -425,10 +517,11 @@ export class ELOProcessingService {
         const initialELOData: InsertUserActivityTypeELO = {
           userId: participant.userId,
           activityTypeId,
-          eloScore: 1200, // Default starting ELO
+          eloScore: settings.startingELO,
           gamesPlayed: 0,
-          peakELO: 1200,
-          volatility: 50, // High volatility for new players
+          peakELO: settings.startingELO,
+          ratingDeviation: DEFAULT_RATING_DEVIATION,
+          volatility: DEFAULT_RATING_VOLATILITY,
           version: 1,
           seasonELO: null,
         };
@@ -449,6 +542,7 @@ export class ELOProcessingService {
           currentELO: validatedNewELO.eloScore,
           gamesPlayed: validatedNewELO.gamesPlayed,
           peakELO: validatedNewELO.peakELO,
+          ratingDeviation: validatedNewELO.ratingDeviation,
           volatility: validatedNewELO.volatility,
           version: validatedNewELO.version,
           seasonELO: validatedNewELO.seasonELO,
@@ -467,7 +561,8 @@ export class ELOProcessingService {
    */
   private validateCompletionResults(
     results: ActivityCompletionData["results"],
-    participants: any[]
+    participants: any[],
+    settings: ActivityELOSettings
   ) {
     const participantIds = participants.map((p) => p.userId);
     const resultIds = results.map((r) => r.userId);
@@ -499,6 +594,23 @@ export class ELOProcessingService {
         );
       }
     }
+
+    if (participants.length < settings.minimumParticipants) {
+      throw new Error(
+        `Insufficient participants for ELO calculation (minimum: ${settings.minimumParticipants})`
+      );
+    }
+
+    // Shared positions in a wider field are ties, not draws
+    const fieldRanked =
+      results.length > 2 && results.every((r) => r.placement !== undefined);
+    if (
+      !settings.allowDraws &&
+      !fieldRanked &&
+      results.some((r) => r.finalResult === "draw")
+    ) {
+      throw new Error("Draws are not allowed for this activity type");
+    }
   }
 
   /**
@@ -513,6 +625,7 @@ export class ELOProcessingService {
         .update(activityParticipants)
         .set({
           finalResult: result.finalResult,
+          placement: result.placement ?? null,
           performanceNotes: result.performanceNotes || null,
         })
         .where(
@@ -525,12 +638,14 @@ export class ELOProcessingService {
   }
 
   /**
-   * Apply ELO changes with proper validation and delta tracking
+   * Apply ELO changes with proper validation and delta tracking. Changes are
+   * logged as triggered by the activity's organizer.
    */
   private async applyELOChangesWithValidation(
     eloResults: ELOCalculationResult[],
     activityId: string,
-    activityTypeId: string
+    activityTypeId: string,
+    triggeredBy: string
   ) {
     const participantUpdates = [];
 
@@ -557,7 +672,8 @@ export class ELOProcessingService {
         gamesPlayed: currentRecord.gamesPlayed + 1,
         lastUpdated: new Date(),
         peakELO: Math.max(currentRecord.peakELO || oldELO, newELO),
-        volatility: Math.max((currentRecord.volatility || 50) - 1, 10), // Decrease volatility over time
+        ratingDeviation: result.ratingDeviation,
+        volatility: result.volatility,
         version: (currentRecord.version || 0) + 1, // Optimistic locking
       };
 
@@ -592,6 +708,20 @@ export class ELOProcessingService {
         );
       }
 
+      await this.recordELOHistory({
+        userId: result.userId,
+        activityTypeId,
+        activityId,
+        oldELO,
+        newELO,
+        eloChange: change,
+        kFactor: result.kFactor,
+        expectedScore: result.expectedScore,
+        actualScore: result.actualScore,
+        skillBonus: result.skillBonus || 0,
+        reason: result.reason || "ELO calculation",
+      });
+
       // Log ELO change for delta tracking
       await deltaTrackingService.logELOChange(
         result.userId,
@@ -599,7 +729,7 @@ export class ELOProcessingService {
         oldELO,
         newELO,
         activityId,
-        "system"
+        triggeredBy
       );
 
       participantUpdates.push({
@@ -609,12 +739,38 @@ export class ELOProcessingService {
         change,
         skillBonus: result.skillBonus || 0,
         reason: result.reason || "ELO calculation",
+        ratingDeviation: result.ratingDeviation,
       });
     }
 
     return participantUpdates;
   }
 
+  /**
+   * Store one rating timeline entry per player and activity
+   */
+  private async recordELOHistory(entry: InsertELOHistory) {
+    const validatedEntry = insertELOHistorySchema.parse(entry);
+
+    await db
+      .insert(eloHistory)
+      .values(validatedEntry)
+      .onConflictDoUpdate({
+        target: [eloHistory.activityId, eloHistory.userId],
+        set: {
+          oldELO: validatedEntry.oldELO,
+          newELO: validatedEntry.newELO,
+          eloChange: validatedEntry.eloChange,
+          kFactor: validatedEntry.kFactor,
+          expectedScore: validatedEntry.expectedScore,
+          actualScore: validatedEntry.actualScore,
+          skillBonus: validatedEntry.skillBonus,
+          reason: validatedEntry.reason,
+          createdAt: new Date(),
+        },
+      });
+  }
+
   /**
    * Acquire processing lock with timeout handling
    */
@@ -711,7 +867,8 @@ export class ELOProcessingService {
   private async logProcessingSuccess(
     activityId: string,
     participantUpdates: any[],
-    processingTime: number
+    processingTime: number,
+    triggeredBy: string
   ): Promise<void> {
     const participantIds = participantUpdates.map((u) => u.userId);
 
@@ -732,12 +889,37 @@ export class ELOProcessingService {
           0
         ),
       },
-      "system"
+      triggeredBy
     );
   }
 
   /**
-   * Log processing error with delta tracking
+   * Tell each player how their rating moved
+   */
+  private async notifyELOChanges(
+    activityId: string,
+    participantUpdates: Array<{ userId: string; oldELO: number; newELO: number; change: number }>
+  ): Promise<void> {
+    for (const update of participantUpdates) {
+      const sign = update.change >= 0 ? "+" : "";
+      await notificationService.create(update.userId, {
+        type: "elo_change",
+        title: "Rating Updated",
+        message: `Your rating changed by ${sign}${update.change} (${update.oldELO} → ${update.newELO})`,
+        payload: {
+          activityId,
+          oldELO: update.oldELO,
+          newELO: update.newELO,
+          change: update.change,
+        },
+        linkUrl: `/activities/${activityId}`,
+        relatedEntityId: activityId,
+      });
+    }
+  }
+
+  /**
+   * Log processing error with delta tracking, attributed to the organizer
    */
   private async logProcessingError(
     activityId: string,
@@ -745,6 +927,11 @@ export class ELOProcessingService {
     processingTime: number
   ): Promise<void> {
     const participantIds = await this.getActivityParticipantIds(activityId);
+    const [activity] = await db
+      .select({ creatorId: activities.creatorId })
+      .from(activities)
+      .where(eq(activities.id, activityId));
+    if (!activity) return;
 
     await deltaTrackingService.logActivityChange(
       activityId,
@@ -756,7 +943,7 @@ export class ELOProcessingService {
         error: error instanceof Error ? error.message : "Unknown error",
         processingTime,
       },
-      "system"
+      activity.creatorId
     );
   }
 
@@ -0,0 +1,426 @@
+// src/services/feed.service.ts - Posts, likes and threaded comments behind the social feed
+import { and, asc, count, desc, eq, inArray, or, sql } from "drizzle-orm";
+import { db } from "../db/client.js";
+import {
+  activities,
+  activityParticipants,
+  postComments,
+  postLikes,
+  posts,
+  userConnections,
+} from "../db/schema.js";
+import type {
+  CreatePost,
+  CreatePostComment,
+  EditPost,
+  FeedQuery,
+} from "../db/zod.schema.js";
+import { deltaTrackingService } from "./delta-tracking.service.js";
+
+type Post = typeof posts.$inferSelect;
+type PostComment = typeof postComments.$inferSelect;
+
+export type FeedActionResult<T> =
+  | { success: true; result: T }
+  | { success: false; status: 400 | 403 | 404; error: string };
+
+export type Threaded<T> = T & { replies: Threaded<T>[] };
+
+interface FeedCursor {
+  createdAt: string;
+  id: string;
+}
+
+const authorColumns = { id: true, username: true, avatarUrl: true } as const;
+
+/**
+ * Cursors carry the exact created_at text from Postgres, so rows created in
+ * the same millisecond are neither skipped nor repeated
+ */
+export function encodeFeedCursor(cursor: FeedCursor): string {
+  return Buffer.from(`${cursor.createdAt}|${cursor.id}`).toString("base64url");
+}
+
+export function decodeFeedCursor(value: string): FeedCursor | null {
+  const [createdAt, id] = Buffer.from(value, "base64url").toString().split("|");
+  const uuidPattern =
+    /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+  if (!createdAt || Number.isNaN(Date.parse(createdAt)) || !uuidPattern.test(id ?? "")) {
+    return null;
+  }
+
+  return { createdAt, id };
+}
+
+/**
+ * Arrange flat comments into reply threads, oldest first at every level
+ */
+export function threadComments<T extends { id: string; parentId: string | null }>(
+  comments: T[]
+): Threaded<T>[] {
+  const nodes = new Map<string, Threaded<T>>(
+    comments.map((comment) => [comment.id, { ...comment, replies: [] }])
+  );
+  const roots: Threaded<T>[] = [];
+
+  for (const comment of comments) {
+    const node = nodes.get(comment.id)!;
+    const parent = comment.parentId ? nodes.get(comment.parentId) : undefined;
+    (parent ? parent.replies : roots).push(node);
+  }
+
+  return roots;
+}
+
+export class FeedService {
+  /**
+   * Everyone the user has an accepted connection with
+   */
+  async friendIds(userId: string): Promise<string[]> {
+    const connections = await db
+      .select({
+        friendId: sql<string>`CASE
+          WHEN ${userConnections.user1Id} = ${userId} THEN ${userConnections.user2Id}
+          ELSE ${userConnections.user1Id}
+        END`,
+      })
+      .from(userConnections)
+      .where(
+        and(
+          or(
+            eq(userConnections.user1Id, userId),
+            eq(userConnections.user2Id, userId)
+          ),
+          eq(userConnections.status, "accepted")
+        )
+      );
+
+    return connections.map((connection) => connection.friendId);
+  }
+
+  /**
+   * Public posts are open to everyone, friends posts to the author's
+   * connections, private posts only to the author
+   */
+  async canView(post: Pick<Post, "userId" | "visibility">, viewerId: string) {
+    if (post.userId === viewerId || post.visibility === "public") {
+      return true;
+    }
+
+    if (post.visibility === "friends") {
+      return (await this.friendIds(viewerId)).includes(post.userId);
+    }
+
+    return false;
+  }
+
+  /**
+   * Newest first: the viewer's own posts, public posts and their friends'
+   * friends-only posts
+   */
+  async getFeed(viewerId: string, query: FeedQuery) {
+    const cursor = query.cursor ? decodeFeedCursor(query.cursor) : null;
+    const friends = await this.friendIds(viewerId);
+
+    const visible = or(
+      eq(posts.userId, viewerId),
+      eq(posts.visibility, "public"),
+      friends.length > 0
+        ? and(eq(posts.visibility, "friends"), inArray(posts.userId, friends))
+        : undefined
+    );
+
+    const page = await db
+      .select({
+        id: posts.id,
+        createdAtKey: sql<string>`${posts.createdAt}::text`,
+      })
+      .from(posts)
+      .where(
+        and(
+          visible,
+          cursor
+            ? sql`(${posts.createdAt}, ${posts.id}) < (${cursor.createdAt}::timestamp, ${cursor.id}::uuid)`
+            : undefined
+        )
+      )
+      .orderBy(desc(posts.createdAt), desc(posts.id))
+      .limit(query.limit + 1);
+
+    const hasMore = page.length > query.limit;
+    const shown = page.slice(0, query.limit);
+    const last = shown[shown.length - 1];
+
+    return {
+      posts: await this.hydrate(
+        shown.map((row) => row.id),
+        viewerId
+      ),
+      nextCursor:
+        hasMore && last
+          ? encodeFeedCursor({ createdAt: last.createdAtKey, id: last.id })
+          : null,
+    };
+  }
+
+  async findPost(postId: string) {
+    return db.query.posts.findFirst({ where: eq(posts.id, postId) });
+  }
+
+  /**
+   * A single post with its author, activity and counts, if the viewer may see it
+   */
+  async getPost(postId: string, viewerId: string) {
+    const post = await this.findPost(postId);
+
+    if (!post || !(await this.canView(post, viewerId))) {
+      return null;
+    }
+
+    const [hydrated] = await this.hydrate([post.id], viewerId);
+    return hydrated ?? null;
+  }
+
+  /**
+   * Publish a post and push it to the author's friends. Posts about an
+   * activity are limited to the people who took part in it.
+   */
+  async createPost(
+    authorId: string,
+    data: CreatePost
+  ): Promise<FeedActionResult<Post>> {
+    if (data.activityId) {
+      const activity = await db.query.activities.findFirst({
+        where: eq(activities.id, data.activityId),
+        columns: { id: true, creatorId: true },
+      });
+
+      if (!activity) {
+        return { success: false, status: 404, error: "Activity not found" };
+      }
+
+      const participation = await db.query.activityParticipants.findFirst({
+        where: and(
+          eq(activityParticipants.activityId, activity.id),
+          eq(activityParticipants.userId, authorId)
+        ),
+        columns: { id: true },
+      });
+
+      if (!participation && activity.creatorId !== authorId) {
+        return {
+          success: false,
+          status: 403,
+          error: "You can only post about activities you took part in",
+        };
+      }
+    }
+
+    const [post] = await db
+      .insert(posts)
+      .values({ ...data, userId: authorId })
+      .returning();
+
+    await this.fanOut(post);
+
+    return { success: true, result: post };
+  }
+
+  async editPost(post: Post, data: EditPost): Promise<Post> {
+    const [updated] = await db
+      .update(posts)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(posts.id, post.id))
+      .returning();
+
+    return updated;
+  }
+
+  async deletePost(postId: string) {
+    await db.delete(posts).where(eq(posts.id, postId));
+  }
+
+  /**
+   * Like a post. Liking twice keeps the single like; only a new like is
+   * passed on to the author.
+   */
+  async like(post: Post, userId: string) {
+    const [like] = await db
+      .insert(postLikes)
+      .values({ postId: post.id, userId })
+      .onConflictDoNothing()
+      .returning();
+
+    if (like && post.userId !== userId) {
+      await deltaTrackingService.trackChange({
+        entityType: "post_like",
+        entityId: like.id,
+        changeType: "create",
+        newData: like,
+        affectedUserId: post.userId,
+        relatedEntityId: post.id,
+        triggeredBy: userId,
+      });
+    }
+
+    return this.likeCount(post.id);
+  }
+
+  async unlike(post: Post, userId: string) {
+    await db
+      .delete(postLikes)
+      .where(and(eq(postLikes.postId, post.id), eq(postLikes.userId, userId)));
+
+    return this.likeCount(post.id);
+  }
+
+  async getComments(postId: string) {
+    const comments = await db.query.postComments.findMany({
+      where: eq(postComments.postId, postId),
+      with: { user: { columns: authorColumns } },
+      orderBy: [asc(postComments.createdAt), asc(postComments.id)],
+    });
+
+    return threadComments(comments);
+  }
+
+  async findComment(postId: string, commentId: string) {
+    return db.query.postComments.findFirst({
+      where: and(eq(postComments.id, commentId), eq(postComments.postId, postId)),
+    });
+  }
+
+  /**
+   * Comment on a post, or reply to a comment on the same post. The post
+   * author and the person replied to hear about it.
+   */
+  async addComment(
+    post: Post,
+    authorId: string,
+    data: CreatePostComment
+  ): Promise<FeedActionResult<PostComment>> {
+    const parent = data.parentId
+      ? await this.findComment(post.id, data.parentId)
+      : null;
+
+    if (data.parentId && !parent) {
+      return { success: false, status: 404, error: "Comment not found" };
+    }
+
+    const [comment] = await db
+      .insert(postComments)
+      .values({
+        postId: post.id,
+        userId: authorId,
+        parentId: parent?.id ?? null,
+        content: data.content,
+      })
+      .returning();
+
+    const recipients = new Set([post.userId, parent?.userId]);
+    recipients.delete(authorId);
+
+    for (const recipient of recipients) {
+      if (!recipient) continue;
+      await deltaTrackingService.trackChange({
+        entityType: "post_comment",
+        entityId: comment.id,
+        changeType: "create",
+        newData: comment,
+        affectedUserId: recipient,
+        relatedEntityId: post.id,
+        triggeredBy: authorId,
+      });
+    }
+
+    return { success: true, result: comment };
+  }
+
+  async deleteComment(commentId: string) {
+    await db.delete(postComments).where(eq(postComments.id, commentId));
+  }
+
+  // Friends see new posts on their next delta poll; private posts stay put
+  private async fanOut(post: Post) {
+    if (post.visibility === "private") {
+      return;
+    }
+
+    for (const friendId of await this.friendIds(post.userId)) {
+      await deltaTrackingService.trackChange({
+        entityType: "post",
+        entityId: post.id,
+        changeType: "create",
+        newData: post,
+        affectedUserId: friendId,
+        relatedEntityId: post.activityId ?? undefined,
+        triggeredBy: post.userId,
+      });
+    }
+  }
+
+  private async likeCount(postId: string) {
+    const [{ likes }] = await db
+      .select({ likes: count() })
+      .from(postLikes)
+      .where(eq(postLikes.postId, postId));
+
+    return likes;
+  }
+
+  // Author, activity, counts and the viewer's like, in the order of postIds
+  private async hydrate(postIds: string[], viewerId: string) {
+    if (postIds.length === 0) {
+      return [];
+    }
+
+    const [rows, likeCounts, commentCounts, viewerLikes] = await Promise.all([
+      db.query.posts.findMany({
+        where: inArray(posts.id, postIds),
+        with: {
+          user: { columns: authorColumns },
+          activity: {
+            columns: {
+              id: true,
+              dateTime: true,
+              location: true,
+              completionStatus: true,
+            },
+            with: { activityType: { columns: { id: true, name: true } } },
+          },
+        },
+      }),
+      db
+        .select({ postId: postLikes.postId, total: count() })
+        .from(postLikes)
+        .where(inArray(postLikes.postId, postIds))
+        .groupBy(postLikes.postId),
+      db
+        .select({ postId: postComments.postId, total: count() })
+        .from(postComments)
+        .where(inArray(postComments.postId, postIds))
+        .groupBy(postComments.postId),
+      db
+        .select({ postId: postLikes.postId })
+        .from(postLikes)
+        .where(and(inArray(postLikes.postId, postIds), eq(postLikes.userId, viewerId))),
+    ]);
+
+    const likes = new Map(likeCounts.map((row) => [row.postId, row.total]));
+    const comments = new Map(commentCounts.map((row) => [row.postId, row.total]));
+    const liked = new Set(viewerLikes.map((row) => row.postId));
+    const byId = new Map(rows.map((row) => [row.id, row]));
+
+    return postIds
+      .filter((id) => byId.has(id))
+      .map((id) => ({
+        ...byId.get(id)!,
+        likesCount: likes.get(id) ?? 0,
+        commentsCount: comments.get(id) ?? 0,
+        userHasLiked: liked.has(id),
+      }));
+  }
+}
+
+export const feedService = new FeedService();
@@ -1,4 +1,5 @@
 // Add these interfaces at the top of the file
+import type { MatchupOutcome } from './elo-calc.service.js';
 
 export interface ELOSimulationParams {
   activityId: string;
@@ -8,11 +9,15 @@ export interface ELOSimulationParams {
     username: string;
     currentELO: number;
     gamesPlayed: number;
+    ratingDeviation?: number;
+    volatility?: number | null;
     team?: string | null;
   }>;
   results: Array<{
     userId: string;
-    expectedResult: 'win' | 'loss' | 'draw';
+    expectedResult?: 'win' | 'loss' | 'draw';
+    // Finishing position; given for everyone it decides the outcomes
+    expectedPlacement?: number;
   }>;
 }
 
@@ -24,6 +29,8 @@ export interface ELOSimulationResult {
     currentELO: number;
     newELO: number;
     change: number;
+    placement?: number;
+    matchups: MatchupOutcome[];
     explanation: string;
   }>;
   summary: {
@@ -0,0 +1,190 @@
+// src/services/job-scheduler.service.ts - Postgres-backed jobs that run at a given time
+import { and, asc, eq, inArray, lte, or, sql } from "drizzle-orm";
+import { db } from "../db/client.js";
+import { scheduledJobs } from "../db/schema.js";
+
+type DbExecutor = Pick<typeof db, "insert" | "delete">;
+
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+
+export type JobHandler = (job: ScheduledJob, now: Date) => Promise<void>;
+
+const JOB_POLL_INTERVAL = 60 * 1000;
+const JOB_BATCH_SIZE = 50;
+const MAX_JOB_ATTEMPTS = 5;
+// A job still marked running after this long belongs to a process that died
+const STALE_LOCK_MS = 15 * 60 * 1000;
+const RETRY_BASE_MS = 60 * 1000;
+
+export class JobSchedulerService {
+  private schedulerInterval: NodeJS.Timeout | null = null;
+  private handlers = new Map<string, JobHandler>();
+
+  /**
+   * Handle every job of a type. Handlers must be safe to run twice.
+   */
+  register(jobType: string, handler: JobHandler): void {
+    this.handlers.set(jobType, handler);
+  }
+
+  /**
+   * Run a job for the entity at the given time, moving an existing job of the
+   * same type instead of adding a second one
+   */
+  async schedule(
+    jobType: string,
+    entityId: string,
+    runAt: Date,
+    executor: DbExecutor = db
+  ): Promise<void> {
+    await executor
+      .insert(scheduledJobs)
+      .values({ jobType, entityId, runAt })
+      .onConflictDoUpdate({
+        target: [scheduledJobs.jobType, scheduledJobs.entityId],
+        set: {
+          runAt,
+          status: "pending",
+          attempts: 0,
+          lastError: null,
+          lockedAt: null,
+          completedAt: null,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  /**
+   * Drop the entity's jobs, optionally only those of the given types
+   */
+  async cancel(
+    entityId: string,
+    jobTypes?: string[],
+    executor: DbExecutor = db
+  ): Promise<void> {
+    await executor
+      .delete(scheduledJobs)
+      .where(
+        and(
+          eq(scheduledJobs.entityId, entityId),
+          jobTypes ? inArray(scheduledJobs.jobType, jobTypes) : undefined
+        )
+      );
+  }
+
+  /**
+   * Claim and run the jobs that are due. Claiming skips rows other processes
+   * hold, so several servers can share the table.
+   */
+  async runDueJobs(now: Date = new Date()): Promise<number> {
+    const staleBefore = new Date(now.getTime() - STALE_LOCK_MS);
+
+    const claimed = await db.transaction(async (tx) => {
+      const due = await tx
+        .select({ id: scheduledJobs.id })
+        .from(scheduledJobs)
+        .where(
+          and(
+            lte(scheduledJobs.runAt, now),
+            or(
+              eq(scheduledJobs.status, "pending"),
+              and(
+                eq(scheduledJobs.status, "running"),
+                lte(scheduledJobs.lockedAt, staleBefore)
+              )
+            )
+          )
+        )
+        .orderBy(asc(scheduledJobs.runAt))
+        .limit(JOB_BATCH_SIZE)
+        .for("update", { skipLocked: true });
+
+      if (due.length === 0) return [];
+
+      return tx
+        .update(scheduledJobs)
+        .set({
+          status: "running",
+          lockedAt: now,
+          attempts: sql`${scheduledJobs.attempts} + 1`,
+          updatedAt: now,
+        })
+        .where(
+          inArray(
+            scheduledJobs.id,
+            due.map((job) => job.id)
+          )
+        )
+        .returning();
+    });
+
+    for (const job of claimed) {
+      await this.runJob(job, now);
+    }
+
+    return claimed.length;
+  }
+
+  startScheduler(intervalMs: number = JOB_POLL_INTERVAL): void {
+    if (this.schedulerInterval) return;
+
+    this.schedulerInterval = setInterval(() => {
+      this.runDueJobs().catch((error) =>
+        console.error("❌ Scheduled job run failed:", error)
+      );
+    }, intervalMs);
+  }
+
+  stopScheduler(): void {
+    if (this.schedulerInterval) {
+      clearInterval(this.schedulerInterval);
+      this.schedulerInterval = null;
+    }
+  }
+
+  private async runJob(job: ScheduledJob, now: Date): Promise<void> {
+    const handler = this.handlers.get(job.jobType);
+
+    try {
+      if (!handler) {
+        throw new Error(`No handler registered for job type ${job.jobType}`);
+      }
+
+      await handler(job, now);
+
+      // A handler may have rescheduled its own job; only finish this run
+      await db
+        .update(scheduledJobs)
+        .set({ status: "completed", completedAt: new Date(), updatedAt: new Date() })
+        .where(
+          and(eq(scheduledJobs.id, job.id), eq(scheduledJobs.status, "running"))
+        );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const failed = job.attempts >= MAX_JOB_ATTEMPTS;
+
+      console.error(
+        `❌ Job ${job.jobType} for ${job.entityId} failed (attempt ${job.attempts}):`,
+        error
+      );
+
+      // Back off exponentially between attempts
+      await db
+        .update(scheduledJobs)
+        .set({
+          status: failed ? "failed" : "pending",
+          runAt: failed
+            ? job.runAt
+            : new Date(now.getTime() + RETRY_BASE_MS * 2 ** (job.attempts - 1)),
+          lastError: message,
+          lockedAt: null,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(eq(scheduledJobs.id, job.id), eq(scheduledJobs.status, "running"))
+        );
+    }
+  }
+}
+
+export const jobSchedulerService = new JobSchedulerService();
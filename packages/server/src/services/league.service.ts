@@ -0,0 +1,657 @@
+// src/services/league.service.ts - League seasons: registered teams, round-robin fixtures and standings
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import { db } from "../db/client.js";
+import {
+  activities,
+  activityParticipants,
+  activityResultSubmissions,
+  activityTypes,
+  leagueFixtures,
+  leagueTeams,
+  leagues,
+  teams,
+} from "../db/schema.js";
+import {
+  activityScoreSchema,
+  type CreateLeague,
+  type GenerateLeagueFixtures,
+  type LeagueFormat,
+} from "../db/zod.schema.js";
+import type { User } from "../middleware/auth.js";
+import { activityLifecycleService } from "./activity-lifecycle.service.js";
+import { activityService, type ActivityDraft } from "./activity.service.js";
+import { teamService } from "./team.service.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+const MINUTE = 60 * 1000;
+
+// Latest results shown as a team's form
+const FORM_LENGTH = 5;
+
+export type League = typeof leagues.$inferSelect;
+
+export type LeagueActionResult<T> =
+  | { success: true; result: T }
+  | { success: false; status: 400 | 403 | 404 | 409; error: string };
+
+export interface LeaguePoints {
+  pointsForWin: number;
+  pointsForDraw: number;
+  pointsForLoss: number;
+}
+
+// A fixture with final results, from the home team's point of view
+export interface LeagueResult {
+  homeTeamId: string;
+  awayTeamId: string;
+  homeGoals: number;
+  awayGoals: number;
+  homeResult: "win" | "loss" | "draw";
+}
+
+export interface StandingRow {
+  position: number;
+  team: { id: string; name: string };
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  goalDifference: number;
+  points: number;
+  // Latest results, most recent last
+  form: ("W" | "D" | "L")[];
+}
+
+/**
+ * Pair every team with every other once per round-robin with the circle
+ * method, swapping home and away in the second half of a double round-robin.
+ * With an odd number of teams one team sits each round out.
+ */
+export function roundRobinSchedule(
+  teamIds: string[],
+  format: LeagueFormat
+): [string, string][][] {
+  const slots: (string | null)[] =
+    teamIds.length % 2 === 0 ? [...teamIds] : [...teamIds, null];
+  const size = slots.length;
+  const rounds: [string, string][][] = [];
+
+  for (let round = 0; round < size - 1; round++) {
+    const pairs: [string, string][] = [];
+
+    for (let i = 0; i < size / 2; i++) {
+      const first = slots[i];
+      const second = slots[size - 1 - i];
+      if (!first || !second) continue;
+
+      // The fixed team alternates home and away; the rest rotate through both
+      pairs.push(i === 0 && round % 2 === 1 ? [second, first] : [first, second]);
+    }
+
+    rounds.push(pairs);
+    slots.splice(1, 0, slots.pop()!);
+  }
+
+  if (format === "double_round_robin") {
+    return [
+      ...rounds,
+      ...rounds.map((pairs) =>
+        pairs.map(([home, away]) => [away, home] as [string, string])
+      ),
+    ];
+  }
+
+  return rounds;
+}
+
+/**
+ * The league table. Teams are ranked by points, goal difference and goals
+ * scored; teams still level are separated by the points they took off each
+ * other, then by wins, then by name. Results are expected in playing order.
+ */
+export function computeStandings(
+  leagueTeamList: { id: string; name: string }[],
+  results: LeagueResult[],
+  points: LeaguePoints
+): StandingRow[] {
+  const rows = new Map<string, StandingRow>(
+    leagueTeamList.map((team) => [
+      team.id,
+      {
+        position: 0,
+        team,
+        played: 0,
+        won: 0,
+        drawn: 0,
+        lost: 0,
+        goalsFor: 0,
+        goalsAgainst: 0,
+        goalDifference: 0,
+        points: 0,
+        form: [],
+      },
+    ])
+  );
+
+  const pointsFor = (result: "win" | "loss" | "draw") =>
+    result === "win"
+      ? points.pointsForWin
+      : result === "draw"
+        ? points.pointsForDraw
+        : points.pointsForLoss;
+  const opposite = { win: "loss", loss: "win", draw: "draw" } as const;
+  const letters = { win: "W", loss: "L", draw: "D" } as const;
+
+  const record = (
+    row: StandingRow | undefined,
+    result: "win" | "loss" | "draw",
+    scored: number,
+    conceded: number
+  ) => {
+    if (!row) return;
+    row.played += 1;
+    row.won += result === "win" ? 1 : 0;
+    row.drawn += result === "draw" ? 1 : 0;
+    row.lost += result === "loss" ? 1 : 0;
+    row.goalsFor += scored;
+    row.goalsAgainst += conceded;
+    row.goalDifference = row.goalsFor - row.goalsAgainst;
+    row.points += pointsFor(result);
+    row.form = [...row.form, letters[result]].slice(-FORM_LENGTH);
+  };
+
+  for (const result of results) {
+    record(rows.get(result.homeTeamId), result.homeResult, result.homeGoals, result.awayGoals);
+    record(
+      rows.get(result.awayTeamId),
+      opposite[result.homeResult],
+      result.awayGoals,
+      result.homeGoals
+    );
+  }
+
+  const level = (a: StandingRow, b: StandingRow) =>
+    b.points - a.points ||
+    b.goalDifference - a.goalDifference ||
+    b.goalsFor - a.goalsFor;
+
+  const sorted = [...rows.values()].sort(level);
+  const table: StandingRow[] = [];
+
+  for (let start = 0; start < sorted.length; ) {
+    let end = start + 1;
+    while (end < sorted.length && level(sorted[start], sorted[end]) === 0) end++;
+
+    const group = sorted.slice(start, end);
+    const ids = new Set(group.map((row) => row.team.id));
+    const headToHead = new Map(group.map((row) => [row.team.id, 0]));
+
+    for (const result of results) {
+      if (!ids.has(result.homeTeamId) || !ids.has(result.awayTeamId)) continue;
+      headToHead.set(
+        result.homeTeamId,
+        headToHead.get(result.homeTeamId)! + pointsFor(result.homeResult)
+      );
+      headToHead.set(
+        result.awayTeamId,
+        headToHead.get(result.awayTeamId)! + pointsFor(opposite[result.homeResult])
+      );
+    }
+
+    table.push(
+      ...group.sort(
+        (a, b) =>
+          headToHead.get(b.team.id)! - headToHead.get(a.team.id)! ||
+          b.won - a.won ||
+          a.team.name.localeCompare(b.team.name)
+      )
+    );
+    start = end;
+  }
+
+  return table.map((row, index) => ({ ...row, position: index + 1 }));
+}
+
+// Goals from a goals score, sets won from a sets score, nothing otherwise
+function fixtureGoals(rawScore: unknown, homeTeamId: string, awayTeamId: string) {
+  const parsed = activityScoreSchema.safeParse(rawScore);
+  if (!parsed.success) {
+    return { homeGoals: 0, awayGoals: 0 };
+  }
+
+  const score = parsed.data;
+  if (score.format === "goals") {
+    return {
+      homeGoals: score.goals[homeTeamId] ?? 0,
+      awayGoals: score.goals[awayTeamId] ?? 0,
+    };
+  }
+  if (score.format === "sets") {
+    const won = (side: string, other: string) =>
+      score.sets.filter((set) => (set[side] ?? 0) > (set[other] ?? 0)).length;
+    return {
+      homeGoals: won(homeTeamId, awayTeamId),
+      awayGoals: won(awayTeamId, homeTeamId),
+    };
+  }
+  return { homeGoals: 0, awayGoals: 0 };
+}
+
+export class LeagueService {
+  async getLeague(leagueId: string): Promise<League | undefined> {
+    return db.query.leagues.findFirst({
+      where: eq(leagues.id, leagueId),
+    });
+  }
+
+  /**
+   * Whether the user runs the league. Site admins run every league.
+   */
+  isOrganiser(league: League, user: User): boolean {
+    return league.organizerId === user.id || user.role === "admin";
+  }
+
+  async createLeague(user: User, data: CreateLeague): Promise<LeagueActionResult<League>> {
+    const activityType = await db.query.activityTypes.findFirst({
+      where: eq(activityTypes.id, data.activityTypeId),
+      columns: { id: true },
+    });
+
+    if (!activityType) {
+      return { success: false, status: 404, error: "Activity type not found" };
+    }
+
+    const [league] = await db
+      .insert(leagues)
+      .values({ ...data, organizerId: user.id })
+      .returning();
+
+    return { success: true, result: league };
+  }
+
+  async listLeagues(filters: { activityTypeId?: string }) {
+    return db
+      .select()
+      .from(leagues)
+      .where(
+        filters.activityTypeId
+          ? eq(leagues.activityTypeId, filters.activityTypeId)
+          : undefined
+      )
+      .orderBy(desc(leagues.createdAt));
+  }
+
+  /**
+   * Registered teams, in registration order
+   */
+  async listTeams(leagueId: string) {
+    return db
+      .select({
+        id: teams.id,
+        name: teams.name,
+        registeredAt: leagueTeams.registeredAt,
+      })
+      .from(leagueTeams)
+      .innerJoin(teams, eq(teams.id, leagueTeams.teamId))
+      .where(eq(leagueTeams.leagueId, leagueId))
+      .orderBy(asc(leagueTeams.registeredAt));
+  }
+
+  /**
+   * Enter a team while registration is open. The league's organiser or the
+   * team's owner and captains can do it.
+   */
+  async registerTeam(
+    league: League,
+    teamId: string,
+    user: User
+  ): Promise<LeagueActionResult<typeof leagueTeams.$inferSelect>> {
+    if (league.status !== "registration") {
+      return { success: false, status: 400, error: "Registration for this league is closed" };
+    }
+
+    const access = await teamService.access(teamId, user);
+    if (!access) {
+      return { success: false, status: 404, error: "Team not found" };
+    }
+    if (!access.canManage && !this.isOrganiser(league, user)) {
+      return {
+        success: false,
+        status: 403,
+        error: "Only the team's owner and captains can register it",
+      };
+    }
+    if (access.team.activityTypeId && access.team.activityTypeId !== league.activityTypeId) {
+      return {
+        success: false,
+        status: 400,
+        error: "The team plays a different activity type",
+      };
+    }
+
+    const [registration] = await db
+      .insert(leagueTeams)
+      .values({ leagueId: league.id, teamId, registeredBy: user.id })
+      .onConflictDoNothing()
+      .returning();
+
+    if (!registration) {
+      return { success: false, status: 409, error: "The team is already registered" };
+    }
+
+    return { success: true, result: registration };
+  }
+
+  /**
+   * Take a team out again before the fixtures are made
+   */
+  async withdrawTeam(
+    league: League,
+    teamId: string,
+    user: User
+  ): Promise<LeagueActionResult<null>> {
+    if (league.status !== "registration") {
+      return {
+        success: false,
+        status: 400,
+        error: "Teams can't withdraw once the fixtures are out",
+      };
+    }
+
+    const access = await teamService.access(teamId, user);
+    if (!access?.canManage && !this.isOrganiser(league, user)) {
+      return {
+        success: false,
+        status: 403,
+        error: "Only the organiser or the team's owner and captains can withdraw it",
+      };
+    }
+
+    const removed = await db
+      .delete(leagueTeams)
+      .where(and(eq(leagueTeams.leagueId, league.id), eq(leagueTeams.teamId, teamId)))
+      .returning();
+
+    if (removed.length === 0) {
+      return { success: false, status: 404, error: "The team is not registered" };
+    }
+
+    return { success: true, result: null };
+  }
+
+  /**
+   * Create every fixture of the season as an activity run by the organiser,
+   * which closes registration. Nothing is kept if any fixture can't be
+   * created, e.g. because its court is taken.
+   */
+  async generateFixtures(
+    league: League,
+    organiser: User,
+    data: GenerateLeagueFixtures
+  ): Promise<LeagueActionResult<{ rounds: number; fixtures: number }>> {
+    // Closing registration first means only one call can generate the season
+    const [claimed] = await db
+      .update(leagues)
+      .set({ status: "active", updatedAt: new Date() })
+      .where(and(eq(leagues.id, league.id), eq(leagues.status, "registration")))
+      .returning({ id: leagues.id });
+
+    if (!claimed) {
+      return { success: false, status: 409, error: "Fixtures have already been generated" };
+    }
+
+    const reopen = () =>
+      db
+        .update(leagues)
+        .set({ status: "registration", updatedAt: new Date() })
+        .where(eq(leagues.id, league.id));
+
+    try {
+      const generated = await this.createFixtures(league, organiser, data);
+      if (!generated.success) await reopen();
+      return generated;
+    } catch (error) {
+      await reopen();
+      throw error;
+    }
+  }
+
+  /**
+   * Build the round-robin schedule for the registered teams and create its
+   * fixtures, once the league is closed for registration
+   */
+  private async createFixtures(
+    league: League,
+    organiser: User,
+    data: GenerateLeagueFixtures
+  ): Promise<LeagueActionResult<{ rounds: number; fixtures: number }>> {
+    const registered = await this.listTeams(league.id);
+    if (registered.length < 2) {
+      return { success: false, status: 400, error: "A league needs at least two teams" };
+    }
+
+    const rounds = roundRobinSchedule(
+      registered.map((team) => team.id),
+      league.format
+    );
+    const matchesPerRound = Math.floor(registered.length / 2);
+    if (data.slots.length < matchesPerRound) {
+      return {
+        success: false,
+        status: 400,
+        error: `Each round has ${matchesPerRound} matches but only ${data.slots.length} slots`,
+      };
+    }
+
+    const teamNames = new Map(registered.map((team) => [team.id, team.name]));
+    const created: { activityId: string; round: number }[] = [];
+
+    for (const [index, pairs] of rounds.entries()) {
+      const roundStart = data.firstRoundAt.getTime() + index * data.daysBetweenRounds * DAY;
+
+      for (const [match, [homeTeamId, awayTeamId]] of pairs.entries()) {
+        const slot = data.slots[match];
+        const draft: ActivityDraft = {
+          activityTypeId: league.activityTypeId,
+          description: `${league.name}, round ${index + 1}: ${teamNames.get(homeTeamId)} vs ${teamNames.get(awayTeamId)}`,
+          location: slot.location,
+          venueId: slot.venueId,
+          venueResourceId: slot.venueResourceId,
+          dateTime: new Date(roundStart + slot.startOffsetMinutes * MINUTE),
+          durationMinutes: data.durationMinutes,
+          isELORated: league.isELORated,
+          homeTeamId,
+          awayTeamId,
+        };
+
+        const fixture = await activityService.createActivity(organiser, draft, {
+          organiserOnly: true,
+        });
+
+        if (!fixture.success) {
+          await this.discardActivities(created.map((entry) => entry.activityId));
+          return {
+            success: false,
+            status: fixture.status,
+            error: `Round ${index + 1}: ${fixture.error}`,
+          };
+        }
+
+        created.push({ activityId: fixture.activity.id, round: index + 1 });
+      }
+    }
+
+    await db
+      .insert(leagueFixtures)
+      .values(created.map((entry) => ({ ...entry, leagueId: league.id })));
+
+    return { success: true, result: { rounds: rounds.length, fixtures: created.length } };
+  }
+
+  /**
+   * The season's fixtures in playing order, with their result once it is final
+   */
+  async listFixtures(leagueId: string, round?: number) {
+    const fixtures = await db
+      .select({
+        id: leagueFixtures.id,
+        round: leagueFixtures.round,
+        activity: {
+          id: activities.id,
+          dateTime: activities.dateTime,
+          durationMinutes: activities.durationMinutes,
+          location: activities.location,
+          venueId: activities.venueId,
+          completionStatus: activities.completionStatus,
+        },
+        homeTeamId: activities.homeTeamId,
+        awayTeamId: activities.awayTeamId,
+      })
+      .from(leagueFixtures)
+      .innerJoin(activities, eq(activities.id, leagueFixtures.activityId))
+      .where(
+        and(
+          eq(leagueFixtures.leagueId, leagueId),
+          round === undefined ? undefined : eq(leagueFixtures.round, round)
+        )
+      )
+      .orderBy(asc(leagueFixtures.round), asc(activities.dateTime));
+
+    const teamIds = [
+      ...new Set(
+        fixtures.flatMap((fixture) => [fixture.homeTeamId, fixture.awayTeamId])
+      ),
+    ].filter((id): id is string => id !== null);
+    const teamRows =
+      teamIds.length > 0
+        ? await db
+            .select({ id: teams.id, name: teams.name })
+            .from(teams)
+            .where(inArray(teams.id, teamIds))
+        : [];
+    const teamOf = (id: string | null) => teamRows.find((team) => team.id === id) ?? null;
+
+    const results = await this.finalResults(fixtures.map((fixture) => fixture.activity.id));
+
+    return fixtures.map(({ homeTeamId, awayTeamId, ...fixture }) => ({
+      ...fixture,
+      homeTeam: teamOf(homeTeamId),
+      awayTeam: teamOf(awayTeamId),
+      result: results.get(fixture.activity.id) ?? null,
+    }));
+  }
+
+  /**
+   * The league table from every fixture with final results
+   */
+  async standings(league: League) {
+    const [registered, fixtures] = await Promise.all([
+      this.listTeams(league.id),
+      db
+        .select({ activityId: leagueFixtures.activityId })
+        .from(leagueFixtures)
+        .innerJoin(activities, eq(activities.id, leagueFixtures.activityId))
+        .where(eq(leagueFixtures.leagueId, league.id))
+        .orderBy(asc(activities.dateTime)),
+    ]);
+
+    const results = await this.finalResults(fixtures.map((fixture) => fixture.activityId));
+    const played = fixtures
+      .map((fixture) => results.get(fixture.activityId))
+      .filter((result): result is LeagueResult => result !== undefined);
+
+    return {
+      table: computeStandings(
+        registered.map(({ id, name }) => ({ id, name })),
+        played,
+        league
+      ),
+      fixturesPlayed: played.length,
+      fixturesTotal: fixtures.length,
+    };
+  }
+
+  // Results count once confirmed or settled by a moderator; voided ones never do
+  private async finalResults(activityIds: string[]): Promise<Map<string, LeagueResult>> {
+    const results = new Map<string, LeagueResult>();
+    if (activityIds.length === 0) return results;
+
+    const settled = await db
+      .select({
+        id: activities.id,
+        homeTeamId: activities.homeTeamId,
+        awayTeamId: activities.awayTeamId,
+        score: activities.score,
+      })
+      .from(activities)
+      .innerJoin(
+        activityResultSubmissions,
+        eq(activityResultSubmissions.activityId, activities.id)
+      )
+      .where(
+        and(
+          inArray(activities.id, activityIds),
+          inArray(activityResultSubmissions.status, ["confirmed", "resolved"])
+        )
+      );
+    if (settled.length === 0) return results;
+
+    const outcomes = await db
+      .select({
+        activityId: activityParticipants.activityId,
+        team: activityParticipants.team,
+        finalResult: activityParticipants.finalResult,
+      })
+      .from(activityParticipants)
+      .where(
+        and(
+          inArray(
+            activityParticipants.activityId,
+            settled.map((activity) => activity.id)
+          ),
+          eq(activityParticipants.status, "accepted")
+        )
+      );
+
+    const flipped = { win: "loss", loss: "win", draw: "draw" } as const;
+
+    for (const activity of settled) {
+      if (!activity.homeTeamId || !activity.awayTeamId) continue;
+
+      const resultOf = (teamId: string) =>
+        outcomes.find(
+          (outcome) =>
+            outcome.activityId === activity.id &&
+            outcome.team === teamId &&
+            outcome.finalResult
+        )?.finalResult;
+      const awayResult = resultOf(activity.awayTeamId);
+      const homeResult =
+        resultOf(activity.homeTeamId) ?? (awayResult && flipped[awayResult]);
+      if (!homeResult) continue;
+
+      results.set(activity.id, {
+        homeTeamId: activity.homeTeamId,
+        awayTeamId: activity.awayTeamId,
+        homeResult,
+        ...fixtureGoals(activity.score, activity.homeTeamId, activity.awayTeamId),
+      });
+    }
+
+    return results;
+  }
+
+  // Undo a partly generated season
+  private async discardActivities(activityIds: string[]) {
+    for (const activityId of activityIds) {
+      await activityLifecycleService.unscheduleActivity(activityId);
+    }
+    if (activityIds.length > 0) {
+      await db.delete(activities).where(inArray(activities.id, activityIds));
+    }
+  }
+}
+
+export const leagueService = new LeagueService();
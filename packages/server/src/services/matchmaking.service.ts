@@ -1,5 +1,5 @@
 // src/services/matchmaking.service.ts - Complete implementation with zod validation
-import { and, count, eq, gte, inArray, lte, ne, or, sql } from "drizzle-orm";
+import { and, asc, count, eq, gte, inArray, lte, ne, or, sql } from "drizzle-orm";
 import { db } from "../db/client.js";
 import {
   activities,
@@ -9,10 +9,12 @@ import {
   userActivityTypeSkillSummaries,
   userConnections,
   users,
+  venues,
 } from "../db/schema.js";
 import { selectActivitySchema, selectUserSchema } from "../db/zod.schema.js";
 import { deltaTrackingService } from "./delta-tracking.service.js";
 import type { TeamBalanceParams, TeamBalanceResult } from "./interfaces.js";
+import { distanceKmSql } from "../utils/geo.js";
 
 export interface MatchmakingRequest {
   userId: string;
@@ -375,6 +377,7 @@ export class MatchmakingService {
       currentParticipants: number;
       activityTypeName: string;
       creatorUsername: string;
+      distanceKm: number | null;
       matchScore: number;
       eloMatch: boolean;
       hasConnectedParticipants: boolean;
@@ -395,37 +398,22 @@ export class MatchmakingService {
         userELOs.map((e) => [e.activityTypeId, e.eloScore])
       );
 
-      // Build activities query
-      let activitiesQuery = db
+      // Distance is measured from the user's home area to the activity's venue
+      const [home] = await db
         .select({
-          activityId: activities.id,
-          description: activities.description,
-          location: activities.location,
-          dateTime: activities.dateTime,
-          maxParticipants: activities.maxParticipants,
-          eloLevel: activities.eloLevel,
-          activityTypeId: activities.activityTypeId,
-          activityTypeName: activityTypes.name,
-          creatorId: activities.creatorId,
-          creatorUsername: users.username,
+          latitude: users.homeLatitude,
+          longitude: users.homeLongitude,
         })
-        .from(activities)
-        .leftJoin(
-          activityTypes,
-          eq(activities.activityTypeId, activityTypes.id)
-        )
-        .leftJoin(users, eq(activities.creatorId, users.id))
-        .where(
-          and(
-            sql`${activities.dateTime} > NOW()`, // Only future activities
-            ne(activities.creatorId, userId), // Not created by user
-            // Check if user is not already a participant
-            sql`${activities.id} NOT IN (
-            SELECT activity_id FROM ${activityParticipants} 
-            WHERE user_id = ${userId}
-          )`
-          )
-        );
+        .from(users)
+        .where(eq(users.id, userId));
+
+      const distanceKm =
+        home?.latitude != null && home?.longitude != null
+          ? await distanceKmSql(venues, {
+              latitude: home.latitude,
+              longitude: home.longitude,
+            })
+          : null;
 
       const whereConditions = [
         sql`${activities.dateTime} > NOW()`, // Only future activities
@@ -449,7 +437,34 @@ export class MatchmakingService {
         }
       }
 
-      const candidateActivities = await activitiesQuery.limit(50);
+      const candidateActivities = await db
+        .select({
+          activityId: activities.id,
+          description: activities.description,
+          location: activities.location,
+          dateTime: activities.dateTime,
+          maxParticipants: activities.maxParticipants,
+          eloLevel: activities.eloLevel,
+          activityTypeId: activities.activityTypeId,
+          activityTypeName: activityTypes.name,
+          creatorId: activities.creatorId,
+          creatorUsername: users.username,
+          distanceKm: distanceKm ?? sql<number | null>`NULL`,
+        })
+        .from(activities)
+        .leftJoin(
+          activityTypes,
+          eq(activities.activityTypeId, activityTypes.id)
+        )
+        .leftJoin(users, eq(activities.creatorId, users.id))
+        .leftJoin(venues, eq(activities.venueId, venues.id))
+        .where(and(...whereConditions))
+        // Nearest candidates first so the cap doesn't drop local activities
+        .orderBy(
+          distanceKm ? sql`${distanceKm} ASC NULLS LAST` : asc(activities.dateTime),
+          asc(activities.dateTime)
+        )
+        .limit(50);
 
       if (candidateActivities.length === 0) {
         return [];
@@ -562,6 +577,17 @@ export class MatchmakingService {
             matchScore += 10;
           }
 
+          // Nearby activities (home area and venue both known)
+          if (activity.distanceKm !== null) {
+            if (activity.distanceKm <= 5) {
+              matchScore += 15;
+            } else if (activity.distanceKm <= 15) {
+              matchScore += 10;
+            } else if (activity.distanceKm <= 30) {
+              matchScore += 5;
+            }
+          }
+
           // Capacity utilization (activities that are 25-75% full are preferred)
           if (maxParticipants > 0 && maxParticipants !== Infinity) {
             // Avoid division by zero or Infinity
@@ -577,6 +603,8 @@ export class MatchmakingService {
           if (daysUntil <= 7) reasons.push("Happening soon");
           if (currentParticipants < maxParticipants)
             reasons.push("Spots available");
+          if (activity.distanceKm !== null && activity.distanceKm <= 15)
+            reasons.push("Close to you");
 
           return {
             activityId: activity.activityId,
@@ -587,13 +615,18 @@ export class MatchmakingService {
             currentParticipants,
             activityTypeName: activityTypeName,
             creatorUsername: creatorUsername,
+            distanceKm: activity.distanceKm,
             matchScore: Math.min(100, matchScore),
             eloMatch,
             hasConnectedParticipants,
             reasons,
           };
         })
-        .sort((a, b) => b.matchScore - a.matchScore)
+        .sort(
+          (a, b) =>
+            b.matchScore - a.matchScore ||
+            (a.distanceKm ?? Infinity) - (b.distanceKm ?? Infinity)
+        )
         .slice(0, maxResults);
 
       return scoredActivities;
@@ -0,0 +1,794 @@
+// src/services/notification.service.ts - Persistent notification inbox
+import { and, count, desc, eq, gt, inArray, isNull, lt, or, sql } from "drizzle-orm";
+import { db } from "../db/client.js";
+import type { DeltaChangeInput } from "../db/delta-tracking.schema.js";
+import { notificationPreferences, notifications, users } from "../db/schema.js";
+import {
+  insertNotificationSchema,
+  selectNotificationPreferencesSchema,
+  selectNotificationSchema,
+  updateNotificationPreferencesSchema,
+  type InsertNotification,
+  type Notification,
+  type NotificationCategory,
+  type NotificationPreferences,
+  type NotificationType,
+  type UpdateNotificationPreferences,
+} from "../db/zod.schema.js";
+import { clientUrl, mailer } from "../lib/mailer.js";
+import { wsManager } from "../lib/websocket.js";
+
+export type NotificationInput = Omit<InsertNotification, "userId">;
+
+export interface NotificationListOptions {
+  page: number;
+  limit: number;
+  unreadOnly?: boolean;
+}
+
+export interface NotificationCounts {
+  unread: number;
+  unseen: number;
+  byType: Record<string, number>;
+}
+
+// Which preference toggle controls each notification type
+export const NOTIFICATION_TYPE_CATEGORIES: Record<
+  NotificationType,
+  NotificationCategory
+> = {
+  join_request: "invites",
+  participation_update: "invites",
+  waitlist_promoted: "invites",
+  activity_updated: "invites",
+  activity_cancelled: "invites",
+  activity_rescheduled: "invites",
+  team_invitation: "invites",
+  team_join_request: "invites",
+  team_membership_update: "invites",
+  results_reminder: "ratingReminders",
+  results_proposed: "ratingReminders",
+  results_disputed: "ratingReminders",
+  rating_needed: "ratingReminders",
+  friend_request: "friendRequests",
+  connection_accepted: "friendRequests",
+  elo_change: "eloChanges",
+  chat_mention: "chatMentions",
+};
+
+export const DEFAULT_NOTIFICATION_PREFERENCES = {
+  invites: true,
+  friendRequests: true,
+  ratingReminders: true,
+  eloChanges: true,
+  chatMentions: true,
+  inApp: true,
+  emailDigest: false,
+  push: true,
+  quietHoursEnabled: false,
+  quietHoursStart: "22:00",
+  quietHoursEnd: "07:00",
+  timeZone: "UTC",
+};
+
+const DIGEST_INTERVAL = 24 * 60 * 60 * 1000;
+const DIGEST_CHECK_INTERVAL = 60 * 60 * 1000;
+const DIGEST_MAX_ITEMS = 20;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether `now` falls inside the user's quiet hours, in their own time zone.
+ * Windows may wrap past midnight (e.g. 22:00-07:00).
+ */
+export function isWithinQuietHours(
+  preferences: Pick<
+    NotificationPreferences,
+    "quietHoursEnabled" | "quietHoursStart" | "quietHoursEnd" | "timeZone"
+  >,
+  now: Date = new Date()
+): boolean {
+  if (!preferences.quietHoursEnabled) return false;
+
+  const start = toMinutes(preferences.quietHoursStart);
+  const end = toMinutes(preferences.quietHoursEnd);
+  if (start === end) return false;
+
+  let localTime: string;
+  try {
+    localTime = new Intl.DateTimeFormat("en-GB", {
+      timeZone: preferences.timeZone,
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    }).format(now);
+  } catch {
+    return false;
+  }
+  const current = toMinutes(localTime);
+
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+const PARTICIPATION_MESSAGES: Record<string, { title: string; verb: string }> = {
+  approve: { title: "Request Approved", verb: "approved your request to join" },
+  reject: { title: "Request Declined", verb: "declined your request to join" },
+  remove: { title: "Removed From Activity", verb: "removed you from" },
+};
+
+export class NotificationService {
+  private schedulerInterval: NodeJS.Timeout | null = null;
+
+  /**
+   * Store and push a notification according to the recipient's preferences.
+   * During quiet hours the push is skipped, not deferred; the inbox entry is
+   * still written straight away, so badge counts stay accurate.
+   * Failures are logged, never thrown, like delta tracking.
+   */
+  async create(
+    userId: string,
+    input: NotificationInput
+  ): Promise<Notification | null> {
+    try {
+      const validated = insertNotificationSchema.parse({ ...input, userId });
+      const preferences = await this.getPreferences(userId);
+
+      if (!preferences[NOTIFICATION_TYPE_CATEGORIES[validated.type]]) {
+        console.log(`🔕 ${validated.type} muted by user ${userId}`);
+        return null;
+      }
+
+      // Quiet hours only silence the push
+      const pushNow = preferences.push && !isWithinQuietHours(preferences);
+
+      if (!preferences.inApp) {
+        if (pushNow) {
+          this.push(userId, { ...validated, createdAt: new Date() });
+        }
+        return null;
+      }
+
+      const [notification] = await db
+        .insert(notifications)
+        .values(validated)
+        .returning();
+
+      console.log(`🔔 Notification ${validated.type} created for user ${userId}`);
+      const created = selectNotificationSchema.parse(notification);
+
+      if (pushNow) {
+        this.push(userId, created);
+      }
+      return created;
+    } catch (error) {
+      console.error("Failed to create notification:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Get a user's preferences, falling back to defaults when none are saved
+   */
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    const [row] = await db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId))
+      .limit(1);
+
+    if (!row) {
+      return { userId, ...DEFAULT_NOTIFICATION_PREFERENCES, updatedAt: new Date() };
+    }
+
+    return selectNotificationPreferencesSchema.parse(row);
+  }
+
+  /**
+   * Save preference changes - only the fields provided are updated
+   */
+  async updatePreferences(
+    userId: string,
+    updates: UpdateNotificationPreferences
+  ): Promise<NotificationPreferences> {
+    const validated = updateNotificationPreferencesSchema.parse(updates);
+    const now = new Date();
+
+    const [row] = await db
+      .insert(notificationPreferences)
+      .values({ userId, ...validated, updatedAt: now })
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { ...validated, updatedAt: now },
+      })
+      .returning();
+
+    return selectNotificationPreferencesSchema.parse(row);
+  }
+
+  /**
+   * Send the same notification to several users, skipping the actor
+   */
+  async notifyUsers(userIds: string[], input: NotificationInput): Promise<void> {
+    const recipients = [...new Set(userIds)].filter(
+      (userId) => userId !== input.actorId
+    );
+
+    for (const userId of recipients) {
+      await this.create(userId, input);
+    }
+  }
+
+  /**
+   * Turn a tracked entity change into an inbox entry where one applies
+   */
+  async createFromChange(change: DeltaChangeInput): Promise<void> {
+    const recipientId = change.affectedUserId;
+    const actorId = change.triggeredBy;
+    const data = change.newData ?? {};
+
+    try {
+      if (change.entityType === "connection") {
+        if (change.changeType === "create" && recipientId && recipientId !== actorId) {
+          const actor = await this.getActor(actorId);
+          await this.create(recipientId, {
+            type: "friend_request",
+            title: "Friend Request",
+            message: `${actor?.username ?? "Someone"} wants to connect with you`,
+            payload: {
+              connectionId: change.entityId,
+              requesterId: actorId,
+              requesterUsername: actor?.username,
+              requesterAvatarUrl: actor?.avatarUrl,
+            },
+            linkUrl: "/friends",
+            relatedEntityId: change.entityId,
+            actorId,
+          });
+        }
+
+        if (change.changeType === "update" && actorId) {
+          // Answering a request settles the original notification
+          await this.markReadByRelated(actorId, "friend_request", change.entityId);
+
+          if (data.status === "accepted" && recipientId && recipientId !== actorId) {
+            const actor = await this.getActor(actorId);
+            await this.create(recipientId, {
+              type: "connection_accepted",
+              title: "Friend Request Accepted",
+              message: `${actor?.username ?? "Someone"} accepted your friend request`,
+              payload: { connectionId: change.entityId, userId: actorId },
+              linkUrl: "/friends",
+              relatedEntityId: change.entityId,
+              actorId,
+            });
+          }
+        }
+        return;
+      }
+
+      if (
+        change.entityType === "skill_rating" &&
+        change.changeType === "create" &&
+        actorId &&
+        change.relatedEntityId
+      ) {
+        // Rating one teammate is enough to clear the reminder
+        await this.markReadByRelated(actorId, "rating_needed", change.relatedEntityId);
+        return;
+      }
+
+      if (
+        change.entityType === "team_invitation" ||
+        change.entityType === "team_join_request"
+      ) {
+        await this.createFromTeamChange(change);
+        return;
+      }
+
+      if (change.entityType !== "activity" || !recipientId || recipientId === actorId) {
+        return;
+      }
+
+      const activityId = data.activityId ?? change.relatedEntityId;
+      const linkUrl = activityId ? `/activities/${activityId}` : null;
+
+      if (change.changeType === "create" && data.status === "pending" && data.participant) {
+        await this.create(recipientId, {
+          type: "join_request",
+          title: "Join Request",
+          message: `${data.participant.username ?? "Someone"} wants to join your activity`,
+          payload: {
+            activityId,
+            participantId: change.entityId,
+            requesterId: data.participant.id,
+            team: data.team ?? null,
+            message: data.message ?? null,
+          },
+          linkUrl,
+          relatedEntityId: activityId,
+          actorId,
+        });
+      } else if (data.action === "promote") {
+        await this.create(recipientId, {
+          type: "waitlist_promoted",
+          title: "You're In",
+          message: data.confirmBy
+            ? `A spot opened up in ${data.description || "an activity"} - confirm it to keep it`
+            : `A spot opened up in ${data.description || "an activity"} and it's yours`,
+          payload: { activityId, confirmBy: data.confirmBy ?? null },
+          linkUrl,
+          relatedEntityId: activityId,
+          actorId,
+        });
+      } else if (data.action === "expire") {
+        await this.create(recipientId, {
+          type: "participation_update",
+          title: "Spot Released",
+          message: `Your spot in ${data.description || "an activity"} was released because it wasn't confirmed in time`,
+          payload: { activityId, action: data.action },
+          linkUrl,
+          relatedEntityId: activityId,
+          actorId,
+        });
+      } else if (data.action === "auto_cancel") {
+        await this.create(recipientId, {
+          type: "activity_cancelled",
+          title: "Activity Cancelled",
+          message: `${data.description || "An activity you joined"} was cancelled - not enough players signed up`,
+          payload: { activityId, reason: data.reason ?? null },
+          linkUrl,
+          relatedEntityId: activityId,
+        });
+      } else if (data.action === "cancel") {
+        await this.create(recipientId, {
+          type: "activity_cancelled",
+          title: "Activity Cancelled",
+          message: `${data.description || "An activity you joined"} was cancelled: ${data.reason}`,
+          payload: { activityId, reason: data.reason ?? null, cancelledBy: data.cancelledBy },
+          linkUrl,
+          relatedEntityId: activityId,
+          actorId,
+        });
+      } else if (data.action === "reschedule") {
+        await this.create(recipientId, {
+          type: "activity_rescheduled",
+          title: "Activity Rescheduled",
+          message: `${data.description || "An activity you joined"} has a new time - confirm you can still make it`,
+          payload: {
+            activityId,
+            previousDateTime: data.previousDateTime,
+            dateTime: data.dateTime,
+            confirmBy: data.confirmBy,
+            reason: data.reason ?? null,
+          },
+          linkUrl,
+          relatedEntityId: activityId,
+          actorId,
+        });
+      } else if (data.action === "results_reminder") {
+        await this.create(recipientId, {
+          type: "results_reminder",
+          title: "Submit Results",
+          message: `How did ${data.description || "your activity"} go? Submit the results before it closes`,
+          payload: { activityId, closesAt: data.closesAt ?? null },
+          linkUrl,
+          relatedEntityId: activityId,
+        });
+      } else if (data.action === "results_proposed") {
+        await this.create(recipientId, {
+          type: "results_proposed",
+          title: "Confirm Results",
+          message: `${data.submittedBy?.username ?? "The organizer"} submitted results for ${data.description || "an activity"} - confirm or dispute them`,
+          payload: { activityId, respondBy: data.respondBy ?? null },
+          linkUrl,
+          relatedEntityId: activityId,
+          actorId,
+        });
+      } else if (data.action === "results_disputed") {
+        await this.create(recipientId, {
+          type: "results_disputed",
+          title: "Results Disputed",
+          message: `${data.disputedBy?.username ?? "A participant"} disputed the results of ${data.description || "your activity"}`,
+          payload: { activityId, reason: data.reason ?? null },
+          linkUrl,
+          relatedEntityId: activityId,
+          actorId,
+        });
+      } else if (data.action && PARTICIPATION_MESSAGES[data.action]) {
+        const { title, verb } = PARTICIPATION_MESSAGES[data.action];
+        const actor = await this.getActor(actorId);
+        await this.create(recipientId, {
+          type: "participation_update",
+          title,
+          message: `${actor?.username ?? "The organizer"} ${verb} an activity`,
+          payload: {
+            activityId,
+            action: data.action,
+            status: data.status,
+            reason: data.reason ?? null,
+          },
+          linkUrl,
+          relatedEntityId: activityId,
+          actorId,
+        });
+      } else if (change.changeType === "delete" && data.deletedBy) {
+        await this.create(recipientId, {
+          type: "activity_cancelled",
+          title: "Activity Cancelled",
+          message: `${data.description || "An activity you joined"} was cancelled`,
+          payload: {
+            activityId,
+            reason: data.reason ?? null,
+            cancelledBy: data.deletedBy,
+          },
+          relatedEntityId: activityId,
+          actorId,
+        });
+      } else if (change.changeType === "update" && data.updates) {
+        await this.create(recipientId, {
+          type: "activity_updated",
+          title: "Activity Updated",
+          message: `${data.updatedBy?.username ?? "The organizer"} updated an activity you joined`,
+          payload: { activityId, updates: data.updates },
+          linkUrl,
+          relatedEntityId: activityId,
+          actorId,
+        });
+      }
+    } catch (error) {
+      console.error("Failed to derive notification from change:", error);
+    }
+  }
+
+  /**
+   * Invitations and join requests: the new one lands in the recipient's inbox,
+   * the answer settles it and tells the other side
+   */
+  private async createFromTeamChange(change: DeltaChangeInput): Promise<void> {
+    const recipientId = change.affectedUserId;
+    const actorId = change.triggeredBy;
+    const data = change.newData ?? {};
+    const isInvitation = change.entityType === "team_invitation";
+    const requestType = isInvitation ? "team_invitation" : "team_join_request";
+    const teamName = data.teamName || "a team";
+    const linkUrl = data.teamId ? `/teams/${data.teamId}` : null;
+
+    if (!recipientId || recipientId === actorId) {
+      return;
+    }
+
+    if (change.changeType === "create") {
+      const actor = await this.getActor(actorId);
+      await this.create(recipientId, {
+        type: requestType,
+        title: isInvitation ? "Team Invitation" : "Team Join Request",
+        message: isInvitation
+          ? `${actor?.username ?? "Someone"} invited you to join ${teamName}`
+          : `${actor?.username ?? "Someone"} wants to join ${teamName}`,
+        payload: {
+          teamId: data.teamId,
+          [isInvitation ? "invitationId" : "requestId"]: change.entityId,
+          message: data.message ?? null,
+        },
+        linkUrl,
+        relatedEntityId: change.entityId,
+        actorId,
+      });
+      return;
+    }
+
+    // Expired and withdrawn requests just leave the inbox
+    if (data.status !== "approved" && data.status !== "rejected") {
+      await this.markReadByRelated(recipientId, requestType, change.entityId);
+      return;
+    }
+
+    if (actorId) {
+      await this.markReadByRelated(actorId, requestType, change.entityId);
+    }
+
+    const actor = await this.getActor(actorId);
+    const approved = data.status === "approved";
+    await this.create(recipientId, {
+      type: "team_membership_update",
+      title: isInvitation
+        ? `Invitation ${approved ? "Accepted" : "Declined"}`
+        : `Join Request ${approved ? "Approved" : "Declined"}`,
+      message: isInvitation
+        ? `${actor?.username ?? "Someone"} ${approved ? "accepted" : "declined"} your invitation to ${teamName}`
+        : `Your request to join ${teamName} was ${approved ? "approved" : "declined"}`,
+      payload: { teamId: data.teamId, status: data.status },
+      linkUrl,
+      relatedEntityId: change.entityId,
+      actorId,
+    });
+  }
+
+  /**
+   * Paginated inbox, newest first
+   */
+  async list(
+    userId: string,
+    options: NotificationListOptions
+  ): Promise<{ notifications: Notification[]; total: number }> {
+    const conditions = [eq(notifications.userId, userId)];
+    if (options.unreadOnly) {
+      conditions.push(isNull(notifications.readAt));
+    }
+
+    const rows = await db
+      .select()
+      .from(notifications)
+      .where(and(...conditions))
+      .orderBy(desc(notifications.createdAt))
+      .limit(options.limit)
+      .offset((options.page - 1) * options.limit);
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(notifications)
+      .where(and(...conditions));
+
+    return {
+      notifications: rows.map((row) => selectNotificationSchema.parse(row)),
+      total,
+    };
+  }
+
+  /**
+   * Unread and unseen totals plus an unread breakdown by type
+   */
+  async getCounts(userId: string): Promise<NotificationCounts> {
+    const rows = await db
+      .select({
+        type: notifications.type,
+        unread: sql<number>`count(*) FILTER (WHERE ${notifications.readAt} IS NULL)`.mapWith(Number),
+        unseen: sql<number>`count(*) FILTER (WHERE ${notifications.seenAt} IS NULL)`.mapWith(Number),
+      })
+      .from(notifications)
+      .where(
+        and(
+          eq(notifications.userId, userId),
+          sql`(${notifications.readAt} IS NULL OR ${notifications.seenAt} IS NULL)`
+        )
+      )
+      .groupBy(notifications.type);
+
+    return {
+      unread: rows.reduce((sum, row) => sum + row.unread, 0),
+      unseen: rows.reduce((sum, row) => sum + row.unseen, 0),
+      byType: Object.fromEntries(
+        rows.filter((row) => row.unread > 0).map((row) => [row.type, row.unread])
+      ),
+    };
+  }
+
+  /**
+   * Mark notifications as seen (shown in the inbox, not necessarily opened)
+   */
+  async markSeen(userId: string, notificationIds: string[]): Promise<void> {
+    if (notificationIds.length === 0) return;
+
+    await db
+      .update(notifications)
+      .set({ seenAt: new Date() })
+      .where(
+        and(
+          eq(notifications.userId, userId),
+          inArray(notifications.id, notificationIds),
+          isNull(notifications.seenAt)
+        )
+      );
+  }
+
+  /**
+   * Mark a single notification read or unread - returns null if it isn't the user's
+   */
+  async markRead(
+    userId: string,
+    notificationId: string,
+    read: boolean = true
+  ): Promise<Notification | null> {
+    const now = new Date();
+    const [notification] = await db
+      .update(notifications)
+      .set(
+        read
+          ? { readAt: now, seenAt: sql`COALESCE(${notifications.seenAt}, ${now.toISOString()}::timestamp)` }
+          : { readAt: null }
+      )
+      .where(
+        and(
+          eq(notifications.id, notificationId),
+          eq(notifications.userId, userId)
+        )
+      )
+      .returning();
+
+    return notification ? selectNotificationSchema.parse(notification) : null;
+  }
+
+  /**
+   * Mark every unread notification as read
+   */
+  async markAllRead(userId: string): Promise<number> {
+    const now = new Date();
+    const updated = await db
+      .update(notifications)
+      .set({ readAt: now, seenAt: sql`COALESCE(${notifications.seenAt}, ${now.toISOString()}::timestamp)` })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+
+    return updated.length;
+  }
+
+  /**
+   * Mark notifications about an entity as read once the user has acted on it
+   */
+  async markReadByRelated(
+    userId: string,
+    type: NotificationType,
+    relatedEntityId: string
+  ): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(
+        and(
+          eq(notifications.userId, userId),
+          eq(notifications.type, type),
+          eq(notifications.relatedEntityId, relatedEntityId),
+          isNull(notifications.readAt)
+        )
+      );
+  }
+
+  /**
+   * Email each opted-in user a summary of what is still unread, at most once
+   * a day. Only notifications created since the previous digest are listed,
+   * so nothing is mailed twice. Returns the number of emails sent.
+   */
+  async sendEmailDigests(now: Date = new Date()): Promise<number> {
+    const dueBefore = new Date(now.getTime() - DIGEST_INTERVAL);
+
+    const recipients = await db
+      .select({
+        userId: users.id,
+        email: users.email,
+        username: users.username,
+        lastDigestSentAt: notificationPreferences.lastDigestSentAt,
+      })
+      .from(notificationPreferences)
+      .innerJoin(users, eq(users.id, notificationPreferences.userId))
+      .where(
+        and(
+          eq(notificationPreferences.emailDigest, true),
+          eq(users.status, "active"),
+          isNull(users.deletedAt),
+          or(
+            isNull(notificationPreferences.lastDigestSentAt),
+            lt(notificationPreferences.lastDigestSentAt, dueBefore)
+          )
+        )
+      );
+
+    let sent = 0;
+    for (const recipient of recipients) {
+      try {
+        const unread = await db
+          .select({
+            title: notifications.title,
+            message: notifications.message,
+            linkUrl: notifications.linkUrl,
+          })
+          .from(notifications)
+          .where(
+            and(
+              eq(notifications.userId, recipient.userId),
+              isNull(notifications.readAt),
+              gt(notifications.createdAt, recipient.lastDigestSentAt ?? dueBefore)
+            )
+          )
+          .orderBy(desc(notifications.createdAt));
+
+        if (unread.length > 0) {
+          const listed = unread.slice(0, DIGEST_MAX_ITEMS).map((item) =>
+            item.linkUrl
+              ? `- ${item.title}: ${item.message}\n  ${clientUrl(item.linkUrl)}`
+              : `- ${item.title}: ${item.message}`
+          );
+          const more = unread.length - listed.length;
+
+          await mailer.send({
+            to: recipient.email,
+            subject:
+              unread.length === 1
+                ? "You have 1 unread notification"
+                : `You have ${unread.length} unread notifications`,
+            text: [
+              `Hi ${recipient.username || "there"},`,
+              "",
+              "Here is what happened since your last digest:",
+              "",
+              ...listed,
+              ...(more > 0 ? [`...and ${more} more`] : []),
+              "",
+              `Open your inbox: ${clientUrl("/notifications")}`,
+              "",
+              `You can turn off the daily digest in your settings: ${clientUrl("/settings")}`,
+            ].join("\n"),
+          });
+          sent++;
+        }
+
+        await db
+          .update(notificationPreferences)
+          .set({ lastDigestSentAt: now })
+          .where(eq(notificationPreferences.userId, recipient.userId));
+      } catch (error) {
+        console.error(`❌ Email digest for user ${recipient.userId} failed:`, error);
+      }
+    }
+
+    if (sent > 0) {
+      console.log(`📬 Sent ${sent} notification digest(s)`);
+    }
+    return sent;
+  }
+
+  startScheduler(intervalMs: number = DIGEST_CHECK_INTERVAL): void {
+    if (this.schedulerInterval) return;
+
+    this.schedulerInterval = setInterval(() => {
+      this.sendEmailDigests().catch((error) =>
+        console.error("❌ Email digest run failed:", error)
+      );
+    }, intervalMs);
+  }
+
+  stopScheduler(): void {
+    if (this.schedulerInterval) {
+      clearInterval(this.schedulerInterval);
+      this.schedulerInterval = null;
+    }
+  }
+
+  private push(
+    userId: string,
+    notification: Pick<Notification, "type" | "title" | "message" | "createdAt"> &
+      Partial<Pick<Notification, "id" | "payload" | "linkUrl">>
+  ) {
+    wsManager.sendToUser(userId, {
+      type: "notification",
+      data: {
+        id: notification.id,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        data: notification.payload,
+        linkUrl: notification.linkUrl,
+      },
+      timestamp: notification.createdAt.toISOString(),
+      userId,
+    });
+  }
+
+  private async getActor(userId?: string) {
+    if (!userId) return null;
+
+    const [actor] = await db
+      .select({ username: users.username, avatarUrl: users.avatarUrl })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+    return actor ?? null;
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,59 @@
+// src/services/privacy-settings.service.ts - What the app may share on a user's behalf
+import { eq } from "drizzle-orm";
+import { db } from "../db/client.js";
+import { userPrivacySettings } from "../db/schema.js";
+import {
+  selectPrivacySettingsSchema,
+  updatePrivacySettingsSchema,
+  type PrivacySettings,
+  type UpdatePrivacySettings,
+} from "../db/zod.schema.js";
+
+export const DEFAULT_PRIVACY_SETTINGS = {
+  autoPostActivityRecaps: false,
+  autoPostSkillMilestones: false,
+  autoPostVisibility: "friends" as const,
+};
+
+export class PrivacySettingsService {
+  /**
+   * Get a user's privacy settings, falling back to defaults when none are saved
+   */
+  async getSettings(userId: string): Promise<PrivacySettings> {
+    const [row] = await db
+      .select()
+      .from(userPrivacySettings)
+      .where(eq(userPrivacySettings.userId, userId))
+      .limit(1);
+
+    if (!row) {
+      return { userId, ...DEFAULT_PRIVACY_SETTINGS, updatedAt: new Date() };
+    }
+
+    return selectPrivacySettingsSchema.parse(row);
+  }
+
+  /**
+   * Save settings changes - only the fields provided are updated
+   */
+  async updateSettings(
+    userId: string,
+    updates: UpdatePrivacySettings
+  ): Promise<PrivacySettings> {
+    const validated = updatePrivacySettingsSchema.parse(updates);
+    const now = new Date();
+
+    const [row] = await db
+      .insert(userPrivacySettings)
+      .values({ userId, ...validated, updatedAt: now })
+      .onConflictDoUpdate({
+        target: userPrivacySettings.userId,
+        set: { ...validated, updatedAt: now },
+      })
+      .returning();
+
+    return selectPrivacySettingsSchema.parse(row);
+  }
+}
+
+export const privacySettingsService = new PrivacySettingsService();
@@ -0,0 +1,303 @@
+// src/services/rating-strategy.service.ts - Pluggable rating engines (classic Elo and Glicko-2)
+import type { ActivityELOSettings } from "./elo-calc.service.js";
+
+export const RATING_SYSTEMS = ["elo", "glicko2"] as const;
+export type RatingSystem = (typeof RATING_SYSTEMS)[number];
+
+export const DEFAULT_RATING_DEVIATION = 350;
+export const DEFAULT_RATING_VOLATILITY = 0.06;
+export const DEFAULT_GLICKO_TAU = 0.5;
+
+// Ratings with a deviation above this are shown as provisional
+export const PROVISIONAL_RATING_DEVIATION = 110;
+
+// Games played after which the "expert" K-factor applies
+const EXPERT_GAMES_THRESHOLD = 100;
+
+// Glicko-2 internal scale conversion (Glickman, "Example of the Glicko-2 system")
+const GLICKO2_SCALE = 173.7178;
+const GLICKO2_CENTER = 1500;
+const GLICKO2_CONVERGENCE = 0.000001;
+
+export interface RatingState {
+  rating: number;
+  ratingDeviation: number;
+  volatility: number;
+  gamesPlayed: number;
+}
+
+export interface RatingMatchup {
+  // Rating the player is represented by in this matchup (team average for team events)
+  playerRating: number;
+  opponentRating: number;
+  opponentDeviation: number;
+  // 1 = win, 0.5 = draw, 0 = loss
+  score: number;
+}
+
+export interface RatingUpdate {
+  rating: number;
+  ratingDeviation: number;
+  volatility: number;
+  expectedScore: number;
+  actualScore: number;
+  kFactor: number;
+}
+
+export interface RatingStrategy {
+  readonly name: RatingSystem;
+  rate(
+    player: RatingState,
+    matchups: RatingMatchup[],
+    settings: ActivityELOSettings
+  ): RatingUpdate;
+  isProvisional(
+    player: Pick<RatingState, "ratingDeviation" | "gamesPlayed">,
+    settings: ActivityELOSettings
+  ): boolean;
+}
+
+/**
+ * Get K-factor based on games played
+ */
+export function getKFactor(
+  gamesPlayed: number,
+  settings: ActivityELOSettings
+): number {
+  if (gamesPlayed < settings.provisionalGames) {
+    return settings.kFactor.new;
+  } else if (gamesPlayed < EXPERT_GAMES_THRESHOLD) {
+    return settings.kFactor.established;
+  } else {
+    return settings.kFactor.expert;
+  }
+}
+
+/**
+ * Calculate expected score using ELO formula
+ */
+export function calculateExpectedScore(
+  playerELO: number,
+  opponentELO: number
+): number {
+  return 1 / (1 + Math.pow(10, (opponentELO - playerELO) / 400));
+}
+
+const average = (values: number[]) =>
+  values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0;
+
+/**
+ * Classic Elo: averaged expected vs actual score scaled by a tiered K-factor.
+ * Deviation and volatility are carried over untouched.
+ */
+export class EloRatingStrategy implements RatingStrategy {
+  readonly name = "elo" as const;
+
+  rate(
+    player: RatingState,
+    matchups: RatingMatchup[],
+    settings: ActivityELOSettings
+  ): RatingUpdate {
+    const kFactor = getKFactor(player.gamesPlayed, settings);
+    const expectedScore = average(
+      matchups.map((m) =>
+        calculateExpectedScore(m.playerRating, m.opponentRating)
+      )
+    );
+    const actualScore = average(matchups.map((m) => m.score));
+
+    return {
+      rating:
+        player.rating + Math.round(kFactor * (actualScore - expectedScore)),
+      ratingDeviation: player.ratingDeviation,
+      volatility: player.volatility,
+      expectedScore,
+      actualScore,
+      kFactor,
+    };
+  }
+
+  isProvisional(
+    player: Pick<RatingState, "ratingDeviation" | "gamesPlayed">,
+    settings: ActivityELOSettings
+  ): boolean {
+    return player.gamesPlayed < settings.provisionalGames;
+  }
+}
+
+/**
+ * Glicko-2: every activity is treated as one rating period, with each
+ * opponent (or opposing team) counted as a separate game.
+ */
+export class Glicko2RatingStrategy implements RatingStrategy {
+  readonly name = "glicko2" as const;
+
+  rate(
+    player: RatingState,
+    matchups: RatingMatchup[],
+    settings: ActivityELOSettings
+  ): RatingUpdate {
+    const mu = (player.rating - GLICKO2_CENTER) / GLICKO2_SCALE;
+    const phi = this.sanitizeDeviation(player.ratingDeviation) / GLICKO2_SCALE;
+    const sigma = this.sanitizeVolatility(player.volatility);
+
+    if (matchups.length === 0) {
+      // No games in the period - only the deviation grows
+      return {
+        rating: player.rating,
+        ratingDeviation: Math.round(
+          Math.sqrt(phi * phi + sigma * sigma) * GLICKO2_SCALE
+        ),
+        volatility: sigma,
+        expectedScore: 0,
+        actualScore: 0,
+        kFactor: 0,
+      };
+    }
+
+    const games = matchups.map((m) => {
+      const opponentMu = (m.opponentRating - GLICKO2_CENTER) / GLICKO2_SCALE;
+      const opponentPhi =
+        this.sanitizeDeviation(m.opponentDeviation) / GLICKO2_SCALE;
+      // The player's side may be represented by a team average
+      const sideMu = (m.playerRating - GLICKO2_CENTER) / GLICKO2_SCALE;
+      const g = this.g(opponentPhi);
+      const expected = 1 / (1 + Math.exp(-g * (sideMu - opponentMu)));
+      return { g, expected, score: m.score };
+    });
+
+    const variance =
+      1 /
+      games.reduce(
+        (sum, game) =>
+          sum + game.g * game.g * game.expected * (1 - game.expected),
+        0
+      );
+    const scoreSum = games.reduce(
+      (sum, game) => sum + game.g * (game.score - game.expected),
+      0
+    );
+    const delta = variance * scoreSum;
+
+    const newSigma = this.updateVolatility(
+      phi,
+      sigma,
+      variance,
+      delta,
+      settings.glickoTau ?? DEFAULT_GLICKO_TAU
+    );
+    const phiStar = Math.sqrt(phi * phi + newSigma * newSigma);
+    const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / variance);
+    const newMu = mu + newPhi * newPhi * scoreSum;
+
+    // Effective K so the result can be compared with Elo-rated activities
+    const kFactor = Math.round(
+      GLICKO2_SCALE *
+        newPhi *
+        newPhi *
+        games.reduce((sum, game) => sum + game.g, 0)
+    );
+
+    return {
+      rating: Math.round(newMu * GLICKO2_SCALE + GLICKO2_CENTER),
+      ratingDeviation: Math.round(newPhi * GLICKO2_SCALE),
+      volatility: newSigma,
+      expectedScore: average(games.map((game) => game.expected)),
+      actualScore: average(games.map((game) => game.score)),
+      kFactor,
+    };
+  }
+
+  isProvisional(
+    player: Pick<RatingState, "ratingDeviation" | "gamesPlayed">
+  ): boolean {
+    return (
+      this.sanitizeDeviation(player.ratingDeviation) >
+      PROVISIONAL_RATING_DEVIATION
+    );
+  }
+
+  private g(phi: number): number {
+    return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+  }
+
+  /**
+   * Step 5 of the Glicko-2 algorithm (Illinois variant of regula falsi)
+   */
+  private updateVolatility(
+    phi: number,
+    sigma: number,
+    variance: number,
+    delta: number,
+    tau: number
+  ): number {
+    const a = Math.log(sigma * sigma);
+    const f = (x: number) => {
+      const ex = Math.exp(x);
+      const denominator = phi * phi + variance + ex;
+      return (
+        (ex * (delta * delta - phi * phi - variance - ex)) /
+          (2 * denominator * denominator) -
+        (x - a) / (tau * tau)
+      );
+    };
+
+    let A = a;
+    let B: number;
+    if (delta * delta > phi * phi + variance) {
+      B = Math.log(delta * delta - phi * phi - variance);
+    } else {
+      let k = 1;
+      while (f(a - k * tau) < 0) {
+        k++;
+      }
+      B = a - k * tau;
+    }
+
+    let fA = f(A);
+    let fB = f(B);
+    while (Math.abs(B - A) > GLICKO2_CONVERGENCE) {
+      const C = A + ((A - B) * fA) / (fB - fA);
+      const fC = f(C);
+      if (fC * fB <= 0) {
+        A = B;
+        fA = fB;
+      } else {
+        fA = fA / 2;
+      }
+      B = C;
+      fB = fC;
+    }
+
+    return Math.exp(A / 2);
+  }
+
+  private sanitizeDeviation(ratingDeviation: number): number {
+    return ratingDeviation > 0
+      ? Math.min(ratingDeviation, DEFAULT_RATING_DEVIATION)
+      : DEFAULT_RATING_DEVIATION;
+  }
+
+  private sanitizeVolatility(volatility: number): number {
+    // Rows written before Glicko-2 existed can hold legacy values
+    return volatility > 0 && volatility < 1
+      ? volatility
+      : DEFAULT_RATING_VOLATILITY;
+  }
+}
+
+const strategies: Record<RatingSystem, RatingStrategy> = {
+  elo: new EloRatingStrategy(),
+  glicko2: new Glicko2RatingStrategy(),
+};
+
+/**
+ * Pick the rating engine configured for an activity type
+ */
+export function getRatingStrategy(
+  settings: Pick<ActivityELOSettings, "ratingSystem">
+): RatingStrategy {
+  return strategies[settings.ratingSystem] ?? strategies.elo;
+}
@@ -0,0 +1,501 @@
+// src/services/season.service.ts - Seasons, soft resets and archived standings
+import { and, asc, avg, count, desc, eq, gt, gte, lt, lte, sql } from "drizzle-orm";
+import { db } from "../db/client.js";
+import {
+  eloHistory,
+  seasonStandings,
+  seasons,
+  userActivityTypeELOs,
+  users,
+} from "../db/schema.js";
+import {
+  insertSeasonSchema,
+  selectSeasonSchema,
+  type CreateSeasonRequest,
+  type Season,
+} from "../db/zod.schema.js";
+import { deltaTrackingService } from "./delta-tracking.service.js";
+import { eloCalculationService } from "./elo-calc.service.js";
+import { DEFAULT_RATING_DEVIATION } from "./rating-strategy.service.js";
+
+export interface SeasonLeaderboardEntry {
+  rank: number;
+  userId: string;
+  username: string | null;
+  avatarUrl: string | null;
+  startELO: number;
+  eloScore: number;
+  seasonChange: number;
+  gamesPlayed: number;
+}
+
+export interface SeasonRolloverResult {
+  seasonId: string;
+  activityTypeId: string;
+  mean: number;
+  playersReset: number;
+  standingsArchived: number;
+  nextSeasonId: string | null;
+}
+
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+const SEASON_CHECK_INTERVAL = 60 * 60 * 1000; // 1 hour
+
+export class SeasonService {
+  private schedulerInterval: NodeJS.Timeout | null = null;
+
+  /**
+   * Get the running season for an activity type, if any
+   */
+  async getActiveSeason(activityTypeId: string): Promise<Season | null> {
+    const [season] = await db
+      .select()
+      .from(seasons)
+      .where(
+        and(
+          eq(seasons.activityTypeId, activityTypeId),
+          eq(seasons.status, "active")
+        )
+      )
+      .limit(1);
+
+    return season ? selectSeasonSchema.parse(season) : null;
+  }
+
+  /**
+   * List all seasons for an activity type, newest first
+   */
+  async listSeasons(activityTypeId: string): Promise<Season[]> {
+    const rows = await db
+      .select()
+      .from(seasons)
+      .where(eq(seasons.activityTypeId, activityTypeId))
+      .orderBy(desc(seasons.startDate));
+
+    return rows.map((row) => selectSeasonSchema.parse(row));
+  }
+
+  /**
+   * Resolve a `season` query value ("current" or a season id) for an activity type
+   */
+  async resolveSeason(
+    activityTypeId: string,
+    seasonParam: string
+  ): Promise<Season | null> {
+    if (seasonParam === "current") {
+      return this.getActiveSeason(activityTypeId);
+    }
+
+    const [season] = await db
+      .select()
+      .from(seasons)
+      .where(
+        and(
+          eq(seasons.id, seasonParam),
+          eq(seasons.activityTypeId, activityTypeId)
+        )
+      )
+      .limit(1);
+
+    return season ? selectSeasonSchema.parse(season) : null;
+  }
+
+  /**
+   * Create a season - seasons of the same activity type may not overlap
+   */
+  async createSeason(
+    activityTypeId: string,
+    data: CreateSeasonRequest
+  ): Promise<Season> {
+    const [overlapping] = await db
+      .select({ id: seasons.id, name: seasons.name })
+      .from(seasons)
+      .where(
+        and(
+          eq(seasons.activityTypeId, activityTypeId),
+          lt(seasons.startDate, data.endDate),
+          gt(seasons.endDate, data.startDate)
+        )
+      )
+      .limit(1);
+
+    if (overlapping) {
+      throw new Error(`Season overlaps with "${overlapping.name}"`);
+    }
+
+    const now = new Date();
+    const activeSeason = await this.getActiveSeason(activityTypeId);
+    const startsNow = data.startDate <= now && data.endDate > now;
+
+    const validatedSeason = insertSeasonSchema.parse({
+      activityTypeId,
+      name: data.name,
+      startDate: data.startDate,
+      endDate: data.endDate,
+      resetFactor: data.resetFactor,
+      status: "upcoming",
+    });
+
+    const season = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(seasons).values(validatedSeason).returning();
+
+      if (!startsNow || activeSeason) {
+        return created;
+      }
+      return this.startSeason(tx, created.id, activityTypeId);
+    });
+
+    console.log(`📅 Season "${season.name}" created (${season.status})`);
+    return selectSeasonSchema.parse(season);
+  }
+
+  /**
+   * Leaderboard for a season - live for the running season, archived once completed
+   */
+  async getSeasonLeaderboard(
+    season: Season,
+    limit: number,
+    offset: number
+  ): Promise<{ leaderboard: SeasonLeaderboardEntry[]; total: number }> {
+    if (season.status === "upcoming") {
+      return { leaderboard: [], total: 0 };
+    }
+
+    if (season.status === "completed") {
+      const rows = await db
+        .select({
+          rank: seasonStandings.rank,
+          userId: seasonStandings.userId,
+          username: users.username,
+          avatarUrl: users.avatarUrl,
+          startELO: seasonStandings.startELO,
+          eloScore: seasonStandings.finalELO,
+          gamesPlayed: seasonStandings.gamesPlayed,
+        })
+        .from(seasonStandings)
+        .innerJoin(users, eq(seasonStandings.userId, users.id))
+        .where(eq(seasonStandings.seasonId, season.id))
+        .orderBy(asc(seasonStandings.rank))
+        .limit(limit)
+        .offset(offset);
+
+      const [{ total }] = await db
+        .select({ total: count() })
+        .from(seasonStandings)
+        .where(eq(seasonStandings.seasonId, season.id));
+
+      return {
+        leaderboard: rows.map((row) => ({
+          ...row,
+          seasonChange: row.eloScore - row.startELO,
+        })),
+        total,
+      };
+    }
+
+    // Running season: everyone with at least one rated game since the season started
+    const settings = await eloCalculationService.getActivityTypeELOSettings(
+      season.activityTypeId
+    );
+    const seasonGames = this.seasonGamesQuery(season);
+
+    const rows = await db
+      .select({
+        userId: userActivityTypeELOs.userId,
+        username: users.username,
+        avatarUrl: users.avatarUrl,
+        startELO: sql<number>`COALESCE(${userActivityTypeELOs.seasonELO}, ${settings.startingELO})`,
+        eloScore: userActivityTypeELOs.eloScore,
+        gamesPlayed: seasonGames.gamesPlayed,
+      })
+      .from(userActivityTypeELOs)
+      .innerJoin(seasonGames, eq(seasonGames.userId, userActivityTypeELOs.userId))
+      .innerJoin(users, eq(userActivityTypeELOs.userId, users.id))
+      .where(eq(userActivityTypeELOs.activityTypeId, season.activityTypeId))
+      .orderBy(desc(userActivityTypeELOs.eloScore))
+      .limit(limit)
+      .offset(offset);
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(userActivityTypeELOs)
+      .innerJoin(seasonGames, eq(seasonGames.userId, userActivityTypeELOs.userId))
+      .where(eq(userActivityTypeELOs.activityTypeId, season.activityTypeId));
+
+    return {
+      leaderboard: rows.map((row, index) => ({
+        ...row,
+        rank: offset + index + 1,
+        seasonChange: row.eloScore - row.startELO,
+      })),
+      total,
+    };
+  }
+
+  /**
+   * Close a season: archive final standings, soft-reset every rating toward
+   * the mean and start the next upcoming season if it is due
+   */
+  async rolloverSeason(seasonId: string): Promise<SeasonRolloverResult> {
+    console.log(`🔄 Rolling over season: ${seasonId}`);
+
+    const resetChanges: Array<{ userId: string; oldELO: number; newELO: number }> = [];
+
+    const result = await db.transaction(async (tx) => {
+      // Flipping the status first doubles as a lock against concurrent rollovers
+      const [season] = await tx
+        .update(seasons)
+        .set({ status: "completed", completedAt: new Date() })
+        .where(and(eq(seasons.id, seasonId), eq(seasons.status, "active")))
+        .returning();
+
+      if (!season) {
+        throw new Error("Season not found or not active");
+      }
+
+      const settings = await eloCalculationService.getActivityTypeELOSettings(
+        season.activityTypeId
+      );
+
+      const [{ mean }] = await tx
+        .select({ mean: avg(userActivityTypeELOs.eloScore) })
+        .from(userActivityTypeELOs)
+        .where(
+          and(
+            eq(userActivityTypeELOs.activityTypeId, season.activityTypeId),
+            gt(userActivityTypeELOs.gamesPlayed, 0)
+          )
+        );
+      const meanELO = mean !== null ? Math.round(Number(mean)) : settings.startingELO;
+
+      const seasonGames = this.seasonGamesQuery(selectSeasonSchema.parse(season));
+      const ratings = await tx
+        .select({
+          userId: userActivityTypeELOs.userId,
+          eloScore: userActivityTypeELOs.eloScore,
+          seasonELO: userActivityTypeELOs.seasonELO,
+          ratingDeviation: userActivityTypeELOs.ratingDeviation,
+          gamesPlayed: sql<number>`COALESCE(${seasonGames.gamesPlayed}, 0)`.mapWith(Number),
+        })
+        .from(userActivityTypeELOs)
+        .leftJoin(seasonGames, eq(seasonGames.userId, userActivityTypeELOs.userId))
+        .where(eq(userActivityTypeELOs.activityTypeId, season.activityTypeId))
+        .orderBy(desc(userActivityTypeELOs.eloScore));
+
+      const standings = [];
+      for (const rating of ratings) {
+        const resetELO = Math.round(
+          meanELO + (rating.eloScore - meanELO) * (1 - season.resetFactor)
+        );
+        // Uncertainty grows back by the same share, so Glicko ratings can move again
+        const resetDeviation = Math.min(
+          DEFAULT_RATING_DEVIATION,
+          Math.round(
+            rating.ratingDeviation +
+              (DEFAULT_RATING_DEVIATION - rating.ratingDeviation) * season.resetFactor
+          )
+        );
+
+        if (rating.gamesPlayed > 0) {
+          standings.push({
+            seasonId: season.id,
+            userId: rating.userId,
+            rank: standings.length + 1,
+            startELO: rating.seasonELO ?? settings.startingELO,
+            finalELO: rating.eloScore,
+            resetELO,
+            gamesPlayed: rating.gamesPlayed,
+          });
+        }
+
+        await tx
+          .update(userActivityTypeELOs)
+          .set({
+            eloScore: resetELO,
+            seasonELO: resetELO,
+            ratingDeviation: resetDeviation,
+            lastUpdated: new Date(),
+            version: sql`${userActivityTypeELOs.version} + 1`,
+          })
+          .where(
+            and(
+              eq(userActivityTypeELOs.userId, rating.userId),
+              eq(userActivityTypeELOs.activityTypeId, season.activityTypeId)
+            )
+          );
+
+        if (resetELO !== rating.eloScore) {
+          resetChanges.push({
+            userId: rating.userId,
+            oldELO: rating.eloScore,
+            newELO: resetELO,
+          });
+        }
+      }
+
+      if (standings.length > 0) {
+        await tx.insert(seasonStandings).values(standings);
+      }
+
+      const [nextSeason] = await tx
+        .select({ id: seasons.id })
+        .from(seasons)
+        .where(
+          and(
+            eq(seasons.activityTypeId, season.activityTypeId),
+            eq(seasons.status, "upcoming"),
+            lte(seasons.startDate, new Date())
+          )
+        )
+        .orderBy(asc(seasons.startDate))
+        .limit(1);
+
+      if (nextSeason) {
+        await this.startSeason(tx, nextSeason.id, season.activityTypeId);
+      }
+
+      return {
+        seasonId: season.id,
+        activityTypeId: season.activityTypeId,
+        mean: meanELO,
+        playersReset: ratings.length,
+        standingsArchived: standings.length,
+        nextSeasonId: nextSeason?.id ?? null,
+      };
+    });
+
+    for (const change of resetChanges) {
+      await deltaTrackingService.logELOChange(
+        change.userId,
+        result.activityTypeId,
+        change.oldELO,
+        change.newELO,
+        result.seasonId
+      );
+    }
+
+    console.log(
+      `✅ Season ${seasonId} archived: ${result.standingsArchived} standings, ${result.playersReset} ratings reset toward ${result.mean}`
+    );
+    return result;
+  }
+
+  /**
+   * Roll over seasons that have ended and start seasons that are due
+   */
+  async processDueSeasons(now: Date = new Date()): Promise<SeasonRolloverResult[]> {
+    const endedSeasons = await db
+      .select({ id: seasons.id })
+      .from(seasons)
+      .where(and(eq(seasons.status, "active"), lte(seasons.endDate, now)));
+
+    const results: SeasonRolloverResult[] = [];
+    for (const season of endedSeasons) {
+      try {
+        results.push(await this.rolloverSeason(season.id));
+      } catch (error) {
+        console.error(`❌ Season rollover failed for ${season.id}:`, error);
+      }
+    }
+
+    // Start upcoming seasons for activity types that have no running season
+    const dueSeasons = await db
+      .select({ id: seasons.id, activityTypeId: seasons.activityTypeId })
+      .from(seasons)
+      .where(
+        and(
+          eq(seasons.status, "upcoming"),
+          lte(seasons.startDate, now),
+          gt(seasons.endDate, now),
+          sql`NOT EXISTS (
+            SELECT 1 FROM ${seasons} s
+            WHERE s.activity_type_id = ${seasons.activityTypeId} AND s.status = 'active'
+          )`
+        )
+      )
+      .orderBy(asc(seasons.startDate));
+
+    const started = new Set<string>();
+    for (const season of dueSeasons) {
+      if (started.has(season.activityTypeId)) continue;
+      started.add(season.activityTypeId);
+
+      await db.transaction((tx) =>
+        this.startSeason(tx, season.id, season.activityTypeId)
+      );
+    }
+
+    return results;
+  }
+
+  /**
+   * Periodically check for season rollovers
+   */
+  startScheduler(intervalMs: number = SEASON_CHECK_INTERVAL): void {
+    if (this.schedulerInterval) return;
+
+    this.schedulerInterval = setInterval(() => {
+      this.processDueSeasons().catch((error) =>
+        console.error("❌ Season check failed:", error)
+      );
+    }, intervalMs);
+  }
+
+  stopScheduler(): void {
+    if (this.schedulerInterval) {
+      clearInterval(this.schedulerInterval);
+      this.schedulerInterval = null;
+    }
+  }
+
+  /**
+   * Mark a season as running and snapshot every rating as its season start,
+   * which the live leaderboard measures season change against
+   */
+  private async startSeason(
+    tx: DbExecutor,
+    seasonId: string,
+    activityTypeId: string
+  ): Promise<typeof seasons.$inferSelect> {
+    const [season] = await tx
+      .update(seasons)
+      .set({ status: "active" })
+      .where(and(eq(seasons.id, seasonId), eq(seasons.status, "upcoming")))
+      .returning();
+
+    if (!season) {
+      throw new Error("Season not found or not upcoming");
+    }
+
+    await tx
+      .update(userActivityTypeELOs)
+      .set({ seasonELO: userActivityTypeELOs.eloScore })
+      .where(eq(userActivityTypeELOs.activityTypeId, activityTypeId));
+
+    return season;
+  }
+
+  /**
+   * Rated games per player inside the season window, from the ELO history
+   */
+  private seasonGamesQuery(season: Season) {
+    return db
+      .select({
+        userId: eloHistory.userId,
+        gamesPlayed: count(eloHistory.id).as("season_games"),
+      })
+      .from(eloHistory)
+      .where(
+        and(
+          eq(eloHistory.activityTypeId, season.activityTypeId),
+          gte(eloHistory.createdAt, season.startDate),
+          lte(eloHistory.createdAt, season.endDate)
+        )
+      )
+      .groupBy(eloHistory.userId)
+      .as("season_games");
+  }
+}
+
+export const seasonService = new SeasonService();
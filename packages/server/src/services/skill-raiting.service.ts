@@ -9,7 +9,8 @@ import {
   activities,
   activityTypes,
 } from "../db/schema.js";
-import { eq, and, avg, count, sql } from "drizzle-orm";
+import { eq, and, avg, count, desc, sql } from "drizzle-orm";
+import { autoPostService } from "./auto-post.service.js";
 import { deltaTrackingService } from "./delta-tracking.service.js";
 import {
   insertUserActivitySkillRatingSchema,
@@ -46,6 +47,33 @@ export interface SkillSummary {
   trend?: "improving" | "declining" | "stable";
 }
 
+// The latest ratings are compared with everything before them
+export const SKILL_TREND_WINDOW = 5;
+const SKILL_TREND_MIN_SHIFT = 0.5;
+
+export type SkillTrend = "improving" | "declining" | "stable";
+
+/**
+ * Whether the newest ratings (the first SKILL_TREND_WINDOW values, newest
+ * first) sit clearly above or below the older ones
+ */
+export function ratingTrend(values: number[]): SkillTrend {
+  const recent = values.slice(0, SKILL_TREND_WINDOW);
+  const earlier = values.slice(SKILL_TREND_WINDOW);
+
+  if (earlier.length === 0) {
+    return "stable";
+  }
+
+  const mean = (list: number[]) =>
+    list.reduce((sum, value) => sum + value, 0) / list.length;
+  const shift = mean(recent) - mean(earlier);
+
+  if (shift >= SKILL_TREND_MIN_SHIFT) return "improving";
+  if (shift <= -SKILL_TREND_MIN_SHIFT) return "declining";
+  return "stable";
+}
+
 export class SkillRatingService {
   /**
    * Submit a skill rating
@@ -179,6 +207,35 @@ export class SkillRatingService {
           }
           // --- End Fix ---
 
+          const previous =
+            await db.query.userActivityTypeSkillSummaries.findFirst({
+              where: and(
+                eq(userActivityTypeSkillSummaries.userId, userId),
+                eq(userActivityTypeSkillSummaries.activityTypeId, activityTypeId),
+                eq(
+                  userActivityTypeSkillSummaries.skillDefinitionId,
+                  skillDefinitionId
+                )
+              ),
+            });
+
+          const history = await db
+            .select({ ratingValue: userActivitySkillRatings.ratingValue })
+            .from(userActivitySkillRatings)
+            .innerJoin(
+              activities,
+              eq(userActivitySkillRatings.activityId, activities.id)
+            )
+            .where(
+              and(
+                eq(userActivitySkillRatings.ratedUserId, userId),
+                eq(userActivitySkillRatings.skillDefinitionId, skillDefinitionId),
+                eq(activities.activityTypeId, activityTypeId)
+              )
+            )
+            .orderBy(desc(userActivitySkillRatings.createdAt));
+          const trend = ratingTrend(history.map((row) => row.ratingValue));
+
           // Update or insert summary
           await db
             .insert(userActivityTypeSkillSummaries)
@@ -191,7 +248,7 @@ export class SkillRatingService {
               // ---
               totalRatings: stats.totalRatings,
               lastCalculatedAt: new Date(),
-              trend: "stable",
+              trend,
             })
             .onConflictDoUpdate({
               target: [
@@ -205,9 +262,26 @@ export class SkillRatingService {
                 // ---
                 totalRatings: stats.totalRatings,
                 lastCalculatedAt: new Date(),
-                trend: "stable",
+                trend,
               },
             });
+
+          // Opted-in players share thresholds reached and upturns
+          await autoPostService.onSkillSummaryChange(
+            userId,
+            activityTypeId,
+            skillDefinitionId,
+            previous && {
+              averageRating: previous.averageRating,
+              totalRatings: previous.totalRatings ?? 0,
+              trend: previous.trend,
+            },
+            {
+              averageRating: averageRatingNumber,
+              totalRatings: stats.totalRatings,
+              trend,
+            }
+          );
         } else if (stats && stats.totalRatings === 0) {
           // Optional: Handle case where totalRatings is 0, maybe delete the summary or set averageRating to null
           // Example: Set averageRating to null if no ratings
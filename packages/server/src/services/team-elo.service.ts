@@ -0,0 +1,483 @@
+// src/services/team-elo.service.ts - Fixtures between two teams and the team ratings they move
+import { and, count, desc, eq, gt, inArray, sql } from "drizzle-orm";
+import { db } from "../db/client.js";
+import {
+  activities,
+  activityParticipants,
+  activityTypes,
+  teamActivityTypeELOs,
+  teamEloHistory,
+  teamMembers,
+  teams,
+} from "../db/schema.js";
+import { activityScoreSchema } from "../db/zod.schema.js";
+import { scoreMargin } from "../utils/match-score.js";
+import { marginMultiplier, type ActivityELOSettings } from "./elo-calc.service.js";
+import {
+  DEFAULT_RATING_DEVIATION,
+  DEFAULT_RATING_VOLATILITY,
+  getRatingStrategy,
+} from "./rating-strategy.service.js";
+
+// Rated fixtures shown in a team's rating trend, per activity type
+export const TEAM_TREND_LENGTH = 20;
+
+// Same floor as player ratings
+const MIN_TEAM_ELO = 100;
+
+export type TeamRating = typeof teamActivityTypeELOs.$inferSelect;
+
+export interface FixtureTeams {
+  homeTeamId: string | null;
+  awayTeamId: string | null;
+}
+
+export interface FixtureSide {
+  teamId: string;
+  rating: number;
+  ratingDeviation: number;
+  volatility: number;
+  gamesPlayed: number;
+  finalResult: "win" | "loss" | "draw";
+  // Scales the rating change by the score margin, 1 when unscaled
+  marginMultiplier?: number;
+}
+
+export interface TeamRatingChange {
+  teamId: string;
+  opponentTeamId: string;
+  oldELO: number;
+  newELO: number;
+  eloChange: number;
+  kFactor: number;
+  expectedScore: number;
+  actualScore: number;
+  ratingDeviation: number;
+  volatility: number;
+}
+
+export type FixtureCheck =
+  | { success: true; creatorTeamId: string | null }
+  | { success: false; status: 400 | 404; error: string };
+
+const RESULT_SCORES = { win: 1, draw: 0.5, loss: 0 } as const;
+
+/**
+ * Rate both teams of a fixture against each other with the activity type's
+ * rating engine, the way a player is rated against an opposing team
+ */
+export function rateFixture(
+  home: FixtureSide,
+  away: FixtureSide,
+  settings: ActivityELOSettings
+): [TeamRatingChange, TeamRatingChange] {
+  const strategy = getRatingStrategy(settings);
+
+  const rate = (side: FixtureSide, opponent: FixtureSide): TeamRatingChange => {
+    const update = strategy.rate(
+      {
+        rating: side.rating,
+        ratingDeviation: side.ratingDeviation,
+        volatility: side.volatility,
+        gamesPlayed: side.gamesPlayed,
+      },
+      [
+        {
+          playerRating: side.rating,
+          opponentRating: opponent.rating,
+          opponentDeviation: opponent.ratingDeviation,
+          score: RESULT_SCORES[side.finalResult],
+        },
+      ],
+      settings
+    );
+
+    const change = Math.round(
+      (update.rating - side.rating) * (side.marginMultiplier ?? 1)
+    );
+    const newELO = Math.max(MIN_TEAM_ELO, side.rating + change);
+
+    return {
+      teamId: side.teamId,
+      opponentTeamId: opponent.teamId,
+      oldELO: side.rating,
+      newELO,
+      eloChange: newELO - side.rating,
+      kFactor: update.kFactor,
+      expectedScore: update.expectedScore,
+      actualScore: update.actualScore,
+      ratingDeviation: Math.round(update.ratingDeviation),
+      volatility: update.volatility,
+    };
+  };
+
+  return [rate(home, away), rate(away, home)];
+}
+
+export class TeamEloService {
+  /**
+   * Check the teams of a new activity: none, or two different teams that play
+   * its activity type with the creator on one of them. The creator plays for
+   * the home team when on both. Without a creator (an organiser who doesn't
+   * play) any two teams will do.
+   */
+  async checkFixture(
+    creatorId: string | null,
+    activityTypeId: string,
+    fixture: { homeTeamId?: string; awayTeamId?: string }
+  ): Promise<FixtureCheck> {
+    const { homeTeamId, awayTeamId } = fixture;
+
+    if (!homeTeamId && !awayTeamId) {
+      return { success: true, creatorTeamId: null };
+    }
+
+    if (!homeTeamId || !awayTeamId) {
+      return {
+        success: false,
+        status: 400,
+        error: "A fixture needs both a home and an away team",
+      };
+    }
+
+    if (homeTeamId === awayTeamId) {
+      return {
+        success: false,
+        status: 400,
+        error: "A team can't play a fixture against itself",
+      };
+    }
+
+    const fixtureTeams = await db
+      .select({ id: teams.id, activityTypeId: teams.activityTypeId })
+      .from(teams)
+      .where(inArray(teams.id, [homeTeamId, awayTeamId]));
+
+    if (fixtureTeams.length < 2) {
+      return { success: false, status: 404, error: "Team not found" };
+    }
+
+    if (
+      fixtureTeams.some(
+        (team) => team.activityTypeId && team.activityTypeId !== activityTypeId
+      )
+    ) {
+      return {
+        success: false,
+        status: 400,
+        error: "Both teams must play this activity type",
+      };
+    }
+
+    if (!creatorId) {
+      return { success: true, creatorTeamId: null };
+    }
+
+    const creatorTeamId = await this.fixtureTeamOf(
+      { homeTeamId, awayTeamId },
+      creatorId
+    );
+    if (!creatorTeamId) {
+      return {
+        success: false,
+        status: 400,
+        error: "You can only organise fixtures for a team you play for",
+      };
+    }
+
+    return { success: true, creatorTeamId };
+  }
+
+  /**
+   * The team a player plays for in a fixture: the one they are on, or the one
+   * they pick when on both (home if they don't). Null when on neither.
+   */
+  async fixtureTeamOf(
+    fixture: FixtureTeams,
+    userId: string,
+    preferred?: string | null
+  ): Promise<string | null> {
+    if (!fixture.homeTeamId || !fixture.awayTeamId) {
+      return null;
+    }
+
+    const memberships = await db
+      .select({ teamId: teamMembers.teamId })
+      .from(teamMembers)
+      .where(
+        and(
+          eq(teamMembers.userId, userId),
+          inArray(teamMembers.teamId, [fixture.homeTeamId, fixture.awayTeamId])
+        )
+      );
+    const teamIds = memberships.map((membership) => membership.teamId);
+
+    if (preferred && teamIds.includes(preferred)) {
+      return preferred;
+    }
+    if (teamIds.includes(fixture.homeTeamId)) {
+      return fixture.homeTeamId;
+    }
+    return teamIds[0] ?? null;
+  }
+
+  /**
+   * Move both teams' ratings once a fixture's member ratings are applied.
+   * Activities that aren't fixtures are left alone. Reprocessing replaces the
+   * fixture's history entries.
+   */
+  async applyFixtureResult(
+    activityId: string,
+    settings: ActivityELOSettings
+  ): Promise<TeamRatingChange[]> {
+    const activity = await db.query.activities.findFirst({
+      where: eq(activities.id, activityId),
+    });
+
+    if (!activity?.homeTeamId || !activity.awayTeamId) {
+      return [];
+    }
+
+    const players = await db
+      .select({
+        team: activityParticipants.team,
+        finalResult: activityParticipants.finalResult,
+      })
+      .from(activityParticipants)
+      .where(
+        and(
+          eq(activityParticipants.activityId, activityId),
+          eq(activityParticipants.status, "accepted"),
+          inArray(activityParticipants.team, [
+            activity.homeTeamId,
+            activity.awayTeamId,
+          ])
+        )
+      );
+
+    const parsedScore = activityScoreSchema.safeParse(activity.score);
+
+    const sideOf = async (teamId: string): Promise<FixtureSide> => {
+      const finalResult = players.find(
+        (player) => player.team === teamId && player.finalResult
+      )?.finalResult;
+      if (!finalResult) {
+        throw new Error("Fixture results need players from both teams");
+      }
+
+      const rating = await this.ensureRating(
+        teamId,
+        activity.activityTypeId,
+        settings.startingELO
+      );
+      const margin =
+        settings.marginScaling && parsedScore.success
+          ? scoreMargin(parsedScore.data, teamId)
+          : null;
+
+      return {
+        teamId,
+        rating: rating.eloScore,
+        ratingDeviation: rating.ratingDeviation,
+        volatility: rating.volatility,
+        gamesPlayed: rating.gamesPlayed,
+        finalResult,
+        marginMultiplier: margin === null ? 1 : marginMultiplier(margin),
+      };
+    };
+
+    const changes = rateFixture(
+      await sideOf(activity.homeTeamId),
+      await sideOf(activity.awayTeamId),
+      settings
+    );
+
+    await db.transaction(async (tx) => {
+      for (const change of changes) {
+        await tx
+          .update(teamActivityTypeELOs)
+          .set({
+            eloScore: change.newELO,
+            gamesPlayed: sql`${teamActivityTypeELOs.gamesPlayed} + 1`,
+            peakELO: sql`GREATEST(${teamActivityTypeELOs.peakELO}, ${change.newELO})`,
+            ratingDeviation: change.ratingDeviation,
+            volatility: change.volatility,
+            lastUpdated: new Date(),
+          })
+          .where(
+            and(
+              eq(teamActivityTypeELOs.teamId, change.teamId),
+              eq(teamActivityTypeELOs.activityTypeId, activity.activityTypeId)
+            )
+          );
+
+        const entry = {
+          opponentTeamId: change.opponentTeamId,
+          oldELO: change.oldELO,
+          newELO: change.newELO,
+          eloChange: change.eloChange,
+          kFactor: change.kFactor,
+          expectedScore: change.expectedScore,
+          actualScore: change.actualScore,
+        };
+
+        await tx
+          .insert(teamEloHistory)
+          .values({
+            ...entry,
+            teamId: change.teamId,
+            activityTypeId: activity.activityTypeId,
+            activityId,
+          })
+          .onConflictDoUpdate({
+            target: [teamEloHistory.activityId, teamEloHistory.teamId],
+            set: { ...entry, createdAt: new Date() },
+          });
+      }
+    });
+
+    for (const change of changes) {
+      console.log(
+        `🛡️ Team ${change.teamId}: ${change.oldELO} → ${change.newELO} (${
+          change.eloChange >= 0 ? "+" : ""
+        }${change.eloChange})`
+      );
+    }
+
+    return changes;
+  }
+
+  /**
+   * Teams ranked by rating for an activity type, once they have played a fixture
+   */
+  async leaderboard(
+    activityTypeId: string,
+    options: { limit: number; offset: number }
+  ) {
+    const condition = and(
+      eq(teamActivityTypeELOs.activityTypeId, activityTypeId),
+      gt(teamActivityTypeELOs.gamesPlayed, 0)
+    );
+
+    const entries = await db
+      .select({
+        rank: sql<number>`ROW_NUMBER() OVER (ORDER BY ${teamActivityTypeELOs.eloScore} DESC)`.as(
+          "rank"
+        ),
+        team: {
+          id: teams.id,
+          name: teams.name,
+          isPrivate: teams.isPrivate,
+        },
+        eloScore: teamActivityTypeELOs.eloScore,
+        gamesPlayed: teamActivityTypeELOs.gamesPlayed,
+        peakELO: teamActivityTypeELOs.peakELO,
+        ratingDeviation: teamActivityTypeELOs.ratingDeviation,
+        lastUpdated: teamActivityTypeELOs.lastUpdated,
+      })
+      .from(teamActivityTypeELOs)
+      .innerJoin(teams, eq(teams.id, teamActivityTypeELOs.teamId))
+      .where(condition)
+      .orderBy(desc(teamActivityTypeELOs.eloScore))
+      .limit(options.limit)
+      .offset(options.offset);
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(teamActivityTypeELOs)
+      .where(condition);
+
+    return { entries, total };
+  }
+
+  /**
+   * A team's rating per activity type with its latest fixtures, oldest first
+   */
+  async ratingTrends(teamId: string) {
+    const ratings = await db
+      .select({
+        activityType: {
+          id: activityTypes.id,
+          name: activityTypes.name,
+        },
+        eloScore: teamActivityTypeELOs.eloScore,
+        gamesPlayed: teamActivityTypeELOs.gamesPlayed,
+        peakELO: teamActivityTypeELOs.peakELO,
+        ratingDeviation: teamActivityTypeELOs.ratingDeviation,
+        lastUpdated: teamActivityTypeELOs.lastUpdated,
+      })
+      .from(teamActivityTypeELOs)
+      .innerJoin(
+        activityTypes,
+        eq(activityTypes.id, teamActivityTypeELOs.activityTypeId)
+      )
+      .where(eq(teamActivityTypeELOs.teamId, teamId))
+      .orderBy(desc(teamActivityTypeELOs.gamesPlayed));
+
+    return Promise.all(
+      ratings.map(async (rating) => {
+        const history = await db
+          .select({
+            activityId: teamEloHistory.activityId,
+            opponentTeamId: teamEloHistory.opponentTeamId,
+            oldELO: teamEloHistory.oldELO,
+            newELO: teamEloHistory.newELO,
+            eloChange: teamEloHistory.eloChange,
+            createdAt: teamEloHistory.createdAt,
+          })
+          .from(teamEloHistory)
+          .where(
+            and(
+              eq(teamEloHistory.teamId, teamId),
+              eq(teamEloHistory.activityTypeId, rating.activityType.id)
+            )
+          )
+          .orderBy(desc(teamEloHistory.createdAt))
+          .limit(TEAM_TREND_LENGTH);
+
+        const trend = history.reverse();
+
+        return {
+          ...rating,
+          trend,
+          recentChange: trend.reduce((sum, entry) => sum + entry.eloChange, 0),
+        };
+      })
+    );
+  }
+
+  // The team's rating for the activity type, started at the type's starting ELO
+  private async ensureRating(
+    teamId: string,
+    activityTypeId: string,
+    startingELO: number
+  ): Promise<TeamRating> {
+    await db
+      .insert(teamActivityTypeELOs)
+      .values({
+        teamId,
+        activityTypeId,
+        eloScore: startingELO,
+        peakELO: startingELO,
+        ratingDeviation: DEFAULT_RATING_DEVIATION,
+        volatility: DEFAULT_RATING_VOLATILITY,
+      })
+      .onConflictDoNothing({
+        target: [teamActivityTypeELOs.teamId, teamActivityTypeELOs.activityTypeId],
+      });
+
+    const [rating] = await db
+      .select()
+      .from(teamActivityTypeELOs)
+      .where(
+        and(
+          eq(teamActivityTypeELOs.teamId, teamId),
+          eq(teamActivityTypeELOs.activityTypeId, activityTypeId)
+        )
+      );
+
+    return rating;
+  }
+}
+
+export const teamEloService = new TeamEloService();
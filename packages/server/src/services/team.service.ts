@@ -0,0 +1,856 @@
+// src/services/team.service.ts - Team roles, ownership, invitations and join requests
+import { and, asc, count, desc, eq, gt, inArray, lte } from "drizzle-orm";
+import { db } from "../db/client.js";
+import {
+  teamInvitations,
+  teamJoinRequests,
+  teamMembers,
+  teams,
+  users,
+} from "../db/schema.js";
+import type { TeamRole } from "../db/zod.schema.js";
+import type { User } from "../middleware/auth.js";
+import { deltaTrackingService } from "./delta-tracking.service.js";
+
+// Pending invitations and join requests lapse after this many days
+export const TEAM_REQUEST_TTL_DAYS = 14;
+const EXPIRY_CHECK_INTERVAL = 60 * 60 * 1000;
+
+type DbExecutor = Pick<typeof db, "select" | "update" | "delete">;
+
+export type Team = typeof teams.$inferSelect;
+export type TeamMembership = typeof teamMembers.$inferSelect;
+export type TeamJoinRequest = typeof teamJoinRequests.$inferSelect;
+export type TeamInvitation = typeof teamInvitations.$inferSelect;
+
+export type TeamActionResult<T> =
+  | { success: true; result: T }
+  | { success: false; status: 400 | 403 | 404 | 409; error: string };
+
+export interface TeamAccess {
+  team: Team;
+  membership: TeamMembership | undefined;
+  // Owners and captains run the roster
+  canManage: boolean;
+  // Only the owner deletes the team, hands out roles and transfers ownership
+  canOwn: boolean;
+}
+
+const TEAM_ROLE_RANK: Record<TeamRole, number> = { owner: 2, captain: 1, member: 0 };
+
+/**
+ * Captains remove members, the owner removes anyone. Nobody removes the
+ * owner - ownership has to be transferred first.
+ */
+export function canRemoveMember(actorRole: TeamRole, targetRole: TeamRole): boolean {
+  return targetRole !== "owner" && TEAM_ROLE_RANK[actorRole] > TEAM_ROLE_RANK[targetRole];
+}
+
+/**
+ * Who takes over a team when its owner goes: the longest-serving captain,
+ * otherwise the longest-serving member
+ */
+export function pickSuccessor<T extends { role: TeamRole; joinedAt: Date }>(
+  members: T[]
+): T | undefined {
+  return [...members]
+    .filter((member) => member.role !== "owner")
+    .sort(
+      (a, b) =>
+        TEAM_ROLE_RANK[b.role] - TEAM_ROLE_RANK[a.role] ||
+        a.joinedAt.getTime() - b.joinedAt.getTime()
+    )[0];
+}
+
+const requestExpiry = (now: Date) =>
+  new Date(now.getTime() + TEAM_REQUEST_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+export class TeamService {
+  private schedulerInterval: NodeJS.Timeout | null = null;
+
+  /**
+   * The team and what the user may do with it. Site admins can do anything.
+   */
+  async access(teamId: string, user: User): Promise<TeamAccess | null> {
+    const team = await db.query.teams.findFirst({
+      where: eq(teams.id, teamId),
+    });
+
+    if (!team) {
+      return null;
+    }
+
+    const membership = await this.membershipOf(teamId, user.id);
+    const isSiteAdmin = user.role === "admin";
+
+    return {
+      team,
+      membership,
+      canManage:
+        isSiteAdmin || membership?.role === "owner" || membership?.role === "captain",
+      canOwn: isSiteAdmin || membership?.role === "owner",
+    };
+  }
+
+  async membershipOf(teamId: string, userId: string) {
+    return db.query.teamMembers.findFirst({
+      where: and(eq(teamMembers.teamId, teamId), eq(teamMembers.userId, userId)),
+    });
+  }
+
+  async isFull(team: Team): Promise<boolean> {
+    if (!team.maxMembers) {
+      return false;
+    }
+
+    const [{ members }] = await db
+      .select({ members: count() })
+      .from(teamMembers)
+      .where(eq(teamMembers.teamId, team.id));
+
+    return members >= team.maxMembers;
+  }
+
+  /**
+   * Put a player on the team. Whatever else they had pending with the team is
+   * settled by joining.
+   */
+  async addMember(
+    team: Team,
+    userId: string,
+    triggeredBy: string,
+    role: TeamRole = "member"
+  ): Promise<TeamMembership> {
+    const [membership] = await db
+      .insert(teamMembers)
+      .values({ teamId: team.id, userId, role })
+      .returning();
+
+    await db
+      .update(teamJoinRequests)
+      .set({ status: "cancelled", respondedAt: new Date() })
+      .where(
+        and(
+          eq(teamJoinRequests.teamId, team.id),
+          eq(teamJoinRequests.userId, userId),
+          eq(teamJoinRequests.status, "pending")
+        )
+      );
+    await db
+      .update(teamInvitations)
+      .set({ status: "cancelled", respondedAt: new Date() })
+      .where(
+        and(
+          eq(teamInvitations.teamId, team.id),
+          eq(teamInvitations.userId, userId),
+          eq(teamInvitations.status, "pending")
+        )
+      );
+
+    await deltaTrackingService.trackChange({
+      entityType: "team_member",
+      entityId: membership.id,
+      changeType: "create",
+      newData: membership,
+      affectedUserId: userId,
+      relatedEntityId: team.id,
+      triggeredBy,
+    });
+
+    return membership;
+  }
+
+  /**
+   * Join a public team straight away, or ask to join a private one. A pending
+   * invitation counts as the team's consent.
+   */
+  async requestToJoin(
+    team: Team,
+    userId: string,
+    message?: string
+  ): Promise<
+    TeamActionResult<
+      { membership: TeamMembership; request?: never } | { request: TeamJoinRequest; membership?: never }
+    >
+  > {
+    if (await this.membershipOf(team.id, userId)) {
+      return { success: false, status: 400, error: "You are already a member of this team" };
+    }
+
+    const now = new Date();
+    const invitation = await db.query.teamInvitations.findFirst({
+      where: and(
+        eq(teamInvitations.teamId, team.id),
+        eq(teamInvitations.userId, userId),
+        eq(teamInvitations.status, "pending"),
+        gt(teamInvitations.expiresAt, now)
+      ),
+    });
+
+    if (invitation) {
+      const accepted = await this.answerInvitation(invitation, userId, true);
+      return accepted.success
+        ? { success: true, result: { membership: accepted.result! } }
+        : accepted;
+    }
+
+    if (!team.isPrivate) {
+      if (await this.isFull(team)) {
+        return { success: false, status: 400, error: "Team has reached maximum member capacity" };
+      }
+
+      return { success: true, result: { membership: await this.addMember(team, userId, userId) } };
+    }
+
+    const pending = await db.query.teamJoinRequests.findFirst({
+      where: and(
+        eq(teamJoinRequests.teamId, team.id),
+        eq(teamJoinRequests.userId, userId),
+        eq(teamJoinRequests.status, "pending"),
+        gt(teamJoinRequests.expiresAt, now)
+      ),
+    });
+
+    if (pending) {
+      return { success: false, status: 409, error: "You have already asked to join this team" };
+    }
+
+    const [request] = await db
+      .insert(teamJoinRequests)
+      .values({ teamId: team.id, userId, message, expiresAt: requestExpiry(now) })
+      .returning();
+
+    for (const managerId of await this.managerIds(team.id)) {
+      await deltaTrackingService.trackChange({
+        entityType: "team_join_request",
+        entityId: request.id,
+        changeType: "create",
+        newData: { ...request, teamName: team.name },
+        affectedUserId: managerId,
+        relatedEntityId: team.id,
+        triggeredBy: userId,
+      });
+    }
+
+    return { success: true, result: { request } };
+  }
+
+  /**
+   * Withdraw the user's pending request to join
+   */
+  async cancelJoinRequest(team: Team, userId: string): Promise<boolean> {
+    const [cancelled] = await db
+      .update(teamJoinRequests)
+      .set({ status: "cancelled", respondedAt: new Date() })
+      .where(
+        and(
+          eq(teamJoinRequests.teamId, team.id),
+          eq(teamJoinRequests.userId, userId),
+          eq(teamJoinRequests.status, "pending")
+        )
+      )
+      .returning();
+
+    if (!cancelled) {
+      return false;
+    }
+
+    await this.trackForManagers(team, cancelled, userId);
+    return true;
+  }
+
+  /**
+   * Pending requests waiting on the team's owner and captains, oldest first
+   */
+  async listJoinRequests(teamId: string) {
+    return db
+      .select({
+        id: teamJoinRequests.id,
+        message: teamJoinRequests.message,
+        status: teamJoinRequests.status,
+        expiresAt: teamJoinRequests.expiresAt,
+        createdAt: teamJoinRequests.createdAt,
+        user: {
+          id: users.id,
+          username: users.username,
+          avatarUrl: users.avatarUrl,
+        },
+      })
+      .from(teamJoinRequests)
+      .innerJoin(users, eq(teamJoinRequests.userId, users.id))
+      .where(
+        and(
+          eq(teamJoinRequests.teamId, teamId),
+          eq(teamJoinRequests.status, "pending"),
+          gt(teamJoinRequests.expiresAt, new Date())
+        )
+      )
+      .orderBy(asc(teamJoinRequests.createdAt));
+  }
+
+  /**
+   * Approve or reject a pending join request
+   */
+  async answerJoinRequest(
+    team: Team,
+    requestId: string,
+    responderId: string,
+    approve: boolean
+  ): Promise<TeamActionResult<TeamJoinRequest>> {
+    const request = await db.query.teamJoinRequests.findFirst({
+      where: and(eq(teamJoinRequests.id, requestId), eq(teamJoinRequests.teamId, team.id)),
+    });
+
+    if (!request || request.status !== "pending") {
+      return { success: false, status: 404, error: "Join request not found or already answered" };
+    }
+
+    const now = new Date();
+    if (request.expiresAt <= now) {
+      await this.expireJoinRequests([request]);
+      return { success: false, status: 400, error: "This join request has expired" };
+    }
+
+    if (approve && (await this.isFull(team))) {
+      return { success: false, status: 400, error: "Team has reached maximum member capacity" };
+    }
+
+    const [answered] = await db
+      .update(teamJoinRequests)
+      .set({
+        status: approve ? "approved" : "rejected",
+        respondedBy: responderId,
+        respondedAt: now,
+      })
+      .where(and(eq(teamJoinRequests.id, requestId), eq(teamJoinRequests.status, "pending")))
+      .returning();
+
+    if (!answered) {
+      return { success: false, status: 404, error: "Join request not found or already answered" };
+    }
+
+    if (approve) {
+      await this.addMember(team, answered.userId, responderId);
+    }
+
+    await deltaTrackingService.trackChange({
+      entityType: "team_join_request",
+      entityId: answered.id,
+      changeType: "update",
+      previousData: request,
+      newData: { ...answered, teamName: team.name },
+      affectedUserId: answered.userId,
+      relatedEntityId: team.id,
+      triggeredBy: responderId,
+    });
+
+    return { success: true, result: answered };
+  }
+
+  /**
+   * Invite a player. If they have already asked to join, inviting them
+   * approves the request instead.
+   */
+  async invite(
+    team: Team,
+    inviterId: string,
+    userId: string,
+    message?: string
+  ): Promise<
+    TeamActionResult<
+      { invitation: TeamInvitation; membership?: never } | { membership: TeamMembership; invitation?: never }
+    >
+  > {
+    const invitee = await db.query.users.findFirst({
+      where: eq(users.id, userId),
+      columns: { id: true, deletedAt: true },
+    });
+
+    if (!invitee || invitee.deletedAt) {
+      return { success: false, status: 404, error: "User not found" };
+    }
+
+    if (await this.membershipOf(team.id, userId)) {
+      return { success: false, status: 400, error: "User is already a member of this team" };
+    }
+
+    const now = new Date();
+    const request = await db.query.teamJoinRequests.findFirst({
+      where: and(
+        eq(teamJoinRequests.teamId, team.id),
+        eq(teamJoinRequests.userId, userId),
+        eq(teamJoinRequests.status, "pending"),
+        gt(teamJoinRequests.expiresAt, now)
+      ),
+    });
+
+    if (request) {
+      const approved = await this.answerJoinRequest(team, request.id, inviterId, true);
+      if (!approved.success) {
+        return approved;
+      }
+
+      const membership = await this.membershipOf(team.id, userId);
+      return { success: true, result: { membership: membership! } };
+    }
+
+    const pending = await db.query.teamInvitations.findFirst({
+      where: and(
+        eq(teamInvitations.teamId, team.id),
+        eq(teamInvitations.userId, userId),
+        eq(teamInvitations.status, "pending"),
+        gt(teamInvitations.expiresAt, now)
+      ),
+    });
+
+    if (pending) {
+      return { success: false, status: 409, error: "User has already been invited" };
+    }
+
+    const [invitation] = await db
+      .insert(teamInvitations)
+      .values({
+        teamId: team.id,
+        userId,
+        invitedBy: inviterId,
+        message,
+        expiresAt: requestExpiry(now),
+      })
+      .returning();
+
+    await deltaTrackingService.trackChange({
+      entityType: "team_invitation",
+      entityId: invitation.id,
+      changeType: "create",
+      newData: { ...invitation, teamName: team.name },
+      affectedUserId: userId,
+      relatedEntityId: team.id,
+      triggeredBy: inviterId,
+    });
+
+    return { success: true, result: { invitation } };
+  }
+
+  /**
+   * Invitations the team has out, newest first
+   */
+  async listInvitations(teamId: string) {
+    return db
+      .select({
+        id: teamInvitations.id,
+        message: teamInvitations.message,
+        status: teamInvitations.status,
+        invitedBy: teamInvitations.invitedBy,
+        expiresAt: teamInvitations.expiresAt,
+        createdAt: teamInvitations.createdAt,
+        user: {
+          id: users.id,
+          username: users.username,
+          avatarUrl: users.avatarUrl,
+        },
+      })
+      .from(teamInvitations)
+      .innerJoin(users, eq(teamInvitations.userId, users.id))
+      .where(
+        and(
+          eq(teamInvitations.teamId, teamId),
+          eq(teamInvitations.status, "pending"),
+          gt(teamInvitations.expiresAt, new Date())
+        )
+      )
+      .orderBy(desc(teamInvitations.createdAt));
+  }
+
+  /**
+   * Invitations waiting on the user, newest first
+   */
+  async listUserInvitations(userId: string) {
+    return db
+      .select({
+        id: teamInvitations.id,
+        message: teamInvitations.message,
+        invitedBy: teamInvitations.invitedBy,
+        expiresAt: teamInvitations.expiresAt,
+        createdAt: teamInvitations.createdAt,
+        team: {
+          id: teams.id,
+          name: teams.name,
+          description: teams.description,
+          activityTypeId: teams.activityTypeId,
+        },
+      })
+      .from(teamInvitations)
+      .innerJoin(teams, eq(teamInvitations.teamId, teams.id))
+      .where(
+        and(
+          eq(teamInvitations.userId, userId),
+          eq(teamInvitations.status, "pending"),
+          gt(teamInvitations.expiresAt, new Date())
+        )
+      )
+      .orderBy(desc(teamInvitations.createdAt));
+  }
+
+  async getInvitation(invitationId: string) {
+    return db.query.teamInvitations.findFirst({
+      where: eq(teamInvitations.id, invitationId),
+    });
+  }
+
+  /**
+   * Withdraw a pending invitation
+   */
+  async cancelInvitation(
+    team: Team,
+    invitationId: string,
+    actorId: string
+  ): Promise<boolean> {
+    const [cancelled] = await db
+      .update(teamInvitations)
+      .set({ status: "cancelled", respondedAt: new Date() })
+      .where(
+        and(
+          eq(teamInvitations.id, invitationId),
+          eq(teamInvitations.teamId, team.id),
+          eq(teamInvitations.status, "pending")
+        )
+      )
+      .returning();
+
+    if (!cancelled) {
+      return false;
+    }
+
+    await deltaTrackingService.trackChange({
+      entityType: "team_invitation",
+      entityId: cancelled.id,
+      changeType: "update",
+      newData: { ...cancelled, teamName: team.name },
+      affectedUserId: cancelled.userId,
+      relatedEntityId: team.id,
+      triggeredBy: actorId,
+    });
+    return true;
+  }
+
+  /**
+   * Accept or decline an invitation - only the invitee can
+   */
+  async answerInvitation(
+    invitation: TeamInvitation,
+    userId: string,
+    accept: boolean
+  ): Promise<TeamActionResult<TeamMembership | null>> {
+    if (invitation.userId !== userId || invitation.status !== "pending") {
+      return { success: false, status: 404, error: "Invitation not found or already answered" };
+    }
+
+    const now = new Date();
+    if (invitation.expiresAt <= now) {
+      await this.expireInvitations([invitation]);
+      return { success: false, status: 400, error: "This invitation has expired" };
+    }
+
+    const team = await db.query.teams.findFirst({
+      where: eq(teams.id, invitation.teamId),
+    });
+
+    if (!team) {
+      return { success: false, status: 404, error: "Team not found" };
+    }
+
+    if (accept && (await this.isFull(team))) {
+      return { success: false, status: 400, error: "Team has reached maximum member capacity" };
+    }
+
+    const [answered] = await db
+      .update(teamInvitations)
+      .set({ status: accept ? "approved" : "rejected", respondedAt: now })
+      .where(and(eq(teamInvitations.id, invitation.id), eq(teamInvitations.status, "pending")))
+      .returning();
+
+    if (!answered) {
+      return { success: false, status: 404, error: "Invitation not found or already answered" };
+    }
+
+    const membership = accept ? await this.addMember(team, userId, userId) : null;
+
+    if (answered.invitedBy) {
+      await deltaTrackingService.trackChange({
+        entityType: "team_invitation",
+        entityId: answered.id,
+        changeType: "update",
+        previousData: invitation,
+        newData: { ...answered, teamName: team.name },
+        affectedUserId: answered.invitedBy,
+        relatedEntityId: team.id,
+        triggeredBy: userId,
+      });
+    }
+
+    return { success: true, result: membership };
+  }
+
+  /**
+   * Make a member a captain or back. The owner's role only changes through a
+   * transfer.
+   */
+  async setRole(
+    team: Team,
+    targetUserId: string,
+    role: Exclude<TeamRole, "owner">,
+    actorId: string
+  ): Promise<TeamActionResult<TeamMembership>> {
+    const target = await this.membershipOf(team.id, targetUserId);
+
+    if (!target) {
+      return { success: false, status: 404, error: "User is not a member of this team" };
+    }
+
+    if (target.role === "owner") {
+      return {
+        success: false,
+        status: 400,
+        error: "Transfer ownership to change the owner's role",
+      };
+    }
+
+    const [updated] = await db
+      .update(teamMembers)
+      .set({ role })
+      .where(eq(teamMembers.id, target.id))
+      .returning();
+
+    await deltaTrackingService.trackChange({
+      entityType: "team_member",
+      entityId: target.id,
+      changeType: "update",
+      previousData: target,
+      newData: updated,
+      affectedUserId: targetUserId,
+      relatedEntityId: team.id,
+      triggeredBy: actorId,
+    });
+
+    return { success: true, result: updated };
+  }
+
+  /**
+   * Hand the team to another member. The previous owner stays on as a captain.
+   */
+  async transferOwnership(
+    team: Team,
+    newOwnerId: string,
+    actorId: string
+  ): Promise<TeamActionResult<TeamMembership>> {
+    const target = await this.membershipOf(team.id, newOwnerId);
+
+    if (!target) {
+      return { success: false, status: 400, error: "The new owner must be a member of the team" };
+    }
+
+    if (target.role === "owner") {
+      return { success: false, status: 400, error: "This member already owns the team" };
+    }
+
+    const newOwner = await db.transaction(async (tx) => {
+      await tx
+        .update(teamMembers)
+        .set({ role: "captain" })
+        .where(and(eq(teamMembers.teamId, team.id), eq(teamMembers.role, "owner")));
+      const [owner] = await tx
+        .update(teamMembers)
+        .set({ role: "owner" })
+        .where(eq(teamMembers.id, target.id))
+        .returning();
+      await tx
+        .update(teams)
+        .set({ creatorId: newOwnerId, updatedAt: new Date() })
+        .where(eq(teams.id, team.id));
+      return owner;
+    });
+
+    await deltaTrackingService.trackChange({
+      entityType: "team",
+      entityId: team.id,
+      changeType: "update",
+      previousData: { ownerId: team.creatorId },
+      newData: { ownerId: newOwnerId },
+      affectedUserId: newOwnerId,
+      triggeredBy: actorId,
+    });
+
+    return { success: true, result: newOwner };
+  }
+
+  /**
+   * Hand over every team the user owns before their membership goes away.
+   * Teams nobody else is on are deleted.
+   */
+  async handOverOwnedTeams(userId: string, executor: DbExecutor = db): Promise<void> {
+    const owned = await executor
+      .select({ teamId: teamMembers.teamId })
+      .from(teamMembers)
+      .where(and(eq(teamMembers.userId, userId), eq(teamMembers.role, "owner")));
+
+    for (const { teamId } of owned) {
+      const members = await executor
+        .select()
+        .from(teamMembers)
+        .where(eq(teamMembers.teamId, teamId));
+      const successor = pickSuccessor(members);
+
+      if (!successor) {
+        await executor.delete(teams).where(eq(teams.id, teamId));
+        continue;
+      }
+
+      await executor
+        .update(teamMembers)
+        .set({ role: "owner" })
+        .where(eq(teamMembers.id, successor.id));
+      await executor
+        .update(teams)
+        .set({ creatorId: successor.userId, updatedAt: new Date() })
+        .where(eq(teams.id, teamId));
+    }
+  }
+
+  /**
+   * Mark pending invitations and join requests past their expiry
+   */
+  async expireStale(now: Date = new Date()): Promise<number> {
+    const requests = await db
+      .select()
+      .from(teamJoinRequests)
+      .where(
+        and(eq(teamJoinRequests.status, "pending"), lte(teamJoinRequests.expiresAt, now))
+      );
+    const invitations = await db
+      .select()
+      .from(teamInvitations)
+      .where(
+        and(eq(teamInvitations.status, "pending"), lte(teamInvitations.expiresAt, now))
+      );
+
+    await this.expireJoinRequests(requests);
+    await this.expireInvitations(invitations);
+
+    const expired = requests.length + invitations.length;
+    if (expired > 0) {
+      console.log(`⌛ Expired ${expired} team invitation(s) and join request(s)`);
+    }
+    return expired;
+  }
+
+  startScheduler(intervalMs: number = EXPIRY_CHECK_INTERVAL): void {
+    if (this.schedulerInterval) return;
+
+    this.schedulerInterval = setInterval(() => {
+      this.expireStale().catch((error) =>
+        console.error("❌ Team request expiry check failed:", error)
+      );
+    }, intervalMs);
+  }
+
+  stopScheduler(): void {
+    if (this.schedulerInterval) {
+      clearInterval(this.schedulerInterval);
+      this.schedulerInterval = null;
+    }
+  }
+
+  private async expireJoinRequests(requests: TeamJoinRequest[]) {
+    if (requests.length === 0) return;
+
+    const expired = await db
+      .update(teamJoinRequests)
+      .set({ status: "expired" })
+      .where(
+        and(
+          inArray(teamJoinRequests.id, requests.map((request) => request.id)),
+          eq(teamJoinRequests.status, "pending")
+        )
+      )
+      .returning();
+
+    for (const request of expired) {
+      const team = await this.teamName(request.teamId);
+      if (team) {
+        await this.trackForManagers(team, request);
+      }
+    }
+  }
+
+  private async expireInvitations(invitations: TeamInvitation[]) {
+    if (invitations.length === 0) return;
+
+    const expired = await db
+      .update(teamInvitations)
+      .set({ status: "expired" })
+      .where(
+        and(
+          inArray(teamInvitations.id, invitations.map((invitation) => invitation.id)),
+          eq(teamInvitations.status, "pending")
+        )
+      )
+      .returning();
+
+    for (const invitation of expired) {
+      const team = await this.teamName(invitation.teamId);
+      if (!team) continue;
+
+      await deltaTrackingService.trackChange({
+        entityType: "team_invitation",
+        entityId: invitation.id,
+        changeType: "update",
+        newData: { ...invitation, teamName: team.name },
+        affectedUserId: invitation.userId,
+        relatedEntityId: team.id,
+        changeSource: "system",
+      });
+    }
+  }
+
+  // Join requests sit in every manager's inbox, so their changes go to each
+  private async trackForManagers(
+    team: Pick<Team, "id" | "name">,
+    request: TeamJoinRequest,
+    triggeredBy?: string
+  ) {
+    for (const managerId of await this.managerIds(team.id)) {
+      await deltaTrackingService.trackChange({
+        entityType: "team_join_request",
+        entityId: request.id,
+        changeType: "update",
+        newData: { ...request, teamName: team.name },
+        affectedUserId: managerId,
+        relatedEntityId: team.id,
+        triggeredBy,
+        changeSource: triggeredBy ? "user_action" : "system",
+      });
+    }
+  }
+
+  private async teamName(teamId: string) {
+    return db.query.teams.findFirst({
+      where: eq(teams.id, teamId),
+      columns: { id: true, name: true },
+    });
+  }
+
+  private async managerIds(teamId: string): Promise<string[]> {
+    const managers = await db
+      .select({ userId: teamMembers.userId })
+      .from(teamMembers)
+      .where(
+        and(
+          eq(teamMembers.teamId, teamId),
+          inArray(teamMembers.role, ["owner", "captain"])
+        )
+      );
+    return managers.map((manager) => manager.userId);
+  }
+}
+
+export const teamService = new TeamService();
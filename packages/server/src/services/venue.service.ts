@@ -0,0 +1,474 @@
+// src/services/venue.service.ts - Venue registry, court bookings and availability
+import { and, asc, eq, inArray, lt, ne, sql } from "drizzle-orm";
+import { db } from "../db/client.js";
+import {
+  activities,
+  activityTypes,
+  venueActivityTypes,
+  venueOpeningHours,
+  venueResources,
+  venues,
+} from "../db/schema.js";
+import type {
+  CreateVenue,
+  OpeningHoursEntry,
+  VenueAvailabilityQuery,
+} from "../db/zod.schema.js";
+import { localDate, weekdayOf, zonedTimeToUtc } from "../utils/time-zone.js";
+
+// Length assumed for bookings created without a duration
+export const DEFAULT_BOOKING_MINUTES = 60;
+
+const MINUTE = 60 * 1000;
+
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface TimeSlot {
+  start: Date;
+  end: Date;
+}
+
+export interface BookingRequest {
+  resourceId: string;
+  activityTypeId: string;
+  start: Date;
+  durationMinutes: number;
+  maxParticipants?: number | null;
+  // When given, the resource must belong to this venue
+  venueId?: string | null;
+  // The activity being rescheduled, so it doesn't conflict with itself
+  excludeActivityId?: string;
+}
+
+export interface BookedResource {
+  venueId: string;
+  venueName: string;
+  resourceId: string;
+  resourceName: string;
+}
+
+export type BookingResult<T> =
+  | { success: true; result: T }
+  | {
+      success: false;
+      status: 400 | 404 | 409;
+      error: string;
+      conflictingActivity?: {
+        id: string;
+        dateTime: Date;
+        durationMinutes: number;
+      };
+    };
+
+/**
+ * Opening windows on a calendar date. A venue without any opening hours is
+ * open all day; one with hours but none for this weekday is closed.
+ */
+export function openingWindows(
+  date: string,
+  timeZone: string,
+  hours: Pick<OpeningHoursEntry, "dayOfWeek" | "opensAt" | "closesAt">[]
+): TimeSlot[] {
+  if (hours.length === 0) {
+    return [
+      {
+        start: zonedTimeToUtc(date, "00:00", timeZone),
+        end: zonedTimeToUtc(date, "24:00", timeZone),
+      },
+    ];
+  }
+
+  const dayOfWeek = weekdayOf(date);
+
+  const windows = hours
+    .filter((entry) => entry.dayOfWeek === dayOfWeek)
+    .map((entry) => ({
+      start: zonedTimeToUtc(date, entry.opensAt, timeZone),
+      end: zonedTimeToUtc(date, entry.closesAt, timeZone),
+    }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  // Merge overlapping or touching windows
+  const merged: TimeSlot[] = [];
+  for (const window of windows) {
+    const last = merged[merged.length - 1];
+    if (last && window.start <= last.end) {
+      if (window.end > last.end) last.end = window.end;
+    } else {
+      merged.push({ ...window });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Parts of the opening windows not covered by a booking, keeping only gaps of
+ * at least minMinutes. Nothing before notBefore is offered.
+ */
+export function computeFreeSlots(
+  windows: TimeSlot[],
+  bookings: TimeSlot[],
+  minMinutes: number,
+  notBefore?: Date
+): TimeSlot[] {
+  const busy = [...bookings].sort((a, b) => a.start.getTime() - b.start.getTime());
+  const slots: TimeSlot[] = [];
+
+  for (const window of windows) {
+    let cursor = window.start;
+    if (notBefore && notBefore > cursor) cursor = notBefore;
+
+    for (const booking of busy) {
+      if (booking.end <= cursor || booking.start >= window.end) continue;
+      if (booking.start > cursor) {
+        slots.push({ start: cursor, end: booking.start });
+      }
+      if (booking.end > cursor) cursor = booking.end;
+    }
+
+    if (cursor < window.end) {
+      slots.push({ start: cursor, end: window.end });
+    }
+  }
+
+  return slots.filter(
+    (slot) => slot.end.getTime() - slot.start.getTime() >= minMinutes * MINUTE
+  );
+}
+
+const bookingEndSql = sql`(${activities.dateTime} + make_interval(mins => COALESCE(${activities.durationMinutes}, ${DEFAULT_BOOKING_MINUTES})))`;
+
+// Bookings that end after the given instant (timestamps are stored as UTC)
+const endsAfter = (instant: Date) =>
+  sql`${bookingEndSql} > ${instant.toISOString()}::timestamp`;
+
+export class VenueService {
+  /**
+   * Create a venue together with its courts, opening hours and supported types
+   */
+  async createVenue(data: CreateVenue, createdBy: string) {
+    const { resources, openingHours, activityTypeIds, ...details } = data;
+
+    return db.transaction(async (tx) => {
+      const [venue] = await tx
+        .insert(venues)
+        .values({ ...details, createdBy })
+        .returning();
+
+      if (resources?.length) {
+        await tx
+          .insert(venueResources)
+          .values(resources.map((resource) => ({ ...resource, venueId: venue.id })));
+      }
+      if (openingHours?.length) {
+        await this.setOpeningHours(venue.id, openingHours, tx);
+      }
+      if (activityTypeIds?.length) {
+        await this.setActivityTypes(venue.id, activityTypeIds, tx);
+      }
+
+      return venue;
+    });
+  }
+
+  /**
+   * Venue with its courts, weekly opening hours and supported activity types
+   */
+  async getVenueDetails(venueId: string) {
+    const venue = await db.query.venues.findFirst({
+      where: eq(venues.id, venueId),
+    });
+    if (!venue) return null;
+
+    const [resources, openingHours, supportedTypes] = await Promise.all([
+      db
+        .select()
+        .from(venueResources)
+        .where(eq(venueResources.venueId, venueId))
+        .orderBy(asc(venueResources.name)),
+      db
+        .select({
+          dayOfWeek: venueOpeningHours.dayOfWeek,
+          opensAt: venueOpeningHours.opensAt,
+          closesAt: venueOpeningHours.closesAt,
+        })
+        .from(venueOpeningHours)
+        .where(eq(venueOpeningHours.venueId, venueId))
+        .orderBy(asc(venueOpeningHours.dayOfWeek), asc(venueOpeningHours.opensAt)),
+      db
+        .select({ id: activityTypes.id, name: activityTypes.name })
+        .from(venueActivityTypes)
+        .innerJoin(activityTypes, eq(venueActivityTypes.activityTypeId, activityTypes.id))
+        .where(eq(venueActivityTypes.venueId, venueId))
+        .orderBy(asc(activityTypes.name)),
+    ]);
+
+    return { ...venue, resources, openingHours, activityTypes: supportedTypes };
+  }
+
+  /**
+   * Replace the venue's weekly opening hours
+   */
+  async setOpeningHours(
+    venueId: string,
+    hours: OpeningHoursEntry[],
+    executor: DbExecutor = db
+  ): Promise<void> {
+    await executor.delete(venueOpeningHours).where(eq(venueOpeningHours.venueId, venueId));
+    if (hours.length > 0) {
+      await executor
+        .insert(venueOpeningHours)
+        .values(hours.map((entry) => ({ ...entry, venueId })));
+    }
+  }
+
+  /**
+   * Replace the activity types the venue hosts (empty list = any type)
+   */
+  async setActivityTypes(
+    venueId: string,
+    activityTypeIds: string[],
+    executor: DbExecutor = db
+  ): Promise<void> {
+    await executor.delete(venueActivityTypes).where(eq(venueActivityTypes.venueId, venueId));
+    const unique = [...new Set(activityTypeIds)];
+    if (unique.length > 0) {
+      await executor
+        .insert(venueActivityTypes)
+        .values(unique.map((activityTypeId) => ({ venueId, activityTypeId })));
+    }
+  }
+
+  /**
+   * Validate a court booking and run `write` while the court is locked, so two
+   * organisers can't claim the same slot at once. Checks the court is active,
+   * hosts the activity type, is open, has room and has no overlapping booking.
+   * Pass an open transaction as executor to book several slots atomically.
+   */
+  async book<T>(
+    request: BookingRequest,
+    write: (tx: DbExecutor, booked: BookedResource) => Promise<T>,
+    executor: DbExecutor = db
+  ): Promise<BookingResult<T>> {
+    return executor.transaction(async (tx) => {
+      // Serialises bookings per court until the transaction ends
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${request.resourceId}))`);
+
+      const [resource] = await tx
+        .select({
+          id: venueResources.id,
+          name: venueResources.name,
+          capacity: venueResources.capacity,
+          isActive: venueResources.isActive,
+          venueId: venues.id,
+          venueName: venues.name,
+          timeZone: venues.timeZone,
+        })
+        .from(venueResources)
+        .innerJoin(venues, eq(venueResources.venueId, venues.id))
+        .where(eq(venueResources.id, request.resourceId));
+
+      if (!resource) {
+        return { success: false, status: 404, error: "Venue resource not found" } as const;
+      }
+      if (request.venueId && request.venueId !== resource.venueId) {
+        return {
+          success: false,
+          status: 400,
+          error: "Venue resource does not belong to this venue",
+        } as const;
+      }
+      if (!resource.isActive) {
+        return {
+          success: false,
+          status: 400,
+          error: `${resource.name} is not available for booking`,
+        } as const;
+      }
+
+      const supported = await tx
+        .select({ activityTypeId: venueActivityTypes.activityTypeId })
+        .from(venueActivityTypes)
+        .where(eq(venueActivityTypes.venueId, resource.venueId));
+      if (
+        supported.length > 0 &&
+        !supported.some((type) => type.activityTypeId === request.activityTypeId)
+      ) {
+        return {
+          success: false,
+          status: 400,
+          error: "This venue does not host this activity type",
+        } as const;
+      }
+
+      if (
+        resource.capacity !== null &&
+        request.maxParticipants &&
+        request.maxParticipants > resource.capacity
+      ) {
+        return {
+          success: false,
+          status: 400,
+          error: `${resource.name} holds at most ${resource.capacity} participants`,
+        } as const;
+      }
+
+      const start = request.start;
+      const end = new Date(start.getTime() + request.durationMinutes * MINUTE);
+
+      const hours = await tx
+        .select({
+          dayOfWeek: venueOpeningHours.dayOfWeek,
+          opensAt: venueOpeningHours.opensAt,
+          closesAt: venueOpeningHours.closesAt,
+        })
+        .from(venueOpeningHours)
+        .where(eq(venueOpeningHours.venueId, resource.venueId));
+
+      if (hours.length > 0) {
+        const windows = openingWindows(
+          localDate(start, resource.timeZone),
+          resource.timeZone,
+          hours
+        );
+        if (!windows.some((window) => window.start <= start && end <= window.end)) {
+          return {
+            success: false,
+            status: 400,
+            error: "Booking falls outside the venue's opening hours",
+          } as const;
+        }
+      }
+
+      const [conflict] = await tx
+        .select({
+          id: activities.id,
+          dateTime: activities.dateTime,
+          durationMinutes: activities.durationMinutes,
+        })
+        .from(activities)
+        .where(
+          and(
+            eq(activities.venueResourceId, resource.id),
+            ne(activities.completionStatus, "cancelled"),
+            lt(activities.dateTime, end),
+            endsAfter(start),
+            request.excludeActivityId
+              ? ne(activities.id, request.excludeActivityId)
+              : undefined
+          )
+        )
+        .orderBy(asc(activities.dateTime))
+        .limit(1);
+
+      if (conflict) {
+        return {
+          success: false,
+          status: 409,
+          error: `${resource.name} is already booked at that time`,
+          conflictingActivity: {
+            id: conflict.id,
+            dateTime: conflict.dateTime,
+            durationMinutes: conflict.durationMinutes ?? DEFAULT_BOOKING_MINUTES,
+          },
+        } as const;
+      }
+
+      const result = await write(tx, {
+        venueId: resource.venueId,
+        venueName: resource.venueName,
+        resourceId: resource.id,
+        resourceName: resource.name,
+      });
+      return { success: true, result } as const;
+    });
+  }
+
+  /**
+   * Bookings and free slots per court for one calendar day in the venue's time zone
+   */
+  async getAvailability(
+    venueId: string,
+    query: VenueAvailabilityQuery,
+    now: Date = new Date()
+  ) {
+    const venue = await db.query.venues.findFirst({
+      where: eq(venues.id, venueId),
+    });
+    if (!venue) return null;
+
+    const resources = await db
+      .select({
+        id: venueResources.id,
+        name: venueResources.name,
+        capacity: venueResources.capacity,
+      })
+      .from(venueResources)
+      .where(
+        and(
+          eq(venueResources.venueId, venueId),
+          eq(venueResources.isActive, true),
+          query.resourceId ? eq(venueResources.id, query.resourceId) : undefined
+        )
+      )
+      .orderBy(asc(venueResources.name));
+
+    const hours = await db
+      .select({
+        dayOfWeek: venueOpeningHours.dayOfWeek,
+        opensAt: venueOpeningHours.opensAt,
+        closesAt: venueOpeningHours.closesAt,
+      })
+      .from(venueOpeningHours)
+      .where(eq(venueOpeningHours.venueId, venueId));
+
+    const windows = openingWindows(query.date, venue.timeZone, hours);
+    const dayStart = zonedTimeToUtc(query.date, "00:00", venue.timeZone);
+    const dayEnd = zonedTimeToUtc(query.date, "24:00", venue.timeZone);
+
+    const bookings =
+      resources.length > 0
+        ? await db
+            .select({
+              activityId: activities.id,
+              resourceId: activities.venueResourceId,
+              start: activities.dateTime,
+              end: sql`${bookingEndSql}`.mapWith(activities.dateTime),
+            })
+            .from(activities)
+            .where(
+              and(
+                inArray(
+                  activities.venueResourceId,
+                  resources.map((resource) => resource.id)
+                ),
+                ne(activities.completionStatus, "cancelled"),
+                lt(activities.dateTime, dayEnd),
+                endsAfter(dayStart)
+              )
+            )
+            .orderBy(asc(activities.dateTime))
+        : [];
+
+    return {
+      venue: { id: venue.id, name: venue.name, timeZone: venue.timeZone },
+      date: query.date,
+      openingHours: windows,
+      resources: resources.map((resource) => {
+        const booked = bookings.filter((booking) => booking.resourceId === resource.id);
+        return {
+          ...resource,
+          bookings: booked.map(({ activityId, start, end }) => ({ activityId, start, end })),
+          freeSlots: computeFreeSlots(
+            windows,
+            booked.map(({ start, end }) => ({ start, end })),
+            query.durationMinutes,
+            now
+          ),
+        };
+      }),
+    };
+  }
+}
+
+export const venueService = new VenueService();
@@ -0,0 +1,301 @@
+// src/services/waitlist.service.ts - Waitlists for full activities and promotion into freed spots
+import { and, asc, count, eq, gt, inArray, isNotNull, lt, lte, max } from "drizzle-orm";
+import { db } from "../db/client.js";
+import { activities, activityParticipants, users } from "../db/schema.js";
+import { deltaTrackingService } from "./delta-tracking.service.js";
+
+const EXPIRY_CHECK_INTERVAL = 5 * 60 * 1000;
+const HOUR = 60 * 60 * 1000;
+
+type ActivityParticipant = typeof activityParticipants.$inferSelect;
+
+export interface WaitlistEntry {
+  participantId: string;
+  // 1-based place in the queue right now
+  place: number;
+  waitlistPosition: number;
+  team: string | null;
+  joinedAt: Date;
+  user: { id: string; username: string | null; avatarUrl: string | null };
+}
+
+export class WaitlistService {
+  private schedulerInterval: NodeJS.Timeout | null = null;
+
+  /**
+   * Put a user at the back of the activity's waitlist
+   */
+  async join(
+    activityId: string,
+    userId: string,
+    team: string | null = null
+  ): Promise<{ participation: ActivityParticipant; place: number }> {
+    const participation = await db.transaction(async (tx) => {
+      // Locking the activity keeps positions unique under concurrent joins
+      await tx
+        .select({ id: activities.id })
+        .from(activities)
+        .where(eq(activities.id, activityId))
+        .for("update");
+
+      const [{ last }] = await tx
+        .select({ last: max(activityParticipants.waitlistPosition) })
+        .from(activityParticipants)
+        .where(eq(activityParticipants.activityId, activityId));
+
+      const [created] = await tx
+        .insert(activityParticipants)
+        .values({
+          activityId,
+          userId,
+          status: "waitlisted",
+          team,
+          waitlistPosition: (last ?? 0) + 1,
+        })
+        .returning();
+      return created;
+    });
+
+    return { participation, place: await this.placeOf(participation) };
+  }
+
+  /**
+   * Promote waitlisted players, in order, into spots that are free. With a
+   * confirmation window the promoted player must confirm or lose the spot.
+   */
+  async fillOpenSpots(
+    activityId: string,
+    triggeredBy?: string,
+    now: Date = new Date()
+  ): Promise<ActivityParticipant[]> {
+    const { activity, promoted } = await db.transaction(async (tx) => {
+      const [activity] = await tx
+        .select()
+        .from(activities)
+        .where(eq(activities.id, activityId))
+        .for("update");
+
+      if (!activity || activity.completionStatus !== "scheduled") {
+        return { activity, promoted: [] };
+      }
+
+      const [{ count: accepted }] = await tx
+        .select({ count: count() })
+        .from(activityParticipants)
+        .where(
+          and(
+            eq(activityParticipants.activityId, activityId),
+            eq(activityParticipants.status, "accepted")
+          )
+        );
+
+      const openSpots =
+        activity.maxParticipants === null
+          ? Number.MAX_SAFE_INTEGER
+          : activity.maxParticipants - accepted;
+      if (openSpots <= 0) return { activity, promoted: [] };
+
+      const next = await tx
+        .select({ id: activityParticipants.id })
+        .from(activityParticipants)
+        .where(
+          and(
+            eq(activityParticipants.activityId, activityId),
+            eq(activityParticipants.status, "waitlisted")
+          )
+        )
+        .orderBy(asc(activityParticipants.waitlistPosition))
+        .limit(openSpots);
+
+      // The window never runs past the start of the activity
+      const confirmBy = activity.waitlistConfirmHours
+        ? new Date(
+            Math.min(
+              now.getTime() + activity.waitlistConfirmHours * HOUR,
+              activity.dateTime.getTime()
+            )
+          )
+        : null;
+
+      const promoted: ActivityParticipant[] = [];
+      for (const { id } of next) {
+        const [participant] = await tx
+          .update(activityParticipants)
+          .set({ status: "accepted", waitlistPosition: null, confirmBy })
+          .where(eq(activityParticipants.id, id))
+          .returning();
+        promoted.push(participant);
+      }
+      return { activity, promoted };
+    });
+
+    if (!activity) return [];
+
+    for (const participant of promoted) {
+      console.log(`⬆️ Promoted ${participant.userId} from the waitlist of ${activityId}`);
+
+      await deltaTrackingService.trackChange({
+        entityType: "activity",
+        entityId: activityId,
+        changeType: "update",
+        newData: {
+          activityId,
+          description: activity.description,
+          participant: { id: participant.userId },
+          status: participant.status,
+          action: "promote",
+          confirmBy: participant.confirmBy,
+        },
+        affectedUserId: participant.userId,
+        relatedEntityId: activityId,
+        triggeredBy: triggeredBy ?? activity.creatorId,
+        changeSource: "system",
+      });
+    }
+
+    return promoted;
+  }
+
+  /**
+   * Keep a spot won from the waitlist. Null when there is nothing to confirm.
+   */
+  async confirmSpot(
+    activityId: string,
+    userId: string,
+    now: Date = new Date()
+  ): Promise<ActivityParticipant | null> {
+    const [confirmed] = await db
+      .update(activityParticipants)
+      .set({ confirmBy: null })
+      .where(
+        and(
+          eq(activityParticipants.activityId, activityId),
+          eq(activityParticipants.userId, userId),
+          eq(activityParticipants.status, "accepted"),
+          gt(activityParticipants.confirmBy, now)
+        )
+      )
+      .returning();
+
+    return confirmed ?? null;
+  }
+
+  /**
+   * Release spots whose confirmation window has passed and offer them to the
+   * next players in line
+   */
+  async releaseExpiredPromotions(now: Date = new Date()): Promise<number> {
+    const scheduled = db
+      .select({ id: activities.id })
+      .from(activities)
+      .where(eq(activities.completionStatus, "scheduled"));
+
+    const expired = await db
+      .delete(activityParticipants)
+      .where(
+        and(
+          eq(activityParticipants.status, "accepted"),
+          isNotNull(activityParticipants.confirmBy),
+          lte(activityParticipants.confirmBy, now),
+          inArray(activityParticipants.activityId, scheduled)
+        )
+      )
+      .returning();
+
+    for (const participant of expired) {
+      const activity = await db.query.activities.findFirst({
+        where: eq(activities.id, participant.activityId),
+      });
+      if (!activity) continue;
+
+      await deltaTrackingService.trackChange({
+        entityType: "activity",
+        entityId: activity.id,
+        changeType: "delete",
+        newData: {
+          activityId: activity.id,
+          description: activity.description,
+          participant: { id: participant.userId },
+          action: "expire",
+        },
+        affectedUserId: participant.userId,
+        relatedEntityId: activity.id,
+        triggeredBy: activity.creatorId,
+        changeSource: "system",
+      });
+
+      await this.fillOpenSpots(activity.id, activity.creatorId, now);
+    }
+
+    if (expired.length > 0) {
+      console.log(`⌛ Released ${expired.length} unconfirmed waitlist spot(s)`);
+    }
+    return expired.length;
+  }
+
+  /**
+   * The activity's waitlist in promotion order
+   */
+  async getWaitlist(activityId: string): Promise<WaitlistEntry[]> {
+    const rows = await db
+      .select({
+        participantId: activityParticipants.id,
+        waitlistPosition: activityParticipants.waitlistPosition,
+        team: activityParticipants.team,
+        joinedAt: activityParticipants.joinedAt,
+        user: {
+          id: users.id,
+          username: users.username,
+          avatarUrl: users.avatarUrl,
+        },
+      })
+      .from(activityParticipants)
+      .innerJoin(users, eq(users.id, activityParticipants.userId))
+      .where(
+        and(
+          eq(activityParticipants.activityId, activityId),
+          eq(activityParticipants.status, "waitlisted")
+        )
+      )
+      .orderBy(asc(activityParticipants.waitlistPosition));
+
+    return rows.map((row, index) => ({
+      ...row,
+      place: index + 1,
+      waitlistPosition: row.waitlistPosition ?? 0,
+    }));
+  }
+
+  startScheduler(intervalMs: number = EXPIRY_CHECK_INTERVAL): void {
+    if (this.schedulerInterval) return;
+
+    this.schedulerInterval = setInterval(() => {
+      this.releaseExpiredPromotions().catch((error) =>
+        console.error("❌ Waitlist expiry check failed:", error)
+      );
+    }, intervalMs);
+  }
+
+  stopScheduler(): void {
+    if (this.schedulerInterval) {
+      clearInterval(this.schedulerInterval);
+      this.schedulerInterval = null;
+    }
+  }
+
+  private async placeOf(participation: ActivityParticipant): Promise<number> {
+    const [{ ahead }] = await db
+      .select({ ahead: count() })
+      .from(activityParticipants)
+      .where(
+        and(
+          eq(activityParticipants.activityId, participation.activityId),
+          eq(activityParticipants.status, "waitlisted"),
+          lt(activityParticipants.waitlistPosition, participation.waitlistPosition!)
+        )
+      );
+    return ahead + 1;
+  }
+}
+
+export const waitlistService = new WaitlistService();
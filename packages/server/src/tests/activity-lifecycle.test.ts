@@ -0,0 +1,131 @@
+// tests/activity-lifecycle.test.ts
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import { and, eq } from 'drizzle-orm';
+import { cleanupTestData, setupTestActivity } from './helpers/test-setup';
+import { db } from '../db/client';
+import { activities, activityParticipants, scheduledJobs } from '../db/schema';
+import {
+  ACTIVITY_JOB_TYPES,
+  activityLifecycleService
+} from '../services/activity-lifecycle.service';
+import { jobSchedulerService } from '../services/job-scheduler.service';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Activity lifecycle', () => {
+  let testData: any;
+  let start: Date;
+
+  beforeEach(async () => {
+    testData = await setupTestActivity({
+      activityType: 'Volleyball',
+      participants: 3,
+      eloRatings: [1200, 1200, 1200],
+      teamBased: false
+    });
+
+    // Turn the completed fixture into an upcoming one-hour activity
+    start = new Date(Date.now() + 24 * HOUR);
+    const [activity] = await db
+      .update(activities)
+      .set({ completionStatus: 'scheduled', dateTime: start, durationMinutes: 60 })
+      .where(eq(activities.id, testData.activity.id))
+      .returning();
+    testData.activity = activity;
+  });
+
+  afterEach(async () => {
+    await activityLifecycleService.unscheduleActivity(testData.activity.id);
+    await cleanupTestData(testData);
+  });
+
+  // Jobs left behind by other test files can fill a batch, so poll until nothing is due
+  const runAllDueJobs = async (now: Date) => {
+    while ((await jobSchedulerService.runDueJobs(now)) > 0);
+  };
+
+  const statusOf = async () =>
+    (await db.query.activities.findFirst({ where: eq(activities.id, testData.activity.id) }))!
+      .completionStatus;
+
+  test('schedules its jobs and moves them when the activity moves', async () => {
+    await activityLifecycleService.scheduleActivity(testData.activity);
+
+    const jobs = await db
+      .select()
+      .from(scheduledJobs)
+      .where(eq(scheduledJobs.entityId, testData.activity.id));
+    expect(jobs.map((job) => job.jobType).sort()).toEqual(
+      Object.values(ACTIVITY_JOB_TYPES).sort()
+    );
+
+    const later = new Date(start.getTime() + 3 * HOUR);
+    await activityLifecycleService.scheduleActivity({ ...testData.activity, dateTime: later });
+
+    const startJob = await db.query.scheduledJobs.findFirst({
+      where: and(
+        eq(scheduledJobs.entityId, testData.activity.id),
+        eq(scheduledJobs.jobType, ACTIVITY_JOB_TYPES.start)
+      )
+    });
+    expect(startJob!.runAt.toISOString()).toBe(later.toISOString());
+  });
+
+  test('due jobs start the activity and close it after the grace period', async () => {
+    await activityLifecycleService.scheduleActivity(testData.activity);
+
+    await runAllDueJobs(new Date(start.getTime() + 10 * 60 * 1000));
+    expect(await statusOf()).toBe('active');
+
+    await runAllDueJobs(new Date(start.getTime() + 72 * HOUR));
+    expect(await statusOf()).toBe('completed');
+
+    const pending = await db
+      .select()
+      .from(scheduledJobs)
+      .where(
+        and(eq(scheduledJobs.entityId, testData.activity.id), eq(scheduledJobs.status, 'pending'))
+      );
+    expect(pending).toHaveLength(0);
+  });
+
+  test('cancels activities below the minimum number of players', async () => {
+    await db
+      .delete(activityParticipants)
+      .where(eq(activityParticipants.userId, testData.users[2].id));
+
+    expect(await activityLifecycleService.cancelIfUnderfilled(testData.activity.id)).toBe(true);
+    expect(await statusOf()).toBe('cancelled');
+  });
+
+  test('leaves activities with enough players alone', async () => {
+    expect(await activityLifecycleService.cancelIfUnderfilled(testData.activity.id)).toBe(false);
+    expect(await statusOf()).toBe('scheduled');
+  });
+
+  test('flags accepted players who never checked in as no-shows', async () => {
+    const activity = { ...testData.activity, completionStatus: 'active' as const };
+    const during = new Date(start.getTime() + 5 * 60 * 1000);
+
+    for (const user of testData.users.slice(0, 2)) {
+      const result = await activityLifecycleService.checkIn(activity, user.id, during);
+      expect(result.success).toBe(true);
+    }
+
+    const { closed, noShowUserIds } = await activityLifecycleService.closeActivity(
+      testData.activity.id
+    );
+    expect(closed).toBe(true);
+    expect(noShowUserIds).toEqual([testData.users[2].id]);
+  });
+
+  test('check-in is closed until shortly before the start', async () => {
+    const result = await activityLifecycleService.checkIn(
+      testData.activity,
+      testData.users[1].id,
+      new Date(start.getTime() - 3 * HOUR)
+    );
+
+    expect(result.success).toBe(false);
+  });
+});
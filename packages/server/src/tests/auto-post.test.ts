@@ -0,0 +1,66 @@
+// tests/auto-post.test.ts
+import { describe, expect, test } from 'vitest';
+import { describeRecap, detectSkillMilestone } from '../services/auto-post.service';
+import { ratingTrend } from '../services/skill-raiting.service';
+
+describe('Automatic posts', () => {
+  test('recaps describe the result, the rating change and the top skills', () => {
+    const recap = describeRecap({
+      activityTypeName: 'Tennis',
+      finalResult: 'win',
+      placement: 1,
+      fieldSize: 2,
+      newELO: 1216,
+      change: 16,
+      topSkills: [{ name: 'Serve', averageRating: 8 }, { name: 'Footwork', averageRating: 7 }]
+    });
+
+    expect(recap).toBe('Won the match. Rating 1216 (+16). Top skills: Serve 8/10, Footwork 7/10.');
+  });
+
+  test('free-for-all recaps give the finishing position', () => {
+    const recap = describeRecap({
+      activityTypeName: 'Golf',
+      finalResult: 'loss',
+      placement: 3,
+      fieldSize: 6,
+      newELO: 1190,
+      change: -10,
+      topSkills: []
+    });
+
+    expect(recap).toBe('Finished 3rd of 6. Rating 1190 (-10).');
+  });
+
+  test('a milestone is the highest threshold crossed', () => {
+    const milestone = detectSkillMilestone(
+      { averageRating: 6, totalRatings: 4, trend: 'stable' },
+      { averageRating: 9, totalRatings: 5, trend: 'stable' }
+    );
+
+    expect(milestone).toEqual({ threshold: 9, startedImproving: false });
+  });
+
+  test('turning to improving is a milestone, staying there is not', () => {
+    const improving = { averageRating: 6, totalRatings: 8, trend: 'improving' };
+
+    expect(
+      detectSkillMilestone({ averageRating: 6, totalRatings: 7, trend: 'stable' }, improving)
+    ).toEqual({ threshold: null, startedImproving: true });
+    expect(detectSkillMilestone(improving, { ...improving, totalRatings: 9 })).toBeNull();
+  });
+
+  test('milestones wait for a few ratings', () => {
+    expect(
+      detectSkillMilestone(undefined, { averageRating: 8, totalRatings: 1, trend: 'stable' })
+    ).toBeNull();
+  });
+
+  test('trends compare the latest ratings with the earlier ones', () => {
+    expect(ratingTrend([8, 8, 7, 8, 8, 5, 6, 5])).toBe('improving');
+    expect(ratingTrend([4, 5, 4, 4, 5, 7, 7])).toBe('declining');
+    expect(ratingTrend([6, 6, 6, 6, 6, 6])).toBe('stable');
+    // Not enough history to compare against
+    expect(ratingTrend([9, 9, 9])).toBe('stable');
+  });
+});
@@ -1,6 +1,7 @@
 // tests/services/elo-calculation.test.ts
 import { describe, expect, test, beforeEach, afterEach } from 'vitest';
-import { ELOCalculationService, type ELOCalculationResult } from '../services/elo-calc.service';
+import { ELOCalculationService, explainELOChange, resolveActivityELOSettings, type ELOCalculationResult } from '../services/elo-calc.service';
+import { getRatingStrategy } from '../services/rating-strategy.service';
 import { cleanupTestData, setupTestActivity } from './helpers/test-setup';
 import { eq } from 'drizzle-orm';
 import { db } from '../db/client';
@@ -65,4 +66,137 @@ describe('ELO Calculation Service - Core Logic', () => {
     expect(upsetWinner?.eloChange).toBeGreaterThan(25);
     expect(upsetLoser?.eloChange).toBeLessThan(-15);
   });
-});
\ No newline at end of file
+});
+
+describe('ELO Calculation Service - Activity Type Settings', () => {
+  test('should read per-type settings from the JSONB column', () => {
+    const settings = resolveActivityELOSettings({
+      startingELO: 1000,
+      kFactor: { new: 32, established: 24, expert: 16 },
+      provisionalGames: 20,
+      minimumParticipants: 10,
+      teamBased: true,
+      allowDraws: false,
+      skillInfluence: 0.25
+    });
+
+    expect(settings.startingELO).toBe(1000);
+    expect(settings.kFactor.new).toBe(32);
+    expect(settings.teamBased).toBe(true);
+    expect(settings.allowDraws).toBe(false);
+    expect(settings.minimumParticipants).toBe(10);
+  });
+
+  test('should fall back to defaults for missing or invalid fields', () => {
+    const settings = resolveActivityELOSettings(
+      { startingELO: 'high', kFactor: { new: 500 }, skillInfluence: 0 },
+      'team_sports'
+    );
+
+    expect(settings.startingELO).toBe(1200);
+    expect(settings.kFactor.new).toBe(40);
+    expect(settings.kFactor.established).toBe(24);
+    expect(settings.skillInfluence).toBe(0);
+    expect(settings.teamBased).toBe(true);
+  });
+
+  test('should reject draws when the activity type does not allow them', async () => {
+    const service = new ELOCalculationService();
+    const settings = resolveActivityELOSettings({ allowDraws: false, teamBased: false });
+
+    await expect(service.calculateFromParticipants([
+      { userId: 'a', username: 'a', currentELO: 1200, gamesPlayed: 0, volatility: 0, finalResult: 'draw' },
+      { userId: 'b', username: 'b', currentELO: 1200, gamesPlayed: 0, volatility: 0, finalResult: 'draw' }
+    ], settings)).rejects.toThrow('Draws are not allowed');
+  });
+
+  test('should scale rating changes by the score margin', async () => {
+    const service = new ELOCalculationService();
+    const settings = resolveActivityELOSettings({ teamBased: false, skillInfluence: 0 });
+    const players = (marginMultiplier?: number) => [
+      { userId: 'a', username: 'a', currentELO: 1200, gamesPlayed: 0, volatility: 0, finalResult: 'win' as const, marginMultiplier },
+      { userId: 'b', username: 'b', currentELO: 1200, gamesPlayed: 0, volatility: 0, finalResult: 'loss' as const, marginMultiplier }
+    ];
+
+    const [close] = await service.calculateFromParticipants(players(), settings);
+    const [lopsided] = await service.calculateFromParticipants(players(1.5), settings);
+
+    expect(close.eloChange).toBe(20);
+    expect(lopsided.eloChange).toBe(30);
+  });
+});
+
+describe('ELO Calculation Service - Placement-based events', () => {
+  const service = new ELOCalculationService();
+  const settings = resolveActivityELOSettings({ teamBased: false, allowDraws: false, skillInfluence: 0 });
+  const field = (placements: number[]) =>
+    placements.map((placement, index) => ({
+      userId: `runner-${index}`,
+      username: `runner-${index}`,
+      currentELO: 1200,
+      gamesPlayed: 0,
+      volatility: 0,
+      finalResult: placement === 1 ? 'win' as const : 'loss' as const,
+      placement
+    }));
+
+  test('should rate every pair by finishing position', async () => {
+    const results = await service.calculateFromParticipants(field([1, 2, 3, 4]), settings);
+    const changes = results.map((r) => r.eloChange);
+
+    // Evenly rated field: each place down scores a third of a game less
+    expect(changes).toEqual([20, 7, -7, -20]);
+    expect(results[1].matchups.map((m) => m.score)).toEqual([0, 1, 1]);
+  });
+
+  test('should treat shared positions as ties', async () => {
+    const results = await service.calculateFromParticipants(field([1, 2, 2, 4]), settings);
+
+    expect(results[1].eloChange).toBe(results[2].eloChange);
+    expect(results[1].matchups.find((m) => m.opponent === 'runner-2')!.score).toBe(0.5);
+    expect(explainELOChange(results[1])).toBe(
+      'Finished 2nd of 4 (tied); beat 1, tied with 1, lost to 1 of 3 opponents; scored 0.50 against an expected 0.50 (K=40)'
+    );
+  });
+});
+
+describe('ELO Calculation Service - Rating Strategies', () => {
+  test('should match the Glicko-2 reference example', () => {
+    const settings = resolveActivityELOSettings({ ratingSystem: 'glicko2', glickoTau: 0.5 });
+    const strategy = getRatingStrategy(settings);
+
+    // Glickman's worked example: 1500/200 beats 1400/30, loses to 1550/100 and 1700/300
+    const update = strategy.rate(
+      { rating: 1500, ratingDeviation: 200, volatility: 0.06, gamesPlayed: 10 },
+      [
+        { playerRating: 1500, opponentRating: 1400, opponentDeviation: 30, score: 1 },
+        { playerRating: 1500, opponentRating: 1550, opponentDeviation: 100, score: 0 },
+        { playerRating: 1500, opponentRating: 1700, opponentDeviation: 300, score: 0 }
+      ],
+      settings
+    );
+
+    expect(strategy.name).toBe('glicko2');
+    expect(update.rating).toBe(1464);
+    expect(update.ratingDeviation).toBe(152);
+    expect(update.volatility).toBeCloseTo(0.06, 4);
+    expect(strategy.isProvisional({ ...update, gamesPlayed: 11 }, settings)).toBe(true);
+  });
+
+  test('should keep classic Elo as the default engine', () => {
+    const settings = resolveActivityELOSettings({ provisionalGames: 10 });
+    const strategy = getRatingStrategy(settings);
+
+    const update = strategy.rate(
+      { rating: 1200, ratingDeviation: 350, volatility: 0.06, gamesPlayed: 0 },
+      [{ playerRating: 1200, opponentRating: 1200, opponentDeviation: 350, score: 1 }],
+      settings
+    );
+
+    expect(strategy.name).toBe('elo');
+    expect(update.rating).toBe(1220);
+    expect(update.ratingDeviation).toBe(350);
+    expect(strategy.isProvisional({ ratingDeviation: 50, gamesPlayed: 9 }, settings)).toBe(true);
+    expect(strategy.isProvisional({ ratingDeviation: 350, gamesPlayed: 10 }, settings)).toBe(false);
+  });
+});
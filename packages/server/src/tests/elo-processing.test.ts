@@ -2,6 +2,9 @@
 import { describe, expect, test, beforeEach, afterEach } from 'vitest';
 import { ELOProcessingService } from '../services/elo-processing.service';
 import { cleanupTestData, setupTestActivity } from './helpers/test-setup';
+import { and, eq } from 'drizzle-orm';
+import { db } from '../db/client';
+import { activities, activityParticipants, activityTypes, eloHistory, userActivityTypeELOs } from '../db/schema';
 
 describe('ELO Processing Service - Race Conditions & Locks', () => {
   const service = new ELOProcessingService();
@@ -59,4 +62,121 @@ describe('ELO Processing Service - Race Conditions & Locks', () => {
     expect(result.error).toBeDefined();
     expect(result.participantsProcessed).toBe(0);
   });
-});
\ No newline at end of file
+});
+
+describe('ELO Processing Service - History', () => {
+  const service = new ELOProcessingService();
+  let testData: any;
+
+  beforeEach(async () => {
+    testData = await setupTestActivity({
+      activityType: 'Tennis',
+      participants: 2,
+      eloRatings: [1300, 1200],
+      teamBased: false
+    });
+  });
+
+  afterEach(async () => {
+    await cleanupTestData(testData);
+  });
+
+  test('should write one history row per participant', async () => {
+    const result = await service.onActivityCompletion({
+      activityId: testData.activity.id,
+      results: [
+        { userId: testData.users[0].id, finalResult: 'win' as const },
+        { userId: testData.users[1].id, finalResult: 'loss' as const }
+      ]
+    });
+    expect(result.success).toBe(true);
+
+    const rows = await db
+      .select()
+      .from(eloHistory)
+      .where(eq(eloHistory.activityId, testData.activity.id));
+
+    expect(rows).toHaveLength(2);
+    for (const change of result.eloChanges) {
+      const row = rows.find(r => r.userId === change.userId);
+      expect(row).toBeDefined();
+      expect(row!.oldELO).toBe(change.oldELO);
+      expect(row!.newELO).toBe(change.newELO);
+      expect(row!.eloChange).toBe(change.change);
+      expect(row!.kFactor).toBeGreaterThan(0);
+    }
+  });
+
+  test('should keep the history chain intact when reprocessing', async () => {
+    const [winner, loser] = testData.users;
+    await db
+      .update(activityTypes)
+      .set({ defaultELOSettings: { ...testData.activityType.defaultELOSettings, ratingSystem: 'glicko2' } })
+      .where(eq(activityTypes.id, testData.activityType.id));
+
+    const first = await service.onActivityCompletion({
+      activityId: testData.activity.id,
+      results: [
+        { userId: winner.id, finalResult: 'win' as const },
+        { userId: loser.id, finalResult: 'loss' as const }
+      ]
+    });
+    expect(first.success).toBe(true);
+
+    // A rematch whose processing never ran
+    const [rematch] = await db.insert(activities).values({
+      publicId: crypto.randomUUID(),
+      activityTypeId: testData.activityType.id,
+      creatorId: winner.id,
+      description: 'Rematch',
+      location: 'Test Location',
+      dateTime: new Date(Date.now() - 1800000),
+      maxParticipants: 2,
+      isELORated: true,
+      completionStatus: 'completed'
+    }).returning();
+    await db.insert(activityParticipants).values([
+      { activityId: rematch.id, userId: winner.id, status: 'accepted', finalResult: 'loss' },
+      { activityId: rematch.id, userId: loser.id, status: 'accepted', finalResult: 'win' }
+    ]);
+
+    try {
+      const ratingOf = async (userId: string) => {
+        const [rating] = await db
+          .select()
+          .from(userActivityTypeELOs)
+          .where(and(eq(userActivityTypeELOs.userId, userId), eq(userActivityTypeELOs.activityTypeId, testData.activityType.id)));
+        return rating;
+      };
+      const before = await ratingOf(winner.id);
+
+      const reprocessed = await service.reprocessActivity(rematch.id);
+      expect(reprocessed.success).toBe(true);
+
+      // Each rematch row starts where the first match left off
+      const rows = await db.select().from(eloHistory).where(eq(eloHistory.activityId, rematch.id));
+      expect(rows).toHaveLength(2);
+      for (const change of first.eloChanges) {
+        expect(rows.find(r => r.userId === change.userId)!.oldELO).toBe(change.newELO);
+      }
+
+      // Rated by the type's Glicko-2 strategy, which also moves the deviation
+      const after = await ratingOf(winner.id);
+      expect(after.gamesPlayed).toBe(before.gamesPlayed + 1);
+      expect(after.ratingDeviation).not.toBe(before.ratingDeviation);
+
+      // An activity that already moved ratings is not applied twice
+      const again = await service.reprocessActivity(testData.activity.id);
+      expect(again.success).toBe(false);
+      expect(await ratingOf(winner.id)).toMatchObject({ eloScore: after.eloScore, gamesPlayed: after.gamesPlayed });
+
+      const firstRows = await db.select().from(eloHistory).where(eq(eloHistory.activityId, testData.activity.id));
+      for (const change of first.eloChanges) {
+        expect(firstRows.find(r => r.userId === change.userId)).toMatchObject({ oldELO: change.oldELO, newELO: change.newELO });
+      }
+    } finally {
+      await db.delete(activityParticipants).where(eq(activityParticipants.activityId, rematch.id));
+      await db.delete(activities).where(eq(activities.id, rematch.id));
+    }
+  });
+});
@@ -1,11 +1,33 @@
 import { Hono } from "hono";
+import { authRouter } from "../../routes/auth.router";
 import { deltaRouter } from "../../routes/delta.router";
 import enhancedActivitiesRouter from "../../routes/enhanced-activities.router";
 import { skillRatingRouter } from "../../routes/skill-rating.router";
+import { activityTypesRouter } from "../../routes/activity-types.router";
+import { notificationsRouter } from "../../routes/notifications.router";
+import { usersRouter } from "../../routes/users.router";
+import { venuesRouter } from "../../routes/venues.router";
+import { activitySeriesRouter } from "../../routes/activity-series.router";
+import { resultDisputesRouter } from "../../routes/result-disputes.router";
+import { activityTemplatesRouter } from "../../routes/activity-templates.router";
+import { feedRouter } from "../../routes/feed.router";
+import { teamsRouter } from "../../routes/team.router";
+import { leaguesRouter } from "../../routes/leagues.router";
 
 export const testApp = new Hono();
 
 // Mount routers with API prefix to match actual app
+testApp.route('/api/auth', authRouter);
 testApp.route('/api/delta', deltaRouter);
 testApp.route('/api/activities', enhancedActivitiesRouter);
-testApp.route('/api/skills', skillRatingRouter);
\ No newline at end of file
+testApp.route('/api/activity-types', activityTypesRouter);
+testApp.route('/api/activity-series', activitySeriesRouter);
+testApp.route('/api/activity-templates', activityTemplatesRouter);
+testApp.route('/api/result-disputes', resultDisputesRouter);
+testApp.route('/api/skills', skillRatingRouter);
+testApp.route('/api/notifications', notificationsRouter);
+testApp.route('/api/feed', feedRouter);
+testApp.route('/api/teams', teamsRouter);
+testApp.route('/api/leagues', leaguesRouter);
+testApp.route('/api/users', usersRouter);
+testApp.route('/api/venues', venuesRouter);
\ No newline at end of file
@@ -1,15 +1,21 @@
 
-import { eq } from 'drizzle-orm';
+import { eq, or } from 'drizzle-orm';
 import { activities, activityParticipants, activityTypes, skillDefinitions, userActivitySkillRatings, userActivityTypeELOs, users } from '../../db/schema';
 import { db } from '../../db/client';
+import { deltaSummaries, entityChangeLog, userDeltaCursors } from '../../db/delta-tracking.schema';
+
+// Unique per call, so helpers can run several times within the same millisecond
+const uniqueSuffix = () => crypto.randomUUID().slice(0, 8);
 
 export async function createTestUsers(count: number) {
   const testUsers = [];
   for (let i = 0; i < count; i++) {
+    const suffix = uniqueSuffix();
     const [user] = await db.insert(users).values({
-      username: `test_user_${i}_${Date.now()}`,
-      email: `test${i}_${Date.now()}@test.com`,
-      role: 'user'
+      username: `test_user_${i}_${suffix}`,
+      email: `test${i}_${suffix}@test.com`,
+      role: 'user',
+      emailVerifiedAt: new Date()
     }).returning();
     testUsers.push(user);
   }
@@ -27,7 +33,7 @@ export async function setupTestActivity(config: {
   
   const [activityType] = await db.insert(activityTypes).values({
     id: crypto.randomUUID(),
-    name: `Test ${config.activityType}`,
+    name: `Test ${config.activityType} ${uniqueSuffix()}`,
     category: 'team_sports',
     description: `Test ${config.activityType} for testing`,
     isSoloPerformable: false,
@@ -56,7 +62,7 @@ export async function setupTestActivity(config: {
 
   const [activity] = await db.insert(activities).values({
     // id: crypto.randomUUID(),
-    publicId: `test-${Date.now()}`,
+    publicId: crypto.randomUUID(),
     activityTypeId: activityType.id,
     creatorId: users[0].id,
     description: 'Test activity',
@@ -139,6 +145,11 @@ export async function cleanupTestData(testData: any) {
 
     if (testData.users?.length > 0) {
       for (const user of testData.users) {
+        // Delta tracking rows reference users without cascading
+        await db.delete(entityChangeLog)
+          .where(or(eq(entityChangeLog.affectedUserId, user.id), eq(entityChangeLog.triggeredBy, user.id)));
+        await db.delete(userDeltaCursors).where(eq(userDeltaCursors.userId, user.id));
+        await db.delete(deltaSummaries).where(eq(deltaSummaries.userId, user.id));
         await db.delete(users).where(eq(users.id, user.id));
       }
     }
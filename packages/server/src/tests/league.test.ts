@@ -0,0 +1,90 @@
+// tests/league.test.ts
+import { describe, expect, test } from 'vitest';
+import { computeStandings, roundRobinSchedule, type LeagueResult } from '../services/league.service';
+
+describe('League schedule', () => {
+  const pairings = (rounds: [string, string][][]) =>
+    rounds.flat().map(([home, away]) => [home, away].sort().join('-'));
+
+  test('every team meets every other once per round-robin', () => {
+    const teamIds = ['a', 'b', 'c', 'd', 'e', 'f'];
+    const rounds = roundRobinSchedule(teamIds, 'round_robin');
+
+    expect(rounds).toHaveLength(5);
+    for (const pairs of rounds) {
+      expect(new Set(pairs.flat()).size).toBe(6);
+    }
+    expect(new Set(pairings(rounds)).size).toBe(15);
+  });
+
+  test('an odd number of teams gives each team a bye', () => {
+    const rounds = roundRobinSchedule(['a', 'b', 'c', 'd', 'e'], 'round_robin');
+
+    expect(rounds).toHaveLength(5);
+    expect(rounds.every((pairs) => pairs.length === 2)).toBe(true);
+    expect(new Set(pairings(rounds)).size).toBe(10);
+  });
+
+  test('the second half of a double round-robin swaps home and away', () => {
+    const rounds = roundRobinSchedule(['a', 'b', 'c', 'd'], 'double_round_robin');
+
+    expect(rounds).toHaveLength(6);
+    const home = rounds.flat().map(([h, a]) => `${h}-${a}`);
+    expect(new Set(home).size).toBe(12);
+  });
+});
+
+describe('League standings', () => {
+  const points = { pointsForWin: 3, pointsForDraw: 1, pointsForLoss: 0 };
+  const teamList = [
+    { id: 'a', name: 'Ajax' },
+    { id: 'b', name: 'Benfica' },
+    { id: 'c', name: 'Celtic' }
+  ];
+
+  const match = (home: string, away: string, homeGoals: number, awayGoals: number): LeagueResult => ({
+    homeTeamId: home,
+    awayTeamId: away,
+    homeGoals,
+    awayGoals,
+    homeResult: homeGoals > awayGoals ? 'win' : homeGoals < awayGoals ? 'loss' : 'draw'
+  });
+
+  test('teams are ranked by points, then goal difference', () => {
+    const table = computeStandings(
+      teamList,
+      [match('a', 'b', 2, 0), match('b', 'c', 1, 1), match('c', 'a', 3, 0)],
+      points
+    );
+
+    expect(table.map((row) => row.team.id)).toEqual(['c', 'a', 'b']);
+    expect(table[0]).toMatchObject({ position: 1, played: 2, won: 1, drawn: 1, points: 4, goalDifference: 3 });
+    expect(table[1].form).toEqual(['W', 'L']);
+  });
+
+  test('a three-way tie head-to-head cannot split falls back to names', () => {
+    const table = computeStandings(
+      teamList,
+      [match('a', 'c', 1, 0), match('b', 'a', 1, 0), match('c', 'b', 1, 0)],
+      points
+    );
+
+    expect(table.map((row) => row.team.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  test('head-to-head decides between two level teams', () => {
+    const table = computeStandings(
+      [...teamList, { id: 'd', name: 'Dynamo' }],
+      [
+        match('a', 'b', 0, 1),
+        match('a', 'c', 1, 0),
+        match('b', 'd', 0, 1),
+        match('c', 'd', 0, 0)
+      ],
+      points
+    );
+
+    // Ajax and Benfica are level on points, goal difference and goals, but Benfica won their match
+    expect(table.map((row) => row.team.id)).toEqual(['d', 'b', 'a', 'c']);
+  });
+});
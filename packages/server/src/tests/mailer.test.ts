@@ -0,0 +1,111 @@
+// tests/mailer.test.ts
+import { describe, expect, test, vi } from 'vitest';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { FileMailer, SmtpMailer, createMailer } from '../lib/mailer';
+
+// Accepts one SMTP conversation and collects what the client sent after DATA
+const startFakeSmtpServer = () =>
+  new Promise<{ port: number; received: Promise<{ commands: string[]; data: string }>; close: () => void }>((resolve) => {
+    let finish: (value: { commands: string[]; data: string }) => void;
+    const received = new Promise<{ commands: string[]; data: string }>((done) => (finish = done));
+
+    const server = net.createServer((socket) => {
+      const commands: string[] = [];
+      let buffer = '';
+      let data = '';
+      let inData = false;
+
+      socket.setEncoding('utf8');
+      socket.write('220 fake.smtp ESMTP\r\n');
+      socket.on('data', (chunk: string) => {
+        buffer += chunk;
+        let index: number;
+        while ((index = buffer.indexOf('\r\n')) !== -1) {
+          const line = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+
+          if (inData) {
+            if (line === '.') {
+              inData = false;
+              socket.write('250 queued\r\n');
+              finish({ commands, data });
+            } else {
+              data += `${line}\n`;
+            }
+            continue;
+          }
+
+          commands.push(line);
+          const verb = line.split(' ')[0].toUpperCase();
+          if (verb === 'EHLO') socket.write('250-fake.smtp\r\n250 8BITMIME\r\n');
+          else if (verb === 'DATA') {
+            inData = true;
+            socket.write('354 go ahead\r\n');
+          } else if (verb === 'QUIT') {
+            socket.end('221 bye\r\n');
+          } else socket.write('250 ok\r\n');
+        }
+      });
+    });
+
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      resolve({ port, received, close: () => server.close() });
+    });
+  });
+
+describe('Mailer', () => {
+  test('SmtpMailer delivers the message to the relay', async () => {
+    const server = await startFakeSmtpServer();
+
+    try {
+      const mailer = new SmtpMailer({
+        host: '127.0.0.1',
+        port: server.port,
+        secure: false,
+        from: 'HH App <no-reply@hh.test>',
+        timeoutMs: 5000
+      });
+      await mailer.send({ to: 'player@hh.test', subject: 'Verify your email address', text: 'Hello there' });
+
+      const { commands, data } = await server.received;
+      expect(commands).toContain('MAIL FROM:<no-reply@hh.test>');
+      expect(commands).toContain('RCPT TO:<player@hh.test>');
+      expect(data).toContain('Subject: Verify your email address');
+      expect(data).toContain('Hello there');
+    } finally {
+      server.close();
+    }
+  });
+
+  test('FileMailer writes .eml files and never logs the body', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'hh-mail-'));
+    const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    try {
+      const mailer = new FileMailer(directory);
+      await mailer.send({ to: 'player@hh.test', subject: 'Reset your password', text: 'token=secret-reset-token' });
+
+      expect(mailer.lastMessageTo('player@hh.test')?.text).toBe('token=secret-reset-token');
+      expect(log.mock.calls.flat().join(' ')).not.toContain('secret-reset-token');
+
+      const [file] = await fs.readdir(directory);
+      expect(file).toMatch(/\.eml$/);
+      const eml = await fs.readFile(path.join(directory, file), 'utf8');
+      expect(eml).toContain('Subject: Reset your password');
+      expect(eml).toContain('token=secret-reset-token');
+    } finally {
+      log.mockRestore();
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  test('createMailer only uses SMTP outside of tests', () => {
+    expect(createMailer({ SMTP_HOST: 'smtp.hh.test', NODE_ENV: 'production' })).toBeInstanceOf(SmtpMailer);
+    expect(createMailer({ SMTP_HOST: 'smtp.hh.test', NODE_ENV: 'test' })).toBeInstanceOf(FileMailer);
+    expect(createMailer({})).toBeInstanceOf(FileMailer);
+  });
+});
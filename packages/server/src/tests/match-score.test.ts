@@ -0,0 +1,72 @@
+// tests/match-score.test.ts
+import { describe, expect, test } from 'vitest';
+import { outcomesFromScore, scoreMargin } from '../utils/match-score';
+
+const players = [
+  { userId: 'a', team: 'Red' },
+  { userId: 'b', team: 'Red' },
+  { userId: 'c', team: 'Blue' },
+  { userId: 'd', team: 'Blue' }
+];
+
+const outcomeOf = (outcome: ReturnType<typeof outcomesFromScore>, userId: string) => {
+  if (!outcome.success) throw new Error(outcome.error);
+  return outcome.results.find((result) => result.userId === userId)!;
+};
+
+describe('Match scores', () => {
+  test('the team winning more sets wins, by the game difference', () => {
+    const score = {
+      format: 'sets' as const,
+      sets: [{ Red: 6, Blue: 3 }, { Red: 4, Blue: 6 }, { Red: 6, Blue: 1 }]
+    };
+
+    const outcome = outcomesFromScore(score, players);
+
+    expect(outcomeOf(outcome, 'a')).toMatchObject({ finalResult: 'win', placement: 1 });
+    expect(outcomeOf(outcome, 'd')).toMatchObject({ finalResult: 'loss', placement: 2 });
+    expect(scoreMargin(score, 'Red')).toBe(6);
+  });
+
+  test('level goals are a draw', () => {
+    const outcome = outcomesFromScore({ format: 'goals', goals: { Red: 2, Blue: 2 } }, players);
+
+    expect(outcomeOf(outcome, 'a').finalResult).toBe('draw');
+    expect(outcomeOf(outcome, 'c').finalResult).toBe('draw');
+  });
+
+  test('times rank fastest first and share tied positions', () => {
+    const outcome = outcomesFromScore(
+      {
+        format: 'time',
+        entries: [
+          { userId: 'a', seconds: 61.2 },
+          { userId: 'b', seconds: 64 },
+          { userId: 'c', seconds: 64 },
+          { userId: 'd', seconds: 70.5 }
+        ]
+      },
+      players
+    );
+
+    expect(outcomeOf(outcome, 'a')).toMatchObject({ finalResult: 'win', placement: 1 });
+    expect(outcomeOf(outcome, 'b').placement).toBe(2);
+    expect(outcomeOf(outcome, 'c').placement).toBe(2);
+    expect(outcomeOf(outcome, 'd').placement).toBe(4);
+  });
+
+  test('rejects scores for sides that did not play', () => {
+    const outcome = outcomesFromScore({ format: 'goals', goals: { Red: 1, Green: 0 } }, players);
+
+    expect(outcome).toEqual({
+      success: false,
+      error: 'Score includes sides that did not play: Green'
+    });
+  });
+
+  test('finishing orders have no margin', () => {
+    const score = { format: 'placement' as const, entries: [{ userId: 'a', position: 1 }] };
+
+    expect(scoreMargin(score, 'a')).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+// tests/routers/account-deletion.test.ts
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { cleanupTestData, setupTestActivity } from '../helpers/test-setup';
+import { signJWT } from '../../auth/jwt';
+import { testApp } from '../helpers/test-app';
+import { db } from '../../db/client';
+import { eloHistory, users } from '../../db/schema';
+import { ELOProcessingService } from '../../services/elo-processing.service';
+import { accountService } from '../../services/account.service';
+import { sessionService } from '../../auth/session';
+
+describe('Users Router - Account Deletion', () => {
+  let testData: any;
+  let authToken: string;
+
+  beforeEach(async () => {
+    testData = await setupTestActivity({
+      activityType: 'Tennis',
+      participants: 2,
+      eloRatings: [1200, 1200],
+      teamBased: false
+    });
+
+    authToken = await signJWT({
+      userId: testData.users[0].id,
+      username: testData.users[0].username,
+      email: testData.users[0].email,
+      role: testData.users[0].role
+    });
+  });
+
+  afterEach(async () => {
+    await cleanupTestData(testData);
+  });
+
+  const request = (method: string, path: string, body?: unknown) =>
+    testApp.request(`/api/users${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${authToken}`
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+
+  test('should lock the account while deletion is pending', async () => {
+    const response = await request('DELETE', '/me', {});
+    expect(response.status).toBe(200);
+
+    const [user] = await db.select().from(users).where(eq(users.id, testData.users[0].id));
+    expect(user.status).toBe('pending_deletion');
+    expect(user.deletionScheduledAt!.getTime()).toBeGreaterThan(Date.now());
+
+    const blocked = await request('GET', '/me/notification-preferences');
+    expect(blocked.status).toBe(403);
+
+    expect(await accountService.cancelDeletion(testData.users[0].id)).toBe(true);
+    const restored = await request('GET', '/me/notification-preferences');
+    expect(restored.status).toBe(200);
+  });
+
+  test('should reject sessions of suspended accounts', async () => {
+    const userId = testData.users[0].id;
+    const { accessToken } = await sessionService.createSession(userId);
+    expect((await sessionService.validateSession(accessToken)).valid).toBe(true);
+
+    await db.update(users).set({ status: 'suspended' }).where(eq(users.id, userId));
+
+    expect(await sessionService.validateSession(accessToken)).toMatchObject({
+      valid: false,
+      error: 'Account is suspended'
+    });
+    await expect(sessionService.createSession(userId)).rejects.toThrow('Account is suspended');
+  });
+
+  test('should anonymize the account without touching opponents\' history', async () => {
+    await new ELOProcessingService().onActivityCompletion({
+      activityId: testData.activity.id,
+      results: [
+        { userId: testData.users[0].id, finalResult: 'win' as const },
+        { userId: testData.users[1].id, finalResult: 'loss' as const }
+      ]
+    });
+
+    await accountService.requestDeletion(testData.users[0].id, new Date(Date.now() - 31 * 24 * 60 * 60 * 1000));
+    const purged = await accountService.purgeDueAccounts();
+    expect(purged).toContain(testData.users[0].id);
+
+    const [tombstone] = await db.select().from(users).where(eq(users.id, testData.users[0].id));
+    expect(tombstone.username).toBeNull();
+    expect(tombstone.email).not.toBe(testData.users[0].email);
+    expect(tombstone.deletedAt).not.toBeNull();
+
+    const history = await db
+      .select()
+      .from(eloHistory)
+      .where(eq(eloHistory.activityId, testData.activity.id));
+    expect(history.map(h => h.userId)).toEqual([testData.users[1].id]);
+  });
+});
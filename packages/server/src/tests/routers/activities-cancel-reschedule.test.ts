@@ -0,0 +1,165 @@
+// tests/routers/activities-cancel-reschedule.test.ts
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import { and, eq } from 'drizzle-orm';
+import { cleanupTestData, setupTestActivity } from '../helpers/test-setup';
+import { signJWT } from '../../auth/jwt';
+import { testApp } from '../helpers/test-app';
+import { db } from '../../db/client';
+import {
+  activities,
+  activityChatMessages,
+  activityChatRooms,
+  activityParticipants
+} from '../../db/schema';
+import { activityLifecycleService } from '../../services/activity-lifecycle.service';
+import { waitlistService } from '../../services/waitlist.service';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Activities Router - Cancel and reschedule', () => {
+  let testData: any;
+  let tokens: string[];
+
+  beforeEach(async () => {
+    testData = await setupTestActivity({
+      activityType: 'Tennis',
+      participants: 3,
+      eloRatings: [1200, 1200, 1200],
+      teamBased: false
+    });
+
+    // Turn the completed fixture into an upcoming activity
+    await db
+      .update(activities)
+      .set({ completionStatus: 'scheduled', dateTime: new Date(Date.now() + 48 * HOUR) })
+      .where(eq(activities.id, testData.activity.id));
+
+    tokens = await Promise.all(
+      testData.users.map((user: any) =>
+        signJWT({ userId: user.id, username: user.username, email: user.email, role: user.role })
+      )
+    );
+  });
+
+  afterEach(async () => {
+    await activityLifecycleService.unscheduleActivity(testData.activity.id);
+    await db.delete(activityChatRooms).where(eq(activityChatRooms.activityId, testData.activity.id));
+    await cleanupTestData(testData);
+  });
+
+  const request = (userIndex: number, path: string, body: unknown) =>
+    testApp.request(path, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${tokens[userIndex]}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body)
+    });
+
+  const chatMessages = async () => {
+    const room = await db.query.activityChatRooms.findFirst({
+      where: eq(activityChatRooms.activityId, testData.activity.id)
+    });
+    return room
+      ? db.select().from(activityChatMessages).where(eq(activityChatMessages.roomId, room.id))
+      : [];
+  };
+
+  const participationOf = async (userIndex: number) =>
+    db.query.activityParticipants.findFirst({
+      where: and(
+        eq(activityParticipants.activityId, testData.activity.id),
+        eq(activityParticipants.userId, testData.users[userIndex].id)
+      )
+    });
+
+  test('cancelling keeps the activity and its participants', async () => {
+    const res = await request(0, `/api/activities/${testData.activity.id}/cancel`, {
+      reason: 'Courts are flooded'
+    });
+    expect(res.status).toBe(200);
+
+    const activity = await db.query.activities.findFirst({
+      where: eq(activities.id, testData.activity.id)
+    });
+    expect(activity!.completionStatus).toBe('cancelled');
+    expect(activity!.cancellationReason).toBe('Courts are flooded');
+    expect(await participationOf(1)).toBeDefined();
+
+    const [message] = await chatMessages();
+    expect(message.content).toContain('Courts are flooded');
+    expect(message.messageType).toBe('system');
+
+    // Cancelling twice is refused
+    const again = await request(0, `/api/activities/${testData.activity.id}/cancel`, {
+      reason: 'Still flooded'
+    });
+    expect(again.status).toBe(400);
+  });
+
+  test('only the creator can cancel, and a reason is required', async () => {
+    expect((await request(1, `/api/activities/${testData.activity.id}/cancel`, { reason: 'No' })).status).toBe(404);
+    expect((await request(0, `/api/activities/${testData.activity.id}/cancel`, { reason: ' ' })).status).toBe(400);
+  });
+
+  test('rescheduling asks accepted participants to confirm again', async () => {
+    const newTime = new Date(Date.now() + 72 * HOUR);
+
+    const res = await request(0, `/api/activities/${testData.activity.id}/reschedule`, {
+      dateTime: newTime.toISOString(),
+      reason: 'Rain forecast'
+    });
+    expect(res.status).toBe(200);
+    const { data } = await res.json();
+    expect(data.reconfirming.sort()).toEqual(
+      [testData.users[1].id, testData.users[2].id].sort()
+    );
+
+    // The organizer does not need to confirm their own change
+    expect((await participationOf(0))!.confirmBy).toBeNull();
+    expect((await participationOf(1))!.confirmBy).not.toBeNull();
+
+    const confirmed = await request(1, `/api/activities/${testData.activity.id}/confirm-spot`, {});
+    expect(confirmed.status).toBe(200);
+    expect((await participationOf(1))!.confirmBy).toBeNull();
+
+    // Anyone who stays silent loses their spot once the window passes
+    await waitlistService.releaseExpiredPromotions(new Date(Date.now() + 25 * HOUR));
+    expect(await participationOf(1)).toBeDefined();
+    expect(await participationOf(2)).toBeUndefined();
+
+    const messages = await chatMessages();
+    expect(messages.some((message: any) => message.content.includes('Rain forecast'))).toBe(true);
+  });
+
+  test('editing the activity cannot move it quietly', async () => {
+    const original = await db.query.activities.findFirst({
+      where: eq(activities.id, testData.activity.id)
+    });
+
+    const res = await testApp.request(`/api/activities/${testData.activity.id}`, {
+      method: 'PUT',
+      headers: {
+        'Authorization': `Bearer ${tokens[0]}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ dateTime: new Date(Date.now() + 72 * HOUR).toISOString() })
+    });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toContain('reschedule');
+
+    const activity = await db.query.activities.findFirst({
+      where: eq(activities.id, testData.activity.id)
+    });
+    expect(activity!.dateTime).toEqual(original!.dateTime);
+  });
+
+  test('cannot reschedule into the past', async () => {
+    const res = await request(0, `/api/activities/${testData.activity.id}/reschedule`, {
+      dateTime: new Date(Date.now() - HOUR).toISOString()
+    });
+
+    expect(res.status).toBe(400);
+  });
+});
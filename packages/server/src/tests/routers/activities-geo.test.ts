@@ -0,0 +1,145 @@
+// tests/routers/activities-geo.test.ts
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import { eq, inArray } from 'drizzle-orm';
+import { cleanupTestData, setupTestActivity } from '../helpers/test-setup';
+import { signJWT } from '../../auth/jwt';
+import { testApp } from '../helpers/test-app';
+import { db } from '../../db/client';
+import { activities, users, venues } from '../../db/schema';
+import { matchmakingService } from '../../services/matchmaking.service';
+
+// Sofia city centre
+const SOFIA = { lat: 42.6977, lng: 23.3219 };
+
+describe('Activities Router - Geolocation', () => {
+  let testData: any;
+  let authToken: string;
+  let venueIds: string[];
+  let activityIds: string[];
+
+  beforeEach(async () => {
+    testData = await setupTestActivity({
+      activityType: 'Padel',
+      participants: 2,
+      eloRatings: [1200, 1200],
+      teamBased: false
+    });
+
+    authToken = await signJWT({
+      userId: testData.users[0].id,
+      username: testData.users[0].username,
+      email: testData.users[0].email,
+      role: testData.users[0].role
+    });
+
+    const [centre, suburb, plovdiv] = await db.insert(venues).values([
+      { name: 'Centre Courts', latitude: 42.6953, longitude: 23.3239 },
+      { name: 'Suburb Club', latitude: 42.6500, longitude: 23.3850 },
+      { name: 'Plovdiv Arena', latitude: 42.1354, longitude: 24.7453 }
+    ]).returning();
+    venueIds = [centre.id, suburb.id, plovdiv.id];
+
+    const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+    const created = await db.insert(activities).values(
+      [plovdiv, suburb, centre].map((venue) => ({
+        activityTypeId: testData.activityType.id,
+        creatorId: testData.users[0].id,
+        description: `Game at ${venue.name}`,
+        location: venue.name,
+        venueId: venue.id,
+        dateTime: tomorrow,
+        maxParticipants: 4
+      }))
+    ).returning();
+    activityIds = created.map((a) => a.id);
+  });
+
+  afterEach(async () => {
+    await db.delete(activities).where(inArray(activities.id, activityIds));
+    await db.delete(venues).where(inArray(venues.id, venueIds));
+    await cleanupTestData(testData);
+  });
+
+  const listActivities = (query: Record<string, string | number>) =>
+    testApp.request(
+      `/api/activities?${new URLSearchParams({
+        activityTypeId: testData.activityType.id,
+        ...Object.fromEntries(Object.entries(query).map(([k, v]) => [k, String(v)]))
+      })}`,
+      { headers: { 'Authorization': `Bearer ${authToken}` } }
+    );
+
+  test('filters by radius and sorts nearest first', async () => {
+    const res = await listActivities({ ...SOFIA, radiusKm: 20, sortBy: 'distance' });
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    const names = body.data.activities.map((a: any) => a.venue.name);
+    expect(names).toEqual(['Centre Courts', 'Suburb Club']);
+    expect(body.data.pagination.totalCount).toBe(2);
+
+    const [near, far] = body.data.activities;
+    expect(near.distanceKm).toBeLessThan(1);
+    expect(far.distanceKm).toBeGreaterThan(5);
+    expect(far.distanceKm).toBeLessThan(10);
+  });
+
+  test('reports distance without a radius and keeps activities without a venue', async () => {
+    const res = await listActivities({ ...SOFIA, sortBy: 'distance' });
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    const rows = body.data.activities;
+    expect(rows).toHaveLength(4);
+    // The seeded activity has no venue, so it sorts last with no distance
+    expect(rows[3].venue).toBeNull();
+    expect(rows[3].distanceKm).toBeNull();
+    // Sofia to Plovdiv is roughly 130 km
+    expect(rows[2].venue.name).toBe('Plovdiv Arena');
+    expect(rows[2].distanceKm).toBeGreaterThan(120);
+    expect(rows[2].distanceKm).toBeLessThan(140);
+  });
+
+  test('rejects a radius without a complete point', async () => {
+    const res = await listActivities({ lat: SOFIA.lat, radiusKm: 10 });
+    expect(res.status).toBe(400);
+  });
+
+  test('rejects an unknown venue when creating an activity', async () => {
+    const res = await testApp.request('/api/activities', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${authToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        activityTypeId: testData.activityType.id,
+        description: 'Nowhere game',
+        venueId: crypto.randomUUID(),
+        dateTime: new Date(Date.now() + 3600000).toISOString()
+      })
+    });
+
+    expect(res.status).toBe(404);
+  });
+
+  test('recommendations prefer activities near the user home area', async () => {
+    const player = testData.users[1];
+    await db.update(users)
+      .set({ homeLatitude: SOFIA.lat, homeLongitude: SOFIA.lng })
+      .where(eq(users.id, player.id));
+
+    const recommendations = await matchmakingService.getActivityRecommendations(
+      player.id,
+      testData.activityType.id
+    );
+
+    expect(recommendations.map((r) => r.location)).toEqual([
+      'Centre Courts',
+      'Suburb Club',
+      'Plovdiv Arena'
+    ]);
+    expect(recommendations[0].reasons).toContain('Close to you');
+    expect(recommendations[2].reasons).not.toContain('Close to you');
+  });
+});
@@ -0,0 +1,153 @@
+// tests/routers/activities-waitlist.test.ts
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import { and, eq } from 'drizzle-orm';
+import { cleanupTestData, setupTestActivity } from '../helpers/test-setup';
+import { signJWT } from '../../auth/jwt';
+import { testApp } from '../helpers/test-app';
+import { db } from '../../db/client';
+import { activities, activityParticipants } from '../../db/schema';
+import { waitlistService } from '../../services/waitlist.service';
+
+describe('Activities Router - Waitlist', () => {
+  let testData: any;
+  let tokens: string[];
+  let activityId: string | undefined;
+
+  beforeEach(async () => {
+    testData = await setupTestActivity({
+      activityType: 'Tennis',
+      participants: 4,
+      eloRatings: [1200, 1200, 1200, 1200],
+      teamBased: false
+    });
+
+    tokens = await Promise.all(
+      testData.users.map((user: any) =>
+        signJWT({ userId: user.id, username: user.username, email: user.email, role: user.role })
+      )
+    );
+    activityId = undefined;
+  });
+
+  afterEach(async () => {
+    if (activityId) {
+      await db.delete(activities).where(eq(activities.id, activityId));
+    }
+    await cleanupTestData(testData);
+  });
+
+  const request = (userIndex: number, path: string, method: string, body?: unknown) =>
+    testApp.request(path, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${tokens[userIndex]}`,
+        'Content-Type': 'application/json'
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+  // A two-player activity with the creator and users[1] already in
+  const createFullActivity = async (extra: Record<string, unknown> = {}) => {
+    const res = await request(0, '/api/activities', 'POST', {
+      activityTypeId: testData.activityType.id,
+      description: 'Doubles practice',
+      dateTime: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString(),
+      maxParticipants: 2,
+      ...extra
+    });
+    expect(res.status).toBe(201);
+    activityId = (await res.json()).data.activity.id;
+
+    await db.insert(activityParticipants).values({
+      activityId: activityId!,
+      userId: testData.users[1].id,
+      status: 'accepted'
+    });
+  };
+
+  const participationOf = async (userIndex: number) =>
+    db.query.activityParticipants.findFirst({
+      where: and(
+        eq(activityParticipants.activityId, activityId!),
+        eq(activityParticipants.userId, testData.users[userIndex].id)
+      )
+    });
+
+  test('joining a full activity puts users on the waitlist in order', async () => {
+    await createFullActivity();
+
+    const first = await request(2, `/api/activities/${activityId}/join`, 'POST', {});
+    expect(first.status).toBe(201);
+    expect((await first.json()).data.waitlistPlace).toBe(1);
+
+    const second = await request(3, `/api/activities/${activityId}/join`, 'POST', {});
+    expect((await second.json()).data.waitlistPlace).toBe(2);
+
+    expect((await participationOf(2))!.status).toBe('waitlisted');
+  });
+
+  test('the creator sees the whole waitlist, others only their own place', async () => {
+    await createFullActivity();
+    await request(2, `/api/activities/${activityId}/join`, 'POST', {});
+    await request(3, `/api/activities/${activityId}/join`, 'POST', {});
+
+    const asCreator = await (await request(0, `/api/activities/${activityId}`, 'GET')).json();
+    expect(asCreator.data.waitlist.map((entry: any) => entry.user.id)).toEqual([
+      testData.users[2].id,
+      testData.users[3].id
+    ]);
+    expect(asCreator.data.participants).toHaveLength(2);
+
+    const asWaiting = await (await request(3, `/api/activities/${activityId}`, 'GET')).json();
+    expect(asWaiting.data.waitlist).toHaveLength(1);
+    expect(asWaiting.data.userWaitlistEntry.place).toBe(2);
+    expect(asWaiting.data.capabilities.canJoin).toBe(false);
+  });
+
+  test('leaving promotes the next player on the waitlist', async () => {
+    await createFullActivity();
+    await request(2, `/api/activities/${activityId}/join`, 'POST', {});
+    await request(3, `/api/activities/${activityId}/join`, 'POST', {});
+
+    const res = await request(1, `/api/activities/${activityId}/leave`, 'POST');
+    expect(res.status).toBe(200);
+
+    const promoted = await participationOf(2);
+    expect(promoted!.status).toBe('accepted');
+    expect(promoted!.waitlistPosition).toBeNull();
+    expect(promoted!.confirmBy).toBeNull();
+    expect((await participationOf(3))!.status).toBe('waitlisted');
+  });
+
+  test('an unconfirmed promotion is released to the next player', async () => {
+    await createFullActivity({ waitlistConfirmHours: 2 });
+    await request(2, `/api/activities/${activityId}/join`, 'POST', {});
+    await request(3, `/api/activities/${activityId}/join`, 'POST', {});
+    await request(1, `/api/activities/${activityId}/leave`, 'POST');
+
+    expect((await participationOf(2))!.confirmBy).not.toBeNull();
+
+    const released = await waitlistService.releaseExpiredPromotions(
+      new Date(Date.now() + 3 * 60 * 60 * 1000)
+    );
+    expect(released).toBe(1);
+
+    expect(await participationOf(2)).toBeUndefined();
+    expect((await participationOf(3))!.status).toBe('accepted');
+  });
+
+  test('confirming keeps the spot', async () => {
+    await createFullActivity({ waitlistConfirmHours: 2 });
+    await request(2, `/api/activities/${activityId}/join`, 'POST', {});
+    await request(1, `/api/activities/${activityId}/leave`, 'POST');
+
+    const res = await request(2, `/api/activities/${activityId}/confirm-spot`, 'POST');
+    expect(res.status).toBe(200);
+
+    await waitlistService.releaseExpiredPromotions(new Date(Date.now() + 3 * 60 * 60 * 1000));
+    expect((await participationOf(2))!.status).toBe('accepted');
+
+    const again = await request(2, `/api/activities/${activityId}/confirm-spot`, 'POST');
+    expect(again.status).toBe(400);
+  });
+});
@@ -0,0 +1,179 @@
+// tests/routers/activity-results.test.ts
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import { and, eq } from 'drizzle-orm';
+import { cleanupTestData, setupTestActivity } from '../helpers/test-setup';
+import { signJWT } from '../../auth/jwt';
+import { testApp } from '../helpers/test-app';
+import { db } from '../../db/client';
+import { activities, activityParticipants, activityResultSubmissions, activityTypes, users } from '../../db/schema';
+import { activityResultsService } from '../../services/activity-results.service';
+import { jobSchedulerService } from '../../services/job-scheduler.service';
+
+describe('Activities Router - Result confirmation', () => {
+  let testData: any;
+  let tokens: string[];
+
+  beforeEach(async () => {
+    testData = await setupTestActivity({
+      activityType: 'Padel',
+      participants: 4,
+      eloRatings: [1300, 1250, 1200, 1150],
+      teamBased: true
+    });
+
+    // The fixture is already completed with results; start from a played game
+    await db
+      .update(activities)
+      .set({ completionStatus: 'active', isELORated: false })
+      .where(eq(activities.id, testData.activity.id));
+    await db
+      .update(activityParticipants)
+      .set({ finalResult: null })
+      .where(eq(activityParticipants.activityId, testData.activity.id));
+
+    tokens = await Promise.all(
+      testData.users.map((user: any) =>
+        signJWT({ userId: user.id, username: user.username, email: user.email, role: user.role })
+      )
+    );
+  });
+
+  afterEach(async () => {
+    await jobSchedulerService.cancel(testData.activity.id);
+    await cleanupTestData(testData);
+  });
+
+  const request = (token: string, path: string, method: string, body?: unknown) =>
+    testApp.request(path, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json'
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+  const submitResults = async () => {
+    const res = await request(tokens[0], `/api/activities/${testData.activity.id}/complete`, 'POST', {
+      participantResults: testData.users.map((user: any, index: number) => ({
+        userId: user.id,
+        finalResult: index < 2 ? 'win' : 'loss'
+      }))
+    });
+    expect(res.status).toBe(200);
+    return (await res.json()).data;
+  };
+
+  const respond = (userIndex: number, body: Record<string, unknown>) =>
+    request(tokens[userIndex], `/api/activities/${testData.activity.id}/results/respond`, 'POST', body);
+
+  const finalResultOf = async (userIndex: number) =>
+    (await db.query.activityParticipants.findFirst({
+      where: and(
+        eq(activityParticipants.activityId, testData.activity.id),
+        eq(activityParticipants.userId, testData.users[userIndex].id)
+      )
+    }))!.finalResult;
+
+  test('submitted results stay proposed until the other side confirms', async () => {
+    const data = await submitResults();
+    expect(data.resultStatus).toBe('proposed');
+    expect(await finalResultOf(2)).toBeNull();
+
+    // One confirmation from the other team is enough
+    const res = await respond(3, { response: 'confirm' });
+    expect(res.status).toBe(200);
+    expect((await res.json()).data.resultStatus).toBe('confirmed');
+
+    expect(await finalResultOf(0)).toBe('win');
+    expect(await finalResultOf(2)).toBe('loss');
+  });
+
+  test('the submitter cannot confirm their own results', async () => {
+    await submitResults();
+
+    const res = await respond(0, { response: 'confirm' });
+    expect(res.status).toBe(400);
+  });
+
+  test('disputes need a reason and go to the moderator queue', async () => {
+    await submitResults();
+
+    expect((await respond(2, { response: 'dispute' })).status).toBe(400);
+
+    const res = await respond(2, { response: 'dispute', reason: 'We won the second set' });
+    expect(res.status).toBe(200);
+    expect((await res.json()).data.resultStatus).toBe('disputed');
+
+    // Confirming after a dispute is too late
+    expect((await respond(3, { response: 'confirm' })).status).toBe(400);
+
+    await db.update(users).set({ role: 'moderator' }).where(eq(users.id, testData.users[1].id));
+    const moderatorToken = tokens[1];
+
+    const queue = await (await request(moderatorToken, '/api/result-disputes', 'GET')).json();
+    const dispute = queue.data.disputes.find((d: any) => d.activityId === testData.activity.id);
+    expect(dispute.responses[0].reason).toBe('We won the second set');
+
+    const resolve = await request(moderatorToken, `/api/result-disputes/${dispute.id}/resolve`, 'POST', {
+      decision: 'amend',
+      participantResults: testData.users.map((user: any, index: number) => ({
+        userId: user.id,
+        finalResult: index < 2 ? 'loss' : 'win'
+      })),
+      note: 'Scorecard photo shows team B won'
+    });
+    expect(resolve.status).toBe(200);
+    expect((await resolve.json()).data.submission.status).toBe('resolved');
+
+    expect(await finalResultOf(0)).toBe('loss');
+    expect(await finalResultOf(2)).toBe('win');
+  });
+
+  test('a score in the type\'s format decides the outcomes', async () => {
+    await db
+      .update(activityTypes)
+      .set({ defaultELOSettings: { ...testData.activityType.defaultELOSettings, resultFormat: 'sets' } })
+      .where(eq(activityTypes.id, testData.activityType.id));
+
+    const complete = (score: unknown) =>
+      request(tokens[0], `/api/activities/${testData.activity.id}/complete`, 'POST', { score });
+
+    expect((await complete({ format: 'goals', goals: { A: 3, B: 1 } })).status).toBe(400);
+
+    const res = await complete({ format: 'sets', sets: [{ A: 2, B: 6 }, { A: 3, B: 6 }] });
+    expect(res.status).toBe(200);
+    expect((await respond(3, { response: 'confirm' })).status).toBe(200);
+
+    // Team A (users 0 and 1) lost both sets
+    expect(await finalResultOf(0)).toBe('loss');
+    expect(await finalResultOf(3)).toBe('win');
+
+    const activity = await db.query.activities.findFirst({
+      where: eq(activities.id, testData.activity.id)
+    });
+    expect(activity!.score).toMatchObject({ format: 'sets' });
+  });
+
+  test('only moderators see the dispute queue', async () => {
+    const res = await request(tokens[2], '/api/result-disputes', 'GET');
+    expect(res.status).toBe(403);
+  });
+
+  test('unanswered results apply once the window lapses', async () => {
+    const data = await submitResults();
+
+    const lapsed = await activityResultsService.closeConfirmationWindow(
+      testData.activity.id,
+      new Date(new Date(data.respondBy).getTime() + 1000)
+    );
+    expect(lapsed!.submission.status).toBe('confirmed');
+
+    const [submission] = await db
+      .select()
+      .from(activityResultSubmissions)
+      .where(eq(activityResultSubmissions.activityId, testData.activity.id));
+    expect(submission.status).toBe('confirmed');
+    expect(await finalResultOf(3)).toBe('loss');
+  });
+});
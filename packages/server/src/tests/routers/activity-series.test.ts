@@ -0,0 +1,239 @@
+// tests/routers/activity-series.test.ts
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import { and, asc, eq } from 'drizzle-orm';
+import { cleanupTestData, setupTestActivity } from '../helpers/test-setup';
+import { signJWT } from '../../auth/jwt';
+import { testApp } from '../helpers/test-app';
+import { db } from '../../db/client';
+import { activities, activityChatMessages, activityChatRooms, activityParticipants, activitySeries } from '../../db/schema';
+import { occurrenceDates, toRRule } from '../../services/activity-series.service';
+
+describe('Recurrence rules', () => {
+  // 2026-10-20 is a Tuesday
+  test('weekly on one weekday', () => {
+    expect(
+      occurrenceDates({ startDate: '2026-10-20', intervalWeeks: 1, weekdays: [2] }, '2026-11-10')
+    ).toEqual(['2026-10-20', '2026-10-27', '2026-11-03', '2026-11-10']);
+  });
+
+  test('bi-weekly on several weekdays skips every other week', () => {
+    expect(
+      occurrenceDates({ startDate: '2026-10-20', intervalWeeks: 2, weekdays: [2, 4] }, '2026-11-10')
+    ).toEqual(['2026-10-20', '2026-10-22', '2026-11-03', '2026-11-05']);
+  });
+
+  test('stops at the end date or after the count', () => {
+    expect(
+      occurrenceDates(
+        { startDate: '2026-10-20', intervalWeeks: 1, weekdays: [2], untilDate: '2026-10-30' },
+        '2027-01-01'
+      )
+    ).toEqual(['2026-10-20', '2026-10-27']);
+    expect(
+      occurrenceDates(
+        { startDate: '2026-10-20', intervalWeeks: 1, weekdays: [2, 4], occurrenceCount: 3 },
+        '2027-01-01'
+      )
+    ).toEqual(['2026-10-20', '2026-10-22', '2026-10-27']);
+  });
+
+  test('formats as an RRULE', () => {
+    expect(
+      toRRule({ startDate: '2026-10-20', intervalWeeks: 2, weekdays: [4, 2], occurrenceCount: 10 })
+    ).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=10');
+  });
+});
+
+describe('Activities Router - Recurring series', () => {
+  let testData: any;
+  let authToken: string;
+  let seriesId: string | undefined;
+  let firstDay: Date;
+
+  beforeEach(async () => {
+    testData = await setupTestActivity({
+      activityType: 'Football',
+      participants: 3,
+      eloRatings: [1200, 1200, 1200],
+      teamBased: false
+    });
+
+    authToken = await signJWT({
+      userId: testData.users[0].id,
+      username: testData.users[0].username,
+      email: testData.users[0].email,
+      role: testData.users[0].role
+    });
+
+    firstDay = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000);
+    firstDay.setUTCHours(18, 0, 0, 0);
+    seriesId = undefined;
+  });
+
+  afterEach(async () => {
+    if (seriesId) {
+      await db.delete(activities).where(eq(activities.seriesId, seriesId));
+      await db.delete(activitySeries).where(eq(activitySeries.id, seriesId));
+    }
+    await cleanupTestData(testData);
+  });
+
+  const request = (path: string, method: string, body?: unknown) =>
+    testApp.request(path, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${authToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+  const createSeries = async (recurrence: Record<string, unknown> = {}) => {
+    const res = await request('/api/activities', 'POST', {
+      activityTypeId: testData.activityType.id,
+      description: 'Tuesday 5-a-side',
+      location: 'Park pitch',
+      dateTime: firstDay.toISOString(),
+      maxParticipants: 10,
+      recurrence: { weekdays: [firstDay.getUTCDay()], count: 3, ...recurrence }
+    });
+    expect(res.status).toBe(201);
+    const body = await res.json();
+    seriesId = body.data.series.id;
+    return body.data;
+  };
+
+  const occurrences = () =>
+    db
+      .select()
+      .from(activities)
+      .where(eq(activities.seriesId, seriesId!))
+      .orderBy(asc(activities.dateTime));
+
+  test('creates the upcoming occurrences a week apart', async () => {
+    const data = await createSeries();
+
+    expect(data.activity.dateTime).toBe(firstDay.toISOString());
+    expect(data.occurrences).toHaveLength(3);
+
+    const rows = await occurrences();
+    expect(rows.map((row) => row.dateTime.getTime() - firstDay.getTime())).toEqual([
+      0,
+      7 * 24 * 60 * 60 * 1000,
+      14 * 24 * 60 * 60 * 1000
+    ]);
+    expect(rows.every((row) => row.description === 'Tuesday 5-a-side')).toBe(true);
+  });
+
+  test('rejects a first occurrence outside the recurrence weekdays', async () => {
+    const res = await request('/api/activities', 'POST', {
+      activityTypeId: testData.activityType.id,
+      description: 'Tuesday 5-a-side',
+      dateTime: firstDay.toISOString(),
+      recurrence: { weekdays: [(firstDay.getUTCDay() + 1) % 7] }
+    });
+
+    expect(res.status).toBe(400);
+  });
+
+  test('regulars are carried into upcoming occurrences', async () => {
+    await createSeries();
+    const regular = testData.users[1];
+
+    const res = await request(`/api/activity-series/${seriesId}/regulars`, 'POST', {
+      userId: regular.id
+    });
+    expect(res.status).toBe(201);
+    expect((await res.json()).data.joinedOccurrences).toHaveLength(3);
+
+    const seriesParticipations = () =>
+      db
+        .select({ status: activityParticipants.status })
+        .from(activityParticipants)
+        .innerJoin(activities, eq(activities.id, activityParticipants.activityId))
+        .where(and(eq(activities.seriesId, seriesId!), eq(activityParticipants.userId, regular.id)));
+
+    const participations = await seriesParticipations();
+    expect(participations.filter((p) => p.status === 'accepted')).toHaveLength(3);
+
+    const leave = await request(`/api/activity-series/${seriesId}/regulars/${regular.id}`, 'DELETE');
+    expect(leave.status).toBe(200);
+    expect(await seriesParticipations()).toHaveLength(0);
+  });
+
+  test('editing one occurrence leaves the rest of the series alone', async () => {
+    await createSeries();
+    const [, second] = await occurrences();
+
+    const res = await request(`/api/activities/${second.id}`, 'PUT', {
+      location: 'Indoor hall'
+    });
+    expect(res.status).toBe(200);
+
+    const rows = await occurrences();
+    expect(rows.map((row) => row.location)).toEqual(['Park pitch', 'Indoor hall', 'Park pitch']);
+    expect(rows[1].isSeriesException).toBe(true);
+  });
+
+  test('editing following occurrences updates later ones except exceptions', async () => {
+    await createSeries();
+    const [first, second, third] = await occurrences();
+
+    await request(`/api/activities/${third.id}`, 'PUT', { description: 'Cup final' });
+
+    const moved = new Date(second.dateTime);
+    moved.setUTCHours(19, 30);
+    const res = await request(`/api/activities/${second.id}?scope=following`, 'PUT', {
+      location: 'Indoor hall',
+      dateTime: moved.toISOString()
+    });
+    expect(res.status).toBe(200);
+    expect((await res.json()).data.occurrences.map((o: any) => o.id)).toEqual([second.id]);
+
+    const rows = await occurrences();
+    expect(rows.find((row) => row.id === first.id)!.location).toBe('Park pitch');
+    const updatedSecond = rows.find((row) => row.id === second.id)!;
+    expect(updatedSecond.location).toBe('Indoor hall');
+    expect(updatedSecond.dateTime.toISOString()).toBe(moved.toISOString());
+    // The third occurrence was edited on its own, so it keeps its details
+    expect(rows.find((row) => row.id === third.id)!.location).toBe('Park pitch');
+
+    const [series] = await db.select().from(activitySeries).where(eq(activitySeries.id, seriesId!));
+    expect(series.location).toBe('Indoor hall');
+    expect(series.startTime).toBe('19:30');
+
+    // The moved occurrence announces its new time in its chat
+    const notices = await db
+      .select({ content: activityChatMessages.content, messageType: activityChatMessages.messageType })
+      .from(activityChatMessages)
+      .innerJoin(activityChatRooms, eq(activityChatRooms.id, activityChatMessages.roomId))
+      .where(eq(activityChatRooms.activityId, second.id));
+    expect(notices).toEqual([
+      { content: expect.stringContaining('This activity has moved'), messageType: 'system' }
+    ]);
+  });
+
+  test('following scope is rejected for one-off activities', async () => {
+    const res = await request(`/api/activities/${testData.activity.id}?scope=following`, 'PUT', {
+      location: 'Indoor hall'
+    });
+
+    expect(res.status).toBe(400);
+  });
+
+  test('ending a series cancels its upcoming occurrences', async () => {
+    await createSeries({ count: undefined });
+
+    const res = await request(`/api/activity-series/${seriesId}/end`, 'POST');
+    expect(res.status).toBe(200);
+
+    const scheduled = await db
+      .select()
+      .from(activities)
+      .where(and(eq(activities.seriesId, seriesId!), eq(activities.completionStatus, 'scheduled')));
+    expect(scheduled).toHaveLength(0);
+
+    const [series] = await db.select().from(activitySeries).where(eq(activitySeries.id, seriesId!));
+    expect(series.isActive).toBe(false);
+  });
+});
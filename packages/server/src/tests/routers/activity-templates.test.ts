@@ -0,0 +1,146 @@
+// tests/routers/activity-templates.test.ts
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { cleanupTestData, setupTestActivity } from '../helpers/test-setup';
+import { signJWT } from '../../auth/jwt';
+import { testApp } from '../helpers/test-app';
+import { db } from '../../db/client';
+import { activities, activityParticipants, teamMembers, teams } from '../../db/schema';
+import { activityLifecycleService } from '../../services/activity-lifecycle.service';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('Activity templates', () => {
+  let testData: any;
+  let tokens: string[];
+  let team: typeof teams.$inferSelect;
+  const createdActivityIds: string[] = [];
+
+  beforeEach(async () => {
+    testData = await setupTestActivity({
+      activityType: 'Tennis',
+      participants: 3,
+      eloRatings: [1200, 1200, 1200],
+      teamBased: false
+    });
+
+    // User 0 runs the team, user 1 plays in it, user 2 is an outsider
+    [team] = await db
+      .insert(teams)
+      .values({ name: 'Tuesday Club', creatorId: testData.users[0].id })
+      .returning();
+    await db.insert(teamMembers).values([
+      { teamId: team.id, userId: testData.users[0].id, role: 'owner' },
+      { teamId: team.id, userId: testData.users[1].id }
+    ]);
+
+    tokens = await Promise.all(
+      testData.users.map((user: any) =>
+        signJWT({ userId: user.id, username: user.username, email: user.email, role: user.role })
+      )
+    );
+  });
+
+  afterEach(async () => {
+    for (const id of createdActivityIds.splice(0)) {
+      await activityLifecycleService.unscheduleActivity(id);
+      await db.delete(activityParticipants).where(eq(activityParticipants.activityId, id));
+      await db.delete(activities).where(eq(activities.id, id));
+    }
+    await db.delete(teams).where(eq(teams.id, team.id));
+    await cleanupTestData(testData);
+  });
+
+  const request = (userIndex: number, path: string, method: string, body?: unknown) =>
+    testApp.request(path, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${tokens[userIndex]}`,
+        'Content-Type': 'application/json'
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+  const createTemplate = async (userIndex: number, extra: Record<string, unknown> = {}) =>
+    request(userIndex, '/api/activity-templates', 'POST', {
+      name: 'Doubles night',
+      activityTypeId: testData.activityType.id,
+      description: 'Friendly doubles, all levels',
+      location: 'Court 3',
+      maxParticipants: 4,
+      isELORated: false,
+      defaultTeams: ['A', 'B'],
+      ...extra
+    });
+
+  test('personal templates are private to their owner', async () => {
+    const res = await createTemplate(0);
+    expect(res.status).toBe(201);
+    const { template } = (await res.json()).data;
+    expect(template.ownerId).toBe(testData.users[0].id);
+
+    expect((await request(0, `/api/activity-templates/${template.id}`, 'GET')).status).toBe(200);
+    expect((await request(1, `/api/activity-templates/${template.id}`, 'GET')).status).toBe(404);
+
+    const list = await (await request(1, '/api/activity-templates', 'GET')).json();
+    expect(list.data.templates).toHaveLength(0);
+  });
+
+  test('team members use team templates but only the owner and captains manage them', async () => {
+    expect((await createTemplate(1, { teamId: team.id })).status).toBe(403);
+
+    const res = await createTemplate(0, { teamId: team.id });
+    expect(res.status).toBe(201);
+    const { template } = (await res.json()).data;
+
+    const list = await (await request(1, '/api/activity-templates', 'GET')).json();
+    expect(list.data.templates.map((t: any) => t.id)).toEqual([template.id]);
+
+    const edit = (userIndex: number) =>
+      request(userIndex, `/api/activity-templates/${template.id}`, 'PUT', { maxParticipants: 6 });
+    expect((await edit(1)).status).toBe(403);
+    expect((await edit(2)).status).toBe(404);
+    expect((await edit(0)).status).toBe(200);
+
+    expect((await request(2, `/api/activity-templates/${template.id}`, 'GET')).status).toBe(404);
+  });
+
+  test('creating from a template applies the overrides', async () => {
+    const { template } = (await (await createTemplate(0, { teamId: team.id })).json()).data;
+    const dateTime = new Date(Date.now() + 48 * HOUR).toISOString();
+
+    const res = await request(1, `/api/activities/from-template/${template.id}`, 'POST', {
+      dateTime,
+      maxParticipants: 8
+    });
+    expect(res.status).toBe(201);
+    const { activity, templateId } = (await res.json()).data;
+    createdActivityIds.push(activity.id);
+
+    expect(templateId).toBe(template.id);
+    expect(activity.creatorId).toBe(testData.users[1].id);
+    expect(activity.description).toBe('Friendly doubles, all levels');
+    expect(activity.location).toBe('Court 3');
+    expect(activity.maxParticipants).toBe(8);
+
+    // The organiser plays for the first default team
+    const organiser = await db.query.activityParticipants.findFirst({
+      where: eq(activityParticipants.activityId, activity.id)
+    });
+    expect(organiser!.team).toBe('A');
+
+    // Outsiders cannot use the team's template, and the date is required
+    expect(
+      (await request(2, `/api/activities/from-template/${template.id}`, 'POST', { dateTime })).status
+    ).toBe(404);
+    expect((await request(1, `/api/activities/from-template/${template.id}`, 'POST', {})).status).toBe(400);
+  });
+
+  test('deleting is limited to the owner', async () => {
+    const { template } = (await (await createTemplate(0)).json()).data;
+
+    expect((await request(1, `/api/activity-templates/${template.id}`, 'DELETE')).status).toBe(404);
+    expect((await request(0, `/api/activity-templates/${template.id}`, 'DELETE')).status).toBe(200);
+    expect((await request(0, `/api/activity-templates/${template.id}`, 'GET')).status).toBe(404);
+  });
+});
@@ -0,0 +1,77 @@
+// tests/routers/auth-email-verification.test.ts
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { cleanupTestData, setupTestActivity } from '../helpers/test-setup';
+import { signJWT } from '../../auth/jwt';
+import { testApp } from '../helpers/test-app';
+import { db } from '../../db/client';
+import { users } from '../../db/schema';
+import { mailer, FileMailer } from '../../lib/mailer';
+import { getEmailVerificationPolicy } from '../../middleware/email-verification';
+
+describe('Auth Router - Email Verification', () => {
+  let testData: any;
+  let authToken: string;
+  const outbox = mailer as FileMailer;
+
+  beforeEach(async () => {
+    testData = await setupTestActivity({
+      activityType: 'Tennis',
+      participants: 2,
+      eloRatings: [1200, 1200],
+      teamBased: false
+    });
+
+    const unverified = testData.users[0];
+    await db.update(users).set({ emailVerifiedAt: null }).where(eq(users.id, unverified.id));
+
+    authToken = await signJWT({
+      userId: unverified.id,
+      username: unverified.username,
+      email: unverified.email,
+      role: unverified.role
+    });
+  });
+
+  afterEach(async () => {
+    await cleanupTestData(testData);
+  });
+
+  const post = (path: string, body?: unknown) =>
+    testApp.request(`/api${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${authToken}`
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+
+  test('should block connection requests until the email is verified', async () => {
+    const blocked = await post('/users/connections/request', { targetUserId: testData.users[1].id });
+    expect(blocked.status).toBe(403);
+    expect((await blocked.json()).code).toBe('EMAIL_NOT_VERIFIED');
+
+    const resend = await post('/auth/resend-verification');
+    expect(resend.status).toBe(200);
+
+    const token = outbox.lastMessageTo(testData.users[0].email)?.text.match(/token=([a-f0-9]+)/)?.[1];
+    expect(token).toBeDefined();
+
+    const verify = await post('/auth/verify-email', { token });
+    expect(verify.status).toBe(200);
+
+    const replay = await post('/auth/verify-email', { token });
+    expect(replay.status).toBe(400);
+
+    const allowed = await post('/users/connections/request', { targetUserId: testData.users[1].id });
+    expect(allowed.status).not.toBe(403);
+  });
+
+  test('should read the policy from the environment', () => {
+    expect([...getEmailVerificationPolicy({})]).toEqual(['elo_activities', 'connection_requests']);
+    expect([...getEmailVerificationPolicy({ EMAIL_VERIFICATION_REQUIRED_FOR: 'none' })]).toEqual([]);
+    expect([...getEmailVerificationPolicy({ EMAIL_VERIFICATION_REQUIRED_FOR: 'connection_requests' })])
+      .toEqual(['connection_requests']);
+  });
+});
@@ -0,0 +1,67 @@
+// tests/routers/auth-password-reset.test.ts
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import { cleanupTestData, setupTestActivity } from '../helpers/test-setup';
+import { testApp } from '../helpers/test-app';
+import { mailer, FileMailer } from '../../lib/mailer';
+
+describe('Auth Router - Password Reset', () => {
+  let testData: any;
+  let email: string;
+  const outbox = mailer as FileMailer;
+
+  beforeEach(async () => {
+    testData = await setupTestActivity({
+      activityType: 'Tennis',
+      participants: 1,
+      eloRatings: [1200],
+      teamBased: false
+    });
+    email = testData.users[0].email;
+  });
+
+  afterEach(async () => {
+    await cleanupTestData(testData);
+  });
+
+  const post = (path: string, body: unknown) =>
+    testApp.request(`/api/auth${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+
+  const requestResetToken = async () => {
+    await post('/forgot-password', { email });
+    const message = outbox.lastMessageTo(email);
+    const token = message?.text.match(/token=([a-f0-9]+)/)?.[1];
+    expect(token).toBeDefined();
+    return token!;
+  };
+
+  test('should email a reset link and accept the token once', async () => {
+    const token = await requestResetToken();
+
+    const first = await post('/reset-password', { token, newPassword: 'NewPassw0rd!' });
+    expect(first.status).toBe(200);
+
+    const replay = await post('/reset-password', { token, newPassword: 'OtherPassw0rd!' });
+    expect(replay.status).toBe(400);
+  });
+
+  test('should invalidate older links when a new one is requested', async () => {
+    const older = await requestResetToken();
+    const newer = await requestResetToken();
+
+    const stale = await post('/reset-password', { token: older, newPassword: 'NewPassw0rd!' });
+    expect(stale.status).toBe(400);
+
+    const fresh = await post('/reset-password', { token: newer, newPassword: 'NewPassw0rd!' });
+    expect(fresh.status).toBe(200);
+  });
+
+  test('should not reveal whether an email is registered', async () => {
+    const response = await post('/forgot-password', { email: 'nobody@example.com' });
+    expect(response.status).toBe(200);
+    expect(outbox.lastMessageTo('nobody@example.com')).toBeUndefined();
+  });
+});
@@ -0,0 +1,88 @@
+// tests/routers/data-export.test.ts
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import { cleanupTestData, setupTestActivity } from '../helpers/test-setup';
+import { signJWT } from '../../auth/jwt';
+import { testApp } from '../helpers/test-app';
+import { db } from '../../db/client';
+import { userActivitySkillRatings } from '../../db/schema';
+import { enhancedRateLimiter } from '../../utils/security';
+
+describe('Users Router - Data Export', () => {
+  let testData: any;
+  let authToken: string;
+
+  beforeEach(async () => {
+    testData = await setupTestActivity({
+      activityType: 'Tennis',
+      participants: 3,
+      eloRatings: [1200, 1200, 1200],
+      teamBased: false,
+      withSkills: true
+    });
+
+    authToken = await signJWT({
+      userId: testData.users[0].id,
+      username: testData.users[0].username,
+      email: testData.users[0].email,
+      role: testData.users[0].role
+    });
+
+    // One named and one anonymous rating received by the exporting user
+    await db.insert(userActivitySkillRatings).values([
+      {
+        activityId: testData.activity.id,
+        ratedUserId: testData.users[0].id,
+        ratingUserId: testData.users[1].id,
+        skillDefinitionId: testData.skills[0].id,
+        ratingValue: 7,
+        isAnonymous: false
+      },
+      {
+        activityId: testData.activity.id,
+        ratedUserId: testData.users[0].id,
+        ratingUserId: testData.users[2].id,
+        skillDefinitionId: testData.skills[0].id,
+        ratingValue: 8,
+        isAnonymous: true
+      }
+    ]);
+  });
+
+  afterEach(async () => {
+    enhancedRateLimiter.clearAttempts(`data_export_${testData.users[0].id}`);
+    await cleanupTestData(testData);
+  });
+
+  const exportData = () =>
+    testApp.request('/api/users/me/export', {
+      headers: { 'Authorization': `Bearer ${authToken}` }
+    });
+
+  test('should stream an NDJSON bundle that hides anonymous raters', async () => {
+    const response = await exportData();
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toContain('application/x-ndjson');
+
+    const records = (await response.text())
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+
+    expect(records[0].section).toBe('profile');
+    expect(records[0].data.email).toBe(testData.users[0].email);
+    expect(records[0].data.passwordHash).toBeUndefined();
+    expect(records.some((r) => r.section === 'activities')).toBe(true);
+
+    const received = records.filter((r) => r.section === 'skill_ratings_received');
+    expect(received).toHaveLength(2);
+    expect(received.find((r) => r.data.ratingValue === 7).data.ratingUserId).toBe(testData.users[1].id);
+    expect(received.find((r) => r.data.ratingValue === 8).data.ratingUserId).toBeUndefined();
+  });
+
+  test('should rate limit repeated exports', async () => {
+    for (let i = 0; i < 3; i++) {
+      expect((await exportData()).status).toBe(200);
+    }
+    expect((await exportData()).status).toBe(429);
+  });
+});
@@ -0,0 +1,143 @@
+// tests/routers/feed.test.ts
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import { and, eq } from 'drizzle-orm';
+import { cleanupTestData, createTestUsers } from '../helpers/test-setup';
+import { signJWT } from '../../auth/jwt';
+import { testApp } from '../helpers/test-app';
+import { db } from '../../db/client';
+import { entityChangeLog } from '../../db/delta-tracking.schema';
+import { userConnections } from '../../db/schema';
+
+describe('Feed Router', () => {
+  let testData: any;
+  let tokens: string[];
+
+  beforeEach(async () => {
+    // Users 0 and 1 are friends, user 2 is a stranger to both
+    const users = await createTestUsers(3);
+    testData = { users };
+
+    await db.insert(userConnections).values({
+      user1Id: users[0].id,
+      user2Id: users[1].id,
+      status: 'accepted'
+    });
+
+    tokens = await Promise.all(
+      users.map((user: any) =>
+        signJWT({ userId: user.id, username: user.username, email: user.email, role: user.role })
+      )
+    );
+  });
+
+  afterEach(async () => {
+    for (const user of testData.users) {
+      await db.delete(entityChangeLog).where(eq(entityChangeLog.affectedUserId, user.id));
+    }
+    await cleanupTestData(testData);
+  });
+
+  const request = (userIndex: number, path: string, method: string, body?: unknown) =>
+    testApp.request(path, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${tokens[userIndex]}`,
+        'Content-Type': 'application/json'
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+  const publish = async (userIndex: number, content: string, visibility = 'public') => {
+    const res = await request(userIndex, '/api/feed/posts', 'POST', { content, visibility });
+    expect(res.status).toBe(201);
+    return (await res.json()).data.post;
+  };
+
+  const feedOf = async (userIndex: number, query = '') =>
+    (await (await request(userIndex, `/api/feed${query}`, 'GET')).json()).data;
+
+  test('the feed respects post visibility', async () => {
+    const everyone = await publish(0, 'Open session on Sunday');
+    const friends = await publish(0, 'Who is in for doubles?', 'friends');
+    const mine = await publish(0, 'Note to self: new grip', 'private');
+
+    const ids = async (userIndex: number) =>
+      (await feedOf(userIndex)).posts.map((post: any) => post.id);
+
+    expect(await ids(0)).toEqual(expect.arrayContaining([everyone.id, friends.id, mine.id]));
+
+    const friendView = await ids(1);
+    expect(friendView).toEqual(expect.arrayContaining([everyone.id, friends.id]));
+    expect(friendView).not.toContain(mine.id);
+
+    const strangerView = await ids(2);
+    expect(strangerView).toContain(everyone.id);
+    expect(strangerView).not.toContain(friends.id);
+    expect((await request(2, `/api/feed/posts/${friends.id}`, 'GET')).status).toBe(404);
+  });
+
+  test('new posts fan out to friends only', async () => {
+    const post = await publish(0, 'Great match today');
+
+    const fannedOut = await db
+      .select()
+      .from(entityChangeLog)
+      .where(and(eq(entityChangeLog.entityType, 'post'), eq(entityChangeLog.entityId, post.id)));
+
+    expect(fannedOut.map((change) => change.affectedUserId)).toEqual([testData.users[1].id]);
+  });
+
+  test('pages follow the cursor without repeating posts', async () => {
+    for (let i = 0; i < 3; i++) {
+      await publish(2, `Post ${i}`, 'private');
+    }
+
+    const first = await feedOf(2, '?limit=2');
+    expect(first.posts.map((post: any) => post.content)).toEqual(['Post 2', 'Post 1']);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = await feedOf(2, `?limit=2&cursor=${first.nextCursor}`);
+    expect(second.posts.map((post: any) => post.content)).toEqual(['Post 0']);
+    expect(second.nextCursor).toBeNull();
+
+    expect((await request(2, '/api/feed?cursor=not-a-cursor', 'GET')).status).toBe(400);
+  });
+
+  test('likes count once per user', async () => {
+    const post = await publish(0, 'Five-set thriller');
+
+    await request(1, `/api/feed/posts/${post.id}/like`, 'POST');
+    const again = await (await request(1, `/api/feed/posts/${post.id}/like`, 'POST')).json();
+    expect(again.data.likesCount).toBe(1);
+
+    const [item] = (await feedOf(1)).posts.filter((p: any) => p.id === post.id);
+    expect(item.userHasLiked).toBe(true);
+
+    const unliked = await (await request(1, `/api/feed/posts/${post.id}/like`, 'DELETE')).json();
+    expect(unliked.data.likesCount).toBe(0);
+  });
+
+  test('comments thread under their parent', async () => {
+    const post = await publish(0, 'Padel on Friday?');
+
+    const comment = async (userIndex: number, content: string, parentId?: string) => {
+      const res = await request(userIndex, `/api/feed/posts/${post.id}/comments`, 'POST', { content, parentId });
+      expect(res.status).toBe(201);
+      return (await res.json()).data.comment;
+    };
+
+    const question = await comment(1, 'What time?');
+    await comment(0, '7pm', question.id);
+
+    const { data } = await (await request(1, `/api/feed/posts/${post.id}/comments`, 'GET')).json();
+    expect(data.comments).toHaveLength(1);
+    expect(data.comments[0].replies[0].content).toBe('7pm');
+
+    // Only the people involved can remove a comment
+    expect((await request(2, `/api/feed/posts/${post.id}/comments/${question.id}`, 'DELETE')).status).toBe(403);
+    expect((await request(0, `/api/feed/posts/${post.id}/comments/${question.id}`, 'DELETE')).status).toBe(200);
+
+    const [item] = (await feedOf(0)).posts.filter((p: any) => p.id === post.id);
+    expect(item.commentsCount).toBe(0);
+  });
+});
@@ -0,0 +1,175 @@
+// tests/routers/leagues.test.ts
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import { eq, inArray } from 'drizzle-orm';
+import { cleanupTestData, setupTestActivity } from '../helpers/test-setup';
+import { signJWT } from '../../auth/jwt';
+import { testApp } from '../helpers/test-app';
+import { db } from '../../db/client';
+import {
+  activities,
+  activityParticipants,
+  activityResultSubmissions,
+  leagueFixtures,
+  leagues,
+  teamMembers,
+  teams
+} from '../../db/schema';
+import { activityLifecycleService } from '../../services/activity-lifecycle.service';
+
+describe('Leagues', () => {
+  let testData: any;
+  let tokens: string[];
+  let home: typeof teams.$inferSelect;
+  let away: typeof teams.$inferSelect;
+  const createdLeagueIds: string[] = [];
+
+  beforeEach(async () => {
+    testData = await setupTestActivity({
+      activityType: 'Football',
+      participants: 3,
+      eloRatings: [1200, 1200, 1200],
+      teamBased: true
+    });
+
+    // User 0 runs the league, user 1 owns the home team and user 2 the away team
+    const userId = (index: number) => testData.users[index].id;
+    [home, away] = await db
+      .insert(teams)
+      .values([
+        { name: `Home ${Date.now()}`, creatorId: userId(1), activityTypeId: testData.activityType.id },
+        { name: `Away ${Date.now()}`, creatorId: userId(2), activityTypeId: testData.activityType.id }
+      ])
+      .returning();
+    await db.insert(teamMembers).values([
+      { teamId: home.id, userId: userId(1), role: 'owner' },
+      { teamId: away.id, userId: userId(2), role: 'owner' }
+    ]);
+
+    tokens = await Promise.all(
+      testData.users.map((user: any) =>
+        signJWT({ userId: user.id, username: user.username, email: user.email, role: user.role })
+      )
+    );
+  });
+
+  afterEach(async () => {
+    for (const leagueId of createdLeagueIds.splice(0)) {
+      const fixtures = await db
+        .select({ activityId: leagueFixtures.activityId })
+        .from(leagueFixtures)
+        .where(eq(leagueFixtures.leagueId, leagueId));
+      for (const { activityId } of fixtures) {
+        await activityLifecycleService.unscheduleActivity(activityId);
+        await db.delete(activities).where(eq(activities.id, activityId));
+      }
+      await db.delete(leagues).where(eq(leagues.id, leagueId));
+    }
+    await db.delete(teams).where(inArray(teams.id, [home.id, away.id]));
+    await cleanupTestData(testData);
+  });
+
+  const request = (userIndex: number, path: string, method: string, body?: unknown) =>
+    testApp.request(path, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${tokens[userIndex]}`,
+        'Content-Type': 'application/json'
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+  test('a season is scheduled and its results fill the table', async () => {
+    const created = await request(0, '/api/leagues', 'POST', {
+      name: 'Futsal League',
+      activityTypeId: testData.activityType.id,
+      format: 'double_round_robin'
+    });
+    expect(created.status).toBe(201);
+    const { league } = (await created.json()).data;
+    createdLeagueIds.push(league.id);
+
+    // Only the team's own managers or the organiser enter a team
+    expect((await request(2, `/api/leagues/${league.id}/teams`, 'POST', { teamId: home.id })).status).toBe(403);
+    expect((await request(1, `/api/leagues/${league.id}/teams`, 'POST', { teamId: home.id })).status).toBe(201);
+    expect((await request(1, `/api/leagues/${league.id}/teams`, 'POST', { teamId: home.id })).status).toBe(409);
+    expect((await request(2, `/api/leagues/${league.id}/teams`, 'POST', { teamId: away.id })).status).toBe(201);
+
+    const schedule = {
+      firstRoundAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+      slots: [{ location: 'Sports hall' }]
+    };
+    expect((await request(1, `/api/leagues/${league.id}/fixtures/generate`, 'POST', schedule)).status).toBe(403);
+
+    const generated = await request(0, `/api/leagues/${league.id}/fixtures/generate`, 'POST', schedule);
+    expect(generated.status).toBe(201);
+    expect((await generated.json()).data).toEqual({ rounds: 2, fixtures: 2 });
+
+    const fixtures = (await (await request(1, `/api/leagues/${league.id}/fixtures`, 'GET')).json()).data.fixtures;
+    expect(fixtures.map((fixture: any) => [fixture.round, fixture.homeTeam.id])).toEqual([
+      [1, home.id],
+      [2, away.id]
+    ]);
+
+    // The organiser doesn't play, and registration is closed
+    const [firstFixture] = fixtures;
+    const organiserSeats = await db
+      .select()
+      .from(activityParticipants)
+      .where(eq(activityParticipants.activityId, firstFixture.activity.id));
+    expect(organiserSeats).toHaveLength(0);
+    expect((await request(1, `/api/leagues/${league.id}/teams/${home.id}`, 'DELETE')).status).toBe(400);
+
+    // The home team wins the first match 3-1
+    await db.insert(activityParticipants).values([
+      { activityId: firstFixture.activity.id, userId: testData.users[1].id, status: 'accepted', team: home.id, finalResult: 'win' },
+      { activityId: firstFixture.activity.id, userId: testData.users[2].id, status: 'accepted', team: away.id, finalResult: 'loss' }
+    ]);
+    const score = { format: 'goals', goals: { [home.id]: 3, [away.id]: 1 } };
+    await db.update(activities).set({ score }).where(eq(activities.id, firstFixture.activity.id));
+    await db.insert(activityResultSubmissions).values({
+      activityId: firstFixture.activity.id,
+      submittedBy: testData.users[1].id,
+      participantResults: [],
+      score,
+      status: 'confirmed',
+      respondBy: new Date()
+    });
+
+    const standings = (await (await request(2, `/api/leagues/${league.id}/standings`, 'GET')).json()).data;
+    expect(standings.fixturesPlayed).toBe(1);
+    expect(standings.fixturesTotal).toBe(2);
+    expect(standings.table.map((row: any) => [row.team.id, row.points, row.goalDifference])).toEqual([
+      [home.id, 3, 2],
+      [away.id, 0, -2]
+    ]);
+  });
+
+  test('a season is generated once, even when asked twice at the same time', async () => {
+    const created = await request(0, '/api/leagues', 'POST', {
+      name: 'Five-a-side League',
+      activityTypeId: testData.activityType.id,
+      format: 'round_robin'
+    });
+    const { league } = (await created.json()).data;
+    createdLeagueIds.push(league.id);
+
+    const schedule = {
+      firstRoundAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+      slots: [{ location: 'Sports hall' }]
+    };
+
+    // A generation that fails leaves registration open
+    expect((await request(1, `/api/leagues/${league.id}/teams`, 'POST', { teamId: home.id })).status).toBe(201);
+    expect((await request(0, `/api/leagues/${league.id}/fixtures/generate`, 'POST', schedule)).status).toBe(400);
+    expect((await request(2, `/api/leagues/${league.id}/teams`, 'POST', { teamId: away.id })).status).toBe(201);
+
+    const statuses = await Promise.all([
+      request(0, `/api/leagues/${league.id}/fixtures/generate`, 'POST', schedule),
+      request(0, `/api/leagues/${league.id}/fixtures/generate`, 'POST', schedule)
+    ].map(async (response) => (await response).status));
+    expect(statuses.sort()).toEqual([201, 409]);
+
+    const fixtures = await db.select().from(leagueFixtures).where(eq(leagueFixtures.leagueId, league.id));
+    expect(fixtures).toHaveLength(1);
+  });
+});
@@ -0,0 +1,219 @@
+// tests/routers/notifications.test.ts
+import { describe, expect, test, beforeEach, afterEach, vi } from 'vitest';
+import { cleanupTestData, setupTestActivity } from '../helpers/test-setup';
+import { signJWT } from '../../auth/jwt';
+import { testApp } from '../helpers/test-app';
+import { notificationService, isWithinQuietHours } from '../../services/notification.service';
+import { mailer, FileMailer } from '../../lib/mailer';
+
+describe('Notifications Router - Inbox State', () => {
+  let testData: any;
+  let authToken: string;
+
+  beforeEach(async () => {
+    testData = await setupTestActivity({
+      activityType: 'Tennis',
+      participants: 2,
+      eloRatings: [1200, 1200],
+      teamBased: false
+    });
+
+    authToken = await signJWT({
+      userId: testData.users[1].id,
+      username: testData.users[1].username,
+      email: testData.users[1].email,
+      role: testData.users[1].role
+    });
+  });
+
+  afterEach(async () => {
+    await cleanupTestData(testData);
+  });
+
+  const request = (path: string, method = 'GET') =>
+    testApp.request(`/api/notifications${path}`, {
+      method,
+      headers: { 'Authorization': `Bearer ${authToken}` }
+    });
+
+  test('should persist read state across requests', async () => {
+    const first = await notificationService.create(testData.users[1].id, {
+      type: 'rating_needed',
+      title: 'Rate Your Teammates',
+      message: 'Please rate your teammates',
+      relatedEntityId: testData.activity.id
+    });
+    await notificationService.create(testData.users[1].id, {
+      type: 'friend_request',
+      title: 'Friend Request',
+      message: 'Someone wants to connect with you',
+      actorId: testData.users[0].id
+    });
+
+    let count = await (await request('/count')).json();
+    expect(count.data.count).toBe(2);
+
+    const readResponse = await request(`/${first!.id}/read`, 'POST');
+    expect(readResponse.status).toBe(200);
+
+    count = await (await request('/count')).json();
+    expect(count.data.count).toBe(1);
+    expect(count.breakdown).toEqual({ friend_request: 1 });
+
+    const list = await (await request('')).json();
+    expect(list.data).toHaveLength(2);
+    expect(list.data.find((n: any) => n.id === first!.id).isRead).toBe(true);
+
+    await request('/read-all', 'POST');
+    count = await (await request('/count')).json();
+    expect(count.data.count).toBe(0);
+  });
+
+  test('should not let users read notifications they do not own', async () => {
+    const notification = await notificationService.create(testData.users[0].id, {
+      type: 'join_request',
+      title: 'Join Request',
+      message: 'Someone wants to join your activity'
+    });
+
+    const response = await request(`/${notification!.id}/read`, 'POST');
+    expect(response.status).toBe(404);
+  });
+});
+
+describe('Notification Preferences - Quiet Hours', () => {
+  const prefs = {
+    quietHoursEnabled: true,
+    quietHoursStart: '22:00',
+    quietHoursEnd: '07:00',
+    timeZone: 'UTC'
+  };
+
+  test('should handle windows that wrap past midnight', () => {
+    expect(isWithinQuietHours(prefs, new Date('2025-06-01T23:30:00Z'))).toBe(true);
+    expect(isWithinQuietHours(prefs, new Date('2025-06-01T06:59:00Z'))).toBe(true);
+    expect(isWithinQuietHours(prefs, new Date('2025-06-01T07:00:00Z'))).toBe(false);
+    expect(isWithinQuietHours(prefs, new Date('2025-06-01T12:00:00Z'))).toBe(false);
+  });
+
+  test('should evaluate the window in the user time zone', () => {
+    // 20:30 UTC is 23:30 in Sofia (UTC+3 in summer)
+    const sofia = { ...prefs, timeZone: 'Europe/Sofia' };
+    expect(isWithinQuietHours(sofia, new Date('2025-06-01T20:30:00Z'))).toBe(true);
+    expect(isWithinQuietHours(prefs, new Date('2025-06-01T20:30:00Z'))).toBe(false);
+  });
+
+  test('should never suppress when quiet hours are disabled', () => {
+    expect(isWithinQuietHours({ ...prefs, quietHoursEnabled: false }, new Date('2025-06-01T23:30:00Z'))).toBe(false);
+  });
+
+  test('should skip muted categories and store the rest', async () => {
+    const testData = await setupTestActivity({
+      activityType: 'Tennis',
+      participants: 1,
+      eloRatings: [1200],
+      teamBased: false
+    });
+
+    try {
+      const userId = testData.users[0].id;
+      await notificationService.updatePreferences(userId, { friendRequests: false });
+
+      const skipped = await notificationService.create(userId, {
+        type: 'friend_request',
+        title: 'Friend Request',
+        message: 'Someone wants to connect with you'
+      });
+      expect(skipped).toBeNull();
+
+      const stored = await notificationService.create(userId, {
+        type: 'rating_needed',
+        title: 'Rate Your Teammates',
+        message: 'Please rate your teammates'
+      });
+      expect(stored).not.toBeNull();
+    } finally {
+      await cleanupTestData(testData);
+    }
+  });
+
+  test('should still store notifications during quiet hours but skip the push', async () => {
+    const testData = await setupTestActivity({
+      activityType: 'Tennis',
+      participants: 1,
+      eloRatings: [1200],
+      teamBased: false
+    });
+    const push = vi.spyOn(notificationService as any, 'push');
+
+    try {
+      // A window from an hour ago to an hour from now, in UTC
+      const hhmm = (offset: number) => new Date(Date.now() + offset).toISOString().slice(11, 16);
+      const userId = testData.users[0].id;
+      await notificationService.updatePreferences(userId, {
+        ...prefs,
+        quietHoursStart: hhmm(-60 * 60 * 1000),
+        quietHoursEnd: hhmm(60 * 60 * 1000)
+      });
+
+      const stored = await notificationService.create(userId, {
+        type: 'rating_needed',
+        title: 'Rate Your Teammates',
+        message: 'Please rate your teammates'
+      });
+      expect(stored).not.toBeNull();
+      expect(push).not.toHaveBeenCalled();
+    } finally {
+      push.mockRestore();
+      await cleanupTestData(testData);
+    }
+  });
+
+  test('should email a daily digest of unread notifications to opted-in users', async () => {
+    const testData = await setupTestActivity({
+      activityType: 'Tennis',
+      participants: 2,
+      eloRatings: [1200, 1200],
+      teamBased: false
+    });
+    const outbox = mailer as FileMailer;
+
+    try {
+      const [subscriber, other] = testData.users;
+      await notificationService.updatePreferences(subscriber.id, { emailDigest: true });
+
+      const read = await notificationService.create(subscriber.id, {
+        type: 'friend_request',
+        title: 'Friend Request',
+        message: 'Someone wants to connect with you'
+      });
+      await notificationService.markRead(subscriber.id, read!.id);
+      await notificationService.create(subscriber.id, {
+        type: 'rating_needed',
+        title: 'Rate Your Teammates',
+        message: 'Please rate your teammates',
+        linkUrl: `/activities/${testData.activity.id}`
+      });
+      await notificationService.create(other.id, {
+        type: 'rating_needed',
+        title: 'Rate Your Teammates',
+        message: 'Please rate your teammates'
+      });
+
+      await notificationService.sendEmailDigests();
+
+      const digest = outbox.lastMessageTo(subscriber.email);
+      expect(digest?.subject).toBe('You have 1 unread notification');
+      expect(digest?.text).toContain(`/activities/${testData.activity.id}`);
+      expect(digest?.text).not.toContain('Friend Request');
+      expect(outbox.lastMessageTo(other.email)).toBeUndefined();
+
+      // Nothing goes out again until a day has passed
+      const digestsTo = (email: string) => outbox.outbox.filter((message) => message.to === email).length;
+      await notificationService.sendEmailDigests(new Date(Date.now() + 60 * 60 * 1000));
+      expect(digestsTo(subscriber.email)).toBe(1);
+    } finally {
+      await cleanupTestData(testData);
+    }
+  });
+});
@@ -0,0 +1,101 @@
+// tests/routers/rating-history.test.ts
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import { cleanupTestData, setupTestActivity } from '../helpers/test-setup';
+import { signJWT } from '../../auth/jwt';
+import { testApp } from '../helpers/test-app';
+import { db } from '../../db/client';
+import { eloHistory, userActivitySkillRatings } from '../../db/schema';
+
+describe('Rating history', () => {
+  let testData: any;
+  let authToken: string;
+  const DAY = 24 * 60 * 60 * 1000;
+
+  beforeEach(async () => {
+    testData = await setupTestActivity({
+      activityType: 'Tennis',
+      participants: 2,
+      eloRatings: [1200, 1200],
+      teamBased: false,
+      withSkills: true
+    });
+
+    authToken = await signJWT({
+      userId: testData.users[1].id,
+      username: testData.users[1].username,
+      email: testData.users[1].email,
+      role: testData.users[1].role
+    });
+  });
+
+  afterEach(async () => {
+    await cleanupTestData(testData);
+  });
+
+  const get = (path: string) =>
+    testApp.request(path, { headers: { 'Authorization': `Bearer ${authToken}` } });
+
+  test('ELO history is bucketed by day and by week', async () => {
+    const user = testData.users[0];
+    const rated = (activityId: string, oldELO: number, newELO: number, daysAgo: number) => ({
+      userId: user.id,
+      activityTypeId: testData.activityType.id,
+      activityId,
+      oldELO,
+      newELO,
+      eloChange: newELO - oldELO,
+      kFactor: 24,
+      expectedScore: 0.5,
+      actualScore: newELO > oldELO ? 1 : 0,
+      createdAt: new Date(Date.now() - daysAgo * DAY)
+    });
+    await db.insert(eloHistory).values([
+      rated(testData.activity.id, 1200, 1216, 400)
+    ]);
+
+    // Rows older than the window are left out
+    const empty = await get(`/api/users/${user.id}/elo/history?days=30`);
+    expect(empty.status).toBe(200);
+    expect((await empty.json()).data.history).toEqual([]);
+
+    for (const bucket of ['day', 'week']) {
+      const response = await get(
+        `/api/users/${user.id}/elo/history?activityTypeId=${testData.activityType.id}&days=730&bucket=${bucket}`
+      );
+      expect(response.status).toBe(200);
+
+      const { data } = await response.json();
+      expect(data.bucket).toBe(bucket);
+      expect(data.history).toHaveLength(1);
+      expect(data.history[0]).toMatchObject({
+        openingELO: 1200,
+        closingELO: 1216,
+        eloChange: 16,
+        gamesPlayed: 1
+      });
+    }
+  });
+
+  test('skill history averages the ratings of one skill', async () => {
+    const [user, rater] = testData.users;
+    await db.insert(userActivitySkillRatings).values(
+      testData.skills.map((skill: any, index: number) => ({
+        activityId: testData.activity.id,
+        ratedUserId: user.id,
+        ratingUserId: rater.id,
+        skillDefinitionId: skill.id,
+        ratingValue: 6 + index
+      }))
+    );
+
+    const response = await get(
+      `/api/skills/user/${user.id}/history?skillDefinitionId=${testData.skills[1].id}&bucket=week`
+    );
+    expect(response.status).toBe(200);
+
+    const { history } = (await response.json()).data;
+    expect(history).toEqual([
+      { bucketStart: expect.any(String), averageRating: 7, ratingsCount: 1 }
+    ]);
+  });
+});
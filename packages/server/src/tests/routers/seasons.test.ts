@@ -0,0 +1,85 @@
+// tests/routers/seasons.test.ts
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { cleanupTestData, setupTestActivity } from '../helpers/test-setup';
+import { signJWT } from '../../auth/jwt';
+import { testApp } from '../helpers/test-app';
+import { db } from '../../db/client';
+import { users } from '../../db/schema';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('Activity Types Router - Seasons', () => {
+  let testData: any;
+  let adminToken: string;
+  let userToken: string;
+
+  beforeEach(async () => {
+    testData = await setupTestActivity({
+      activityType: 'Badminton',
+      participants: 2,
+      eloRatings: [1300, 1100],
+      teamBased: false
+    });
+
+    const [admin, player] = testData.users;
+    await db.update(users).set({ role: 'admin' }).where(eq(users.id, admin.id));
+
+    adminToken = await signJWT({ userId: admin.id, username: admin.username, email: admin.email, role: 'admin' });
+    userToken = await signJWT({ userId: player.id, username: player.username, email: player.email, role: player.role });
+  });
+
+  afterEach(async () => {
+    await cleanupTestData(testData);
+  });
+
+  const request = (token: string, path: string, method: string, body?: unknown) =>
+    testApp.request(`/api/activity-types/${testData.activityType.id}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Content-Type': 'application/json'
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+  const season = (name: string, fromDays: number, toDays: number) => ({
+    name,
+    startDate: new Date(Date.now() + fromDays * DAY).toISOString(),
+    endDate: new Date(Date.now() + toDays * DAY).toISOString()
+  });
+
+  test('admins create seasons that do not overlap', async () => {
+    expect((await request(userToken, '/seasons', 'POST', season('Spring', -1, 30))).status).toBe(403);
+
+    const created = await request(adminToken, '/seasons', 'POST', season('Spring', -1, 30));
+    expect(created.status).toBe(201);
+    expect((await created.json()).data.status).toBe('active');
+
+    const overlapping = await request(adminToken, '/seasons', 'POST', season('Overlap', 20, 50));
+    expect(overlapping.status).toBe(409);
+    expect((await overlapping.json()).error).toContain('Spring');
+
+    expect((await request(adminToken, '/seasons', 'POST', season('Summer', 30, 60))).status).toBe(201);
+
+    const listed = await (await request(userToken, '/seasons', 'GET')).json();
+    expect(listed.data.map((entry: any) => entry.name)).toEqual(['Summer', 'Spring']);
+  });
+
+  test('rolling over ends the running season and resets ratings', async () => {
+    const created = await (await request(adminToken, '/seasons', 'POST', season('Autumn', -1, 30))).json();
+    const seasonId = created.data.id;
+
+    expect((await request(userToken, `/seasons/${seasonId}/rollover`, 'POST')).status).toBe(403);
+
+    const rolled = await request(adminToken, `/seasons/${seasonId}/rollover`, 'POST');
+    expect(rolled.status).toBe(200);
+    expect((await rolled.json()).data).toMatchObject({ seasonId, mean: 1200, playersReset: 2 });
+
+    // Only the running season can be rolled over
+    expect((await request(adminToken, `/seasons/${seasonId}/rollover`, 'POST')).status).toBe(400);
+
+    const leaderboard = await (await request(userToken, '/leaderboard?season=current', 'GET')).json();
+    expect(leaderboard.success).toBe(false);
+  });
+});
@@ -0,0 +1,151 @@
+// tests/routers/team-fixtures.test.ts
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import { eq, inArray } from 'drizzle-orm';
+import { cleanupTestData, setupTestActivity } from '../helpers/test-setup';
+import { signJWT } from '../../auth/jwt';
+import { testApp } from '../helpers/test-app';
+import { db } from '../../db/client';
+import { activities, activityParticipants, teamMembers, teams } from '../../db/schema';
+import { activityLifecycleService } from '../../services/activity-lifecycle.service';
+import { eloProcessingService } from '../../services/elo-processing.service';
+
+describe('Team fixtures', () => {
+  let testData: any;
+  let tokens: string[];
+  let home: typeof teams.$inferSelect;
+  let away: typeof teams.$inferSelect;
+  const createdActivityIds: string[] = [];
+
+  beforeEach(async () => {
+    testData = await setupTestActivity({
+      activityType: 'Football',
+      participants: 4,
+      eloRatings: [1200, 1200, 1200, 1200],
+      teamBased: true
+    });
+
+    // Users 0 and 1 play for the home team, users 2 and 3 for the away team
+    const userId = (index: number) => testData.users[index].id;
+    [home, away] = await db
+      .insert(teams)
+      .values([
+        { name: `Home ${Date.now()}`, creatorId: userId(0), activityTypeId: testData.activityType.id },
+        { name: `Away ${Date.now()}`, creatorId: userId(2) }
+      ])
+      .returning();
+    await db.insert(teamMembers).values([
+      { teamId: home.id, userId: userId(0), role: 'owner' },
+      { teamId: home.id, userId: userId(1) },
+      { teamId: away.id, userId: userId(2), role: 'owner' },
+      { teamId: away.id, userId: userId(3) }
+    ]);
+
+    tokens = await Promise.all(
+      testData.users.map((user: any) =>
+        signJWT({ userId: user.id, username: user.username, email: user.email, role: user.role })
+      )
+    );
+  });
+
+  afterEach(async () => {
+    for (const id of createdActivityIds.splice(0)) {
+      await activityLifecycleService.unscheduleActivity(id);
+      await db.delete(activityParticipants).where(eq(activityParticipants.activityId, id));
+      await db.delete(activities).where(eq(activities.id, id));
+    }
+    await db.delete(teams).where(inArray(teams.id, [home.id, away.id]));
+    await cleanupTestData(testData);
+  });
+
+  const request = (userIndex: number, path: string, method: string, body?: unknown) =>
+    testApp.request(path, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${tokens[userIndex]}`,
+        'Content-Type': 'application/json'
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+  const createFixture = (userIndex: number, homeTeamId: string, awayTeamId: string) =>
+    request(userIndex, '/api/activities', 'POST', {
+      activityTypeId: testData.activityType.id,
+      description: 'League match',
+      dateTime: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+      isELORated: true,
+      homeTeamId,
+      awayTeamId
+    });
+
+  test('fixtures are organised by a player from one of the teams', async () => {
+    expect((await createFixture(0, home.id, home.id)).status).toBe(400);
+
+    const created = await createFixture(0, home.id, away.id);
+    expect(created.status).toBe(201);
+    const { activity } = (await created.json()).data;
+    createdActivityIds.push(activity.id);
+    expect(activity.homeTeamId).toBe(home.id);
+
+    const [creator] = await db
+      .select()
+      .from(activityParticipants)
+      .where(eq(activityParticipants.activityId, activity.id));
+    expect(creator.team).toBe(home.id);
+
+    // Players join the side they are on, whatever they ask for
+    const joined = await request(3, `/api/activities/${activity.id}/join`, 'POST', { team: 'A' });
+    expect(joined.status).toBe(201);
+    expect((await joined.json()).data.participation.team).toBe(away.id);
+
+    expect((await request(0, `/api/activities/${activity.id}/balance-teams`, 'POST')).status).toBe(400);
+  });
+
+  test('completing a fixture rates both teams', async () => {
+    const [fixture] = await db
+      .insert(activities)
+      .values({
+        activityTypeId: testData.activityType.id,
+        creatorId: testData.users[0].id,
+        description: 'League match',
+        dateTime: new Date(Date.now() - 3600000),
+        isELORated: true,
+        completionStatus: 'completed',
+        homeTeamId: home.id,
+        awayTeamId: away.id
+      })
+      .returning();
+    createdActivityIds.push(fixture.id);
+
+    await db.insert(activityParticipants).values(
+      testData.users.map((user: any, index: number) => ({
+        activityId: fixture.id,
+        userId: user.id,
+        status: 'accepted' as const,
+        team: index < 2 ? home.id : away.id
+      }))
+    );
+
+    const processed = await eloProcessingService.onActivityCompletion({
+      activityId: fixture.id,
+      results: testData.users.map((user: any, index: number) => ({
+        userId: user.id,
+        finalResult: index < 2 ? 'win' : 'loss'
+      }))
+    });
+
+    expect(processed.success).toBe(true);
+    expect(processed.participantsProcessed).toBe(4);
+    const homeChange = processed.teamUpdates!.find((u) => u.teamId === home.id)!;
+    expect(homeChange.eloChange).toBeGreaterThan(0);
+
+    const leaderboard = await (
+      await request(2, `/api/teams/leaderboard?activityTypeId=${testData.activityType.id}`, 'GET')
+    ).json();
+    expect(leaderboard.data.leaderboard.map((entry: any) => entry.team.id)).toEqual([home.id, away.id]);
+
+    const statistics = await (await request(2, `/api/teams/${home.id}/statistics`, 'GET')).json();
+    const [rating] = statistics.data.statistics.teamRatings;
+    expect(rating.eloScore).toBe(homeChange.newELO);
+    expect(rating.trend.map((entry: any) => entry.activityId)).toEqual([fixture.id]);
+  });
+});
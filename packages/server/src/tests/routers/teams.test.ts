@@ -0,0 +1,199 @@
+// tests/routers/teams.test.ts
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { cleanupTestData, createTestUsers, setupTestActivity } from '../helpers/test-setup';
+import { signJWT } from '../../auth/jwt';
+import { testApp } from '../helpers/test-app';
+import { db } from '../../db/client';
+import { entityChangeLog } from '../../db/delta-tracking.schema';
+import { teamInvitations, teamJoinRequests } from '../../db/schema';
+import { teamService } from '../../services/team.service';
+
+describe('Teams Router', () => {
+  let testData: any;
+  let tokens: string[];
+
+  beforeEach(async () => {
+    // User 0 owns the team, user 1 plays in it, users 2 and 3 are outsiders
+    const users = await createTestUsers(4);
+    testData = { users };
+
+    tokens = await Promise.all(
+      users.map((user: any) =>
+        signJWT({ userId: user.id, username: user.username, email: user.email, role: user.role })
+      )
+    );
+  });
+
+  afterEach(async () => {
+    for (const user of testData.users) {
+      await db.delete(entityChangeLog).where(eq(entityChangeLog.affectedUserId, user.id));
+    }
+    await cleanupTestData(testData);
+  });
+
+  const request = (userIndex: number, path: string, method: string, body?: unknown) =>
+    testApp.request(path, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${tokens[userIndex]}`,
+        'Content-Type': 'application/json'
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+  const userId = (index: number) => testData.users[index].id;
+
+  const createTeam = async (isPrivate: boolean) => {
+    const res = await request(0, '/api/teams', 'POST', {
+      name: `Team ${Date.now()}-${Math.random()}`,
+      isPrivate,
+      initialMembers: [userId(1)]
+    });
+    expect(res.status).toBe(200);
+    return (await res.json()).data;
+  };
+
+  const rolesOf = async (teamId: string) => {
+    const { data } = await (await request(0, `/api/teams/${teamId}`, 'GET')).json();
+    return Object.fromEntries(data.members.map((member: any) => [member.userId, member.role]));
+  };
+
+  test('the creator owns the team and can only leave after a transfer', async () => {
+    const team = await createTeam(false);
+    expect(await rolesOf(team.id)).toEqual({ [userId(0)]: 'owner', [userId(1)]: 'member' });
+
+    const leave = await request(0, `/api/teams/${team.id}/members/${userId(0)}`, 'DELETE');
+    expect(leave.status).toBe(400);
+
+    // Ownership is not a role that can be handed out directly
+    expect(
+      (await request(0, `/api/teams/${team.id}/members/${userId(1)}`, 'PUT', { role: 'owner' })).status
+    ).toBe(400);
+
+    const transfer = await request(0, `/api/teams/${team.id}/transfer-ownership`, 'POST', {
+      userId: userId(1)
+    });
+    expect(transfer.status).toBe(200);
+    expect(await rolesOf(team.id)).toEqual({ [userId(0)]: 'captain', [userId(1)]: 'owner' });
+
+    expect((await request(0, `/api/teams/${team.id}/members/${userId(0)}`, 'DELETE')).status).toBe(200);
+  });
+
+  test('team details summarise the members ratings for the team sport', async () => {
+    const rated = await setupTestActivity({
+      activityType: 'Handball',
+      participants: 2,
+      eloRatings: [1300, 1100],
+      teamBased: true
+    });
+
+    try {
+      const [owner, member] = rated.users;
+      const ownerToken = await signJWT({ userId: owner.id, username: owner.username, email: owner.email, role: owner.role });
+      const created = await testApp.request('/api/teams', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${ownerToken}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: `Rated ${Date.now()}`,
+          activityTypeId: rated.activityType.id,
+          initialMembers: [member.id]
+        })
+      });
+      expect(created.status).toBe(200);
+      const team = (await created.json()).data;
+
+      const res = await request(2, `/api/teams/${team.id}`, 'GET');
+      expect(res.status).toBe(200);
+      const { statistics } = (await res.json()).data;
+      expect(Number(statistics.averageELO)).toBe(1200);
+      expect(Number(statistics.membersWithELO)).toBe(2);
+    } finally {
+      await cleanupTestData(rated);
+    }
+  });
+
+  test('captains manage members but not each other', async () => {
+    const team = await createTeam(false);
+    await request(2, `/api/teams/${team.id}/join-request`, 'POST', {});
+    await request(3, `/api/teams/${team.id}/join-request`, 'POST', {});
+
+    // Only the owner appoints captains
+    expect(
+      (await request(1, `/api/teams/${team.id}/members/${userId(2)}`, 'PUT', { role: 'captain' })).status
+    ).toBe(403);
+    await request(0, `/api/teams/${team.id}/members/${userId(1)}`, 'PUT', { role: 'captain' });
+    await request(0, `/api/teams/${team.id}/members/${userId(2)}`, 'PUT', { role: 'captain' });
+
+    expect((await request(1, `/api/teams/${team.id}/members/${userId(2)}`, 'DELETE')).status).toBe(403);
+    expect((await request(1, `/api/teams/${team.id}/members/${userId(3)}`, 'DELETE')).status).toBe(200);
+    expect((await request(1, `/api/teams/${team.id}/members/${userId(0)}`, 'DELETE')).status).toBe(400);
+  });
+
+  test('private teams take join requests that the owner or captains answer', async () => {
+    const team = await createTeam(true);
+
+    const asked = await request(2, `/api/teams/${team.id}/join-request`, 'POST', { message: 'I play Tuesdays' });
+    expect(asked.status).toBe(201);
+    const { request: joinRequest } = (await asked.json()).data;
+
+    expect((await request(2, `/api/teams/${team.id}/join-request`, 'POST', {})).status).toBe(409);
+
+    // Plain members can't see or answer requests
+    expect((await request(1, `/api/teams/${team.id}/join-requests`, 'GET')).status).toBe(403);
+
+    const pending = await (await request(0, `/api/teams/${team.id}/join-requests`, 'GET')).json();
+    expect(pending.data.requests.map((r: any) => r.user.id)).toEqual([userId(2)]);
+
+    const approved = await request(0, `/api/teams/${team.id}/join-requests/${joinRequest.id}/respond`, 'PUT', {
+      action: 'approve'
+    });
+    expect(approved.status).toBe(200);
+    expect((await rolesOf(team.id))[userId(2)]).toBe('member');
+
+    // A second answer finds nothing pending
+    expect(
+      (await request(0, `/api/teams/${team.id}/join-requests/${joinRequest.id}/respond`, 'PUT', { action: 'reject' })).status
+    ).toBe(404);
+  });
+
+  test('invitations are answered by the invitee only', async () => {
+    const team = await createTeam(true);
+
+    const invited = await request(0, `/api/teams/${team.id}/invitations`, 'POST', { userId: userId(2) });
+    expect(invited.status).toBe(201);
+    const { invitation } = (await invited.json()).data;
+
+    const mine = await (await request(2, '/api/teams/me/invitations', 'GET')).json();
+    expect(mine.data.invitations.map((i: any) => i.team.id)).toEqual([team.id]);
+
+    expect(
+      (await request(3, `/api/teams/invitations/${invitation.id}/respond`, 'PUT', { action: 'accept' })).status
+    ).toBe(404);
+
+    const accepted = await request(2, `/api/teams/invitations/${invitation.id}/respond`, 'PUT', { action: 'accept' });
+    expect(accepted.status).toBe(200);
+    expect((await rolesOf(team.id))[userId(2)]).toBe('member');
+  });
+
+  test('stale invitations and requests expire', async () => {
+    const team = await createTeam(true);
+    await request(0, `/api/teams/${team.id}/invitations`, 'POST', { userId: userId(2) });
+    await request(3, `/api/teams/${team.id}/join-request`, 'POST', {});
+
+    const past = new Date(Date.now() - 1000);
+    await db.update(teamInvitations).set({ expiresAt: past }).where(eq(teamInvitations.teamId, team.id));
+    await db.update(teamJoinRequests).set({ expiresAt: past }).where(eq(teamJoinRequests.teamId, team.id));
+
+    expect(await teamService.expireStale()).toBeGreaterThanOrEqual(2);
+
+    const [invitation] = await db.select().from(teamInvitations).where(eq(teamInvitations.teamId, team.id));
+    const [joinRequest] = await db.select().from(teamJoinRequests).where(eq(teamJoinRequests.teamId, team.id));
+    expect(invitation.status).toBe('expired');
+    expect(joinRequest.status).toBe('expired');
+
+    // An expired invitation no longer lets the player in
+    const accepted = await request(2, `/api/teams/invitations/${invitation.id}/respond`, 'PUT', { action: 'accept' });
+    expect(accepted.status).toBe(404);
+  });
+});
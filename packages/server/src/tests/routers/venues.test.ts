@@ -0,0 +1,220 @@
+// tests/routers/venues.test.ts
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import { eq, inArray } from 'drizzle-orm';
+import { cleanupTestData, setupTestActivity } from '../helpers/test-setup';
+import { signJWT } from '../../auth/jwt';
+import { testApp } from '../helpers/test-app';
+import { db } from '../../db/client';
+import { activities, venueResources, venues } from '../../db/schema';
+import { computeFreeSlots, openingWindows } from '../../services/venue.service';
+
+const at = (iso: string) => new Date(iso);
+
+describe('Venue availability helpers', () => {
+  test('merges overlapping opening windows for the weekday', () => {
+    // 2026-10-19 is a Monday
+    const windows = openingWindows('2026-10-19', 'UTC', [
+      { dayOfWeek: 1, opensAt: '08:00', closesAt: '12:00' },
+      { dayOfWeek: 1, opensAt: '11:00', closesAt: '14:00' },
+      { dayOfWeek: 2, opensAt: '08:00', closesAt: '22:00' }
+    ]);
+
+    expect(windows).toEqual([
+      { start: at('2026-10-19T08:00:00Z'), end: at('2026-10-19T14:00:00Z') }
+    ]);
+  });
+
+  test('reads opening hours in the venue time zone', () => {
+    const [window] = openingWindows('2026-07-01', 'Europe/Sofia', [
+      { dayOfWeek: 3, opensAt: '09:00', closesAt: '24:00' }
+    ]);
+
+    expect(window.start).toEqual(at('2026-07-01T06:00:00Z'));
+    expect(window.end).toEqual(at('2026-07-01T21:00:00Z'));
+  });
+
+  test('is open all day without opening hours and closed on days without any', () => {
+    expect(openingWindows('2026-10-19', 'UTC', [])).toEqual([
+      { start: at('2026-10-19T00:00:00Z'), end: at('2026-10-20T00:00:00Z') }
+    ]);
+    expect(
+      openingWindows('2026-10-18', 'UTC', [{ dayOfWeek: 1, opensAt: '08:00', closesAt: '22:00' }])
+    ).toEqual([]);
+  });
+
+  test('free slots skip bookings, short gaps and the past', () => {
+    const windows = [{ start: at('2026-10-19T08:00:00Z'), end: at('2026-10-19T14:00:00Z') }];
+    const bookings = [
+      { start: at('2026-10-19T10:30:00Z'), end: at('2026-10-19T11:30:00Z') },
+      { start: at('2026-10-19T09:00:00Z'), end: at('2026-10-19T10:00:00Z') }
+    ];
+
+    expect(computeFreeSlots(windows, bookings, 60, at('2026-10-19T07:00:00Z'))).toEqual([
+      { start: at('2026-10-19T08:00:00Z'), end: at('2026-10-19T09:00:00Z') },
+      { start: at('2026-10-19T11:30:00Z'), end: at('2026-10-19T14:00:00Z') }
+    ]);
+    expect(computeFreeSlots(windows, bookings, 30, at('2026-10-19T08:30:00Z'))).toEqual([
+      { start: at('2026-10-19T08:30:00Z'), end: at('2026-10-19T09:00:00Z') },
+      { start: at('2026-10-19T10:00:00Z'), end: at('2026-10-19T10:30:00Z') },
+      { start: at('2026-10-19T11:30:00Z'), end: at('2026-10-19T14:00:00Z') }
+    ]);
+  });
+});
+
+describe('Venues Router - Court bookings', () => {
+  let testData: any;
+  let authToken: string;
+  let venueId: string;
+  let venueName: string;
+  let courtIds: string[];
+  let day: string;
+
+  beforeEach(async () => {
+    testData = await setupTestActivity({
+      activityType: 'Squash',
+      participants: 2,
+      eloRatings: [1200, 1200],
+      teamBased: false
+    });
+
+    authToken = await signJWT({
+      userId: testData.users[0].id,
+      username: testData.users[0].username,
+      email: testData.users[0].email,
+      role: testData.users[0].role
+    });
+
+    venueName = `Squash Centre ${Date.now()}`;
+    const res = await testApp.request('/api/venues', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${authToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        name: venueName,
+        latitude: 42.69,
+        longitude: 23.32,
+        timeZone: 'UTC',
+        resources: [{ name: 'Court 1', capacity: 4 }, { name: 'Court 2', capacity: 4 }],
+        activityTypeIds: [testData.activityType.id],
+        openingHours: [0, 1, 2, 3, 4, 5, 6].map((dayOfWeek) => ({
+          dayOfWeek,
+          opensAt: '08:00',
+          closesAt: '22:00'
+        }))
+      })
+    });
+    expect(res.status).toBe(201);
+    venueId = (await res.json()).data.venue.id;
+
+    const courts = await db
+      .select()
+      .from(venueResources)
+      .where(eq(venueResources.venueId, venueId))
+      .orderBy(venueResources.name);
+    courtIds = courts.map((court) => court.id);
+
+    day = new Date(Date.now() + 2 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  });
+
+  afterEach(async () => {
+    await db.delete(activities).where(inArray(activities.venueResourceId, courtIds));
+    await db.delete(venues).where(eq(venues.id, venueId));
+    await cleanupTestData(testData);
+  });
+
+  const book = (overrides: Record<string, unknown>) =>
+    testApp.request('/api/activities', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${authToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        activityTypeId: testData.activityType.id,
+        description: 'Squash session',
+        venueResourceId: courtIds[0],
+        dateTime: `${day}T10:00:00.000Z`,
+        durationMinutes: 90,
+        maxParticipants: 2,
+        ...overrides
+      })
+    });
+
+  test('books a court and links the activity to its venue', async () => {
+    const res = await book({});
+
+    expect(res.status).toBe(201);
+    const { activity } = (await res.json()).data;
+    expect(activity.venueId).toBe(venueId);
+    expect(activity.venueResourceId).toBe(courtIds[0]);
+    expect(activity.location).toBe(`${venueName} - Court 1`);
+  });
+
+  test('rejects an overlapping booking on the same court', async () => {
+    expect((await book({})).status).toBe(201);
+
+    const clash = await book({ dateTime: `${day}T11:00:00.000Z`, durationMinutes: 60 });
+    expect(clash.status).toBe(409);
+    const body = await clash.json();
+    expect(body.conflictingActivity.durationMinutes).toBe(90);
+
+    // Back-to-back and other-court bookings are fine
+    expect((await book({ dateTime: `${day}T11:30:00.000Z` })).status).toBe(201);
+    expect((await book({ venueResourceId: courtIds[1], dateTime: `${day}T11:00:00.000Z` })).status).toBe(201);
+  });
+
+  test('ignores cancelled bookings', async () => {
+    const first = await (await book({})).json();
+    await db
+      .update(activities)
+      .set({ completionStatus: 'cancelled' })
+      .where(eq(activities.id, first.data.activity.id));
+
+    expect((await book({})).status).toBe(201);
+  });
+
+  test('rejects bookings outside opening hours or over capacity', async () => {
+    expect((await book({ dateTime: `${day}T21:00:00.000Z` })).status).toBe(400);
+    expect((await book({ maxParticipants: 6 })).status).toBe(400);
+  });
+
+  test('rescheduling onto a booked slot is rejected', async () => {
+    await book({});
+    const second = await (await book({ dateTime: `${day}T14:00:00.000Z` })).json();
+
+    const res = await testApp.request(`/api/activities/${second.data.activity.id}/reschedule`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${authToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ dateTime: `${day}T10:30:00.000Z` })
+    });
+
+    expect(res.status).toBe(409);
+  });
+
+  test('availability lists bookings and free slots per court', async () => {
+    await book({});
+
+    const res = await testApp.request(
+      `/api/venues/${venueId}/availability?date=${day}&durationMinutes=60`,
+      { headers: { 'Authorization': `Bearer ${authToken}` } }
+    );
+
+    expect(res.status).toBe(200);
+    const { data } = await res.json();
+    const [court1, court2] = data.resources;
+
+    expect(court1.bookings).toHaveLength(1);
+    expect(court1.freeSlots).toEqual([
+      { start: `${day}T08:00:00.000Z`, end: `${day}T10:00:00.000Z` },
+      { start: `${day}T11:30:00.000Z`, end: `${day}T22:00:00.000Z` }
+    ]);
+    expect(court2.freeSlots).toEqual([
+      { start: `${day}T08:00:00.000Z`, end: `${day}T22:00:00.000Z` }
+    ]);
+  });
+});
@@ -0,0 +1,129 @@
+// tests/season.test.ts
+import { describe, expect, test, beforeEach, afterEach } from 'vitest';
+import { and, eq } from 'drizzle-orm';
+import { cleanupTestData, setupTestActivity } from './helpers/test-setup';
+import { db } from '../db/client';
+import { eloHistory, seasonStandings, seasons, userActivityTypeELOs } from '../db/schema';
+import { seasonService } from '../services/season.service';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('Seasons', () => {
+  let testData: any;
+
+  beforeEach(async () => {
+    testData = await setupTestActivity({
+      activityType: 'Squash',
+      participants: 2,
+      eloRatings: [1400, 1000],
+      teamBased: false
+    });
+  });
+
+  afterEach(async () => {
+    await cleanupTestData(testData);
+  });
+
+  const ratingOf = async (userId: string) => {
+    const [rating] = await db
+      .select()
+      .from(userActivityTypeELOs)
+      .where(
+        and(
+          eq(userActivityTypeELOs.userId, userId),
+          eq(userActivityTypeELOs.activityTypeId, testData.activityType.id)
+        )
+      );
+    return rating;
+  };
+
+  test('a season starting now snapshots every rating', async () => {
+    const season = await seasonService.createSeason(testData.activityType.id, {
+      name: 'Spring',
+      startDate: new Date(Date.now() - DAY),
+      endDate: new Date(Date.now() + 30 * DAY),
+      resetFactor: 0.5
+    });
+
+    expect(season.status).toBe('active');
+    expect((await ratingOf(testData.users[0].id)).seasonELO).toBe(1400);
+    expect((await ratingOf(testData.users[1].id)).seasonELO).toBe(1000);
+  });
+
+  test('overlapping seasons are rejected, adjacent ones are not', async () => {
+    const activityTypeId = testData.activityType.id;
+    const startDate = new Date(Date.now() + 10 * DAY);
+    const endDate = new Date(Date.now() + 40 * DAY);
+    await seasonService.createSeason(activityTypeId, { name: 'Summer', startDate, endDate, resetFactor: 0.5 });
+
+    await expect(
+      seasonService.createSeason(activityTypeId, {
+        name: 'Overlap',
+        startDate: new Date(Date.now() + 30 * DAY),
+        endDate: new Date(Date.now() + 60 * DAY),
+        resetFactor: 0.5
+      })
+    ).rejects.toThrow('Season overlaps with "Summer"');
+
+    const next = await seasonService.createSeason(activityTypeId, {
+      name: 'Autumn',
+      startDate: endDate,
+      endDate: new Date(Date.now() + 70 * DAY),
+      resetFactor: 0.5
+    });
+    expect(next.status).toBe('upcoming');
+  });
+
+  test('rollover archives standings, resets toward the mean and starts the next season', async () => {
+    const activityTypeId = testData.activityType.id;
+    const [winner, loser] = testData.users;
+    const season = await seasonService.createSeason(activityTypeId, {
+      name: 'Winter',
+      startDate: new Date(Date.now() - 2 * DAY),
+      endDate: new Date(Date.now() + DAY),
+      resetFactor: 0.5
+    });
+    const [nextSeason] = await db
+      .insert(seasons)
+      .values({
+        activityTypeId,
+        name: 'Spring',
+        startDate: new Date(Date.now() - DAY),
+        endDate: new Date(Date.now() + 30 * DAY)
+      })
+      .returning();
+
+    // Both players gained games for the type, only the winner has a game in the window
+    await db
+      .update(userActivityTypeELOs)
+      .set({ eloScore: 1500 })
+      .where(and(eq(userActivityTypeELOs.userId, winner.id), eq(userActivityTypeELOs.activityTypeId, activityTypeId)));
+    await db.insert(eloHistory).values({
+      userId: winner.id,
+      activityTypeId,
+      activityId: testData.activity.id,
+      oldELO: 1400,
+      newELO: 1500,
+      eloChange: 100,
+      kFactor: 32,
+      expectedScore: 0.5,
+      actualScore: 1
+    });
+
+    const result = await seasonService.rolloverSeason(season.id);
+
+    // Mean of 1500 and 1000 is 1250; half of the distance to it is removed
+    expect(result).toMatchObject({ mean: 1250, playersReset: 2, standingsArchived: 1, nextSeasonId: nextSeason.id });
+    expect(await ratingOf(winner.id)).toMatchObject({ eloScore: 1375, seasonELO: 1375 });
+    expect(await ratingOf(loser.id)).toMatchObject({ eloScore: 1125, seasonELO: 1125 });
+
+    const standings = await db.select().from(seasonStandings).where(eq(seasonStandings.seasonId, season.id));
+    expect(standings).toEqual([
+      expect.objectContaining({ userId: winner.id, rank: 1, startELO: 1400, finalELO: 1500, resetELO: 1375 })
+    ]);
+
+    const archived = await seasonService.getSeasonLeaderboard({ ...season, status: 'completed' }, 10, 0);
+    expect(archived.leaderboard[0]).toMatchObject({ userId: winner.id, seasonChange: 100 });
+    expect((await seasonService.getActiveSeason(activityTypeId))?.id).toBe(nextSeason.id);
+  });
+});
@@ -0,0 +1,44 @@
+// tests/team-elo.test.ts
+import { describe, expect, test } from 'vitest';
+import { resolveActivityELOSettings } from '../services/elo-calc.service';
+import { rateFixture, type FixtureSide } from '../services/team-elo.service';
+
+describe('Team ratings', () => {
+  const settings = resolveActivityELOSettings({}, 'team_sports');
+
+  const side = (teamId: string, rating: number, finalResult: FixtureSide['finalResult']): FixtureSide => ({
+    teamId,
+    rating,
+    ratingDeviation: 350,
+    volatility: 0.06,
+    gamesPlayed: 0,
+    finalResult
+  });
+
+  test('evenly matched teams trade the same points', () => {
+    const [home, away] = rateFixture(side('home', 1200, 'win'), side('away', 1200, 'loss'), settings);
+
+    expect(home.eloChange).toBeGreaterThan(0);
+    expect(away.eloChange).toBe(-home.eloChange);
+    expect(home.opponentTeamId).toBe('away');
+    expect(home.expectedScore).toBeCloseTo(0.5);
+  });
+
+  test('a draw costs the stronger team', () => {
+    const [home, away] = rateFixture(side('home', 1500, 'draw'), side('away', 1300, 'draw'), settings);
+
+    expect(home.eloChange).toBeLessThan(0);
+    expect(away.eloChange).toBeGreaterThan(0);
+  });
+
+  test('a lopsided score moves ratings further', () => {
+    const [narrow] = rateFixture(side('home', 1200, 'win'), side('away', 1200, 'loss'), settings);
+    const [rout] = rateFixture(
+      { ...side('home', 1200, 'win'), marginMultiplier: 1.5 },
+      side('away', 1200, 'loss'),
+      settings
+    );
+
+    expect(rout.eloChange).toBeGreaterThan(narrow.eloChange);
+  });
+});
@@ -0,0 +1,33 @@
+// tests/team-roles.test.ts
+import { describe, expect, test } from 'vitest';
+import { canRemoveMember, pickSuccessor } from '../services/team.service';
+
+describe('Team roles', () => {
+  test('captains remove members, only the owner removes captains', () => {
+    expect(canRemoveMember('captain', 'member')).toBe(true);
+    expect(canRemoveMember('captain', 'captain')).toBe(false);
+    expect(canRemoveMember('owner', 'captain')).toBe(true);
+    expect(canRemoveMember('member', 'member')).toBe(false);
+  });
+
+  test('nobody removes the owner', () => {
+    expect(canRemoveMember('owner', 'owner')).toBe(false);
+  });
+
+  test('the longest-serving captain takes over, then the longest-serving member', () => {
+    const member = (id: string, role: 'owner' | 'captain' | 'member', joined: string) => ({
+      id,
+      role,
+      joinedAt: new Date(joined)
+    });
+
+    const owner = member('owner', 'owner', '2024-01-01');
+    const veteran = member('veteran', 'member', '2024-01-02');
+    const newCaptain = member('new-captain', 'captain', '2024-06-01');
+    const oldCaptain = member('old-captain', 'captain', '2024-03-01');
+
+    expect(pickSuccessor([owner, veteran, newCaptain, oldCaptain])?.id).toBe('old-captain');
+    expect(pickSuccessor([owner, veteran])?.id).toBe('veteran');
+    expect(pickSuccessor([owner])).toBeUndefined();
+  });
+});
@@ -0,0 +1,97 @@
+// src/utils/geo.ts - Great-circle distance computed in SQL (PostGIS when installed, haversine otherwise)
+import { and, between, sql, type AnyColumn, type SQL } from "drizzle-orm";
+import { db } from "../db/client.js";
+
+const EARTH_RADIUS_KM = 6371.0088;
+const KM_PER_DEGREE = 111.32;
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+interface GeoColumns {
+  latitude: AnyColumn;
+  longitude: AnyColumn;
+}
+
+let postgisCheck: Promise<boolean> | null = null;
+
+/**
+ * Whether the connected database has the PostGIS extension. Checked once per process.
+ */
+export function hasPostGIS(): Promise<boolean> {
+  postgisCheck ??= db
+    .execute(sql`SELECT 1 FROM pg_extension WHERE extname = 'postgis'`)
+    .then((rows) => rows.length > 0)
+    .catch(() => false);
+  return postgisCheck;
+}
+
+/**
+ * SQL expression for the distance in km between the columns and a point.
+ * NULL when the row has no coordinates.
+ */
+export async function distanceKmSql(
+  columns: GeoColumns,
+  point: GeoPoint
+): Promise<SQL<number | null>> {
+  const lat = sql`${point.latitude}::double precision`;
+  const lng = sql`${point.longitude}::double precision`;
+
+  const distance = (await hasPostGIS())
+    ? sql`(ST_DistanceSphere(
+      ST_MakePoint(${columns.longitude}, ${columns.latitude}),
+      ST_MakePoint(${lng}, ${lat})
+    ) / 1000)`
+    : sql`(${EARTH_RADIUS_KM}::double precision * 2 * asin(least(1, sqrt(
+    power(sin(radians(${columns.latitude} - ${lat}) / 2), 2) +
+    cos(radians(${lat})) * cos(radians(${columns.latitude})) *
+    power(sin(radians(${columns.longitude} - ${lng}) / 2), 2)
+  ))))`;
+
+  // least() skips NULLs, so missing coordinates would otherwise come out as
+  // half the Earth's circumference instead of NULL
+  return sql<number | null>`(CASE
+    WHEN ${columns.latitude} IS NULL OR ${columns.longitude} IS NULL THEN NULL
+    ELSE ${distance}
+  END)`.mapWith(Number);
+}
+
+/**
+ * Cheap lat/lng box around the circle so the (latitude, longitude) index can
+ * narrow rows before the exact distance is computed. The longitude bound is
+ * dropped near the poles and across the antimeridian.
+ */
+export function boundingBoxSql(
+  columns: GeoColumns,
+  point: GeoPoint,
+  radiusKm: number
+): SQL | undefined {
+  const latDelta = radiusKm / KM_PER_DEGREE;
+  const latBound = between(
+    columns.latitude,
+    point.latitude - latDelta,
+    point.latitude + latDelta
+  );
+
+  const cosLat = Math.cos((point.latitude * Math.PI) / 180);
+  const lngDelta = cosLat > 0.01 ? radiusKm / (KM_PER_DEGREE * cosLat) : 360;
+  const minLng = point.longitude - lngDelta;
+  const maxLng = point.longitude + lngDelta;
+
+  if (minLng < -180 || maxLng > 180) return latBound;
+  return and(latBound, between(columns.longitude, minLng, maxLng));
+}
+
+/**
+ * Rows within radiusKm of the point
+ */
+export async function withinRadiusSql(
+  columns: GeoColumns,
+  point: GeoPoint,
+  radiusKm: number
+): Promise<SQL | undefined> {
+  const distance = await distanceKmSql(columns, point);
+  return and(boundingBoxSql(columns, point, radiusKm), sql`${distance} <= ${radiusKm}`);
+}
@@ -0,0 +1,150 @@
+// src/utils/match-score.ts - Work out outcomes and margins from a structured match score
+import type { ActivityScore, ParticipantResult } from "../db/zod.schema.js";
+
+export interface ScoredParticipant {
+  userId: string;
+  team?: string | null;
+}
+
+export type ScoreOutcome =
+  | { success: true; results: ParticipantResult[] }
+  | { success: false; error: string };
+
+/**
+ * The side a participant plays for in a sets or goals score: their team when
+ * everyone has one, otherwise themselves
+ */
+export function scoreSideOf(
+  participant: ScoredParticipant,
+  participants: ScoredParticipant[]
+): string {
+  const byTeam = participants.every((p) => !!p.team);
+  return byTeam ? participant.team! : participant.userId;
+}
+
+/**
+ * Rank every participant from the score and derive win/loss/draw. Shared
+ * positions are ties (1, 2, 2, 4); a shared first place is a draw.
+ */
+export function outcomesFromScore(
+  score: ActivityScore,
+  participants: ScoredParticipant[]
+): ScoreOutcome {
+  const totals = sideTotals(score);
+  const sides = participants.map((p) =>
+    score.format === "sets" || score.format === "goals"
+      ? scoreSideOf(p, participants)
+      : p.userId
+  );
+  const expected = new Set(sides);
+
+  const unknown = [...totals.keys()].filter((side) => !expected.has(side));
+  if (unknown.length > 0) {
+    return {
+      success: false,
+      error: `Score includes sides that did not play: ${unknown.join(", ")}`,
+    };
+  }
+
+  const missing = [...expected].filter((side) => !totals.has(side));
+  if (missing.length > 0) {
+    return {
+      success: false,
+      error: `Score is missing sides: ${missing.join(", ")}`,
+    };
+  }
+
+  if (expected.size < 2) {
+    return { success: false, error: "A score needs at least two sides" };
+  }
+
+  const values = [...totals.values()];
+  const placements = new Map(
+    [...totals.entries()].map(([side, value]) => [
+      side,
+      1 + values.filter((other) => other > value).length,
+    ])
+  );
+  const sharedFirst = [...placements.values()].filter((p) => p === 1).length > 1;
+
+  return {
+    success: true,
+    results: participants.map((participant, index) => {
+      const placement = placements.get(sides[index])!;
+      return {
+        userId: participant.userId,
+        finalResult:
+          placement > 1 ? "loss" : sharedFirst ? "draw" : "win",
+        placement,
+      };
+    }),
+  };
+}
+
+/**
+ * How far a side finished from its strongest opponent, in games for sets and
+ * goals for goals. Other formats have no comparable margin.
+ */
+export function scoreMargin(score: ActivityScore, side: string): number | null {
+  if (score.format !== "sets" && score.format !== "goals") {
+    return null;
+  }
+
+  const points = new Map<string, number>();
+  const games = score.format === "sets" ? score.sets : [score.goals];
+  for (const set of games) {
+    for (const [key, value] of Object.entries(set)) {
+      points.set(key, (points.get(key) ?? 0) + value);
+    }
+  }
+
+  const own = points.get(side);
+  const opponents = [...points.entries()]
+    .filter(([key]) => key !== side)
+    .map(([, value]) => value);
+  if (own === undefined || opponents.length === 0) {
+    return null;
+  }
+
+  return Math.abs(own - Math.max(...opponents));
+}
+
+// Higher is better for every side: sets won, goals, negated time, distance or position
+function sideTotals(score: ActivityScore): Map<string, number> {
+  const totals = new Map<string, number>();
+
+  switch (score.format) {
+    case "sets":
+      for (const set of score.sets) {
+        const best = Math.max(...Object.values(set));
+        const leaders = Object.entries(set).filter(([, games]) => games === best);
+        for (const side of Object.keys(set)) {
+          const won = leaders.length === 1 && leaders[0][0] === side ? 1 : 0;
+          totals.set(side, (totals.get(side) ?? 0) + won);
+        }
+      }
+      break;
+    case "goals":
+      for (const [side, goals] of Object.entries(score.goals)) {
+        totals.set(side, goals);
+      }
+      break;
+    case "time":
+      for (const entry of score.entries) {
+        totals.set(entry.userId, -entry.seconds);
+      }
+      break;
+    case "distance":
+      for (const entry of score.entries) {
+        totals.set(entry.userId, entry.meters);
+      }
+      break;
+    case "placement":
+      for (const entry of score.entries) {
+        totals.set(entry.userId, -entry.position);
+      }
+      break;
+  }
+
+  return totals;
+}